@@ -19,6 +19,8 @@ const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Agents = lazy(() => import("./pages/Agents"));
 const AgentChat = lazy(() => import("./pages/AgentChat"));
 const CalendarPage = lazy(() => import("./pages/CalendarPage"));
+const Reviews = lazy(() => import("./pages/Reviews"));
+const Team = lazy(() => import("./pages/Team"));
 const Analytics = lazy(() => import("./pages/Analytics"));
 const LinkedInConnection = lazy(() => import("./pages/LinkedInConnection"));
 const LinkedInProfile = lazy(() => import("./pages/LinkedInProfile"));
@@ -85,6 +87,8 @@ const AppContent = () => {
             <Route path="/dashboard/agents" element={<Agents />} />
             <Route path="/dashboard/agents/chat" element={<AgentChat />} />
             <Route path="/dashboard/calendar" element={<CalendarPage />} />
+            <Route path="/dashboard/reviews" element={<Reviews />} />
+            <Route path="/dashboard/team" element={<Team />} />
             <Route path="/dashboard/analytics" element={<Analytics />} />
             <Route path="/dashboard/linkedin" element={<LinkedInConnection />} />
             <Route path="/dashboard/profile" element={<LinkedInProfile />} />
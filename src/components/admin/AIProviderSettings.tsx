@@ -0,0 +1,379 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Bot, Plus, Pencil, Trash2, Loader2, Save, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { useAIProviders, type AIProvider } from "@/hooks/useAIProviders";
+import { LLM_PROVIDER_KINDS, isAllowedApiKeyEnv, type LLMProviderKind } from "../../../supabase/functions/_shared/llmProviders";
+
+interface ProviderForm {
+  id: string;
+  name: string;
+  kind: LLMProviderKind;
+  base_url: string;
+  api_key_env: string;
+  chat_model: string;
+  image_model: string;
+  image_api: "images" | "chat";
+  embedding_model: string;
+  models: string;
+  priority: string;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  id: "",
+  name: "",
+  kind: "openai",
+  base_url: LLM_PROVIDER_KINDS[0].defaultBaseUrl,
+  api_key_env: "",
+  chat_model: "",
+  image_model: "",
+  image_api: "images",
+  embedding_model: "",
+  models: "",
+  priority: "100",
+};
+
+function toForm(provider: AIProvider): ProviderForm {
+  return {
+    id: provider.id,
+    name: provider.name,
+    kind: provider.kind as LLMProviderKind,
+    base_url: provider.base_url,
+    api_key_env: provider.api_key_env || "",
+    chat_model: provider.chat_model || "",
+    image_model: provider.image_model || "",
+    image_api: provider.image_api === "chat" ? "chat" : "images",
+    embedding_model: provider.embedding_model || "",
+    models: (provider.models || []).join(", "),
+    priority: String(provider.priority),
+  };
+}
+
+/**
+ * Admin list of chat/image/embedding providers (ai_providers). The API keys themselves
+ * are backend secrets (see AdminAPIKeys); each provider names the secret it uses.
+ */
+export const AIProviderSettings = () => {
+  const { providers, isLoading, refetch } = useAIProviders();
+  const [keyStatuses, setKeyStatuses] = useState<Record<string, boolean>>({});
+  const [editing, setEditing] = useState<{ form: ProviderForm; isNew: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Which of the named key secrets are actually set
+  useEffect(() => {
+    const keys = Array.from(new Set(providers.map((p) => p.api_key_env).filter(Boolean)));
+    if (keys.length === 0) return;
+
+    supabase.functions
+      .invoke("check-api-keys", { body: { keys } })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        setKeyStatuses(data?.statuses || {});
+      })
+      .catch((err) => console.error("Failed to check provider key statuses:", err));
+  }, [providers]);
+
+  const updateForm = (changes: Partial<ProviderForm>) => {
+    setEditing((prev) => prev && { ...prev, form: { ...prev.form, ...changes } });
+  };
+
+  const handleToggle = async (provider: AIProvider, enabled: boolean) => {
+    const { error } = await supabase
+      .from("ai_providers")
+      .update({ is_enabled: enabled })
+      .eq("id", provider.id);
+
+    if (error) {
+      toast.error(error.message || "Failed to update provider");
+      return;
+    }
+    toast.success(`${provider.name} ${enabled ? "enabled" : "disabled"}`);
+    await refetch();
+  };
+
+  const handleDelete = async (provider: AIProvider) => {
+    if (!confirm(`Remove ${provider.name}? Agents using it will fall back to the next provider.`)) return;
+
+    const { error } = await supabase.from("ai_providers").delete().eq("id", provider.id);
+    if (error) {
+      toast.error(error.message || "Failed to remove provider");
+      return;
+    }
+    toast.success(`${provider.name} removed`);
+    await refetch();
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { form, isNew } = editing;
+
+    const id = isNew
+      ? form.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+      : form.id;
+    if (!id || !form.base_url.trim()) {
+      toast.error("Name and base URL are required");
+      return;
+    }
+    if (form.api_key_env.trim() && !isAllowedApiKeyEnv(form.api_key_env.trim())) {
+      toast.error("The API key secret must be named like OPENAI_API_KEY and can't be a SUPABASE_ secret");
+      return;
+    }
+
+    const row = {
+      name: form.name.trim(),
+      kind: form.kind,
+      base_url: form.base_url.trim(),
+      api_key_env: form.api_key_env.trim() || null,
+      chat_model: form.chat_model.trim() || null,
+      image_model: form.image_model.trim() || null,
+      image_api: form.kind === "openai" && form.image_model.trim() ? form.image_api : null,
+      embedding_model: form.kind === "openai" || form.kind === "ollama" ? form.embedding_model.trim() || null : null,
+      models: form.models.split(",").map((m) => m.trim()).filter(Boolean),
+      priority: parseInt(form.priority, 10) || 0,
+    };
+
+    setIsSaving(true);
+    const { error } = isNew
+      ? await supabase.from("ai_providers").insert({ id, ...row })
+      : await supabase.from("ai_providers").update(row).eq("id", id);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to save provider");
+      return;
+    }
+    toast.success(`${row.name} saved`);
+    setEditing(null);
+    await refetch();
+  };
+
+  const kindLabel = (kind: string) => LLM_PROVIDER_KINDS.find((k) => k.value === kind)?.label || kind;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-muted-foreground">AI Providers</h2>
+          <p className="text-sm text-muted-foreground">
+            Tried in priority order (lowest first). On rate limits, exhausted credits or a loading model the next provider is used.
+            Agents can pick their own model.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => setEditing({ form: EMPTY_FORM, isNew: true })}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Provider
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[120px]">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {providers.map((provider) => {
+            const keyConfigured = !provider.api_key_env || keyStatuses[provider.api_key_env];
+            return (
+              <Card key={provider.id} className={provider.is_enabled ? "" : "opacity-60"}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Bot className="w-6 h-6 text-primary" />
+                      <div>
+                        <CardTitle className="text-base">{provider.name}</CardTitle>
+                        <code className="text-xs text-muted-foreground">{provider.base_url}</code>
+                      </div>
+                    </div>
+                    <Switch
+                      checked={provider.is_enabled}
+                      onCheckedChange={(checked) => handleToggle(provider, checked)}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline">{kindLabel(provider.kind)}</Badge>
+                    <Badge variant="secondary">Priority {provider.priority}</Badge>
+                    {provider.api_key_env && (
+                      <Badge variant={keyConfigured ? "default" : "destructive"} className="gap-1">
+                        {keyConfigured ? <CheckCircle2 className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                        {provider.api_key_env}
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    {provider.chat_model && <>Chat: <code>{provider.chat_model}</code><br /></>}
+                    {provider.image_model && <>Images: <code>{provider.image_model}</code><br /></>}
+                    {provider.embedding_model && <>Embeddings: <code>{provider.embedding_model}</code></>}
+                  </CardDescription>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing({ form: toForm(provider), isNew: false })}>
+                      <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                      Edit
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(provider)}>
+                      <Trash2 className="w-3.5 h-3.5 mr-1.5" />
+                      Remove
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.isNew ? "Add AI Provider" : `Edit ${editing?.form.name}`}</DialogTitle>
+            <DialogDescription>
+              Keys are not stored here - enter the name of the backend secret that holds the key.
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="grid grid-cols-2 gap-4 py-2">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="provider-name">Name</Label>
+                <Input
+                  id="provider-name"
+                  value={editing.form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="OpenAI"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={editing.form.kind}
+                  onValueChange={(kind: LLMProviderKind) =>
+                    updateForm({
+                      kind,
+                      base_url: LLM_PROVIDER_KINDS.find((k) => k.value === kind)?.defaultBaseUrl || editing.form.base_url,
+                    })
+                  }
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LLM_PROVIDER_KINDS.map((k) => (
+                      <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-priority">Priority</Label>
+                <Input
+                  id="provider-priority"
+                  type="number"
+                  value={editing.form.priority}
+                  onChange={(e) => updateForm({ priority: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="provider-url">Base URL</Label>
+                <Input
+                  id="provider-url"
+                  value={editing.form.base_url}
+                  onChange={(e) => updateForm({ base_url: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="provider-key">API key secret</Label>
+                <Input
+                  id="provider-key"
+                  value={editing.form.api_key_env}
+                  onChange={(e) => updateForm({ api_key_env: e.target.value.toUpperCase() })}
+                  placeholder="OPENAI_API_KEY (leave empty for local servers)"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-chat-model">Default chat model</Label>
+                <Input
+                  id="provider-chat-model"
+                  value={editing.form.chat_model}
+                  onChange={(e) => updateForm({ chat_model: e.target.value })}
+                  placeholder="gpt-4o-mini"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-image-model">Image model</Label>
+                <Input
+                  id="provider-image-model"
+                  value={editing.form.image_model}
+                  onChange={(e) => updateForm({ image_model: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              {(editing.form.kind === "openai" || editing.form.kind === "ollama") && (
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="provider-embedding-model">Embedding model</Label>
+                  <Input
+                    id="provider-embedding-model"
+                    value={editing.form.embedding_model}
+                    onChange={(e) => updateForm({ embedding_model: e.target.value })}
+                    placeholder="text-embedding-3-small (optional, must return 1536 dimensions)"
+                  />
+                </div>
+              )}
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="provider-models">Other models agents can choose</Label>
+                <Input
+                  id="provider-models"
+                  value={editing.form.models}
+                  onChange={(e) => updateForm({ models: e.target.value })}
+                  placeholder="Comma-separated"
+                />
+              </div>
+              {editing.form.kind === "openai" && editing.form.image_model.trim() && (
+                <div className="space-y-2 col-span-2">
+                  <Label>Image API</Label>
+                  <Select
+                    value={editing.form.image_api}
+                    onValueChange={(image_api: ProviderForm["image_api"]) => updateForm({ image_api })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="images">/images/generations</SelectItem>
+                      <SelectItem value="chat">Chat completions with image output</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !editing?.form.name.trim()}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Provider
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -18,6 +18,7 @@ import {
   Key,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -64,7 +65,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
 
   const handleLogout = async () => {
     // Clear extension data before logout for security
-    window.postMessage({ type: 'CLEAR_USER_SESSION' }, '*');
+    getExtensionClient().send({ type: 'CLEAR_USER_SESSION' });
     
     await supabase.auth.signOut();
     navigate("/admin/login");
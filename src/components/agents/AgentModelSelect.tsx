@@ -0,0 +1,62 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAIProviders, chatModelsFor } from "@/hooks/useAIProviders";
+import type { LLMPreference } from "../../../supabase/functions/_shared/llmProviders";
+
+interface AgentModelSelectProps {
+  value: LLMPreference | null;
+  onChange: (value: LLMPreference | null) => void;
+  className?: string;
+}
+
+const DEFAULT_VALUE = "default";
+
+/**
+ * Pick the chat model an agent writes with (agents.settings.llm).
+ * "Platform default" leaves the choice to the admin's provider order.
+ */
+export const AgentModelSelect = ({ value, onChange, className }: AgentModelSelectProps) => {
+  const { providers, isLoading } = useAIProviders();
+  const selected = value?.provider ? `${value.provider}::${value.model || ""}` : DEFAULT_VALUE;
+
+  const handleChange = (next: string) => {
+    if (next === DEFAULT_VALUE) {
+      onChange(null);
+      return;
+    }
+    const [provider, model] = next.split("::");
+    onChange({ provider, model: model || undefined });
+  };
+
+  return (
+    <Select value={selected} onValueChange={handleChange} disabled={isLoading}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Platform default" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_VALUE}>Platform default</SelectItem>
+        {providers.map((provider) => {
+          const models = chatModelsFor(provider);
+          if (models.length === 0) return null;
+          return (
+            <SelectGroup key={provider.id}>
+              <SelectLabel>{provider.name}</SelectLabel>
+              {models.map((model) => (
+                <SelectItem key={model} value={`${provider.id}::${model}`}>
+                  {model}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+};
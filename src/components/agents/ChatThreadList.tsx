@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MessageSquare,
+  Plus,
+  Search,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  Loader2,
+} from "lucide-react";
+import {
+  UNTITLED_THREAD,
+  type ChatThread,
+  type ChatSearchResult,
+} from "@/hooks/useChatThreads";
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onCreate: () => void;
+  onRename: (threadId: string, title: string) => Promise<boolean>;
+  onDelete: (threadId: string) => void;
+  onSearch: (query: string) => Promise<ChatSearchResult[]>;
+  disabled?: boolean;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Search hit with the matched words in context
+function snippet(content: string, query: string): string {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lower = content.toLowerCase();
+  const at = words.map(w => lower.indexOf(w)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - 40);
+  return `${start > 0 ? "…" : ""}${content.slice(start, start + 120).trim()}${start + 120 < content.length ? "…" : ""}`;
+}
+
+export const ChatThreadList = ({
+  threads,
+  activeThreadId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onSearch,
+  disabled,
+}: ChatThreadListProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+
+  // Debounced search; an empty box shows the thread list again
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const found = await onSearch(query);
+      if (!cancelled) {
+        setResults(found);
+        setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, onSearch]);
+
+  const titleOf = (threadId: string) =>
+    threads.find(t => t.id === threadId)?.title || UNTITLED_THREAD;
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id);
+    setEditTitle(thread.title || "");
+  };
+
+  const saveRename = async () => {
+    if (editingId && (await onRename(editingId, editTitle))) setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-sm">Conversations</h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onCreate} disabled={disabled} title="New conversation">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="relative mb-3">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search history..."
+          className="h-8 pl-8 text-xs"
+        />
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {results ? (
+          <div className="space-y-1 pr-2">
+            {isSearching && <Loader2 className="w-4 h-4 animate-spin mx-auto my-2 text-muted-foreground" />}
+            {!isSearching && results.length === 0 && (
+              <p className="text-xs text-muted-foreground text-center py-4">No messages match.</p>
+            )}
+            {results.map((result) => (
+              <button
+                key={result.messageId}
+                onClick={() => {
+                  onSelect(result.threadId);
+                  setQuery("");
+                }}
+                className="w-full text-left p-2 rounded-md hover:bg-muted transition-colors"
+              >
+                <p className="text-xs font-medium truncate">{titleOf(result.threadId)}</p>
+                <p className="text-xs text-muted-foreground line-clamp-3">
+                  {result.role === "user" ? "You: " : ""}{snippet(result.content, query)}
+                </p>
+                <p className="text-[10px] text-muted-foreground mt-1">
+                  {formatDistanceToNow(new Date(result.createdAt), { addSuffix: true })}
+                </p>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-1 pr-2">
+            {threads.map((thread) => (
+              <div
+                key={thread.id}
+                className={`group flex items-center gap-2 p-2 rounded-md transition-colors ${
+                  thread.id === activeThreadId ? "bg-primary/10" : "hover:bg-muted"
+                }`}
+              >
+                {editingId === thread.id ? (
+                  <>
+                    <Input
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") saveRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="h-7 text-xs"
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={saveRename}>
+                      <Check className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => setEditingId(null)}>
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onSelect(thread.id)}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-xs font-medium truncate flex items-center gap-1.5">
+                        <MessageSquare className="w-3 h-3 shrink-0 text-muted-foreground" />
+                        {thread.title || UNTITLED_THREAD}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground mt-0.5">
+                        {formatDistanceToNow(new Date(thread.last_message_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                    <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startRename(thread)} title="Rename">
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-destructive"
+                        onClick={() => onDelete(thread.id)}
+                        disabled={disabled}
+                        title="Delete conversation"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { HumanizerChanges } from "@/components/posts/HumanizerChanges";
+import {
+  DEFAULT_HUMANIZER_RULES,
+  MAX_HUMANIZER_PHRASES,
+  humanizeWithChanges,
+  type ContractionMode,
+  type HumanizerReplacement,
+  type HumanizerRules,
+} from "../../../supabase/functions/_shared/humanizer";
+
+interface HumanizerRulesEditorProps {
+  value: HumanizerRules;
+  onSave: (rules: HumanizerRules) => Promise<void> | void;
+}
+
+const SAMPLE_TEXT = "In conclusion, I am excited to leverage our new process. 🚀🔥\n\nIt is not about the tools.\n\n#teams #process #leadership #growth\n\nWhat do you think?";
+
+const CONTRACTION_LABELS: Record<ContractionMode, string> = {
+  force: "Always use contractions (I'm, don't)",
+  forbid: "Never use contractions (I am, do not)",
+  keep: "Leave contractions as written",
+};
+
+// One "from -> to" per line; "from ->" removes the phrase
+function parseReplacements(text: string): HumanizerReplacement[] {
+  return text
+    .split("\n")
+    .map((line) => line.split(/\s*(?:->|→)\s*/))
+    .filter((parts) => parts.length === 2 && parts[0].trim())
+    .map(([from, to]) => ({ from: from.trim(), to: to.trim() }))
+    .slice(0, MAX_HUMANIZER_PHRASES);
+}
+
+function parseLimit(text: string): number | null {
+  const value = parseInt(text, 10);
+  return Number.isNaN(value) || value < 0 ? null : value;
+}
+
+/**
+ * Edit an agent's humanizer rules (agents.settings.humanizer) with a live
+ * preview of what they do to a sample post.
+ */
+export const HumanizerRulesEditor = ({ value, onSave }: HumanizerRulesEditorProps) => {
+  const [defaultReplacements, setDefaultReplacements] = useState(value.defaultReplacements);
+  const [contractions, setContractions] = useState<ContractionMode>(value.contractions);
+  const [removeGenericEndings, setRemoveGenericEndings] = useState(value.removeGenericEndings);
+  const [bannedPhrases, setBannedPhrases] = useState(value.bannedPhrases.join("\n"));
+  const [replacements, setReplacements] = useState(value.replacements.map((r) => `${r.from} -> ${r.to}`).join("\n"));
+  const [maxEmojis, setMaxEmojis] = useState(value.maxEmojis?.toString() ?? "");
+  const [maxHashtags, setMaxHashtags] = useState(value.maxHashtags?.toString() ?? "");
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rules: HumanizerRules = useMemo(() => ({
+    defaultReplacements,
+    contractions,
+    removeGenericEndings,
+    bannedPhrases: bannedPhrases.split("\n").map((p) => p.trim()).filter(Boolean).slice(0, MAX_HUMANIZER_PHRASES),
+    replacements: parseReplacements(replacements),
+    maxEmojis: parseLimit(maxEmojis),
+    maxHashtags: parseLimit(maxHashtags),
+  }), [defaultReplacements, contractions, removeGenericEndings, bannedPhrases, replacements, maxEmojis, maxHashtags]);
+
+  const preview = useMemo(() => humanizeWithChanges(sample, rules), [sample, rules]);
+
+  const handleReset = () => {
+    setDefaultReplacements(DEFAULT_HUMANIZER_RULES.defaultReplacements);
+    setContractions(DEFAULT_HUMANIZER_RULES.contractions);
+    setRemoveGenericEndings(DEFAULT_HUMANIZER_RULES.removeGenericEndings);
+    setBannedPhrases("");
+    setReplacements("");
+    setMaxEmojis("");
+    setMaxHashtags("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(rules);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>Casual rewrites</Label>
+          <p className="text-xs text-muted-foreground">"In conclusion," → "Bottom line:", "leverage" → "use" and similar</p>
+        </div>
+        <Switch checked={defaultReplacements} onCheckedChange={setDefaultReplacements} />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>Drop generic endings</Label>
+          <p className="text-xs text-muted-foreground">Removes a closing "What do you think?" or "Thoughts?"</p>
+        </div>
+        <Switch checked={removeGenericEndings} onCheckedChange={setRemoveGenericEndings} />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Contractions</Label>
+        <Select value={contractions} onValueChange={(next) => setContractions(next as ContractionMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CONTRACTION_LABELS) as ContractionMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode}>{CONTRACTION_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="humanizer-max-emojis">Max emojis</Label>
+          <Input
+            id="humanizer-max-emojis"
+            type="number"
+            min={0}
+            placeholder="No limit"
+            value={maxEmojis}
+            onChange={(e) => setMaxEmojis(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="humanizer-max-hashtags">Max hashtags</Label>
+          <Input
+            id="humanizer-max-hashtags"
+            type="number"
+            min={0}
+            placeholder="No limit"
+            value={maxHashtags}
+            onChange={(e) => setMaxHashtags(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="humanizer-banned">Banned phrases</Label>
+        <Textarea
+          id="humanizer-banned"
+          rows={3}
+          placeholder={"game-changer\nIn today's fast-paced world"}
+          value={bannedPhrases}
+          onChange={(e) => setBannedPhrases(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">One per line. The agent is told to avoid them and they're cut from drafts.</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="humanizer-replacements">Replacements</Label>
+        <Textarea
+          id="humanizer-replacements"
+          rows={3}
+          placeholder={"customers -> clients\ngonna -> going to"}
+          value={replacements}
+          onChange={(e) => setReplacements(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">One "phrase {"->"} replacement" per line. These run before the casual rewrites.</p>
+      </div>
+
+      <div className="space-y-1.5 rounded-lg border border-border p-3">
+        <Label htmlFor="humanizer-sample">Try it</Label>
+        <Textarea
+          id="humanizer-sample"
+          rows={4}
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+        />
+        <p className="text-xs whitespace-pre-wrap rounded bg-muted/40 p-2">{preview.content}</p>
+        {preview.changes.length > 0 ? (
+          <HumanizerChanges changes={preview.changes} defaultOpen />
+        ) : (
+          <p className="text-xs text-muted-foreground">No changes with these rules.</p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={handleReset}>Reset to defaults</Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-1" />}
+          Save rules
+        </Button>
+      </div>
+    </div>
+  );
+};
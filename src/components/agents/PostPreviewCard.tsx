@@ -1,9 +1,10 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
   Calendar,
   Clock,
@@ -19,10 +20,22 @@ import {
   CheckCircle,
   AlertCircle,
   ThumbsUp,
+  Send,
+  Split,
 } from "lucide-react";
 import { GeneratedPost } from "@/hooks/useAgentChat";
+import { PostSources } from "@/components/posts/PostSources";
+import { HumanizerChanges } from "@/components/posts/HumanizerChanges";
+import type { StyleProfile } from "@/hooks/useStyleProfile";
+import { styleMatch } from "../../../supabase/functions/_shared/styleFingerprint";
+import { variantLabel } from "../../../supabase/functions/_shared/postVariants";
 import { formatDistanceToNow } from "date-fns";
-import { formatDateOnlyIST, formatTimeIST } from "@/lib/timezoneUtils";
+import {
+  DEFAULT_TIMEZONE,
+  formatDateOnlyInZone,
+  formatTimeInZone,
+  getTimeZoneAbbreviation,
+} from "@/lib/timezoneUtils";
 import { 
   PostStatus,
   STATUS_LABELS, 
@@ -42,8 +55,13 @@ interface PostPreviewCardProps {
   onRegenerate: () => void;
   onGenerateImage: () => void;
   onApprove?: () => void;
+  onRequestReview?: () => void;
+  onKeepVariant?: () => void; // Only while the draft's variant set has other versions
+  onRequestVariants?: () => void;
   isLoading?: boolean;
   isPosting?: boolean;
+  timeZone?: string;
+  styleProfile?: StyleProfile | null;
 }
 
 export function PostPreviewCard({
@@ -55,19 +73,32 @@ export function PostPreviewCard({
   onRegenerate,
   onGenerateImage,
   onApprove,
+  onRequestReview,
+  onKeepVariant,
+  onRequestVariants,
   isLoading,
   isPosting,
+  timeZone = DEFAULT_TIMEZONE,
+  styleProfile,
 }: PostPreviewCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(post.content);
 
   const scheduledDate = new Date(post.scheduledDateTime);
-  const formattedDate = formatDateOnlyIST(scheduledDate);
-  const formattedTime = formatTimeIST(scheduledDate);
+  const formattedDate = formatDateOnlyInZone(scheduledDate, timeZone);
+  const formattedTime = formatTimeInZone(scheduledDate, timeZone);
+  const timeZoneLabel = getTimeZoneAbbreviation(timeZone, scheduledDate);
+
+  // How close the draft is to the user's measured writing style
+  const match = useMemo(
+    () => (styleProfile ? styleMatch(post.content, styleProfile) : null),
+    [post.content, styleProfile]
+  );
 
   const handleSaveEdit = () => {
-    onUpdate({ content: editedContent });
+    // The humanizer's diff no longer describes hand-edited text
+    onUpdate({ content: editedContent, humanizerChanges: undefined });
     setIsEditing(false);
   };
 
@@ -128,6 +159,13 @@ export function PostPreviewCard({
             Failed
           </Badge>
         );
+      case 'in_review':
+      case 'approved':
+        return (
+          <Badge variant="default" className={`${statusColors.bg} ${statusColors.text} ${statusColors.border}`}>
+            {STATUS_LABELS[currentStatus]}
+          </Badge>
+        );
       default:
         return (
           <Badge variant="secondary" className="bg-muted text-muted-foreground">
@@ -157,6 +195,33 @@ export function PostPreviewCard({
             📝 Post {index + 1} of {totalPosts}
           </span>
           {getStatusBadge()}
+          {post.variant && (
+            <Badge variant="outline" className="gap-1">
+              <Split className="w-3 h-3" />
+              {variantLabel(post.variant)}
+            </Badge>
+          )}
+          {match && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  className={match.score >= 75 ? 'text-green-600 border-green-500/40' : match.score >= 50 ? 'text-amber-600 border-amber-500/40' : 'text-destructive border-destructive/40'}
+                >
+                  {match.score}% style match
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                {match.notes.length > 0 ? (
+                  <ul className="text-xs space-y-0.5">
+                    {match.notes.map((note) => <li key={note}>• {note}</li>)}
+                  </ul>
+                ) : (
+                  <p className="text-xs">Reads like your own posts (from {styleProfile?.postsAnalyzed} analyzed)</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -242,7 +307,7 @@ export function PostPreviewCard({
           </div>
           <div className="flex items-center gap-1.5 text-muted-foreground">
             <Clock className="w-3.5 h-3.5" />
-            <span>{formattedTime} IST</span>
+            <span>{formattedTime} {timeZoneLabel}</span>
           </div>
         </div>
         {post.reasoning && (
@@ -250,6 +315,8 @@ export function PostPreviewCard({
             💡 {post.reasoning}
           </p>
         )}
+        <PostSources sources={post.sources} className="mt-1.5" />
+        <HumanizerChanges changes={post.humanizerChanges} className="mt-1.5" />
       </div>
 
       {/* AI Image Toggle */}
@@ -313,6 +380,34 @@ export function PostPreviewCard({
           </Button>
         )}
         
+        {/* Keep this version of a variant set, dropping the others */}
+        {canEdit && onKeepVariant && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 h-8 text-xs border-primary/30 text-primary hover:bg-primary/10"
+            onClick={onKeepVariant}
+            disabled={isLoading || isProcessing}
+          >
+            <Check className="w-3.5 h-3.5 mr-1" />
+            Keep
+          </Button>
+        )}
+
+        {/* Send the draft to a reviewer instead of queueing it */}
+        {currentStatus === 'draft' && onRequestReview && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1 h-8 text-xs"
+            onClick={onRequestReview}
+            disabled={isLoading || isProcessing}
+          >
+            <Send className="w-3.5 h-3.5 mr-1" />
+            Review
+          </Button>
+        )}
+
         {/* Edit button - only if can edit */}
         {canEdit && (
           <Button
@@ -341,6 +436,26 @@ export function PostPreviewCard({
           </Button>
         )}
 
+        {/* Ask the agent for A/B versions of a single draft */}
+        {canEdit && !post.variant && !post.dbId && onRequestVariants && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={onRequestVariants}
+                disabled={isLoading || isProcessing}
+              >
+                <Split className="w-3.5 h-3.5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="text-xs">Write variants with different hooks</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         {/* Processing indicator */}
         {isProcessing && (
           <div className="flex-1 flex items-center justify-center h-8 text-xs text-muted-foreground">
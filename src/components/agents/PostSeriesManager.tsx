@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat, Plus, Trash2, Loader2, RefreshCw, Recycle, CalendarClock } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePostSeries, type PostSeriesKind } from '@/hooks/usePostSeries';
+import { useUserProfile } from '@/hooks/useUserProfile';
+import { describeRecurrence, occurrencesBetween, parseRecurrenceRule } from '@/lib/scheduling';
+import { formatScheduledTimeInZone } from '@/lib/timezoneUtils';
+
+interface PostSeriesManagerProps {
+  agentId: string | null;
+}
+
+const PREVIEW_DAYS = 62;
+
+export const PostSeriesManager: React.FC<PostSeriesManagerProps> = ({ agentId }) => {
+  const { timeZone } = useUserProfile();
+  const {
+    series,
+    isLoading,
+    isGenerating,
+    createSeries,
+    toggleSeries,
+    deleteSeries,
+    generateNow,
+    sendQueuedSeriesPosts,
+  } = usePostSeries(agentId);
+
+  const [showAdd, setShowAdd] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<PostSeriesKind>('recurring');
+  const [recurrenceText, setRecurrenceText] = useState('');
+  const [topics, setTopics] = useState('');
+  const [template, setTemplate] = useState('');
+  const [rewordWithAI, setRewordWithAI] = useState(true);
+  const [cooldownDays, setCooldownDays] = useState('90');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Posts generated by the scheduled run still need to reach the extension
+  useEffect(() => {
+    sendQueuedSeriesPosts();
+  }, [sendQueuedSeriesPosts]);
+
+  const parsed = useMemo(
+    () => parseRecurrenceRule(recurrenceText, { timeZone }),
+    [recurrenceText, timeZone]
+  );
+
+  const preview = useMemo(() => {
+    if (!parsed) return [];
+    const now = new Date();
+    return occurrencesBetween(parsed.rule, now, new Date(now.getTime() + PREVIEW_DAYS * 24 * 60 * 60 * 1000), timeZone).slice(0, 3);
+  }, [parsed, timeZone]);
+
+  const resetForm = () => {
+    setName('');
+    setKind('recurring');
+    setRecurrenceText('');
+    setTopics('');
+    setTemplate('');
+    setRewordWithAI(true);
+    setCooldownDays('90');
+    setShowAdd(false);
+  };
+
+  const handleAdd = async () => {
+    const topicList = topics.split('\n').map(t => t.trim()).filter(Boolean);
+
+    if (!name.trim()) {
+      toast.error('Please give the series a name');
+      return;
+    }
+    if (!parsed) {
+      toast.error("I couldn't read that schedule", {
+        description: 'Try "every Tuesday at 9am" or "first Monday of the month at 10am"',
+      });
+      return;
+    }
+    if (kind === 'recurring' && topicList.length === 0 && !template.trim()) {
+      toast.error('Add at least one topic or a template');
+      return;
+    }
+
+    setIsSaving(true);
+    const created = await createSeries({
+      name: name.trim(),
+      kind,
+      recurrenceText: recurrenceText.trim(),
+      recurrenceRule: parsed.rule,
+      timeZone,
+      topics: kind === 'recurring' ? topicList : [],
+      contentTemplate: kind === 'recurring' ? template.trim() : undefined,
+      rewordWithAI,
+      cooldownDays: Math.max(1, parseInt(cooldownDays, 10) || 90),
+    });
+    setIsSaving(false);
+    if (created) resetForm();
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Repeat className="w-4 h-4 text-primary" />
+            Recurring Series
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowAdd(!showAdd)}
+            className="h-7 text-xs"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            Add
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {showAdd && (
+          <div className="space-y-3 p-3 bg-muted/50 rounded-lg border border-border">
+            <Input
+              placeholder="Name (e.g., 'Tip Tuesday')"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="text-sm"
+            />
+            <Select value={kind} onValueChange={(value) => setKind(value as PostSeriesKind)}>
+              <SelectTrigger className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recurring">🔁 New posts on a schedule</SelectItem>
+                <SelectItem value="evergreen">♻️ Evergreen - recycle top performers</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="space-y-1">
+              <Input
+                placeholder="When? e.g. 'every Tuesday at 9am', 'first Monday of the month'"
+                value={recurrenceText}
+                onChange={(e) => setRecurrenceText(e.target.value)}
+                className="text-sm"
+              />
+              {recurrenceText.trim() && (
+                parsed ? (
+                  <p className="text-xs text-muted-foreground">
+                    {describeRecurrence(parsed.rule)}
+                    {preview.length > 0 && ` · next: ${preview.map(t => formatScheduledTimeInZone(t, timeZone)).join(', ')}`}
+                    {parsed.ambiguous && ` · ${parsed.ambiguityReasons[0]}`}
+                  </p>
+                ) : (
+                  <p className="text-xs text-destructive">Not a repeating schedule yet</p>
+                )
+              )}
+            </div>
+            {kind === 'recurring' ? (
+              <>
+                <Textarea
+                  placeholder="Topics, one per line - the agent rotates through them"
+                  value={topics}
+                  onChange={(e) => setTopics(e.target.value)}
+                  className="min-h-[80px] text-sm resize-none"
+                />
+                <Textarea
+                  placeholder="Optional template or fixed format (used as-is when there are no topics)"
+                  value={template}
+                  onChange={(e) => setTemplate(e.target.value)}
+                  className="min-h-[60px] text-sm resize-none"
+                />
+              </>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="series-cooldown" className="text-xs whitespace-nowrap">
+                  Cooldown (days)
+                </Label>
+                <Input
+                  id="series-cooldown"
+                  type="number"
+                  min={1}
+                  value={cooldownDays}
+                  onChange={(e) => setCooldownDays(e.target.value)}
+                  className="text-sm h-8 w-24"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="series-reword" className="text-xs">
+                Reword with AI each time (avoids duplicate posts)
+              </Label>
+              <Switch id="series-reword" checked={rewordWithAI} onCheckedChange={setRewordWithAI} />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleAdd} disabled={isSaving}>
+                {isSaving ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : null}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : series.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-3">
+            No recurring series yet. Add one to keep this agent's queue filled automatically, within your plan's posting limits.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-[260px] overflow-y-auto">
+            {series.map((s) => {
+              const KindIcon = s.kind === 'evergreen' ? Recycle : CalendarClock;
+              const summary = s.last_run_summary;
+              return (
+                <div
+                  key={s.id}
+                  className="flex items-start justify-between gap-2 p-2 rounded bg-muted/30 border border-border/50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-1.5">
+                      <KindIcon className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                      <p className="text-xs font-medium truncate">{s.name}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {describeRecurrence(s.recurrence_rule)}
+                      {s.kind === 'evergreen' && ` · ${s.cooldown_days}-day cooldown`}
+                    </p>
+                    {summary && (
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        Last run: {summary.created} queued
+                        {summary.skipped.length > 0 && `, ${summary.skipped.length} skipped`}
+                        {summary.failed.length > 0 && `, ${summary.failed.length} failed`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Switch
+                      checked={s.is_active}
+                      onCheckedChange={(checked) => toggleSeries(s.id, checked)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={isGenerating || !s.is_active}
+                      onClick={() => generateNow(s.id)}
+                      title="Fill the queue now"
+                    >
+                      <RefreshCw className={`w-3 h-3 ${isGenerating ? 'animate-spin' : ''}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-destructive/60 hover:text-destructive"
+                      onClick={() => deleteSeries(s.id)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
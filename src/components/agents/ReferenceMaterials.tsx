@@ -5,7 +5,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { BookOpen, Plus, Trash2, Loader2, FileText } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BookOpen, Plus, Trash2, Loader2, FileText, Link2, Upload, RefreshCw, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface ReferenceMaterial {
@@ -13,9 +14,29 @@ interface ReferenceMaterial {
   title: string;
   content: string;
   type: string;
+  source: string;
+  source_url: string | null;
+  file_path: string | null;
+  status: string;
+  error: string | null;
+  chunk_count: number;
   created_at: string;
 }
 
+type AddMode = 'text' | 'file' | 'url';
+
+// Markdown and plain text are read in the browser; PDF and DOCX are uploaded
+// and extracted by ingest-reference-material
+const FILE_SOURCES: Record<string, 'markdown' | 'text' | 'pdf' | 'docx'> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  pdf: 'pdf',
+  docx: 'docx',
+};
+
+const MAX_FILE_MB = 15;
+
 interface ReferenceMaterialsProps {
   agentId: string | null;
 }
@@ -27,17 +48,21 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [type, setType] = useState('writing_sample');
+  const [mode, setMode] = useState<AddMode>('text');
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [indexingIds, setIndexingIds] = useState<string[]>([]);
 
   const fetchMaterials = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user || !agentId) return;
 
+      // Shared with the agent's workspace (RLS limits this to members)
       const { data, error } = await supabase
         .from('agent_reference_materials')
         .select('*')
-        .eq('user_id', user.id)
         .eq('agent_id', agentId)
         .order('created_at', { ascending: false });
 
@@ -54,32 +79,95 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
     fetchMaterials();
   }, [agentId]);
 
+  // Extract, chunk and embed a saved material so the agent can search it
+  const indexMaterial = async (id: string) => {
+    setIndexingIds(prev => [...prev, id]);
+    setMaterials(prev => prev.map(m => (m.id === id ? { ...m, status: 'processing', error: null } : m)));
+    try {
+      const { data, error } = await supabase.functions.invoke('ingest-reference-material', {
+        body: { materialId: id },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Indexing failed');
+      return true;
+    } catch (err) {
+      toast.error('Could not index reference material', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+      return false;
+    } finally {
+      setIndexingIds(prev => prev.filter(existing => existing !== id));
+      fetchMaterials();
+    }
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setContent('');
+    setFile(null);
+    setUrl('');
+    setShowAdd(false);
+  };
+
   const handleAdd = async () => {
-    if (!title.trim() || !content.trim()) {
+    const extension = file?.name.split('.').pop()?.toLowerCase() || '';
+    const fileSource = FILE_SOURCES[extension];
+
+    if (mode === 'text' && (!title.trim() || !content.trim())) {
       toast.error('Please fill in title and content');
       return;
     }
+    if (mode === 'file' && (!file || !fileSource)) {
+      toast.error('Please choose a PDF, DOCX, Markdown or text file');
+      return;
+    }
+    if (mode === 'file' && file && file.size > MAX_FILE_MB * 1024 * 1024) {
+      toast.error(`Files can be up to ${MAX_FILE_MB} MB`);
+      return;
+    }
+    if (mode === 'url' && !/^https?:\/\/\S+$/i.test(url.trim())) {
+      toast.error('Please enter a full URL starting with http:// or https://');
+      return;
+    }
 
     setIsSaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user || !agentId) throw new Error('Not authenticated');
 
-      const { error } = await supabase.from('agent_reference_materials').insert({
-        user_id: user.id,
-        agent_id: agentId,
-        title: title.trim(),
-        content: content.trim(),
-        type,
-      });
+      let row: { title: string; content: string; source: string; source_url?: string; file_path?: string };
+      if (mode === 'file' && file) {
+        const fileTitle = title.trim() || file.name.replace(/\.[^.]+$/, '');
+        if (fileSource === 'pdf' || fileSource === 'docx') {
+          const filePath = `${user.id}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+          const { error: uploadError } = await supabase.storage
+            .from('reference-files')
+            .upload(filePath, file, { upsert: false });
+          if (uploadError) throw uploadError;
+          row = { title: fileTitle, content: '', source: fileSource, file_path: filePath };
+        } else {
+          row = { title: fileTitle, content: (await file.text()).trim(), source: fileSource };
+        }
+      } else if (mode === 'url') {
+        // The page title replaces the URL once it's fetched
+        row = { title: title.trim() || url.trim(), content: '', source: 'url', source_url: url.trim() };
+      } else {
+        row = { title: title.trim(), content: content.trim(), source: 'text' };
+      }
+
+      const { data: saved, error } = await supabase
+        .from('agent_reference_materials')
+        .insert({ user_id: user.id, agent_id: agentId, type, ...row })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
-      toast.success('Reference material added! The agent will use this to improve posts.');
-      setTitle('');
-      setContent('');
-      setShowAdd(false);
+      resetForm();
       fetchMaterials();
+      if (await indexMaterial(saved.id)) {
+        toast.success('Reference material added! The agent will pull from it when relevant.');
+      }
     } catch (err) {
       toast.error('Failed to save reference material');
     } finally {
@@ -87,15 +175,18 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (material: ReferenceMaterial) => {
     try {
       const { error } = await supabase
         .from('agent_reference_materials')
         .delete()
-        .eq('id', id);
+        .eq('id', material.id);
 
       if (error) throw error;
-      setMaterials(prev => prev.filter(m => m.id !== id));
+      if (material.file_path) {
+        await supabase.storage.from('reference-files').remove([material.file_path]);
+      }
+      setMaterials(prev => prev.filter(m => m.id !== material.id));
       toast.success('Material removed');
     } catch (err) {
       toast.error('Failed to delete');
@@ -109,6 +200,13 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
     text: '📄 General Text',
   };
 
+  const describeStatus = (m: ReferenceMaterial) => {
+    if (m.status === 'processing' || indexingIds.includes(m.id)) return 'Indexing...';
+    if (m.status === 'ready') return `${m.chunk_count} section${m.chunk_count === 1 ? '' : 's'} indexed`;
+    if (m.status === 'failed') return m.error || 'Indexing failed';
+    return 'Not indexed yet';
+  };
+
   return (
     <Card className="border-border">
       <CardHeader className="pb-3">
@@ -131,8 +229,15 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
       <CardContent className="space-y-3">
         {showAdd && (
           <div className="space-y-3 p-3 bg-muted/50 rounded-lg border border-border">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as AddMode)}>
+              <TabsList className="grid grid-cols-3 w-full h-8">
+                <TabsTrigger value="text" className="text-xs">Text</TabsTrigger>
+                <TabsTrigger value="file" className="text-xs">File</TabsTrigger>
+                <TabsTrigger value="url" className="text-xs">URL</TabsTrigger>
+              </TabsList>
+            </Tabs>
             <Input
-              placeholder="Title (e.g., 'My LinkedIn writing style')"
+              placeholder={mode === 'text' ? "Title (e.g., 'My LinkedIn writing style')" : 'Title (optional)'}
               value={title}
               onChange={(e) => setTitle(e.target.value)}
               className="text-sm"
@@ -148,18 +253,45 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
                 <SelectItem value="text">📄 General Text</SelectItem>
               </SelectContent>
             </Select>
-            <Textarea
-              placeholder="Paste your content here... (writing samples, brand voice guidelines, topic ideas, etc.)"
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              className="min-h-[100px] text-sm resize-none"
-            />
+            {mode === 'text' && (
+              <Textarea
+                placeholder="Paste your content here... (writing samples, brand voice guidelines, topic ideas, etc.)"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                className="min-h-[100px] text-sm resize-none"
+              />
+            )}
+            {mode === 'file' && (
+              <div className="space-y-1">
+                <Input
+                  type="file"
+                  accept=".pdf,.docx,.md,.markdown,.txt"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="text-sm"
+                />
+                <p className="text-xs text-muted-foreground">
+                  PDF, DOCX, Markdown or text, up to {MAX_FILE_MB} MB. Large handbooks are fine - the agent only reads the relevant parts.
+                </p>
+              </div>
+            )}
+            {mode === 'url' && (
+              <Input
+                placeholder="https://example.com/about"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="text-sm"
+              />
+            )}
             <div className="flex gap-2 justify-end">
               <Button variant="ghost" size="sm" onClick={() => setShowAdd(false)}>
                 Cancel
               </Button>
               <Button size="sm" onClick={handleAdd} disabled={isSaving}>
-                {isSaving ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : null}
+                {isSaving ? (
+                  <Loader2 className="w-3 h-3 animate-spin mr-1" />
+                ) : mode === 'file' ? (
+                  <Upload className="w-3 h-3 mr-1" />
+                ) : null}
                 Save
               </Button>
             </div>
@@ -183,21 +315,46 @@ export const ReferenceMaterials: React.FC<ReferenceMaterialsProps> = ({ agentId
               >
                 <div className="min-w-0 flex-1">
                   <div className="flex items-center gap-1.5">
-                    <FileText className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                    {m.source === 'url' ? (
+                      <Link2 className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                    ) : (
+                      <FileText className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                    )}
                     <p className="text-xs font-medium truncate">{m.title}</p>
                   </div>
                   <p className="text-xs text-muted-foreground mt-0.5">
                     {typeLabels[m.type] || m.type} · {m.content.length} chars
                   </p>
+                  <p
+                    className={`text-xs mt-0.5 flex items-center gap-1 ${
+                      m.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                    }`}
+                  >
+                    {m.status === 'failed' && <AlertCircle className="w-3 h-3 flex-shrink-0" />}
+                    <span className="truncate">{describeStatus(m)}</span>
+                  </p>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  {(m.status === 'pending' || m.status === 'failed') && !indexingIds.includes(m.id) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Index now"
+                      onClick={() => indexMaterial(m.id)}
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-destructive/60 hover:text-destructive"
+                    onClick={() => handleDelete(m)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6 flex-shrink-0 text-destructive/60 hover:text-destructive"
-                  onClick={() => handleDelete(m.id)}
-                >
-                  <Trash2 className="w-3 h-3" />
-                </Button>
               </div>
             ))}
           </div>
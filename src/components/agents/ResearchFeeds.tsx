@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Rss, Trash2, Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ResearchFeed {
+  id: string;
+  url: string;
+  title: string | null;
+  is_enabled: boolean;
+}
+
+/**
+ * RSS/Atom feeds the agents read when researching a topic (see
+ * _shared/research.ts). Feeds belong to the user and are used by all of
+ * their agents.
+ */
+export const ResearchFeeds: React.FC = () => {
+  const [feeds, setFeeds] = useState<ResearchFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [url, setUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchFeeds = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('research_feeds')
+        .select('id, url, title, is_enabled')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setFeeds(data || []);
+    } catch (err) {
+      console.error('Failed to load research feeds:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFeeds();
+  }, []);
+
+  const handleAdd = async () => {
+    const feedUrl = url.trim();
+    if (!/^https?:\/\/\S+$/i.test(feedUrl)) {
+      toast.error('Please enter a full feed URL starting with http:// or https://');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      let title: string | null = null;
+      try {
+        title = new URL(feedUrl).hostname.replace(/^www\./, '');
+      } catch {
+        // keep the URL as the only label
+      }
+
+      const { error } = await supabase
+        .from('research_feeds')
+        .insert({ user_id: user.id, url: feedUrl, title });
+
+      if (error) {
+        toast.error(error.code === '23505' ? 'You already follow this feed' : 'Failed to add feed');
+        return;
+      }
+
+      setUrl('');
+      fetchFeeds();
+      toast.success('Feed added! Agents will check it when researching a topic.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (feed: ResearchFeed, enabled: boolean) => {
+    setFeeds(prev => prev.map(f => (f.id === feed.id ? { ...f, is_enabled: enabled } : f)));
+    const { error } = await supabase
+      .from('research_feeds')
+      .update({ is_enabled: enabled })
+      .eq('id', feed.id);
+
+    if (error) {
+      setFeeds(prev => prev.map(f => (f.id === feed.id ? { ...f, is_enabled: feed.is_enabled } : f)));
+      toast.error('Failed to update feed');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('research_feeds')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setFeeds(prev => prev.filter(f => f.id !== id));
+      toast.success('Feed removed');
+    } catch (err) {
+      toast.error('Failed to delete');
+    }
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Rss className="w-4 h-4 text-primary" />
+          Research Feeds
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="https://example.com/feed.xml"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="text-sm"
+          />
+          <Button size="sm" onClick={handleAdd} disabled={isSaving}>
+            {isSaving ? <Loader2 className="w-3 h-3 animate-spin mr-1" /> : <Plus className="w-3 h-3 mr-1" />}
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : feeds.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-3">
+            No feeds yet. Add RSS or Atom feeds from blogs and news sites you trust - research uses them alongside web search and your reference materials.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-[200px] overflow-y-auto">
+            {feeds.map((feed) => (
+              <div
+                key={feed.id}
+                className="flex items-center justify-between gap-2 p-2 rounded bg-muted/30 border border-border/50"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-medium truncate">{feed.title || feed.url}</p>
+                  <p className="text-xs text-muted-foreground truncate">{feed.url}</p>
+                </div>
+                <Switch
+                  checked={feed.is_enabled}
+                  onCheckedChange={(checked) => handleToggle(feed, checked)}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive flex-shrink-0"
+                  onClick={() => handleDelete(feed.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -10,8 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Calendar, Clock, Send, Loader2, AlertCircle } from "lucide-react";
-import { format, addDays } from "date-fns";
+import { Calendar, Clock, Send, Loader2, AlertCircle, Sparkles } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { 
   parseScheduleTime, 
@@ -19,6 +18,14 @@ import {
   formatRelativeScheduledTime,
   SCHEDULE_ERRORS 
 } from "@/lib/scheduling";
+import { useBestPostingTimes } from "@/hooks/useBestPostingTimes";
+import {
+  DEFAULT_TIMEZONE,
+  getTimeZoneAbbreviation,
+  getZonedDateKey,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "@/lib/timezoneUtils";
 
 interface PreviewPost {
   content: string;
@@ -34,6 +41,7 @@ interface SchedulingDialogProps {
   onCancel: () => void;
   isLoading?: boolean;
   isExtensionConnected?: boolean;
+  timeZone?: string;
 }
 
 export function SchedulingDialog({
@@ -44,19 +52,21 @@ export function SchedulingDialog({
   onCancel,
   isLoading = false,
   isExtensionConnected = false,
+  timeZone = DEFAULT_TIMEZONE,
 }: SchedulingDialogProps) {
-  const [selectedDate, setSelectedDate] = useState<string>(
-    format(new Date(), "yyyy-MM-dd")
-  );
+  // Date/time inputs are the user's wall-clock time in their own timezone
+  const todayKey = getZonedDateKey(new Date(), timeZone);
+  const [selectedDate, setSelectedDate] = useState<string>(todayKey);
   const [selectedTime, setSelectedTime] = useState<string>("09:00");
   const [validationError, setValidationError] = useState<string | null>(null);
+  const { heatmap, suggestedSlots } = useBestPostingTimes(timeZone);
 
   const handleSchedule = () => {
     setValidationError(null);
     
     const [year, month, day] = selectedDate.split("-").map(Number);
     const [hours, minutes] = selectedTime.split(":").map(Number);
-    const scheduledDate = new Date(year, month - 1, day, hours, minutes);
+    const scheduledDate = zonedTimeToUtc(year, month - 1, day, hours, minutes, timeZone);
     
     // Validate the scheduled time
     const validation = validateScheduleTime(scheduledDate);
@@ -82,25 +92,21 @@ export function SchedulingDialog({
         setValidationError(validation.error || SCHEDULE_ERRORS.INVALID_FORMAT);
         return;
       }
-      setSelectedDate(format(date, "yyyy-MM-dd"));
-      setSelectedTime(format(date, "HH:mm"));
+      const parts = getZonedParts(date, timeZone);
+      setSelectedDate(getZonedDateKey(date, timeZone));
+      setSelectedTime(`${String(parts.hours).padStart(2, "0")}:${String(parts.minutes).padStart(2, "0")}`);
     }
   };
 
-  // Quick schedule options
-  const quickOptions = [
+  // Quick schedule options; the best slots are ranked from the user's analytics
+  const quickOptions: { label: string; getValue: () => Date; suggested?: boolean }[] = [
     { label: "Now", getValue: () => new Date() },
     { label: "In 1 hour", getValue: () => new Date(Date.now() + 60 * 60 * 1000) },
-    { label: "Tomorrow 9 AM", getValue: () => {
-      const d = addDays(new Date(), 1);
-      d.setHours(9, 0, 0, 0);
-      return d;
-    }},
-    { label: "Tomorrow 2 PM", getValue: () => {
-      const d = addDays(new Date(), 1);
-      d.setHours(14, 0, 0, 0);
-      return d;
-    }},
+    ...suggestedSlots.map((slot) => ({
+      label: formatRelativeScheduledTime(slot, timeZone),
+      getValue: () => new Date(slot),
+      suggested: true,
+    })),
   ];
 
   if (!previewPost) return null;
@@ -165,11 +171,18 @@ export function SchedulingDialog({
                   size="sm"
                   onClick={() => handleQuickOption(option)}
                   disabled={isLoading || !isExtensionConnected}
+                  className={option.suggested ? "gap-1.5" : undefined}
                 >
+                  {option.suggested && <Sparkles className="w-3.5 h-3.5 text-primary" />}
                   {option.label}
                 </Button>
               ))}
             </div>
+            <p className="text-xs text-muted-foreground">
+              {heatmap.learned
+                ? `Suggested times are your best slots, learned from ${heatmap.sampleSize} published posts.`
+                : "Suggested times follow typical LinkedIn peaks until you have more published posts."}
+            </p>
           </div>
 
           {/* Custom Date/Time */}
@@ -187,14 +200,14 @@ export function SchedulingDialog({
                   setSelectedDate(e.target.value);
                   setValidationError(null);
                 }}
-                min={format(new Date(), "yyyy-MM-dd")}
+                min={todayKey}
                 disabled={isLoading || !isExtensionConnected}
               />
             </div>
             <div className="space-y-2">
               <Label htmlFor="time" className="text-sm font-medium flex items-center gap-1.5">
                 <Clock className="w-4 h-4" />
-                Time (IST)
+                Time ({getTimeZoneAbbreviation(timeZone)})
               </Label>
               <Input
                 id="time"
@@ -0,0 +1,77 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Split } from "lucide-react";
+import type { GeneratedPost } from "@/hooks/useAgentChat";
+import { variantLabel } from "../../../supabase/functions/_shared/postVariants";
+
+interface VariantCompareDialogProps {
+  variants: GeneratedPost[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onKeep: (postId: string) => void;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-2 xl:grid-cols-4",
+};
+
+/**
+ * The versions of one draft_variants set side by side. Keeping one drops the
+ * others and records the pick (see useAgentChat's keepVariant).
+ */
+export function VariantCompareDialog({ variants, open, onOpenChange, onKeep }: VariantCompareDialogProps) {
+  const first = variants[0]?.variant;
+  if (!first) return null;
+
+  const dimensionLabel = first.dimension === "hook" ? "opening" : first.dimension;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="w-5 h-5 text-primary" />
+            Compare {variants.length} versions
+          </DialogTitle>
+          <DialogDescription>
+            Same idea, different {dimensionLabel}. Keep the one you'd post; your agent learns from the pick.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`grid grid-cols-1 gap-3 ${GRID_COLUMNS[variants.length] || GRID_COLUMNS[4]}`}>
+          {variants.map((post) => (
+            <div key={post.id} className="flex flex-col rounded-lg border border-border">
+              <div className="flex items-center justify-between px-3 py-2 border-b border-border bg-muted/50">
+                <Badge variant="outline">{post.variant ? variantLabel(post.variant) : "Version"}</Badge>
+                <span className="text-xs text-muted-foreground">{post.content.length} chars</span>
+              </div>
+              <p className="flex-1 p-3 text-sm whitespace-pre-wrap">{post.content}</p>
+              <div className="p-2 border-t border-border">
+                <Button
+                  size="sm"
+                  className="w-full h-8 text-xs"
+                  onClick={() => {
+                    onKeep(post.id);
+                    onOpenChange(false);
+                  }}
+                >
+                  <Check className="w-3.5 h-3.5 mr-1" />
+                  Keep this one
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useBestPostingTimes } from "@/hooks/useBestPostingTimes";
+import { getTimeZoneAbbreviation } from "@/lib/timezoneUtils";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { describeSlot, SUGGESTED_HOURS } from "../../../supabase/functions/_shared/bestTimes";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Monday first, like the calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const HOURS = Array.from(
+  { length: SUGGESTED_HOURS.to - SUGGESTED_HOURS.from + 1 },
+  (_, i) => SUGGESTED_HOURS.from + i
+);
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour >= 12 ? "p" : "a"}`;
+
+interface BestTimesHeatmapProps {
+  timeZone: string;
+}
+
+/** Weekday × hour grid of how well the user's posts do, best slots listed first */
+export const BestTimesHeatmap = ({ timeZone }: BestTimesHeatmapProps) => {
+  const { heatmap, isLoading } = useBestPostingTimes(timeZone);
+
+  if (isLoading) return <Skeleton className="h-56 rounded-xl" />;
+
+  const visible = heatmap.cells.flatMap((row) => row.filter((cell) => HOURS.includes(cell.hour)));
+  const max = Math.max(...visible.map((cell) => cell.score));
+  const min = Math.min(...visible.map((cell) => cell.score));
+  const intensity = (score: number) => (max > min ? (score - min) / (max - min) : 0.5);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {heatmap.ranked.slice(0, 3).map((slot, i) => (
+          <Badge key={`${slot.weekday}-${slot.hour}`} variant={i === 0 ? "default" : "secondary"}>
+            {i + 1}. {describeSlot(slot)}
+          </Badge>
+        ))}
+        <span className="text-xs text-muted-foreground">
+          {getTimeZoneAbbreviation(timeZone)} ·{" "}
+          {heatmap.learned
+            ? `learned from ${heatmap.sampleSize} posts, per follower`
+            : `typical LinkedIn peaks until you have more posts (${heatmap.sampleSize} so far)`}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="inline-grid gap-1" style={{ gridTemplateColumns: `2.5rem repeat(${HOURS.length}, minmax(1.75rem, 1fr))` }}>
+          <div />
+          {HOURS.map((hour) => (
+            <div key={hour} className="text-[10px] text-muted-foreground text-center">{formatHour(hour)}</div>
+          ))}
+          {WEEKDAY_ORDER.map((weekday) => (
+            <div key={weekday} className="contents">
+              <div className="text-xs text-muted-foreground flex items-center">{WEEKDAYS[weekday]}</div>
+              {HOURS.map((hour) => {
+                const cell = heatmap.cells[weekday][hour];
+                return (
+                  <div
+                    key={hour}
+                    className="h-6 rounded bg-primary"
+                    style={{ opacity: 0.08 + intensity(cell.score) * 0.92 }}
+                    title={`${describeSlot(cell)} · ${cell.score.toFixed(2)}× typical · ${cell.posts} post${cell.posts === 1 ? "" : "s"}`}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import type { AnalyticsComparison } from "@/hooks/useLinkedInAnalytics";
+
+const LINE_COLORS = ["hsl(201, 89%, 40%)", "#f43f5e", "#f59e0b", "#10b981", "hsl(262, 83%, 58%)"];
+
+const formatAge = (hours: number): string => {
+  if (hours === 0) return "0";
+  if (hours < 24) return `${hours}h`;
+  return `${Math.round(hours / 24 * 10) / 10}d`;
+};
+
+interface GrowthComparisonChartProps {
+  comparison: AnalyticsComparison | null;
+}
+
+/** Views of several posts overlaid by time since each was published */
+export const GrowthComparisonChart = ({ comparison }: GrowthComparisonChartProps) => {
+  if (!comparison || comparison.posts.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+        Growth curves appear after a post has been synced a few times.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={comparison.rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="hours"
+            tickFormatter={formatAge}
+            stroke="hsl(var(--muted-foreground))"
+            fontSize={11}
+          />
+          <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+            }}
+            labelFormatter={(hours: number) => `${formatAge(hours)} after publish`}
+          />
+          <Legend />
+          {comparison.posts.map((post, i) => (
+            <Line
+              key={post.id}
+              type="monotone"
+              dataKey={post.id}
+              name={post.content_preview?.substring(0, 30) || `Post ${i + 1}`}
+              stroke={LINE_COLORS[i % LINE_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { getExtensionClient } from '@/lib/extensionProtocol';
 
 interface RefreshAnalyticsButtonProps {
   variant?: 'default' | 'outline' | 'secondary' | 'ghost';
@@ -61,44 +62,25 @@ export function RefreshAnalyticsButton({
 
       console.log(`📊 Requesting analytics for ${postUrls.length} posts...`);
 
-      // Send to extension
-      window.postMessage({
-        type: 'SCRAPE_BULK_ANALYTICS',
-        postUrls: postUrls,
-      }, '*');
-
       toast.loading(`Refreshing analytics for ${postUrls.length} posts...`, {
         id: 'analytics-refresh',
       });
 
-      // Listen for result
-      const handleResult = (event: MessageEvent) => {
-        if (event.source !== window) return;
-        
-        if (event.data.type === 'BULK_ANALYTICS_RESULT') {
-          window.removeEventListener('message', handleResult);
-          setIsRefreshing(false);
-          toast.dismiss('analytics-refresh');
-
-          if (event.data.success) {
-            toast.success(`Updated analytics for ${event.data.successful}/${event.data.total} posts`);
-          } else {
-            toast.error('Failed to refresh analytics: ' + (event.data.error || 'Unknown error'));
-          }
-        }
-      };
-
-      window.addEventListener('message', handleResult);
-
-      // Timeout after 2 minutes
-      setTimeout(() => {
-        window.removeEventListener('message', handleResult);
-        if (isRefreshing) {
-          setIsRefreshing(false);
-          toast.dismiss('analytics-refresh');
-          toast.error('Analytics refresh timed out');
-        }
-      }, 120000);
+      // Send to extension and wait up to 2 minutes for the result
+      const result = await getExtensionClient().request(
+        { type: 'SCRAPE_BULK_ANALYTICS', postUrls },
+        { timeoutMs: 120000 }
+      );
+      setIsRefreshing(false);
+      toast.dismiss('analytics-refresh');
+
+      if (result.ok === false) {
+        toast.error('Analytics refresh timed out');
+      } else if (result.response.success) {
+        toast.success(`Updated analytics for ${result.response.successful}/${result.response.total} posts`);
+      } else {
+        toast.error('Failed to refresh analytics: ' + (result.response.error || 'Unknown error'));
+      }
     } catch (error) {
       console.error('Failed to refresh analytics:', error);
       toast.error('Failed to refresh analytics');
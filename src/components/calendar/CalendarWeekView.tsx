@@ -0,0 +1,143 @@
+import { useEffect, useRef, type DragEvent } from "react";
+import { format, isSameDay } from "date-fns";
+import { GripVertical } from "lucide-react";
+import type { Post } from "@/hooks/usePosts";
+import { isBlockingConflict, weekSlotKey, type CalendarDropTarget } from "@/hooks/useCalendarReschedule";
+import { getZonedParts } from "@/lib/timezoneUtils";
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const ROW_HEIGHT = 44;
+const FIRST_VISIBLE_HOUR = 7;
+
+interface CalendarWeekViewProps {
+  days: Date[];
+  timeZone: string;
+  getPostsForDate: (date: Date) => Post[];
+  getAgentColor: (agentName: string | null) => string;
+  canDrag: (post: Post) => boolean;
+  draggedPostId: string | null;
+  dropTarget: CalendarDropTarget | null;
+  onDragStart: (post: Post) => void;
+  onDragEnd: () => void;
+  onSlotDragOver: (day: Date, hour: number) => void;
+  onSlotDrop: (day: Date, hour: number) => void;
+  onSelectDate: (date: Date) => void;
+}
+
+/**
+ * Seven days by 24 hourly slots in the user's timezone. Pending posts can be
+ * dragged onto another slot; the slot under the pointer shows whether the
+ * move would conflict with the rest of the queue.
+ */
+export function CalendarWeekView({
+  days,
+  timeZone,
+  getPostsForDate,
+  getAgentColor,
+  canDrag,
+  draggedPostId,
+  dropTarget,
+  onDragStart,
+  onDragEnd,
+  onSlotDragOver,
+  onSlotDrop,
+  onSelectDate,
+}: CalendarWeekViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * ROW_HEIGHT;
+  }, []);
+
+  const postHour = (post: Post) => {
+    const iso = post.posted_at || post.scheduled_time;
+    return iso ? getZonedParts(new Date(iso), timeZone).hours : -1;
+  };
+
+  const slotClass = (key: string) => {
+    if (!draggedPostId || dropTarget?.key !== key) return "";
+    if (dropTarget.conflicts.some(isBlockingConflict)) return "bg-destructive/10 ring-1 ring-inset ring-destructive";
+    if (dropTarget.conflicts.length > 0) return "bg-warning/10 ring-1 ring-inset ring-warning";
+    return "bg-success/10 ring-1 ring-inset ring-success";
+  };
+
+  const handleDragOver = (e: DragEvent, day: Date, hour: number) => {
+    if (!draggedPostId) return;
+    e.preventDefault();
+    onSlotDragOver(day, hour);
+  };
+
+  const handleDrop = (e: DragEvent, day: Date, hour: number) => {
+    e.preventDefault();
+    onSlotDrop(day, hour);
+  };
+
+  const today = new Date();
+
+  return (
+    <div className="border border-border rounded-xl overflow-hidden">
+      <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-border bg-muted/50">
+        <div />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            className={`py-2 text-xs font-medium text-center hover:bg-muted ${isSameDay(day, today) ? "text-primary" : ""}`}
+            onClick={() => onSelectDate(day)}
+          >
+            {format(day, "EEE d")}
+          </button>
+        ))}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[520px] overflow-y-auto">
+        {HOURS.map((hour) => (
+          <div
+            key={hour}
+            className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-border last:border-b-0"
+            style={{ minHeight: ROW_HEIGHT }}
+          >
+            <div className="pr-2 pt-1 text-[10px] text-right text-muted-foreground">
+              {format(new Date(2000, 0, 1, hour), "h a")}
+            </div>
+            {days.map((day) => {
+              const key = weekSlotKey(day, hour);
+              const slotPosts = getPostsForDate(day).filter((post) => postHour(post) === hour);
+              return (
+                <div
+                  key={key}
+                  className={`border-l border-border p-0.5 space-y-0.5 transition-colors ${slotClass(key)}`}
+                  onDragOver={(e) => handleDragOver(e, day, hour)}
+                  onDrop={(e) => handleDrop(e, day, hour)}
+                >
+                  {slotPosts.map((post) => {
+                    const draggable = canDrag(post);
+                    return (
+                      <div
+                        key={post.id}
+                        draggable={draggable}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", post.id);
+                          onDragStart(post);
+                        }}
+                        onDragEnd={onDragEnd}
+                        title={post.content}
+                        className={`flex items-center gap-1 rounded px-1 py-0.5 text-[10px] leading-tight bg-card border border-border ${
+                          draggable ? "cursor-grab active:cursor-grabbing" : "opacity-70"
+                        } ${draggedPostId === post.id ? "opacity-40" : ""}`}
+                      >
+                        {draggable && <GripVertical className="w-2.5 h-2.5 flex-shrink-0 text-muted-foreground" />}
+                        <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${getAgentColor(post.agent_name)}`} />
+                        <span className="truncate">{post.content}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
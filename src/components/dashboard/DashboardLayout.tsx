@@ -14,10 +14,14 @@ import {
   X,
   ChevronDown,
   User,
+  ClipboardCheck,
+  Users,
 } from "lucide-react";
 import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { WorkspaceSwitcher } from "@/components/workspace/WorkspaceSwitcher";
 import { useUserProfile } from "@/hooks/useUserProfile";
 import { supabase } from "@/integrations/supabase/client";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -36,6 +40,8 @@ const navItems = [
   { icon: LayoutDashboard, label: "Dashboard", path: "/dashboard" },
   { icon: Calendar, label: "Calendar", path: "/dashboard/calendar" },
   { icon: Bot, label: "Agents", path: "/dashboard/agents" },
+  { icon: ClipboardCheck, label: "Reviews", path: "/dashboard/reviews" },
+  { icon: Users, label: "Team", path: "/dashboard/team" },
   { icon: BarChart3, label: "Analytics", path: "/dashboard/analytics" },
   { icon: Linkedin, label: "LinkedIn Connection", path: "/dashboard/linkedin" },
   { icon: Settings, label: "Settings", path: "/dashboard/settings" },
@@ -70,8 +76,8 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
     // Run logout synchronously to avoid dropdown swallowing the click
     console.log('🔒 Logging out user from extension');
     
-    window.postMessage({ type: 'LOGOUT_USER' }, '*');
-    window.postMessage({ type: 'CLEAR_USER_SESSION' }, '*');
+    getExtensionClient().send({ type: 'LOGOUT_USER' });
+    getExtensionClient().send({ type: 'CLEAR_USER_SESSION' });
     
     if (typeof (window as any).LinkedBotBridge !== 'undefined') {
       (window as any).LinkedBotBridge.clearUserSession();
@@ -136,6 +142,11 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
             </button>
           </div>
 
+          {/* Workspace */}
+          <div className="px-4 pt-4">
+            <WorkspaceSwitcher />
+          </div>
+
           {/* Navigation */}
           <nav className="flex-1 py-6 px-4 space-y-1 overflow-y-auto scrollbar-hide">
             {navItems.map((item) => {
@@ -2,6 +2,7 @@
 // Component for managing LinkedBot Chrome Extension connection
 
 import { useLinkedBotExtension } from '@/hooks/useLinkedBotExtension';
+import type { PostStatus } from '@/lib/postLifecycle';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -184,6 +185,7 @@ interface SchedulePostsButtonProps {
     content: string;
     imageUrl?: string;     // v4.0 renamed from photo_url
     scheduleTime: string;  // v4.0 renamed from scheduled_time
+    status: PostStatus;
   }>;
   onSuccess?: () => void;
   onError?: (error: string) => void;
@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ExternalLink, CheckCircle2, AlertCircle, Clock, RefreshCw, Trash2 } from "lucide-react";
 import { format } from "date-fns";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 
 interface PostedUrl {
   postId: string;
@@ -29,17 +30,14 @@ export function ExtensionTestPanel() {
     }
 
     // Listen for extension events
-    const handleMessage = (event: MessageEvent) => {
-      if (event.source !== window) return;
-      
-      const { type, data } = event.data || {};
-      
+    const stopListening = getExtensionClient().onMessage((message) => {
       // Listen for POST_RESULT, postSuccess, postCompleted events
       if (
-        type === 'POST_RESULT' ||
-        type === 'EXTENSION_EVENT' && (data?.event === 'postSuccess' || data?.event === 'postCompleted')
+        message.type === 'POST_RESULT' ||
+        message.type === 'EXTENSION_EVENT' && (message.event === 'postSuccess' || message.event === 'postCompleted')
       ) {
-        const eventData = type === 'POST_RESULT' ? event.data : data?.data || data;
+        const eventData: { postId?: string; trackingId?: string; linkedinUrl?: string; postUrl?: string } =
+          message.type === 'POST_RESULT' ? message : message.data;
         const linkedinUrl = eventData?.linkedinUrl || eventData?.postUrl;
         const postId = eventData?.postId;
         
@@ -59,7 +57,7 @@ export function ExtensionTestPanel() {
           });
         }
       }
-    };
+    });
 
     // Also listen for custom events from bridge
     const handleBridgeEvent = (event: Event) => {
@@ -83,12 +81,11 @@ export function ExtensionTestPanel() {
       }
     };
 
-    window.addEventListener('message', handleMessage);
     window.addEventListener('linkedbot:post-published', handleBridgeEvent);
     setIsListening(true);
 
     return () => {
-      window.removeEventListener('message', handleMessage);
+      stopListening();
       window.removeEventListener('linkedbot:post-published', handleBridgeEvent);
     };
   }, []);
@@ -0,0 +1,70 @@
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Send, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQueueDiscrepancies } from "@/hooks/useQueueDiscrepancies";
+
+const KIND_LABELS = {
+  missing_overdue: "Missed",
+  foreign_item: "Other account",
+};
+
+/**
+ * Queue problems the extension sync couldn't fix by itself. Renders nothing
+ * while the two queues agree.
+ */
+export const QueueDiscrepanciesCard = () => {
+  const { discrepancies, lastReportedAt, dismiss, sendNow, cancelPost } = useQueueDiscrepancies();
+
+  if (discrepancies.length === 0) return null;
+
+  return (
+    <div className="bg-warning/10 border border-warning/30 rounded-lg p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="font-medium text-foreground">
+            {discrepancies.length} scheduling problem{discrepancies.length === 1 ? "" : "s"} need your attention
+          </p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Your extension's queue doesn't match your scheduled posts
+            {lastReportedAt && ` (last checked ${formatDistanceToNow(new Date(lastReportedAt), { addSuffix: true })})`}.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {discrepancies.map((discrepancy) => (
+          <div key={discrepancy.id} className="bg-card rounded-md border border-border p-3 flex items-start gap-3">
+            <Badge variant="outline" className="flex-shrink-0">{KIND_LABELS[discrepancy.kind]}</Badge>
+            <div className="flex-1 min-w-0 space-y-1">
+              {discrepancy.post && <p className="text-sm truncate">{discrepancy.post.content}</p>}
+              <p className="text-xs text-muted-foreground">{discrepancy.message}</p>
+              {discrepancy.kind === "missing_overdue" && discrepancy.postId && (
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" className="gap-1.5" onClick={() => sendNow(discrepancy)}>
+                    <Send className="w-3.5 h-3.5" />
+                    Send now
+                  </Button>
+                  <Button size="sm" variant="outline" className="gap-1.5" onClick={() => cancelPost(discrepancy)}>
+                    <XCircle className="w-3.5 h-3.5" />
+                    Cancel post
+                  </Button>
+                </div>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 flex-shrink-0"
+              onClick={() => dismiss(discrepancy)}
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
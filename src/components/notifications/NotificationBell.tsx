@@ -17,6 +17,7 @@ const typeIcons: Record<Notification["type"], string> = {
   system: "⚙️",
   post: "📝",
   analytics: "📊",
+  review: "👀",
 };
 
 const typeColors: Record<Notification["type"], string> = {
@@ -24,6 +25,7 @@ const typeColors: Record<Notification["type"], string> = {
   system: "bg-muted text-muted-foreground",
   post: "bg-primary/10 text-primary",
   analytics: "bg-success/10 text-success",
+  review: "bg-purple-500/10 text-purple-600",
 };
 
 export const NotificationBell = () => {
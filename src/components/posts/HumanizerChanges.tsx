@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { ChevronDown, Wand2 } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { HumanizerChange } from "../../../supabase/functions/_shared/humanizer";
+
+interface HumanizerChangesProps {
+  changes: HumanizerChange[] | null | undefined;
+  className?: string;
+  defaultOpen?: boolean;
+}
+
+const KIND_LABELS: Record<HumanizerChange["kind"], string> = {
+  replacement: 'Reworded',
+  contraction: 'Contraction',
+  banned_phrase: 'Banned phrase',
+  emoji_limit: 'Emoji limit',
+  hashtag_limit: 'Hashtag limit',
+  generic_ending: 'Generic ending',
+};
+
+/**
+ * What the agent's humanizer rewrote in a draft (see _shared/humanizer.ts),
+ * as removed -> added pairs. Collapsed by default.
+ */
+export const HumanizerChanges = ({ changes, className, defaultOpen = false }: HumanizerChangesProps) => {
+  const [open, setOpen] = useState(defaultOpen);
+  if (!changes || changes.length === 0) return null;
+
+  const total = changes.reduce((sum, change) => sum + change.count, 0);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={className}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground">
+        <Wand2 className="w-3 h-3" />
+        Humanizer changed {total} {total === 1 ? 'thing' : 'things'}
+        <ChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-2 space-y-1">
+          {changes.map((change, i) => (
+            <li key={`${change.kind}-${change.from}-${i}`} className="text-xs flex flex-wrap items-center gap-1">
+              <span className="rounded px-1 bg-destructive/10 text-destructive line-through">{change.from}</span>
+              {change.to ? (
+                <>
+                  <span className="text-muted-foreground">→</span>
+                  <span className="rounded px-1 bg-success/10 text-success">{change.to}</span>
+                </>
+              ) : (
+                <span className="text-muted-foreground">removed</span>
+              )}
+              <span className="text-muted-foreground">
+                · {KIND_LABELS[change.kind]}
+                {change.count > 1 && ` ×${change.count}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
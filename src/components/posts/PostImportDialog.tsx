@@ -0,0 +1,162 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle, Copy, FileUp, Loader2, Upload } from "lucide-react";
+import { formatScheduledTimeInZone } from "@/lib/timezoneUtils";
+import { importableRows, MAX_IMPORT_ROWS, type ImportPreviewRow } from "@/lib/postImportExport";
+
+interface PostImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  timeZone: string;
+  onPreview: (file: File) => Promise<{ rows: ImportPreviewRow[]; error?: string }>;
+  onImport: (rows: ImportPreviewRow[]) => Promise<number>;
+  isImporting?: boolean;
+}
+
+/**
+ * Pick a CSV or JSON file, check every row, then import the valid ones as
+ * pending posts. Rows with errors or duplicate content are listed but skipped.
+ */
+export const PostImportDialog = ({
+  open,
+  onOpenChange,
+  timeZone,
+  onPreview,
+  onImport,
+  isImporting,
+}: PostImportDialogProps) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const ready = importableRows(rows);
+  const skipped = rows.length - ready.length;
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setFileError(null);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setIsChecking(true);
+    const result = await onPreview(file);
+    setIsChecking(false);
+    setRows(result.rows);
+    setFileError(result.error || null);
+  };
+
+  const handleImport = async () => {
+    const imported = await onImport(rows);
+    if (imported > 0) handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-primary" />
+            Import posts
+          </DialogTitle>
+          <DialogDescription>
+            CSV with a header row, or JSON: a list of objects. Columns: <code>content</code>,{" "}
+            <code>scheduled_time</code> (YYYY-MM-DD HH:MM in your timezone, or ISO 8601), and optionally{" "}
+            <code>agent</code> and <code>image_url</code>. Up to {MAX_IMPORT_ROWS} posts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={isChecking || isImporting}>
+            <Upload className="w-4 h-4 mr-1" />
+            Choose file
+          </Button>
+          <span className="text-sm text-muted-foreground truncate">{fileName || "No file selected"}</span>
+          {isChecking && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {fileError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{fileError}</AlertDescription>
+          </Alert>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="outline" className="text-success border-success/40">{ready.length} ready</Badge>
+              {skipped > 0 && <Badge variant="outline" className="text-destructive border-destructive/40">{skipped} skipped</Badge>}
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+              {rows.map((row) => (
+                <div key={row.line} className="p-3 text-sm flex gap-3">
+                  <span className="w-10 flex-shrink-0 text-xs text-muted-foreground">#{row.line}</span>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="truncate">{row.content || <span className="text-muted-foreground">(no content)</span>}</p>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                      {row.scheduledTime && <span>{formatScheduledTimeInZone(row.scheduledTime, timeZone)}</span>}
+                      {row.agentName && <span>{row.agentName}</span>}
+                      {row.imageUrl && <span>With image</span>}
+                    </div>
+                    {row.errors.map((error) => (
+                      <p key={error} className="text-xs text-destructive flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                        {error}
+                      </p>
+                    ))}
+                    {row.duplicateOf && (
+                      <p className="text-xs text-warning flex items-center gap-1">
+                        <Copy className="w-3 h-3 flex-shrink-0" />
+                        {row.duplicateOf === "existing" ? "Already in this workspace" : "Repeats an earlier row"}
+                      </p>
+                    )}
+                  </div>
+                  {row.errors.length === 0 && !row.duplicateOf && (
+                    <CheckCircle className="w-4 h-4 flex-shrink-0 text-success" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button variant="gradient" onClick={handleImport} disabled={ready.length === 0 || isImporting || isChecking}>
+            {isImporting && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Import {ready.length} post{ready.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
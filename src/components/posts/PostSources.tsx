@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { BookOpen, ChevronDown, ExternalLink } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ResearchSource } from "../../../supabase/functions/_shared/research";
+
+interface PostSourcesProps {
+  sources: ResearchSource[] | null | undefined;
+  className?: string;
+}
+
+const PROVIDER_LABELS: Record<ResearchSource["provider"], string> = {
+  tavily: 'Web',
+  searxng: 'Web',
+  feeds: 'Feed',
+  references: 'Your materials',
+};
+
+/**
+ * The research a post was written from, so claims can be checked before it
+ * goes out. Collapsed by default.
+ */
+export const PostSources = ({ sources, className }: PostSourcesProps) => {
+  const [open, setOpen] = useState(false);
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={className}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground">
+        <BookOpen className="w-3 h-3" />
+        Sources ({sources.length})
+        <ChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-2 space-y-2">
+          {sources.map((source, i) => (
+            <li key={`${source.url || source.title}-${i}`} className="text-xs">
+              <p className="flex items-center gap-1">
+                {source.url ? (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-primary hover:underline inline-flex items-center gap-1"
+                  >
+                    {source.title}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  <span className="font-medium">{source.title}</span>
+                )}
+                <span className="text-muted-foreground">
+                  · {PROVIDER_LABELS[source.provider] || source.provider}
+                  {source.publishedAt && ` · ${new Date(source.publishedAt).toLocaleDateString()}`}
+                </span>
+              </p>
+              {source.snippet && <p className="text-muted-foreground line-clamp-2">{source.snippet}</p>}
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -1,5 +1,5 @@
 import { Badge } from "@/components/ui/badge";
-import { Loader2, CheckCircle, XCircle, Clock } from "lucide-react";
+import { Loader2, CheckCircle, XCircle, Clock, Ban } from "lucide-react";
 import type { PostStatus } from "@/hooks/usePostsClean";
 
 interface PostStatusBadgeProps {
@@ -16,6 +16,7 @@ interface PostStatusBadgeProps {
  * - posting → "Posting now..." (blue + spinner)
  * - posted → "Posted ✅" + LinkedIn URL (green)
  * - failed → error message (red)
+ * - cancelled → "Cancelled" (muted)
  */
 export const PostStatusBadge = ({ status, linkedinUrl, error }: PostStatusBadgeProps) => {
   switch (status) {
@@ -68,6 +69,14 @@ export const PostStatusBadge = ({ status, linkedinUrl, error }: PostStatusBadgeP
         </div>
       );
     
+    case 'cancelled':
+      return (
+        <Badge variant="outline" className="text-muted-foreground">
+          <Ban className="w-3 h-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
+    
     default:
       return (
         <Badge variant="outline">
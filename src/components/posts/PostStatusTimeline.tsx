@@ -0,0 +1,67 @@
+import { Loader2, History } from "lucide-react";
+import { usePostStatusEvents } from "@/hooks/usePostStatusEvents";
+import { useUserProfile } from "@/hooks/useUserProfile";
+import { STATUS_COLORS, STATUS_LABELS, type PostStatusSource } from "@/lib/postLifecycle";
+import { formatScheduledTimeInZone } from "@/lib/timezoneUtils";
+
+interface PostStatusTimelineProps {
+  postId: string;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<PostStatusSource, string> = {
+  extension: 'Extension',
+  cron: 'Scheduled check',
+  user: 'You',
+  system: 'System',
+};
+
+/**
+ * Status history for a post, read from post_status_events.
+ */
+export const PostStatusTimeline = ({ postId, className }: PostStatusTimelineProps) => {
+  const { timeZone } = useUserProfile();
+  const { events, isLoading } = usePostStatusEvents(postId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-3">
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Status history
+      </p>
+      <ol className="border-l border-border ml-1.5 space-y-3">
+        {events.map((event) => {
+          const colors = STATUS_COLORS[event.to_status];
+          return (
+            <li key={event.id} className="relative pl-4">
+              <span className={`absolute -left-1.5 top-0.5 w-3 h-3 rounded-full border ${colors.bg} ${colors.border}`} />
+              <p className="text-xs">
+                {event.from_status && (
+                  <span className="text-muted-foreground">{STATUS_LABELS[event.from_status]} → </span>
+                )}
+                <span className={`font-medium ${colors.text}`}>{STATUS_LABELS[event.to_status]}</span>
+                <span className="text-muted-foreground"> · {SOURCE_LABELS[event.source] || event.source}</span>
+              </p>
+              {event.reason && (
+                <p className="text-xs text-muted-foreground">{event.reason}</p>
+              )}
+              <p className="text-[11px] text-muted-foreground/80">
+                {formatScheduledTimeInZone(event.created_at, timeZone)}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import { useState, useEffect, useRef } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  MessageSquarePlus,
+  CheckCircle,
+  Undo2,
+  Send,
+  CalendarClock,
+  Loader2,
+  Check,
+} from "lucide-react";
+import {
+  usePostReviewComments,
+  type CommentAnchor,
+  type ReviewDecision,
+  type ReviewPost,
+} from "@/hooks/usePostReviews";
+import { STATUS_COLORS, STATUS_LABELS } from "@/lib/postLifecycle";
+import { PostSources } from "@/components/posts/PostSources";
+
+interface PostReviewDialogProps {
+  post: ReviewPost | null;
+  userId: string | null;
+  onClose: () => void;
+  onDecide: (postId: string, decision: ReviewDecision, comment?: string) => Promise<boolean>;
+  onUpdateDraft: (postId: string, content: string) => Promise<boolean>;
+  onSubmit: (postId: string, reviewerEmail: string) => Promise<boolean>;
+  onReopen: (postId: string) => Promise<boolean>;
+  onQueue: (post: ReviewPost, scheduledTime: Date) => Promise<boolean>;
+}
+
+// datetime-local value for an hour from now, in the browser's zone
+function defaultQueueTime(): string {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+/**
+ * One post in review. The reviewer comments (optionally on a selected span)
+ * and approves or requests changes; the author edits drafts, resubmits and
+ * queues the post once approved.
+ */
+export const PostReviewDialog = ({
+  post,
+  userId,
+  onClose,
+  onDecide,
+  onUpdateDraft,
+  onSubmit,
+  onReopen,
+  onQueue,
+}: PostReviewDialogProps) => {
+  const { comments, addComment, setResolved } = usePostReviewComments(post?.id ?? null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  const [content, setContent] = useState("");
+  const [selection, setSelection] = useState<CommentAnchor | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [decisionNote, setDecisionNote] = useState("");
+  const [reviewerEmail, setReviewerEmail] = useState("");
+  const [queueTime, setQueueTime] = useState(defaultQueueTime);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    setContent(post?.content ?? "");
+    setSelection(null);
+    setCommentText("");
+    setDecisionNote("");
+  }, [post?.id, post?.content]);
+
+  if (!post) return null;
+
+  const isReviewer = post.reviewer_id === userId && post.status === "in_review";
+  const isAuthor = post.user_id === userId;
+  const isEditable = isAuthor && post.status === "draft";
+  const colors = STATUS_COLORS[post.status];
+
+  const captureSelection = () => {
+    const el = contentRef.current;
+    if (!el || el.selectionStart === el.selectionEnd) {
+      setSelection(null);
+      return;
+    }
+    setSelection({
+      start: el.selectionStart,
+      end: el.selectionEnd,
+      quotedText: el.value.slice(el.selectionStart, el.selectionEnd),
+    });
+  };
+
+  const run = async (action: () => Promise<boolean>, closeOnSuccess = true) => {
+    setIsWorking(true);
+    const ok = await action();
+    setIsWorking(false);
+    if (ok && closeOnSuccess) onClose();
+    return ok;
+  };
+
+  const handleAddComment = async () => {
+    if (await addComment(commentText, selection ?? undefined)) {
+      setCommentText("");
+      setSelection(null);
+    }
+  };
+
+  const handleSubmit = () =>
+    run(async () => {
+      if (content !== post.content && !(await onUpdateDraft(post.id, content))) return false;
+      return onSubmit(post.id, reviewerEmail);
+    });
+
+  return (
+    <Dialog open={!!post} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Post review
+            <Badge variant="outline" className={`${colors.bg} ${colors.text} ${colors.border}`}>
+              {STATUS_LABELS[post.status]}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {isReviewer
+              ? "Select text to comment on it, then approve or request changes."
+              : post.status === "in_review"
+                ? "Waiting for the reviewer."
+                : post.status === "approved"
+                  ? "Approved - pick a time to queue it."
+                  : "Edit the draft and send it for review."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          <div className="space-y-4">
+            <Textarea
+              ref={contentRef}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              onSelect={captureSelection}
+              readOnly={!isEditable}
+              className="min-h-[180px] text-sm leading-relaxed"
+            />
+
+            <PostSources sources={post.sources} />
+
+            {/* Comments */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Comments</h4>
+              {comments.length === 0 && (
+                <p className="text-xs text-muted-foreground">No comments yet.</p>
+              )}
+              {comments.map((comment) => (
+                <div
+                  key={comment.id}
+                  className={`rounded-lg border p-2.5 text-sm ${comment.resolved ? "opacity-60" : ""}`}
+                >
+                  {comment.quoted_text && (
+                    <blockquote className="border-l-2 border-primary/40 pl-2 mb-1.5 text-xs text-muted-foreground italic">
+                      {comment.quoted_text}
+                    </blockquote>
+                  )}
+                  <p className="whitespace-pre-wrap">{comment.body}</p>
+                  <div className="flex items-center justify-between mt-1.5 text-[11px] text-muted-foreground">
+                    <span>
+                      {comment.author_id === userId ? "You" : comment.author_id === post.reviewer_id ? "Reviewer" : "Author"}
+                      {" · "}
+                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    </span>
+                    <button
+                      onClick={() => setResolved(comment.id, !comment.resolved)}
+                      className="flex items-center gap-1 hover:text-foreground"
+                    >
+                      <Check className="w-3 h-3" />
+                      {comment.resolved ? "Reopen" : "Resolve"}
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-1.5">
+                {selection && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    Commenting on: <span className="italic">"{selection.quotedText}"</span>
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Input
+                    value={commentText}
+                    onChange={(e) => setCommentText(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAddComment()}
+                    placeholder={selection ? "Comment on the selection..." : "Add a comment..."}
+                    className="text-sm"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleAddComment} disabled={!commentText.trim()}>
+                    <MessageSquarePlus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {isReviewer && (
+              <Textarea
+                value={decisionNote}
+                onChange={(e) => setDecisionNote(e.target.value)}
+                placeholder="Note for the author (optional)"
+                className="min-h-[60px] text-sm"
+              />
+            )}
+
+            {isEditable && (
+              <Input
+                type="email"
+                value={reviewerEmail}
+                onChange={(e) => setReviewerEmail(e.target.value)}
+                placeholder="Reviewer's email"
+              />
+            )}
+
+            {isAuthor && post.status === "approved" && (
+              <Input
+                type="datetime-local"
+                value={queueTime}
+                onChange={(e) => setQueueTime(e.target.value)}
+              />
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          {isWorking && <Loader2 className="w-4 h-4 animate-spin self-center" />}
+
+          {isReviewer && (
+            <>
+              <Button
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => run(() => onDecide(post.id, "request_changes", decisionNote))}
+              >
+                <Undo2 className="w-4 h-4 mr-1" />
+                Request changes
+              </Button>
+              <Button
+                variant="gradient"
+                disabled={isWorking}
+                onClick={() => run(() => onDecide(post.id, "approve", decisionNote))}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Approve
+              </Button>
+            </>
+          )}
+
+          {isEditable && (
+            <>
+              <Button
+                variant="outline"
+                disabled={isWorking || content === post.content}
+                onClick={() => run(() => onUpdateDraft(post.id, content), false)}
+              >
+                Save draft
+              </Button>
+              <Button variant="gradient" disabled={isWorking || !reviewerEmail.trim()} onClick={handleSubmit}>
+                <Send className="w-4 h-4 mr-1" />
+                Send for review
+              </Button>
+            </>
+          )}
+
+          {isAuthor && post.status === "approved" && (
+            <>
+              <Button variant="outline" disabled={isWorking} onClick={() => run(() => onReopen(post.id))}>
+                Reopen for edits
+              </Button>
+              <Button
+                variant="gradient"
+                disabled={isWorking || !queueTime}
+                onClick={() => run(() => onQueue(post, new Date(queueTime)))}
+              >
+                <CalendarClock className="w-4 h-4 mr-1" />
+                Queue post
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
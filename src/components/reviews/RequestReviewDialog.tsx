@@ -0,0 +1,63 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Send } from "lucide-react";
+
+interface RequestReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (reviewerEmail: string) => Promise<boolean>;
+}
+
+/** Ask for the reviewer's email before a draft is sent for review */
+export const RequestReviewDialog = ({ open, onOpenChange, onSubmit }: RequestReviewDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!email.trim()) return;
+    setIsSending(true);
+    const ok = await onSubmit(email.trim());
+    setIsSending(false);
+    if (ok) {
+      setEmail("");
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Send for review</DialogTitle>
+          <DialogDescription>
+            The post is saved as a draft and stays out of the queue until your reviewer approves it.
+            Reviewers must be an owner, editor or reviewer in this workspace.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+          placeholder="Reviewer's email"
+          autoFocus
+        />
+        <DialogFooter>
+          <Button variant="gradient" onClick={handleSubmit} disabled={isSending || !email.trim()}>
+            {isSending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Send className="w-4 h-4 mr-1" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, ChevronsUpDown, Plus, Users, Loader2 } from "lucide-react";
+import { useWorkspaces } from "@/hooks/useWorkspaces";
+import { ROLE_LABELS } from "@/lib/workspaces";
+
+/** Sidebar control for the active workspace; everything in the dashboard follows it */
+export const WorkspaceSwitcher = () => {
+  const navigate = useNavigate();
+  const { workspaces, activeWorkspace, isLoading, switchWorkspace, createWorkspace } = useWorkspaces();
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setIsCreating(true);
+    const created = await createWorkspace(name.trim());
+    setIsCreating(false);
+    if (created) {
+      setName("");
+      setShowCreate(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-2 w-full px-3 py-2 rounded-xl bg-sidebar-accent/50 hover:bg-sidebar-accent transition-colors text-left">
+            <div className="flex-1 min-w-0">
+              <p className="text-[11px] uppercase tracking-wide text-sidebar-foreground/50">Workspace</p>
+              <p className="text-sm font-medium truncate">
+                {isLoading ? "Loading..." : activeWorkspace?.name || "Personal"}
+              </p>
+            </div>
+            <ChevronsUpDown className="w-4 h-4 text-sidebar-foreground/60 shrink-0" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+              <Check
+                className={`w-4 h-4 mr-2 ${workspace.id === activeWorkspace?.id ? "opacity-100" : "opacity-0"}`}
+              />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground ml-2">{ROLE_LABELS[workspace.role]}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => navigate("/dashboard/team")}>
+            <Users className="w-4 h-4 mr-2" />
+            Manage team
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowCreate(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              A shared space for one LinkedIn presence. Agents, reference materials and the
+              calendar are visible to everyone you add to it.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder="e.g. Priya's LinkedIn"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="gradient" onClick={handleCreate} disabled={isCreating || !name.trim()}>
+              {isCreating && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
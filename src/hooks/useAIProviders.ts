@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { AIProviderRow } from '../../supabase/functions/_shared/llmProviders';
+
+export type AIProvider = AIProviderRow & { updated_at: string };
+
+/**
+ * AI providers from ai_providers, by priority. Users only see enabled ones;
+ * admins see all of them (RLS).
+ */
+export function useAIProviders() {
+  const [providers, setProviders] = useState<AIProvider[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchProviders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ai_providers')
+        .select('id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, embedding_model, models, priority, is_enabled, updated_at')
+        .order('priority', { ascending: true });
+
+      if (error) throw error;
+      setProviders((data || []) as AIProvider[]);
+    } catch (error) {
+      console.error('Error fetching AI providers:', error);
+      setProviders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProviders();
+  }, [fetchProviders]);
+
+  return { providers, isLoading, refetch: fetchProviders };
+}
+
+/** Chat models a provider offers: its default model first, then the extra choices */
+export function chatModelsFor(provider: AIProviderRow): string[] {
+  if (provider.kind === 'huggingface') return [];
+  return Array.from(new Set([provider.chat_model, ...(provider.models || [])].filter(Boolean) as string[]));
+}
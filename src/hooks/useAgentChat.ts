@@ -1,5 +1,6 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { generatePostTrackingId, embedTrackingId } from "@/lib/postHelpers";
 import { 
@@ -18,6 +19,10 @@ import {
   isProcessingState,
   shouldArchivePost,
 } from "@/lib/postLifecycle";
+import { readSSE } from "../../supabase/functions/_shared/sse";
+import type { ResearchSource } from "../../supabase/functions/_shared/research";
+import type { HumanizerChange } from "../../supabase/functions/_shared/humanizer";
+import { variantLabel, type DraftVariant } from "../../supabase/functions/_shared/postVariants";
 
 export interface ChatMessage {
   role: "user" | "assistant";
@@ -52,6 +57,26 @@ export interface GeneratedPost {
   queuedAt?: string;
   extensionAckAt?: string;
   postedAt?: string;
+  replacesPostId?: string; // Draft this one revises (set by the agent's draft_post tool)
+  sources?: ResearchSource[]; // Research the agent wrote it from, for fact-checking
+  humanizerChanges?: HumanizerChange[]; // What the agent's humanizer rewrote in the draft
+  variant?: DraftVariant; // Set when the draft is one of a draft_variants set
+}
+
+// Queued post the agent moved with its reschedule_post tool
+export interface RescheduledPost {
+  id: string;
+  trackingId: string | null;
+  content: string;
+  imageUrl: string | null;
+  scheduledTime: string;
+}
+
+// Assistant turn while agent-chat is still streaming it
+export interface StreamingReply {
+  content: string;
+  draft: string | null; // draft_post text so far, cleaned the same way as the final draft
+  status: string | null;
 }
 
 export interface AgentSettings {
@@ -65,19 +90,165 @@ export interface AgentSettings {
 export interface UserContext {
   name?: string;
   industry?: string;
+  timezone?: string;
+}
+
+// Most recent messages of a thread shown when it is opened
+const MAX_LOADED_MESSAGES = 50;
+
+// Drafts used to live in localStorage; imported once into the agent's thread
+const LEGACY_CHAT_STORAGE_PREFIX = "linkedbot_chat_history_";
+const LEGACY_POSTS_STORAGE_PREFIX = "linkedbot_generated_posts_";
+
+const AGENT_CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/agent-chat`;
+
+/**
+ * Call agent-chat with `stream: true`. Partial output is reported through
+ * `onUpdate`; resolves with the final payload, which has the same shape as the
+ * non-streamed response. Aborting `signal` stops generation server-side too.
+ */
+async function streamAgentChat(
+  body: Record<string, unknown>,
+  signal: AbortSignal,
+  onUpdate: (update: (prev: StreamingReply) => StreamingReply) => void
+) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(AGENT_CHAT_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+      apikey: publishableKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`FunctionsHttpError: agent-chat returned ${response.status}`);
+  }
+
+  for await (const { event, data } of readSSE(response.body)) {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "text":
+        onUpdate(prev => ({ ...prev, content: prev.content + payload.delta, status: null }));
+        break;
+      case "draft":
+        onUpdate(prev => ({ ...prev, draft: payload.content, status: null }));
+        break;
+      case "status":
+        onUpdate(prev => ({ ...prev, status: payload.message }));
+        break;
+      case "done":
+        return payload;
+    }
+  }
+
+  throw new Error("Failed to send a request: agent-chat stream ended early");
+}
+
+// ============================================
+// DRAFT ROWS (post_drafts)
+// ============================================
+// Drafts from agent-chat arrive with their post_drafts id. Anything else
+// (a draft that failed to save) has a local "post-..." id and stays in memory.
+const DRAFT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isDraftRowId(id: string): boolean {
+  return DRAFT_ID_PATTERN.test(id);
+}
+
+const DRAFT_SELECT = "id, content, topic, image_url, image_prompt, generate_image, sources, post_id, variant_group_id, variant_dimension, variant_style, created_at, post:posts(status, tracking_id, scheduled_time)";
+
+interface DraftRow {
+  id: string;
+  content: string;
+  topic: string | null;
+  image_url: string | null;
+  image_prompt: string | null;
+  generate_image: boolean;
+  sources: ResearchSource[] | null;
+  post_id: string | null;
+  variant_group_id: string | null;
+  variant_dimension: DraftVariant["dimension"] | null;
+  variant_style: string | null;
+  created_at: string;
+  post: { status: string; tracking_id: string | null; scheduled_time: string | null } | null;
+}
+
+function draftFromRow(row: DraftRow): GeneratedPost {
+  const scheduledTime = row.post?.scheduled_time || undefined;
+  return {
+    id: row.id,
+    content: row.content,
+    suggestedTime: row.created_at,
+    reasoning: row.topic ? `Draft about ${row.topic}` : "Generated by AI agent",
+    scheduledDateTime: scheduledTime || row.created_at,
+    generateImage: row.generate_image,
+    imagePrompt: row.image_prompt || undefined,
+    imageUrl: row.image_url || undefined,
+    sources: row.sources || [],
+    status: (row.post?.status || "draft") as PostStatus,
+    scheduledTime,
+    trackingId: row.post?.tracking_id || undefined,
+    dbId: row.post_id || undefined,
+    approved: !!row.post_id,
+    variant: row.variant_group_id && row.variant_dimension && row.variant_style
+      ? { groupId: row.variant_group_id, dimension: row.variant_dimension, style: row.variant_style }
+      : undefined,
+  };
 }
 
-// Storage keys for persistence - now user-specific
-const CHAT_STORAGE_PREFIX = "linkedbot_chat_history_";
-const POSTS_STORAGE_PREFIX = "linkedbot_generated_posts_";
-const MAX_STORED_MESSAGES = 30;
+async function updateDraftRow(
+  id: string,
+  fields: { content?: string; image_url?: string | null; post_id?: string }
+) {
+  if (!isDraftRowId(id)) return;
+  const { error } = await supabase.from("post_drafts").update(fields).eq("id", id);
+  if (error) console.warn("Failed to update draft:", error);
+}
 
-// Get user-specific storage keys
-function getChatStorageKey(agentId?: string | null): string {
-  return `${CHAT_STORAGE_PREFIX}${agentId || 'default'}`;
+async function deleteDraftRow(id: string) {
+  if (!isDraftRowId(id)) return;
+  const { error } = await supabase.from("post_drafts").delete().eq("id", id);
+  if (error) console.warn("Failed to delete draft:", error);
 }
-function getPostsStorageKey(agentId?: string | null): string {
-  return `${POSTS_STORAGE_PREFIX}${agentId || 'default'}`;
+
+// One-time move of unsaved drafts kept in localStorage into the open thread.
+// Drafts that were already queued live on as posts.
+async function importLegacyDrafts(userId: string, agentId: string, threadId: string) {
+  const postsKey = `${LEGACY_POSTS_STORAGE_PREFIX}${agentId}`;
+  const stored = localStorage.getItem(postsKey);
+  if (!stored) return;
+
+  try {
+    const posts: GeneratedPost[] = JSON.parse(stored);
+    const rows = posts
+      .filter(p => p?.content && !p.dbId)
+      .map(p => ({
+        user_id: userId,
+        agent_id: agentId,
+        thread_id: threadId,
+        content: p.content,
+        image_url: p.imageUrl || null,
+        image_prompt: p.imagePrompt || null,
+        generate_image: !!p.generateImage,
+      }));
+    if (rows.length > 0) {
+      const { error } = await supabase.from("post_drafts").insert(rows);
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.warn("Failed to import stored drafts:", error);
+    return;
+  }
+
+  // Messages were already saved server-side; the local copies can go
+  localStorage.removeItem(postsKey);
+  localStorage.removeItem(`${LEGACY_CHAT_STORAGE_PREFIX}${agentId}`);
 }
 
 // Agent type specific welcome messages
@@ -136,135 +307,96 @@ What should we write about?`,
   };
 }
 
-// Load from localStorage
-function loadStoredMessages(agentId?: string | null): ChatMessage[] {
-  try {
-    const stored = localStorage.getItem(getChatStorageKey(agentId));
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      return parsed.map((msg: any) => ({
-        ...msg,
-        timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date(),
-      }));
-    }
-  } catch (error) {
-    console.error("Error loading chat history:", error);
-  }
-  return [];
-}
-
-function loadStoredPosts(agentId?: string | null): GeneratedPost[] {
-  try {
-    const stored = localStorage.getItem(getPostsStorageKey(agentId));
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    console.error("Error loading generated posts:", error);
-  }
-  return [];
-}
-
 export function useAgentChat(
   agentSettings: AgentSettings,
   userContext: UserContext = {},
-  agentId?: string | null
+  agentId?: string | null,
+  threadId?: string | null
 ) {
-  // Initialize with welcome message (DB load happens in useEffect)
+  // Initialize with welcome message (the thread loads in useEffect)
   const [messages, setMessages] = useState<ChatMessage[]>([getInitialMessage(agentSettings.type)]);
-  const [dbLoaded, setDbLoaded] = useState(false);
   
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [previewPost, setPreviewPost] = useState<PreviewPost | null>(null);
   
-  const [generatedPosts, setGeneratedPosts] = useState<GeneratedPost[]>(() => {
-    const stored = loadStoredPosts(agentId);
-    return stored;
-  });
+  const [generatedPosts, setGeneratedPosts] = useState<GeneratedPost[]>([]);
 
-  // Load chat history from database on mount
+  // Load the thread's recent messages and its drafts
   useEffect(() => {
-    const loadFromDb = async () => {
+    let cancelled = false;
+    setMessages([getInitialMessage(agentSettings.type)]);
+    setGeneratedPosts([]);
+
+    const loadThread = async () => {
+      if (!threadId || !agentId) return;
       try {
         const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          // Fall back to localStorage
-          const stored = loadStoredMessages(agentId);
-          if (stored.length > 0) setMessages(stored);
-          setDbLoaded(true);
-          return;
-        }
-
-        const { data, error } = await supabase
-          .from('chat_messages')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('agent_id', agentId || '')
-          .order('created_at', { ascending: true })
-          .limit(MAX_STORED_MESSAGES);
-
-        if (error) {
-          console.warn('Failed to load chat from DB, using localStorage:', error);
-          const stored = loadStoredMessages(agentId);
-          if (stored.length > 0) setMessages(stored);
-        } else if (data && data.length > 0) {
-          const dbMessages: ChatMessage[] = data.map((m: any) => ({
+        if (!user) return;
+
+        await importLegacyDrafts(user.id, agentId, threadId);
+
+        const [messagesResult, draftsResult] = await Promise.all([
+          supabase
+            .from('chat_messages')
+            .select('role, content, uploaded_images, created_at')
+            .eq('thread_id', threadId)
+            .order('created_at', { ascending: false })
+            .limit(MAX_LOADED_MESSAGES),
+          supabase
+            .from('post_drafts')
+            .select(DRAFT_SELECT)
+            .eq('thread_id', threadId)
+            .order('created_at', { ascending: false }),
+        ]);
+        if (cancelled) return;
+
+        if (messagesResult.error) {
+          console.warn('Failed to load chat messages:', messagesResult.error);
+        } else if (messagesResult.data.length > 0) {
+          setMessages(messagesResult.data.reverse().map(m => ({
             role: m.role as 'user' | 'assistant',
             content: m.content,
             timestamp: new Date(m.created_at),
             uploadedImages: m.uploaded_images || undefined,
-          }));
-          setMessages(dbMessages);
+          })));
+        }
+
+        if (draftsResult.error) {
+          console.warn('Failed to load drafts:', draftsResult.error);
+        } else {
+          setGeneratedPosts((draftsResult.data as unknown as DraftRow[]).map(draftFromRow));
         }
       } catch (err) {
-        console.warn('DB chat load error:', err);
-        const stored = loadStoredMessages(agentId);
-        if (stored.length > 0) setMessages(stored);
+        console.warn('Chat thread load error:', err);
       }
-      setDbLoaded(true);
     };
 
-    loadFromDb();
-  }, [agentId]);
+    loadThread();
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, threadId, agentSettings.type]);
 
-  // Save new messages to database (debounced via message additions)
   const saveMessageToDb = useCallback(async (msg: ChatMessage) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user || !agentId) return;
+      if (!user || !agentId || !threadId) return;
 
-      await supabase.from('chat_messages').insert({
+      const { error } = await supabase.from('chat_messages').insert({
         user_id: user.id,
         agent_id: agentId,
+        thread_id: threadId,
         role: msg.role,
         content: msg.content,
         uploaded_images: msg.uploadedImages || null,
       });
+      if (error) throw error;
     } catch (err) {
       console.warn('Failed to save message to DB:', err);
     }
-  }, [agentId]);
-
-  // Also keep localStorage as fallback
-  useEffect(() => {
-    if (messages.length > 0 && dbLoaded) {
-      try {
-        const messagesToStore = messages.slice(-MAX_STORED_MESSAGES);
-        localStorage.setItem(getChatStorageKey(agentId), JSON.stringify(messagesToStore));
-      } catch (error) {
-        console.error("Error saving chat history:", error);
-      }
-    }
-  }, [messages, agentId, dbLoaded]);
-
-  // Save posts to localStorage when they change
-  useEffect(() => {
-    try {
-      localStorage.setItem(getPostsStorageKey(agentId), JSON.stringify(generatedPosts));
-    } catch (error) {
-      console.error("Error saving posts:", error);
-    }
-  }, [generatedPosts, agentId]);
+  }, [agentId, threadId]);
 
   const sendMessage = useCallback(async (message: string, options?: { generateImage?: boolean; uploadedImages?: string[] }): Promise<any> => {
     if (!message.trim() || isLoading) return;
@@ -290,6 +422,11 @@ export function useAgentChat(
     saveMessageToDb(userMessage);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partialReply = "";
+    setStreamingReply({ content: "", draft: null, status: null });
+
     try {
       // CRITICAL: Log what we're sending to edge function
       console.log("🚀 Sending to edge function:", {
@@ -298,24 +435,32 @@ export function useAgentChat(
         generatedPosts: generatedPosts.map(p => ({ id: p.id, content: p.content?.substring(0, 50) })),
       });
       
-      const { data, error } = await supabase.functions.invoke("agent-chat", {
-        body: {
+      const data = await streamAgentChat(
+        {
           message,
           history: [...messages, userMessage].slice(-10).map(m => ({
             role: m.role,
             content: m.content,
           })),
           agentSettings,
+          agentId,
+          threadId,
           userContext,
           generatedPosts,
           generateImage: options?.generateImage ?? false,
           uploadedImages: options?.uploadedImages ?? [],
         },
-      });
+        controller.signal,
+        (update) => setStreamingReply(prev => {
+          const next = update(prev ?? { content: "", draft: null, status: null });
+          partialReply = next.content;
+          return next;
+        })
+      );
 
       console.log("Agent response:", data);
+      setStreamingReply(null);
 
-      if (error) throw error;
       if (data.error) throw new Error(data.error);
 
       const assistantMessage: ChatMessage = {
@@ -338,6 +483,12 @@ export function useAgentChat(
         return data;
       }
 
+      // Variants the agent dropped when one of their set was scheduled
+      const discardedIds: string[] = data.discardedPostIds || [];
+      if (discardedIds.length > 0) {
+        setGeneratedPosts(prev => prev.filter(p => !discardedIds.includes(p.id)));
+      }
+
       // Handle auto_schedule response - return data for parent to handle
       if (data.type === "auto_schedule" && data.postToSchedule && data.scheduledTime) {
         console.log("📅 Auto-schedule response received");
@@ -360,14 +511,21 @@ export function useAgentChat(
           imageSkipped: false,
         }));
         
+        // Revisions replace the unsaved draft they were made from
+        const replacedIds = newPosts.map(p => p.replacesPostId).filter(Boolean);
+        
         // CRITICAL: Add to generated posts immediately
         setGeneratedPosts(prev => {
-          const updated = [...newPosts, ...prev];
+          const updated = [...newPosts, ...prev.filter(p => p.dbId || !replacedIds.includes(p.id))];
           console.log("✅ generatedPosts NOW HAS:", updated.length, "posts");
           return updated;
         });
         
-        toast.success(`📝 Post created! Say "post now" or give a time to schedule.`);
+        if (newPosts.some(p => p.variant)) {
+          toast.success(`📝 ${newPosts.length} versions written! Keep the one you like best.`);
+        } else {
+          toast.success(`📝 Post created! Say "post now" or give a time to schedule.`);
+        }
         
         // Auto-generate images for posts that have generateImage flag
         for (const post of newPosts) {
@@ -386,6 +544,20 @@ export function useAgentChat(
       return data;
 
     } catch (error: any) {
+      setStreamingReply(null);
+
+      // Stopped by the user - keep what was written so far, nothing is saved or scheduled
+      if (error?.name === "AbortError") {
+        const stoppedMessage: ChatMessage = {
+          role: "assistant",
+          content: partialReply.trim() ? `${partialReply.trim()}\n\n(Stopped)` : "Stopped. What would you like me to do instead?",
+          timestamp: new Date(),
+        };
+        setMessages(prev => [...prev, stoppedMessage]);
+        saveMessageToDb(stoppedMessage);
+        return null;
+      }
+
       console.error("Chat error:", error);
       
       // Provide user-friendly error message
@@ -404,31 +576,31 @@ export function useAgentChat(
       toast.error("Failed to send message", { description: userMessage });
       return null;
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
-  }, [messages, agentSettings, userContext, isLoading, generatedPosts]);
+  }, [messages, agentSettings, agentId, threadId, userContext, isLoading, generatedPosts, saveMessageToDb]);
 
+  // Stop the reply that is currently streaming
+  const stopGeneration = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Empty the open thread: its messages and drafts (queued posts are kept)
   const resetChat = useCallback(async () => {
     setMessages([getInitialMessage(agentSettings.type)]);
     setGeneratedPosts([]);
-    localStorage.removeItem(getChatStorageKey(agentId));
-    localStorage.removeItem(getPostsStorageKey(agentId));
-    
-    // Clear from database too
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user && agentId) {
-        await supabase.from('chat_messages')
-          .delete()
-          .eq('user_id', user.id)
-          .eq('agent_id', agentId);
-      }
-    } catch (err) {
-      console.warn('Failed to clear DB chat:', err);
+    if (!threadId) return;
+
+    const [messagesResult, draftsResult] = await Promise.all([
+      supabase.from('chat_messages').delete().eq('thread_id', threadId),
+      supabase.from('post_drafts').delete().eq('thread_id', threadId),
+    ]);
+    if (messagesResult.error || draftsResult.error) {
+      console.warn('Failed to clear chat thread:', messagesResult.error || draftsResult.error);
+      toast.error("Failed to clear chat history");
     }
-    
-    toast.success("Chat history cleared");
-  }, [agentSettings.type, agentId]);
+  }, [agentSettings.type, threadId]);
 
   const clearHistory = useCallback(() => {
     resetChat();
@@ -438,13 +610,50 @@ export function useAgentChat(
     setGeneratedPosts(prev =>
       prev.map(post => post.id === postId ? { ...post, ...updates } : post)
     );
+    // Edits to the text or image stick; approval and status are derived on load
+    const fields: { content?: string; image_url?: string | null } = {};
+    if ("content" in updates) fields.content = updates.content;
+    if ("imageUrl" in updates) fields.image_url = updates.imageUrl || null;
+    if (Object.keys(fields).length > 0) updateDraftRow(postId, fields);
   }, []);
 
   const deletePost = useCallback((postId: string) => {
     setGeneratedPosts(prev => prev.filter(post => post.id !== postId));
+    deleteDraftRow(postId);
     toast.success("Post removed");
   }, []);
 
+  // Keep one draft of a variant set: the others are dropped and the pick is
+  // recorded so the agent can lean toward it (see _shared/postVariants.ts)
+  const keepVariant = useCallback(async (postId: string) => {
+    const kept = generatedPosts.find(p => p.id === postId);
+    if (!kept?.variant) return;
+    const { groupId, dimension, style } = kept.variant;
+    const siblings = generatedPosts.filter(p => p.id !== postId && p.variant?.groupId === groupId);
+    const discarded = siblings.filter(p => !p.dbId);
+
+    setGeneratedPosts(prev => prev.filter(p => !discarded.some(d => d.id === p.id)));
+    for (const post of discarded) deleteDraftRow(post.id);
+    toast.success(`Kept the ${variantLabel(kept.variant).toLowerCase()} version`);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { error } = await supabase.from("post_variant_choices").upsert({
+        user_id: user.id,
+        agent_id: agentId || null,
+        group_id: groupId,
+        dimension,
+        chosen_style: style,
+        offered_styles: [kept, ...siblings].map(p => p.variant!.style),
+        draft_id: isDraftRowId(postId) ? postId : null,
+      }, { onConflict: "user_id,group_id", ignoreDuplicates: true });
+      if (error) throw error;
+    } catch (err) {
+      console.warn("Failed to record variant choice:", err);
+    }
+  }, [generatedPosts, agentId]);
+
   const regeneratePost = useCallback(async (
     postId: string, 
     settings: AgentSettings, 
@@ -463,6 +672,7 @@ export function useAgentChat(
           message: `Regenerate a post similar to: ${post.content.substring(0, 100)}`,
           history: [],
           agentSettings: settings,
+          agentId,
           userContext: context,
         },
       });
@@ -476,6 +686,7 @@ export function useAgentChat(
             scheduledDateTime: p.scheduledDateTime 
           } : p)
         );
+        updateDraftRow(postId, { content: data.posts[0].content });
         toast.success("Post regenerated!");
       }
     } catch (error) {
@@ -485,7 +696,7 @@ export function useAgentChat(
         prev.map(p => p.id === postId ? { ...p, isGeneratingImage: false } : p)
       );
     }
-  }, [generatedPosts]);
+  }, [generatedPosts, agentId]);
 
   const generateImageForPost = useCallback(async (postId: string) => {
     const post = generatedPosts.find(p => p.id === postId);
@@ -517,6 +728,7 @@ export function useAgentChat(
           isGeneratingImage: false 
         } : p)
       );
+      updateDraftRow(postId, { image_url: data.imageUrl });
       toast.success("Image generated!");
     } catch (error: any) {
       console.error("Image generation error:", error);
@@ -537,10 +749,12 @@ export function useAgentChat(
     return true;
   };
 
-  // Save post to database with tracking ID
+  // Save post to database with tracking ID. 'draft' keeps it out of the
+  // queue until it has been reviewed (see usePostReviews).
   const savePostToDatabase = useCallback(async (
     post: GeneratedPost,
-    scheduledTime?: Date
+    scheduledTime?: Date,
+    status: 'pending' | 'draft' = 'pending'
   ): Promise<GeneratedPost | null> => {
     try {
       // Validate content first
@@ -560,7 +774,7 @@ export function useAgentChat(
       const trackingId = generatePostTrackingId();
       const contentWithTracking = embedTrackingId(post.content, trackingId);
 
-      // ✅ CLEAN ARCHITECTURE: Website ONLY inserts with status='pending'
+      // ✅ CLEAN ARCHITECTURE: Website ONLY inserts with status='pending' (or 'draft' for review)
       // Extension updates to: posting, posted, failed
       const { data: savedPost, error } = await supabase
         .from("posts")
@@ -570,9 +784,10 @@ export function useAgentChat(
           content_with_tracking: contentWithTracking,
           tracking_id: trackingId,
           photo_url: post.imageUrl || null,
-          status: 'pending', // ✅ ALWAYS 'pending' - extension owns status updates
+          status, // ✅ 'pending' unless it goes to review - extension owns status updates
           scheduled_time: scheduledTime?.toISOString() || null,
           agent_id: agentId || null,
+          sources: (post.sources || []) as unknown as Json,
         })
         .select()
         .single();
@@ -582,14 +797,15 @@ export function useAgentChat(
         throw error;
       }
 
-      console.log("✅ Post saved to database with status=pending:", savedPost.id);
+      console.log(`✅ Post saved to database with status=${status}:`, savedPost.id);
+      await updateDraftRow(post.id, { post_id: savedPost.id });
       
       // Return updated post with DB info
       return {
         ...post,
         dbId: savedPost.id,
         trackingId: trackingId,
-        status: 'pending' as PostStatus, // Always pending
+        status: status as PostStatus,
         scheduledTime: scheduledTime?.toISOString(),
       };
     } catch (err) {
@@ -602,9 +818,28 @@ export function useAgentChat(
   // Confirm preview post and add to generated posts
   const confirmPreviewPost = useCallback(async (scheduledTime?: Date) => {
     if (!previewPost) return null;
+
+    // Keep the preview as a draft of this thread so it survives a reload
+    let draftId = `post-${Date.now()}`;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user && agentId && threadId) {
+      const { data: draftRow, error: draftError } = await supabase
+        .from("post_drafts")
+        .insert({
+          user_id: user.id,
+          agent_id: agentId,
+          thread_id: threadId,
+          content: previewPost.content,
+          image_url: previewPost.imageUrl || null,
+        })
+        .select("id")
+        .single();
+      if (draftError) console.warn("Failed to save preview draft:", draftError);
+      else draftId = draftRow.id;
+    }
     
     const newPost: GeneratedPost = {
-      id: `post-${Date.now()}`,
+      id: draftId,
       content: previewPost.content,
       suggestedTime: (scheduledTime || new Date()).toISOString(),
       reasoning: "Created from preview",
@@ -627,7 +862,7 @@ export function useAgentChat(
     setGeneratedPosts(prev => [newPost, ...prev]);
     setPreviewPost(null);
     return newPost;
-  }, [previewPost, savePostToDatabase]);
+  }, [previewPost, savePostToDatabase, agentId, threadId]);
 
   // Clear preview
   const clearPreview = useCallback(() => {
@@ -637,6 +872,8 @@ export function useAgentChat(
   return {
     messages,
     isLoading,
+    streamingReply,
+    stopGeneration,
     generatedPosts,
     previewPost,
     sendMessage,
@@ -644,6 +881,7 @@ export function useAgentChat(
     clearHistory,
     updatePost,
     deletePost,
+    keepVariant,
     regeneratePost,
     generateImageForPost,
     setGeneratedPosts,
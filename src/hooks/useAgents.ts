@@ -2,10 +2,12 @@ import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { Json } from "@/integrations/supabase/types";
+import { getActiveWorkspaceId, WORKSPACE_CHANGED_EVENT } from "@/lib/workspaces";
 
 export interface Agent {
   id: string;
   user_id: string;
+  workspace_id: string;
   name: string;
   type: string;
   is_active: boolean;
@@ -41,10 +43,17 @@ export const useAgents = () => {
         return;
       }
 
+      // Agents are shared by everyone in the active workspace
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) {
+        setAgents([]);
+        return;
+      }
+
       const { data, error: fetchError } = await supabase
         .from("agents")
         .select("*")
-        .eq("user_id", user.id)
+        .eq("workspace_id", workspaceId)
         .order("created_at", { ascending: false });
 
       if (fetchError) throw fetchError;
@@ -69,14 +78,15 @@ export const useAgents = () => {
         return null;
       }
 
-      // Get user's subscription plan to check agent limits
-      const { data: profileData } = await supabase
-        .from("user_profiles")
+      // Agent limits come from the workspace's plan
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      const { data: workspaceData } = await supabase
+        .from("workspaces")
         .select("subscription_plan")
-        .eq("user_id", user.id)
+        .eq("id", workspaceId)
         .single();
 
-      const plan = profileData?.subscription_plan || "free";
+      const plan = workspaceData?.subscription_plan || "free";
       
       // Define agent limits per plan
       const AGENT_LIMITS: Record<string, number> = {
@@ -102,6 +112,7 @@ export const useAgents = () => {
         .from("agents")
         .insert({
           user_id: user.id,
+          workspace_id: workspaceId,
           name: agentData.name,
           type: agentData.type,
           settings: agentData.settings || {},
@@ -213,6 +224,11 @@ export const useAgents = () => {
     fetchAgents();
   }, [fetchAgents]);
 
+  useEffect(() => {
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, fetchAgents);
+    return () => window.removeEventListener(WORKSPACE_CHANGED_EVENT, fetchAgents);
+  }, [fetchAgents]);
+
   return {
     agents,
     isLoading,
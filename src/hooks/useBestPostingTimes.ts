@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_TIMEZONE } from "@/lib/timezoneUtils";
+import {
+  buildBestTimeHeatmap,
+  loadBestTimeHeatmap,
+  nextBestSlots,
+  type BestTimeHeatmap,
+} from "../../supabase/functions/_shared/bestTimes";
+
+export type { BestTimeHeatmap, SlotScore } from "../../supabase/functions/_shared/bestTimes";
+
+/**
+ * The user's posting slots ranked from their own analytics. Until it loads
+ * (or without enough posts) the ranking is typical LinkedIn peaks.
+ */
+export const useBestPostingTimes = (timeZone: string = DEFAULT_TIMEZONE) => {
+  const [heatmap, setHeatmap] = useState<BestTimeHeatmap>(() => buildBestTimeHeatmap([], timeZone));
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchHeatmap = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setHeatmap(await loadBestTimeHeatmap(supabase, user.id, timeZone));
+    } catch (error) {
+      console.error("Error loading best posting times:", error);
+      setHeatmap(buildBestTimeHeatmap([], timeZone));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeZone]);
+
+  useEffect(() => {
+    fetchHeatmap();
+  }, [fetchHeatmap]);
+
+  // Next few publish times from the ranking, in date order
+  const suggestedSlots = useMemo(() => nextBestSlots(heatmap, 3), [heatmap]);
+
+  return {
+    heatmap,
+    suggestedSlots,
+    isLoading,
+    refetch: fetchHeatmap,
+  };
+};
@@ -0,0 +1,189 @@
+import { useState, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import type { Post } from '@/hooks/usePosts';
+import { formatRelativeScheduledTime, validateScheduleTime } from '@/lib/scheduling';
+import { getZonedParts, zonedTimeToUtc } from '@/lib/timezoneUtils';
+import {
+  findScheduleConflicts,
+  type ScheduleConflict,
+} from '../../supabase/functions/_shared/scheduleConflicts';
+
+interface CalendarMove {
+  id: number;
+  postId: string;
+  from: string;
+  to: string;
+}
+
+export interface CalendarDropTarget {
+  key: string;
+  time: Date;
+  conflicts: ScheduleConflict[];
+}
+
+// Past slots and full days can't take the post; a tight gap only warns
+const BLOCKING_CONFLICTS: ScheduleConflict['kind'][] = ['past', 'daily_limit'];
+
+export function isBlockingConflict(conflict: ScheduleConflict): boolean {
+  return BLOCKING_CONFLICTS.includes(conflict.kind);
+}
+
+/** Identifies a week-view slot, so the drop target can be matched to its cell */
+export function weekSlotKey(day: Date, hour: number): string {
+  return `${format(day, 'yyyy-MM-dd')}T${hour}`;
+}
+
+/**
+ * The instant a calendar slot stands for in the user's timezone. `day` is a
+ * calendar-cell date (local midnight); without an hour the post keeps the
+ * time of day it already had.
+ */
+export function calendarSlotTime(day: Date, timeZone: string, post: Post, hour?: number): Date {
+  const current = getZonedParts(new Date(post.scheduled_time || Date.now()), timeZone);
+  return zonedTimeToUtc(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    hour ?? current.hours,
+    hour === undefined ? current.minutes : 0,
+    timeZone
+  );
+}
+
+/**
+ * Drag-and-drop rescheduling for the content calendar: live conflict checks
+ * while a pending post is dragged over a slot, the move itself (see
+ * usePosts.reschedulePost) and an undo stack of this session's moves.
+ */
+export function useCalendarReschedule({
+  posts,
+  reschedulePost,
+  timeZone,
+  dailyLimit,
+}: {
+  posts: Post[];
+  reschedulePost: (postId: string, scheduledTime: string) => Promise<{ success: boolean; extensionSynced?: boolean }>;
+  timeZone: string;
+  dailyLimit: number;
+}) {
+  const [draggedPostId, setDraggedPostId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<CalendarDropTarget | null>(null);
+  // Undo from a toast runs after later renders, so the stack lives in a ref
+  const movesRef = useRef<CalendarMove[]>([]);
+  const nextMoveIdRef = useRef(1);
+  const [undoCount, setUndoCount] = useState(0);
+  const [isMoving, setIsMoving] = useState(false);
+
+  const draggedPost = posts.find(p => p.id === draggedPostId) || null;
+
+  const canDrag = useCallback((post: Post) => post.status === 'pending' && !!post.scheduled_time && !isMoving, [isMoving]);
+
+  const startDrag = useCallback((post: Post) => {
+    setDraggedPostId(post.id);
+  }, []);
+
+  const endDrag = useCallback(() => {
+    setDraggedPostId(null);
+    setDropTarget(null);
+  }, []);
+
+  const conflictsFor = useCallback((postId: string, time: Date) => {
+    return findScheduleConflicts(postId, time, posts, { dailyLimit, timeZone });
+  }, [posts, dailyLimit, timeZone]);
+
+  // Called on every dragover; only re-checks when the slot changes
+  const previewDrop = useCallback((key: string, time: Date) => {
+    if (!draggedPostId) return;
+    setDropTarget(prev => prev?.key === key ? prev : { key, time, conflicts: conflictsFor(draggedPostId, time) });
+  }, [draggedPostId, conflictsFor]);
+
+  const move = useCallback(async (postId: string, to: string) => {
+    setIsMoving(true);
+    try {
+      const result = await reschedulePost(postId, to);
+      if (result.success && !result.extensionSynced) {
+        toast.warning("Moved, but the extension didn't confirm the new time", {
+          description: 'It will be picked up once the extension reconnects.',
+        });
+      }
+      return result.success;
+    } finally {
+      setIsMoving(false);
+    }
+  }, [reschedulePost]);
+
+  const setMoves = useCallback((next: CalendarMove[]) => {
+    movesRef.current = next;
+    setUndoCount(next.length);
+  }, []);
+
+  // Undoes the given move (a toast's own), or the latest one
+  const undo = useCallback(async (moveId?: number) => {
+    const moves = movesRef.current;
+    const index = moveId === undefined ? moves.length - 1 : moves.findIndex(m => m.id === moveId);
+    const target = moves[index];
+    if (!target) return;
+    if (moves.slice(index + 1).some(m => m.postId === target.postId)) {
+      toast.error("Can't undo this move", { description: 'The post has been moved again since.' });
+      return;
+    }
+    setMoves(moves.filter(m => m.id !== target.id));
+
+    const validation = validateScheduleTime(target.from);
+    if (!validation.valid) {
+      toast.error("Can't undo this move", { description: validation.error });
+      return;
+    }
+
+    if (await move(target.postId, target.from)) {
+      toast.success(`Moved back to ${formatRelativeScheduledTime(target.from, timeZone)}`);
+    } else {
+      setMoves([...movesRef.current, target].sort((a, b) => a.id - b.id));
+    }
+  }, [move, setMoves, timeZone]);
+
+  const drop = useCallback(async (time: Date) => {
+    const post = draggedPost;
+    endDrag();
+    if (!post?.scheduled_time) return;
+    if (Math.abs(new Date(post.scheduled_time).getTime() - time.getTime()) < 60000) return;
+
+    const conflicts = conflictsFor(post.id, time);
+    const blocking = conflicts.find(isBlockingConflict);
+    if (blocking) {
+      toast.error("Can't move the post there", { description: blocking.message });
+      return;
+    }
+    const validation = validateScheduleTime(time);
+    if (!validation.valid) {
+      toast.error("Can't move the post there", { description: validation.error });
+      return;
+    }
+
+    const from = post.scheduled_time;
+    const to = time.toISOString();
+    if (!(await move(post.id, to))) return;
+
+    const moveId = nextMoveIdRef.current++;
+    setMoves([...movesRef.current, { id: moveId, postId: post.id, from, to }]);
+    const gap = conflicts.find(c => c.kind === 'min_gap');
+    toast.success(`Moved to ${formatRelativeScheduledTime(to, timeZone)}`, {
+      description: gap?.message,
+      action: { label: 'Undo', onClick: () => undo(moveId) },
+    });
+  }, [draggedPost, endDrag, conflictsFor, move, setMoves, timeZone, undo]);
+
+  return {
+    draggedPost,
+    dropTarget,
+    isMoving,
+    canDrag,
+    canUndo: undoCount > 0 && !isMoving,
+    startDrag,
+    endDrag,
+    previewDrop,
+    drop,
+    undo,
+  };
+}
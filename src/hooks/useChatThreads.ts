@@ -0,0 +1,190 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface ChatThread {
+  id: string;
+  title: string | null; // NULL until named; the first user message names it
+  last_message_at: string;
+  created_at: string;
+}
+
+export interface ChatSearchResult {
+  messageId: string;
+  threadId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+export const UNTITLED_THREAD = 'New conversation';
+
+const SEARCH_RESULT_LIMIT = 25;
+
+/**
+ * Conversations with one agent (chat_threads), most recently active first.
+ * There is always an active thread once loaded - an agent without one gets
+ * a fresh thread so messages and drafts have somewhere to live.
+ */
+export function useChatThreads(agentId: string | null) {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const insertThread = useCallback(async (title?: string): Promise<ChatThread | null> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !agentId) return null;
+
+    const { data, error } = await supabase
+      .from('chat_threads')
+      .insert({ user_id: user.id, agent_id: agentId, title: title?.trim() || null })
+      .select('id, title, last_message_at, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating chat thread:', error);
+      return null;
+    }
+    return data as ChatThread;
+  }, [agentId]);
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !agentId) {
+        setThreads([]);
+        setActiveThreadId(null);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .select('id, title, last_message_at, created_at')
+        .eq('user_id', user.id)
+        .eq('agent_id', agentId)
+        .order('last_message_at', { ascending: false });
+
+      if (error) throw error;
+
+      let loaded = (data || []) as ChatThread[];
+      if (loaded.length === 0) {
+        const created = await insertThread();
+        loaded = created ? [created] : [];
+      }
+
+      setThreads(loaded);
+      setActiveThreadId(prev => (prev && loaded.some(t => t.id === prev) ? prev : loaded[0]?.id ?? null));
+    } catch (error) {
+      console.error('Error fetching chat threads:', error);
+      toast.error('Failed to load conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId, insertThread]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setActiveThreadId(null);
+    fetchThreads();
+  }, [fetchThreads]);
+
+  const createThread = useCallback(async (title?: string) => {
+    const thread = await insertThread(title);
+    if (!thread) {
+      toast.error('Failed to start a new conversation');
+      return null;
+    }
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  }, [insertThread]);
+
+  const renameThread = useCallback(async (threadId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return false;
+
+    const { error } = await supabase
+      .from('chat_threads')
+      .update({ title: trimmed })
+      .eq('id', threadId);
+
+    if (error) {
+      console.error('Error renaming chat thread:', error);
+      toast.error('Failed to rename conversation');
+      return false;
+    }
+    setThreads(prev => prev.map(t => (t.id === threadId ? { ...t, title: trimmed } : t)));
+    return true;
+  }, []);
+
+  // Messages and drafts in the thread go with it (ON DELETE CASCADE);
+  // posts already queued from its drafts are kept
+  const deleteThread = useCallback(async (threadId: string) => {
+    const { error } = await supabase
+      .from('chat_threads')
+      .delete()
+      .eq('id', threadId);
+
+    if (error) {
+      console.error('Error deleting chat thread:', error);
+      toast.error('Failed to delete conversation');
+      return false;
+    }
+
+    const remaining = threads.filter(t => t.id !== threadId);
+    if (remaining.length === 0) {
+      const created = await insertThread();
+      setThreads(created ? [created] : []);
+      setActiveThreadId(created?.id ?? null);
+    } else {
+      setThreads(remaining);
+      if (activeThreadId === threadId) setActiveThreadId(remaining[0].id);
+    }
+    toast.success('Conversation deleted');
+    return true;
+  }, [threads, activeThreadId, insertThread]);
+
+  /** Full-text search over every message with this agent */
+  const searchMessages = useCallback(async (query: string): Promise<ChatSearchResult[]> => {
+    const trimmed = query.trim();
+    if (!trimmed || !agentId) return [];
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('id, thread_id, role, content, created_at')
+      .eq('user_id', user.id)
+      .eq('agent_id', agentId)
+      .not('thread_id', 'is', null)
+      .textSearch('search_vector', trimmed, { type: 'websearch', config: 'english' })
+      .order('created_at', { ascending: false })
+      .limit(SEARCH_RESULT_LIMIT);
+
+    if (error) {
+      console.error('Error searching chat history:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      messageId: row.id,
+      threadId: row.thread_id as string,
+      role: row.role as 'user' | 'assistant',
+      content: row.content,
+      createdAt: row.created_at,
+    }));
+  }, [agentId]);
+
+  return {
+    threads,
+    activeThreadId,
+    setActiveThreadId,
+    isLoading,
+    createThread,
+    renameThread,
+    deleteThread,
+    searchMessages,
+    refetch: fetchThreads,
+  };
+}
@@ -1,9 +1,11 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import type { ExtensionEventType } from '@/types/extension';
+import type { ExtensionEventType, ExtensionInboundMessage } from '@/types/extension';
 import { validateLinkedInPostUrl } from '@/lib/linkedinUrlUtils';
 import { sanitizeAnalyticsValue } from '@/lib/analyticsSanitizer';
+import { recordPostPublished, transitionPostStatus, type PostStatusUpdates } from '@/lib/postLifecycle';
+import { getExtensionClient } from '@/lib/extensionProtocol';
 
 // Re-export for backward compatibility
 export type { ExtensionEventType } from '@/types/extension';
@@ -25,6 +27,34 @@ export interface ExtensionEventData {
   };
 }
 
+/**
+ * Persist an extension-reported result through the post state machine.
+ * A publish is recorded like post-success's, so whichever report arrives
+ * first counts and notifies. A freshly captured URL also resets the
+ * analytics counters.
+ */
+async function saveExtensionResult(
+  postId: string,
+  to: 'posted' | 'failed',
+  updates: PostStatusUpdates,
+  reason: string
+): Promise<void> {
+  const { supabase } = await import('@/integrations/supabase/client');
+
+  await transitionPostStatus(supabase, { postId, to, source: 'extension', reason, updates });
+
+  if (to === 'posted') {
+    await recordPostPublished(supabase, { postId, source: 'web', linkedinUrl: updates.linkedin_post_url });
+  }
+
+  if (to === 'posted' && updates.linkedin_post_url) {
+    await supabase
+      .from('posts')
+      .update({ views_count: 0, likes_count: 0, comments_count: 0, shares_count: 0 })
+      .eq('id', postId);
+  }
+}
+
 export interface PostStatusInfo {
   status: 'draft' | 'scheduled' | 'posting' | 'posted' | 'failed' | 'verifying';
   message: string;
@@ -131,12 +161,8 @@ export const useExtensionEvents = () => {
   }, []);
 
   useEffect(() => {
-    // Handler for new postMessage-based events from webapp-content.js
-    const handleWindowMessage = async (event: MessageEvent) => {
-      if (event.source !== window) return;
-      
-      const message = event.data;
-      
+    // Handler for validated messages from webapp-content.js
+    const handleWindowMessage = async (message: ExtensionInboundMessage) => {
       // Connection status messages
       if (message.type === 'EXTENSION_CONNECTED') {
         setStatus(prev => ({
@@ -231,44 +257,21 @@ export const useExtensionEvents = () => {
           const urlValidation = validateLinkedInPostUrl(actualUrl);
           console.log('🔍 URL validation result:', urlValidation);
           
-          // Determine what status to set based on URL validity
-          const postStatus = urlValidation.isValid ? 'posted' : 'posted';
           const validUrl = urlValidation.isValid ? urlValidation.url : actualUrl;
           
           console.log('✅ Post successful, saving LinkedIn URL:', validUrl);
           
           try {
-            // Import supabase dynamically to avoid circular deps
-            const { supabase } = await import('@/integrations/supabase/client');
-            
-            // Update post with LinkedIn URL and status
-            const updateData: Record<string, unknown> = {
-              status: postStatus,
-              posted_at: new Date().toISOString(),
-            };
-            
             // Always save the URL even if validation failed - user might want to check manually
-            if (validUrl) {
-              updateData.linkedin_post_url = validUrl;
-              // Initialize analytics to 0 when URL is captured
-              updateData.views_count = 0;
-              updateData.likes_count = 0;
-              updateData.comments_count = 0;
-              updateData.shares_count = 0;
-            }
-            
-            // Clear any error state
-            updateData.last_error = null;
-            
-            const { error: updateError } = await supabase
-              .from('posts')
-              .update(updateData)
-              .eq('id', actualPostId);
-            
-            if (updateError) {
-              console.error('Failed to save LinkedIn URL:', updateError);
-            } else {
+            try {
+              await saveExtensionResult(actualPostId, 'posted', {
+                posted_at: new Date().toISOString(),
+                linkedin_post_url: validUrl || undefined,
+                last_error: null, // Clear any error state
+              }, urlValidation.isValid ? 'Extension reported success' : 'Extension reported success (URL not verified)');
               console.log('✅ LinkedIn URL saved to database:', validUrl);
+            } catch (updateError) {
+              console.error('Failed to save LinkedIn URL:', updateError);
             }
             
             // Update local status
@@ -313,10 +316,10 @@ export const useExtensionEvents = () => {
               console.log('📊 Scheduling analytics scraping in 10 seconds...');
               setTimeout(() => {
                 console.log('📊 Triggering analytics scrape for:', validUrl);
-                window.postMessage({
+                getExtensionClient().post({
                   type: 'SCRAPE_ANALYTICS',
                   postUrl: validUrl,
-                }, '*');
+                });
               }, 10000);
             }
           } catch (err) {
@@ -358,14 +361,10 @@ export const useExtensionEvents = () => {
             
             // Update post status to failed
             if (actualPostId) {
-              await supabase
-                .from('posts')
-                .update({ 
-                  status: 'failed',
-                  last_error: error || 'Unknown error',
-                })
-                .eq('id', actualPostId);
-              
+              await saveExtensionResult(actualPostId, 'failed', {
+                last_error: error || 'Unknown error',
+              }, 'Extension reported failure');
+
               updatePostStatus(actualPostId, {
                 status: 'failed',
                 message: error || 'Failed to post',
@@ -563,33 +562,14 @@ export const useExtensionEvents = () => {
               // 🔥 CRITICAL: Save to database from here too!
               (async () => {
                 try {
-                  const { supabase } = await import('@/integrations/supabase/client');
+                  console.log('💾 Saving post status to database:', postId);
                   
-                  const updateData: Record<string, unknown> = {
-                    status: 'posted',
+                  await saveExtensionResult(postId, 'posted', {
                     posted_at: new Date().toISOString(),
-                  };
-                  
-                  if (data.linkedinUrl) {
-                    updateData.linkedin_post_url = data.linkedinUrl;
-                    updateData.views_count = 0;
-                    updateData.likes_count = 0;
-                    updateData.comments_count = 0;
-                    updateData.shares_count = 0;
-                  }
-                  
-                  console.log('💾 Saving post status to database:', postId, updateData);
-                  
-                  const { error: updateError } = await supabase
-                    .from('posts')
-                    .update(updateData)
-                    .eq('id', postId);
+                    linkedin_post_url: data.linkedinUrl || undefined,
+                  }, 'Extension reported success');
                   
-                  if (updateError) {
-                    console.error('Failed to update post status:', updateError);
-                  } else {
-                    console.log('✅ Post status saved to database');
-                  }
+                  console.log('✅ Post status saved to database');
                 } catch (err) {
                   console.error('Error saving post status:', err);
                 }
@@ -625,17 +605,11 @@ export const useExtensionEvents = () => {
               // Don't get stuck on "verifying" - mark as posted anyway
               (async () => {
                 try {
-                  const { supabase } = await import('@/integrations/supabase/client');
-                  
                   // Mark as posted even without URL - don't leave in verifying state
-                  await supabase
-                    .from('posts')
-                    .update({
-                      status: 'posted',
-                      posted_at: new Date().toISOString(),
-                      last_error: 'URL extraction failed - check LinkedIn manually',
-                    })
-                    .eq('id', postId);
+                  await saveExtensionResult(postId, 'posted', {
+                    posted_at: new Date().toISOString(),
+                    last_error: 'URL extraction failed - check LinkedIn manually',
+                  }, 'Extension posted but could not capture the URL');
                   
                   console.log('✅ Post marked as posted (URL extraction failed)');
                 } catch (err) {
@@ -787,7 +761,7 @@ export const useExtensionEvents = () => {
     };
 
     // Register window message listener for new events
-    window.addEventListener('message', handleWindowMessage);
+    const stopListening = getExtensionClient().onMessage(handleWindowMessage);
     
     // Register legacy event listeners
     window.addEventListener('linkedbot:post-published', handlePostPublished as EventListener);
@@ -798,7 +772,7 @@ export const useExtensionEvents = () => {
     window.addEventListener('linkedbot:error', handleError as EventListener);
 
     return () => {
-      window.removeEventListener('message', handleWindowMessage);
+      stopListening();
       window.removeEventListener('linkedbot:post-published', handlePostPublished as EventListener);
       window.removeEventListener('linkedbot:post-failed', handlePostFailed as EventListener);
       window.removeEventListener('linkedbot:analytics-updated', handleAnalyticsUpdated as EventListener);
@@ -1,8 +1,11 @@
 // useLinkedBotExtension.ts - v4.2 (Simplified - NO auth/user_id)
 // React hook for LinkedBot Chrome Extension Communication
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
+import { checkProtocolCompatibility, getExtensionClient } from '@/lib/extensionProtocol';
+import { canSendToExtension, type PostStatus } from '@/lib/postLifecycle';
+import type { ExtensionInboundMessage } from '@/types/extension';
 
 interface ExtensionState {
   isInstalled: boolean;
@@ -21,6 +24,10 @@ interface PostData {
   trackingId?: string;
 }
 
+interface PendingPostData extends PostData {
+  status: PostStatus;      // checked before scheduling, not sent
+}
+
 export function useLinkedBotExtension() {
   const [state, setState] = useState<ExtensionState>({
     isInstalled: false,
@@ -29,18 +36,13 @@ export function useLinkedBotExtension() {
     isLoading: true,
     requiresRefresh: false,
   });
-  
-  const messageHandlerRef = useRef<((event: MessageEvent) => void) | null>(null);
 
   // ============================================================================
   // HANDLE EXTENSION MESSAGES
   // ============================================================================
   
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      if (event.source !== window) return;
-      const message = event.data;
-
+    const handleMessage = (message: ExtensionInboundMessage) => {
       // Extension connected
       if (message.type === 'EXTENSION_CONNECTED') {
         setState({
@@ -56,9 +58,17 @@ export function useLinkedBotExtension() {
           localStorage.setItem('extension_id', message.extensionId);
         }
         
-        toast.success('Extension Connected', {
-          description: 'LinkedBot extension is ready to use!',
-        });
+        const compatibility = checkProtocolCompatibility(message);
+        if (compatibility.compatible) {
+          toast.success('Extension Connected', {
+            description: 'LinkedBot extension is ready to use!',
+          });
+        } else {
+          toast.warning('Extension version mismatch', {
+            description: compatibility.message,
+            duration: 15000,
+          });
+        }
       }
 
       // Extension status check
@@ -154,14 +164,7 @@ export function useLinkedBotExtension() {
       }
     };
 
-    messageHandlerRef.current = handleMessage;
-    window.addEventListener('message', handleMessage);
-
-    return () => {
-      if (messageHandlerRef.current) {
-        window.removeEventListener('message', messageHandlerRef.current);
-      }
-    };
+    return getExtensionClient().onMessage(handleMessage);
   }, []);
 
   // ============================================================================
@@ -169,6 +172,9 @@ export function useLinkedBotExtension() {
   // ============================================================================
   
   useEffect(() => {
+    // Start the protocol client so it answers the extension's handshake
+    getExtensionClient();
+
     // Check localStorage for previously connected extension
     const wasConnected = localStorage.getItem('extension_connected') === 'true';
     const savedExtensionId = localStorage.getItem('extension_id');
@@ -185,7 +191,7 @@ export function useLinkedBotExtension() {
     
     // Send connection check message
     setTimeout(() => {
-      window.postMessage({ type: 'CHECK_EXTENSION' }, '*');
+      getExtensionClient().send({ type: 'CHECK_EXTENSION' });
     }, 500);
     
     // Set loading to false after timeout
@@ -218,30 +224,31 @@ export function useLinkedBotExtension() {
   const connectExtension = useCallback(async () => {
     setState(prev => ({ ...prev, isLoading: true }));
     
-    // Send connection request via postMessage
-    window.postMessage({ type: 'CONNECT_EXTENSION' }, '*');
+    const client = getExtensionClient();
     
     // Wait for response
-    return new Promise<{ success: boolean; extensionId?: string }>((resolve) => {
+    const connected = new Promise<{ success: boolean; extensionId?: string }>((resolve) => {
       const timeout = setTimeout(() => {
+        unsubscribe();
         setState(prev => ({ ...prev, isLoading: false }));
         resolve({ success: false });
       }, 3000);
       
-      const handler = (event: MessageEvent) => {
-        if (event.data.type === 'EXTENSION_CONNECTED') {
+      const unsubscribe = client.onMessage((message) => {
+        if (message.type === 'EXTENSION_CONNECTED') {
           clearTimeout(timeout);
-          window.removeEventListener('message', handler);
-          resolve({ success: true, extensionId: event.data.extensionId });
+          unsubscribe();
+          resolve({ success: true, extensionId: message.extensionId });
         }
-      };
-      
-      window.addEventListener('message', handler);
+      });
     });
+
+    client.send({ type: 'CONNECT_EXTENSION' });
+    return connected;
   }, []);
 
   const disconnectExtension = useCallback(async () => {
-    window.postMessage({ type: 'DISCONNECT_EXTENSION' }, '*');
+    getExtensionClient().send({ type: 'DISCONNECT_EXTENSION' });
     
     setState({
       isInstalled: true,
@@ -256,7 +263,7 @@ export function useLinkedBotExtension() {
   }, []);
 
   const checkExtension = useCallback(async () => {
-    window.postMessage({ type: 'CHECK_EXTENSION' }, '*');
+    getExtensionClient().send({ type: 'CHECK_EXTENSION' });
   }, []);
 
   // v4.0 - Simplified postNow (NO user_id)
@@ -282,21 +289,21 @@ export function useLinkedBotExtension() {
       return { success: false, error: 'Page refresh required' };
     }
 
-    // v4.0 - Simple payload (NO user_id)
-    window.postMessage({
+    // v4.0 - Simple payload (NO user_id); the result arrives as POST_RESULT
+    getExtensionClient().post({
       type: 'POST_NOW',
       post: {
         id: post.id,
         content: post.content,
         imageUrl: post.imageUrl || null,
       },
-    }, '*');
+    });
     
     return { success: true };
   }, [state.isConnected, state.requiresRefresh]);
 
   // v4.0 - Simplified sendPendingPosts (NO user_id)
-  const sendPendingPosts = useCallback(async (posts: PostData[]): Promise<{ success: boolean; error?: string; queueLength?: number }> => {
+  const sendPendingPosts = useCallback(async (posts: PendingPostData[]): Promise<{ success: boolean; error?: string; queueLength?: number }> => {
     console.log('=== useLinkedBotExtension.sendPendingPosts v4.0 ===');
     console.log('Posts:', posts);
 
@@ -308,6 +315,11 @@ export function useLinkedBotExtension() {
       return { success: false, error: 'Page refresh required' };
     }
 
+    // Same gate as sendToExtension: nothing still in review, nothing unknown
+    if (posts.some(post => !canSendToExtension(post.status))) {
+      return { success: false, error: 'Only approved posts can be sent to the extension' };
+    }
+
     // v4.0 - Simple payload (NO user_id, renamed fields)
     const transformedPosts = posts.map(post => ({
       id: post.id,
@@ -317,12 +329,19 @@ export function useLinkedBotExtension() {
       trackingId: post.trackingId,
     }));
 
-    window.postMessage({
-      type: 'SCHEDULE_POSTS',
-      posts: transformedPosts,
-    }, '*');
-    
-    return { success: true };
+    const result = await getExtensionClient().request(
+      { type: 'SCHEDULE_POSTS', posts: transformedPosts },
+      { timeoutMs: 5000, retries: 2, idempotent: true }
+    );
+    if (result.ok === false) {
+      return { success: false, error: 'Extension did not confirm scheduling' };
+    }
+
+    return {
+      success: result.response.success,
+      error: result.response.error,
+      queueLength: result.response.queueLength || result.response.scheduledCount,
+    };
   }, [state.isConnected, state.requiresRefresh]);
 
   const scrapeAnalytics = useCallback(() => {
@@ -333,7 +352,7 @@ export function useLinkedBotExtension() {
       return;
     }
 
-    window.postMessage({ type: 'SCRAPE_ANALYTICS' }, '*');
+    getExtensionClient().send({ type: 'SCRAPE_ANALYTICS' });
   }, [state.isConnected]);
 
   const scanPosts = useCallback(async (limit = 50) => {
@@ -341,10 +360,7 @@ export function useLinkedBotExtension() {
       return { success: false, error: 'Extension not connected' };
     }
 
-    window.postMessage({
-      type: 'SCAN_POSTS',
-      limit: limit,
-    }, '*');
+    getExtensionClient().send({ type: 'SCAN_POSTS', limit });
     
     return { success: true };
   }, [state.isConnected]);
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import type { AlignedRow, PostGrowth } from '../../supabase/functions/_shared/analyticsSeries';
+import type { ContentInsights } from '../../supabase/functions/_shared/contentInsights';
+import type { StyleProfile } from '../../supabase/functions/_shared/styleFingerprint';
 
 interface AnalyticsProfile {
   id: string;
@@ -25,6 +28,13 @@ interface PostAnalytics {
   shares: number;
   post_timestamp: string | null;
   scraped_at: string | null;
+  growth?: PostGrowth;
+}
+
+/** Posts overlaid by time since publish; rows are keyed by post id */
+export interface AnalyticsComparison {
+  posts: { id: string; content_preview: string | null; posted_at: string }[];
+  rows: AlignedRow[];
 }
 
 interface WritingStyle {
@@ -35,11 +45,14 @@ interface WritingStyle {
   usesHashtags: boolean;
   avgHashtagsPerPost: number;
   totalPostsAnalyzed: number;
+  styleProfile: StyleProfile | null;
 }
 
 interface UseLinkedInAnalyticsReturn {
   profile: AnalyticsProfile | null;
   posts: PostAnalytics[];
+  comparison: AnalyticsComparison | null;
+  insights: ContentInsights | null;
   writingStyle: WritingStyle | null;
   lastSync: string | null;
   isLoading: boolean;
@@ -47,7 +60,7 @@ interface UseLinkedInAnalyticsReturn {
   isScanning: boolean;
   scanProgress: { message: string; percentage: number } | null;
   error: string | null;
-  fetchAnalytics: () => Promise<void>;
+  fetchAnalytics: (compare?: string[]) => Promise<void>;
   syncAnalytics: (extensionData: { profile: any; posts: any[] }) => Promise<boolean>;
   saveScannedPosts: (data: { posts: any[]; writingStyle: any }) => Promise<boolean>;
   fetchWritingStyle: () => Promise<void>;
@@ -56,6 +69,8 @@ interface UseLinkedInAnalyticsReturn {
 export const useLinkedInAnalytics = (): UseLinkedInAnalyticsReturn => {
   const [profile, setProfile] = useState<AnalyticsProfile | null>(null);
   const [posts, setPosts] = useState<PostAnalytics[]>([]);
+  const [comparison, setComparison] = useState<AnalyticsComparison | null>(null);
+  const [insights, setInsights] = useState<ContentInsights | null>(null);
   const [writingStyle, setWritingStyle] = useState<WritingStyle | null>(null);
   const [lastSync, setLastSync] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -65,7 +80,7 @@ export const useLinkedInAnalytics = (): UseLinkedInAnalyticsReturn => {
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const fetchAnalytics = useCallback(async () => {
+  const fetchAnalytics = useCallback(async (compare?: string[]) => {
     try {
       setIsLoading(true);
       setError(null);
@@ -77,6 +92,7 @@ export const useLinkedInAnalytics = (): UseLinkedInAnalyticsReturn => {
       }
 
       const response = await supabase.functions.invoke('get-analytics', {
+        body: compare?.length ? { compare } : {},
         headers: {
           Authorization: `Bearer ${session.access_token}`,
         },
@@ -88,6 +104,8 @@ export const useLinkedInAnalytics = (): UseLinkedInAnalyticsReturn => {
       if (data.success) {
         setProfile(data.analytics?.profile || null);
         setPosts(data.analytics?.posts || []);
+        setComparison(data.analytics?.comparison || null);
+        setInsights(data.analytics?.insights || null);
         setLastSync(data.lastSync);
       }
     } catch (err) {
@@ -231,6 +249,8 @@ export const useLinkedInAnalytics = (): UseLinkedInAnalyticsReturn => {
   return {
     profile,
     posts,
+    comparison,
+    insights,
     writingStyle,
     lastSync,
     isLoading,
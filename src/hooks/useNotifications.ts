@@ -7,7 +7,7 @@ export interface Notification {
   user_id: string | null;
   title: string;
   message: string;
-  type: "admin" | "system" | "post" | "analytics";
+  type: "admin" | "system" | "post" | "analytics" | "review";
   is_read: boolean;
   created_at: string;
 }
@@ -34,7 +34,7 @@ export const useNotifications = () => {
 
       const typedData = (data || []).map(n => ({
         ...n,
-        type: n.type as "admin" | "system" | "post" | "analytics"
+        type: n.type as Notification["type"]
       }));
       
       setNotifications(typedData);
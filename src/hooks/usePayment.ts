@@ -1,6 +1,7 @@
 import { useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getActiveWorkspaceId } from "@/lib/workspaces";
 
 // Plan pricing
 export const PLAN_PRICING = {
@@ -93,9 +94,12 @@ export function usePayment() {
     setIsLoading(true);
 
     try {
-      // Step 1: Create order
+      // Step 1: Create order for the active workspace (plans are per workspace)
+      const { data: { user } } = await supabase.auth.getUser();
+      const workspaceId = user ? await getActiveWorkspaceId(user.id) : null;
+
       const { data: orderData, error: orderError } = await supabase.functions.invoke("razorpay-payment", {
-        body: { action: "create_order", plan, couponCode },
+        body: { action: "create_order", plan, couponCode, workspaceId },
       });
 
       if (orderError) throw orderError;
@@ -0,0 +1,208 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { generatePostTrackingId, embedTrackingId } from '@/lib/postHelpers';
+import { generateContentHash } from '@/lib/postLifecycle';
+import { createExtensionPayload, sendToExtension } from '@/lib/scheduling';
+import { DEFAULT_TIMEZONE } from '@/lib/timezoneUtils';
+import { getActiveWorkspaceId } from '@/lib/workspaces';
+import {
+  importableRows,
+  parseImportFile,
+  postsToCsv,
+  postsToJson,
+  postsToMarkdown,
+  validateImportRows,
+  type ExportFormat,
+  type ExportPost,
+  type ImportPreviewRow,
+} from '@/lib/postImportExport';
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; type: string }> = {
+  csv: { extension: 'csv', type: 'text/csv;charset=utf-8' },
+  json: { extension: 'json', type: 'application/json' },
+  markdown: { extension: 'md', type: 'text/markdown;charset=utf-8' },
+};
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Bulk import of pending posts from CSV/JSON (preview first, then insert)
+ * and export of the workspace's posts with their latest analytics.
+ */
+export function usePostImportExport(timeZone: string = DEFAULT_TIMEZONE) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Parse and validate a file against the workspace's agents and posts
+  const previewImport = useCallback(async (file: File): Promise<{ rows: ImportPreviewRow[]; error?: string }> => {
+    const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+    const parsed = parseImportFile(await file.text(), isJson ? 'json' : 'csv');
+    if (parsed.error) return { rows: [], error: parsed.error };
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { rows: [], error: 'Please log in to import posts' };
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) return { rows: [], error: 'No active workspace' };
+
+      const [agentsResult, postsResult] = await Promise.all([
+        supabase.from('agents').select('id, name').eq('workspace_id', workspaceId),
+        supabase.from('posts').select('content').eq('workspace_id', workspaceId).neq('status', 'cancelled'),
+      ]);
+      if (agentsResult.error) throw agentsResult.error;
+      if (postsResult.error) throw postsResult.error;
+
+      const rows = validateImportRows(parsed.rows, {
+        agents: agentsResult.data || [],
+        existingHashes: new Set((postsResult.data || []).map(p => generateContentHash(p.content))),
+        timeZone,
+      });
+      return { rows };
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      return { rows: [], error: 'Failed to check the file against your posts' };
+    }
+  }, [timeZone]);
+
+  // Insert the valid, non-duplicate rows as pending posts and queue them
+  const importPosts = useCallback(async (rows: ImportPreviewRow[]): Promise<number> => {
+    const toImport = importableRows(rows);
+    if (toImport.length === 0) return 0;
+
+    setIsImporting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast.error('Please log in to import posts');
+        return 0;
+      }
+      const workspaceId = await getActiveWorkspaceId(user.id);
+
+      const inserts = toImport.map(row => {
+        const trackingId = generatePostTrackingId();
+        return {
+          user_id: user.id,
+          workspace_id: workspaceId || undefined,
+          content: row.content,
+          content_with_tracking: embedTrackingId(row.content, trackingId),
+          tracking_id: trackingId,
+          photo_url: row.imageUrl,
+          image_skipped: !row.imageUrl,
+          scheduled_time: row.scheduledTime,
+          agent_id: row.agentId,
+          agent_name: row.agentName,
+          status: 'pending',
+          retry_count: 0,
+        };
+      });
+
+      const { data, error } = await supabase
+        .from('posts')
+        .insert(inserts)
+        .select('id, content, photo_url, scheduled_time, tracking_id');
+      if (error) throw error;
+
+      const saved = data || [];
+      const result = await sendToExtension(saved.map(post => createExtensionPayload(
+        post.id,
+        post.content,
+        post.scheduled_time!,
+        { imageUrl: post.photo_url, trackingId: post.tracking_id || undefined, status: 'pending' }
+      )));
+
+      if (result.success) {
+        toast.success(`Imported ${saved.length} post${saved.length === 1 ? '' : 's'}`);
+      } else {
+        toast.warning(`Imported ${saved.length} post${saved.length === 1 ? '' : 's'}, but the extension didn't confirm them`, {
+          description: 'They will be picked up once the extension reconnects.',
+        });
+      }
+      return saved.length;
+    } catch (error) {
+      console.error('Error importing posts:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import posts');
+      return 0;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  const exportPosts = useCallback(async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) return;
+
+      const { data: posts, error } = await supabase
+        .from('posts')
+        .select('id, content, status, agent_name, scheduled_time, posted_at, photo_url, linkedin_post_url, views_count, likes_count, comments_count, shares_count')
+        .eq('workspace_id', workspaceId)
+        .order('scheduled_time', { ascending: true, nullsFirst: false });
+      if (error) throw error;
+
+      // Latest scraped metrics win over the counts synced onto the post
+      const postedIds = (posts || []).filter(p => p.status === 'posted').map(p => p.id);
+      const latest = new Map<string, { views: number | null; likes: number | null; comments: number | null; shares: number | null }>();
+      if (postedIds.length > 0) {
+        const { data: analytics, error: analyticsError } = await supabase
+          .from('post_analytics')
+          .select('post_id, views, likes, comments, shares, scraped_at')
+          .in('post_id', postedIds)
+          .order('scraped_at', { ascending: false });
+        if (analyticsError) throw analyticsError;
+        for (const row of analytics || []) {
+          if (!latest.has(row.post_id)) latest.set(row.post_id, row);
+        }
+      }
+
+      const rows: ExportPost[] = (posts || []).map(post => {
+        const metrics = latest.get(post.id);
+        return {
+          id: post.id,
+          content: post.content,
+          status: post.status || 'pending',
+          agentName: post.agent_name,
+          scheduledTime: post.scheduled_time,
+          postedAt: post.posted_at,
+          imageUrl: post.photo_url,
+          linkedinUrl: post.linkedin_post_url,
+          views: metrics?.views ?? post.views_count,
+          likes: metrics?.likes ?? post.likes_count,
+          comments: metrics?.comments ?? post.comments_count,
+          shares: metrics?.shares ?? post.shares_count,
+        };
+      });
+
+      const content = exportFormat === 'csv'
+        ? postsToCsv(rows)
+        : exportFormat === 'json' ? postsToJson(rows) : postsToMarkdown(rows);
+      const file = EXPORT_FILES[exportFormat];
+      downloadFile(content, `posts-${format(new Date(), 'yyyy-MM-dd')}.${file.extension}`, file.type);
+      toast.success(`Exported ${rows.length} post${rows.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting posts:', error);
+      toast.error('Failed to export posts');
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  return {
+    isImporting,
+    isExporting,
+    previewImport,
+    importPosts,
+    exportPosts,
+  };
+}
@@ -0,0 +1,315 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { createExtensionPayload, sendToExtension, validateScheduleTime } from '@/lib/scheduling';
+import { REVIEW_STATUSES, transitionPostStatus, type PostStatus } from '@/lib/postLifecycle';
+import type { ResearchSource } from '../../supabase/functions/_shared/research';
+
+export type ReviewDecision = 'approve' | 'request_changes';
+
+export interface ReviewPost {
+  id: string;
+  user_id: string;
+  content: string;
+  photo_url: string | null;
+  status: PostStatus;
+  tracking_id: string | null;
+  scheduled_time: string | null;
+  reviewer_id: string | null;
+  review_requested_at: string | null;
+  reviewed_at: string | null;
+  updated_at: string;
+  sources: ResearchSource[];
+}
+
+export interface ReviewComment {
+  id: string;
+  post_id: string;
+  author_id: string;
+  body: string;
+  quoted_text: string | null;
+  anchor_start: number | null;
+  anchor_end: number | null;
+  resolved: boolean;
+  created_at: string;
+}
+
+/** A span of the post content an inline comment points at */
+export interface CommentAnchor {
+  start: number;
+  end: number;
+  quotedText: string;
+}
+
+const REVIEW_POST_COLUMNS =
+  'id, user_id, content, photo_url, status, tracking_id, scheduled_time, reviewer_id, review_requested_at, reviewed_at, updated_at, sources';
+
+// Messages raised by submit_post_for_review / review_post are meant for users
+function reviewErrorMessage(error: { message: string; hint?: string }, fallback: string): string {
+  if (['reviewer_not_found', 'reviewer_is_author', 'reviewer_not_in_workspace'].includes(error.hint ?? '')) {
+    return error.message;
+  }
+  if (error.message?.startsWith('Illegal post status transition')) return 'This post is no longer in that stage of review';
+  return fallback;
+}
+
+/**
+ * Review workflow (draft → in_review → approved → pending). Lists the posts
+ * waiting for the current user's review and the user's own posts in review.
+ */
+export function usePostReviews() {
+  const [reviewQueue, setReviewQueue] = useState<ReviewPost[]>([]);
+  const [submissions, setSubmissions] = useState<ReviewPost[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [queueResult, ownResult] = await Promise.all([
+        supabase
+          .from('posts')
+          .select(REVIEW_POST_COLUMNS)
+          .eq('reviewer_id', user.id)
+          .eq('status', 'in_review')
+          .order('review_requested_at', { ascending: true }),
+        supabase
+          .from('posts')
+          .select(REVIEW_POST_COLUMNS)
+          .eq('user_id', user.id)
+          .in('status', REVIEW_STATUSES)
+          .order('updated_at', { ascending: false }),
+      ]);
+
+      if (queueResult.error) throw queueResult.error;
+      if (ownResult.error) throw ownResult.error;
+
+      setReviewQueue((queueResult.data || []) as unknown as ReviewPost[]);
+      setSubmissions((ownResult.data || []) as unknown as ReviewPost[]);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast.error('Failed to load reviews');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  /** Send a draft to a reviewer, found by the email of their account */
+  const submitForReview = useCallback(async (postId: string, reviewerEmail: string) => {
+    const { error } = await supabase.rpc('submit_post_for_review', {
+      p_post_id: postId,
+      p_reviewer_email: reviewerEmail,
+    });
+
+    if (error) {
+      console.error('Error submitting for review:', error);
+      toast.error(reviewErrorMessage(error, 'Failed to send for review'));
+      return false;
+    }
+
+    toast.success('Sent for review');
+    await fetchReviews();
+    return true;
+  }, [fetchReviews]);
+
+  /** Reviewer's decision; a note is added to the post's comments */
+  const decide = useCallback(async (postId: string, decision: ReviewDecision, comment?: string) => {
+    const { error } = await supabase.rpc('review_post', {
+      p_post_id: postId,
+      p_decision: decision,
+      p_comment: comment || null,
+    });
+
+    if (error) {
+      console.error('Error reviewing post:', error);
+      toast.error(reviewErrorMessage(error, 'Failed to save your review'));
+      return false;
+    }
+
+    toast.success(decision === 'approve' ? 'Post approved' : 'Changes requested');
+    await fetchReviews();
+    return true;
+  }, [fetchReviews]);
+
+  /** Author edits a draft (e.g. after changes were requested) */
+  const updateDraft = useCallback(async (postId: string, content: string) => {
+    const { error } = await supabase
+      .from('posts')
+      .update({ content })
+      .eq('id', postId)
+      .eq('status', 'draft');
+
+    if (error) {
+      console.error('Error updating draft:', error);
+      toast.error('Failed to save draft');
+      return false;
+    }
+
+    setSubmissions(prev => prev.map(p => (p.id === postId ? { ...p, content } : p)));
+    return true;
+  }, []);
+
+  /** Pull an approved post back to draft for more edits; it needs review again */
+  const reopenPost = useCallback(async (postId: string) => {
+    try {
+      await transitionPostStatus(supabase, {
+        postId,
+        to: 'draft',
+        source: 'user',
+        reason: 'Reopened for edits',
+      });
+      await fetchReviews();
+      return true;
+    } catch (error) {
+      console.error('Error reopening post:', error);
+      toast.error('Failed to reopen post');
+      return false;
+    }
+  }, [fetchReviews]);
+
+  /** Queue an approved post (approved → pending) and hand it to the extension */
+  const queueApprovedPost = useCallback(async (post: ReviewPost, scheduledTime: Date) => {
+    if (post.status !== 'approved') {
+      toast.error('Only approved posts can be queued');
+      return false;
+    }
+
+    const validation = validateScheduleTime(scheduledTime);
+    if (!validation.valid) {
+      toast.error(validation.error);
+      return false;
+    }
+
+    try {
+      const queued = await transitionPostStatus<ReviewPost>(supabase, {
+        postId: post.id,
+        to: 'pending',
+        source: 'user',
+        reason: 'Queued after approval',
+        updates: { scheduled_time: scheduledTime.toISOString() },
+      });
+      if (!queued) throw new Error('Post not found');
+
+      const result = await sendToExtension([
+        createExtensionPayload(queued.id, queued.content, scheduledTime, {
+          imageUrl: queued.photo_url,
+          trackingId: queued.tracking_id || undefined,
+          status: queued.status,
+        }),
+      ]);
+
+      if (!result.success) {
+        toast.warning('Post queued, but the extension has not confirmed it yet', {
+          description: result.error,
+        });
+      } else {
+        toast.success('Post queued');
+      }
+
+      await fetchReviews();
+      return true;
+    } catch (error) {
+      console.error('Error queueing approved post:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to queue post');
+      return false;
+    }
+  }, [fetchReviews]);
+
+  return {
+    reviewQueue,
+    submissions,
+    userId,
+    isLoading,
+    submitForReview,
+    decide,
+    updateDraft,
+    reopenPost,
+    queueApprovedPost,
+    refetch: fetchReviews,
+  };
+}
+
+/**
+ * Comments on one post, shared by its author and reviewer. Inline comments
+ * carry the span of content they refer to.
+ */
+export function usePostReviewComments(postId: string | null) {
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchComments = useCallback(async () => {
+    if (!postId) {
+      setComments([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('post_review_comments')
+        .select('id, post_id, author_id, body, quoted_text, anchor_start, anchor_end, resolved, created_at')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments((data || []) as ReviewComment[]);
+    } catch (error) {
+      console.error('Error fetching review comments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const addComment = useCallback(async (body: string, anchor?: CommentAnchor) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !postId || !body.trim()) return false;
+
+    const { data, error } = await supabase
+      .from('post_review_comments')
+      .insert({
+        post_id: postId,
+        author_id: user.id,
+        body: body.trim(),
+        quoted_text: anchor?.quotedText ?? null,
+        anchor_start: anchor?.start ?? null,
+        anchor_end: anchor?.end ?? null,
+      })
+      .select('id, post_id, author_id, body, quoted_text, anchor_start, anchor_end, resolved, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error adding review comment:', error);
+      toast.error('Failed to add comment');
+      return false;
+    }
+
+    setComments(prev => [...prev, data as ReviewComment]);
+    return true;
+  }, [postId]);
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    const { error } = await supabase
+      .from('post_review_comments')
+      .update({ resolved })
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('Error updating review comment:', error);
+      toast.error('Failed to update comment');
+      return;
+    }
+    setComments(prev => prev.map(c => (c.id === commentId ? { ...c, resolved } : c)));
+  }, []);
+
+  return { comments, isLoading, addComment, setResolved, refetch: fetchComments };
+}
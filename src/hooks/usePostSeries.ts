@@ -0,0 +1,281 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { createExtensionPayload, sendToExtension, type RecurrenceRule } from '@/lib/scheduling';
+import { transitionPostStatus } from '@/lib/postLifecycle';
+import { getExtensionClient } from '@/lib/extensionProtocol';
+
+export type PostSeriesKind = 'recurring' | 'evergreen';
+
+export interface PostSeriesRunSummary {
+  created: number;
+  skipped: { time: string; reason: string }[];
+  failed: { time: string; error: string }[];
+}
+
+export interface PostSeries {
+  id: string;
+  agent_id: string;
+  name: string;
+  kind: PostSeriesKind;
+  recurrence_text: string;
+  recurrence_rule: RecurrenceRule;
+  timezone: string;
+  topics: string[];
+  content_template: string | null;
+  reword_with_ai: boolean;
+  cooldown_days: number;
+  lookahead_days: number;
+  is_active: boolean;
+  generated_until: string | null;
+  last_run_at: string | null;
+  last_run_summary: PostSeriesRunSummary | null;
+  created_at: string;
+}
+
+export interface CreatePostSeriesData {
+  name: string;
+  kind: PostSeriesKind;
+  recurrenceText: string;
+  recurrenceRule: RecurrenceRule;
+  timeZone: string;
+  topics?: string[];
+  contentTemplate?: string;
+  rewordWithAI?: boolean;
+  cooldownDays?: number;
+  lookaheadDays?: number;
+}
+
+export function usePostSeries(agentId: string | null) {
+  const [series, setSeries] = useState<PostSeries[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const fetchSeries = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !agentId) return;
+
+      const { data, error } = await supabase
+        .from('post_series')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('agent_id', agentId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setSeries((data || []) as unknown as PostSeries[]);
+    } catch (error) {
+      console.error('Error fetching post series:', error);
+      toast.error('Failed to load recurring series');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [agentId]);
+
+  // Push generated posts the extension hasn't seen yet
+  const sendQueuedSeriesPosts = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !agentId) return { success: false, sent: 0 };
+
+      const { data: posts, error } = await supabase
+        .from('posts')
+        .select('id, content, photo_url, scheduled_time, tracking_id')
+        .eq('user_id', user.id)
+        .eq('agent_id', agentId)
+        .eq('status', 'pending')
+        .not('series_id', 'is', null)
+        .is('sent_to_extension_at', null)
+        .order('scheduled_time', { ascending: true });
+
+      if (error) throw error;
+      if (!posts || posts.length === 0) return { success: true, sent: 0 };
+
+      const result = await sendToExtension(
+        posts.map(post => createExtensionPayload(
+          post.id,
+          post.content,
+          post.scheduled_time,
+          { imageUrl: post.photo_url, trackingId: post.tracking_id || undefined, status: 'pending' }
+        ))
+      );
+
+      if (!result.success) {
+        console.warn('⚠️ Series posts saved, extension did not confirm:', result.error);
+        return { success: false, sent: 0, error: result.error };
+      }
+
+      await supabase
+        .from('posts')
+        .update({ sent_to_extension_at: new Date().toISOString() })
+        .in('id', posts.map(post => post.id));
+
+      return { success: true, sent: posts.length };
+    } catch (error) {
+      console.error('Error sending series posts to extension:', error);
+      return { success: false, sent: 0 };
+    }
+  }, [agentId]);
+
+  // Expand series into pending posts now instead of waiting for the scheduled run
+  const generateNow = useCallback(async (seriesId?: string) => {
+    setIsGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-series-posts', {
+        body: { seriesId },
+      });
+
+      if (error) throw error;
+
+      const results = Object.values((data?.series || {}) as Record<string, PostSeriesRunSummary>);
+      const created = results.reduce((sum, r) => sum + r.created, 0);
+      const skipped = results.flatMap(r => r.skipped);
+      const failed = results.flatMap(r => r.failed);
+
+      if (created > 0) {
+        const sendResult = await sendQueuedSeriesPosts();
+        toast.success(`Queued ${created} post${created === 1 ? '' : 's'}`, {
+          description: sendResult.success ? undefined : 'Saved - they will reach the extension once it is connected.',
+        });
+      } else if (failed.length === 0 && skipped.length === 0) {
+        toast.info('Queue is already filled for the lookahead window');
+      }
+
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} occurrence${skipped.length === 1 ? '' : 's'}`, {
+          description: skipped[0].reason,
+        });
+      }
+      if (failed.length > 0) {
+        toast.error('Some posts could not be generated', { description: failed[0].error });
+      }
+
+      await fetchSeries();
+      return { success: true, created };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to generate posts';
+      toast.error(message);
+      return { success: false, created: 0, error: message };
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [fetchSeries, sendQueuedSeriesPosts]);
+
+  const createSeries = useCallback(async (input: CreatePostSeriesData) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || !agentId) {
+        toast.error('Please log in to create a series');
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('post_series')
+        .insert({
+          user_id: user.id,
+          agent_id: agentId,
+          name: input.name,
+          kind: input.kind,
+          recurrence_text: input.recurrenceText,
+          recurrence_rule: input.recurrenceRule as unknown as Json,
+          timezone: input.timeZone,
+          topics: input.topics || [],
+          content_template: input.contentTemplate || null,
+          reword_with_ai: input.rewordWithAI ?? true,
+          cooldown_days: input.cooldownDays ?? 90,
+          lookahead_days: input.lookaheadDays ?? 7,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const created = data as unknown as PostSeries;
+      setSeries(prev => [created, ...prev]);
+      toast.success(`"${created.name}" created`);
+
+      await generateNow(created.id);
+      return created;
+    } catch (error) {
+      console.error('Error creating post series:', error);
+      toast.error('Failed to create series');
+      return null;
+    }
+  }, [agentId, generateNow]);
+
+  const toggleSeries = useCallback(async (seriesId: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('post_series')
+        .update({ is_active: isActive })
+        .eq('id', seriesId);
+
+      if (error) throw error;
+      setSeries(prev => prev.map(s => s.id === seriesId ? { ...s, is_active: isActive } : s));
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating post series:', error);
+      toast.error('Failed to update series');
+      return { success: false };
+    }
+  }, []);
+
+  // Deleting a series also cancels its posts that haven't gone out yet
+  const deleteSeries = useCallback(async (seriesId: string) => {
+    try {
+      const { data: pending, error: pendingError } = await supabase
+        .from('posts')
+        .select('id')
+        .eq('series_id', seriesId)
+        .eq('status', 'pending');
+
+      if (pendingError) throw pendingError;
+
+      for (const post of pending || []) {
+        await transitionPostStatus(supabase, {
+          postId: post.id,
+          to: 'cancelled',
+          source: 'user',
+          reason: 'Series deleted',
+        });
+        getExtensionClient().send({ type: 'CANCEL_POST', postId: post.id });
+      }
+
+      const { error } = await supabase
+        .from('post_series')
+        .delete()
+        .eq('id', seriesId);
+
+      if (error) throw error;
+
+      setSeries(prev => prev.filter(s => s.id !== seriesId));
+      toast.success('Series deleted', {
+        description: pending?.length ? `${pending.length} queued post${pending.length === 1 ? '' : 's'} cancelled` : undefined,
+      });
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting post series:', error);
+      toast.error('Failed to delete series');
+      return { success: false };
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchSeries();
+  }, [fetchSeries]);
+
+  return {
+    series,
+    isLoading,
+    isGenerating,
+    fetchSeries,
+    createSeries,
+    toggleSeries,
+    deleteSeries,
+    generateNow,
+    sendQueuedSeriesPosts,
+  };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { PostStatus, PostStatusSource } from '@/lib/postLifecycle';
+
+export interface PostStatusEvent {
+  id: string;
+  post_id: string;
+  from_status: PostStatus | null;
+  to_status: PostStatus;
+  source: PostStatusSource;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Audit trail of status changes for a single post, oldest first
+ */
+export function usePostStatusEvents(postId: string | null) {
+  const [events, setEvents] = useState<PostStatusEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    if (!postId) {
+      setEvents([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('post_status_events')
+        .select('id, post_id, from_status, to_status, source, reason, created_at')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents((data || []) as PostStatusEvent[]);
+    } catch (error) {
+      console.error('Error fetching post status events:', error);
+      setEvents([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  return { events, isLoading, refetch: fetchEvents };
+}
@@ -1,19 +1,15 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { getActiveWorkspaceId, WORKSPACE_CHANGED_EVENT } from "@/lib/workspaces";
+import {
+  DAILY_LIMITS,
+  MONTHLY_LIMITS,
+  getPlanLimits,
+  type PlanType,
+} from "../../supabase/functions/_shared/postingLimits";
 
-export const DAILY_LIMITS = {
-  free: 1,
-  pro: 2,
-  business: 3,
-} as const;
-
-export const MONTHLY_LIMITS = {
-  free: 5,
-  pro: 30,
-  business: 60,
-} as const;
-
-export type PlanType = keyof typeof DAILY_LIMITS;
+export { DAILY_LIMITS, MONTHLY_LIMITS };
+export type { PlanType };
 
 interface PostingLimitsStatus {
   plan: PlanType;
@@ -40,16 +36,24 @@ export const usePostingLimits = () => {
         return;
       }
 
-      // Get user profile for plan
-      const { data: profile } = await supabase
-        .from('user_profiles')
-        .select('subscription_plan')
-        .eq('user_id', user.id)
+      // The plan, and the posts counted against it, are the active workspace's
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) {
+        setStatus(null);
+        setIsLoading(false);
+        return;
+      }
+
+      const { data: workspace } = await supabase
+        .from('workspaces')
+        .select('subscription_plan, subscription_expires_at')
+        .eq('id', workspaceId)
         .maybeSingle();
 
-      const plan = (profile?.subscription_plan as PlanType) || 'free';
-      const dailyLimit = DAILY_LIMITS[plan] || DAILY_LIMITS.free;
-      const monthlyLimit = MONTHLY_LIMITS[plan] || MONTHLY_LIMITS.free;
+      const { plan, daily: dailyLimit, monthly: monthlyLimit } = getPlanLimits(
+        workspace?.subscription_plan,
+        workspace?.subscription_expires_at
+      );
 
       // Get today's date range (start and end of day in UTC)
       const todayStart = new Date();
@@ -66,7 +70,7 @@ export const usePostingLimits = () => {
       const { count: postsToday } = await supabase
         .from('posts')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .eq('status', 'posted') // Only count successfully posted!
         .gte('created_at', todayStart.toISOString())
         .lte('created_at', todayEnd.toISOString());
@@ -75,7 +79,7 @@ export const usePostingLimits = () => {
       const { count: postsThisMonth } = await supabase
         .from('posts')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .eq('status', 'posted') // Only count successfully posted!
         .gte('created_at', monthStart.toISOString());
 
@@ -113,6 +117,8 @@ export const usePostingLimits = () => {
 
   useEffect(() => {
     checkLimits();
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, checkLimits);
+    return () => window.removeEventListener(WORKSPACE_CHANGED_EVENT, checkLimits);
   }, [checkLimits]);
 
   const incrementPostCount = useCallback(async () => {
@@ -1,10 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getActiveWorkspaceId, WORKSPACE_CHANGED_EVENT } from "@/lib/workspaces";
+import { createExtensionPayload, sendToExtension } from "@/lib/scheduling";
 
 export interface Post {
   id: string;
   user_id: string;
+  workspace_id: string;
   agent_id: string | null;
   agent_name: string | null;
   content: string;
@@ -14,6 +17,7 @@ export interface Post {
   posted_at: string | null;
   linkedin_post_url: string | null;
   linkedin_post_id: string | null;
+  tracking_id: string | null;
   retry_count: number;
   last_error: string | null;
   next_retry_at: string | null;
@@ -51,10 +55,17 @@ export const usePosts = () => {
         return;
       }
 
+      // The calendar shows the whole workspace, not just the user's own posts
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) {
+        setPosts([]);
+        return;
+      }
+
       let query = supabase
         .from("posts")
         .select("*")
-        .eq("user_id", user.id)
+        .eq("workspace_id", workspaceId)
         .order("scheduled_time", { ascending: true, nullsFirst: false });
 
       if (filters?.status) {
@@ -175,13 +186,19 @@ export const usePosts = () => {
       fetchPosts();
     };
 
+    const handleWorkspaceChanged = () => {
+      fetchPosts();
+    };
+
     // Listen for both bridge events and direct extension messages
     window.addEventListener('linkedbot:post-published', handlePostPublished as EventListener);
     window.addEventListener('linkedbot:post-failed', handlePostFailed as EventListener);
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, handleWorkspaceChanged);
     
     return () => {
       window.removeEventListener('linkedbot:post-published', handlePostPublished as EventListener);
       window.removeEventListener('linkedbot:post-failed', handlePostFailed as EventListener);
+      window.removeEventListener(WORKSPACE_CHANGED_EVENT, handleWorkspaceChanged);
     };
   }, [fetchPosts]);
 
@@ -301,6 +318,52 @@ export const usePosts = () => {
     }
   }, [toast]);
 
+  // Move a queued post to a new time and hand the new time to the extension.
+  // Only pending posts move; one the extension has started on keeps its slot.
+  const reschedulePost = useCallback(async (
+    postId: string,
+    scheduledTime: string
+  ): Promise<{ success: boolean; extensionSynced?: boolean; error?: string }> => {
+    try {
+      const updatedAt = new Date().toISOString();
+      const { data, error: updateError } = await supabase
+        .from("posts")
+        .update({ scheduled_time: scheduledTime, updated_at: updatedAt })
+        .eq("id", postId)
+        .eq("status", "pending")
+        .select()
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!data) throw new Error("Only pending posts can be moved");
+
+      const updated = data as Post;
+      setPosts(prev => prev.map(post => post.id === postId ? updated : post));
+
+      const result = await sendToExtension([
+        createExtensionPayload(updated.id, updated.content, scheduledTime, {
+          imageUrl: updated.photo_url,
+          trackingId: updated.tracking_id || undefined,
+          status: "pending",
+        }),
+      ]);
+      if (!result.success) {
+        console.warn("Extension did not confirm the new time:", result.error);
+      }
+
+      return { success: true, extensionSynced: result.success };
+    } catch (err) {
+      console.error("Error rescheduling post:", err);
+      const message = err instanceof Error ? err.message : "An error occurred";
+      toast({
+        title: "Failed to move post",
+        description: message,
+        variant: "destructive",
+      });
+      return { success: false, error: message };
+    }
+  }, [toast]);
+
   const deletePost = useCallback(async (postId: string): Promise<boolean> => {
     try {
       const { error: deleteError } = await supabase
@@ -353,6 +416,7 @@ export const usePosts = () => {
     fetchScheduledPosts,
     createPost,
     updatePost,
+    reschedulePost,
     deletePost,
     getPostsForDate,
     markAsPosting, // New: for optimistic UI
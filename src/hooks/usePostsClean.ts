@@ -1,13 +1,14 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import type { PostStatus } from "@/lib/postLifecycle";
 
 /**
  * Post status types - matching database constraint
  * CRITICAL: Website can ONLY insert 'pending'
  * Extension updates to: posting, posted, failed
  */
-export type PostStatus = 'pending' | 'posting' | 'posted' | 'failed';
+export type { PostStatus };
 
 export interface Post {
   id: string;
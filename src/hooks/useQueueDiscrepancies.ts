@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { createExtensionPayload, sendToExtension } from "@/lib/scheduling";
+import { transitionPostStatus } from "@/lib/postLifecycle";
+import type { QueueDiscrepancyKind } from "../../supabase/functions/_shared/queueReconciliation";
+
+export interface QueueDiscrepancy {
+  id: string;
+  kind: QueueDiscrepancyKind;
+  itemId: string;
+  postId: string | null;
+  message: string;
+  detectedAt: string;
+  lastSeenAt: string;
+  post: { content: string; scheduledTime: string | null } | null;
+}
+
+type Resolution = "dismissed" | "resent" | "cancelled";
+
+/**
+ * Differences between the extension's queue and the posts table that the
+ * reconcile-queue function couldn't fix on its own.
+ */
+export const useQueueDiscrepancies = () => {
+  const [discrepancies, setDiscrepancies] = useState<QueueDiscrepancy[]>([]);
+  const [lastReportedAt, setLastReportedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDiscrepancies = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setDiscrepancies([]);
+        return;
+      }
+
+      const [discrepancyResult, profileResult] = await Promise.all([
+        supabase
+          .from("queue_discrepancies")
+          .select("id, kind, item_id, post_id, message, detected_at, last_seen_at, posts(content, scheduled_time)")
+          .eq("user_id", user.id)
+          .is("resolved_at", null)
+          .order("detected_at", { ascending: false }),
+        supabase
+          .from("user_profiles")
+          .select("extension_queue_reported_at")
+          .eq("user_id", user.id)
+          .maybeSingle(),
+      ]);
+      if (discrepancyResult.error) throw discrepancyResult.error;
+
+      setDiscrepancies((discrepancyResult.data || []).map(row => ({
+        id: row.id,
+        kind: row.kind as QueueDiscrepancyKind,
+        itemId: row.item_id,
+        postId: row.post_id,
+        message: row.message,
+        detectedAt: row.detected_at,
+        lastSeenAt: row.last_seen_at,
+        post: row.posts ? { content: row.posts.content, scheduledTime: row.posts.scheduled_time } : null,
+      })));
+      setLastReportedAt(profileResult.data?.extension_queue_reported_at || null);
+    } catch (error) {
+      console.error("Error fetching queue discrepancies:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDiscrepancies();
+  }, [fetchDiscrepancies]);
+
+  const resolve = useCallback(async (id: string, resolution: Resolution) => {
+    const { error } = await supabase
+      .from("queue_discrepancies")
+      .update({ resolved_at: new Date().toISOString(), resolution })
+      .eq("id", id);
+    if (error) throw error;
+    setDiscrepancies(prev => prev.filter(d => d.id !== id));
+  }, []);
+
+  const dismiss = useCallback(async (discrepancy: QueueDiscrepancy) => {
+    try {
+      await resolve(discrepancy.id, "dismissed");
+    } catch (error) {
+      console.error("Error dismissing discrepancy:", error);
+      toast.error("Failed to dismiss");
+    }
+  }, [resolve]);
+
+  // A post the extension lost after its time: queue it again to go out now
+  const sendNow = useCallback(async (discrepancy: QueueDiscrepancy) => {
+    if (!discrepancy.postId) return;
+    try {
+      const scheduledTime = new Date(Date.now() + 2 * 60 * 1000).toISOString();
+      const { data: post, error } = await supabase
+        .from("posts")
+        .update({ scheduled_time: scheduledTime })
+        .eq("id", discrepancy.postId)
+        .eq("status", "pending")
+        .select("id, content, photo_url, tracking_id")
+        .maybeSingle();
+      if (error) throw error;
+      if (!post) throw new Error("This post is no longer pending");
+
+      const result = await sendToExtension([
+        createExtensionPayload(post.id, post.content, scheduledTime, {
+          imageUrl: post.photo_url,
+          trackingId: post.tracking_id || undefined,
+          status: "pending",
+        }),
+      ]);
+      if (!result.success) {
+        toast.error("The extension didn't take the post", { description: result.error });
+        return;
+      }
+
+      await resolve(discrepancy.id, "resent");
+      toast.success("Post queued to go out in a couple of minutes");
+    } catch (error) {
+      console.error("Error resending post:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resend post");
+    }
+  }, [resolve]);
+
+  const cancelPost = useCallback(async (discrepancy: QueueDiscrepancy) => {
+    if (!discrepancy.postId) return;
+    try {
+      await transitionPostStatus(supabase, {
+        postId: discrepancy.postId,
+        to: "cancelled",
+        source: "user",
+        reason: "Cancelled after the extension lost it",
+      });
+      await resolve(discrepancy.id, "cancelled");
+      toast.success("Post cancelled");
+    } catch (error) {
+      console.error("Error cancelling post:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel post");
+    }
+  }, [resolve]);
+
+  return {
+    discrepancies,
+    lastReportedAt,
+    isLoading,
+    dismiss,
+    sendNow,
+    cancelPost,
+    refetch: fetchDiscrepancies,
+  };
+};
@@ -10,10 +10,10 @@ import {
   SCHEDULE_ERRORS 
 } from '@/lib/scheduling';
 import { generatePostTrackingId, embedTrackingId } from '@/lib/postHelpers';
-import { formatScheduledTimeIST, isPostDue } from '@/lib/timezoneUtils';
-
-// v4.0 - Clean status lifecycle: pending, posting, posted, failed
-type PostStatus = 'pending' | 'posting' | 'posted' | 'failed';
+import { DEFAULT_TIMEZONE, formatScheduledTimeInZone, isPostDue } from '@/lib/timezoneUtils';
+import { transitionPostStatus, type PostStatus } from '@/lib/postLifecycle';
+import { getExtensionClient } from '@/lib/extensionProtocol';
+import { getActiveWorkspaceId, WORKSPACE_CHANGED_EVENT } from '@/lib/workspaces';
 
 interface ScheduledPost {
   id: string;
@@ -29,20 +29,23 @@ interface ScheduledPost {
   updated_at: string;
 }
 
-export function useScheduledPosts() {
+export function useScheduledPosts(timeZone: string = DEFAULT_TIMEZONE) {
   const [posts, setPosts] = useState<ScheduledPost[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
-  // Fetch all user's posts
+  // Fetch all posts in the active workspace
   const fetchPosts = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) return;
+
       const { data, error } = await supabase
         .from('posts')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('workspace_id', workspaceId)
         .in('status', ['pending', 'posting', 'posted', 'failed']) // v4.0 lifecycle
         .order('scheduled_time', { ascending: true });
 
@@ -72,7 +75,7 @@ export function useScheduledPosts() {
       // Step 1: Parse time if it's a natural language string
       let parsedDate: Date;
       if (typeof scheduledTime === 'string' && !scheduledTime.includes('T')) {
-        const parsed = parseScheduleTime(scheduledTime);
+        const parsed = parseScheduleTime(scheduledTime, new Date(), timeZone);
         if (!parsed) {
           return { success: false, error: SCHEDULE_ERRORS.INVALID_FORMAT };
         }
@@ -120,7 +123,7 @@ export function useScheduledPosts() {
         data.id,
         content,
         isoTime,
-        { imageUrl: photoUrl, trackingId }
+        { imageUrl: photoUrl, trackingId, status: 'pending' }
       );
 
       console.log('📤 Sending to extension immediately:', extensionPayload);
@@ -138,7 +141,7 @@ export function useScheduledPosts() {
       // Update local state
       await fetchPosts();
 
-      const displayTime = formatRelativeScheduledTime(isoTime);
+      const displayTime = formatRelativeScheduledTime(isoTime, timeZone);
       toast.success(`Post scheduled for ${displayTime}`);
       return { success: true, postId: data.id };
     } catch (error) {
@@ -146,9 +149,9 @@ export function useScheduledPosts() {
       toast.error(message);
       return { success: false, error: message };
     }
-  }, [fetchPosts]);
+  }, [fetchPosts, timeZone]);
 
-  // Update post status - v4.0 simplified lifecycle
+  // Update post status - goes through the database state machine
   const updatePostStatus = useCallback(async (
     postId: string,
     status: PostStatus,
@@ -159,29 +162,20 @@ export function useScheduledPosts() {
     }
   ) => {
     try {
-      const updateData: Record<string, unknown> = {
-        status,
-        updated_at: new Date().toISOString(),
-        ...additionalData,
-      };
-
-      if (status === 'posted') {
-        updateData.posted_at = new Date().toISOString();
-      }
-
-      const { error } = await supabase
-        .from('posts')
-        .update(updateData)
-        .eq('id', postId);
+      const updated = await transitionPostStatus<ScheduledPost>(supabase, {
+        postId,
+        to: status,
+        source: 'user',
+        updates: {
+          ...additionalData,
+          ...(status === 'posted' ? { posted_at: new Date().toISOString() } : {}),
+        },
+      });
 
-      if (error) throw error;
+      if (!updated) throw new Error('Post not found');
 
       // Update local state
-      setPosts(prev => prev.map(p => 
-        p.id === postId 
-          ? { ...p, ...updateData } as ScheduledPost
-          : p
-      ));
+      setPosts(prev => prev.map(p => p.id === postId ? updated : p));
 
       return { success: true };
     } catch (error) {
@@ -203,27 +197,26 @@ export function useScheduledPosts() {
       retryTime.setMinutes(retryTime.getMinutes() + 1);
       const isoTime = retryTime.toISOString();
 
-      // Reset retry count and reschedule
-      const { error } = await supabase
-        .from('posts')
-        .update({
-          status: 'pending', // v4.0 - Always 'pending'
+      // Reset retry count and reschedule (failed → pending)
+      await transitionPostStatus(supabase, {
+        postId,
+        to: 'pending',
+        source: 'user',
+        reason: 'Retried by user',
+        updates: {
           retry_count: 0,
           last_error: null,
           next_retry_at: null,
           scheduled_time: isoTime,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', postId);
-
-      if (error) throw error;
+        },
+      });
 
       // Send to extension immediately
       const extensionPayload = createExtensionPayload(
         post.id,
         post.content,
         isoTime,
-        { imageUrl: post.photo_url, trackingId: post.tracking_id || undefined }
+        { imageUrl: post.photo_url, trackingId: post.tracking_id || undefined, status: 'pending' }
       );
       
       await sendToExtension([extensionPayload]);
@@ -258,23 +251,18 @@ export function useScheduledPosts() {
     }
   }, []);
 
-  // Cancel a scheduled post - just delete it (v4.0 - no draft status)
+  // Cancel a scheduled post (pending → cancelled, kept for the audit trail)
   const cancelScheduledPost = useCallback(async (postId: string) => {
     try {
-      // In v4.0, we delete cancelled posts since there's no 'draft' status
-      const { error } = await supabase
-        .from('posts')
-        .delete()
-        .eq('id', postId)
-        .eq('status', 'pending'); // Only cancel pending posts
-
-      if (error) throw error;
+      await transitionPostStatus(supabase, {
+        postId,
+        to: 'cancelled',
+        source: 'user',
+        reason: 'Cancelled by user',
+      });
 
       // Notify extension to remove from queue
-      window.postMessage({
-        type: 'CANCEL_POST',
-        postId: postId,
-      }, '*');
+      getExtensionClient().send({ type: 'CANCEL_POST', postId });
 
       await fetchPosts();
       toast.success('Post cancelled');
@@ -300,9 +288,11 @@ export function useScheduledPosts() {
     );
   }, [posts]);
 
-  // Initial fetch
+  // Initial fetch, and again when the user switches workspace
   useEffect(() => {
     fetchPosts();
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, fetchPosts);
+    return () => window.removeEventListener(WORKSPACE_CHANGED_EVENT, fetchPosts);
   }, [fetchPosts]);
 
   // Subscribe to realtime updates
@@ -339,6 +329,6 @@ export function useScheduledPosts() {
     getDuePosts,
     fetchPosts,
     // Helpers
-    formatScheduledTime: formatScheduledTimeIST,
+    formatScheduledTime: (isoString: string) => formatScheduledTimeInZone(isoString, timeZone),
   };
 }
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  isCurrentStyleProfile,
+  type StyleProfile,
+} from "../../supabase/functions/_shared/styleFingerprint";
+
+export type { StyleMatch, StyleProfile } from "../../supabase/functions/_shared/styleFingerprint";
+
+/**
+ * The user's writing-style fingerprint, computed server-side from their post
+ * history. Null until there is a profile from the current analyzer version.
+ */
+export const useStyleProfile = () => {
+  const [profile, setProfile] = useState<StyleProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("user_writing_style")
+        .select("style_profile")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setProfile(isCurrentStyleProfile(data?.style_profile) ? data.style_profile : null);
+    } catch (error) {
+      console.error("Error loading style profile:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  return { profile, isLoading, refetch: fetchProfile };
+};
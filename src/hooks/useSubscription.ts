@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getActiveWorkspaceId, WORKSPACE_CHANGED_EVENT } from "@/lib/workspaces";
 
 // Plan limits configuration
 export const PLAN_LIMITS = {
@@ -27,13 +28,10 @@ export const PLAN_LIMITS = {
   },
 };
 
-// Active coupons
-const ACTIVE_COUPONS: Record<string, { plan: string; duration: number; description: string }> = {
-  "FREE2026": { plan: "pro", duration: 30, description: "Free Pro Plan for 30 days" },
-  "BUSS2026": { plan: "business", duration: 30, description: "Free Business Plan for 30 days" },
-};
-
+// Plans and limits belong to the active workspace, shared by its members
 export interface SubscriptionStatus {
+  workspaceId: string;
+  workspaceName: string;
   plan: "free" | "pro" | "business";
   isActive: boolean;
   expiresAt: string | null;
@@ -62,11 +60,17 @@ export const useSubscription = () => {
         return;
       }
 
-      // Get user profile with subscription info
-      const { data: profile } = await supabase
-        .from("user_profiles")
-        .select("subscription_plan, subscription_expires_at, posts_created_count, posts_scheduled_count, posts_published_count")
-        .eq("user_id", user.id)
+      const workspaceId = await getActiveWorkspaceId(user.id);
+      if (!workspaceId) {
+        setStatus(null);
+        return;
+      }
+
+      // Get the workspace with its subscription info
+      const { data: workspace } = await supabase
+        .from("workspaces")
+        .select("name, subscription_plan, subscription_expires_at")
+        .eq("id", workspaceId)
         .maybeSingle();
 
       // Get posts created today
@@ -76,7 +80,7 @@ export const useSubscription = () => {
       const { count: postsToday } = await supabase
         .from("posts")
         .select("*", { count: "exact", head: true })
-        .eq("user_id", user.id)
+        .eq("workspace_id", workspaceId)
         .gte("created_at", today.toISOString());
 
       // Get posts created this month
@@ -85,19 +89,21 @@ export const useSubscription = () => {
       const { count: postsThisMonth } = await supabase
         .from("posts")
         .select("*", { count: "exact", head: true })
-        .eq("user_id", user.id)
+        .eq("workspace_id", workspaceId)
         .gte("created_at", monthStart.toISOString());
 
-      // Count agents (mock - you'd have an agents table)
-      const agentsCount = 2; // Placeholder
+      const { count: agentsCount } = await supabase
+        .from("agents")
+        .select("*", { count: "exact", head: true })
+        .eq("workspace_id", workspaceId);
 
       // Determine plan
       let plan: "free" | "pro" | "business" = "free";
-      const subscriptionPlan = profile?.subscription_plan?.toLowerCase();
+      const subscriptionPlan = workspace?.subscription_plan?.toLowerCase();
       
       if (subscriptionPlan === "pro" || subscriptionPlan === "business") {
         // Check if subscription is still active
-        const expiresAt = profile?.subscription_expires_at;
+        const expiresAt = workspace?.subscription_expires_at;
         if (expiresAt) {
           const expiryDate = new Date(expiresAt);
           if (expiryDate > new Date()) {
@@ -113,15 +119,17 @@ export const useSubscription = () => {
       const monthlyPostsUsed = postsThisMonth || 0;
 
       const subscriptionStatus: SubscriptionStatus = {
+        workspaceId,
+        workspaceName: workspace?.name || "Personal",
         plan,
         isActive: plan !== "free" || true,
-        expiresAt: profile?.subscription_expires_at || null,
+        expiresAt: workspace?.subscription_expires_at || null,
         postsThisMonth: monthlyPostsUsed,
         postsToday: dailyPostsUsed,
-        agentsCount,
+        agentsCount: agentsCount || 0,
         limits,
         canCreatePost: dailyPostsUsed < limits.postsPerDay && monthlyPostsUsed < limits.postsPerMonth,
-        canCreateAgent: limits.agents === -1 || agentsCount < limits.agents,
+        canCreateAgent: limits.agents === -1 || (agentsCount || 0) < limits.agents,
         remainingPostsToday: Math.max(0, limits.postsPerDay - dailyPostsUsed),
         remainingPostsThisMonth: Math.max(0, limits.postsPerMonth - monthlyPostsUsed),
       };
@@ -134,19 +142,9 @@ export const useSubscription = () => {
     }
   }, []);
 
+  // razorpay-payment checks the code and grants the plan; the workspace's
+  // plan columns can't be written from here
   const applyCoupon = useCallback(async (couponCode: string): Promise<boolean> => {
-    const normalizedCode = couponCode.trim().toUpperCase();
-    const coupon = ACTIVE_COUPONS[normalizedCode];
-
-    if (!coupon) {
-      toast({
-        title: "Invalid coupon",
-        description: "This coupon code is not valid or has expired.",
-        variant: "destructive",
-      });
-      return false;
-    }
-
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
@@ -158,32 +156,25 @@ export const useSubscription = () => {
         return false;
       }
 
-      // Check if coupon was already used
-      const { data: profile } = await supabase
-        .from("user_profiles")
-        .select("subscription_plan")
-        .eq("user_id", user.id)
-        .maybeSingle();
-
-      // Calculate expiry date
-      const expiryDate = new Date();
-      expiryDate.setDate(expiryDate.getDate() + coupon.duration);
+      const workspaceId = await getActiveWorkspaceId(user.id);
 
-      // Update subscription
-      const { error } = await supabase
-        .from("user_profiles")
-        .update({
-          subscription_plan: coupon.plan,
-          subscription_expires_at: expiryDate.toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq("user_id", user.id);
+      const { data, error } = await supabase.functions.invoke("razorpay-payment", {
+        body: { action: "redeem_coupon", couponCode: couponCode.trim(), workspaceId },
+      });
 
       if (error) throw error;
+      if (!data.success) {
+        toast({
+          title: "Invalid coupon",
+          description: data.error || "This coupon code is not valid or has expired.",
+          variant: "destructive",
+        });
+        return false;
+      }
 
       toast({
         title: "Coupon applied!",
-        description: coupon.description,
+        description: data.message,
       });
 
       await fetchSubscriptionStatus();
@@ -234,6 +225,8 @@ export const useSubscription = () => {
 
   useEffect(() => {
     fetchSubscriptionStatus();
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, fetchSubscriptionStatus);
+    return () => window.removeEventListener(WORKSPACE_CHANGED_EVENT, fetchSubscriptionStatus);
   }, [fetchSubscriptionStatus]);
 
   return {
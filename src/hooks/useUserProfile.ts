@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { resolveTimeZone } from "@/lib/timezoneUtils";
 
 export interface LinkedInProfileData {
   username?: string;
@@ -44,6 +45,7 @@ export interface UserProfile {
   phone_number: string | null;
   city: string | null;
   country: string | null;
+  timezone: string;
   subscription_plan: string | null;
   subscription_expires_at: string | null;
   posts_created_count: number;
@@ -79,6 +81,7 @@ export interface ProfileData {
   phone_number?: string;
   city?: string;
   country?: string;
+  timezone?: string;
 }
 
 export const useUserProfile = () => {
@@ -240,6 +243,8 @@ export const useUserProfile = () => {
     profile,
     isLoading,
     error,
+    // User's IANA timezone for scheduling/display, falls back to IST
+    timeZone: resolveTimeZone(profile?.timezone),
     fetchProfile,
     saveProfile,
     completeOnboarding,
@@ -0,0 +1,273 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  getActiveWorkspaceId,
+  setActiveWorkspaceId,
+  WORKSPACE_CHANGED_EVENT,
+  type WorkspaceRole,
+} from '@/lib/workspaces';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  is_personal: boolean;
+  subscription_plan: string;
+  subscription_expires_at: string | null;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  name: string | null;
+  email: string | null;
+  created_at: string;
+}
+
+// Messages raised by the workspace functions/triggers are meant for users
+function workspaceErrorMessage(error: { message: string; hint?: string }, fallback: string): string {
+  if (['member_not_found', 'already_member', 'last_owner', 'name_required'].includes(error.hint ?? '')) {
+    return error.message;
+  }
+  return fallback;
+}
+
+/**
+ * Workspaces the current user belongs to, and the active one. Switching
+ * notifies every hook that reads workspace data.
+ */
+export function useWorkspaces() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      // Resolving first also creates the personal workspace for new users
+      const activeId = await getActiveWorkspaceId(user.id);
+
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, workspace:workspaces(id, name, owner_id, is_personal, subscription_plan, subscription_expires_at)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const list = (data || [])
+        .filter(row => row.workspace)
+        .map(row => ({ ...row.workspace, role: row.role as WorkspaceRole }))
+        .sort((a, b) => Number(b.is_personal) - Number(a.is_personal) || a.name.localeCompare(b.name));
+
+      setWorkspaces(list);
+      setActiveId(activeId);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      toast.error('Failed to load workspaces');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  // Keep every instance (sidebar switcher, Team page) on the same workspace
+  useEffect(() => {
+    const handleChanged = (event: CustomEvent<{ workspaceId: string }>) => {
+      setActiveId(event.detail.workspaceId);
+    };
+    window.addEventListener(WORKSPACE_CHANGED_EVENT, handleChanged as EventListener);
+    return () => window.removeEventListener(WORKSPACE_CHANGED_EVENT, handleChanged as EventListener);
+  }, []);
+
+  const switchWorkspace = useCallback(async (workspaceId: string) => {
+    if (!userId || workspaceId === activeWorkspaceId) return;
+    try {
+      await setActiveWorkspaceId(userId, workspaceId);
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+      toast.error('Failed to switch workspace');
+    }
+  }, [userId, activeWorkspaceId]);
+
+  /** New team workspace; the caller owns it and it becomes active */
+  const createWorkspace = useCallback(async (name: string) => {
+    const { data, error } = await supabase.rpc('create_workspace', { p_name: name });
+
+    if (error || !data?.[0]) {
+      console.error('Error creating workspace:', error);
+      toast.error(workspaceErrorMessage(error ?? { message: '' }, 'Failed to create workspace'));
+      return null;
+    }
+
+    const created = data[0];
+    toast.success(`Workspace "${created.name}" created`);
+    await fetchWorkspaces();
+    if (userId) await setActiveWorkspaceId(userId, created.id);
+    return created;
+  }, [fetchWorkspaces, userId]);
+
+  const renameWorkspace = useCallback(async (workspaceId: string, name: string) => {
+    if (!name.trim()) return false;
+    const { error } = await supabase
+      .from('workspaces')
+      .update({ name: name.trim() })
+      .eq('id', workspaceId);
+
+    if (error) {
+      console.error('Error renaming workspace:', error);
+      toast.error('Failed to rename workspace');
+      return false;
+    }
+
+    setWorkspaces(prev => prev.map(w => (w.id === workspaceId ? { ...w, name: name.trim() } : w)));
+    return true;
+  }, []);
+
+  /** Delete a team workspace with its agents and posts; personal ones stay */
+  const deleteWorkspace = useCallback(async (workspaceId: string) => {
+    const { error } = await supabase.from('workspaces').delete().eq('id', workspaceId);
+
+    if (error) {
+      console.error('Error deleting workspace:', error);
+      toast.error('Failed to delete workspace');
+      return false;
+    }
+
+    const personal = workspaces.find(w => w.is_personal);
+    if (userId && personal && workspaceId === activeWorkspaceId) {
+      await setActiveWorkspaceId(userId, personal.id);
+    }
+    await fetchWorkspaces();
+    toast.success('Workspace deleted');
+    return true;
+  }, [workspaces, userId, activeWorkspaceId, fetchWorkspaces]);
+
+  /** Leave a workspace someone else owns */
+  const leaveWorkspace = useCallback(async (workspaceId: string) => {
+    if (!userId) return false;
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error leaving workspace:', error);
+      toast.error(workspaceErrorMessage(error, 'Failed to leave workspace'));
+      return false;
+    }
+
+    const personal = workspaces.find(w => w.is_personal);
+    if (personal && workspaceId === activeWorkspaceId) {
+      await setActiveWorkspaceId(userId, personal.id);
+    }
+    await fetchWorkspaces();
+    return true;
+  }, [workspaces, userId, activeWorkspaceId, fetchWorkspaces]);
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) ?? null;
+
+  return {
+    workspaces,
+    activeWorkspace,
+    activeWorkspaceId,
+    role: activeWorkspace?.role ?? null,
+    userId,
+    isLoading,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    leaveWorkspace,
+    refetch: fetchWorkspaces,
+  };
+}
+
+/** Members of one workspace; only owners can change them (enforced by RLS) */
+export function useWorkspaceMembers(workspaceId: string | null) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchMembers = useCallback(async () => {
+    if (!workspaceId) {
+      setMembers([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_workspace_members', { p_workspace_id: workspaceId });
+      if (error) throw error;
+      setMembers((data || []) as WorkspaceMember[]);
+    } catch (error) {
+      console.error('Error fetching workspace members:', error);
+      toast.error('Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  /** Add someone by the email of their LinkedBot account */
+  const addMember = useCallback(async (email: string, role: WorkspaceRole) => {
+    if (!workspaceId || !email.trim()) return false;
+    const { error } = await supabase.rpc('add_workspace_member', {
+      p_workspace_id: workspaceId,
+      p_email: email.trim(),
+      p_role: role,
+    });
+
+    if (error) {
+      console.error('Error adding workspace member:', error);
+      toast.error(workspaceErrorMessage(error, 'Failed to add member'));
+      return false;
+    }
+
+    toast.success('Member added');
+    await fetchMembers();
+    return true;
+  }, [workspaceId, fetchMembers]);
+
+  const updateRole = useCallback(async (memberId: string, role: WorkspaceRole) => {
+    const { error } = await supabase
+      .from('workspace_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      toast.error(workspaceErrorMessage(error, 'Failed to change role'));
+      return false;
+    }
+
+    setMembers(prev => prev.map(m => (m.id === memberId ? { ...m, role } : m)));
+    return true;
+  }, []);
+
+  const removeMember = useCallback(async (memberId: string) => {
+    const { error } = await supabase.from('workspace_members').delete().eq('id', memberId);
+
+    if (error) {
+      console.error('Error removing member:', error);
+      toast.error(workspaceErrorMessage(error, 'Failed to remove member'));
+      return false;
+    }
+
+    setMembers(prev => prev.filter(m => m.id !== memberId));
+    return true;
+  }, []);
+
+  return { members, isLoading, addMember, updateRole, removeMember, refetch: fetchMembers };
+}
@@ -47,36 +47,120 @@ export type Database = {
         }
         Relationships: []
       }
+      agent_reference_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          id: string
+          location: string | null
+          material_id: string
+          search_vector: unknown
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          location?: string | null
+          material_id: string
+          search_vector?: unknown
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          id?: string
+          location?: string | null
+          material_id?: string
+          search_vector?: unknown
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_reference_chunks_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "agent_reference_materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_reference_chunks_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_reference_materials: {
         Row: {
           agent_id: string | null
+          chunk_count: number
           content: string
           created_at: string
+          embedding_model: string | null
+          error: string | null
+          file_path: string | null
           id: string
+          indexed_at: string | null
+          source: string
+          source_url: string | null
+          status: string
           title: string
           type: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           agent_id?: string | null
+          chunk_count?: number
           content: string
           created_at?: string
+          embedding_model?: string | null
+          error?: string | null
+          file_path?: string | null
           id?: string
+          indexed_at?: string | null
+          source?: string
+          source_url?: string | null
+          status?: string
           title: string
           type?: string
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
           agent_id?: string | null
+          chunk_count?: number
           content?: string
           created_at?: string
+          embedding_model?: string | null
+          error?: string | null
+          file_path?: string | null
           id?: string
+          indexed_at?: string | null
+          source?: string
+          source_url?: string | null
+          status?: string
           title?: string
           type?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
         }
         Relationships: [
           {
@@ -86,6 +170,13 @@ export type Database = {
             referencedRelation: "agents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "agent_reference_materials_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       agents: {
@@ -102,6 +193,7 @@ export type Database = {
           type: string
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           created_at?: string
@@ -116,6 +208,7 @@ export type Database = {
           type: string
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
           created_at?: string
@@ -130,6 +223,66 @@ export type Database = {
           type?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agents_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_providers: {
+        Row: {
+          api_key_env: string | null
+          base_url: string
+          chat_model: string | null
+          created_at: string
+          embedding_model: string | null
+          id: string
+          image_api: string | null
+          image_model: string | null
+          is_enabled: boolean
+          kind: string
+          models: string[]
+          name: string
+          priority: number
+          updated_at: string
+        }
+        Insert: {
+          api_key_env?: string | null
+          base_url: string
+          chat_model?: string | null
+          created_at?: string
+          embedding_model?: string | null
+          id: string
+          image_api?: string | null
+          image_model?: string | null
+          is_enabled?: boolean
+          kind: string
+          models?: string[]
+          name: string
+          priority?: number
+          updated_at?: string
+        }
+        Update: {
+          api_key_env?: string | null
+          base_url?: string
+          chat_model?: string | null
+          created_at?: string
+          embedding_model?: string | null
+          id?: string
+          image_api?: string | null
+          image_model?: string | null
+          is_enabled?: boolean
+          kind?: string
+          models?: string[]
+          name?: string
+          priority?: number
+          updated_at?: string
         }
         Relationships: []
       }
@@ -187,6 +340,8 @@ export type Database = {
           created_at: string
           id: string
           role: string
+          search_vector: unknown | null
+          thread_id: string | null
           uploaded_images: string[] | null
           user_id: string
         }
@@ -196,6 +351,8 @@ export type Database = {
           created_at?: string
           id?: string
           role: string
+          search_vector?: unknown | null
+          thread_id?: string | null
           uploaded_images?: string[] | null
           user_id: string
         }
@@ -205,6 +362,8 @@ export type Database = {
           created_at?: string
           id?: string
           role?: string
+          search_vector?: unknown | null
+          thread_id?: string | null
           uploaded_images?: string[] | null
           user_id?: string
         }
@@ -216,6 +375,51 @@ export type Database = {
             referencedRelation: "agents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          agent_id: string
+          created_at: string
+          id: string
+          last_message_at: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
         ]
       }
       coupons: {
@@ -432,6 +636,27 @@ export type Database = {
         }
         Relationships: []
       }
+      linkedin_follower_history: {
+        Row: {
+          followers_count: number
+          id: string
+          recorded_at: string
+          user_id: string
+        }
+        Insert: {
+          followers_count: number
+          id?: string
+          recorded_at?: string
+          user_id: string
+        }
+        Update: {
+          followers_count?: number
+          id?: string
+          recorded_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       linkedin_post_history: {
         Row: {
           comments: number | null
@@ -523,6 +748,7 @@ export type Database = {
           status: string
           updated_at: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
           amount: number
@@ -542,6 +768,7 @@ export type Database = {
           status?: string
           updated_at?: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
           amount?: number
@@ -561,6 +788,7 @@ export type Database = {
           status?: string
           updated_at?: string
           user_id?: string
+          workspace_id?: string | null
         }
         Relationships: [
           {
@@ -570,6 +798,13 @@ export type Database = {
             referencedRelation: "coupons"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       post_analytics: {
@@ -664,170 +899,670 @@ export type Database = {
           },
         ]
       }
-      posts: {
+      post_drafts: {
         Row: {
           agent_id: string | null
-          agent_name: string | null
-          approved: boolean | null
-          comments_count: number | null
           content: string
-          content_with_tracking: string | null
           created_at: string
-          extension_ack_at: string | null
+          generate_image: boolean
           id: string
-          image_skipped: boolean | null
-          last_error: string | null
-          last_synced_at: string | null
-          likes_count: number | null
-          linkedin_post_id: string | null
-          linkedin_post_url: string | null
-          next_retry_at: string | null
-          photo_url: string | null
-          posted_at: string | null
-          queued_at: string | null
-          retry_count: number | null
-          scheduled_time: string | null
-          sent_to_extension_at: string | null
-          shares_count: number | null
-          status: string | null
-          tracking_id: string | null
+          image_prompt: string | null
+          image_url: string | null
+          post_id: string | null
+          sources: Json
+          thread_id: string | null
+          topic: string | null
           updated_at: string
           user_id: string
-          verified: boolean | null
-          views_count: number | null
+          variant_dimension: string | null
+          variant_group_id: string | null
+          variant_style: string | null
         }
         Insert: {
           agent_id?: string | null
-          agent_name?: string | null
-          approved?: boolean | null
-          comments_count?: number | null
           content: string
-          content_with_tracking?: string | null
           created_at?: string
-          extension_ack_at?: string | null
+          generate_image?: boolean
           id?: string
-          image_skipped?: boolean | null
-          last_error?: string | null
-          last_synced_at?: string | null
-          likes_count?: number | null
-          linkedin_post_id?: string | null
-          linkedin_post_url?: string | null
-          next_retry_at?: string | null
-          photo_url?: string | null
-          posted_at?: string | null
-          queued_at?: string | null
-          retry_count?: number | null
-          scheduled_time?: string | null
-          sent_to_extension_at?: string | null
-          shares_count?: number | null
-          status?: string | null
-          tracking_id?: string | null
+          image_prompt?: string | null
+          image_url?: string | null
+          post_id?: string | null
+          sources?: Json
+          thread_id?: string | null
+          topic?: string | null
           updated_at?: string
           user_id: string
-          verified?: boolean | null
-          views_count?: number | null
+          variant_dimension?: string | null
+          variant_group_id?: string | null
+          variant_style?: string | null
         }
         Update: {
           agent_id?: string | null
-          agent_name?: string | null
-          approved?: boolean | null
-          comments_count?: number | null
           content?: string
-          content_with_tracking?: string | null
           created_at?: string
-          extension_ack_at?: string | null
+          generate_image?: boolean
           id?: string
-          image_skipped?: boolean | null
-          last_error?: string | null
-          last_synced_at?: string | null
-          likes_count?: number | null
-          linkedin_post_id?: string | null
-          linkedin_post_url?: string | null
-          next_retry_at?: string | null
-          photo_url?: string | null
-          posted_at?: string | null
-          queued_at?: string | null
-          retry_count?: number | null
-          scheduled_time?: string | null
-          sent_to_extension_at?: string | null
-          shares_count?: number | null
-          status?: string | null
-          tracking_id?: string | null
+          image_prompt?: string | null
+          image_url?: string | null
+          post_id?: string | null
+          sources?: Json
+          thread_id?: string | null
+          topic?: string | null
           updated_at?: string
           user_id?: string
-          verified?: boolean | null
-          views_count?: number | null
+          variant_dimension?: string | null
+          variant_group_id?: string | null
+          variant_style?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "posts_agent_id_fkey"
+            foreignKeyName: "post_drafts_agent_id_fkey"
             columns: ["agent_id"]
             isOneToOne: false
             referencedRelation: "agents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "post_drafts_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_drafts_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      user_profiles: {
+      post_publish_outcomes: {
         Row: {
-          background: string | null
-          city: string | null
-          company_description: string | null
-          company_name: string | null
-          country: string | null
-          created_at: string
-          daily_post_count: number | null
-          default_topics: string[] | null
-          email: string | null
+          delivery_count: number
+          first_delivered_at: string
           id: string
-          industry: string | null
-          last_active_at: string | null
-          last_post_date: string | null
-          linkedin_profile_confirmed: boolean | null
-          linkedin_profile_data: Json | null
-          linkedin_profile_edit_count: number | null
-          linkedin_profile_url: string | null
-          linkedin_profile_url_locked: boolean | null
-          linkedin_public_id: string | null
-          linkedin_username: string | null
-          linkedin_verified: boolean | null
-          linkedin_verified_at: string | null
-          location: string | null
-          name: string | null
-          onboarding_completed: boolean | null
-          phone_number: string | null
-          post_frequency: string | null
-          posting_goals: string[] | null
-          posts_created_count: number | null
-          posts_published_count: number | null
-          posts_scheduled_count: number | null
-          preferred_tone: string | null
-          profile_last_scraped: string | null
-          role: string | null
-          subscription_expires_at: string | null
-          subscription_plan: string | null
-          target_audience: string | null
-          updated_at: string
+          last_delivered_at: string
+          linkedin_activity_id: string | null
+          linkedin_post_url: string | null
+          post_id: string
+          source: string
+          tracking_id: string | null
           user_id: string
-          user_type: string | null
         }
         Insert: {
-          background?: string | null
-          city?: string | null
-          company_description?: string | null
-          company_name?: string | null
-          country?: string | null
-          created_at?: string
-          daily_post_count?: number | null
-          default_topics?: string[] | null
-          email?: string | null
+          delivery_count?: number
+          first_delivered_at?: string
           id?: string
-          industry?: string | null
-          last_active_at?: string | null
-          last_post_date?: string | null
-          linkedin_profile_confirmed?: boolean | null
-          linkedin_profile_data?: Json | null
-          linkedin_profile_edit_count?: number | null
+          last_delivered_at?: string
+          linkedin_activity_id?: string | null
+          linkedin_post_url?: string | null
+          post_id: string
+          source: string
+          tracking_id?: string | null
+          user_id: string
+        }
+        Update: {
+          delivery_count?: number
+          first_delivered_at?: string
+          id?: string
+          last_delivered_at?: string
+          linkedin_activity_id?: string | null
+          linkedin_post_url?: string | null
+          post_id?: string
+          source?: string
+          tracking_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_publish_outcomes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: true
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_review_comments: {
+        Row: {
+          anchor_end: number | null
+          anchor_start: number | null
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          post_id: string
+          quoted_text: string | null
+          resolved: boolean
+          updated_at: string
+        }
+        Insert: {
+          anchor_end?: number | null
+          anchor_start?: number | null
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          post_id: string
+          quoted_text?: string | null
+          resolved?: boolean
+          updated_at?: string
+        }
+        Update: {
+          anchor_end?: number | null
+          anchor_start?: number | null
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          post_id?: string
+          quoted_text?: string | null
+          resolved?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_review_comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_series: {
+        Row: {
+          agent_id: string
+          content_template: string | null
+          cooldown_days: number
+          created_at: string
+          generated_until: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          last_run_at: string | null
+          last_run_summary: Json | null
+          lookahead_days: number
+          name: string
+          next_topic_index: number
+          recurrence_rule: Json
+          recurrence_text: string
+          reword_with_ai: boolean
+          timezone: string
+          topics: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          agent_id: string
+          content_template?: string | null
+          cooldown_days?: number
+          created_at?: string
+          generated_until?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          last_run_at?: string | null
+          last_run_summary?: Json | null
+          lookahead_days?: number
+          name: string
+          next_topic_index?: number
+          recurrence_rule: Json
+          recurrence_text: string
+          reword_with_ai?: boolean
+          timezone?: string
+          topics?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          agent_id?: string
+          content_template?: string | null
+          cooldown_days?: number
+          created_at?: string
+          generated_until?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          last_run_at?: string | null
+          last_run_summary?: Json | null
+          lookahead_days?: number
+          name?: string
+          next_topic_index?: number
+          recurrence_rule?: Json
+          recurrence_text?: string
+          reword_with_ai?: boolean
+          timezone?: string
+          topics?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_series_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_status_events: {
+        Row: {
+          created_at: string
+          from_status: string | null
+          id: string
+          post_id: string
+          reason: string | null
+          source: string
+          to_status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          post_id: string
+          reason?: string | null
+          source: string
+          to_status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          post_id?: string
+          reason?: string | null
+          source?: string
+          to_status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_status_events_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_variant_choices: {
+        Row: {
+          agent_id: string | null
+          chosen_style: string
+          created_at: string
+          dimension: string
+          draft_id: string | null
+          group_id: string
+          id: string
+          offered_styles: string[]
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          chosen_style: string
+          created_at?: string
+          dimension: string
+          draft_id?: string | null
+          group_id: string
+          id?: string
+          offered_styles: string[]
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          agent_id?: string | null
+          chosen_style?: string
+          created_at?: string
+          dimension?: string
+          draft_id?: string | null
+          group_id?: string
+          id?: string
+          offered_styles?: string[]
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_variant_choices_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_variant_choices_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "post_drafts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_variant_choices_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      posts: {
+        Row: {
+          agent_id: string | null
+          agent_name: string | null
+          approved: boolean | null
+          comments_count: number | null
+          content: string
+          content_with_tracking: string | null
+          created_at: string
+          extension_ack_at: string | null
+          id: string
+          image_skipped: boolean | null
+          last_error: string | null
+          last_synced_at: string | null
+          likes_count: number | null
+          linkedin_post_id: string | null
+          linkedin_post_url: string | null
+          next_retry_at: string | null
+          photo_url: string | null
+          recycled_from_post_id: string | null
+          posted_at: string | null
+          queued_at: string | null
+          retry_count: number | null
+          review_requested_at: string | null
+          reviewed_at: string | null
+          reviewer_id: string | null
+          scheduled_time: string | null
+          series_id: string | null
+          sources: Json
+          sent_to_extension_at: string | null
+          shares_count: number | null
+          status: string | null
+          tracking_id: string | null
+          updated_at: string
+          user_id: string
+          verified: boolean | null
+          views_count: number | null
+          workspace_id: string
+        }
+        Insert: {
+          agent_id?: string | null
+          agent_name?: string | null
+          approved?: boolean | null
+          comments_count?: number | null
+          content: string
+          content_with_tracking?: string | null
+          created_at?: string
+          extension_ack_at?: string | null
+          id?: string
+          image_skipped?: boolean | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          likes_count?: number | null
+          linkedin_post_id?: string | null
+          linkedin_post_url?: string | null
+          next_retry_at?: string | null
+          photo_url?: string | null
+          recycled_from_post_id?: string | null
+          posted_at?: string | null
+          queued_at?: string | null
+          retry_count?: number | null
+          review_requested_at?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          scheduled_time?: string | null
+          series_id?: string | null
+          sources?: Json
+          sent_to_extension_at?: string | null
+          shares_count?: number | null
+          status?: string | null
+          tracking_id?: string | null
+          updated_at?: string
+          user_id: string
+          verified?: boolean | null
+          views_count?: number | null
+          workspace_id?: string
+        }
+        Update: {
+          agent_id?: string | null
+          agent_name?: string | null
+          approved?: boolean | null
+          comments_count?: number | null
+          content?: string
+          content_with_tracking?: string | null
+          created_at?: string
+          extension_ack_at?: string | null
+          id?: string
+          image_skipped?: boolean | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          likes_count?: number | null
+          linkedin_post_id?: string | null
+          linkedin_post_url?: string | null
+          next_retry_at?: string | null
+          photo_url?: string | null
+          recycled_from_post_id?: string | null
+          posted_at?: string | null
+          queued_at?: string | null
+          retry_count?: number | null
+          review_requested_at?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          scheduled_time?: string | null
+          series_id?: string | null
+          sources?: Json
+          sent_to_extension_at?: string | null
+          shares_count?: number | null
+          status?: string | null
+          tracking_id?: string | null
+          updated_at?: string
+          user_id?: string
+          verified?: boolean | null
+          views_count?: number | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "posts_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_recycled_from_post_id_fkey"
+            columns: ["recycled_from_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "post_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "posts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      queue_discrepancies: {
+        Row: {
+          detected_at: string
+          id: string
+          item_id: string
+          kind: string
+          last_seen_at: string
+          message: string
+          post_id: string | null
+          resolution: string | null
+          resolved_at: string | null
+          user_id: string
+        }
+        Insert: {
+          detected_at?: string
+          id?: string
+          item_id: string
+          kind: string
+          last_seen_at?: string
+          message: string
+          post_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          user_id: string
+        }
+        Update: {
+          detected_at?: string
+          id?: string
+          item_id?: string
+          kind?: string
+          last_seen_at?: string
+          message?: string
+          post_id?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "queue_discrepancies_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      research_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          expires_at: string
+          id: string
+          result: Json
+          user_id: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          result: Json
+          user_id: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          result?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      research_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          is_enabled: boolean
+          title: string | null
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          title?: string | null
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_enabled?: boolean
+          title?: string | null
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          active_workspace_id: string | null
+          background: string | null
+          city: string | null
+          company_description: string | null
+          company_name: string | null
+          country: string | null
+          created_at: string
+          daily_post_count: number | null
+          default_topics: string[] | null
+          email: string | null
+          extension_queue_reported_at: string | null
+          id: string
+          industry: string | null
+          last_active_at: string | null
+          last_post_date: string | null
+          linkedin_profile_confirmed: boolean | null
+          linkedin_profile_data: Json | null
+          linkedin_profile_edit_count: number | null
+          linkedin_profile_url: string | null
+          linkedin_profile_url_locked: boolean | null
+          linkedin_public_id: string | null
+          linkedin_username: string | null
+          linkedin_verified: boolean | null
+          linkedin_verified_at: string | null
+          location: string | null
+          name: string | null
+          onboarding_completed: boolean | null
+          phone_number: string | null
+          post_frequency: string | null
+          posting_goals: string[] | null
+          posts_created_count: number | null
+          posts_published_count: number | null
+          posts_scheduled_count: number | null
+          preferred_tone: string | null
+          profile_last_scraped: string | null
+          role: string | null
+          subscription_expires_at: string | null
+          subscription_plan: string | null
+          target_audience: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+          user_type: string | null
+        }
+        Insert: {
+          active_workspace_id?: string | null
+          background?: string | null
+          city?: string | null
+          company_description?: string | null
+          company_name?: string | null
+          country?: string | null
+          created_at?: string
+          daily_post_count?: number | null
+          default_topics?: string[] | null
+          email?: string | null
+          extension_queue_reported_at?: string | null
+          id?: string
+          industry?: string | null
+          last_active_at?: string | null
+          last_post_date?: string | null
+          linkedin_profile_confirmed?: boolean | null
+          linkedin_profile_data?: Json | null
+          linkedin_profile_edit_count?: number | null
           linkedin_profile_url?: string | null
           linkedin_profile_url_locked?: boolean | null
           linkedin_public_id?: string | null
@@ -849,11 +1584,13 @@ export type Database = {
           subscription_expires_at?: string | null
           subscription_plan?: string | null
           target_audience?: string | null
+          timezone?: string
           updated_at?: string
           user_id: string
           user_type?: string | null
         }
         Update: {
+          active_workspace_id?: string | null
           background?: string | null
           city?: string | null
           company_description?: string | null
@@ -863,6 +1600,7 @@ export type Database = {
           daily_post_count?: number | null
           default_topics?: string[] | null
           email?: string | null
+          extension_queue_reported_at?: string | null
           id?: string
           industry?: string | null
           last_active_at?: string | null
@@ -891,11 +1629,20 @@ export type Database = {
           subscription_expires_at?: string | null
           subscription_plan?: string | null
           target_audience?: string | null
+          timezone?: string
           updated_at?: string
           user_id?: string
           user_type?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_profiles_active_workspace_id_fkey"
+            columns: ["active_workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -926,10 +1673,13 @@ export type Database = {
           emoji_usage: boolean | null
           hashtag_style: string | null
           id: string
+          style_profile: Json | null
+          style_version: number | null
           tone_analysis: Json | null
           total_posts_analyzed: number | null
           updated_at: string
           user_id: string
+          workspace_id: string
         }
         Insert: {
           avg_post_length?: number | null
@@ -938,10 +1688,13 @@ export type Database = {
           emoji_usage?: boolean | null
           hashtag_style?: string | null
           id?: string
+          style_profile?: Json | null
+          style_version?: number | null
           tone_analysis?: Json | null
           total_posts_analyzed?: number | null
           updated_at?: string
           user_id: string
+          workspace_id?: string
         }
         Update: {
           avg_post_length?: number | null
@@ -950,10 +1703,89 @@ export type Database = {
           emoji_usage?: boolean | null
           hashtag_style?: string | null
           id?: string
+          style_profile?: Json | null
+          style_version?: number | null
           tone_analysis?: Json | null
           total_posts_analyzed?: number | null
           updated_at?: string
           user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_writing_style_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          id: string
+          role: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: string
+          updated_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          is_personal: boolean
+          name: string
+          owner_id: string
+          subscription_expires_at: string | null
+          subscription_plan: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_personal?: boolean
+          name: string
+          owner_id: string
+          subscription_expires_at?: string | null
+          subscription_plan?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_personal?: boolean
+          name?: string
+          owner_id?: string
+          subscription_expires_at?: string | null
+          subscription_plan?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -962,6 +1794,48 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_workspace_member: {
+        Args: { p_email: string; p_role?: string; p_workspace_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          role: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "workspace_members"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      create_workspace: {
+        Args: { p_name: string }
+        Returns: {
+          created_at: string
+          id: string
+          is_personal: boolean
+          name: string
+          owner_id: string
+          subscription_expires_at: string | null
+          subscription_plan: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "workspaces"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      current_workspace_id: { Args: never; Returns: string }
+      default_workspace_id: { Args: { p_user_id: string }; Returns: string }
+      ensure_personal_workspace: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
       get_admin_scheduled_posts: {
         Args: never
         Returns: {
@@ -1002,6 +1876,40 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_best_time_samples: {
+        Args: { p_user_id: string }
+        Returns: {
+          comments: number
+          followers: number
+          likes: number
+          posted_at: string
+          shares: number
+          views: number
+        }[]
+      }
+      get_variant_choice_samples: {
+        Args: { p_agent_id: string; p_user_id: string }
+        Returns: {
+          chosen_style: string
+          comments: number
+          dimension: string
+          likes: number
+          offered_styles: string[]
+          shares: number
+          views: number
+        }[]
+      }
+      get_workspace_members: {
+        Args: { p_workspace_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          role: string
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1009,12 +1917,215 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_workspace_role: {
+        Args: { p_roles: string[]; p_user_id: string; p_workspace_id: string }
+        Returns: boolean
+      }
       increment_daily_post_count: {
         Args: { p_user_id: string }
         Returns: undefined
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_post_participant: {
+        Args: { p_post_id: string; p_user_id: string }
+        Returns: boolean
+      }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_valid_post_status_transition: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: { p_user_id: string; p_workspace_id: string }
+        Returns: boolean
+      }
+      match_reference_chunks: {
+        Args: {
+          p_embedding_model?: string
+          p_match_count?: number
+          p_query: string
+          p_query_embedding?: string
+          p_user_id?: string
+          p_workspace_id?: string
+        }
+        Returns: {
+          chunk_id: string
+          content: string
+          location: string
+          material_id: string
+          score: number
+          title: string
+          type: string
+        }[]
+      }
+      record_post_published: {
+        Args: {
+          p_linkedin_activity_id?: string
+          p_linkedin_post_url?: string
+          p_notification_message?: string
+          p_notification_title?: string
+          p_post_id: string
+          p_source: string
+        }
+        Returns: {
+          delivery_count: number
+          first_delivered_at: string
+          first_delivery: boolean
+          id: string
+          linkedin_activity_id: string
+          linkedin_post_url: string
+          post_id: string
+        }[]
+      }
+      refresh_agent_publish_stats: {
+        Args: { p_agent_id: string }
+        Returns: undefined
+      }
+      review_post: {
+        Args: { p_comment?: string; p_decision: string; p_post_id: string }
+        Returns: {
+              agent_id: string | null
+              agent_name: string | null
+              approved: boolean | null
+              comments_count: number | null
+              content: string
+              content_with_tracking: string | null
+              created_at: string
+              extension_ack_at: string | null
+              id: string
+              image_skipped: boolean | null
+              last_error: string | null
+              last_synced_at: string | null
+              likes_count: number | null
+              linkedin_post_id: string | null
+              linkedin_post_url: string | null
+              next_retry_at: string | null
+              photo_url: string | null
+              recycled_from_post_id: string | null
+              posted_at: string | null
+              queued_at: string | null
+              retry_count: number | null
+              review_requested_at: string | null
+              reviewed_at: string | null
+              reviewer_id: string | null
+              scheduled_time: string | null
+              series_id: string | null
+              sent_to_extension_at: string | null
+              shares_count: number | null
+              status: string | null
+              tracking_id: string | null
+              updated_at: string
+              user_id: string
+              verified: boolean | null
+              views_count: number | null
+              workspace_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      submit_post_for_review: {
+        Args: { p_post_id: string; p_reviewer_email: string }
+        Returns: {
+              agent_id: string | null
+              agent_name: string | null
+              approved: boolean | null
+              comments_count: number | null
+              content: string
+              content_with_tracking: string | null
+              created_at: string
+              extension_ack_at: string | null
+              id: string
+              image_skipped: boolean | null
+              last_error: string | null
+              last_synced_at: string | null
+              likes_count: number | null
+              linkedin_post_id: string | null
+              linkedin_post_url: string | null
+              next_retry_at: string | null
+              photo_url: string | null
+              recycled_from_post_id: string | null
+              posted_at: string | null
+              queued_at: string | null
+              retry_count: number | null
+              review_requested_at: string | null
+              reviewed_at: string | null
+              reviewer_id: string | null
+              scheduled_time: string | null
+              series_id: string | null
+              sent_to_extension_at: string | null
+              shares_count: number | null
+              status: string | null
+              tracking_id: string | null
+              updated_at: string
+              user_id: string
+              verified: boolean | null
+              views_count: number | null
+              workspace_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      transition_post_status: {
+        Args: {
+          p_post_id: string
+          p_reason?: string
+          p_source: string
+          p_to_status: string
+          p_updates?: Json
+        }
+        Returns: {
+              agent_id: string | null
+              agent_name: string | null
+              approved: boolean | null
+              comments_count: number | null
+              content: string
+              content_with_tracking: string | null
+              created_at: string
+              extension_ack_at: string | null
+              id: string
+              image_skipped: boolean | null
+              last_error: string | null
+              last_synced_at: string | null
+              likes_count: number | null
+              linkedin_post_id: string | null
+              linkedin_post_url: string | null
+              next_retry_at: string | null
+              photo_url: string | null
+              recycled_from_post_id: string | null
+              posted_at: string | null
+              queued_at: string | null
+              retry_count: number | null
+              review_requested_at: string | null
+              reviewed_at: string | null
+              reviewer_id: string | null
+              scheduled_time: string | null
+              series_id: string | null
+              sent_to_extension_at: string | null
+              shares_count: number | null
+              status: string | null
+              tracking_id: string | null
+              updated_at: string
+              user_id: string
+              verified: boolean | null
+              views_count: number | null
+              workspace_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      try_parse_timestamptz: { Args: { p_value: string }; Returns: string }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user" | "super_admin"
@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import type { AnalyticsScrapeResult, BulkAnalyticsResultMessage } from '@/types/extension';
 import { sanitizeAnalytics } from '@/lib/analyticsSanitizer';
+import { getExtensionClient } from '@/lib/extensionProtocol';
 
 // ============================================================================
 // v5.0 - ANALYTICS SCRAPING WITH AUTO-TRIGGER ON EXTENSION READY
@@ -9,6 +10,7 @@ import { sanitizeAnalytics } from '@/lib/analyticsSanitizer';
 let extensionConnected = false;
 let cronInterval: ReturnType<typeof setInterval> | null = null;
 let isScrapingInProgress = false;
+let stopListening: (() => void) | null = null;
 
 // ============================================================================
 // SCRAPE ALL POST ANALYTICS (v5.0 BULK)
@@ -63,11 +65,11 @@ export async function scrapeAllPostAnalytics() {
     
     console.log(`📊 Requesting bulk scrape for ${postUrls.length} posts...`);
     
-    // v5.0 - Send bulk scrape request
-    window.postMessage({
+    // v5.0 - Send bulk scrape request (the result arrives via the listener)
+    getExtensionClient().post({
       type: 'SCRAPE_BULK_ANALYTICS',
       postUrls: postUrls
-    }, '*');
+    });
     
   } catch (error) {
     console.error('❌ Analytics scrape initiation failed:', error);
@@ -161,11 +163,7 @@ async function updatePostAnalytics(postUrl: string, analytics: AnalyticsScrapeRe
 // ============================================================================
 
 function setupMessageListeners() {
-  window.addEventListener('message', (event) => {
-    if (event.source !== window) return;
-    
-    const message = event.data;
-    
+  stopListening = getExtensionClient().onMessage((message) => {
     // v5.0 - Extension signals ready for scraping
     if (message.type === 'EXTENSION_READY_FOR_SCRAPING') {
       console.log('🚀 Extension ready for scraping - triggering auto-scrape...');
@@ -188,7 +186,7 @@ function setupMessageListeners() {
     
     // v5.0 - Handle bulk analytics result
     if (message.type === 'BULK_ANALYTICS_RESULT') {
-      handleAnalyticsResults(message as BulkAnalyticsResultMessage);
+      handleAnalyticsResults(message);
     }
     
     // v5.0 - Handle single analytics result
@@ -235,6 +233,8 @@ export function stopAnalyticsCron() {
   if (cronInterval) {
     clearInterval(cronInterval);
     cronInterval = null;
+    stopListening?.();
+    stopListening = null;
     console.log('⏰ Analytics cron stopped');
   }
 }
@@ -263,10 +263,10 @@ export function scrapeSinglePost(postUrl: string) {
     return false;
   }
   
-  window.postMessage({
+  getExtensionClient().post({
     type: 'SCRAPE_ANALYTICS',
     postUrl: postUrl
-  }, '*');
+  });
   
   return true;
 }
@@ -0,0 +1,368 @@
+// ============================================================================
+// EXTENSION MESSAGING PROTOCOL - v2
+// ============================================================================
+// Typed request/response layer over window.postMessage for the LinkedBot
+// extension (message shapes in src/types/extension.ts).
+//
+// - Every request carries a requestId; the extension echoes it on the result
+//   so concurrent requests can't pick up each other's answers. v1 extensions
+//   don't echo it, so their results go to the oldest waiting request of that
+//   type (the old behaviour).
+// - Requests that time out are re-sent with the same requestId after an
+//   exponential backoff. Only idempotent requests are retried against a v1
+//   extension, which can't dedupe by requestId.
+// - Inbound messages must come from this window and origin and pass a schema
+//   check before anything acts on them.
+// - EXTENSION_CONNECTED carries the extension's protocol range; the web app
+//   answers with PROTOCOL_HELLO and reports when the two can't talk.
+// - The rest of the app talks to the extension only through
+//   getExtensionClient(): no raw postMessage, no unvalidated listeners.
+
+import type {
+  ExtensionCommandMessage,
+  ExtensionConnectedMessage,
+  ExtensionEventType,
+  ExtensionInboundMessage,
+  ExtensionRequestMessage,
+  ExtensionResponseMessage,
+} from '@/types/extension';
+
+export const EXTENSION_PROTOCOL_VERSION = 2;
+
+/** Oldest extension protocol the web app still speaks (v1: no request IDs) */
+export const MIN_EXTENSION_PROTOCOL_VERSION = 1;
+
+const EXTENSION_EVENT_TYPES: ExtensionEventType[] = [
+  'postScheduled',
+  'postStarting',
+  'postFilling',
+  'postPublished',
+  'postSuccess',
+  'postCompleted',
+  'postFailed',
+  'postUrlFailed',
+  'postRetrying',
+  'queueUpdated',
+  'analyticsUpdated',
+  'alarmFired',
+  'extensionConnected',
+  'extensionDisconnected',
+  'extensionReadyForScraping',
+  'linkedinUIChanged',
+  'scrapingProgress',
+  'scrapingComplete',
+];
+
+type ResponseType = ExtensionResponseMessage['type'];
+
+// Which result answers which request
+interface ResponseTypeMap {
+  SCHEDULE_POSTS: 'SCHEDULE_RESULT';
+  POST_NOW: 'POST_RESULT';
+  SCRAPE_ANALYTICS: 'ANALYTICS_RESULT';
+  SCRAPE_BULK_ANALYTICS: 'BULK_ANALYTICS_RESULT';
+  VERIFY_LINKEDIN_ACCOUNT: 'VERIFY_RESULT';
+}
+
+const RESPONSE_TYPES: ResponseTypeMap = {
+  SCHEDULE_POSTS: 'SCHEDULE_RESULT',
+  POST_NOW: 'POST_RESULT',
+  SCRAPE_ANALYTICS: 'ANALYTICS_RESULT',
+  SCRAPE_BULK_ANALYTICS: 'BULK_ANALYTICS_RESULT',
+  VERIFY_LINKEDIN_ACCOUNT: 'VERIFY_RESULT',
+};
+
+type ResponseFor<T extends ExtensionRequestMessage['type']> = Extract<ExtensionResponseMessage, { type: ResponseTypeMap[T] }>;
+
+// ============================================================================
+// SCHEMA VALIDATION
+// ============================================================================
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || typeof value === 'number';
+const isOptionalBoolean = (value: unknown) => value === undefined || value === null || typeof value === 'boolean';
+
+function hasEnvelope(message: Json): boolean {
+  return isOptionalString(message.requestId) && isOptionalNumber(message.protocolVersion);
+}
+
+function isAnalytics(value: unknown): boolean {
+  return value === undefined || (isObject(value) &&
+    ['views', 'likes', 'comments', 'reposts'].every(key => isOptionalNumber(value[key])));
+}
+
+const INBOUND_VALIDATORS: Record<ExtensionInboundMessage['type'], (message: Json) => boolean> = {
+  EXTENSION_CONNECTED: m =>
+    isOptionalString(m.version) && isOptionalString(m.extensionId) &&
+    isOptionalNumber(m.protocolVersion) && isOptionalNumber(m.minProtocolVersion),
+  EXTENSION_DISCONNECTED: () => true,
+  EXTENSION_READY_FOR_SCRAPING: () => true,
+  EXTENSION_STATUS: m =>
+    typeof m.connected === 'boolean' && isOptionalString(m.extensionId) && isOptionalBoolean(m.requiresRefresh),
+  EXTENSION_CONTEXT_INVALIDATED: () => true,
+  EXTENSION_POSTS_RECEIVED: m => typeof m.count === 'number',
+  EXTENSION_EVENT: m =>
+    EXTENSION_EVENT_TYPES.includes(m.event as ExtensionEventType) && (m.data === undefined || isObject(m.data)),
+  SCHEDULE_RESULT: m =>
+    typeof m.success === 'boolean' && hasEnvelope(m) && isOptionalString(m.error) &&
+    isOptionalNumber(m.queueLength) && isOptionalNumber(m.scheduledCount) && isOptionalBoolean(m.requiresRefresh),
+  POST_RESULT: m =>
+    typeof m.success === 'boolean' && hasEnvelope(m) && isOptionalString(m.postId) && isOptionalString(m.trackingId) &&
+    isOptionalString(m.error) && isOptionalString(m.linkedinUrl) && isOptionalString(m.postUrl) &&
+    isOptionalBoolean(m.requiresRefresh),
+  ANALYTICS_RESULT: m =>
+    typeof m.success === 'boolean' && hasEnvelope(m) && typeof m.postUrl === 'string' && isAnalytics(m.analytics),
+  BULK_ANALYTICS_RESULT: m =>
+    typeof m.success === 'boolean' && hasEnvelope(m) && Array.isArray(m.results) &&
+    m.results.every(r => isObject(r) && typeof r.url === 'string' && isAnalytics(r.analytics)),
+  VERIFY_RESULT: m =>
+    typeof m.success === 'boolean' && hasEnvelope(m) &&
+    ['linkedinId', 'message', 'error', 'currentLinkedInId', 'expectedLinkedInId'].every(key => isOptionalString(m[key])),
+};
+
+/**
+ * The message as a typed inbound extension message, or null if it isn't one
+ * (unknown type, the page's own outbound messages, or a malformed payload).
+ */
+export function parseExtensionMessage(data: unknown): ExtensionInboundMessage | null {
+  // Older extensions send events as { action: 'extensionEvent', event, data }
+  if (isObject(data) && data.action === 'extensionEvent' && data.type === undefined) {
+    data = { type: 'EXTENSION_EVENT', event: data.event, data: data.data };
+  }
+  if (!isObject(data) || typeof data.type !== 'string') return null;
+  const validate = INBOUND_VALIDATORS[data.type as ExtensionInboundMessage['type']];
+  if (!validate) return null;
+  if (!validate(data)) {
+    console.warn('⚠️ Ignoring malformed extension message:', data.type);
+    return null;
+  }
+  return data as unknown as ExtensionInboundMessage;
+}
+
+// ============================================================================
+// VERSION HANDSHAKE
+// ============================================================================
+
+export interface ProtocolCompatibility {
+  compatible: boolean;
+  protocolVersion: number;
+  /** Set when the two sides can't talk */
+  problem?: 'extension_outdated' | 'app_outdated';
+  message?: string;
+}
+
+export function checkProtocolCompatibility(connected: Pick<ExtensionConnectedMessage, 'protocolVersion' | 'minProtocolVersion'>): ProtocolCompatibility {
+  const protocolVersion = connected.protocolVersion ?? 1;
+  if (protocolVersion < MIN_EXTENSION_PROTOCOL_VERSION) {
+    return {
+      compatible: false,
+      protocolVersion,
+      problem: 'extension_outdated',
+      message: 'Your LinkedBot extension is out of date. Update it from the Chrome Web Store to keep posting.',
+    };
+  }
+  if ((connected.minProtocolVersion ?? 1) > EXTENSION_PROTOCOL_VERSION) {
+    return {
+      compatible: false,
+      protocolVersion,
+      problem: 'app_outdated',
+      message: 'Your extension is newer than this page. Refresh the page to load the latest version.',
+    };
+  }
+  return { compatible: true, protocolVersion };
+}
+
+// ============================================================================
+// TRANSPORT + CLIENT
+// ============================================================================
+
+export interface ExtensionTransport {
+  send(message: object): void;
+  /** Returns an unsubscribe function */
+  subscribe(handler: (data: unknown) => void): () => void;
+}
+
+/** postMessage to this window; only this window and origin are listened to */
+export const windowTransport: ExtensionTransport = {
+  send: (message) => window.postMessage(message, window.location.origin),
+  subscribe: (handler) => {
+    const listener = (event: MessageEvent) => {
+      if (event.source !== window || event.origin !== window.location.origin) return;
+      handler(event.data);
+    };
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  },
+};
+
+export interface ExtensionRequestOptions<R> {
+  /** Per attempt */
+  timeoutMs?: number;
+  /** Extra attempts after a timeout */
+  retries?: number;
+  backoffMs?: number;
+  /** Safe to send twice even to a v1 extension that can't dedupe */
+  idempotent?: boolean;
+  /** Extra check for results without a requestId (v1 extensions) */
+  matchLegacy?: (response: R) => boolean;
+}
+
+export type ExtensionRequestResult<R> =
+  | { ok: true; response: R; attempts: number }
+  | { ok: false; error: 'timeout'; attempts: number };
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+
+/** Wait before retry number `attempt` (1-based) */
+export function backoffDelay(attempt: number, baseMs: number = DEFAULT_BACKOFF_MS): number {
+  return Math.min(baseMs * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+function newRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `req-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+interface PendingRequest {
+  requestId: string;
+  responseType: ResponseType;
+  sentAt: number;
+  matchLegacy?: (response: ExtensionResponseMessage) => boolean;
+  resolve: (response: ExtensionResponseMessage) => void;
+}
+
+export function createExtensionClient(transport: ExtensionTransport) {
+  const pending = new Map<string, PendingRequest>();
+  const listeners = new Set<(message: ExtensionInboundMessage) => void>();
+  let peer: (ProtocolCompatibility & { version: string | null }) | null = null;
+
+  const settle = (response: ExtensionResponseMessage) => {
+    let request = response.requestId ? pending.get(response.requestId) : undefined;
+    if (!request && !response.requestId) {
+      // v1 result: the oldest request still waiting on this type
+      request = [...pending.values()]
+        .filter(p => p.responseType === response.type && (!p.matchLegacy || p.matchLegacy(response)))
+        .sort((a, b) => a.sentAt - b.sentAt)[0];
+    }
+    if (!request) return;
+    pending.delete(request.requestId);
+    request.resolve(response);
+  };
+
+  const handle = (data: unknown) => {
+    const message = parseExtensionMessage(data);
+    if (!message) return;
+
+    if (message.type === 'EXTENSION_CONNECTED') {
+      peer = { ...checkProtocolCompatibility(message), version: message.version || null };
+      transport.send({
+        type: 'PROTOCOL_HELLO',
+        protocolVersion: EXTENSION_PROTOCOL_VERSION,
+        minProtocolVersion: MIN_EXTENSION_PROTOCOL_VERSION,
+      });
+    } else if ((Object.values(RESPONSE_TYPES) as string[]).includes(message.type)) {
+      settle(message as ExtensionResponseMessage);
+    }
+
+    listeners.forEach(listener => listener(message));
+  };
+
+  // Listen from the start, so the handshake is answered before any request
+  let unsubscribe: (() => void) | null = transport.subscribe(handle);
+
+  /**
+   * Send a request and wait for its result, retrying on timeout. Resolves
+   * (never rejects) with the result or a timeout after the last attempt.
+   */
+  const request = <T extends ExtensionRequestMessage>(
+    message: T,
+    options: ExtensionRequestOptions<ResponseFor<T['type']>> = {}
+  ): Promise<ExtensionRequestResult<ResponseFor<T['type']>>> => {
+    const requestId = newRequestId();
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    // A v1 extension would act on a resent non-idempotent request twice
+    const retries = options.idempotent || (peer?.protocolVersion ?? 1) >= 2 ? options.retries ?? 0 : 0;
+    const envelope = { ...message, requestId, protocolVersion: EXTENSION_PROTOCOL_VERSION };
+
+    return new Promise((resolve) => {
+      let attempts = 0;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      pending.set(requestId, {
+        requestId,
+        responseType: RESPONSE_TYPES[message.type],
+        sentAt: Date.now(),
+        matchLegacy: options.matchLegacy as PendingRequest['matchLegacy'],
+        resolve: (response) => {
+          if (timer) clearTimeout(timer);
+          resolve({ ok: true, response: response as ResponseFor<T['type']>, attempts });
+        },
+      });
+
+      const attempt = () => {
+        attempts++;
+        transport.send(envelope);
+        timer = setTimeout(() => {
+          if (!pending.has(requestId)) return;
+          if (attempts > retries) {
+            pending.delete(requestId);
+            resolve({ ok: false, error: 'timeout', attempts });
+            return;
+          }
+          timer = setTimeout(attempt, backoffDelay(attempts, options.backoffMs));
+        }, timeoutMs);
+      };
+      attempt();
+    });
+  };
+
+  /** Fire-and-forget message with a request ID (results go to listeners) */
+  const post = (message: ExtensionRequestMessage) => {
+    transport.send({ ...message, requestId: newRequestId(), protocolVersion: EXTENSION_PROTOCOL_VERSION });
+  };
+
+  /** A command that has no result, sent as it is */
+  const send = (command: ExtensionCommandMessage) => {
+    transport.send(command);
+  };
+
+  /** Every validated inbound message; returns an unsubscribe function */
+  const onMessage = (listener: (message: ExtensionInboundMessage) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    request,
+    post,
+    send,
+    onMessage,
+    /** What the connected extension announced, once it has */
+    getPeer: () => peer,
+    pendingCount: () => pending.size,
+    dispose: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+      pending.clear();
+      listeners.clear();
+    },
+  };
+}
+
+export type ExtensionClient = ReturnType<typeof createExtensionClient>;
+
+let sharedClient: ExtensionClient | null = null;
+
+/** The page-wide client over window.postMessage */
+export function getExtensionClient(): ExtensionClient {
+  if (!sharedClient) sharedClient = createExtensionClient(windowTransport);
+  return sharedClient;
+}
@@ -2,25 +2,10 @@
 // POST CONTENT UTILITIES
 // ============================================================================
 
-/**
- * Generate unique tracking ID for a post
- */
-export function generatePostTrackingId(): string {
-  return `LPID_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
+import { parseSchedule } from '@/lib/scheduling';
 
-/**
- * Embed tracking ID invisibly in post content using zero-width characters
- */
-export function embedTrackingId(content: string, trackingId: string): string {
-  // Use zero-width space to hide tracking ID at end of post
-  const encoded = trackingId
-    .split('')
-    .map(char => String.fromCharCode(0x200B) + char)
-    .join('');
-  
-  return `${content}\n\n${encoded}`;
-}
+export { generatePostTrackingId, embedTrackingId } from '../../supabase/functions/_shared/postTracking';
+export { humanizePost, humanizeWithChanges } from '../../supabase/functions/_shared/humanizer';
 
 /**
  * Clean post content by removing markdown and fixing spacing
@@ -63,65 +48,6 @@ export function cleanPostContent(content: string): string {
     .trim();
 }
 
-/**
- * Humanize post content by replacing AI phrases with casual human ones
- */
-export function humanizePost(content: string): string {
-  let humanized = content;
-  
-  const replacements: [RegExp, string][] = [
-    // Conclusions
-    [/In conclusion,/gi, 'Bottom line:'],
-    [/To conclude,/gi, 'Look,'],
-    [/To summarize,/gi, "Here's the deal:"],
-    [/In summary,/gi, "Here's what matters:"],
-    
-    // Sharing phrases
-    [/Let me share/gi, "Here's"],
-    [/I'd like to share/gi, "Gonna share"],
-    [/I want to share/gi, "Here's"],
-    
-    // Formal transitions
-    [/Furthermore,/gi, 'Plus,'],
-    [/Moreover,/gi, 'Also,'],
-    [/Additionally,/gi, 'And'],
-    [/However,/gi, 'But'],
-    [/Therefore,/gi, 'So'],
-    
-    // Force contractions
-    [/\bI am\b/g, "I'm"],
-    [/\bYou are\b/g, "You're"],
-    [/\bWe are\b/g, "We're"],
-    [/\bIt is\b/g, "It's"],
-    [/\bdo not\b/gi, "don't"],
-    [/\bcannot\b/gi, "can't"],
-    [/\bwill not\b/gi, "won't"],
-    
-    // Buzzwords
-    [/\bleverage\b/gi, 'use'],
-    [/\butilize\b/gi, 'use'],
-    [/\bsynergy\b/gi, 'teamwork'],
-    [/\boptimize\b/gi, 'improve'],
-    
-    // Formal phrases
-    [/In order to/gi, 'To'],
-    [/I would like to/gi, "I want to"],
-    [/For example,/gi, "Like,"],
-    
-    // AI starters
-    [/^As a .+?, I/gm, 'I'],
-  ];
-  
-  for (const [pattern, replacement] of replacements) {
-    humanized = humanized.replace(pattern, replacement);
-  }
-  
-  // Remove generic engagement endings
-  humanized = humanized.replace(/\n\n(What do you think\?|Thoughts\?|What's your take\?)\s*$/gi, '');
-  
-  return humanized;
-}
-
 /**
  * Generate an image prompt based on actual post content
  */
@@ -178,97 +104,14 @@ Requirements: No text overlay, visually represent the concept, minimalist icons
 
 /**
  * Parse a natural language time string into a Date object
+ * @deprecated Use parseScheduleTime / parseSchedule from '@/lib/scheduling'
  */
 export function parseScheduleTime(
   timeText: string, 
   referenceDate: Date = new Date()
 ): Date | null {
-  const lower = timeText.toLowerCase().trim();
-  const result = new Date(referenceDate);
-  
-  // Reset to start of day for calculations
-  result.setSeconds(0, 0);
-  
-  // Handle relative day references
-  if (lower.includes('tomorrow')) {
-    result.setDate(result.getDate() + 1);
-  } else if (lower.includes('next week')) {
-    result.setDate(result.getDate() + 7);
-  }
-  
-  // Handle day of week
-  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  for (let i = 0; i < days.length; i++) {
-    if (lower.includes(`next ${days[i]}`)) {
-      const currentDay = result.getDay();
-      let daysUntil = i - currentDay;
-      if (daysUntil <= 0) daysUntil += 7;
-      result.setDate(result.getDate() + daysUntil);
-      break;
-    }
-  }
-  
-  // Handle "in X hours/minutes"
-  const inHoursMatch = lower.match(/in\s+(\d+)\s*hours?/i);
-  if (inHoursMatch) {
-    result.setHours(result.getHours() + parseInt(inHoursMatch[1]));
-    return result;
-  }
-  
-  const inMinutesMatch = lower.match(/in\s+(\d+)\s*minutes?/i);
-  if (inMinutesMatch) {
-    result.setMinutes(result.getMinutes() + parseInt(inMinutesMatch[1]));
-    return result;
-  }
-  
-  // Extract time (e.g., "3:42 pm", "15:30", "3pm")
-  let hours = 9; // Default to 9am
-  let minutes = 0;
-  
-  // Match patterns like "3:42 pm", "3:42pm", "15:30"
-  const timeMatch = lower.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-  if (timeMatch) {
-    hours = parseInt(timeMatch[1]);
-    minutes = parseInt(timeMatch[2]);
-    const ampm = timeMatch[3]?.toLowerCase();
-    
-    if (ampm === 'pm' && hours < 12) hours += 12;
-    if (ampm === 'am' && hours === 12) hours = 0;
-  } else {
-    // Match patterns like "3pm", "3 pm"
-    const simpleTimeMatch = lower.match(/(\d{1,2})\s*(am|pm)/i);
-    if (simpleTimeMatch) {
-      hours = parseInt(simpleTimeMatch[1]);
-      const ampm = simpleTimeMatch[2].toLowerCase();
-      
-      if (ampm === 'pm' && hours < 12) hours += 12;
-      if (ampm === 'am' && hours === 12) hours = 0;
-    }
-  }
-  
-  // Handle relative times of day
-  if (lower.includes('morning') && !timeMatch) {
-    hours = 9;
-    minutes = 0;
-  } else if (lower.includes('afternoon') && !timeMatch) {
-    hours = 14;
-    minutes = 0;
-  } else if (lower.includes('evening') && !timeMatch) {
-    hours = 18;
-    minutes = 0;
-  } else if (lower.includes('tonight') && !timeMatch) {
-    hours = 20;
-    minutes = 0;
-  }
-  
-  result.setHours(hours, minutes, 0, 0);
-  
-  // If the time is in the past for today, assume tomorrow
-  if (result <= new Date() && !lower.includes('today')) {
-    result.setDate(result.getDate() + 1);
-  }
-  
-  return result;
+  const parsed = parseSchedule(timeText, { now: referenceDate });
+  return parsed ? new Date(parsed.time) : null;
 }
 
 /**
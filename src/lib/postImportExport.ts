@@ -0,0 +1,346 @@
+// ============================================================================
+// POST IMPORT / EXPORT
+// ============================================================================
+// Bulk import of posts from CSV or JSON, and export of posts with their
+// analytics as CSV, JSON or a Markdown archive. Parsing and validation are
+// pure so the import dialog can preview every row before anything is written
+// (see usePostImportExport for the database side).
+
+import {
+  generateContentHash,
+  validatePreflightForScheduling,
+} from '@/lib/postLifecycle';
+import { zonedTimeToUtc } from '@/lib/timezoneUtils';
+
+export type ImportFormat = 'csv' | 'json';
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export const MAX_IMPORT_ROWS = 500;
+
+/** One row as read from the file, before validation */
+export interface RawImportRow {
+  line: number;
+  content: string;
+  scheduledTime: string;
+  agent: string;
+  imageUrl: string;
+}
+
+export interface ImportPreviewRow {
+  line: number;
+  content: string;
+  scheduledTime: string | null; // UTC ISO
+  agentId: string | null;
+  agentName: string | null;
+  imageUrl: string | null;
+  errors: string[];
+  /** Set when the content already exists, in the workspace or earlier in the file */
+  duplicateOf: 'existing' | 'file' | null;
+}
+
+export interface ImportAgent {
+  id: string;
+  name: string;
+}
+
+// Accepted header names per field, compared lowercased with spaces/dashes as _
+const COLUMN_ALIASES: Record<keyof Omit<RawImportRow, 'line'>, string[]> = {
+  content: ['content', 'text', 'post', 'body'],
+  scheduledTime: ['scheduled_time', 'scheduled_at', 'schedule', 'time', 'date'],
+  agent: ['agent', 'agent_name', 'agent_id'],
+  imageUrl: ['image_url', 'image', 'photo_url', 'photo'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function fieldFor(header: string): keyof Omit<RawImportRow, 'line'> | null {
+  const normalized = normalizeHeader(header);
+  const entry = Object.entries(COLUMN_ALIASES).find(([, aliases]) => aliases.includes(normalized));
+  return entry ? (entry[0] as keyof Omit<RawImportRow, 'line'>) : null;
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, newlines and "" escapes.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+  return rows;
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading
+// tab or carriage return can hide one that comes after it
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/** Undo the formula guard csvField adds on export */
+function unguardCsvField(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Rows of a CSV (with a header row) or JSON (an array of objects, or
+ * { posts: [...] }) file. Line numbers are the CSV line or the 1-based JSON
+ * index, for the preview.
+ */
+export function parseImportFile(text: string, format: ImportFormat): { rows: RawImportRow[]; error?: string } {
+  let records: { line: number; values: Record<string, unknown> }[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { rows: [], error: 'The file is not valid JSON' };
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { posts?: unknown })?.posts;
+    if (!Array.isArray(list)) return { rows: [], error: 'Expected a list of posts' };
+    records = list.map((values, i) => ({
+      line: i + 1,
+      values: values && typeof values === 'object' ? values as Record<string, unknown> : {},
+    }));
+  } else {
+    const [header, ...lines] = parseCsv(text);
+    if (!header) return { rows: [], error: 'The file is empty' };
+    if (!header.some(h => fieldFor(h) === 'content')) {
+      return { rows: [], error: 'The first row needs a "content" column' };
+    }
+    records = lines.map((values, i) => ({
+      line: i + 2,
+      values: Object.fromEntries(header.map((h, col) => [h, unguardCsvField(values[col] ?? '')])),
+    }));
+  }
+
+  if (records.length === 0) return { rows: [], error: 'No posts found in the file' };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `Import at most ${MAX_IMPORT_ROWS} posts at a time` };
+  }
+
+  const rows = records.map(({ line, values }) => {
+    const row: RawImportRow = { line, content: '', scheduledTime: '', agent: '', imageUrl: '' };
+    for (const [key, value] of Object.entries(values)) {
+      const field = fieldFor(key);
+      if (field && !row[field] && value !== null && value !== undefined) row[field] = String(value).trim();
+    }
+    return row;
+  });
+  return { rows };
+}
+
+const WALL_CLOCK_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::\d{2})?$/;
+const EXPLICIT_ZONE_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * "2026-03-05 09:30" is wall-clock time in the user's timezone; ISO strings
+ * with a Z or offset are taken as they are.
+ */
+export function parseImportTime(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  const wallClock = trimmed.match(WALL_CLOCK_PATTERN);
+  if (wallClock) {
+    const [, year, month, day, hours, minutes] = wallClock.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59) return null;
+    return zonedTimeToUtc(year, month - 1, day, hours, minutes, timeZone);
+  }
+  if (!EXPLICIT_ZONE_PATTERN.test(trimmed)) return null;
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate rows for import as pending posts. A row without an image is
+ * imported as a text post (image explicitly skipped).
+ */
+export function validateImportRows(
+  rows: RawImportRow[],
+  options: { agents: ImportAgent[]; existingHashes: Set<string>; timeZone: string }
+): ImportPreviewRow[] {
+  const seen = new Set<string>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+
+    let scheduledTime: string | null = null;
+    if (!row.scheduledTime) {
+      errors.push('Scheduled time is required');
+    } else {
+      const time = parseImportTime(row.scheduledTime, options.timeZone);
+      if (time) {
+        scheduledTime = time.toISOString();
+      } else {
+        errors.push(`Unrecognised time "${row.scheduledTime}" (use YYYY-MM-DD HH:MM or ISO 8601)`);
+      }
+    }
+
+    const imageUrl = row.imageUrl || null;
+    if (imageUrl && !isHttpUrl(imageUrl)) errors.push('Image URL must be an http(s) link');
+
+    const preflight = validatePreflightForScheduling({
+      content: row.content,
+      imageUrl: imageUrl || undefined,
+      imageSkipped: !imageUrl,
+      scheduledTime: scheduledTime || undefined,
+    });
+    errors.push(...preflight.errors);
+
+    let agent: ImportAgent | null = null;
+    if (row.agent) {
+      const wanted = row.agent.toLowerCase();
+      agent = options.agents.find(a => a.id === row.agent || a.name.toLowerCase() === wanted) || null;
+      if (!agent) errors.push(`Unknown agent "${row.agent}"`);
+    }
+
+    let duplicateOf: ImportPreviewRow['duplicateOf'] = null;
+    if (row.content.trim()) {
+      const hash = generateContentHash(row.content);
+      if (options.existingHashes.has(hash)) duplicateOf = 'existing';
+      else if (seen.has(hash)) duplicateOf = 'file';
+      seen.add(hash);
+    }
+
+    return {
+      line: row.line,
+      content: row.content,
+      scheduledTime,
+      agentId: agent?.id || null,
+      agentName: agent?.name || null,
+      imageUrl,
+      errors,
+      duplicateOf,
+    };
+  });
+}
+
+/** Rows that will be inserted: valid and not already there */
+export function importableRows(rows: ImportPreviewRow[]): ImportPreviewRow[] {
+  return rows.filter(row => row.errors.length === 0 && !row.duplicateOf);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export interface ExportPost {
+  id: string;
+  content: string;
+  status: string;
+  agentName: string | null;
+  scheduledTime: string | null;
+  postedAt: string | null;
+  imageUrl: string | null;
+  linkedinUrl: string | null;
+  views: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+}
+
+const EXPORT_COLUMNS: { key: keyof ExportPost; header: string }[] = [
+  { key: 'id', header: 'id' },
+  { key: 'content', header: 'content' },
+  { key: 'status', header: 'status' },
+  { key: 'agentName', header: 'agent' },
+  { key: 'scheduledTime', header: 'scheduled_time' },
+  { key: 'postedAt', header: 'posted_at' },
+  { key: 'imageUrl', header: 'image_url' },
+  { key: 'linkedinUrl', header: 'linkedin_url' },
+  { key: 'views', header: 'views' },
+  { key: 'likes', header: 'likes' },
+  { key: 'comments', header: 'comments' },
+  { key: 'shares', header: 'shares' },
+];
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  // A leading ' makes the cell text; the importer drops it again
+  const text = typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The export's headers line up with the importer, so a CSV can be re-imported */
+export function postsToCsv(posts: ExportPost[]): string {
+  const lines = [
+    EXPORT_COLUMNS.map(c => c.header).join(','),
+    ...posts.map(post => EXPORT_COLUMNS.map(c => csvField(post[c.key])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function postsToJson(posts: ExportPost[], exportedAt: Date = new Date()): string {
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), count: posts.length, posts }, null, 2);
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? '-' : value.toLocaleString('en-US');
+}
+
+/** One section per post with its metadata and metrics, for client reports */
+export function postsToMarkdown(posts: ExportPost[], exportedAt: Date = new Date()): string {
+  const sections = posts.map((post, i) => {
+    const meta = [
+      `- **Status:** ${post.status}`,
+      post.agentName && `- **Agent:** ${post.agentName}`,
+      post.scheduledTime && `- **Scheduled:** ${post.scheduledTime}`,
+      post.postedAt && `- **Posted:** ${post.postedAt}`,
+      post.linkedinUrl && `- **LinkedIn:** ${post.linkedinUrl}`,
+      post.imageUrl && `- **Image:** ${post.imageUrl}`,
+    ].filter(Boolean);
+
+    const metrics = post.views !== null || post.likes !== null
+      ? [
+        '',
+        '| Views | Likes | Comments | Shares |',
+        '| ---: | ---: | ---: | ---: |',
+        `| ${formatMetric(post.views)} | ${formatMetric(post.likes)} | ${formatMetric(post.comments)} | ${formatMetric(post.shares)} |`,
+      ]
+      : [];
+
+    const quoted = post.content.split('\n').map(line => `> ${line}`.trimEnd());
+    return [`## ${i + 1}. ${post.postedAt || post.scheduledTime || post.id}`, '', ...meta, ...metrics, '', ...quoted].join('\n');
+  });
+
+  return [`# Posts export`, '', `Exported ${exportedAt.toISOString()} - ${posts.length} post${posts.length === 1 ? '' : 's'}`, '', ...sections.flatMap(s => [s, ''])].join('\n');
+}
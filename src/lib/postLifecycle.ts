@@ -1,55 +1,96 @@
 // ============================================================================
 // POST LIFECYCLE STATE MACHINE - CLEAN ARCHITECTURE
 // ============================================================================
-// CRITICAL: Website can ONLY insert status='pending'
-// Extension updates to: posting, posted, failed
+// CRITICAL: Website inserts status='pending' (or 'draft' for posts that go
+// through review). Extension updates to: posting, posted, failed
 //
-// Status flow:
+// Status flow (enforced by the database, see _shared/postStatus.ts):
+// draft → in_review → approved → pending   (review, see usePostReviews)
 // pending → posting → posted
-//                  ↘ failed
+//                  ↘ failed → pending (retry)
+// draft / approved / pending → cancelled
+
+import {
+  assertTransition,
+  canTransition,
+  REVIEW_STATUSES,
+  type PostStatus,
+} from '../../supabase/functions/_shared/postStatus';
 
 /**
  * Clean post status types matching database constraint
  * Website can ONLY insert 'pending'
  * Extension updates to: posting, posted, failed
  */
-export type PostStatus = 'pending' | 'posting' | 'posted' | 'failed';
+export {
+  IllegalStatusTransitionError,
+  POST_STATUS_TRANSITIONS,
+  REVIEW_STATUSES,
+  transitionPostStatus,
+  type PostStatus,
+  type PostStatusSource,
+  type PostStatusUpdates,
+} from '../../supabase/functions/_shared/postStatus';
+export { recordPostPublished } from '../../supabase/functions/_shared/publishOutcomes';
 
 // Status display labels
 export const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
   pending: 'Queued',
   posting: 'Posting...',
   posted: 'Posted ✓',
   failed: 'Failed ✗',
+  cancelled: 'Cancelled',
 };
 
 // Status colors for UI
 export const STATUS_COLORS: Record<PostStatus, { bg: string; text: string; border: string }> = {
+  draft: { bg: 'bg-muted', text: 'text-muted-foreground', border: 'border-border' },
+  in_review: { bg: 'bg-purple-500/20', text: 'text-purple-600', border: 'border-purple-500/30' },
+  approved: { bg: 'bg-emerald-500/20', text: 'text-emerald-600', border: 'border-emerald-500/30' },
   pending: { bg: 'bg-yellow-500/20', text: 'text-yellow-600', border: 'border-yellow-500/30' },
   posting: { bg: 'bg-blue-500/20', text: 'text-blue-600', border: 'border-blue-500/30' },
   posted: { bg: 'bg-green-500/20', text: 'text-green-600', border: 'border-green-500/30' },
   failed: { bg: 'bg-red-500/20', text: 'text-red-600', border: 'border-red-500/30' },
+  cancelled: { bg: 'bg-muted', text: 'text-muted-foreground', border: 'border-border' },
 };
 
 /**
- * Check if a post can be edited (only pending posts)
+ * Check if a post can be edited (drafts and pending posts)
  */
 export function canEditPost(status: PostStatus): boolean {
-  return status === 'pending';
+  return status === 'draft' || status === 'pending';
 }
 
 /**
  * Check if a post can be deleted
  */
 export function canDeletePost(status: PostStatus): boolean {
-  return status === 'pending' || status === 'failed';
+  return status === 'draft' || status === 'pending' || status === 'failed';
+}
+
+/**
+ * Posts in the review workflow stay out of the extension until approved and
+ * queued. A post whose status the caller didn't load is refused too.
+ */
+export function canSendToExtension(status: PostStatus | undefined): boolean {
+  return !!status && !isReviewState(status);
+}
+
+/**
+ * Check if post is still in the review workflow (draft, in_review, approved)
+ */
+export function isReviewState(status: PostStatus): boolean {
+  return REVIEW_STATUSES.includes(status);
 }
 
 /**
  * Check if post is in a terminal state
  */
 export function isTerminalState(status: PostStatus): boolean {
-  return status === 'posted' || status === 'failed';
+  return status === 'posted' || status === 'failed' || status === 'cancelled';
 }
 
 /**
@@ -152,12 +193,14 @@ export function canPostNow(status: PostStatus, approved: boolean): boolean {
 }
 
 export function canTransitionTo(currentStatus: PostStatus, newStatus: PostStatus): boolean {
-  // Website should not be managing transitions - extension owns this
-  return true;
+  return canTransition(currentStatus, newStatus);
 }
 
+/**
+ * Throws IllegalStatusTransitionError for transitions the database would reject
+ */
 export function validateTransition(currentStatus: PostStatus, newStatus: PostStatus): void {
-  // No-op - extension owns transitions
+  assertTransition(currentStatus, newStatus);
 }
 
 /**
@@ -3,8 +3,31 @@
 // ============================================================================
 
 import { toast } from 'sonner';
+import {
+  DEFAULT_TIMEZONE,
+  formatScheduledTimeInZone,
+  getTimeZoneAbbreviation,
+} from '@/lib/timezoneUtils';
+import { parseSchedule } from '../../supabase/functions/_shared/scheduleParser';
+import { canSendToExtension, type PostStatus } from '@/lib/postLifecycle';
+import { getExtensionClient } from '@/lib/extensionProtocol';
 
-const IST_TIMEZONE = 'Asia/Kolkata';
+export {
+  expandRecurrence,
+  parseSchedule,
+  type ParsedSchedule,
+  type ScheduleKind,
+  type ScheduleParseOptions,
+  type ScheduleRecurrence,
+} from '../../supabase/functions/_shared/scheduleParser';
+
+export {
+  describeRecurrence,
+  occurrencesBetween,
+  parseRecurrenceRule,
+  type ParsedRecurrence,
+  type RecurrenceRule,
+} from '../../supabase/functions/_shared/recurrence';
 
 // Error messages for scheduling
 export const SCHEDULE_ERRORS = {
@@ -18,127 +41,32 @@ export const SCHEDULE_ERRORS = {
 
 /**
  * Parse a natural language time string into a Date object
- * Handles: "1:30 AM", "tomorrow 9 AM", "2:30 PM today", "in 2 hours"
+ * Handles: "1:30 AM", "tomorrow 9 AM", "next friday 3pm", "March 3 at 10am", "in 2 hours"
+ * Wall-clock times are interpreted in the user's timezone (default IST).
+ * Thin wrapper over the shared parser - use parseSchedule for ambiguity info.
  */
 export function parseScheduleTime(
   userInput: string,
-  referenceDate: Date = new Date()
+  referenceDate: Date = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
 ): Date | null {
-  const lower = userInput.toLowerCase().trim();
-  const now = new Date(referenceDate);
-  
-  console.log('📅 Parsing schedule time:', userInput);
-  
-  // Handle "post now" / "now" / "immediately"
-  if (lower === 'now' || lower.includes('post now') || lower.includes('immediately') || lower.includes('right now')) {
-    // Schedule 1 minute in the future for "now" requests
-    const result = new Date(now);
-    result.setMinutes(result.getMinutes() + 1);
-    result.setSeconds(0, 0);
-    console.log('⏰ "Now" detected, scheduling for:', result.toISOString());
-    return result;
-  }
-  
-  let scheduledDate = new Date(now);
-  scheduledDate.setSeconds(0, 0);
+  console.log('📅 Parsing schedule time:', userInput, `(${timeZone})`);
   
-  // Handle "in X hours/minutes" FIRST (relative time)
-  const inHoursMatch = lower.match(/in\s+(\d+)\s*hours?/i);
-  if (inHoursMatch) {
-    const hoursToAdd = parseInt(inHoursMatch[1]);
-    scheduledDate.setHours(scheduledDate.getHours() + hoursToAdd);
-    console.log('⏰ "In X hours" detected:', scheduledDate.toISOString());
-    return scheduledDate;
-  }
-  
-  const inMinutesMatch = lower.match(/in\s+(\d+)\s*minutes?/i);
-  if (inMinutesMatch) {
-    const minsToAdd = parseInt(inMinutesMatch[1]);
-    scheduledDate.setMinutes(scheduledDate.getMinutes() + minsToAdd);
-    console.log('⏰ "In X minutes" detected:', scheduledDate.toISOString());
-    return scheduledDate;
-  }
+  const parsed = parseSchedule(userInput, { now: referenceDate, timeZone });
   
-  // Handle relative day references
-  if (lower.includes('tomorrow')) {
-    scheduledDate.setDate(scheduledDate.getDate() + 1);
-  } else if (lower.includes('next week')) {
-    scheduledDate.setDate(scheduledDate.getDate() + 7);
+  if (!parsed) {
+    console.log('❌ Could not parse time from:', userInput);
+    return null;
   }
   
-  // Handle day of week
-  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  for (let i = 0; i < days.length; i++) {
-    if (lower.includes(`next ${days[i]}`)) {
-      const currentDay = scheduledDate.getDay();
-      let daysUntil = i - currentDay;
-      if (daysUntil <= 0) daysUntil += 7;
-      scheduledDate.setDate(scheduledDate.getDate() + daysUntil);
-      break;
-    }
+  // User explicitly named a time that has already passed (e.g. "today at 9am" at noon)
+  if (parsed.isPast) {
+    console.log('❌ Time has already passed:', parsed.time);
+    return null;
   }
   
-  // Extract time from input
-  let hours = -1;
-  let minutes = 0;
-  
-  // Match patterns like "1:30 AM", "1:30am", "14:30"
-  const timeMatch = lower.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-  if (timeMatch) {
-    hours = parseInt(timeMatch[1]);
-    minutes = parseInt(timeMatch[2]);
-    const period = timeMatch[3]?.toLowerCase();
-    
-    // Convert to 24-hour format
-    if (period === 'pm' && hours !== 12) hours += 12;
-    if (period === 'am' && hours === 12) hours = 0;
-  } else {
-    // Match patterns like "3pm", "3 pm", "3 AM"
-    const simpleTimeMatch = lower.match(/(\d{1,2})\s*(am|pm)/i);
-    if (simpleTimeMatch) {
-      hours = parseInt(simpleTimeMatch[1]);
-      const period = simpleTimeMatch[2].toLowerCase();
-      
-      if (period === 'pm' && hours !== 12) hours += 12;
-      if (period === 'am' && hours === 12) hours = 0;
-    }
-  }
-  
-  // Handle relative times of day without specific time
-  if (hours === -1) {
-    if (lower.includes('morning')) {
-      hours = 9;
-    } else if (lower.includes('afternoon')) {
-      hours = 14;
-    } else if (lower.includes('evening')) {
-      hours = 18;
-    } else if (lower.includes('tonight')) {
-      hours = 20;
-    } else {
-      // No time found - return null to indicate invalid input
-      console.log('❌ Could not parse time from:', userInput);
-      return null;
-    }
-  }
-  
-  // Set the time
-  scheduledDate.setHours(hours, minutes, 0, 0);
-  
-  // CRITICAL: Check if time is in the past
-  if (scheduledDate <= now) {
-    // If time is in past and no "tomorrow" mentioned, assume next occurrence
-    if (!lower.includes('tomorrow') && !lower.includes('today')) {
-      scheduledDate.setDate(scheduledDate.getDate() + 1);
-      console.log('⏰ Time was in past, moved to tomorrow:', scheduledDate.toISOString());
-    } else if (lower.includes('today')) {
-      // User explicitly said "today" but time has passed
-      console.log('❌ Time has already passed today:', scheduledDate.toISOString());
-      return null;
-    }
-  }
-  
-  console.log('✅ Parsed schedule time:', scheduledDate.toISOString());
-  return scheduledDate;
+  console.log('✅ Parsed schedule time:', parsed.time, parsed.ambiguous ? '(ambiguous)' : '');
+  return new Date(parsed.time);
 }
 
 /**
@@ -183,57 +111,33 @@ export function validateScheduleTime(scheduledTime: Date | string): ScheduleVali
 }
 
 /**
- * Format scheduled time for display in IST
+ * Format scheduled time for display in the user's timezone
  */
-export function formatScheduledTimeForDisplay(isoString: string | Date): string {
+export function formatScheduledTimeForDisplay(
+  isoString: string | Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
   const date = typeof isoString === 'string' ? new Date(isoString) : isoString;
   
-  return date.toLocaleString('en-IN', {
-    timeZone: IST_TIMEZONE,
+  const formatted = date.toLocaleString('en-IN', {
+    timeZone,
     day: 'numeric',
     month: 'long',
     hour: 'numeric',
     minute: '2-digit',
     hour12: true
   });
+  return `${formatted} ${getTimeZoneAbbreviation(timeZone, date)}`;
 }
 
 /**
  * Format scheduled time as relative (Today at, Tomorrow at, etc.)
  */
-export function formatRelativeScheduledTime(isoString: string | Date): string {
-  const date = typeof isoString === 'string' ? new Date(isoString) : isoString;
-  const now = new Date();
-  const tomorrow = new Date(now);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  const timeStr = date.toLocaleTimeString('en-IN', { 
-    timeZone: IST_TIMEZONE,
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true
-  });
-  
-  // Compare dates in IST
-  const dateIST = new Date(date.toLocaleString('en-US', { timeZone: IST_TIMEZONE }));
-  const nowIST = new Date(now.toLocaleString('en-US', { timeZone: IST_TIMEZONE }));
-  const tomorrowIST = new Date(tomorrow.toLocaleString('en-US', { timeZone: IST_TIMEZONE }));
-  
-  const isToday = dateIST.toDateString() === nowIST.toDateString();
-  const isTomorrow = dateIST.toDateString() === tomorrowIST.toDateString();
-  
-  if (isToday) {
-    return `Today at ${timeStr}`;
-  } else if (isTomorrow) {
-    return `Tomorrow at ${timeStr}`;
-  } else {
-    return date.toLocaleDateString('en-IN', { 
-      timeZone: IST_TIMEZONE,
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric',
-    }) + ` at ${timeStr}`;
-  }
+export function formatRelativeScheduledTime(
+  isoString: string | Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  return formatScheduledTimeInZone(isoString, timeZone);
 }
 
 /**
@@ -245,15 +149,17 @@ export interface ExtensionPostPayload {
   imageUrl?: string | null;
   scheduleTime: string;
   trackingId?: string;
+  status: PostStatus; // checked by sendToExtension, not sent
 }
 
 export function createExtensionPayload(
   postId: string,
   content: string,
   scheduledTime: Date | string,
-  options?: {
+  options: {
     imageUrl?: string | null;
     trackingId?: string;
+    status: PostStatus;
   }
 ): ExtensionPostPayload {
   const scheduleTime = typeof scheduledTime === 'string' 
@@ -263,100 +169,78 @@ export function createExtensionPayload(
   return {
     id: postId,
     content,
-    imageUrl: options?.imageUrl || null,
+    imageUrl: options.imageUrl || null,
     scheduleTime,
-    trackingId: options?.trackingId,
+    trackingId: options.trackingId,
+    status: options.status,
   };
 }
 
 /**
- * Send posts to extension via postMessage
- * Returns a promise that resolves with the extension response
+ * Send posts to extension (see extensionProtocol for acks and retries)
+ * Returns a promise that resolves with the extension response.
+ * Posts still in review (draft, in_review, approved but not queued) are refused.
  */
-export function sendToExtension(
-  posts: ExtensionPostPayload[]
+export async function sendToExtension(
+  payloads: ExtensionPostPayload[]
 ): Promise<{ success: boolean; error?: string; queueLength?: number }> {
-  return new Promise((resolve) => {
-    console.log('📤 Sending to extension:', posts);
-    
-    // Send the message
-    window.postMessage({
-      type: 'SCHEDULE_POSTS',
-      posts: posts,
-    }, '*');
-    
-    // Listen for response
-    const handler = (event: MessageEvent) => {
-      if (event.data.type === 'SCHEDULE_RESULT') {
-        window.removeEventListener('message', handler);
-        clearTimeout(timeout);
-        
-        if (event.data.success) {
-          console.log('✅ Extension confirmed scheduling:', event.data);
-          resolve({ 
-            success: true, 
-            queueLength: event.data.queueLength || event.data.scheduledCount 
-          });
-        } else {
-          console.error('❌ Extension scheduling failed:', event.data.error);
-          resolve({ success: false, error: event.data.error });
-        }
-      }
-    };
-    
-    window.addEventListener('message', handler);
-    
-    // Timeout after 5 seconds
-    const timeout = setTimeout(() => {
-      window.removeEventListener('message', handler);
-      console.error('❌ Extension did not respond');
-      resolve({ success: false, error: 'Extension did not confirm scheduling' });
-    }, 5000);
-  });
+  const unapproved = payloads.filter(p => !canSendToExtension(p.status));
+  if (unapproved.length > 0) {
+    console.error('❌ Refusing to send posts that are still in review:', unapproved.map(p => p.id));
+    return { success: false, error: 'Only approved posts can be sent to the extension' };
+  }
+  const posts = payloads.map(({ status: _status, ...post }) => post);
+
+  console.log('📤 Sending to extension:', posts);
+  // Scheduling is idempotent (the extension upserts by post id), so it's
+  // safe to resend if the first attempt goes unanswered
+  const result = await getExtensionClient().request(
+    { type: 'SCHEDULE_POSTS', posts },
+    { timeoutMs: 5000, retries: 2, idempotent: true }
+  );
+
+  if (result.ok === false) {
+    console.error('❌ Extension did not respond');
+    return { success: false, error: 'Extension did not confirm scheduling' };
+  }
+  if (!result.response.success) {
+    console.error('❌ Extension scheduling failed:', result.response.error);
+    return { success: false, error: result.response.error };
+  }
+  console.log('✅ Extension confirmed scheduling:', result.response);
+  return {
+    success: true,
+    queueLength: result.response.queueLength || result.response.scheduledCount,
+  };
 }
 
 /**
  * Send a single post for immediate posting
  */
-export function postNowToExtension(
+export async function postNowToExtension(
   post: { id: string; content: string; imageUrl?: string | null }
 ): Promise<{ success: boolean; error?: string; linkedinUrl?: string }> {
-  return new Promise((resolve) => {
-    console.log('📤 Sending POST_NOW to extension:', post);
-    
-    window.postMessage({
+  console.log('📤 Sending POST_NOW to extension:', post);
+
+  // Retried only against extensions that dedupe by requestId, so a slow
+  // post never goes out twice
+  const result = await getExtensionClient().request(
+    {
       type: 'POST_NOW',
       post: {
         id: post.id,
         content: post.content,
         imageUrl: post.imageUrl || null,
       },
-    }, '*');
-    
-    const handler = (event: MessageEvent) => {
-      if (event.data.type === 'POST_RESULT' && event.data.postId === post.id) {
-        window.removeEventListener('message', handler);
-        clearTimeout(timeout);
-        
-        if (event.data.success) {
-          console.log('✅ Post published:', event.data);
-          resolve({ 
-            success: true, 
-            linkedinUrl: event.data.linkedinUrl 
-          });
-        } else {
-          console.error('❌ Posting failed:', event.data.error);
-          resolve({ success: false, error: event.data.error });
-        }
-      }
-    };
-    
-    window.addEventListener('message', handler);
-    
-    // Timeout after 30 seconds for posting
-    const timeout = setTimeout(() => {
-      window.removeEventListener('message', handler);
-      resolve({ success: false, error: 'Posting timeout' });
-    }, 30000);
-  });
+    },
+    { timeoutMs: 30000, retries: 1, matchLegacy: response => response.postId === post.id }
+  );
+
+  if (result.ok === false) return { success: false, error: 'Posting timeout' };
+  if (!result.response.success) {
+    console.error('❌ Posting failed:', result.response.error);
+    return { success: false, error: result.response.error };
+  }
+  console.log('✅ Post published:', result.response);
+  return { success: true, linkedinUrl: result.response.linkedinUrl };
 }
@@ -1,9 +1,38 @@
 // ============================================================================
-// IST (Indian Standard Time) TIMEZONE UTILITIES
+// TIMEZONE UTILITIES
 // ============================================================================
+// Users pick their own timezone (user_profiles.timezone, default IST).
+// The *IST helpers are kept for callers that haven't been made zone-aware.
+
+import {
+  DEFAULT_TIMEZONE,
+  formatScheduledTimeInZone,
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '../../supabase/functions/_shared/timezone';
+import { parseSchedule } from '../../supabase/functions/_shared/scheduleParser';
+import {
+  bestHours,
+  buildBestTimeHeatmap,
+  type BestTimeHeatmap,
+} from '../../supabase/functions/_shared/bestTimes';
+
+export {
+  DEFAULT_TIMEZONE,
+  formatDateOnlyInZone,
+  formatScheduledTimeInZone,
+  formatTimeInZone,
+  getTimeZoneAbbreviation,
+  getZonedDateKey,
+  getZonedParts,
+  isSameZonedDay,
+  isValidTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '../../supabase/functions/_shared/timezone';
 
 const IST_TIMEZONE = 'Asia/Kolkata';
-const IST_OFFSET_HOURS = 5.5; // UTC+5:30
 
 /**
  * Get current time in IST
@@ -57,9 +86,23 @@ export function formatDateOnlyIST(date: Date | string): string {
   });
 }
 
+/**
+ * Create an ISO string that represents a specific wall-clock time in a timezone
+ * This converts the user's local time to UTC for storage
+ */
+export function createISOFromZone(
+  year: number,
+  month: number, // 0-indexed
+  day: number,
+  hours: number,
+  minutes: number = 0,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  return zonedTimeToUtc(year, month, day, hours, minutes, timeZone).toISOString();
+}
+
 /**
  * Create an ISO string that represents a specific time in IST
- * This converts local IST time to UTC for storage
  */
 export function createISOFromIST(
   year: number,
@@ -68,132 +111,29 @@ export function createISOFromIST(
   hours: number,
   minutes: number = 0
 ): string {
-  // Create date in IST by calculating UTC offset
-  const utcHours = hours - IST_OFFSET_HOURS;
-  const date = new Date(Date.UTC(year, month, day, Math.floor(utcHours), minutes + (utcHours % 1) * 60));
-  return date.toISOString();
+  return createISOFromZone(year, month, day, hours, minutes, IST_TIMEZONE);
+}
+
+/**
+ * Parse a natural language time string into an ISO string, interpreting
+ * wall-clock times ("3pm", "tomorrow morning") in the given timezone
+ */
+export function parseScheduleTimeInZone(
+  timeText: string,
+  timeZone: string,
+  referenceDate?: Date
+): string | null {
+  return parseSchedule(timeText, { timeZone, now: referenceDate })?.time ?? null;
 }
 
 /**
  * Parse a natural language time string into an ISO string (in IST context)
- * Returns the time as an ISO string that represents the correct moment
  */
 export function parseScheduleTimeIST(
-  timeText: string, 
+  timeText: string,
   referenceDate?: Date
 ): string | null {
-  const lower = timeText.toLowerCase().trim();
-  
-  // Get current time in IST for reference
-  const nowIST = referenceDate 
-    ? new Date(referenceDate.toLocaleString('en-US', { timeZone: IST_TIMEZONE }))
-    : getCurrentTimeIST();
-  
-  // Create a working date in IST context
-  let year = nowIST.getFullYear();
-  let month = nowIST.getMonth();
-  let day = nowIST.getDate();
-  let hours = 9; // Default to 9 AM IST
-  let minutes = 0;
-  
-  // Handle relative day references
-  if (lower.includes('tomorrow')) {
-    day += 1;
-  } else if (lower.includes('next week')) {
-    day += 7;
-  }
-  
-  // Handle day of week
-  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  for (let i = 0; i < days.length; i++) {
-    if (lower.includes(`next ${days[i]}`)) {
-      const currentDay = nowIST.getDay();
-      let daysUntil = i - currentDay;
-      if (daysUntil <= 0) daysUntil += 7;
-      day += daysUntil;
-      break;
-    }
-  }
-  
-  // Handle "in X hours/minutes"
-  const inHoursMatch = lower.match(/in\s+(\d+)\s*hours?/i);
-  if (inHoursMatch) {
-    const hoursToAdd = parseInt(inHoursMatch[1]);
-    const result = new Date(nowIST);
-    result.setHours(result.getHours() + hoursToAdd);
-    return result.toISOString();
-  }
-  
-  const inMinutesMatch = lower.match(/in\s+(\d+)\s*minutes?/i);
-  if (inMinutesMatch) {
-    const minsToAdd = parseInt(inMinutesMatch[1]);
-    const result = new Date(nowIST);
-    result.setMinutes(result.getMinutes() + minsToAdd);
-    return result.toISOString();
-  }
-  
-  // Extract time (e.g., "3:42 pm", "15:30", "3pm")
-  // Match patterns like "3:42 pm", "3:42pm", "15:30"
-  const timeMatch = lower.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-  if (timeMatch) {
-    hours = parseInt(timeMatch[1]);
-    minutes = parseInt(timeMatch[2]);
-    const ampm = timeMatch[3]?.toLowerCase();
-    
-    if (ampm === 'pm' && hours < 12) hours += 12;
-    if (ampm === 'am' && hours === 12) hours = 0;
-  } else {
-    // Match patterns like "3pm", "3 pm"
-    const simpleTimeMatch = lower.match(/(\d{1,2})\s*(am|pm)/i);
-    if (simpleTimeMatch) {
-      hours = parseInt(simpleTimeMatch[1]);
-      const ampm = simpleTimeMatch[2].toLowerCase();
-      
-      if (ampm === 'pm' && hours < 12) hours += 12;
-      if (ampm === 'am' && hours === 12) hours = 0;
-    }
-  }
-  
-  // Handle relative times of day
-  if (lower.includes('morning') && !timeMatch) {
-    hours = 9;
-    minutes = 0;
-  } else if (lower.includes('afternoon') && !timeMatch) {
-    hours = 14;
-    minutes = 0;
-  } else if (lower.includes('evening') && !timeMatch) {
-    hours = 18;
-    minutes = 0;
-  } else if (lower.includes('tonight') && !timeMatch) {
-    hours = 20;
-    minutes = 0;
-  }
-  
-  // Calculate the date, handling month overflow
-  const tempDate = new Date(year, month, day);
-  year = tempDate.getFullYear();
-  month = tempDate.getMonth();
-  day = tempDate.getDate();
-  
-  // Create the scheduled time
-  // Convert IST time to UTC for storage
-  const utcHours = hours - 5; // IST is UTC+5:30
-  const utcMinutes = minutes - 30;
-  
-  let scheduledDate = new Date(Date.UTC(year, month, day, utcHours, utcMinutes));
-  
-  // Adjust if minutes went negative
-  if (utcMinutes < 0) {
-    scheduledDate = new Date(scheduledDate.getTime() - 30 * 60 * 1000);
-  }
-  
-  // If the time is in the past for today (in IST), assume tomorrow
-  const now = new Date();
-  if (scheduledDate <= now && !lower.includes('today')) {
-    scheduledDate.setDate(scheduledDate.getDate() + 1);
-  }
-  
-  return scheduledDate.toISOString();
+  return parseScheduleTimeInZone(timeText, IST_TIMEZONE, referenceDate);
 }
 
 /**
@@ -214,41 +154,73 @@ export function isPostDue(scheduledTime: string): boolean {
   return now >= scheduled;
 }
 
+/**
+ * Format a scheduled time for display (user-friendly) in the user's timezone
+ */
+export function formatScheduledTime(isoString: string, timeZone: string = DEFAULT_TIMEZONE): string {
+  return formatScheduledTimeInZone(isoString, timeZone);
+}
+
 /**
  * Format a scheduled time for display (user-friendly)
  */
 export function formatScheduledTimeIST(isoString: string): string {
-  const date = new Date(isoString);
-  const nowIST = getCurrentTimeIST();
-  const tomorrow = new Date(nowIST);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  // Convert scheduled date to IST for comparison
-  const scheduledIST = toIST(date);
-  
-  const isToday = scheduledIST.toDateString() === nowIST.toDateString();
-  const isTomorrow = scheduledIST.toDateString() === tomorrow.toDateString();
-  
-  const timeStr = formatTimeIST(date);
-  
-  if (isToday) {
-    return `Today at ${timeStr} IST`;
-  } else if (isTomorrow) {
-    return `Tomorrow at ${timeStr} IST`;
-  } else {
-    return `${formatDateOnlyIST(date)} at ${timeStr} IST`;
-  }
+  return formatScheduledTimeInZone(isoString, IST_TIMEZONE);
+}
+
+/**
+ * Best hours to post, labelled in the user's timezone. Ranked from the user's
+ * own analytics when a heatmap is passed (see useBestPostingTimes), otherwise
+ * typical LinkedIn working-day peaks.
+ */
+export function getOptimalPostingTimes(
+  timeZone: string = DEFAULT_TIMEZONE,
+  heatmap: BestTimeHeatmap = buildBestTimeHeatmap([], timeZone)
+): { time: string; label: string }[] {
+  const tz = getTimeZoneAbbreviation(timeZone);
+  const source = heatmap.learned ? 'Learned from your posts' : 'Typical LinkedIn peak';
+  return bestHours(heatmap).map(hour => {
+    const hour12 = hour % 12 || 12;
+    return {
+      time: `${String(hour).padStart(2, '0')}:00`,
+      label: `${hour12}:00 ${hour >= 12 ? 'PM' : 'AM'} ${tz} - ${source}`,
+    };
+  });
 }
 
 /**
  * Get optimal posting times for LinkedIn in IST
  */
-export function getOptimalPostingTimesIST(): { time: string; label: string }[] {
-  return [
-    { time: '08:00', label: '8:00 AM IST - Early morning engagement' },
-    { time: '10:00', label: '10:00 AM IST - Mid-morning peak' },
-    { time: '12:00', label: '12:00 PM IST - Lunch break browsing' },
-    { time: '17:00', label: '5:00 PM IST - End of workday' },
-    { time: '19:00', label: '7:00 PM IST - Evening engagement' },
-  ];
+export function getOptimalPostingTimesIST(heatmap?: BestTimeHeatmap): { time: string; label: string }[] {
+  return getOptimalPostingTimes(IST_TIMEZONE, heatmap);
 }
+
+/**
+ * Best guess at the browser's timezone, used as the default for new profiles
+ */
+export function detectBrowserTimeZone(): string {
+  try {
+    return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Timezones offered in the settings picker (the user's own zone is added if missing)
+ */
+export const COMMON_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'Asia/Kolkata', label: 'India (Asia/Kolkata)' },
+  { value: 'Asia/Dubai', label: 'Dubai (Asia/Dubai)' },
+  { value: 'Asia/Singapore', label: 'Singapore (Asia/Singapore)' },
+  { value: 'Asia/Tokyo', label: 'Tokyo (Asia/Tokyo)' },
+  { value: 'Australia/Sydney', label: 'Sydney (Australia/Sydney)' },
+  { value: 'Europe/London', label: 'London (Europe/London)' },
+  { value: 'Europe/Berlin', label: 'Berlin (Europe/Berlin)' },
+  { value: 'Europe/Paris', label: 'Paris (Europe/Paris)' },
+  { value: 'America/New_York', label: 'New York (America/New_York)' },
+  { value: 'America/Chicago', label: 'Chicago (America/Chicago)' },
+  { value: 'America/Denver', label: 'Denver (America/Denver)' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles (America/Los_Angeles)' },
+  { value: 'UTC', label: 'UTC' },
+];
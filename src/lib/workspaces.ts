@@ -0,0 +1,72 @@
+// ============================================================================
+// TEAM WORKSPACES
+// ============================================================================
+// Agents, reference materials and the content calendar belong to a workspace.
+// The database enforces access (RLS on workspace_members); these helpers only
+// decide what the UI offers and which workspace the dashboard is showing.
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'reviewer' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'reviewer', 'viewer'];
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  reviewer: 'Reviewer',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Manages members and billing, plus everything editors can do',
+  editor: 'Creates and edits agents, reference materials and posts',
+  reviewer: 'Reads everything and reviews posts sent to them',
+  viewer: 'Read-only access to agents and the calendar',
+};
+
+/** Dispatched on window when the active workspace changes */
+export const WORKSPACE_CHANGED_EVENT = 'linkedbot:workspace-changed';
+
+/** Can create and change agents, reference materials and posts */
+export function canEditWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+/** Can add/remove members, change roles and billing */
+export function canManageWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return role === 'owner';
+}
+
+// Cached per user so every hook doesn't pay a round trip
+let activeWorkspace: { userId: string; workspaceId: string } | null = null;
+
+/**
+ * The workspace the dashboard is showing. The database falls back to the
+ * user's personal workspace (creating it on first use).
+ */
+export async function getActiveWorkspaceId(userId: string): Promise<string | null> {
+  if (activeWorkspace?.userId === userId) return activeWorkspace.workspaceId;
+
+  const { data, error } = await supabase.rpc('current_workspace_id');
+  if (error || !data) {
+    console.error('Error resolving workspace:', error);
+    return null;
+  }
+
+  activeWorkspace = { userId, workspaceId: data };
+  return data;
+}
+
+/** Switch workspaces; hooks listening for WORKSPACE_CHANGED_EVENT refetch */
+export async function setActiveWorkspaceId(userId: string, workspaceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ active_workspace_id: workspaceId })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  activeWorkspace = { userId, workspaceId };
+  window.dispatchEvent(new CustomEvent(WORKSPACE_CHANGED_EVENT, { detail: { workspaceId } }));
+}
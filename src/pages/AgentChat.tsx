@@ -16,15 +16,23 @@ import {
   ImagePlus,
   RefreshCw,
   AlertCircle,
+  Square,
+  Split,
 } from "lucide-react";
-import { format } from "date-fns";
-import { useAgentChat, GeneratedPost } from "@/hooks/useAgentChat";
+import { formatScheduledTimeInZone } from "@/lib/timezoneUtils";
+import { useAgentChat, GeneratedPost, RescheduledPost } from "@/hooks/useAgentChat";
+import { useChatThreads } from "@/hooks/useChatThreads";
 import { useAgents } from "@/hooks/useAgents";
 import { useUserProfile } from "@/hooks/useUserProfile";
 import { usePostingLimits } from "@/hooks/usePostingLimits";
+import { useStyleProfile } from "@/hooks/useStyleProfile";
 import { PostPreviewCard } from "@/components/agents/PostPreviewCard";
+import { VariantCompareDialog } from "@/components/agents/VariantCompareDialog";
 import { ExtensionActivityLog, useExtensionActivityLog } from "@/components/agents/ExtensionActivityLog";
 import { ImageUploadPanel } from "@/components/agents/ImageUploadPanel";
+import { ChatThreadList } from "@/components/agents/ChatThreadList";
+import { RequestReviewDialog } from "@/components/reviews/RequestReviewDialog";
+import { usePostReviews } from "@/hooks/usePostReviews";
 
 import { ExtensionStatusIndicator } from "@/components/extension/ExtensionStatusIndicator";
 import { toast } from "sonner";
@@ -59,7 +67,8 @@ const AgentChatPage = () => {
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const { agents } = useAgents();
-  const { profile } = useUserProfile();
+  const { profile, timeZone } = useUserProfile();
+  const { profile: styleProfile } = useStyleProfile();
 
   // Find the agent if ID provided and LOAD its saved settings
   const currentAgent = agentId ? agents.find(a => a.id === agentId) : null;
@@ -90,25 +99,41 @@ const AgentChatPage = () => {
     company: profile?.company_name,
     role: profile?.role,
     background: profile?.background,
+    timezone: timeZone,
   };
 
+  // Conversations with this agent - chat history lives server-side per thread
+  const {
+    threads,
+    activeThreadId,
+    setActiveThreadId,
+    createThread,
+    renameThread,
+    deleteThread,
+    searchMessages,
+    refetch: refetchThreads,
+  } = useChatThreads(agentId);
+
   // Agent chat hook
   const {
     messages,
     isLoading,
+    streamingReply,
+    stopGeneration,
     generatedPosts,
     previewPost,
     sendMessage,
     resetChat,
     updatePost,
     deletePost,
+    keepVariant,
     regeneratePost,
     generateImageForPost,
     confirmPreviewPost,
     clearPreview,
     savePostToDatabase,
     setGeneratedPosts, // Need this for adding approved posts
-  } = useAgentChat(currentAgentSettings, currentUserContext, agentId);
+  } = useAgentChat(currentAgentSettings, currentUserContext, agentId, activeThreadId);
 
   // Scheduling dialog state removed - scheduling is now agent-driven
 
@@ -123,6 +148,40 @@ const AgentChatPage = () => {
 
   const [isPostingNow, setIsPostingNow] = useState(false);
 
+  // Drafts sent to a reviewer instead of straight to the queue
+  const { submitForReview } = usePostReviews();
+  const [reviewPostId, setReviewPostId] = useState<string | null>(null);
+
+  const handleRequestReview = async (reviewerEmail: string) => {
+    const post = generatedPosts.find(p => p.id === reviewPostId);
+    if (!post) return false;
+
+    // Saved once as a draft; a failed request (e.g. unknown email) can be retried
+    let dbId = post.dbId;
+    if (!dbId) {
+      const saved = await savePostToDatabase(post, undefined, 'draft');
+      if (!saved?.dbId) return false;
+      updatePost(post.id, { dbId: saved.dbId, trackingId: saved.trackingId, status: 'draft' });
+      dbId = saved.dbId;
+    }
+
+    const ok = await submitForReview(dbId, reviewerEmail);
+    if (ok) updatePost(post.id, { status: 'in_review' });
+    return ok;
+  };
+
+  // A/B versions of one draft (the agent's draft_variants tool)
+  const [compareGroupId, setCompareGroupId] = useState<string | null>(null);
+
+  const variantSiblings = (post: GeneratedPost) =>
+    post.variant ? generatedPosts.filter(p => p.variant?.groupId === post.variant?.groupId && !p.dbId) : [];
+
+  const handleRequestVariants = async (post: GeneratedPost) => {
+    if (isLoading) return;
+    await sendMessage(`Write 3 variants of draft ${post.id} with different hooks`);
+    refetchThreads();
+  };
+
   // Posting limits hook
   const { canPost, limitMessage, incrementPostCount, status: limitsStatus } = usePostingLimits();
 
@@ -141,10 +200,10 @@ const AgentChatPage = () => {
     maxImages,
   } = useImageUpload();
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change or a streamed reply grows
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   // Preflight validation removed - scheduling is now fully agent-driven with validation in auto_schedule handler
 
@@ -216,6 +275,34 @@ const AgentChatPage = () => {
     }
 
     const response = await sendMessage(finalMessage, { generateImage: generatePhoto, uploadedImages: imageUrls });
+    // New titles and activity order for the thread list
+    refetchThreads();
+    
+    // Queued posts the agent moved - the extension needs their new times too
+    const rescheduled: RescheduledPost[] = response?.rescheduled || [];
+    if (rescheduled.length > 0) {
+      const result = await sendPendingPosts(rescheduled.map(post => ({
+        id: post.id,
+        trackingId: post.trackingId || undefined,
+        content: post.content,
+        imageUrl: post.imageUrl || undefined,
+        scheduleTime: post.scheduledTime,
+        status: "pending",
+      })));
+      
+      for (const post of rescheduled) {
+        addActivityEntry(
+          result.success ? "scheduled" : "failed",
+          result.success ? `Moved to ${formatScheduledTimeInZone(post.scheduledTime, timeZone)}` : (result.error || "Failed to update extension"),
+          post.id
+        );
+      }
+      if (!result.success) {
+        toast.error("Rescheduled, but the extension didn't get the new time", {
+          description: result.error || "It will be picked up once the extension reconnects.",
+        });
+      }
+    }
     
     // Handle generate_image response - generate image for specific post
     if (response?.type === "generate_image" && response.postId) {
@@ -290,7 +377,7 @@ const AgentChatPage = () => {
         updatePost(savedPost.id, savedPost);
         
         // Send to extension immediately
-        addActivityEntry("sending", `Scheduling for ${format(scheduledTime, 'MMM d, h:mm a')}...`, savedPost.id);
+        addActivityEntry("sending", `Scheduling for ${formatScheduledTimeInZone(scheduledTime, timeZone)}...`, savedPost.id);
         
         const validScheduledTime = scheduledTime.toISOString();
         
@@ -308,6 +395,7 @@ const AgentChatPage = () => {
           content: savedPost.content,
           imageUrl: savedPost.imageUrl || undefined,
           scheduleTime: validScheduledTime, // v4.0 renamed from scheduledTime
+          status: "pending" as PostStatus,
         };
         
         console.log("📤 Sending to extension (v4.0 - no user_id):", postForExtension);
@@ -323,8 +411,8 @@ const AgentChatPage = () => {
           
           setGeneratedPosts(prev => [finalPost, ...prev.filter(p => p.id !== finalPost.id)]);
           
-          addActivityEntry("scheduled", `Queued for ${format(scheduledTime, 'MMM d, h:mm a')}`, savedPost.id);
-          toast.success(`✅ Post created! Extension will publish at ${format(scheduledTime, 'MMM d, h:mm a')}`);
+          addActivityEntry("scheduled", `Queued for ${formatScheduledTimeInZone(scheduledTime, timeZone)}`, savedPost.id);
+          toast.success(`✅ Post created! Extension will publish at ${formatScheduledTimeInZone(scheduledTime, timeZone)}`);
           
           // ✅ CLEAN ARCHITECTURE: Website does NOT update status
           // Extension polls Supabase and updates status to posting/posted/failed
@@ -346,15 +434,21 @@ const AgentChatPage = () => {
   // handlePostAllNow removed - posting is now fully agent-driven
 
   const handleBack = () => {
-    resetChat();
     navigate("/dashboard/agents");
   };
 
-  const handleClearChat = () => {
-    resetChat();
+  const handleClearChat = async () => {
+    if (!confirm("Clear this conversation? Its messages and unsaved drafts will be deleted.")) return;
+    await resetChat();
     toast.success("Chat history cleared");
   };
 
+  const handleDeleteThread = (threadId: string) => {
+    const title = threads.find(t => t.id === threadId)?.title;
+    if (!confirm(`Delete ${title ? `"${title}"` : "this conversation"}? Its messages and unsaved drafts will be deleted.`)) return;
+    deleteThread(threadId);
+  };
+
   return (
     <DashboardLayout>
       <div className="h-[calc(100vh-120px)] flex flex-col">
@@ -411,6 +505,22 @@ const AgentChatPage = () => {
 
         {/* Main content area */}
         <div className="flex-1 flex gap-6 min-h-0 pt-4">
+          {/* Conversations with this agent */}
+          {agentId && (
+            <div className="w-[220px] flex-shrink-0 border-r border-border pr-4 flex flex-col min-h-0">
+              <ChatThreadList
+                threads={threads}
+                activeThreadId={activeThreadId}
+                onSelect={setActiveThreadId}
+                onCreate={() => createThread()}
+                onRename={renameThread}
+                onDelete={handleDeleteThread}
+                onSearch={searchMessages}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
           {/* Chat Section */}
           <div className="flex-1 flex flex-col min-h-0">
             {/* Chat messages */}
@@ -455,10 +565,25 @@ const AgentChatPage = () => {
                     animate={{ opacity: 1 }}
                     className="flex justify-start"
                   >
-                    <div className="bg-muted p-4 rounded-2xl flex items-center gap-2">
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      <span className="text-sm">Thinking...</span>
-                    </div>
+                    {streamingReply?.content || streamingReply?.draft ? (
+                      <div className="max-w-[80%] p-4 rounded-2xl bg-muted space-y-3">
+                        {streamingReply.content && (
+                          <p className="text-sm whitespace-pre-wrap">{streamingReply.content}</p>
+                        )}
+                        {streamingReply.draft && (
+                          <div className="border-l-2 border-primary/40 pl-3">
+                            <p className="text-xs text-muted-foreground mb-1">Drafting post...</p>
+                            <p className="text-sm whitespace-pre-wrap">{streamingReply.draft}</p>
+                          </div>
+                        )}
+                        <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : (
+                      <div className="bg-muted p-4 rounded-2xl flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm">{streamingReply?.status || "Thinking..."}</span>
+                      </div>
+                    )}
                   </motion.div>
                 )}
                 <div ref={chatEndRef} />
@@ -525,18 +650,25 @@ const AgentChatPage = () => {
                   className="flex-1"
                   disabled={isLoading}
                 />
-                <Button 
-                  variant="gradient" 
-                  size="icon" 
-                  onClick={handleSendMessage}
-                  disabled={isLoading || isUploadingImages || (!chatInput.trim() && uploadedImages.length === 0)}
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : (
+                {isLoading ? (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={stopGeneration}
+                    title="Stop generating"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </Button>
+                ) : (
+                  <Button 
+                    variant="gradient" 
+                    size="icon" 
+                    onClick={handleSendMessage}
+                    disabled={isUploadingImages || (!chatInput.trim() && uploadedImages.length === 0)}
+                  >
                     <Send className="w-5 h-5" />
-                  )}
-                </Button>
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -562,21 +694,42 @@ const AgentChatPage = () => {
               <>
                 <ScrollArea className="flex-1 min-h-0">
                   <div className="space-y-4 pr-4">
-                    {generatedPosts.map((post, index) => (
-                      <PostPreviewCard
-                        key={post.id}
-                        post={post}
-                        index={index}
-                        totalPosts={generatedPosts.length}
-                        onUpdate={(updates) => updatePost(post.id, updates)}
-                        onDelete={() => deletePost(post.id)}
-                        onRegenerate={() => regeneratePost(post.id, currentAgentSettings, currentUserContext)}
-                        onGenerateImage={() => generateImageForPost(post.id)}
-                        onApprove={() => handleApprovePost(post.id)}
-                        isLoading={isLoading}
-                        isPosting={isPostingNow}
-                      />
-                    ))}
+                    {generatedPosts.map((post, index) => {
+                      const siblings = variantSiblings(post);
+                      const isVariantSet = siblings.length > 1 && !post.dbId;
+                      return (
+                        <div key={post.id} className="space-y-2">
+                          {isVariantSet && siblings[0].id === post.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full h-8 text-xs"
+                              onClick={() => setCompareGroupId(post.variant!.groupId)}
+                            >
+                              <Split className="w-3.5 h-3.5 mr-1" />
+                              Compare {siblings.length} versions side by side
+                            </Button>
+                          )}
+                          <PostPreviewCard
+                            post={post}
+                            index={index}
+                            totalPosts={generatedPosts.length}
+                            onUpdate={(updates) => updatePost(post.id, updates)}
+                            onDelete={() => deletePost(post.id)}
+                            onRegenerate={() => regeneratePost(post.id, currentAgentSettings, currentUserContext)}
+                            onGenerateImage={() => generateImageForPost(post.id)}
+                            onApprove={() => handleApprovePost(post.id)}
+                            onRequestReview={() => setReviewPostId(post.id)}
+                            onKeepVariant={isVariantSet ? () => keepVariant(post.id) : undefined}
+                            onRequestVariants={() => handleRequestVariants(post)}
+                            isLoading={isLoading}
+                            isPosting={isPostingNow}
+                            timeZone={timeZone}
+                            styleProfile={styleProfile}
+                          />
+                        </div>
+                      );
+                    })}
                   </div>
                 </ScrollArea>
 
@@ -601,6 +754,17 @@ const AgentChatPage = () => {
         </div>
 
         {/* SchedulingDialog removed - scheduling is now fully agent-driven */}
+        <RequestReviewDialog
+          open={!!reviewPostId}
+          onOpenChange={(open) => !open && setReviewPostId(null)}
+          onSubmit={handleRequestReview}
+        />
+        <VariantCompareDialog
+          variants={generatedPosts.filter(p => p.variant?.groupId === compareGroupId && !p.dbId)}
+          open={!!compareGroupId}
+          onOpenChange={(open) => !open && setCompareGroupId(null)}
+          onKeep={keepVariant}
+        />
       </div>
     </DashboardLayout>
   );
@@ -31,11 +31,21 @@ import {
   Trash2,
   MessageSquare,
   GraduationCap,
+  Repeat,
+  Cpu,
+  Wand2,
 } from "lucide-react";
 import { useAgents } from "@/hooks/useAgents";
 import { usePageTitle } from "@/hooks/usePageTitle";
 import { toast } from "sonner";
 import { ReferenceMaterials } from "@/components/agents/ReferenceMaterials";
+import { ResearchFeeds } from "@/components/agents/ResearchFeeds";
+import { PostSeriesManager } from "@/components/agents/PostSeriesManager";
+import { AgentModelSelect } from "@/components/agents/AgentModelSelect";
+import { HumanizerRulesEditor } from "@/components/agents/HumanizerRulesEditor";
+import type { Json } from "@/integrations/supabase/types";
+import { preferenceFromSettings, type LLMPreference } from "../../supabase/functions/_shared/llmProviders";
+import { humanizerRulesFromSettings, type HumanizerRules } from "../../supabase/functions/_shared/humanizer";
 
 const agentTypes = [
   { id: "comedy", icon: Smile, label: "Comedy/Humorous", description: "Funny, light-hearted posts" },
@@ -53,6 +63,9 @@ const AgentsPage = () => {
   const navigate = useNavigate();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [trainAgentId, setTrainAgentId] = useState<string | null>(null);
+  const [seriesAgentId, setSeriesAgentId] = useState<string | null>(null);
+  const [modelAgentId, setModelAgentId] = useState<string | null>(null);
+  const [humanizerAgentId, setHumanizerAgentId] = useState<string | null>(null);
   const [createStep, setCreateStep] = useState(1);
   const [selectedType, setSelectedType] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -60,10 +73,13 @@ const AgentsPage = () => {
   const [postLength, setPostLength] = useState("medium");
   const [tone, setTone] = useState("conversational");
   const [voiceReference, setVoiceReference] = useState("");
+  const [llm, setLlm] = useState<LLMPreference | null>(null);
   const [agentName, setAgentName] = useState("");
 
   // Fetch real agents
-  const { agents, isLoading: agentsLoading, createAgent, toggleAgentStatus, deleteAgent } = useAgents();
+  const { agents, isLoading: agentsLoading, createAgent, updateAgent, toggleAgentStatus, deleteAgent } = useAgents();
+  const modelAgent = agents.find((a) => a.id === modelAgentId);
+  const humanizerAgent = agents.find((a) => a.id === humanizerAgentId);
 
   const handleToggleAgentStatus = async (agentId: string) => {
     await toggleAgentStatus(agentId);
@@ -87,6 +103,33 @@ const AgentsPage = () => {
     setEmojiLevel([2]);
     setPostLength("medium");
     setVoiceReference("");
+    setLlm(null);
+  };
+
+  const handleModelChange = async (agentId: string, value: LLMPreference | null) => {
+    const agent = agents.find((a) => a.id === agentId);
+    if (!agent) return;
+
+    const settings = { ...((agent.settings || {}) as Record<string, Json>) };
+    if (value) settings.llm = { ...value };
+    else delete settings.llm;
+
+    if (await updateAgent(agentId, { settings })) {
+      toast.success(value ? `${agent.name} now writes with ${value.model || value.provider}` : `${agent.name} uses the platform default model`);
+    }
+  };
+
+  const handleHumanizerChange = async (agentId: string, rules: HumanizerRules) => {
+    const agent = agents.find((a) => a.id === agentId);
+    if (!agent) return;
+
+    const settings = { ...((agent.settings || {}) as Record<string, Json>) };
+    settings.humanizer = { ...rules, replacements: rules.replacements.map((r) => ({ ...r })) };
+
+    if (await updateAgent(agentId, { settings })) {
+      toast.success(`Humanizer rules saved for ${agent.name}`);
+      setHumanizerAgentId(null);
+    }
   };
 
   // Navigate to chat page when Continue is clicked after selecting type
@@ -106,6 +149,7 @@ const AgentsPage = () => {
           emojiLevel: emojiLevel[0],
           postLength,
           voiceReference: voiceReference || undefined,
+          ...(llm ? { llm: { ...llm } } : {}),
         },
       });
 
@@ -251,6 +295,30 @@ const AgentsPage = () => {
                     <MessageSquare className="w-4 h-4" />
                     Chat
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Recurring series"
+                    onClick={() => setSeriesAgentId(agent.id)}
+                  >
+                    <Repeat className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="AI model"
+                    onClick={() => setModelAgentId(agent.id)}
+                  >
+                    <Cpu className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Humanizer rules"
+                    onClick={() => setHumanizerAgentId(agent.id)}
+                  >
+                    <Wand2 className="w-4 h-4" />
+                  </Button>
                   <Button 
                     variant="ghost" 
                     size="icon" 
@@ -409,6 +477,14 @@ const AgentsPage = () => {
                             </p>
                           </div>
 
+                          <div>
+                            <Label>AI Model</Label>
+                            <AgentModelSelect value={llm} onChange={setLlm} className="mt-1.5" />
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Optional: If this model is busy or out of credits, the next available one is used
+                            </p>
+                          </div>
+
                           <div>
                             <Label>Tone Preference</Label>
                             <div className="grid grid-cols-2 gap-2 mt-2">
@@ -521,11 +597,71 @@ const AgentsPage = () => {
               ))}
             </div>
           )}
-          <div className="mt-2">
+          <div className="mt-2 space-y-3">
             <ReferenceMaterials agentId={trainAgentId} />
+            <ResearchFeeds />
           </div>
         </DialogContent>
       </Dialog>
+      {/* Recurring Series Dialog */}
+      <Dialog open={!!seriesAgentId} onOpenChange={(open) => !open && setSeriesAgentId(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Repeat className="w-5 h-5 text-primary" />
+              Recurring Series
+            </DialogTitle>
+            <DialogDescription>
+              Schedule repeating posts like "every Tuesday at 9am", or recycle your past top performers. Posts are queued a week ahead and never go over your plan's limits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="mt-2">
+            <PostSeriesManager agentId={seriesAgentId} />
+          </div>
+        </DialogContent>
+      </Dialog>
+      {/* AI Model Dialog */}
+      <Dialog open={!!modelAgentId} onOpenChange={(open) => !open && setModelAgentId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Cpu className="w-5 h-5 text-primary" />
+              AI Model
+            </DialogTitle>
+            <DialogDescription>
+              Choose the model {modelAgent?.name || "this agent"} writes with. If it's busy or out of credits, the next available model is used.
+            </DialogDescription>
+          </DialogHeader>
+          {modelAgent && (
+            <AgentModelSelect
+              value={preferenceFromSettings(modelAgent.settings)}
+              onChange={(value) => handleModelChange(modelAgent.id, value)}
+              className="mt-2"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+      {/* Humanizer Rules Dialog */}
+      <Dialog open={!!humanizerAgentId} onOpenChange={(open) => !open && setHumanizerAgentId(null)}>
+        <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wand2 className="w-5 h-5 text-primary" />
+              Humanizer Rules
+            </DialogTitle>
+            <DialogDescription>
+              How {humanizerAgent?.name || "this agent"}'s drafts are rewritten before you see them. Turn off the casual rewrites for formal agents.
+            </DialogDescription>
+          </DialogHeader>
+          {humanizerAgent && (
+            <HumanizerRulesEditor
+              key={humanizerAgent.id}
+              value={humanizerRulesFromSettings(humanizerAgent.settings)}
+              onSave={(rules) => handleHumanizerChange(humanizerAgent.id, rules)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 };
@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import { usePageTitle } from "@/hooks/usePageTitle";
 import { MissingProfileBanner } from "@/components/linkedin/MissingProfileBanner";
 import { supabase } from "@/integrations/supabase/client";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 import {
   Select,
   SelectContent,
@@ -40,11 +41,17 @@ import {
   ExternalLink,
   Search,
   X,
+  Lightbulb,
+  ArrowUpRight,
+  ArrowDownRight,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { RefreshAnalyticsButton } from "@/components/analytics/RefreshAnalyticsButton";
+import { GrowthComparisonChart } from "@/components/analytics/GrowthComparisonChart";
+import { BestTimesHeatmap } from "@/components/analytics/BestTimesHeatmap";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -86,18 +93,32 @@ const calcEngagement = (v: number, l: number, c: number, s: number): number => {
   return ((l + c + s) / v) * 100;
 };
 
+const formatRate = (perHour: number | null | undefined): string =>
+  perHour === null || perHour === undefined ? "-" : `${formatNumber(Math.round(perHour))}/hr`;
+
+// Posts overlaid in the growth comparison (matches get-analytics)
+const MAX_COMPARE = 5;
+
 const AnalyticsPage = () => {
   usePageTitle("Analytics");
   const { toast } = useToast();
   const { isConnected, isInstalled } = useLinkedBotExtension();
-  const { profile: userProfile, isLoading: profileLoading } = useUserProfile();
-  const { isSyncing, syncAnalytics } = useLinkedInAnalytics();
+  const { profile: userProfile, isLoading: profileLoading, timeZone } = useUserProfile();
+  const {
+    posts: trackedPosts,
+    comparison,
+    insights,
+    isSyncing,
+    syncAnalytics,
+    fetchAnalytics,
+  } = useLinkedInAnalytics();
 
   const [posts, setPosts] = useState<PostData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [period, setPeriod] = useState("30");
   const [sortBy, setSortBy] = useState("latest");
   const [selectedPost, setSelectedPost] = useState<PostData | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const [scrapingProgress, setScrapingProgress] = useState<{
     current: number;
     total: number;
@@ -134,25 +155,41 @@ const AnalyticsPage = () => {
 
   // Listen for extension scraping events
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      if (event.source !== window) return;
-      if (event.data.type === "EXTENSION_EVENT" && event.data.event === "scrapingProgress") {
-        const { current, total } = event.data.data;
+    return getExtensionClient().onMessage((message) => {
+      if (message.type === "EXTENSION_EVENT" && message.event === "scrapingProgress") {
+        const { current, total } = message.data || {};
         setScrapingProgress({ current, total });
       }
-      if (event.data.type === "EXTENSION_EVENT" && event.data.event === "scrapingComplete") {
+      if (message.type === "EXTENSION_EVENT" && message.event === "scrapingComplete") {
         setScrapingProgress(null);
         fetchPosts();
       }
-      if (event.data.type === "BULK_ANALYTICS_RESULT") {
+      if (message.type === "BULK_ANALYTICS_RESULT") {
         setScrapingProgress(null);
         fetchPosts();
       }
-    };
-    window.addEventListener("message", handleMessage);
-    return () => window.removeEventListener("message", handleMessage);
+    });
   }, []);
 
+  // Growth curves and velocity per post, from the scrape history
+  const growthById = useMemo(
+    () => new Map(trackedPosts.map((p) => [p.id, p.growth])),
+    [trackedPosts]
+  );
+  const selectedGrowth = selectedPost ? growthById.get(selectedPost.id) : undefined;
+
+  const toggleCompare = (postId: string) => {
+    const next = compareIds.includes(postId)
+      ? compareIds.filter((id) => id !== postId)
+      : [...compareIds, postId];
+    if (next.length > MAX_COMPARE) {
+      toast({ title: `Compare up to ${MAX_COMPARE} posts at a time` });
+      return;
+    }
+    setCompareIds(next);
+    fetchAnalytics(next);
+  };
+
   // Filter by period
   const filteredPosts = useMemo(() => {
     if (period === "all") return posts;
@@ -258,7 +295,7 @@ const AnalyticsPage = () => {
       if (!result?.success) throw new Error(result?.error || "Failed to scrape");
       const data = result.data || {};
       await syncAnalytics({ profile: data.profile || null, posts: data.posts || [] });
-      await fetchPosts();
+      await Promise.all([fetchPosts(), fetchAnalytics(compareIds)]);
     } catch (err) {
       toast({
         title: "Sync failed",
@@ -456,6 +493,70 @@ const AnalyticsPage = () => {
               </motion.div>
             </div>
 
+            {/* Growth Comparison */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.32 }}
+              className="bg-card rounded-2xl border border-border p-6 shadow-sm"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold">Growth Since Publish</h3>
+                <p className="text-xs text-muted-foreground">
+                  {compareIds.length > 0
+                    ? `Comparing ${compareIds.length} selected post${compareIds.length === 1 ? "" : "s"}`
+                    : `Latest ${MAX_COMPARE} posts · tick posts below to compare`}
+                </p>
+              </div>
+              <GrowthComparisonChart comparison={comparison} />
+            </motion.div>
+
+            {/* Content Insights */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.33 }}
+              className="bg-card rounded-2xl border border-border p-6 shadow-sm"
+            >
+              <h3 className="font-semibold mb-1 flex items-center gap-2">
+                <Lightbulb className="w-4 h-4 text-amber-500" />
+                What Works for Your Audience
+              </h3>
+              <p className="text-xs text-muted-foreground mb-4">
+                Compared by engagement rate across {insights?.sampleSize ?? 0} posts. Your agents use these when writing.
+              </p>
+              {insights?.findings.length ? (
+                <ul className="space-y-2">
+                  {insights.findings.map((finding) => (
+                    <li key={finding.text} className="flex items-start gap-2 text-sm">
+                      {finding.ratio >= 1 ? (
+                        <ArrowUpRight className="w-4 h-4 mt-0.5 text-emerald-500 shrink-0" />
+                      ) : (
+                        <ArrowDownRight className="w-4 h-4 mt-0.5 text-rose-500 shrink-0" />
+                      )}
+                      <span className="flex-1">{finding.text}</span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">{finding.posts} posts</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Findings appear once a few more of your posts have views - keep syncing your analytics.
+                </p>
+              )}
+            </motion.div>
+
+            {/* Best Times to Post */}
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.34 }}
+              className="bg-card rounded-2xl border border-border p-6 shadow-sm"
+            >
+              <h3 className="font-semibold mb-4">Best Times to Post</h3>
+              <BestTimesHeatmap timeZone={timeZone} />
+            </motion.div>
+
             {/* Posts Table */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -480,6 +581,7 @@ const AnalyticsPage = () => {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">Compare</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead>Post Preview</TableHead>
                       <TableHead className="text-center">Impressions</TableHead>
@@ -487,12 +589,22 @@ const AnalyticsPage = () => {
                       <TableHead className="text-center">Comments</TableHead>
                       <TableHead className="text-center">Shares</TableHead>
                       <TableHead className="text-center">Engagement %</TableHead>
+                      <TableHead className="text-center">Views @ 24h</TableHead>
+                      <TableHead className="text-center">Velocity</TableHead>
                       <TableHead className="text-center">Action</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {sortedPosts.map((post) => (
                       <TableRow key={post.id} className="cursor-pointer hover:bg-muted/50" onClick={() => setSelectedPost(post)}>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <Checkbox
+                            checked={compareIds.includes(post.id)}
+                            disabled={!post.posted_at}
+                            onCheckedChange={() => toggleCompare(post.id)}
+                            aria-label="Compare growth"
+                          />
+                        </TableCell>
                         <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
                           {post.posted_at ? new Date(post.posted_at).toLocaleDateString() : "-"}
                         </TableCell>
@@ -508,6 +620,14 @@ const AnalyticsPage = () => {
                             {calcEngagement(post.views_count, post.likes_count, post.comments_count, post.shares_count).toFixed(1)}%
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-center text-sm">
+                          {growthById.get(post.id)?.milestones["24h"] != null
+                            ? formatNumber(growthById.get(post.id).milestones["24h"])
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="text-center text-sm">
+                          {formatRate(growthById.get(post.id)?.velocity.viewsPerHour)}
+                        </TableCell>
                         <TableCell className="text-center">
                           <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); setSelectedPost(post); }}>
                             View Details
@@ -598,6 +718,37 @@ const AnalyticsPage = () => {
                 </span>
               </div>
 
+              {/* Growth */}
+              {selectedGrowth && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Growth</h4>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(["1h", "24h", "7d"] as const).map((key) => (
+                      <div key={key} className="p-3 bg-muted/50 rounded-lg text-center">
+                        <p className="font-bold">
+                          {selectedGrowth.milestones[key] != null ? formatNumber(selectedGrowth.milestones[key]) : "-"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">Views at {key}</p>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <p className="text-muted-foreground">Average velocity</p>
+                    <p className="text-right font-medium">{formatRate(selectedGrowth.velocity.viewsPerHour)}</p>
+                    <p className="text-muted-foreground">Latest velocity</p>
+                    <p className="text-right font-medium">{formatRate(selectedGrowth.velocity.recentViewsPerHour)}</p>
+                    <p className="text-muted-foreground">Peak velocity</p>
+                    <p className="text-right font-medium">{formatRate(selectedGrowth.velocity.peakViewsPerHour)}</p>
+                    <p className="text-muted-foreground">Engagements</p>
+                    <p className="text-right font-medium">{formatRate(selectedGrowth.velocity.engagementsPerHour)}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    From {selectedGrowth.points} sync{selectedGrowth.points === 1 ? "" : "s"}
+                    {selectedGrowth.observedHours !== null && ` over ${Math.round(selectedGrowth.observedHours)}h`}
+                  </p>
+                </div>
+              )}
+
               {/* Link */}
               {selectedPost.linkedin_post_url && (
                 <Button variant="outline" className="w-full gap-2" asChild>
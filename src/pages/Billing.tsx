@@ -118,7 +118,9 @@ const BillingPage = () => {
         >
           <h1 className="text-3xl font-bold">Billing & Subscription</h1>
           <p className="text-muted-foreground mt-1">
-            Manage your subscription and billing details
+            {status?.workspaceName
+              ? `Plan and usage for the ${status.workspaceName} workspace, shared by all of its members`
+              : "Manage your subscription and billing details"}
           </p>
         </motion.div>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type DragEvent } from "react";
 import { motion } from "framer-motion";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   ChevronLeft,
   ChevronRight,
@@ -20,12 +26,25 @@ import {
   Trash2,
   Eye,
   Loader2,
+  Undo2,
+  GripVertical,
+  AlertTriangle,
+  Download,
+  Upload,
 } from "lucide-react";
-import { format, addMonths, subMonths, isSameDay } from "date-fns";
-import { usePosts } from "@/hooks/usePosts";
+import { format, addMonths, subMonths, addWeeks, subWeeks, addDays, startOfWeek, isSameDay } from "date-fns";
+import { usePosts, type Post } from "@/hooks/usePosts";
 import { useAgents } from "@/hooks/useAgents";
 import { usePageTitle } from "@/hooks/usePageTitle";
 import { useNavigate } from "react-router-dom";
+import { useUserProfile } from "@/hooks/useUserProfile";
+import { usePostingLimits, DAILY_LIMITS } from "@/hooks/usePostingLimits";
+import { useCalendarReschedule, calendarSlotTime, isBlockingConflict, weekSlotKey } from "@/hooks/useCalendarReschedule";
+import { CalendarWeekView } from "@/components/calendar/CalendarWeekView";
+import { usePostImportExport } from "@/hooks/usePostImportExport";
+import { PostImportDialog } from "@/components/posts/PostImportDialog";
+import type { ImportPreviewRow } from "@/lib/postImportExport";
+import { formatTimeInZone, getTimeZoneAbbreviation, getZonedDateKey } from "@/lib/timezoneUtils";
 
 // Color mapping for agent types
 const agentColors: Record<string, string> = {
@@ -48,8 +67,30 @@ const CalendarPage = () => {
   const [filterAgent, setFilterAgent] = useState("all");
 
   // Fetch real data
-  const { posts, isLoading: postsLoading, deletePost, fetchScheduledPosts } = usePosts();
+  const { posts, isLoading: postsLoading, deletePost, reschedulePost, fetchScheduledPosts } = usePosts();
   const { agents, isLoading: agentsLoading } = useAgents();
+  const { timeZone } = useUserProfile();
+  const { status: limitsStatus } = usePostingLimits();
+
+  // Drag pending posts between days (month) or hourly slots (week)
+  const reschedule = useCalendarReschedule({
+    posts,
+    reschedulePost,
+    timeZone,
+    dailyLimit: limitsStatus?.dailyLimit ?? DAILY_LIMITS.free,
+  });
+  const draggedPost = reschedule.draggedPost;
+
+  // Bulk import from CSV/JSON and export with analytics
+  const { isImporting, isExporting, previewImport, importPosts, exportPosts } = usePostImportExport(timeZone);
+  const [showImport, setShowImport] = useState(false);
+
+  const handleImport = async (rows: ImportPreviewRow[]) => {
+    const imported = await importPosts(rows);
+    if (imported > 0) fetchScheduledPosts();
+    return imported;
+  };
+  const dropTarget = reschedule.dropTarget;
 
   useEffect(() => {
     fetchScheduledPosts();
@@ -60,10 +101,28 @@ const CalendarPage = () => {
       // Show both scheduled and posted posts
       if (!post.scheduled_time && !post.posted_at) return false;
       const postDate = post.posted_at ? new Date(post.posted_at) : new Date(post.scheduled_time!);
-      return isSameDay(postDate, date);
+      // Calendar cells are plain days; posts land on the day they fall in the user's timezone
+      return getZonedDateKey(postDate, timeZone) === format(date, "yyyy-MM-dd");
     });
   };
 
+  // Calendar-cell date for the day a post falls on in the user's timezone
+  const toCalendarDay = (iso: string) => {
+    const [year, month, day] = getZonedDateKey(new Date(iso), timeZone).split("-").map(Number);
+    return new Date(year, month - 1, day);
+  };
+
+  const formatPostDate = (iso: string) =>
+    new Date(iso).toLocaleDateString("en-US", {
+      timeZone,
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  const formatPostTime = (iso: string) =>
+    `${formatTimeInZone(iso, timeZone)} ${getTimeZoneAbbreviation(timeZone, new Date(iso))}`;
+
   const selectedDatePosts = selectedDate ? getPostsForDate(selectedDate) : [];
 
   // Show ALL posts in list (pending + posting + posted)
@@ -84,6 +143,53 @@ const CalendarPage = () => {
     await deletePost(postId);
   };
 
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(selectedDate || currentMonth), i));
+
+  const handlePrevious = () => {
+    if (viewMode === "week") {
+      const date = subWeeks(selectedDate || currentMonth, 1);
+      setSelectedDate(date);
+      setCurrentMonth(date);
+    } else {
+      setCurrentMonth(subMonths(currentMonth, 1));
+    }
+  };
+
+  const handleNext = () => {
+    if (viewMode === "week") {
+      const date = addWeeks(selectedDate || currentMonth, 1);
+      setSelectedDate(date);
+      setCurrentMonth(date);
+    } else {
+      setCurrentMonth(addMonths(currentMonth, 1));
+    }
+  };
+
+  const handleDragStart = (e: DragEvent, post: Post) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", post.id);
+    reschedule.startDrag(post);
+  };
+
+  // Month cells keep the post's time of day; week slots set the hour
+  const handleDayDragOver = (e: DragEvent, day: Date) => {
+    if (!draggedPost) return;
+    e.preventDefault();
+    reschedule.previewDrop(format(day, "yyyy-MM-dd"), calendarSlotTime(day, timeZone, draggedPost));
+  };
+
+  const handleDayDrop = (e: DragEvent, day: Date) => {
+    e.preventDefault();
+    if (draggedPost) reschedule.drop(calendarSlotTime(day, timeZone, draggedPost));
+  };
+
+  const dropTargetClass = (key: string) => {
+    if (!draggedPost || dropTarget?.key !== key) return "";
+    if (dropTarget.conflicts.some(isBlockingConflict)) return "ring-2 ring-destructive";
+    if (dropTarget.conflicts.length > 0) return "ring-2 ring-warning";
+    return "ring-2 ring-success";
+  };
+
   const isLoading = postsLoading || agentsLoading;
 
   if (isLoading) {
@@ -114,10 +220,29 @@ const CalendarPage = () => {
               Schedule and manage your LinkedIn posts
             </p>
           </div>
-          <Button variant="gradient" className="gap-2" onClick={() => navigate("/dashboard/agents")}>
-            <Plus className="w-4 h-4" />
-            Create Post
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setShowImport(true)}>
+              <Upload className="w-4 h-4" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2" disabled={isExporting}>
+                  {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportPosts("csv")}>CSV (spreadsheet)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportPosts("json")}>JSON (backup)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportPosts("markdown")}>Markdown archive</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="gradient" className="gap-2" onClick={() => navigate("/dashboard/agents")}>
+              <Plus className="w-4 h-4" />
+              Create Post
+            </Button>
+          </div>
         </motion.div>
 
         <div className="grid lg:grid-cols-3 gap-8">
@@ -133,20 +258,22 @@ const CalendarPage = () => {
               <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-4">
                   <h2 className="text-xl font-semibold">
-                    {format(currentMonth, "MMMM yyyy")}
+                    {viewMode === "week"
+                      ? `${format(weekDays[0], "MMM d")} - ${format(weekDays[6], "MMM d, yyyy")}`
+                      : format(currentMonth, "MMMM yyyy")}
                   </h2>
                   <div className="flex items-center gap-1">
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
+                      onClick={handlePrevious}
                     >
                       <ChevronLeft className="w-4 h-4" />
                     </Button>
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}
+                      onClick={handleNext}
                     >
                       <ChevronRight className="w-4 h-4" />
                     </Button>
@@ -154,6 +281,12 @@ const CalendarPage = () => {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  {reschedule.canUndo && (
+                    <Button variant="outline" size="sm" className="gap-1" onClick={() => reschedule.undo()}>
+                      <Undo2 className="w-3.5 h-3.5" />
+                      Undo move
+                    </Button>
+                  )}
                   <Button
                     variant={viewMode === "month" ? "default" : "ghost"}
                     size="sm"
@@ -172,50 +305,98 @@ const CalendarPage = () => {
               </div>
 
               {/* Calendar component */}
-              <Calendar
-                mode="single"
-                selected={selectedDate}
-                onSelect={setSelectedDate}
-                month={currentMonth}
-                onMonthChange={setCurrentMonth}
-                className="w-full"
-                modifiers={{
-                  hasPost: posts.filter(p => p.scheduled_time).map((p) => new Date(p.scheduled_time!)),
-                }}
-                modifiersStyles={{
-                  hasPost: {
-                    fontWeight: "bold",
-                  },
-                }}
-                components={{
-                  Day: ({ date, ...props }) => {
-                    const postsOnDay = getPostsForDate(date);
-                    return (
-                      <button
-                        {...props}
-                        className={`relative w-full h-12 flex flex-col items-center justify-center rounded-lg hover:bg-muted transition-colors ${
-                          selectedDate && isSameDay(date, selectedDate)
-                            ? "bg-primary text-primary-foreground"
-                            : ""
-                        }`}
-                        onClick={() => setSelectedDate(date)}
-                      >
-                        <span>{format(date, "d")}</span>
-                        {postsOnDay.length > 0 && (
-                          <div className="flex gap-0.5 mt-1">
-                            {postsOnDay.slice(0, 3).map((post, i) => (
-                              <div
-                                key={i}
-                                className={`w-1.5 h-1.5 rounded-full ${getAgentColor(post.agent_name)}`}
-                              />
-                            ))}
-                          </div>
-                        )}
-                      </button>
-                    );
-                  },
-                }}
-              />
+              {viewMode === "week" ? (
+                <CalendarWeekView
+                  days={weekDays}
+                  timeZone={timeZone}
+                  getPostsForDate={getPostsForDate}
+                  getAgentColor={getAgentColor}
+                  canDrag={reschedule.canDrag}
+                  draggedPostId={draggedPost?.id || null}
+                  dropTarget={dropTarget}
+                  onDragStart={reschedule.startDrag}
+                  onDragEnd={reschedule.endDrag}
+                  onSlotDragOver={(day, hour) =>
+                    draggedPost && reschedule.previewDrop(weekSlotKey(day, hour), calendarSlotTime(day, timeZone, draggedPost, hour))
+                  }
+                  onSlotDrop={(day, hour) =>
+                    draggedPost && reschedule.drop(calendarSlotTime(day, timeZone, draggedPost, hour))
+                  }
+                  onSelectDate={setSelectedDate}
+                />
+              ) : (
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={setSelectedDate}
+                  month={currentMonth}
+                  onMonthChange={setCurrentMonth}
+                  className="w-full"
+                  modifiers={{
+                    hasPost: posts.filter(p => p.scheduled_time).map((p) => toCalendarDay(p.scheduled_time!)),
+                  }}
+                  modifiersStyles={{
+                    hasPost: {
+                      fontWeight: "bold",
+                    },
+                  }}
+                  components={{
+                    Day: ({ date, ...props }) => {
+                      const postsOnDay = getPostsForDate(date);
+                      return (
+                        <button
+                          {...props}
+                          className={`relative w-full h-12 flex flex-col items-center justify-center rounded-lg hover:bg-muted transition-colors ${
+                            selectedDate && isSameDay(date, selectedDate)
+                              ? "bg-primary text-primary-foreground"
+                              : ""
+                          } ${dropTargetClass(format(date, "yyyy-MM-dd"))}`}
+                          onClick={() => setSelectedDate(date)}
+                          onDragOver={(e) => handleDayDragOver(e, date)}
+                          onDrop={(e) => handleDayDrop(e, date)}
+                        >
+                          <span>{format(date, "d")}</span>
+                          {postsOnDay.length > 0 && (
+                            <div className="flex gap-0.5 mt-1">
+                              {postsOnDay.slice(0, 3).map((post, i) => (
+                                <div
+                                  key={i}
+                                  className={`w-1.5 h-1.5 rounded-full ${getAgentColor(post.agent_name)}`}
+                                />
+                              ))}
+                            </div>
+                          )}
+                        </button>
+                      );
+                    },
+                  }}
+                />
+              )}
+
+              {/* Live conflict check for the slot under the dragged post */}
+              {draggedPost && (
+                <div className="mt-4 min-h-[2.5rem] text-xs">
+                  {!dropTarget ? (
+                    <p className="text-muted-foreground">
+                      Drop on a {viewMode === "week" ? "time slot" : "day"} to reschedule.
+                    </p>
+                  ) : dropTarget.conflicts.length === 0 ? (
+                    <p className="text-success">{formatPostDate(dropTarget.time.toISOString())}, {formatPostTime(dropTarget.time.toISOString())} is free</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {dropTarget.conflicts.map((conflict) => (
+                        <li
+                          key={conflict.kind}
+                          className={`flex items-center gap-1 ${isBlockingConflict(conflict) ? "text-destructive" : "text-warning"}`}
+                        >
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {conflict.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           </motion.div>
 
@@ -255,12 +436,18 @@ const CalendarPage = () => {
                   {selectedDatePosts.map((post) => (
                     <div
                       key={post.id}
-                      className="p-4 rounded-xl bg-muted/50 border border-border"
+                      draggable={reschedule.canDrag(post)}
+                      onDragStart={(e) => handleDragStart(e, post)}
+                      onDragEnd={reschedule.endDrag}
+                      className={`p-4 rounded-xl bg-muted/50 border border-border ${
+                        reschedule.canDrag(post) ? "cursor-grab active:cursor-grabbing" : ""
+                      } ${draggedPost?.id === post.id ? "opacity-40" : ""}`}
                     >
                       <div className="flex items-center gap-2 mb-2">
+                        {reschedule.canDrag(post) && <GripVertical className="w-3.5 h-3.5 text-muted-foreground" />}
                         <span className={`w-2 h-2 rounded-full ${getAgentColor(post.agent_name)}`} />
                         <span className="text-xs font-medium text-muted-foreground">
-                          {post.scheduled_time ? format(new Date(post.scheduled_time), "h:mm a") : "No time"}
+                          {post.scheduled_time ? formatPostTime(post.scheduled_time) : "No time"}
                         </span>
                       </div>
                       <p className="text-sm line-clamp-2 mb-3">{post.content}</p>
@@ -345,8 +532,8 @@ const CalendarPage = () => {
                   <div className="flex-1 min-w-0">
                     <p className="text-sm truncate">{post.content}</p>
                     <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-                      <span>{post.scheduled_time ? format(new Date(post.scheduled_time), "MMM d, yyyy") : "No date"}</span>
-                      <span>{post.scheduled_time ? format(new Date(post.scheduled_time), "h:mm a") : ""}</span>
+                      <span>{post.scheduled_time ? formatPostDate(post.scheduled_time) : "No date"}</span>
+                      <span>{post.scheduled_time ? formatPostTime(post.scheduled_time) : ""}</span>
                       <span className="inline-flex items-center gap-1 text-primary">
                         <Bot className="w-3 h-3" />
                         {post.agent_name || "Manual"}
@@ -384,6 +571,15 @@ const CalendarPage = () => {
             </div>
           )}
         </motion.div>
+
+        <PostImportDialog
+          open={showImport}
+          onOpenChange={setShowImport}
+          timeZone={timeZone}
+          onPreview={previewImport}
+          onImport={handleImport}
+          isImporting={isImporting}
+        />
       </div>
     </DashboardLayout>
   );
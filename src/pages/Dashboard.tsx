@@ -4,6 +4,7 @@ import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { ExtensionStatus } from "@/components/ExtensionStatus";
 import { ExtensionTestPanel } from "@/components/extension/ExtensionTestPanel";
+import { QueueDiscrepanciesCard } from "@/components/extension/QueueDiscrepanciesCard";
 import { MissingProfileBanner } from "@/components/linkedin/MissingProfileBanner";
 import { useLinkedBotExtension } from "@/hooks/useLinkedBotExtension";
 import { useLinkedInAnalytics } from "@/hooks/useLinkedInAnalytics";
@@ -45,6 +46,9 @@ import { format, formatDistanceToNow } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { validateLinkedInPostUrl } from "@/lib/linkedinUrlUtils";
+import { transitionPostStatus } from "@/lib/postLifecycle";
+import { getExtensionClient } from "@/lib/extensionProtocol";
+import { PostStatusTimeline } from "@/components/posts/PostStatusTimeline";
 
 interface PostAnalytics {
   views?: number;
@@ -242,16 +246,15 @@ const DashboardPage = () => {
     return () => window.removeEventListener('focus', handleFocus);
   }, [fetchPosts]);
 
-  // Listen for extension events via window.postMessage
+  // Listen for extension events
   useEffect(() => {
-    const handleExtensionMessage = (event: MessageEvent) => {
-      // Only accept messages from our extension
-      if (event.data?.action !== 'extensionEvent') return;
+    const stopListening = getExtensionClient().onMessage((message) => {
+      if (message.type !== 'EXTENSION_EVENT') return;
       
-      console.log('📡 Extension event received:', event.data);
+      console.log('📡 Extension event received:', message);
       
-      if (event.data.event === 'analyticsUpdated') {
-        const { trackingId, analytics } = event.data.data || {};
+      if (message.event === 'analyticsUpdated') {
+        const { trackingId, analytics } = message.data || {};
         if (trackingId && analytics) {
           updatePostAnalytics(trackingId, analytics);
           toast.success('Analytics updated!', {
@@ -260,12 +263,12 @@ const DashboardPage = () => {
         }
       }
       
-      if (event.data.event === 'postPublished') {
-        console.log('✅ Post published via extension:', event.data.data);
+      if (message.event === 'postPublished') {
+        console.log('✅ Post published via extension:', message.data);
         fetchPosts(); // Refetch to get latest status
         toast.success('Post published successfully!');
       }
-    };
+    });
 
     // Also listen for custom DOM events from bridge
     const handlePostPublished = (event: Event) => {
@@ -283,12 +286,11 @@ const DashboardPage = () => {
       }
     };
 
-    window.addEventListener('message', handleExtensionMessage);
     window.addEventListener('linkedbot:post-published', handlePostPublished);
     window.addEventListener('linkedbot:analytics-updated', handleAnalyticsUpdated);
 
     return () => {
-      window.removeEventListener('message', handleExtensionMessage);
+      stopListening();
       window.removeEventListener('linkedbot:post-published', handlePostPublished);
       window.removeEventListener('linkedbot:analytics-updated', handleAnalyticsUpdated);
     };
@@ -371,6 +373,9 @@ const DashboardPage = () => {
             <MissingProfileBanner onProfileSaved={fetchProfile} />
           </motion.div>
         )}
+
+        {/* Extension queue out of step with the schedule */}
+        <QueueDiscrepanciesCard />
         
         {/* Header */}
         <motion.div
@@ -587,15 +592,16 @@ const DashboardPage = () => {
                               className="h-8 text-xs gap-1 text-success border-success/30 hover:bg-success/10"
                               onClick={async () => {
                                 try {
-                                  const { error } = await supabase
-                                    .from('posts')
-                                    .update({ 
-                                      status: 'posted', 
+                                  await transitionPostStatus(supabase, {
+                                    postId: post.id,
+                                    to: 'posted',
+                                    source: 'user',
+                                    reason: 'Marked as posted by user',
+                                    updates: {
                                       posted_at: new Date().toISOString(),
-                                      verified: true 
-                                    })
-                                    .eq('id', post.id);
-                                  if (error) throw error;
+                                      verified: true,
+                                    },
+                                  });
                                   toast.success('Post marked as posted!');
                                   fetchPosts();
                                 } catch (err) {
@@ -758,6 +764,9 @@ const DashboardPage = () => {
                 </div>
               )}
 
+              {/* Status history */}
+              <PostStatusTimeline postId={selectedPost.id} className="pt-4 border-t" />
+
               {/* LinkedIn-style action buttons (non-functional, just for preview) */}
               <div className="flex items-center gap-2 pt-4 border-t">
                 <Button variant="ghost" size="sm" className="flex-1 gap-2" disabled>
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Bot, ArrowLeft, Loader2, Mail, Lock, User } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 import { lovable } from "@/integrations/lovable/index";
 import { useToast } from "@/hooks/use-toast";
 
@@ -185,25 +186,25 @@ const Login = () => {
     // ✅ NEW v3.1.1: Send SET_AUTH with both userId and accessToken
     if (accessToken) {
       console.log('📤 Sending auth to extension');
-      window.postMessage({
+      getExtensionClient().send({
         type: 'SET_AUTH',
         userId: userId,
         accessToken: accessToken
-      }, '*');
+      });
     }
     
     // Send INITIALIZE_USER message for improved extension auth
-    window.postMessage({
+    getExtensionClient().send({
       type: 'INITIALIZE_USER',
       userId: userId,
       email: email || null
-    }, '*');
+    });
     
     // Also send legacy SET_CURRENT_USER for backwards compatibility
-    window.postMessage({
+    getExtensionClient().send({
       type: 'SET_CURRENT_USER',
       userId: userId
-    }, '*');
+    });
     
     console.log('✅ Auth sent to extension');
   };
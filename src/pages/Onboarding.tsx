@@ -5,6 +5,7 @@ import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useUserProfile } from "@/hooks/useUserProfile";
 import { supabase } from "@/integrations/supabase/client";
+import { detectBrowserTimeZone } from "@/lib/timezoneUtils";
 import { OnboardingStep1 } from "@/components/onboarding/OnboardingStep1";
 import { OnboardingStep2Company } from "@/components/onboarding/OnboardingStep2Company";
 import { OnboardingStep2Personal } from "@/components/onboarding/OnboardingStep2Personal";
@@ -76,6 +77,7 @@ const Onboarding = () => {
         phone_number: phoneNumber,
         city,
         country,
+        timezone: detectBrowserTimeZone(),
         ...(accountType === "company"
           ? {
               name: companyName,
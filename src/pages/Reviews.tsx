@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ClipboardCheck, Inbox, Loader2 } from "lucide-react";
+import { usePageTitle } from "@/hooks/usePageTitle";
+import { usePostReviews, type ReviewPost } from "@/hooks/usePostReviews";
+import { PostReviewDialog } from "@/components/reviews/PostReviewDialog";
+import { STATUS_COLORS, STATUS_LABELS } from "@/lib/postLifecycle";
+
+const ReviewList = ({
+  posts,
+  emptyText,
+  onOpen,
+}: {
+  posts: ReviewPost[];
+  emptyText: string;
+  onOpen: (post: ReviewPost) => void;
+}) => {
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <Inbox className="w-10 h-10 mx-auto mb-3 opacity-40" />
+        <p className="text-sm">{emptyText}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {posts.map((post) => {
+        const colors = STATUS_COLORS[post.status];
+        const since = post.reviewed_at || post.review_requested_at || post.updated_at;
+        return (
+          <button
+            key={post.id}
+            onClick={() => onOpen(post)}
+            className="w-full text-left bg-card border border-border rounded-xl p-4 hover:border-primary/50 transition-colors"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <Badge variant="outline" className={`${colors.bg} ${colors.text} ${colors.border}`}>
+                {STATUS_LABELS[post.status]}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(since), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="text-sm line-clamp-3 whitespace-pre-wrap">{post.content}</p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const ReviewsPage = () => {
+  usePageTitle("Reviews");
+  const {
+    reviewQueue,
+    submissions,
+    userId,
+    isLoading,
+    submitForReview,
+    decide,
+    updateDraft,
+    reopenPost,
+    queueApprovedPost,
+  } = usePostReviews();
+  const [openPostId, setOpenPostId] = useState<string | null>(null);
+
+  const openPost = [...reviewQueue, ...submissions].find(p => p.id === openPostId) ?? null;
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="w-7 h-7 text-primary" />
+            Reviews
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Drafts go to a reviewer before they are queued. Only approved posts reach the extension.
+          </p>
+        </motion.div>
+
+        <Tabs defaultValue={reviewQueue.length > 0 ? "queue" : "mine"}>
+          <TabsList>
+            <TabsTrigger value="queue">
+              Waiting for me{reviewQueue.length > 0 ? ` (${reviewQueue.length})` : ""}
+            </TabsTrigger>
+            <TabsTrigger value="mine">My posts</TabsTrigger>
+          </TabsList>
+          <TabsContent value="queue" className="mt-4">
+            <ReviewList posts={reviewQueue} emptyText="Nothing to review right now." onOpen={p => setOpenPostId(p.id)} />
+          </TabsContent>
+          <TabsContent value="mine" className="mt-4">
+            <ReviewList
+              posts={submissions}
+              emptyText='No drafts in review. Use "Send for review" on a draft in agent chat.'
+              onOpen={p => setOpenPostId(p.id)}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PostReviewDialog
+        post={openPost}
+        userId={userId}
+        onClose={() => setOpenPostId(null)}
+        onDecide={decide}
+        onUpdateDraft={updateDraft}
+        onSubmit={submitForReview}
+        onReopen={reopenPost}
+        onQueue={queueApprovedPost}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default ReviewsPage;
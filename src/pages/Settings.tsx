@@ -42,6 +42,7 @@ import {
 import { format } from "date-fns";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useLinkedBotExtension } from "@/hooks/useLinkedBotExtension";
+import { COMMON_TIMEZONES, DEFAULT_TIMEZONE, detectBrowserTimeZone } from "@/lib/timezoneUtils";
 
 const SettingsPage = () => {
   usePageTitle("Settings");
@@ -65,8 +66,17 @@ const SettingsPage = () => {
   const [background, setBackground] = useState(profile?.background || "");
   const [preferredTone, setPreferredTone] = useState(profile?.preferred_tone || "");
   const [postFrequency, setPostFrequency] = useState(profile?.post_frequency || "");
+  const [timezone, setTimezone] = useState(profile?.timezone || DEFAULT_TIMEZONE);
   const [linkedinUrl, setLinkedinUrl] = useState(profile?.linkedin_profile_url || "");
 
+  // Offer the saved and browser timezones even when they aren't in the common list
+  const timezoneOptions = [...COMMON_TIMEZONES];
+  for (const tz of [timezone, detectBrowserTimeZone()]) {
+    if (!timezoneOptions.some((option) => option.value === tz)) {
+      timezoneOptions.push({ value: tz, label: tz });
+    }
+  }
+
   // LinkedIn URL edit logic: can only be edited once after initial entry
   const editCount = profile?.linkedin_profile_edit_count || 0;
   const isConfirmed = profile?.linkedin_profile_confirmed || false;
@@ -89,6 +99,7 @@ const SettingsPage = () => {
       setBackground(profile.background || "");
       setPreferredTone(profile.preferred_tone || "");
       setPostFrequency(profile.post_frequency || "");
+      setTimezone(profile.timezone || DEFAULT_TIMEZONE);
       setLinkedinUrl(profile.linkedin_profile_url || "");
     }
   }, [profile]);
@@ -165,6 +176,7 @@ const SettingsPage = () => {
         background,
         preferred_tone: preferredTone,
         post_frequency: postFrequency,
+        timezone,
       };
 
       // Handle LinkedIn URL save with one-time edit logic
@@ -453,6 +465,22 @@ const SettingsPage = () => {
                       </SelectContent>
                     </Select>
                   </div>
+                  <div>
+                    <Label>Timezone</Label>
+                    <Select value={timezone} onValueChange={setTimezone}>
+                      <SelectTrigger className="mt-1.5">
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timezoneOptions.map((tz) => (
+                          <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Schedules and post times are shown in this timezone
+                    </p>
+                  </div>
                 </div>
               </div>
 
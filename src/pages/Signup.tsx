@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Bot, ArrowLeft, Loader2, Mail, Lock, User, ShieldCheck, ArrowRight } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { getExtensionClient } from "@/lib/extensionProtocol";
 import { lovable } from "@/integrations/lovable/index";
 import { useToast } from "@/hooks/use-toast";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
@@ -178,10 +179,10 @@ const Signup = () => {
     }
     if (accessToken) {
       console.log('📤 Sending auth to extension');
-      window.postMessage({ type: 'SET_AUTH', userId, accessToken }, '*');
+      getExtensionClient().send({ type: 'SET_AUTH', userId, accessToken });
     }
-    window.postMessage({ type: 'INITIALIZE_USER', userId, email: email || null }, '*');
-    window.postMessage({ type: 'SET_CURRENT_USER', userId }, '*');
+    getExtensionClient().send({ type: 'INITIALIZE_USER', userId, email: email || null });
+    getExtensionClient().send({ type: 'SET_CURRENT_USER', userId });
     console.log('✅ Auth sent to extension');
   };
 
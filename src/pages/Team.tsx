@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, UserPlus, Trash2, LogOut, Loader2 } from "lucide-react";
+import { usePageTitle } from "@/hooks/usePageTitle";
+import { useWorkspaces, useWorkspaceMembers } from "@/hooks/useWorkspaces";
+import {
+  canManageWorkspace,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  WORKSPACE_ROLES,
+  type WorkspaceRole,
+} from "@/lib/workspaces";
+
+const TeamPage = () => {
+  usePageTitle("Team");
+  const {
+    activeWorkspace,
+    role,
+    userId,
+    isLoading,
+    renameWorkspace,
+    deleteWorkspace,
+    leaveWorkspace,
+  } = useWorkspaces();
+  const { members, isLoading: membersLoading, addMember, updateRole, removeMember } =
+    useWorkspaceMembers(activeWorkspace?.id ?? null);
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [newRole, setNewRole] = useState<WorkspaceRole>("editor");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const isOwner = canManageWorkspace(role);
+
+  useEffect(() => {
+    setName(activeWorkspace?.name ?? "");
+  }, [activeWorkspace?.id, activeWorkspace?.name]);
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    setIsAdding(true);
+    if (await addMember(email, newRole)) setEmail("");
+    setIsAdding(false);
+  };
+
+  const handleDelete = () => {
+    if (!activeWorkspace) return;
+    if (!confirm(`Delete "${activeWorkspace.name}" with all of its agents and posts? This cannot be undone.`)) return;
+    deleteWorkspace(activeWorkspace.id);
+  };
+
+  const handleLeave = () => {
+    if (!activeWorkspace) return;
+    if (!confirm(`Leave "${activeWorkspace.name}"? You will lose access to its agents and calendar.`)) return;
+    leaveWorkspace(activeWorkspace.id);
+  };
+
+  if (isLoading || !activeWorkspace) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8 max-w-3xl">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Users className="w-7 h-7 text-primary" />
+            Team
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Everyone in a workspace shares its agents, reference materials, calendar and plan.
+          </p>
+        </motion.div>
+
+        {/* Workspace */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {activeWorkspace.name}
+              {activeWorkspace.is_personal && <Badge variant="secondary">Personal</Badge>}
+            </CardTitle>
+            <CardDescription>
+              You are {ROLE_LABELS[activeWorkspace.role].toLowerCase()} of this workspace ·{" "}
+              {activeWorkspace.subscription_plan.charAt(0).toUpperCase() + activeWorkspace.subscription_plan.slice(1)} plan
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isOwner && (
+              <div className="flex gap-2">
+                <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Workspace name" />
+                <Button
+                  variant="outline"
+                  disabled={!name.trim() || name.trim() === activeWorkspace.name}
+                  onClick={() => renameWorkspace(activeWorkspace.id, name)}
+                >
+                  Rename
+                </Button>
+              </div>
+            )}
+            {isOwner && !activeWorkspace.is_personal && (
+              <Button variant="outline" className="text-destructive" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete workspace
+              </Button>
+            )}
+            {!isOwner && (
+              <Button variant="outline" onClick={handleLeave}>
+                <LogOut className="w-4 h-4 mr-1" />
+                Leave workspace
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>
+              {isOwner ? "Add people by the email they use for LinkedBot." : "Only owners can change members."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isOwner && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                  placeholder="teammate@company.com"
+                />
+                <Select value={newRole} onValueChange={(value) => setNewRole(value as WorkspaceRole)}>
+                  <SelectTrigger className="sm:w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKSPACE_ROLES.map((r) => (
+                      <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="gradient" onClick={handleAdd} disabled={isAdding || !email.trim()}>
+                  {isAdding ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <UserPlus className="w-4 h-4 mr-1" />}
+                  Add
+                </Button>
+              </div>
+            )}
+
+            {membersLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="divide-y divide-border">
+                {members.map((member) => (
+                  <div key={member.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {member.name || member.email || "Unknown user"}
+                        {member.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      {member.email && member.name && (
+                        <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                      )}
+                    </div>
+                    {isOwner ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateRole(member.id, value as WorkspaceRole)}
+                      >
+                        <SelectTrigger className="w-32 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WORKSPACE_ROLES.map((r) => (
+                            <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                    {isOwner && member.user_id !== userId && (
+                      <Button variant="ghost" size="icon" onClick={() => removeMember(member.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="rounded-lg bg-muted/50 p-3 space-y-1">
+              {WORKSPACE_ROLES.map((r) => (
+                <p key={r} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{ROLE_LABELS[r]}</span> - {ROLE_DESCRIPTIONS[r]}
+                </p>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default TeamPage;
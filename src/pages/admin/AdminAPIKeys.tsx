@@ -27,6 +27,7 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { AIProviderSettings } from "@/components/admin/AIProviderSettings";
 
 interface APIKeyConfig {
   name: string;
@@ -46,6 +47,22 @@ const API_KEYS: APIKeyConfig[] = [
     icon: "🤗",
     category: "ai",
   },
+  {
+    name: "OpenAI",
+    envKey: "OPENAI_API_KEY",
+    description: "Optional chat & image provider (any OpenAI-compatible API). Configure it under AI Providers below.",
+    docsUrl: "https://platform.openai.com/api-keys",
+    icon: "🧠",
+    category: "ai",
+  },
+  {
+    name: "Anthropic",
+    envKey: "ANTHROPIC_API_KEY",
+    description: "Optional chat provider (Claude models). Configure it under AI Providers below.",
+    docsUrl: "https://console.anthropic.com/settings/keys",
+    icon: "✳️",
+    category: "ai",
+  },
   {
     name: "Tavily",
     envKey: "TAVILY_API_KEY",
@@ -261,6 +278,10 @@ const AdminAPIKeys = () => {
           ))
         )}
 
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }}>
+          <AIProviderSettings />
+        </motion.div>
+
         {/* Edit Key Dialog */}
         <Dialog open={!!editingKey} onOpenChange={(open) => !open && setEditingKey(null)}>
           <DialogContent>
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from "vitest";
+import { startAnalyticsCron, stopAnalyticsCron, triggerManualScrape } from "@/lib/analytics-cron";
+import { installMockExtension, type MockExtension } from "./mockExtension";
+
+const db = await vi.hoisted(async () => {
+  const { createSupabaseMock } = await import("./mockSupabase");
+  return createSupabaseMock();
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: db.client }));
+
+const URL_A = "https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000001/";
+const URL_B = "https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000002/";
+
+let extension: MockExtension;
+
+const analyticsUpdates = () => db.writes("posts").map(call => ({
+  url: call.filters.find(([name, column]) => name === "eq" && column === "linkedin_post_url")?.[2],
+  values: call.values,
+}));
+
+beforeAll(() => {
+  db.tables.posts = [
+    { id: "a", user_id: "user-1", status: "posted", linkedin_post_url: URL_A },
+    { id: "b", user_id: "user-1", status: "posted", linkedin_post_url: URL_B },
+  ];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.useFakeTimers();
+  startAnalyticsCron();
+});
+
+afterAll(() => {
+  stopAnalyticsCron();
+  vi.useRealTimers();
+});
+
+beforeEach(() => {
+  extension = installMockExtension({
+    latencyMs: 500,
+    analyticsFor: url => url === URL_A
+      ? { views: 900, likes: 40, comments: 5, reposts: 2 }
+      : { views: 300, likes: 12, comments: 1, reposts: 0 },
+  });
+  db.calls.length = 0;
+});
+
+afterEach(() => {
+  extension.uninstall();
+});
+
+describe("analytics cron with the mock extension", () => {
+  it("scrapes posted posts once the extension is ready and saves their metrics", async () => {
+    extension.readyForScraping();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(extension.received).toEqual([expect.objectContaining({ type: "SCRAPE_BULK_ANALYTICS", postUrls: [URL_A, URL_B] })]);
+    expect(analyticsUpdates()).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(analyticsUpdates()).toEqual([
+      { url: URL_A, values: expect.objectContaining({ views_count: 900, likes_count: 40, comments_count: 5, shares_count: 2 }) },
+      { url: URL_B, values: expect.objectContaining({ views_count: 300, likes_count: 12, comments_count: 1, shares_count: 0 }) },
+    ]);
+  });
+
+  it("leaves metrics alone when the scrape fails", async () => {
+    extension.failNext("SCRAPE_BULK_ANALYTICS", "LinkedIn rate limit");
+
+    expect(triggerManualScrape()).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(extension.received.map(m => m.type)).toEqual(["SCRAPE_BULK_ANALYTICS"]);
+    expect(analyticsUpdates()).toEqual([]);
+  });
+
+  it("stops scraping on schedule once the extension disconnects", async () => {
+    extension.disconnect();
+    await vi.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+
+    expect(extension.received).toEqual([]);
+    expect(triggerManualScrape()).toBe(false);
+  });
+});
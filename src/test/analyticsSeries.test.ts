@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  alignByAge,
+  postGrowth,
+  postVelocity,
+  viewsAtAge,
+  type AnalyticsPoint,
+} from "../../supabase/functions/_shared/analyticsSeries";
+
+const PUBLISHED = "2026-02-02T09:00:00.000Z";
+
+const at = (hours: number, views: number, likes = 0): AnalyticsPoint => ({
+  syncedAt: new Date(new Date(PUBLISHED).getTime() + hours * 3600_000).toISOString(),
+  views,
+  likes,
+  comments: 0,
+  shares: 0,
+});
+
+const POINTS = [at(2, 200, 10), at(12, 800, 30), at(48, 1400, 50)];
+
+describe("viewsAtAge", () => {
+  it("interpolates from zero at publish up to the first scrape", () => {
+    expect(viewsAtAge(POINTS, PUBLISHED, 1)).toBe(100);
+  });
+
+  it("interpolates between scrapes", () => {
+    expect(viewsAtAge(POINTS, PUBLISHED, 24)).toBe(1000);
+  });
+
+  it("is null past the latest scrape", () => {
+    expect(viewsAtAge(POINTS, PUBLISHED, 24 * 7)).toBeNull();
+  });
+
+  it("ignores scrapes from before publish", () => {
+    expect(viewsAtAge([at(-3, 50), at(4, 400)], PUBLISHED, 2)).toBe(200);
+  });
+});
+
+describe("postVelocity", () => {
+  it("reports average, latest and peak views per hour", () => {
+    expect(postVelocity(POINTS, PUBLISHED)).toEqual({
+      viewsPerHour: 1400 / 48,
+      recentViewsPerHour: 600 / 36,
+      peakViewsPerHour: 100,
+      engagementsPerHour: 50 / 48,
+    });
+  });
+
+  it("is empty without scrapes", () => {
+    expect(postVelocity([], PUBLISHED).viewsPerHour).toBeNull();
+  });
+});
+
+describe("postGrowth", () => {
+  it("fills the milestones a scrape has reached", () => {
+    const growth = postGrowth(POINTS, PUBLISHED);
+    expect(growth.milestones).toEqual({ "1h": 100, "24h": 1000, "7d": null });
+    expect(growth.observedHours).toBe(48);
+    expect(growth.points).toBe(3);
+  });
+
+  it("has no curve for unpublished posts", () => {
+    expect(postGrowth(POINTS, null).milestones["24h"]).toBeNull();
+  });
+});
+
+describe("alignByAge", () => {
+  it("overlays posts on hours since publish", () => {
+    const later = "2026-02-09T09:00:00.000Z";
+    const rows = alignByAge(
+      [
+        { id: "a", publishedAt: PUBLISHED, points: POINTS },
+        { id: "b", publishedAt: later, points: [{ ...at(0, 0), syncedAt: "2026-02-09T11:00:00.000Z", views: 50 }] },
+      ],
+      [0, 1, 24]
+    );
+    expect(rows).toEqual([
+      { hours: 0, a: 0, b: 0 },
+      { hours: 1, a: 100, b: 25 },
+      { hours: 24, a: 1000, b: null },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  MIN_LEARNED_SAMPLES,
+  buildBestTimeHeatmap,
+  describeSlot,
+  nextBestSlots,
+  sampleScore,
+  type BestTimeSample,
+} from "../../supabase/functions/_shared/bestTimes";
+import { getZonedDateKey, getZonedParts } from "../../supabase/functions/_shared/timezone";
+
+const TZ = "Asia/Kolkata";
+
+// Saturdays at 8pm IST (14:30 UTC) in January-February 2026
+const saturdayEvening = (week: number, views: number, followers: number | null = 1000): BestTimeSample => ({
+  postedAt: new Date(Date.UTC(2026, 0, 3 + week * 7, 14, 30)).toISOString(),
+  views,
+  likes: views / 50,
+  comments: views / 200,
+  shares: 0,
+  followers,
+});
+
+// Tuesdays at 10am IST (04:30 UTC)
+const tuesdayMorning = (week: number, views: number, followers: number | null = 1000): BestTimeSample => ({
+  ...saturdayEvening(week, views, followers),
+  postedAt: new Date(Date.UTC(2026, 0, 6 + week * 7, 4, 30)).toISOString(),
+});
+
+describe("buildBestTimeHeatmap", () => {
+  it("falls back to working-day peaks without data", () => {
+    const heatmap = buildBestTimeHeatmap([], TZ);
+    expect(heatmap.learned).toBe(false);
+    const best = heatmap.ranked[0];
+    expect(best.weekday).toBeGreaterThanOrEqual(2);
+    expect(best.weekday).toBeLessThanOrEqual(4);
+    expect([8, 10, 12, 17, 19]).toContain(best.hour);
+  });
+
+  it("learns the slots where the user's posts do best", () => {
+    const samples = [
+      ...Array.from({ length: 6 }, (_, week) => saturdayEvening(week, 5000)),
+      ...Array.from({ length: 6 }, (_, week) => tuesdayMorning(week, 500)),
+    ];
+    const heatmap = buildBestTimeHeatmap(samples, TZ);
+
+    expect(samples.length).toBeGreaterThanOrEqual(MIN_LEARNED_SAMPLES);
+    expect(heatmap.learned).toBe(true);
+    expect(describeSlot(heatmap.ranked[0])).toBe("Sat 8:00 PM");
+    expect(heatmap.cells[6][20].posts).toBe(6);
+    expect(heatmap.cells[2][10].score).toBeLessThan(heatmap.cells[6][20].score);
+  });
+
+  it("normalises for the follower count at the time", () => {
+    // Same views, but the Saturday posts went out to ten times the followers
+    const samples = [
+      ...Array.from({ length: 5 }, (_, week) => saturdayEvening(week, 2000, 10000)),
+      ...Array.from({ length: 5 }, (_, week) => tuesdayMorning(week, 2000, 1000)),
+    ];
+    const heatmap = buildBestTimeHeatmap(samples, TZ);
+    expect(heatmap.cells[2][10].score).toBeGreaterThan(heatmap.cells[6][20].score);
+    expect(sampleScore(samples[5])).toBeCloseTo(sampleScore(samples[0]) * 10);
+  });
+});
+
+describe("nextBestSlots", () => {
+  const heatmap = buildBestTimeHeatmap([], TZ);
+  const from = new Date("2026-03-02T03:00:00.000Z"); // Monday 8:30am IST
+
+  it("plans one post per day, in date order", () => {
+    const slots = nextBestSlots(heatmap, 3, { from });
+    const days = slots.map((slot) => getZonedDateKey(new Date(slot), TZ));
+
+    expect(slots).toHaveLength(3);
+    expect(new Set(days).size).toBe(3);
+    expect([...slots].sort()).toEqual(slots);
+    expect(slots.every((slot) => new Date(slot) >= from)).toBe(true);
+    // Mid-week days beat the weekend
+    expect(slots.map((slot) => getZonedParts(new Date(slot), TZ).weekday)).toEqual([2, 3, 4]);
+  });
+
+  it("skips days that already have a post queued", () => {
+    const queued = "2026-03-03T06:30:00.000Z"; // Tuesday noon IST
+    const slots = nextBestSlots(heatmap, 3, { from, taken: [queued] });
+    expect(slots.map((slot) => getZonedDateKey(new Date(slot), TZ))).not.toContain("2026-03-03");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  CHAT_TOOLS,
+  MAX_QUEUE_LIMIT,
+  isBestTimeRequest,
+  isImmediateRequest,
+  partialStringArgument,
+  validateToolCall,
+} from "../../supabase/functions/_shared/chatTools";
+
+const POST = "Shipping beats polishing.\n\nI learned that the hard way last quarter.";
+
+describe("validateToolCall", () => {
+  it("declares the tools it validates", () => {
+    expect(CHAT_TOOLS.map(t => t.function.name)).toEqual(["draft_post", "draft_variants", "schedule_post", "generate_image", "list_queue", "reschedule_post", "research_topic"]);
+  });
+
+  it("accepts a draft and trims its fields", () => {
+    expect(validateToolCall("draft_post", JSON.stringify({ content: `  ${POST}  `, topic: " shipping " }))).toEqual({
+      ok: true,
+      call: { name: "draft_post", args: { content: POST, topic: "shipping", replaces_post_id: undefined } },
+    });
+  });
+
+  it("rejects drafts that are too short or mistyped", () => {
+    expect(validateToolCall("draft_post", { content: "Too short" }).ok).toBe(false);
+    expect(validateToolCall("draft_post", { content: POST, topic: 42 }).ok).toBe(false);
+    expect(validateToolCall("draft_post", { content: "x".repeat(3001) }).ok).toBe(false);
+    expect(validateToolCall("draft_post", { content: POST, sources: "S1" }).ok).toBe(false);
+    expect(validateToolCall("draft_post", { content: POST, sources: ["S1", 2] }).ok).toBe(false);
+  });
+
+  it("keeps the research sources a draft cites", () => {
+    const result = validateToolCall("draft_post", { content: POST, sources: ["S1", "S3"] });
+    expect(result.ok && result.call.name === "draft_post" && result.call.args.sources).toEqual(["S1", "S3"]);
+  });
+
+  it("accepts 2-4 variants along one dimension", () => {
+    const variants = [
+      { style: "Question", content: `Ever shipped too late?\n\n${POST}` },
+      { style: "story", content: `Last quarter we sat on a finished feature.\n\n${POST}` },
+    ];
+    expect(validateToolCall("draft_variants", { dimension: "hook", variants, topic: "shipping" })).toEqual({
+      ok: true,
+      call: {
+        name: "draft_variants",
+        args: {
+          dimension: "hook",
+          variants: [{ ...variants[0], style: "question" }, variants[1]],
+          topic: "shipping",
+          replaces_post_id: undefined,
+          sources: undefined,
+        },
+      },
+    });
+  });
+
+  it("rejects variant sets that can't be compared", () => {
+    const variant = (style: string) => ({ style, content: POST });
+    expect(validateToolCall("draft_variants", { dimension: "hook", variants: [variant("question")] }).ok).toBe(false);
+    expect(validateToolCall("draft_variants", { dimension: "colour", variants: [variant("red"), variant("blue")] }).ok).toBe(false);
+    expect(validateToolCall("draft_variants", { dimension: "length", variants: [variant("short"), variant("playful")] }).ok).toBe(false);
+    expect(validateToolCall("draft_variants", { dimension: "tone", variants: [variant("bold"), variant("bold")] }).ok).toBe(false);
+    expect(validateToolCall("draft_variants", { dimension: "tone", variants: [variant("bold"), { style: "casual", content: "Too short" }] }).ok).toBe(false);
+  });
+
+  it("requires a time to schedule", () => {
+    expect(validateToolCall("schedule_post", { when: "Thursday" })).toEqual({
+      ok: true,
+      call: { name: "schedule_post", args: { when: "Thursday", post_id: undefined } },
+    });
+    expect(validateToolCall("schedule_post", { when: "  " }).ok).toBe(false);
+    expect(validateToolCall("reschedule_post", { when: "Friday" }).ok).toBe(false);
+  });
+
+  it("defaults and caps the queue limit", () => {
+    expect(validateToolCall("list_queue", "")).toEqual({ ok: true, call: { name: "list_queue", args: { limit: 10 } } });
+    expect(validateToolCall("list_queue", { limit: 500 })).toEqual({
+      ok: true,
+      call: { name: "list_queue", args: { limit: MAX_QUEUE_LIMIT } },
+    });
+    expect(validateToolCall("list_queue", { limit: "5" }).ok).toBe(false);
+  });
+
+  it("rejects malformed JSON and unknown tools", () => {
+    expect(validateToolCall("draft_post", "{content:")).toEqual({ ok: false, error: "Arguments are not valid JSON" });
+    expect(validateToolCall("draft_post", "[]").ok).toBe(false);
+    expect(validateToolCall("post_now", "{}")).toEqual({ ok: false, error: "Unknown tool: post_now" });
+  });
+});
+
+describe("isImmediateRequest", () => {
+  it("recognises publish-now wording only", () => {
+    expect(isImmediateRequest("now")).toBe(true);
+    expect(isImmediateRequest(" Right Now ")).toBe(true);
+    expect(isImmediateRequest("now-ish tomorrow")).toBe(false);
+    expect(isImmediateRequest("Thursday 9am")).toBe(false);
+  });
+});
+
+describe("isBestTimeRequest", () => {
+  it("recognises requests for the learned best slot", () => {
+    expect(isBestTimeRequest("best time")).toBe(true);
+    expect(isBestTimeRequest("at the optimal posting time")).toBe(true);
+    expect(isBestTimeRequest("whenever is best")).toBe(true);
+    expect(isBestTimeRequest("best time tomorrow")).toBe(false);
+  });
+});
+
+describe("partialStringArgument", () => {
+  it("reads a string argument while its JSON is still streaming", () => {
+    expect(partialStringArgument('{"topic":"ship', "content")).toBeNull();
+    expect(partialStringArgument('{"content":"Shipping beats', "content")).toBe("Shipping beats");
+    expect(partialStringArgument('{"content":"Line one\\n\\"Two\\" caf\\u00e9', "content")).toBe('Line one\n"Two" café');
+    expect(partialStringArgument('{"content":"Done", "topic":"x"}', "content")).toBe("Done");
+  });
+
+  it("drops an escape cut off mid-way", () => {
+    expect(partialStringArgument('{"content":"Half \\', "content")).toBe("Half ");
+    expect(partialStringArgument('{"content":"Half \\u00', "content")).toBe("Half ");
+  });
+});
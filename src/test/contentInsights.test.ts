@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildContentInsights,
+  classifyHook,
+  extractFeatures,
+  type InsightPost,
+} from "../../supabase/functions/_shared/contentInsights";
+
+const TZ = "Asia/Kolkata";
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(" ");
+
+const post = (overrides: Partial<InsightPost>): InsightPost => ({
+  content: `Shipping beats polishing.\n\n${words(80)}`,
+  views: 1000,
+  likes: 20,
+  comments: 5,
+  shares: 0,
+  hasImage: false,
+  agentType: "professional",
+  postedAt: "2026-02-03T04:30:00.000Z",
+  ...overrides,
+});
+
+describe("classifyHook", () => {
+  it("reads the opening line", () => {
+    expect(classifyHook("What would you cut first?\n\nMore text")).toBe("question");
+    expect(classifyHook("5 lessons from a failed launch")).toBe("number");
+    expect(classifyHook("🚀 Last week I shipped the wrong thing.")).toBe("story");
+    expect(classifyHook("\"Ship it,\" my manager said.")).toBe("quote");
+    expect(classifyHook("Most roadmaps are fiction.")).toBe("statement");
+  });
+});
+
+describe("extractFeatures", () => {
+  it("measures length, emojis, hashtags and local hour", () => {
+    const features = extractFeatures(
+      post({ content: "Big news 🎉🎉\n\nWe launched. #startups #saas" }),
+      TZ
+    );
+    expect(features.wordCount).toBe(7);
+    expect(features.hashtagCount).toBe(2);
+    expect(features.emojiDensity).toBeCloseTo((2 / 7) * 100);
+    expect(features.hour).toBe(10);
+  });
+});
+
+describe("buildContentInsights", () => {
+  it("needs enough posts with views", () => {
+    const insights = buildContentInsights([post({}), post({ views: 0 })], TZ);
+    expect(insights.sampleSize).toBe(1);
+    expect(insights.findings).toEqual([]);
+  });
+
+  it("finds that short posts with an image do better", () => {
+    const posts = [
+      ...Array.from({ length: 4 }, () => post({ hasImage: true, likes: 80, comments: 20 })),
+      ...Array.from({ length: 4 }, () => post({ hasImage: false })),
+      ...Array.from({ length: 4 }, () => post({ hasImage: true, content: `Shipping beats polishing.\n\n${words(300)}` })),
+    ];
+    const insights = buildContentInsights(posts, TZ);
+    const texts = insights.findings.map((f) => f.text);
+
+    expect(texts).toContain("Posts under 120 words with an image get 4.0× the engagement");
+    expect(insights.findings[0].ratio).toBeGreaterThan(1);
+  });
+
+  it("reports what performs worse too", () => {
+    const posts = [
+      ...Array.from({ length: 4 }, () => post({ content: "What would you cut first?\n\n" + words(80), likes: 2, comments: 0 })),
+      ...Array.from({ length: 4 }, () => post({})),
+    ];
+    const texts = buildContentInsights(posts, TZ).findings.map((f) => f.text);
+    expect(texts).toContain("Posts that open with a question get 92% less engagement");
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  backoffDelay,
+  checkProtocolCompatibility,
+  createExtensionClient,
+  parseExtensionMessage,
+  EXTENSION_PROTOCOL_VERSION,
+  type ExtensionTransport,
+} from "@/lib/extensionProtocol";
+
+function fakeTransport() {
+  const sent: Record<string, unknown>[] = [];
+  let handler: ((data: unknown) => void) | null = null;
+  const transport: ExtensionTransport = {
+    send: (message) => sent.push(message as Record<string, unknown>),
+    subscribe: (h) => {
+      handler = h;
+      return () => { handler = null; };
+    },
+  };
+  return { transport, sent, emit: (data: unknown) => handler?.(data) };
+}
+
+const POST = { id: "p1", content: "Hello", imageUrl: null };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseExtensionMessage", () => {
+  it("accepts well-formed inbound messages", () => {
+    const message = { type: "POST_RESULT", success: true, postId: "p1", requestId: "r1" };
+    expect(parseExtensionMessage(message)).toEqual(message);
+  });
+
+  it("rejects unknown types, the page's own requests and malformed payloads", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseExtensionMessage({ type: "SOMETHING_ELSE" })).toBeNull();
+    expect(parseExtensionMessage({ type: "SCHEDULE_POSTS", posts: [] })).toBeNull();
+    expect(parseExtensionMessage({ type: "SCHEDULE_RESULT", success: "yes" })).toBeNull();
+    expect(parseExtensionMessage({ type: "EXTENSION_EVENT", event: "hacked", data: {} })).toBeNull();
+    expect(parseExtensionMessage("POST_RESULT")).toBeNull();
+    expect(parseExtensionMessage({ type: "EXTENSION_STATUS", connected: "true" })).toBeNull();
+  });
+
+  it("reads events in the older { action: 'extensionEvent' } shape", () => {
+    const data = { trackingId: "t1", analytics: { views: 10, likes: 1, comments: 0, shares: 0 } };
+    expect(parseExtensionMessage({ action: "extensionEvent", event: "analyticsUpdated", data }))
+      .toEqual({ type: "EXTENSION_EVENT", event: "analyticsUpdated", data });
+    expect(parseExtensionMessage({ action: "extensionEvent", event: "hacked", data })).toBeNull();
+  });
+});
+
+describe("checkProtocolCompatibility", () => {
+  it("treats an extension without a version as v1, which is still supported", () => {
+    expect(checkProtocolCompatibility({})).toEqual({ compatible: true, protocolVersion: 1 });
+  });
+
+  it("flags an extension that needs a newer web app", () => {
+    const result = checkProtocolCompatibility({ protocolVersion: 4, minProtocolVersion: EXTENSION_PROTOCOL_VERSION + 1 });
+    expect(result).toMatchObject({ compatible: false, problem: "app_outdated" });
+  });
+});
+
+describe("createExtensionClient", () => {
+  it("routes concurrent results by request id", async () => {
+    const { transport, sent, emit } = fakeTransport();
+    const client = createExtensionClient(transport);
+
+    const first = client.request({ type: "SCHEDULE_POSTS", posts: [] });
+    const second = client.request({ type: "SCHEDULE_POSTS", posts: [] });
+    const [firstId, secondId] = sent.map(m => m.requestId);
+    expect(firstId).not.toEqual(secondId);
+    expect(sent[0].protocolVersion).toBe(EXTENSION_PROTOCOL_VERSION);
+
+    emit({ type: "SCHEDULE_RESULT", success: true, queueLength: 2, requestId: secondId });
+    emit({ type: "SCHEDULE_RESULT", success: false, error: "full", requestId: firstId });
+
+    expect(await first).toMatchObject({ ok: true, response: { success: false, error: "full" } });
+    expect(await second).toMatchObject({ ok: true, response: { success: true, queueLength: 2 } });
+    expect(client.pendingCount()).toBe(0);
+  });
+
+  it("hands results without a request id to the oldest matching request", async () => {
+    const { transport, emit } = fakeTransport();
+    const client = createExtensionClient(transport);
+
+    const other = client.request({ type: "POST_NOW", post: { ...POST, id: "p0" } }, { matchLegacy: r => r.postId === "p0" });
+    const mine = client.request({ type: "POST_NOW", post: POST }, { matchLegacy: r => r.postId === "p1" });
+
+    emit({ type: "POST_RESULT", success: true, postId: "p1" });
+    expect(await mine).toMatchObject({ ok: true, response: { postId: "p1" } });
+    expect(client.pendingCount()).toBe(1);
+
+    emit({ type: "POST_RESULT", success: true, postId: "p0" });
+    expect(await other).toMatchObject({ ok: true });
+  });
+
+  it("retries with backoff under the same request id, then times out", async () => {
+    vi.useFakeTimers();
+    const { transport, sent } = fakeTransport();
+    const client = createExtensionClient(transport);
+
+    const result = client.request(
+      { type: "SCHEDULE_POSTS", posts: [] },
+      { timeoutMs: 1000, retries: 2, backoffMs: 100, idempotent: true }
+    );
+
+    await vi.advanceTimersByTimeAsync(1000 + backoffDelay(1, 100));
+    expect(sent).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1000 + backoffDelay(2, 100));
+    expect(sent).toHaveLength(3);
+    expect(new Set(sent.map(m => m.requestId)).size).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await result).toEqual({ ok: false, error: "timeout", attempts: 3 });
+  });
+
+  it("only retries non-idempotent requests once the extension speaks v2", async () => {
+    vi.useFakeTimers();
+    const { transport, sent, emit } = fakeTransport();
+    const client = createExtensionClient(transport);
+
+    const legacy = client.request({ type: "POST_NOW", post: POST }, { timeoutMs: 1000, retries: 1 });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await legacy).toMatchObject({ ok: false, attempts: 1 });
+
+    emit({ type: "EXTENSION_CONNECTED", version: "6.0.0", protocolVersion: 2 });
+    expect(sent.at(-1)).toMatchObject({ type: "PROTOCOL_HELLO", protocolVersion: EXTENSION_PROTOCOL_VERSION });
+
+    const current = client.request({ type: "POST_NOW", post: POST }, { timeoutMs: 1000, retries: 1, backoffMs: 100 });
+    await vi.advanceTimersByTimeAsync(1100);
+    const resent = sent.filter(m => m.type === "POST_NOW");
+    expect(resent).toHaveLength(3);
+    emit({ type: "POST_RESULT", success: true, postId: "p1", requestId: resent[2].requestId });
+    expect(await current).toMatchObject({ ok: true, attempts: 2 });
+  });
+
+  it("sends commands as they are and hands listeners only validated messages", () => {
+    const { transport, sent, emit } = fakeTransport();
+    const client = createExtensionClient(transport);
+    const received: unknown[] = [];
+    client.onMessage(message => received.push(message));
+
+    client.send({ type: "CANCEL_POST", postId: "p1" });
+    emit({ type: "EXTENSION_STATUS", connected: true, requiresRefresh: false });
+    emit({ type: "CANCEL_POST", postId: "p1" });
+
+    expect(sent).toEqual([{ type: "CANCEL_POST", postId: "p1" }]);
+    expect(received).toEqual([{ type: "EXTENSION_STATUS", connected: true, requiresRefresh: false }]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_HUMANIZER_RULES,
+  describeHumanizerRules,
+  humanizePost,
+  humanizeWithChanges,
+  humanizerRulesFromSettings,
+  type HumanizerRules,
+} from "../../supabase/functions/_shared/humanizer";
+
+const FORMAL: HumanizerRules = {
+  ...DEFAULT_HUMANIZER_RULES,
+  defaultReplacements: false,
+  contractions: "forbid",
+  removeGenericEndings: false,
+};
+
+describe("humanizePost", () => {
+  it("applies the casual rewrites by default", () => {
+    expect(humanizePost("In conclusion, we leverage data. It is simple.\n\nWhat do you think?"))
+      .toBe("Bottom line: we use data. It's simple.");
+    expect(humanizePost("As a founder, I am sure that Furthermore, it works.")).toBe("I'm sure that Plus, it works.");
+  });
+
+  it("keeps the case of the words it replaces", () => {
+    expect(humanizePost("Leverage it, then leverage it again.")).toBe("Use it, then use it again.");
+    expect(humanizePost("i would like to add that you are right")).toBe("I want to add that you're right");
+  });
+
+  it("leaves formal agents' wording alone and expands contractions", () => {
+    expect(humanizePost("In conclusion, we don't leverage what we can't measure. Thoughts?", FORMAL))
+      .toBe("In conclusion, we do not leverage what we cannot measure. Thoughts?");
+  });
+});
+
+describe("humanizeWithChanges", () => {
+  it("reports each rewrite with how often it happened", () => {
+    const { changes } = humanizeWithChanges("We do not guess. We do not wait. However, we leverage data.");
+    expect(changes).toEqual([
+      { kind: "replacement", from: "However,", to: "But", count: 1 },
+      { kind: "replacement", from: "leverage", to: "use", count: 1 },
+      { kind: "contraction", from: "do not", to: "don't", count: 2 },
+    ]);
+  });
+
+  it("runs the agent's replacements and cuts banned phrases", () => {
+    const result = humanizeWithChanges("Honestly, this is a game-changer for customers.", {
+      ...FORMAL,
+      bannedPhrases: ["honestly", "game-changer"],
+      replacements: [{ from: "customers", to: "clients" }],
+    });
+    expect(result.content).toBe("This is a for clients.");
+    expect(result.changes.map(c => c.kind)).toEqual(["replacement", "banned_phrase", "banned_phrase"]);
+  });
+
+  it("caps emojis and hashtags, keeping the first ones", () => {
+    const result = humanizeWithChanges("Shipped it 🚀🔥🎉\n\n#startups #product #growth", {
+      ...FORMAL,
+      maxEmojis: 1,
+      maxHashtags: 2,
+    });
+    expect(result.content).toBe("Shipped it 🚀\n\n#startups #product");
+    expect(result.changes).toEqual([
+      { kind: "emoji_limit", from: "🔥", to: "", count: 1 },
+      { kind: "emoji_limit", from: "🎉", to: "", count: 1 },
+      { kind: "hashtag_limit", from: "#growth", to: "", count: 1 },
+    ]);
+  });
+});
+
+describe("humanizerRulesFromSettings", () => {
+  it("falls back to the defaults", () => {
+    expect(humanizerRulesFromSettings(null)).toEqual(DEFAULT_HUMANIZER_RULES);
+    expect(humanizerRulesFromSettings({ llm: { provider: "openai" } })).toEqual(DEFAULT_HUMANIZER_RULES);
+  });
+
+  it("reads valid rules and drops malformed ones", () => {
+    const rules = humanizerRulesFromSettings({
+      humanizer: {
+        defaultReplacements: false,
+        contractions: "forbid",
+        bannedPhrases: [" synergy ", 3, "", "synergy"],
+        replacements: [{ from: "customers", to: "clients" }, { from: "", to: "x" }, "bad"],
+        maxEmojis: 0,
+        maxHashtags: -1,
+      },
+    });
+    expect(rules).toEqual({
+      ...DEFAULT_HUMANIZER_RULES,
+      defaultReplacements: false,
+      contractions: "forbid",
+      bannedPhrases: ["synergy"],
+      replacements: [{ from: "customers", to: "clients" }],
+      maxEmojis: 0,
+    });
+    expect(describeHumanizerRules(rules)).toEqual([
+      'Never use: "synergy"',
+      'Write "clients" instead of "customers"',
+      "No emojis",
+    ]);
+  });
+});
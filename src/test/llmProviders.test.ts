@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROVIDERS,
+  EMBEDDING_DIMENSIONS,
+  LLMProviderError,
+  chatCompletion,
+  embedTexts,
+  preferenceFromSettings,
+  providersFromRows,
+  resolveProviderChain,
+  toAnthropicMessages,
+  type AIProviderRow,
+  type LLMProviderConfig,
+} from "../../supabase/functions/_shared/llmProviders";
+
+const provider = (overrides: Partial<LLMProviderConfig>): LLMProviderConfig => ({
+  id: "p",
+  name: "Provider",
+  kind: "openai",
+  baseUrl: "https://example.test/v1",
+  apiKeyEnv: null,
+  chatModel: "model-a",
+  imageModel: null,
+  imageApi: null,
+  embeddingModel: null,
+  models: [],
+  priority: 10,
+  enabled: true,
+  ...overrides,
+});
+
+const PROVIDERS = [
+  provider({ id: "primary", priority: 0, apiKeyEnv: "PRIMARY_API_KEY" }),
+  provider({ id: "local", kind: "ollama", baseUrl: "http://localhost:11434/v1", chatModel: "llama3", priority: 5 }),
+  provider({ id: "claude", kind: "anthropic", baseUrl: "https://anthropic.test/v1", chatModel: "claude-x", priority: 10 }),
+];
+
+const env = (key: string) => (key === "PRIMARY_API_KEY" ? "secret" : undefined);
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("resolveProviderChain", () => {
+  it("orders by priority and puts the agent's choice first", () => {
+    expect(resolveProviderChain("chat", { providers: PROVIDERS, getEnv: env }).map(c => c.provider.id))
+      .toEqual(["primary", "local", "claude"]);
+    expect(resolveProviderChain("chat", { providers: PROVIDERS, getEnv: env, preference: { provider: "claude", model: "claude-y" } }))
+      .toMatchObject([{ provider: { id: "claude" }, model: "claude-y" }, { provider: { id: "primary" } }, { provider: { id: "local" } }]);
+  });
+
+  it("skips providers without a key or a model for the capability", () => {
+    expect(resolveProviderChain("chat", { providers: PROVIDERS, getEnv: () => undefined }).map(c => c.provider.id))
+      .toEqual(["local", "claude"]);
+    expect(resolveProviderChain("image", { providers: DEFAULT_PROVIDERS, getEnv: () => "key" }).map(c => c.provider.id))
+      .toEqual(["huggingface", "lovable"]);
+  });
+});
+
+describe("providersFromRows", () => {
+  const row = (id: string, api_key_env: string | null): AIProviderRow => ({
+    id,
+    name: id,
+    kind: "openai",
+    base_url: "https://example.test/v1/",
+    api_key_env,
+    chat_model: "model-a",
+    image_model: null,
+    image_api: null,
+    models: null,
+    priority: 0,
+    is_enabled: true,
+  });
+
+  it("drops rows whose key secret isn't an *_API_KEY outside SUPABASE_*", () => {
+    const providers = providersFromRows([
+      row("openai", "OPENAI_API_KEY"),
+      row("local", null),
+      row("service-role", "SUPABASE_SERVICE_ROLE_KEY"),
+      row("supabase-named", "SUPABASE_API_KEY"),
+      row("other", "RESEND_KEY"),
+    ]);
+
+    expect(providers.map(p => p.id)).toEqual(["openai", "local"]);
+    expect(providers[0].baseUrl).toBe("https://example.test/v1");
+  });
+
+  it("never reads a disallowed secret for a provider built elsewhere", () => {
+    const leaky = provider({ id: "leaky", apiKeyEnv: "SUPABASE_SERVICE_ROLE_KEY" });
+    expect(resolveProviderChain("chat", { providers: [leaky], getEnv: () => "service-role" })).toEqual([]);
+  });
+});
+
+describe("chatCompletion", () => {
+  it("falls back to the next provider on 429 and 402 only", async () => {
+    const calls: string[] = [];
+    const fetchImpl = (async (url: string) => {
+      calls.push(url);
+      if (url.startsWith("https://example.test")) return jsonResponse(429, { error: "slow down" });
+      if (url.startsWith("http://localhost")) return jsonResponse(402, { error: "no credits" });
+      return jsonResponse(200, { content: [{ type: "text", text: "Hello from Claude" }] });
+    }) as typeof fetch;
+
+    const result = await chatCompletion(
+      { messages: [{ role: "user", content: "hi" }] },
+      { providers: PROVIDERS, getEnv: env, fetchImpl }
+    );
+    expect(result).toMatchObject({ provider: "claude", model: "claude-x", message: { content: "Hello from Claude" } });
+    expect(calls).toEqual([
+      "https://example.test/v1/chat/completions",
+      "http://localhost:11434/v1/chat/completions",
+      "https://anthropic.test/v1/messages",
+    ]);
+  });
+
+  it("does not fall back on other errors", async () => {
+    const fetchImpl = (async () => jsonResponse(500, { error: "boom" })) as typeof fetch;
+    const error = await chatCompletion(
+      { messages: [{ role: "user", content: "hi" }] },
+      { providers: PROVIDERS, getEnv: env, fetchImpl }
+    ).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ provider: "primary", status: 500 });
+  });
+});
+
+describe("embedTexts", () => {
+  it("uses the first provider with an embedding model and keeps input order", async () => {
+    const providers = [
+      ...PROVIDERS,
+      provider({ id: "embedder", chatModel: null, embeddingModel: "text-embedding-3-small", priority: 20 }),
+    ];
+    const vector = (value: number) => Array.from({ length: EMBEDDING_DIMENSIONS }, () => value);
+    let body: { model: string; input: string[]; dimensions?: number } | null = null;
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      expect(url).toBe("https://example.test/v1/embeddings");
+      body = JSON.parse(init.body as string);
+      return jsonResponse(200, { data: [{ index: 1, embedding: vector(2) }, { index: 0, embedding: vector(1) }] });
+    }) as typeof fetch;
+
+    const result = await embedTexts(["first", "second"], { providers, getEnv: env, fetchImpl });
+    expect(body).toEqual({ model: "text-embedding-3-small", input: ["first", "second"], dimensions: EMBEDDING_DIMENSIONS });
+    expect(result.provider).toBe("embedder");
+    expect(result.vectors.map(v => v[0])).toEqual([1, 2]);
+  });
+
+  it("fails without an embedding model", async () => {
+    const error = await embedTexts(["text"], { providers: PROVIDERS, getEnv: env }).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.shouldFallback).toBe(false);
+  });
+});
+
+describe("chatCompletion streaming", () => {
+  const sse = (chunks: unknown[]) =>
+    new Response(chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n", { status: 200 });
+
+  it("reports tokens and assembles tool calls from OpenAI-style chunks", async () => {
+    const fetchImpl = (async () => sse([
+      { choices: [{ delta: { content: "Here you go" } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: "c1", function: { name: "draft_post", arguments: '{"content":"Ship' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ' it"}' } }] } }] },
+    ])) as typeof fetch;
+
+    const text: string[] = [];
+    const toolArgs: string[] = [];
+    const result = await chatCompletion(
+      { messages: [{ role: "user", content: "draft" }] },
+      { providers: [provider({})], getEnv: () => undefined, fetchImpl },
+      { onText: t => text.push(t), onToolCall: (_i, _name, args) => toolArgs.push(args) }
+    );
+
+    expect(text).toEqual(["Here you go"]);
+    expect(toolArgs).toEqual(['{"content":"Ship', '{"content":"Ship it"}']);
+    expect(result.message).toEqual({
+      role: "assistant",
+      content: "Here you go",
+      tool_calls: [{ id: "c1", type: "function", function: { name: "draft_post", arguments: '{"content":"Ship it"}' } }],
+    });
+  });
+});
+
+describe("toAnthropicMessages", () => {
+  it("splits out the system prompt and converts tool turns", () => {
+    const converted = toAnthropicMessages([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Show my queue" },
+      { role: "assistant", content: null, tool_calls: [{ id: "t1", type: "function", function: { name: "list_queue", arguments: '{"limit":3}' } }] },
+      { role: "tool", tool_call_id: "t1", content: "[]" },
+      { role: "user", content: "Thanks" },
+    ]);
+    expect(converted.system).toBe("Be brief");
+    expect(converted.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Show my queue" }] },
+      { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "list_queue", input: { limit: 3 } }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "[]" }, { type: "text", text: "Thanks" }] },
+    ]);
+  });
+});
+
+describe("preferenceFromSettings", () => {
+  it("reads agents.settings.llm and ignores junk", () => {
+    expect(preferenceFromSettings({ tone: "bold", llm: { provider: "claude", model: "claude-x" } }))
+      .toEqual({ provider: "claude", model: "claude-x" });
+    expect(preferenceFromSettings({ llm: "claude" })).toBeNull();
+    expect(preferenceFromSettings(null)).toBeNull();
+  });
+});
@@ -0,0 +1,249 @@
+// ============================================================================
+// MOCK LINKEDBOT EXTENSION
+// ============================================================================
+// Stands in for the Chrome extension's content script in jsdom (and in any
+// page a test runner can inject it into). It intercepts what the web app
+// posts with window.postMessage and answers the way the extension does:
+//
+//   SCHEDULE_POSTS          → postScheduled events, SCHEDULE_RESULT
+//   POST_NOW                → postStarting, then postPublished + POST_RESULT
+//                             (or postFailed + a failed POST_RESULT)
+//   SCRAPE_BULK_ANALYTICS   → BULK_ANALYTICS_RESULT, analyticsUpdated
+//   SCRAPE_ANALYTICS        → ANALYTICS_RESULT
+//   CHECK/CONNECT_EXTENSION → EXTENSION_CONNECTED
+//   CANCEL_POST             → drops the post from the local queue
+//
+// Replies are dispatched after `latencyMs` as MessageEvents from this window
+// and origin, like a content script's, so origin checks behave as in Chrome
+// (jsdom's own postMessage sets neither). Works with fake timers.
+
+import type {
+  AnalyticsScrapeResult,
+  ExtensionEventData,
+  ExtensionEventType,
+  PostSchedulePayload,
+} from '@/types/extension';
+
+export type MockExtensionOperation = 'SCHEDULE_POSTS' | 'POST_NOW' | 'SCRAPE_BULK_ANALYTICS' | 'SCRAPE_ANALYTICS';
+
+/** An error message to fail with, or 'drop' to never answer (a timeout) */
+export type MockFailure = string | 'drop';
+
+export interface MockExtensionOptions {
+  /** Delay before each reply (ms) */
+  latencyMs?: number;
+  version?: string;
+  extensionId?: string;
+  /** Protocol the mock speaks; 1 behaves like an old extension (no request ids) */
+  protocolVersion?: number;
+  minProtocolVersion?: number;
+  /** Fail every request of a kind until cleared */
+  failures?: Partial<Record<MockExtensionOperation, MockFailure>>;
+  /** Metrics reported for a post URL */
+  analyticsFor?: (url: string) => Omit<AnalyticsScrapeResult, 'url' | 'scrapedAt'>;
+  /** LinkedIn URL a published post gets */
+  linkedinUrlFor?: (postId: string) => string;
+  /** Send EXTENSION_CONNECTED as soon as it's installed */
+  autoConnect?: boolean;
+}
+
+export interface MockExtension {
+  /** Every message the page sent, in order */
+  received: Record<string, unknown>[];
+  /** The extension's local queue, by post id */
+  queue: Map<string, PostSchedulePayload>;
+  connect(): void;
+  disconnect(): void;
+  readyForScraping(): void;
+  emitEvent(event: ExtensionEventType, data?: ExtensionEventData): void;
+  /** Dispatch any message as if the extension had sent it */
+  send(message: Record<string, unknown>): void;
+  /** Fail (or drop) only the next request of a kind */
+  failNext(operation: MockExtensionOperation, failure: MockFailure): void;
+  setFailure(operation: MockExtensionOperation, failure: MockFailure | null): void;
+  setLatency(ms: number): void;
+  uninstall(): void;
+}
+
+const DEFAULT_ANALYTICS = () => ({ views: 1200, likes: 48, comments: 6, reposts: 3 });
+
+// A stable 19-digit activity id per post
+const DEFAULT_LINKEDIN_URL = (postId: string) => {
+  let hash = 0;
+  for (const char of postId) hash = (hash * 31 + char.charCodeAt(0)) % 1e9;
+  return `https://www.linkedin.com/feed/update/urn:li:activity:71000000${String(hash).padStart(11, '0')}/`;
+};
+
+export function installMockExtension(options: MockExtensionOptions = {}, target: Window = window): MockExtension {
+  let latencyMs = options.latencyMs ?? 0;
+  const protocolVersion = options.protocolVersion ?? 2;
+  const failures = { ...options.failures };
+  const oneShotFailures: Partial<Record<MockExtensionOperation, MockFailure>> = {};
+  const analyticsFor = options.analyticsFor ?? DEFAULT_ANALYTICS;
+  const linkedinUrlFor = options.linkedinUrlFor ?? DEFAULT_LINKEDIN_URL;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const originalPostMessage = target.postMessage;
+
+  const received: Record<string, unknown>[] = [];
+  const queue = new Map<string, PostSchedulePayload>();
+
+  const send = (message: Record<string, unknown>) => {
+    target.dispatchEvent(new MessageEvent('message', {
+      data: message,
+      origin: target.location.origin,
+      source: target,
+    }));
+  };
+
+  const later = (fn: () => void, delay = latencyMs) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, delay);
+    timers.add(timer);
+  };
+
+  // Echo the request id back, as a v2 extension does
+  const reply = (request: Record<string, unknown>, message: Record<string, unknown>) => {
+    send(protocolVersion >= 2 && request.requestId ? { ...message, requestId: request.requestId } : message);
+  };
+
+  const emitEvent = (event: ExtensionEventType, data: ExtensionEventData = {}) => {
+    send({ type: 'EXTENSION_EVENT', event, data });
+  };
+
+  const takeFailure = (operation: MockExtensionOperation): MockFailure | null => {
+    const failure = oneShotFailures[operation] ?? failures[operation] ?? null;
+    delete oneShotFailures[operation];
+    return failure;
+  };
+
+  const connect = () => send({
+    type: 'EXTENSION_CONNECTED',
+    version: options.version ?? '6.0.0',
+    extensionId: options.extensionId ?? 'mock-extension',
+    ...(protocolVersion >= 2 && {
+      protocolVersion,
+      minProtocolVersion: options.minProtocolVersion ?? 1,
+    }),
+  });
+
+  const handle = (message: Record<string, unknown>) => {
+    switch (message.type) {
+      case 'CHECK_EXTENSION':
+      case 'CONNECT_EXTENSION':
+        later(connect);
+        return;
+
+      case 'CANCEL_POST':
+        queue.delete(String(message.postId));
+        return;
+
+      case 'SCHEDULE_POSTS': {
+        const failure = takeFailure('SCHEDULE_POSTS');
+        if (failure === 'drop') return;
+        const posts = (message.posts as PostSchedulePayload[]) || [];
+        later(() => {
+          if (failure) {
+            reply(message, { type: 'SCHEDULE_RESULT', success: false, error: failure });
+            return;
+          }
+          for (const post of posts) {
+            queue.set(post.id, post);
+            emitEvent('postScheduled', { postId: post.id, trackingId: post.trackingId, scheduledTime: post.scheduleTime });
+          }
+          reply(message, { type: 'SCHEDULE_RESULT', success: true, queueLength: queue.size, scheduledCount: posts.length });
+        });
+        return;
+      }
+
+      case 'POST_NOW': {
+        const failure = takeFailure('POST_NOW');
+        if (failure === 'drop') return;
+        const post = message.post as { id: string };
+        later(() => {
+          emitEvent('postStarting', { postId: post.id });
+          later(() => {
+            queue.delete(post.id);
+            if (failure) {
+              emitEvent('postFailed', { postId: post.id, error: failure });
+              reply(message, { type: 'POST_RESULT', success: false, postId: post.id, error: failure });
+              return;
+            }
+            const linkedinUrl = linkedinUrlFor(post.id);
+            emitEvent('postPublished', { postId: post.id, linkedinUrl });
+            reply(message, { type: 'POST_RESULT', success: true, postId: post.id, linkedinUrl });
+          });
+        });
+        return;
+      }
+
+      case 'SCRAPE_BULK_ANALYTICS': {
+        const failure = takeFailure('SCRAPE_BULK_ANALYTICS');
+        if (failure === 'drop') return;
+        const urls = (message.postUrls as string[]) || [];
+        later(() => {
+          if (failure) {
+            reply(message, { type: 'BULK_ANALYTICS_RESULT', success: false, results: [], total: urls.length, successful: 0, error: failure });
+            return;
+          }
+          const scrapedAt = new Date().toISOString();
+          const results = urls.map(url => ({ success: true, url, analytics: { url, scrapedAt, ...analyticsFor(url) } }));
+          reply(message, { type: 'BULK_ANALYTICS_RESULT', success: true, results, total: urls.length, successful: urls.length });
+          emitEvent('analyticsUpdated', { message: `Scraped ${urls.length} posts` });
+        });
+        return;
+      }
+
+      case 'SCRAPE_ANALYTICS': {
+        const failure = takeFailure('SCRAPE_ANALYTICS');
+        if (failure === 'drop') return;
+        const url = String(message.postUrl);
+        later(() => {
+          if (failure) {
+            reply(message, { type: 'ANALYTICS_RESULT', success: false, postUrl: url, error: failure });
+            return;
+          }
+          const analytics = { url, scrapedAt: new Date().toISOString(), ...analyticsFor(url) };
+          reply(message, { type: 'ANALYTICS_RESULT', success: true, postUrl: url, analytics });
+        });
+        return;
+      }
+    }
+  };
+
+  // Messages the page posts reach the content script, not the page's own
+  // listeners (the real page sees them too, but every listener skips them)
+  target.postMessage = ((message: unknown) => {
+    if (!message || typeof message !== 'object') return;
+    received.push(message as Record<string, unknown>);
+    handle(message as Record<string, unknown>);
+  }) as Window['postMessage'];
+
+  if (options.autoConnect) later(connect);
+
+  return {
+    received,
+    queue,
+    connect,
+    disconnect: () => send({ type: 'EXTENSION_DISCONNECTED' }),
+    readyForScraping: () => send({ type: 'EXTENSION_READY_FOR_SCRAPING' }),
+    emitEvent,
+    send,
+    failNext: (operation, failure) => {
+      oneShotFailures[operation] = failure;
+    },
+    setFailure: (operation, failure) => {
+      if (failure === null) delete failures[operation];
+      else failures[operation] = failure;
+    },
+    setLatency: (ms) => {
+      latencyMs = ms;
+    },
+    uninstall: () => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+      target.postMessage = originalPostMessage;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// ============================================================================
+// MOCK SUPABASE CLIENT
+// ============================================================================
+// Just enough of the client for hooks under test: from() query chains over
+// in-memory tables (eq filters applied, everything else recorded), rpc() and
+// auth.getUser(). Use it from vi.mock('@/integrations/supabase/client').
+
+import { vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+export interface SupabaseCall {
+  table: string;
+  op: 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+  values?: unknown;
+  filters: [string, ...unknown[]][];
+}
+
+export function createSupabaseMock(user: { id: string } | null = { id: 'user-1' }) {
+  const tables: Record<string, Row[]> = {};
+  const calls: SupabaseCall[] = [];
+
+  const from = (table: string) => {
+    const call: SupabaseCall = { table, op: 'select', filters: [] };
+    calls.push(call);
+
+    const rows = () => (tables[table] || []).filter(row =>
+      call.filters.every(([name, column, value]) => name !== 'eq' || row[column as string] === value)
+    );
+    const result = () => ({ data: call.op === 'select' ? rows() : null, error: null });
+
+    const write = (op: SupabaseCall['op'], values?: unknown) => {
+      call.op = op;
+      call.values = values;
+      return builder;
+    };
+
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      insert: (values: unknown) => write('insert', values),
+      update: (values: unknown) => write('update', values),
+      upsert: (values: unknown) => write('upsert', values),
+      delete: () => write('delete'),
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      single: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: <T>(resolve: (value: ReturnType<typeof result>) => T) => Promise.resolve(result()).then(resolve),
+    };
+
+    for (const name of ['eq', 'neq', 'in', 'is', 'not', 'gt', 'gte', 'lt', 'lte', 'or', 'order', 'limit']) {
+      builder[name] = (...args: unknown[]) => {
+        call.filters.push([name, ...args]);
+        return builder;
+      };
+    }
+    return builder;
+  };
+
+  const client = {
+    from: vi.fn(from),
+    rpc: vi.fn(async (_fn: string, _args?: Record<string, unknown>) => ({ data: null as unknown, error: null })),
+    auth: {
+      getUser: vi.fn(async () => ({ data: { user }, error: null })),
+    },
+    functions: {
+      invoke: vi.fn(async () => ({ data: null, error: null })),
+    },
+  };
+
+  return {
+    client,
+    tables,
+    calls,
+    /** Writes (insert/update/upsert/delete) made to a table */
+    writes: (table: string) => calls.filter(c => c.table === table && c.op !== 'select'),
+  };
+}
+
+export type SupabaseMock = ReturnType<typeof createSupabaseMock>;
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  importableRows,
+  parseCsv,
+  parseImportFile,
+  parseImportTime,
+  postsToCsv,
+  postsToMarkdown,
+  validateImportRows,
+  type ExportPost,
+} from "@/lib/postImportExport";
+import { generateContentHash } from "@/lib/postLifecycle";
+
+const TZ = "Asia/Kolkata";
+const AGENTS = [{ id: "agent-1", name: "Founder Voice" }];
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines and escaped quotes", () => {
+    const csv = 'content,agent\r\n"Hello, world\nsecond line","Founder ""FV"" Voice"\r\n\r\nplain,x\n';
+    expect(parseCsv(csv)).toEqual([
+      ["content", "agent"],
+      ["Hello, world\nsecond line", 'Founder "FV" Voice'],
+      ["plain", "x"],
+    ]);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("maps header aliases onto fields with CSV line numbers", () => {
+    const { rows, error } = parseImportFile("Text,Scheduled At,Agent Name,Photo\nHi there,2026-05-01 09:00,Founder Voice,\n", "csv");
+    expect(error).toBeUndefined();
+    expect(rows).toEqual([
+      { line: 2, content: "Hi there", scheduledTime: "2026-05-01 09:00", agent: "Founder Voice", imageUrl: "" },
+    ]);
+  });
+
+  it("accepts a JSON list or { posts }", () => {
+    const list = parseImportFile('[{"content":"A post","scheduled_time":"2026-05-01T03:30:00Z"}]', "json");
+    const wrapped = parseImportFile('{"posts":[{"content":"A post","scheduled_time":"2026-05-01T03:30:00Z"}]}', "json");
+    expect(list.rows).toEqual(wrapped.rows);
+    expect(list.rows[0]).toMatchObject({ line: 1, content: "A post" });
+  });
+
+  it("rejects files it can't read", () => {
+    expect(parseImportFile("{", "json").error).toBe("The file is not valid JSON");
+    expect(parseImportFile("title,date\nx,y", "csv").error).toBe('The first row needs a "content" column');
+  });
+});
+
+describe("parseImportTime", () => {
+  it("reads wall-clock times in the user's timezone and ISO times as given", () => {
+    expect(parseImportTime("2026-05-01 09:00", TZ)?.toISOString()).toBe("2026-05-01T03:30:00.000Z");
+    expect(parseImportTime("2026-05-01T09:00:00+02:00", TZ)?.toISOString()).toBe("2026-05-01T07:00:00.000Z");
+    expect(parseImportTime("next tuesday", TZ)).toBeNull();
+    expect(parseImportTime("2026-05-01T09:00:00", TZ)?.toISOString()).toBe("2026-05-01T03:30:00.000Z");
+  });
+});
+
+describe("validateImportRows", () => {
+  const base = { line: 2, scheduledTime: "2099-01-01 10:00", agent: "", imageUrl: "" };
+
+  it("runs preflight checks and resolves agents by name", () => {
+    const rows = validateImportRows([
+      { ...base, content: "A perfectly fine post about shipping.", agent: "founder voice" },
+      { ...base, line: 3, content: "short", scheduledTime: "2001-01-01 10:00", agent: "Ghost" },
+    ], { agents: AGENTS, existingHashes: new Set(), timeZone: TZ });
+
+    expect(rows[0]).toMatchObject({ agentId: "agent-1", agentName: "Founder Voice", errors: [] });
+    expect(rows[1].errors).toEqual([
+      "Post content is missing or too short (min 10 characters)",
+      "Scheduled time must be in the future",
+      'Unknown agent "Ghost"',
+    ]);
+  });
+
+  it("flags content that already exists or repeats in the file", () => {
+    const existing = "Already posted this one last week.";
+    const rows = validateImportRows([
+      { ...base, content: existing.toUpperCase() },
+      { ...base, line: 3, content: "A brand new post for the queue." },
+      { ...base, line: 4, content: "A  brand new post for the queue." },
+    ], { agents: AGENTS, existingHashes: new Set([generateContentHash(existing)]), timeZone: TZ });
+
+    expect(rows.map(r => r.duplicateOf)).toEqual(["existing", null, "file"]);
+    expect(importableRows(rows).map(r => r.line)).toEqual([3]);
+  });
+});
+
+describe("export", () => {
+  const post: ExportPost = {
+    id: "p1",
+    content: 'Line one, with "quotes"\nLine two',
+    status: "posted",
+    agentName: "Founder Voice",
+    scheduledTime: "2026-05-01T03:30:00Z",
+    postedAt: "2026-05-01T03:31:00Z",
+    imageUrl: null,
+    linkedinUrl: "https://www.linkedin.com/feed/update/1",
+    views: 1200,
+    likes: 40,
+    comments: 3,
+    shares: null,
+  };
+
+  it("writes CSV the importer can read back", () => {
+    const csv = postsToCsv([post]);
+    expect(csv.split("\r\n")[0]).toBe("id,content,status,agent,scheduled_time,posted_at,image_url,linkedin_url,views,likes,comments,shares");
+    const { rows } = parseImportFile(csv, "csv");
+    expect(rows[0]).toMatchObject({ content: post.content, agent: "Founder Voice", scheduledTime: "2026-05-01T03:30:00Z" });
+  });
+
+  it("keeps spreadsheets from running cells as formulas", () => {
+    const risky = { ...post, content: '=HYPERLINK("http://evil.test","Click")', agentName: "@ops", imageUrl: "-1+2", linkedinUrl: "+cmd" };
+    const [, line] = postsToCsv([risky]).split("\r\n");
+    expect(parseCsv(line)[0].slice(1, 8)).toEqual([
+      `'=HYPERLINK("http://evil.test","Click")`, "posted", "'@ops", "2026-05-01T03:30:00Z", "2026-05-01T03:31:00Z", "'-1+2", "'+cmd",
+    ]);
+
+    const { rows } = parseImportFile(postsToCsv([risky]), "csv");
+    expect(rows[0]).toMatchObject({ content: risky.content, agent: "@ops", imageUrl: "-1+2" });
+
+    const hidden = { ...post, agentName: "\t=1+1", imageUrl: "\r=cmd" };
+    expect(parseCsv(postsToCsv([hidden]))[1].slice(3, 7)).toEqual(["'\t=1+1", "2026-05-01T03:30:00Z", "2026-05-01T03:31:00Z", "'\r=cmd"]);
+  });
+
+  it("writes a Markdown section per post with its metrics", () => {
+    const markdown = postsToMarkdown([post], new Date("2026-06-01T00:00:00Z"));
+    expect(markdown).toContain("Exported 2026-06-01T00:00:00.000Z - 1 post");
+    expect(markdown).toContain("| 1,200 | 40 | 3 | - |");
+    expect(markdown).toContain('> Line one, with "quotes"\n> Line two');
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, type PostStatus } from "../../supabase/functions/_shared/postStatus";
+import { canSendToExtension, isReviewState } from "@/lib/postLifecycle";
+
+describe("post status transitions", () => {
+  it("walks the review workflow into the queue", () => {
+    expect(canTransition("draft", "in_review")).toBe(true);
+    expect(canTransition("in_review", "approved")).toBe(true);
+    expect(canTransition("in_review", "draft")).toBe(true);
+    expect(canTransition("approved", "pending")).toBe(true);
+    expect(canTransition("approved", "draft")).toBe(true);
+  });
+
+  it("does not let a draft skip review", () => {
+    expect(canTransition("draft", "pending")).toBe(false);
+    expect(canTransition("in_review", "pending")).toBe(false);
+    expect(canTransition("draft", "approved")).toBe(false);
+  });
+});
+
+describe("canSendToExtension", () => {
+  it("only lets posts out of review once they are queued", () => {
+    expect((["draft", "in_review", "approved"] as PostStatus[]).every(isReviewState)).toBe(true);
+    expect(canSendToExtension("approved")).toBe(false);
+    expect(canSendToExtension("in_review")).toBe(false);
+    expect(canSendToExtension("pending")).toBe(true);
+    expect(canSendToExtension(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildVariantPreferences,
+  describeVariantPreferences,
+  rankVariants,
+  variantLabel,
+  type VariantChoiceSample,
+} from "../../supabase/functions/_shared/postVariants";
+
+function pick(
+  chosenStyle: string,
+  offeredStyles: string[],
+  metrics: { views: number; likes: number } | null = null,
+  dimension: VariantChoiceSample["dimension"] = "hook"
+): VariantChoiceSample {
+  return {
+    dimension,
+    chosenStyle,
+    offeredStyles,
+    views: metrics?.views ?? null,
+    likes: metrics?.likes ?? null,
+    comments: metrics ? 0 : null,
+    shares: metrics ? 0 : null,
+  };
+}
+
+describe("variantLabel", () => {
+  it("names the style along its dimension", () => {
+    expect(variantLabel({ dimension: "hook", style: "question" })).toBe("Question hook");
+    expect(variantLabel({ dimension: "length", style: "short" })).toBe("Short");
+    expect(variantLabel({ dimension: "tone", style: "playful" })).toBe("Playful tone");
+  });
+});
+
+describe("buildVariantPreferences", () => {
+  it("prefers the style the user keeps picking", () => {
+    const prefs = buildVariantPreferences([
+      pick("question", ["question", "story"]),
+      pick("question", ["question", "number"]),
+      pick("question", ["question", "story", "quote"]),
+      pick("story", ["question", "story"]),
+    ]);
+    expect(prefs.choices).toBe(4);
+    expect(prefs.preferred.hook).toMatchObject({ style: "question", offered: 4, picked: 3 });
+    expect(prefs.preferred.length).toBeUndefined();
+    expect(describeVariantPreferences(prefs)).toEqual(["Question hook: kept 3 of 4 times offered"]);
+  });
+
+  it("waits for enough picks before reporting a preference", () => {
+    const prefs = buildVariantPreferences([
+      pick("question", ["question", "story"]),
+      pick("question", ["question", "story"]),
+    ]);
+    expect(prefs.preferred.hook).toBeUndefined();
+    expect(describeVariantPreferences(prefs)).toEqual([]);
+  });
+
+  it("weighs in how the published picks performed", () => {
+    const prefs = buildVariantPreferences([
+      pick("story", ["story", "question"], { views: 1000, likes: 60 }),
+      pick("story", ["story", "question"], { views: 1000, likes: 40 }),
+      pick("question", ["story", "question"], { views: 1000, likes: 10 }),
+      pick("question", ["story", "question"], { views: 1000, likes: 10 }),
+      pick("question", ["story", "question"], { views: 1000, likes: 10 }),
+    ]);
+    expect(prefs.preferred.hook?.style).toBe("story");
+    expect(prefs.preferred.hook?.performance).toBeCloseTo(5);
+    expect(describeVariantPreferences(prefs)).toEqual([
+      "Story hook: kept 2 of 5 times offered, 5.0× the engagement of other hooks",
+    ]);
+  });
+
+  it("ignores styles that don't belong to the dimension", () => {
+    const prefs = buildVariantPreferences([
+      pick("playful", ["playful", "short"], null, "tone"),
+    ]);
+    expect(prefs.styles).toEqual([
+      expect.objectContaining({ dimension: "tone", style: "playful", offered: 1, picked: 1 }),
+    ]);
+  });
+});
+
+describe("rankVariants", () => {
+  it("moves the preferred style first and keeps the rest in order", () => {
+    const prefs = buildVariantPreferences([
+      pick("story", ["story", "number"]),
+      pick("story", ["story", "question"]),
+      pick("story", ["story", "question"]),
+    ]);
+    const variants = [
+      { dimension: "hook" as const, style: "question", content: "a" },
+      { dimension: "hook" as const, style: "number", content: "b" },
+      { dimension: "hook" as const, style: "story", content: "c" },
+    ];
+    expect(rankVariants(variants, prefs).map(v => v.content)).toEqual(["c", "a", "b"]);
+    expect(rankVariants(variants, null)).toEqual(variants);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { getPlanLimits } from "../../supabase/functions/_shared/postingLimits";
+
+describe("getPlanLimits", () => {
+  it("returns the limits of a known plan", () => {
+    expect(getPlanLimits("business")).toEqual({ plan: "business", daily: 3, monthly: 60 });
+  });
+
+  it("falls back to free for unknown, missing and inherited keys", () => {
+    for (const plan of ["enterprise", null, undefined, "", "toString", "constructor", "__proto__"]) {
+      expect(getPlanLimits(plan)).toEqual({ plan: "free", daily: 1, monthly: 5 });
+    }
+  });
+
+  it("treats an expired plan as free", () => {
+    const now = new Date("2026-03-05T12:00:00Z");
+    expect(getPlanLimits("pro", "2026-03-06T00:00:00Z", now).plan).toBe("pro");
+    expect(getPlanLimits("pro", "2026-03-05T12:00:00Z", now).plan).toBe("free");
+    expect(getPlanLimits("pro", null, now).plan).toBe("pro");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  PublicFetchError,
+  fetchPublicUrl,
+  isPublicAddress,
+  readBodyCapped,
+} from "../../supabase/functions/_shared/publicFetch";
+
+const resolve = async (hostname: string) => ({
+  "example.com": ["93.184.216.34", "2606:2800:220:1:248:1893:25c8:1946"],
+  "internal.example.com": ["93.184.216.34", "10.0.0.5"],
+} as Record<string, string[]>)[hostname] ?? [];
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+    expect(isPublicAddress("::ffff:8.8.8.8")).toBe(true);
+  });
+
+  it("rejects loopback, private, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1", "10.1.2.3", "172.31.255.255", "192.168.0.1", "169.254.169.254", "100.64.0.1",
+      "0.0.0.0", "224.0.0.1", "255.255.255.255",
+      "::", "::1", "fd00::1", "fe80::1%eth0", "ff02::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::a00:1",
+      "not-an-ip", "1.2.3", "1:2:3",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  it("refuses hosts that resolve or normalize to a non-public address", async () => {
+    const fetch = vi.fn();
+
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data/",
+      "http://localhost:54321/rest/v1/",
+      "http://[::1]/",
+      "http://2130706433/",
+      "http://internal.example.com/",
+      "file:///etc/passwd",
+    ]) {
+      await expect(fetchPublicUrl(url, { fetch, resolve }), url).rejects.toBeInstanceOf(PublicFetchError);
+    }
+    await expect(fetchPublicUrl("http://nowhere.test/", { fetch, resolve })).rejects.toThrow("Could not find nowhere.test");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("checks every redirect hop before following it", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url === "https://example.com/a" ? redirect("/b")
+        : url === "https://example.com/b" ? redirect("http://10.0.0.1/admin")
+        : new Response("ok"));
+
+    await expect(fetchPublicUrl("https://example.com/a", { fetch, resolve })).rejects.toThrow("10.0.0.1 is not a public address");
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(["https://example.com/a", "https://example.com/b"]);
+    expect(fetch).toHaveBeenCalledWith("https://example.com/a", expect.objectContaining({ redirect: "manual" }));
+  });
+
+  it("stops after too many redirects", async () => {
+    const fetch = vi.fn(async () => redirect("https://example.com/again"));
+
+    await expect(fetchPublicUrl("https://example.com/", { fetch, resolve, maxRedirects: 2 })).rejects.toThrow("too many times");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("readBodyCapped", () => {
+  it("reads bodies up to the cap and gives up past it", async () => {
+    expect(new TextDecoder().decode(await readBodyCapped(new Response("hello"), 5) ?? undefined)).toBe("hello");
+    expect(await readBodyCapped(new Response("hello!"), 5)).toBeNull();
+    expect(await readBodyCapped(new Response("hi", { headers: { "content-length": "999" } }), 5)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+import { linkedinActivityId, recordPostPublished } from "../../supabase/functions/_shared/publishOutcomes";
+
+const ACTIVITY = "7100000000000000001";
+
+describe("linkedinActivityId", () => {
+  it("reads the activity id from feed and post URLs", () => {
+    expect(linkedinActivityId(`https://www.linkedin.com/feed/update/urn:li:activity:${ACTIVITY}/`)).toBe(ACTIVITY);
+    expect(linkedinActivityId(`https://www.linkedin.com/posts/jane-doe_hiring-activity-${ACTIVITY}-aBcD`)).toBe(ACTIVITY);
+    expect(linkedinActivityId(`https://www.linkedin.com/feed/update/urn:li:ugcPost:${ACTIVITY}/`)).toBe(ACTIVITY);
+  });
+
+  it("falls back to the reported post id", () => {
+    expect(linkedinActivityId("https://www.linkedin.com/in/jane-doe/recent-activity/", `urn:li:activity:${ACTIVITY}`)).toBe(ACTIVITY);
+    expect(linkedinActivityId(null, ` ${ACTIVITY} `)).toBe(ACTIVITY);
+    expect(linkedinActivityId(null, "trk-123")).toBeNull();
+    expect(linkedinActivityId(undefined, undefined)).toBeNull();
+  });
+});
+
+describe("recordPostPublished", () => {
+  const row = {
+    id: "outcome-1",
+    post_id: "post-1",
+    linkedin_post_url: `https://www.linkedin.com/feed/update/urn:li:activity:${ACTIVITY}/`,
+    linkedin_activity_id: ACTIVITY,
+    delivery_count: 2,
+    first_delivered_at: "2026-03-03T09:00:00.000Z",
+    first_delivery: false,
+  };
+
+  it("passes the dedupe keys to the RPC and maps the outcome", async () => {
+    const client = { rpc: vi.fn(async () => ({ data: [row], error: null })) };
+
+    const outcome = await recordPostPublished(client, {
+      postId: "post-1",
+      source: "sync-post",
+      linkedinUrl: row.linkedin_post_url,
+    });
+
+    expect(client.rpc).toHaveBeenCalledWith("record_post_published", {
+      p_post_id: "post-1",
+      p_source: "sync-post",
+      p_linkedin_post_url: row.linkedin_post_url,
+      p_linkedin_activity_id: ACTIVITY,
+    });
+    expect(outcome).toEqual({
+      id: "outcome-1",
+      postId: "post-1",
+      linkedinPostUrl: row.linkedin_post_url,
+      linkedinActivityId: ACTIVITY,
+      deliveryCount: 2,
+      firstDeliveredAt: "2026-03-03T09:00:00.000Z",
+      duplicate: true,
+    });
+  });
+
+  it("resolves null for a missing post and throws on RPC errors", async () => {
+    const missing = { rpc: vi.fn(async () => ({ data: [], error: null })) };
+    const failing = { rpc: vi.fn(async () => ({ data: null, error: { message: "connection reset" } })) };
+
+    await expect(recordPostPublished(missing, { postId: "gone", source: "post-success" })).resolves.toBeNull();
+    await expect(recordPostPublished(failing, { postId: "post-1", source: "post-success" })).rejects.toThrow("connection reset");
+  });
+});
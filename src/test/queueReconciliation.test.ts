@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  reconcileQueue,
+  type ServerQueuePost,
+} from "../../supabase/functions/_shared/queueReconciliation";
+
+const NOW = new Date("2026-03-02T10:00:00Z");
+const OPTIONS = { userId: "me", now: NOW };
+
+const post = (id: string, overrides: Partial<ServerQueuePost> = {}): ServerQueuePost => ({
+  id,
+  user_id: "me",
+  status: "pending",
+  scheduled_time: "2026-03-02T12:00:00Z",
+  tracking_id: `trk-${id}`,
+  ...overrides,
+});
+
+describe("reconcileQueue", () => {
+  it("leaves a queue that matches alone", () => {
+    const result = reconcileQueue([{ id: "a", scheduleTime: "2026-03-02T12:00:00.000Z" }], [post("a")], OPTIONS);
+    expect(result).toEqual({ resend: [], cancel: [], retime: [], inSync: ["a"], unresolved: [] });
+  });
+
+  it("resends pending posts the extension doesn't have", () => {
+    const result = reconcileQueue([], [post("a")], OPTIONS);
+    expect(result.resend.map(p => p.id)).toEqual(["a"]);
+  });
+
+  it("cancels items whose post is gone or no longer pending, but not ones already posting", () => {
+    const posts = [post("posted", { status: "posted" }), post("cancelled", { status: "cancelled" }), post("posting", { status: "posting" })];
+    const reported = ["posted", "cancelled", "posting", "deleted"].map(id => ({ id, scheduleTime: "2026-03-02T12:00:00Z" }));
+    expect(reconcileQueue(reported, posts, OPTIONS).cancel).toEqual(["posted", "cancelled", "deleted"]);
+  });
+
+  it("retimes drifted items to the database time", () => {
+    const result = reconcileQueue([{ id: "a", scheduleTime: "2026-03-02T13:00:00Z" }], [post("a")], OPTIONS);
+    expect(result.retime).toEqual([{ postId: "a", from: "2026-03-02T13:00:00Z", to: "2026-03-02T12:00:00Z" }]);
+    expect(result.resend).toEqual([]);
+  });
+
+  it("replaces an item queued under a stale id, matched by tracking id", () => {
+    const result = reconcileQueue([{ id: "old", trackingId: "trk-a", scheduleTime: "2026-03-02T12:00:00Z" }], [post("a")], OPTIONS);
+    expect(result.cancel).toEqual(["old"]);
+    expect(result.resend.map(p => p.id)).toEqual(["a"]);
+  });
+
+  it("leaves overdue missing posts and other accounts' items to the user", () => {
+    const overdue = post("late", { scheduled_time: "2026-03-02T08:00:00Z" });
+    const foreign = post("theirs", { user_id: "someone-else" });
+    const result = reconcileQueue([{ id: "theirs", scheduleTime: "2026-03-02T12:00:00Z" }], [overdue, foreign], OPTIONS);
+
+    expect(result.resend).toEqual([]);
+    expect(result.cancel).toEqual([]);
+    expect(result.unresolved).toEqual([
+      expect.objectContaining({ kind: "foreign_item", itemId: "theirs", postId: null }),
+      expect.objectContaining({ kind: "missing_overdue", itemId: "late", postId: "late" }),
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  chunkDocument,
+  citedSources,
+  docxXmlToMarkdown,
+  formatReferenceContext,
+  formatSourcesFooter,
+  htmlToMarkdown,
+  keywordQuery,
+  retrieveReferences,
+  type ReferenceMatch,
+} from "../../supabase/functions/_shared/referenceChunks";
+
+const sentence = (n: number) => `Sentence number ${n} talks about the handbook in some detail.`;
+
+describe("chunkDocument", () => {
+  it("keeps chunks under a heading and notes heading and page", () => {
+    const chunks = chunkDocument([
+      { text: "# Benefits\n\n## Parental leave\n\nNew parents get **16 weeks** of paid leave.", page: 12 },
+      { text: "## Remote work\n\nEveryone can work from home [twice a week](https://intranet/remote).", page: 13 },
+    ]);
+
+    expect(chunks).toEqual([
+      { index: 0, content: "New parents get 16 weeks of paid leave.", location: "Parental leave · p. 12" },
+      { index: 1, content: "Everyone can work from home twice a week.", location: "Remote work · p. 13" },
+    ]);
+  });
+
+  it("splits long sections with overlap", () => {
+    const text = Array.from({ length: 30 }, (_, i) => sentence(i)).join(" ");
+    const chunks = chunkDocument([{ text }], { maxWords: 50, overlapWords: 10 });
+
+    expect(chunks.length).toBeGreaterThan(4);
+    for (const chunk of chunks) {
+      expect(chunk.content.split(" ").length).toBeLessThanOrEqual(50);
+    }
+    // The last sentence of one chunk starts the next
+    const lastSentence = chunks[0].content.split(/(?<=\.) /).pop();
+    expect(chunks[1].content.startsWith(lastSentence as string)).toBe(true);
+    expect(chunks.at(-1)?.content).toContain(sentence(29));
+  });
+});
+
+describe("text extraction", () => {
+  it("reads the main content of a page with its headings", () => {
+    const page = htmlToMarkdown(`<html><head><title>About Acme &amp; Co</title><script>track()</script></head>
+      <body><nav>Home | Blog</nav><main><h2>Our mission</h2><p>We build <b>tools</b> for&nbsp;teams.</p>
+      <ul><li>Fast</li><li>Simple</li></ul></main><footer>© Acme</footer></body></html>`);
+
+    expect(page.title).toBe("About Acme & Co");
+    expect(page.text).toBe("## Our mission\n\nWe build tools for teams.\n\n- Fast\n\n- Simple");
+  });
+
+  it("reads paragraphs, headings and list items from DOCX XML", () => {
+    const xml = `<w:document><w:body>
+      <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Travel policy</w:t></w:r></w:p>
+      <w:p><w:r><w:t xml:space="preserve">Book flights </w:t></w:r><w:r><w:t>two weeks ahead.</w:t></w:r></w:p>
+      <w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>Economy &amp; trains only</w:t></w:r></w:p>
+      <w:p></w:p>
+    </w:body></w:document>`;
+
+    expect(docxXmlToMarkdown(xml)).toBe("# Travel policy\n\nBook flights two weeks ahead.\n\n- Economy & trains only");
+  });
+});
+
+describe("retrieval", () => {
+  const matches: ReferenceMatch[] = [
+    { chunk_id: "c1", material_id: "m1", title: "Handbook", type: "brand_guidelines", location: "Parental leave · p. 12", content: "16 weeks paid.", score: 0.03 },
+    { chunk_id: "c2", material_id: "m2", title: "Press kit", type: "text", location: null, content: "Founded 2019.", score: 0.02 },
+  ];
+
+  it("turns a request into an OR keyword query", () => {
+    expect(keywordQuery("Write a LinkedIn post about our parental leave policy")).toBe("parental | leave | policy");
+  });
+
+  it("passes the query embedding and falls back to keywords when embedding fails", async () => {
+    const calls: Record<string, unknown>[] = [];
+    const client = {
+      rpc: async (_fn: string, args?: Record<string, unknown>) => {
+        calls.push(args || {});
+        return { data: matches, error: null };
+      },
+    };
+    const params = { query: "parental leave", workspaceId: "w1", userId: "u1" };
+
+    await retrieveReferences(client, params, async () => ({ vector: [0.5, 0.25], model: "embed-x" }));
+    await retrieveReferences(client, params, async () => {
+      throw new Error("no credits");
+    });
+
+    expect(calls[0]).toMatchObject({ p_query: "parental | leave", p_query_embedding: "[0.5,0.25]", p_embedding_model: "embed-x", p_workspace_id: "w1" });
+    expect(calls[1]).toMatchObject({ p_query_embedding: null, p_embedding_model: null });
+  });
+
+  it("labels excerpts and lists only the sources the reply cites", () => {
+    const context = formatReferenceContext(matches);
+    expect(context?.text).toContain("[R1] Handbook (Parental leave · p. 12) - brand guidelines\n16 weeks paid.");
+    expect(formatReferenceContext([])).toBeNull();
+
+    const cited = citedSources("The 16-week figure is from [R1].", context!.sources);
+    expect(formatSourcesFooter(cited)).toBe("📚 Sources:\n[R1] Handbook (Parental leave · p. 12)");
+    expect(formatSourcesFooter(citedSources("No labels here", context!.sources))).toBe("");
+  });
+});
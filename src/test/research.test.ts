@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  feedProvider,
+  formatResearchInsights,
+  labelSources,
+  parseFeed,
+  pickSources,
+  researchCacheKey,
+  runResearch,
+  searxngProvider,
+  type ResearchCache,
+  type ResearchProvider,
+  type ResearchResult,
+  type ResearchSource,
+} from "../../supabase/functions/_shared/research";
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Ops weekly</title>
+  <item>
+    <title>Remote work policies are shifting</title>
+    <link>https://ops.example/remote</link>
+    <description><![CDATA[<p>Companies are rethinking <b>remote work</b> &amp; hybrid.</p>]]></description>
+    <pubDate>Tue, 03 Mar 2026 09:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Quarterly hiring report</title>
+    <link>https://ops.example/hiring</link>
+    <description>Hiring slowed in Q1.</description>
+    <pubDate>Mon, 02 Mar 2026 09:00:00 GMT</pubDate>
+  </item>
+</channel></rss>`;
+
+const ATOM = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <title>Hybrid offices, a year on</title>
+    <link rel="alternate" href="https://blog.example/hybrid"/>
+    <summary>What we learned about remote and hybrid work.</summary>
+    <updated>2026-03-04T10:00:00Z</updated>
+  </entry>
+</feed>`;
+
+const source = (title: string, url: string | null, provider: ResearchSource["provider"] = "tavily"): ResearchSource => ({
+  title,
+  url,
+  snippet: `${title} snippet`,
+  publishedAt: null,
+  provider,
+});
+
+const fixedProvider = (kind: ResearchSource["provider"], sources: ResearchSource[]): ResearchProvider => ({
+  kind,
+  name: kind,
+  search: async () => sources,
+});
+
+const failingProvider: ResearchProvider = {
+  kind: "searxng",
+  name: "SearXNG",
+  search: async () => {
+    throw new Error("offline");
+  },
+};
+
+function memoryCache(): ResearchCache & { entries: Map<string, ResearchResult> } {
+  const entries = new Map<string, ResearchResult>();
+  return {
+    entries,
+    get: async (key) => entries.get(key) ?? null,
+    set: async (key, result) => {
+      entries.set(key, result);
+    },
+  };
+}
+
+describe("parseFeed", () => {
+  it("reads RSS items, unwrapping CDATA and markup", () => {
+    const items = parseFeed(RSS);
+    expect(items[0]).toEqual({
+      title: "Remote work policies are shifting",
+      url: "https://ops.example/remote",
+      summary: "Companies are rethinking remote work & hybrid.",
+      publishedAt: "2026-03-03T09:00:00.000Z",
+    });
+    expect(items).toHaveLength(2);
+  });
+
+  it("reads Atom entries with href links", () => {
+    expect(parseFeed(ATOM)).toEqual([{
+      title: "Hybrid offices, a year on",
+      url: "https://blog.example/hybrid",
+      summary: "What we learned about remote and hybrid work.",
+      publishedAt: "2026-03-04T10:00:00.000Z",
+    }]);
+  });
+});
+
+describe("providers", () => {
+  it("keeps only feed items about the topic, newest first", async () => {
+    const fetchImpl = vi.fn(async (url: string) => new Response(url.includes("atom") ? ATOM : RSS)) as unknown as typeof fetch;
+    const results = await feedProvider(["https://ops.example/rss", "https://blog.example/atom"])
+      .search({ topic: "remote work", limit: 5 }, { fetchImpl });
+
+    expect(results.map(r => r.url)).toEqual(["https://blog.example/hybrid", "https://ops.example/remote"]);
+    expect(results[0].provider).toBe("feeds");
+  });
+
+  it("queries SearXNG-style endpoints as JSON", async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({
+      results: [{ title: "Remote study", url: "https://news.example/study", content: "A new study.", publishedDate: "2026-03-01" }],
+    }))) as unknown as typeof fetch;
+    const results = await searxngProvider("https://search.example/").search({ topic: "remote work", limit: 3 }, { fetchImpl });
+
+    expect(String(vi.mocked(fetchImpl).mock.calls[0][0])).toMatch(/^https:\/\/search\.example\/search\?q=.*remote\+work.*&format=json/);
+    expect(results).toEqual([{
+      title: "Remote study",
+      url: "https://news.example/study",
+      snippet: "A new study.",
+      publishedAt: "2026-03-01T00:00:00.000Z",
+      provider: "searxng",
+    }]);
+  });
+});
+
+describe("runResearch", () => {
+  it("merges providers, skipping failures and duplicate links", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const result = await runResearch({ topic: "remote work" }, [
+      fixedProvider("tavily", [source("A", "https://a.example/"), source("B", "https://b.example")]),
+      failingProvider,
+      fixedProvider("references", [source("Handbook", null, "references"), source("A again", "https://a.example")]),
+    ]);
+
+    expect(result?.sources.map(s => s.title)).toEqual(["A", "Handbook", "B"]);
+    expect(result?.providers).toEqual(["tavily", "references"]);
+  });
+
+  it("returns null when nothing was found", async () => {
+    expect(await runResearch({ topic: "remote work" }, [fixedProvider("feeds", [])])).toBeNull();
+    expect(await runResearch({ topic: "remote work" }, [])).toBeNull();
+  });
+
+  it("serves repeat topics from the cache until it expires", async () => {
+    const cache = memoryCache();
+    const search = vi.fn(async () => [source("A", "https://a.example")]);
+    const provider: ResearchProvider = { kind: "tavily", name: "Tavily", search };
+    const set = vi.spyOn(cache, "set");
+    const now = new Date("2026-03-05T10:00:00Z");
+
+    const first = await runResearch({ topic: "Remote work" }, [provider], { cache, now, ttlHours: 6 });
+    const second = await runResearch({ topic: "work remote" }, [provider], { cache, now });
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(first?.cached).toBe(false);
+    expect(second?.cached).toBe(true);
+    expect(set.mock.calls[0][2]).toEqual(new Date("2026-03-05T16:00:00Z"));
+  });
+
+  it("keys the cache by topic words and providers", () => {
+    expect(researchCacheKey("Remote  work!", ["tavily", "feeds"])).toBe(researchCacheKey("work remote", ["feeds", "tavily"]));
+    expect(researchCacheKey("remote work", ["tavily"])).not.toBe(researchCacheKey("remote work", ["tavily", "feeds"]));
+  });
+});
+
+describe("labelled sources", () => {
+  const labelled = labelSources([source("A", "https://a.example"), source("B", null, "references")], 2);
+
+  it("continues labels across research calls and formats them for the model", () => {
+    expect(labelled.map(s => s.id)).toEqual(["S3", "S4"]);
+    expect(formatResearchInsights(labelled)).toBe("[S3] A: A snippet\n[S4] B: B snippet");
+  });
+
+  it("picks the sources a draft cites, or all of them", () => {
+    expect(pickSources(labelled, ["s4"])).toEqual([source("B", null, "references")]);
+    expect(pickSources(labelled, undefined)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { findScheduleConflicts, type ScheduledSlot } from "../../supabase/functions/_shared/scheduleConflicts";
+
+const NOW = new Date("2026-03-02T06:00:00Z");
+const OPTIONS = { dailyLimit: 2, timeZone: "Asia/Kolkata", now: NOW };
+
+const queue: ScheduledSlot[] = [
+  { id: "a", status: "pending", scheduled_time: "2026-03-03T04:30:00Z" }, // 10:00 IST
+  { id: "b", status: "posted", scheduled_time: "2026-03-03T08:00:00Z", posted_at: "2026-03-03T08:20:00Z" },
+  { id: "c", status: "cancelled", scheduled_time: "2026-03-04T04:30:00Z" },
+  { id: "d", status: "pending", scheduled_time: "2026-03-04T12:00:00Z" },
+];
+
+describe("findScheduleConflicts", () => {
+  it("passes a free slot", () => {
+    expect(findScheduleConflicts("d", new Date("2026-03-04T04:30:00Z"), queue, OPTIONS)).toEqual([]);
+  });
+
+  it("never conflicts with the post's own slot", () => {
+    expect(findScheduleConflicts("d", new Date("2026-03-04T12:00:00Z"), queue, OPTIONS)).toEqual([]);
+  });
+
+  it("flags a day that is already at the plan's limit", () => {
+    const conflicts = findScheduleConflicts("d", new Date("2026-03-03T12:00:00Z"), queue, OPTIONS);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ kind: "daily_limit", postIds: ["a", "b"] }),
+    ]);
+  });
+
+  it("counts days in the user's timezone", () => {
+    // 19:00 UTC on the 3rd is already the 4th in IST, where only "d" is queued
+    expect(findScheduleConflicts("x", new Date("2026-03-03T19:00:00Z"), queue, OPTIONS)).toEqual([]);
+  });
+
+  it("flags posts closer than the minimum gap, using when posted ones went out", () => {
+    const conflicts = findScheduleConflicts("d", new Date("2026-03-03T08:50:00Z"), queue, { ...OPTIONS, dailyLimit: 3 });
+    expect(conflicts).toEqual([
+      { kind: "min_gap", message: "Another post goes out less than 1h from this time", postIds: ["b"] },
+    ]);
+  });
+
+  it("flags times that have passed", () => {
+    const conflicts = findScheduleConflicts("d", new Date("2026-03-02T05:00:00Z"), queue, OPTIONS);
+    expect(conflicts.map(c => c.kind)).toEqual(["past"]);
+  });
+});
@@ -0,0 +1,459 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandRecurrence,
+  parseSchedule,
+  type ParsedSchedule,
+} from "../../supabase/functions/_shared/scheduleParser";
+import {
+  describeRecurrence,
+  occurrencesBetween,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from "../../supabase/functions/_shared/recurrence";
+import { getZonedParts } from "../../supabase/functions/_shared/timezone";
+
+// Wednesday, March 4 2026, 12:00 IST (06:30 UTC)
+const NOW = new Date("2026-03-04T06:30:00Z");
+const IST = "Asia/Kolkata";
+const NEW_YORK = "America/New_York";
+const LONDON = "Europe/London";
+
+/** Render an ISO instant as "YYYY-MM-DD HH:mm" wall-clock time in a timezone */
+function local(iso: string, timeZone = IST): string {
+  const p = getZonedParts(new Date(iso), timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month + 1)}-${pad(p.day)} ${pad(p.hours)}:${pad(p.minutes)}`;
+}
+
+function parse(input: string, timeZone = IST, now = NOW): ParsedSchedule | null {
+  return parseSchedule(input, { timeZone, now });
+}
+
+describe("parseSchedule", () => {
+  describe("times of day", () => {
+    it.each([
+      ["3pm", "2026-03-04 15:00"],
+      ["3 pm", "2026-03-04 15:00"],
+      ["3PM", "2026-03-04 15:00"],
+      ["3 p.m.", "2026-03-04 15:00"],
+      ["3:30 pm", "2026-03-04 15:30"],
+      ["3:30pm", "2026-03-04 15:30"],
+      ["15:30", "2026-03-04 15:30"],
+      ["23:59", "2026-03-04 23:59"],
+      ["12:30pm", "2026-03-04 12:30"],
+      ["noon", "2026-03-05 12:00"],
+      ["midday", "2026-03-05 12:00"],
+      ["midnight", "2026-03-05 00:00"],
+      ["afternoon", "2026-03-04 14:00"],
+      ["this afternoon", "2026-03-04 14:00"],
+      ["evening", "2026-03-04 18:00"],
+      ["this evening", "2026-03-04 18:00"],
+      ["tonight", "2026-03-04 20:00"],
+      ["at 9 tonight", "2026-03-04 21:00"],
+      ["9 in the evening", "2026-03-04 21:00"],
+      ["lunchtime", "2026-03-05 12:00"],
+      ["end of day", "2026-03-04 17:00"],
+      ["4 o'clock pm", "2026-03-04 16:00"],
+      ["post at 5pm please", "2026-03-04 17:00"],
+      ["schedule it for 6:45 pm", "2026-03-04 18:45"],
+    ])("%s → %s", (input, expected) => {
+      const result = parse(input);
+      expect(result).not.toBeNull();
+      expect(local(result!.time)).toBe(expected);
+      expect(result!.kind).toBe("absolute");
+      expect(result!.timeSpecified).toBe(true);
+    });
+
+    it.each([
+      ["9am", "2026-03-05 09:00"],
+      ["12pm", "2026-03-05 12:00"],
+      ["morning", "2026-03-05 09:00"],
+      ["11:59 am", "2026-03-05 11:59"],
+      ["12am", "2026-03-05 00:00"],
+      ["09:15", "2026-03-05 09:15"],
+    ])("rolls past times forward a day: %s → %s", (input, expected) => {
+      const result = parse(input)!;
+      expect(local(result.time)).toBe(expected);
+      expect(result.wasRolledForward).toBe(true);
+      expect(result.isPast).toBe(false);
+    });
+
+    it.each([
+      ["at 3", "2026-03-04 15:00", "2026-03-05 03:00"],
+      ["at 9", "2026-03-05 09:00", "2026-03-04 21:00"],
+      ["at 12", "2026-03-05 12:00", "2026-03-05 00:00"],
+      ["3:30", "2026-03-04 15:30", "2026-03-05 03:30"],
+      ["@ 4", "2026-03-04 16:00", "2026-03-05 04:00"],
+    ])("guesses am/pm for bare hours and flags it: %s", (input, expected, alternative) => {
+      const result = parse(input)!;
+      expect(local(result.time)).toBe(expected);
+      expect(result.ambiguous).toBe(true);
+      expect(result.ambiguityReasons[0]).toMatch(/AM or PM/);
+      expect(result.alternatives.map((iso) => local(iso))).toContain(alternative);
+    });
+
+    it.each([
+      ["tomorrow morning at 8", "2026-03-05 08:00"],
+      ["tomorrow evening at 7", "2026-03-05 19:00"],
+      ["friday afternoon at 3", "2026-03-06 15:00"],
+      ["tomorrow at 9 in the morning", "2026-03-05 09:00"],
+    ])("uses period words to settle am/pm: %s", (input, expected) => {
+      const result = parse(input)!;
+      expect(local(result.time)).toBe(expected);
+      expect(result.ambiguous).toBe(false);
+    });
+
+    it("flags more than one time and offers both", () => {
+      const result = parse("tomorrow at 2pm or 3pm")!;
+      expect(local(result.time)).toBe("2026-03-05 14:00");
+      expect(result.ambiguous).toBe(true);
+      expect(result.alternatives.map((iso) => local(iso))).toEqual(["2026-03-05 15:00"]);
+    });
+  });
+
+  describe("day words", () => {
+    it.each([
+      ["tomorrow", "2026-03-05 09:00", false],
+      ["tomorrow at 3pm", "2026-03-05 15:00", true],
+      ["tmrw 10am", "2026-03-05 10:00", true],
+      ["day after tomorrow", "2026-03-06 09:00", false],
+      ["day after tomorrow at 4:15 pm", "2026-03-06 16:15", true],
+      ["today at 5pm", "2026-03-04 17:00", true],
+      ["today 18:00", "2026-03-04 18:00", true],
+      ["next week", "2026-03-11 09:00", false],
+      ["next week at 11am", "2026-03-11 11:00", true],
+    ])("%s → %s", (input, expected, timeSpecified) => {
+      const result = parse(input)!;
+      expect(local(result.time)).toBe(expected);
+      expect(result.dateSpecified).toBe(true);
+      expect(result.timeSpecified).toBe(timeSpecified);
+      expect(result.isPast).toBe(false);
+    });
+
+    it("marks an explicit time that has already passed today", () => {
+      const result = parse("today at 9am")!;
+      expect(local(result.time)).toBe("2026-03-04 09:00");
+      expect(result.isPast).toBe(true);
+      expect(result.wasRolledForward).toBe(false);
+    });
+
+    it("treats midnight as the end of the named day", () => {
+      expect(local(parse("tomorrow at midnight")!.time)).toBe("2026-03-06 00:00");
+    });
+  });
+
+  describe("weekdays", () => {
+    it.each([
+      ["friday", "2026-03-06 09:00"],
+      ["friday at 3pm", "2026-03-06 15:00"],
+      ["on friday at 3pm", "2026-03-06 15:00"],
+      ["this friday 10am", "2026-03-06 10:00"],
+      ["fri 10am", "2026-03-06 10:00"],
+      ["thurs at 2pm", "2026-03-05 14:00"],
+      ["tue at 4pm", "2026-03-10 16:00"],
+      ["monday", "2026-03-09 09:00"],
+      ["sunday evening", "2026-03-08 18:00"],
+      ["saturday 11:30am", "2026-03-07 11:30"],
+      ["wednesday at 5pm", "2026-03-04 17:00"],
+      ["monday next week", "2026-03-09 09:00"],
+      ["friday next week at 2pm", "2026-03-13 14:00"],
+      ["next monday at 9am", "2026-03-09 09:00"],
+      ["next tuesday 10am", "2026-03-10 10:00"],
+      ["next wednesday at 10am", "2026-03-11 10:00"],
+    ])("%s → %s", (input, expected) => {
+      expect(local(parse(input)!.time)).toBe(expected);
+    });
+
+    it("moves today's weekday to next week once its time has passed", () => {
+      const result = parse("wednesday at 9am")!;
+      expect(local(result.time)).toBe("2026-03-11 09:00");
+      expect(result.wasRolledForward).toBe(true);
+    });
+
+    it("flags 'next <weekday>' when it could mean this week or next", () => {
+      const result = parse("next friday at 3pm")!;
+      expect(local(result.time)).toBe("2026-03-06 15:00");
+      expect(result.ambiguous).toBe(true);
+      expect(result.alternatives.map((iso) => local(iso))).toEqual(["2026-03-13 15:00"]);
+    });
+
+    it("does not flag 'next <weekday>' once that day is behind us this week", () => {
+      const result = parse("next monday at 3pm")!;
+      expect(result.ambiguous).toBe(false);
+    });
+  });
+
+  describe("absolute dates", () => {
+    it.each([
+      ["March 3 at 10am", "2027-03-03 10:00"],
+      ["March 5 at 10am", "2026-03-05 10:00"],
+      ["march 5th at 10am", "2026-03-05 10:00"],
+      ["Mar 20 2pm", "2026-03-20 14:00"],
+      ["April 1", "2026-04-01 09:00"],
+      ["apr 1st at 4:30pm", "2026-04-01 16:30"],
+      ["5 March at 10am", "2026-03-05 10:00"],
+      ["5th of March at 10am", "2026-03-05 10:00"],
+      ["20th april 11am", "2026-04-20 11:00"],
+      ["December 25", "2026-12-25 09:00"],
+      ["jan 2", "2027-01-02 09:00"],
+      ["sept 9 at 9:09am", "2026-09-09 09:09"],
+      ["June 1, 2027 at 8am", "2027-06-01 08:00"],
+      ["1 June 2027", "2027-06-01 09:00"],
+      ["2026-03-10 14:00", "2026-03-10 14:00"],
+      ["2026-04-01", "2026-04-01 09:00"],
+      ["15/3 at 10am", "2026-03-15 10:00"],
+      ["31/12/2026 6pm", "2026-12-31 18:00"],
+      ["12/25 at 9am", "2026-12-25 09:00"],
+    ])("%s → %s", (input, expected) => {
+      const result = parse(input)!;
+      expect(result).not.toBeNull();
+      expect(local(result.time)).toBe(expected);
+      expect(result.kind).toBe("absolute");
+      expect(result.dateSpecified).toBe(true);
+    });
+
+    it("reads slash dates day-first by default and flags the other reading", () => {
+      const result = parse("3/4 at 10am")!;
+      expect(local(result.time)).toBe("2026-04-03 10:00");
+      expect(result.ambiguous).toBe(true);
+      expect(result.alternatives.map((iso) => local(iso))).toEqual(["2026-03-04 10:00"]);
+    });
+
+    it("reads slash dates month-first when asked", () => {
+      const result = parseSchedule("4/3 at 10am", { timeZone: IST, now: NOW, dateOrder: "MDY" })!;
+      expect(local(result.time)).toBe("2026-04-03 10:00");
+    });
+
+    it("does not flag slash dates with only one valid reading", () => {
+      expect(parse("25/3 at 10am")!.ambiguous).toBe(false);
+    });
+
+    it("marks dates with an explicit year in the past", () => {
+      const result = parse("March 1, 2026 at 10am")!;
+      expect(result.isPast).toBe(true);
+    });
+
+    it.each(["February 30", "31/4", "2026-02-30", "2026-13-01"])("rejects impossible date %s", (input) => {
+      expect(parse(input)).toBeNull();
+    });
+  });
+
+  describe("ordinals", () => {
+    it.each([
+      ["the 15th", "2026-03-15 09:00"],
+      ["on the 15th at 2pm", "2026-03-15 14:00"],
+      ["the 2nd", "2026-04-02 09:00"],
+      ["on the 31st", "2026-03-31 09:00"],
+      ["first monday of next month", "2026-04-06 09:00"],
+      ["first monday of april at 10am", "2026-04-06 10:00"],
+      ["second tuesday of next month at 3pm", "2026-04-14 15:00"],
+      ["last friday of march", "2026-03-27 09:00"],
+      ["last friday of this month at 5pm", "2026-03-27 17:00"],
+      ["3rd wednesday of may", "2026-05-20 09:00"],
+      ["first monday of march", "2027-03-01 09:00"],
+    ])("%s → %s", (input, expected) => {
+      const result = parse(input)!;
+      expect(result).not.toBeNull();
+      expect(local(result.time)).toBe(expected);
+    });
+
+    it("rejects a fifth weekday that doesn't exist", () => {
+      expect(parse("fifth monday of april")).toBeNull();
+    });
+  });
+
+  describe("relative offsets", () => {
+    it.each([
+      ["in 2 hours", "2026-03-04 14:00"],
+      ["in 1 hour", "2026-03-04 13:00"],
+      ["in an hour", "2026-03-04 13:00"],
+      ["in half an hour", "2026-03-04 12:30"],
+      ["in 30 minutes", "2026-03-04 12:30"],
+      ["in 45 mins", "2026-03-04 12:45"],
+      ["in 90 min", "2026-03-04 13:30"],
+      ["in 1.5 hours", "2026-03-04 13:30"],
+      ["in 3 hrs", "2026-03-04 15:00"],
+      ["in two hours", "2026-03-04 14:00"],
+      ["2 hours from now", "2026-03-04 14:00"],
+      ["after 20 minutes", "2026-03-04 12:20"],
+      ["in 3 days", "2026-03-07 12:00"],
+      ["in 3 days at 10am", "2026-03-07 10:00"],
+      ["in a week", "2026-03-11 12:00"],
+      ["in 2 weeks at 9am", "2026-03-18 09:00"],
+    ])("%s → %s", (input, expected) => {
+      const result = parse(input)!;
+      expect(local(result.time)).toBe(expected);
+      expect(result.kind).toBe("relative");
+      expect(result.ambiguous).toBe(false);
+    });
+
+    it.each(["in a few hours", "in a couple of days"])("flags vague amounts: %s", (input) => {
+      expect(parse(input)!.ambiguous).toBe(true);
+    });
+  });
+
+  describe("immediate", () => {
+    it.each(["now", "right now", "post now", "post it now", "immediately", "asap", "ASAP!"])("%s", (input) => {
+      const result = parse(input)!;
+      expect(result.kind).toBe("immediate");
+      expect(local(result.time)).toBe("2026-03-04 12:01");
+    });
+  });
+
+  describe("recurring", () => {
+    it.each([
+      ["every weekday at 9am", [1, 2, 3, 4, 5], ["2026-03-05 09:00", "2026-03-06 09:00", "2026-03-09 09:00"]],
+      ["weekdays at 10:30am", [1, 2, 3, 4, 5], ["2026-03-05 10:30", "2026-03-06 10:30", "2026-03-09 10:30"]],
+      ["every day at 8pm", [0, 1, 2, 3, 4, 5, 6], ["2026-03-04 20:00", "2026-03-05 20:00", "2026-03-06 20:00"]],
+      ["daily at 7am", [0, 1, 2, 3, 4, 5, 6], ["2026-03-05 07:00", "2026-03-06 07:00", "2026-03-07 07:00"]],
+      ["every monday at 9am", [1], ["2026-03-09 09:00", "2026-03-16 09:00", "2026-03-23 09:00"]],
+      ["every mon and thu at 10am", [1, 4], ["2026-03-05 10:00", "2026-03-09 10:00", "2026-03-12 10:00"]],
+      ["every tuesday, thursday and saturday at 6pm", [2, 4, 6], ["2026-03-05 18:00", "2026-03-07 18:00", "2026-03-10 18:00"]],
+      ["on fridays at 4pm", [5], ["2026-03-06 16:00", "2026-03-13 16:00", "2026-03-20 16:00"]],
+      ["every weekend at 11am", [0, 6], ["2026-03-07 11:00", "2026-03-08 11:00", "2026-03-14 11:00"]],
+      ["every morning", [0, 1, 2, 3, 4, 5, 6], ["2026-03-05 09:00", "2026-03-06 09:00", "2026-03-07 09:00"]],
+    ])("%s", (input, weekdays, firstThree) => {
+      const result = parse(input)!;
+      expect(result.kind).toBe("recurring");
+      expect(result.recurrence!.weekdays).toEqual(weekdays);
+      expect(result.recurrence!.occurrences).toHaveLength(5);
+      expect(result.recurrence!.occurrences.slice(0, 3).map((iso) => local(iso))).toEqual(firstThree);
+      expect(result.time).toBe(result.recurrence!.occurrences[0]);
+    });
+
+    it("flags 'every weekday at 9' as a guessed 9 AM", () => {
+      const result = parse("every weekday at 9")!;
+      expect(local(result.time)).toBe("2026-03-05 09:00");
+      expect(result.recurrence!.hours).toBe(9);
+      expect(result.ambiguous).toBe(true);
+    });
+
+    it("expands the requested number of occurrences", () => {
+      const result = parseSchedule("every weekday at 9am", { timeZone: IST, now: NOW, occurrenceCount: 10 })!;
+      expect(result.recurrence!.occurrences).toHaveLength(10);
+    });
+
+    it("expandRecurrence skips occurrences that already passed today", () => {
+      const occurrences = expandRecurrence({ weekdays: [3], hours: 9, minutes: 0 }, 2, { timeZone: IST, now: NOW });
+      expect(occurrences.map((iso) => local(iso))).toEqual(["2026-03-11 09:00", "2026-03-18 09:00"]);
+    });
+  });
+
+  describe("timezones", () => {
+    // Wednesday, March 4 2026, 01:30 in New York (EST, UTC-5)
+    it.each([
+      ["3pm", "2026-03-04 15:00", "2026-03-04T20:00:00.000Z"],
+      ["tomorrow at 9am", "2026-03-05 09:00", "2026-03-05T14:00:00.000Z"],
+      // US DST starts Sunday March 8 - 9am is now UTC-4
+      ["monday at 9am", "2026-03-09 09:00", "2026-03-09T13:00:00.000Z"],
+      ["March 20 at 10am", "2026-03-20 10:00", "2026-03-20T14:00:00.000Z"],
+    ])("New York: %s", (input, expectedLocal, expectedUtc) => {
+      const result = parse(input, NEW_YORK)!;
+      expect(local(result.time, NEW_YORK)).toBe(expectedLocal);
+      expect(result.time).toBe(expectedUtc);
+      expect(result.timeZone).toBe(NEW_YORK);
+    });
+
+    it("uses the user's calendar day, not UTC's", () => {
+      // 23:00 UTC Mar 4 is already Mar 5 in IST
+      const lateUtc = new Date("2026-03-04T23:00:00Z");
+      expect(local(parse("tomorrow at 10am", IST, lateUtc)!.time)).toBe("2026-03-06 10:00");
+      expect(local(parse("tomorrow at 10am", NEW_YORK, lateUtc)!.time, NEW_YORK)).toBe("2026-03-05 10:00");
+    });
+
+    it("keeps every weekday occurrence at 9am local across a DST change", () => {
+      const result = parse("every weekday at 9am", NEW_YORK)!;
+      expect(result.recurrence!.occurrences.map((iso) => local(iso, NEW_YORK).slice(11))).toEqual(
+        Array(5).fill("09:00")
+      );
+      expect(result.recurrence!.occurrences[3]).toBe("2026-03-09T13:00:00.000Z");
+    });
+
+    it("falls back to IST for unknown timezones", () => {
+      expect(parse("3pm", "Mars/Olympus")!.timeZone).toBe(IST);
+    });
+  });
+
+  describe("unparseable input", () => {
+    it.each([
+      "",
+      "   ",
+      "write a post about AI",
+      "hello",
+      "schedule it",
+      "25:00",
+      "13pm",
+      "tomorrow at 13pm",
+      "post about the market",
+      "may I see the draft",
+    ])("%j → null", (input) => {
+      expect(parse(input)).toBeNull();
+    });
+  });
+});
+
+describe("recurrence rules", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  function next(input: string, days: number, timeZone = IST): string[] {
+    const parsed = parseRecurrenceRule(input, { timeZone, now: NOW })!;
+    return occurrencesBetween(parsed.rule, NOW, new Date(NOW.getTime() + days * DAY), timeZone).map((iso) =>
+      local(iso, timeZone)
+    );
+  }
+
+  it.each([
+    ["every Tuesday at 9am", 14, ["2026-03-10 09:00", "2026-03-17 09:00"]],
+    ["every mon and thu at 10", 7, ["2026-03-05 10:00", "2026-03-09 10:00"]],
+    ["first Monday of the month", 70, ["2026-04-06 09:00", "2026-05-04 09:00"]],
+    ["last friday of every month at 5pm", 40, ["2026-03-27 17:00"]],
+    ["monthly on the 2nd tuesday at 8:30am", 45, ["2026-03-10 08:30", "2026-04-14 08:30"]],
+  ])("%j", (input, days, expected) => {
+    expect(next(input, days)).toEqual(expected);
+  });
+
+  it("keeps monthly occurrences at local time across a DST change", () => {
+    expect(next("first sunday of the month at 9am", 70, NEW_YORK)).toEqual(["2026-04-05 09:00", "2026-05-03 09:00"]);
+  });
+
+  describe("across DST changes", () => {
+    const sundays = (hours: number, minutes: number): RecurrenceRule => ({ type: "weekly", weekdays: [0], hours, minutes });
+    const daily = (hours: number): RecurrenceRule => ({ type: "weekly", weekdays: [0, 1, 2, 3, 4, 5, 6], hours, minutes: 0 });
+
+    it.each([
+      // A skipped time runs an hour later on the day of the change only
+      ["New York spring-forward gap", NEW_YORK, sundays(2, 30), "2026-03-01", "2026-03-16",
+        ["2026-03-01T07:30:00.000Z", "2026-03-08T07:30:00.000Z", "2026-03-15T06:30:00.000Z"]],
+      ["London spring-forward gap", LONDON, sundays(1, 30), "2026-03-22", "2026-04-06",
+        ["2026-03-22T01:30:00.000Z", "2026-03-29T01:30:00.000Z", "2026-04-05T00:30:00.000Z"]],
+      // A repeated time runs once, at its first occurrence
+      ["New York fall-back overlap", NEW_YORK, sundays(1, 30), "2026-10-25", "2026-11-09",
+        ["2026-10-25T05:30:00.000Z", "2026-11-01T05:30:00.000Z", "2026-11-08T06:30:00.000Z"]],
+      ["London fall-back overlap", LONDON, sundays(1, 30), "2026-10-18", "2026-11-02",
+        ["2026-10-18T00:30:00.000Z", "2026-10-25T00:30:00.000Z", "2026-11-01T01:30:00.000Z"]],
+      // Ordinary times keep their wall-clock time through the change
+      ["New York daily at 9am", NEW_YORK, daily(9), "2026-03-07", "2026-03-10",
+        ["2026-03-07T14:00:00.000Z", "2026-03-08T13:00:00.000Z", "2026-03-09T13:00:00.000Z"]],
+      ["London daily at 9am", LONDON, daily(9), "2026-10-24", "2026-10-27",
+        ["2026-10-24T08:00:00.000Z", "2026-10-25T09:00:00.000Z", "2026-10-26T09:00:00.000Z"]],
+      ["London last Sunday of the month at 1:30", LONDON, { type: "monthly", ordinal: -1, weekday: 0, hours: 1, minutes: 30 } as RecurrenceRule,
+        "2026-03-01", "2026-05-01", ["2026-03-29T01:30:00.000Z", "2026-04-26T00:30:00.000Z"]],
+    ])("%s", (_name, timeZone, rule, from, until, expected) => {
+      expect(occurrencesBetween(rule, new Date(`${from}T00:00:00Z`), new Date(`${until}T00:00:00Z`), timeZone)).toEqual(expected);
+    });
+  });
+
+  it.each(["tomorrow at 9", "March 3 at 10am", "write a post"])("%j is not recurring", (input) => {
+    expect(parseRecurrenceRule(input, { timeZone: IST, now: NOW })).toBeNull();
+  });
+
+  it.each([
+    ["every Tuesday at 9am", "Every Tuesday at 9:00 AM"],
+    ["every mon and thu at 2pm", "Every Monday and Thursday at 2:00 PM"],
+    ["every weekday at 9", "Weekdays at 9:00 AM"],
+    ["first Monday of the month", "First Monday of every month at 9:00 AM"],
+    ["last friday of each month at 5pm", "Last Friday of every month at 5:00 PM"],
+  ])("describes %j", (input, expected) => {
+    expect(describeRecurrence(parseRecurrenceRule(input, { timeZone: IST, now: NOW })!.rule)).toBe(expected);
+  });
+});
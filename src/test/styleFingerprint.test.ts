@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  STYLE_PROFILE_VERSION,
+  analyzeWritingStyle,
+  classifyCta,
+  describeStyleProfile,
+  extractStyleFeatures,
+  isCurrentStyleProfile,
+  styleMatch,
+  styleProfileColumns,
+} from "../../supabase/functions/_shared/styleFingerprint";
+
+// Short punchy lines, a blank line between each, emojis at line ends, a
+// question to close and two hashtags
+const POSTS = [
+  "Shipping beats perfect. 🚀\n\nI learned that the hard way last year.\n\nWe waited six months for a launch nobody noticed. 😅\n\nWhat's the longest you've held something back?\n\n#buildinpublic #startups",
+  "Hiring is a product problem.\n\nYou're selling a job to people who don't need it.\n\nTreat the careers page like a landing page. 💡\n\nWhat's on yours?\n\n#hiring #startups",
+  "Shipping beats perfect, again.\n\nOur worst release taught us more than the best one.\n\nI'm not saying break things. 🔧\n\nI'm saying ship them.\n\nWhat did your last release teach you?\n\n#buildinpublic #startups",
+  "Most meetings should be documents.\n\nWrite it down, share it, let people comment. ✍️\n\nWe cut our meetings in half doing this.\n\nWhat's one meeting you'd cancel today?\n\n#startups",
+];
+
+const ESSAY =
+  "In this comprehensive article I would like to discuss the numerous considerations that organisations must take into account when they are evaluating whether to adopt asynchronous communication practices across distributed teams, including documentation culture, tooling investments, and the management practices that are required to sustain them over a long period of time. It is important to note that there is no single approach that will work for every organisation.";
+
+describe("extractStyleFeatures", () => {
+  it("measures lines, sentences, emojis and hashtags", () => {
+    const features = extractStyleFeatures(POSTS[0]);
+
+    expect(features.lines).toBe(4);
+    expect(features.blankLineShare).toBe(1);
+    expect(features.sentenceLengths).toEqual([3, 8, 9, 7]);
+    expect(features.emojis).toEqual(["🚀", "😅"]);
+    expect(features.emojiPlacement).toEqual({ opening: 1, inline: 0, line_end: 1, closing: 0 });
+    expect(features.hashtags).toEqual(["buildinpublic", "startups"]);
+    expect(features.hook).toBe("statement");
+    expect(features.cta).toBe("question");
+    expect(features.contractions).toBe(2);
+  });
+
+  it("tells calls to action apart", () => {
+    expect(classifyCta("Great week.\n\nLink in the comments 👇")).toBe("link");
+    expect(classifyCta("Agree?\n\nFollow me for more.")).toBe("follow");
+    expect(classifyCta("That's it.\n\n♻️ Repost if this helped")).toBe("share");
+    expect(classifyCta("Let me know below.")).toBe("comment");
+    expect(classifyCta("That was the week.")).toBe("none");
+  });
+});
+
+describe("analyzeWritingStyle", () => {
+  const profile = analyzeWritingStyle(POSTS, new Date("2026-03-01T00:00:00Z"))!;
+
+  it("needs a few posts", () => {
+    expect(analyzeWritingStyle(POSTS.slice(0, 2))).toBeNull();
+  });
+
+  it("builds a versioned profile of the habits across posts", () => {
+    expect(profile.version).toBe(STYLE_PROFILE_VERSION);
+    expect(profile.postsAnalyzed).toBe(4);
+    expect(profile.computedAt).toBe("2026-03-01T00:00:00.000Z");
+    expect(profile.lineBreaks.blankLineShare).toBe(1);
+    expect(profile.sentences.shares.long).toBe(0);
+    expect(profile.emoji.postsWithEmoji).toBe(1);
+    expect(profile.emoji.placement.line_end).toBeGreaterThan(profile.emoji.placement.inline);
+    expect(profile.hashtags.common).toEqual(["startups", "buildinpublic"]);
+    expect(profile.ctas.question).toBe(1);
+    expect(profile.vocabulary.signature).toContain("shipping");
+    expect(profile.phrases).toContain("shipping beats perfect");
+    expect(isCurrentStyleProfile(profile)).toBe(true);
+    expect(isCurrentStyleProfile({ ...profile, version: 0 })).toBe(false);
+  });
+
+  it("describes the profile for the model and fills the summary columns", () => {
+    const lines = describeStyleProfile(profile);
+    expect(lines[0]).toBe(`Post length: around ${profile.words.median} words`);
+    expect(lines).toContain("Endings: a question to the reader (100%)");
+    expect(lines.some(line => line.startsWith("Emojis: 1.3 per post, mostly at the end of lines"))).toBe(true);
+
+    const columns = styleProfileColumns(profile);
+    expect(columns).toMatchObject({ emoji_usage: true, hashtag_style: "moderate", style_version: STYLE_PROFILE_VERSION, total_posts_analyzed: 4 });
+  });
+
+  it("scores drafts in the user's voice above ones that aren't", () => {
+    const own = styleMatch(
+      "Done beats perfect. 🚀\n\nI've shipped half-baked things and learned more from them.\n\nYou don't need another month.\n\nWhat are you holding back?\n\n#startups #buildinpublic",
+      profile
+    );
+    const foreign = styleMatch(ESSAY, profile);
+
+    expect(own.score).toBeGreaterThan(75);
+    expect(foreign.score).toBeLessThan(50);
+    expect(foreign.notes).toContain("Denser paragraphs than you usually write");
+    expect(foreign.notes.some(note => note.startsWith("Sentences are longer than yours"))).toBe(true);
+  });
+});
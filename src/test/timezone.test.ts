@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { getZonedParts, zonedTimeToUtc } from "../../supabase/functions/_shared/timezone";
+
+const NEW_YORK = "America/New_York";
+const LONDON = "Europe/London";
+
+/** Render an instant as "YYYY-MM-DD HH:mm" wall-clock time in a timezone */
+function local(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month + 1)}-${pad(p.day)} ${pad(p.hours)}:${pad(p.minutes)}`;
+}
+
+describe("zonedTimeToUtc", () => {
+  // 2026: New York springs forward Mar 8 at 2:00 and falls back Nov 1 at 2:00;
+  // London springs forward Mar 29 at 1:00 and falls back Oct 25 at 2:00
+  it.each([
+    // Either side of spring-forward
+    [NEW_YORK, "2026-03-08 01:59", "2026-03-08T06:59:00.000Z", "2026-03-08 01:59"],
+    [NEW_YORK, "2026-03-08 03:00", "2026-03-08T07:00:00.000Z", "2026-03-08 03:00"],
+    [LONDON, "2026-03-29 00:59", "2026-03-29T00:59:00.000Z", "2026-03-29 00:59"],
+    [LONDON, "2026-03-29 02:00", "2026-03-29T01:00:00.000Z", "2026-03-29 02:00"],
+    // Inside the spring-forward gap: moved later by the hour that was skipped
+    [NEW_YORK, "2026-03-08 02:00", "2026-03-08T07:00:00.000Z", "2026-03-08 03:00"],
+    [NEW_YORK, "2026-03-08 02:30", "2026-03-08T07:30:00.000Z", "2026-03-08 03:30"],
+    [LONDON, "2026-03-29 01:00", "2026-03-29T01:00:00.000Z", "2026-03-29 02:00"],
+    [LONDON, "2026-03-29 01:30", "2026-03-29T01:30:00.000Z", "2026-03-29 02:30"],
+    // Inside the fall-back overlap: the first of the two readings
+    [NEW_YORK, "2026-11-01 01:00", "2026-11-01T05:00:00.000Z", "2026-11-01 01:00"],
+    [NEW_YORK, "2026-11-01 01:30", "2026-11-01T05:30:00.000Z", "2026-11-01 01:30"],
+    [LONDON, "2026-10-25 01:00", "2026-10-25T00:00:00.000Z", "2026-10-25 01:00"],
+    [LONDON, "2026-10-25 01:30", "2026-10-25T00:30:00.000Z", "2026-10-25 01:30"],
+    // Either side of fall-back
+    [NEW_YORK, "2026-11-01 00:59", "2026-11-01T04:59:00.000Z", "2026-11-01 00:59"],
+    [NEW_YORK, "2026-11-01 02:00", "2026-11-01T07:00:00.000Z", "2026-11-01 02:00"],
+    [LONDON, "2026-10-25 00:59", "2026-10-24T23:59:00.000Z", "2026-10-25 00:59"],
+    [LONDON, "2026-10-25 02:00", "2026-10-25T02:00:00.000Z", "2026-10-25 02:00"],
+  ])("%s %s", (timeZone, wallClock, expectedUtc, expectedLocal) => {
+    const [, year, month, day, hours, minutes] = wallClock.match(/^(\d+)-(\d+)-(\d+) (\d+):(\d+)$/)!.map(Number);
+    const utc = zonedTimeToUtc(year, month - 1, day, hours, minutes, timeZone);
+
+    expect(utc.toISOString()).toBe(expectedUtc);
+    expect(local(utc, timeZone)).toBe(expectedLocal);
+  });
+
+  it("rolls days over across a DST change and keeps the wall-clock time", () => {
+    // Day 7 + 2 in New York is Monday Mar 9, after the change to EDT
+    expect(zonedTimeToUtc(2026, 2, 7 + 2, 9, 0, NEW_YORK).toISOString()).toBe("2026-03-09T13:00:00.000Z");
+    expect(zonedTimeToUtc(2026, 9, 24 + 2, 9, 0, LONDON).toISOString()).toBe("2026-10-26T09:00:00.000Z");
+  });
+});
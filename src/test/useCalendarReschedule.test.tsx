@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { toast } from "sonner";
+import type { Post } from "@/hooks/usePosts";
+import { useCalendarReschedule } from "@/hooks/useCalendarReschedule";
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn(), info: vi.fn() },
+}));
+
+const HOUR = 60 * 60 * 1000;
+// Whole hours a few days out, well inside the 30-day window
+const BASE = Math.ceil(Date.now() / HOUR) * HOUR + 48 * HOUR;
+
+function post(id: string, hoursFromBase: number): Post {
+  return {
+    id,
+    user_id: "user-1",
+    workspace_id: "ws-1",
+    agent_id: null,
+    agent_name: null,
+    content: `Post ${id}`,
+    photo_url: null,
+    status: "pending",
+    scheduled_time: new Date(BASE + hoursFromBase * HOUR).toISOString(),
+    posted_at: null,
+    linkedin_post_url: null,
+    linkedin_post_id: null,
+    tracking_id: null,
+    retry_count: 0,
+    last_error: null,
+    next_retry_at: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function mount() {
+  const posts = [post("a", 0), post("b", 24)];
+  const reschedulePost = vi.fn(async () => ({ success: true, extensionSynced: true }));
+  const hook = renderHook(() => useCalendarReschedule({ posts, reschedulePost, timeZone: "UTC", dailyLimit: 10 }));
+  return { ...hook, posts, reschedulePost };
+}
+
+async function dragTo(result: ReturnType<typeof mount>["result"], target: Post, hoursFromBase: number) {
+  act(() => result.current.startDrag(target));
+  await act(async () => {
+    await result.current.drop(new Date(BASE + hoursFromBase * HOUR));
+  });
+}
+
+/** The Undo action of the nth "Moved to" toast */
+function undoAction(n: number): () => void {
+  const action = vi.mocked(toast.success).mock.calls[n][1]?.action as { onClick: (event?: unknown) => void };
+  return () => action.onClick();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("useCalendarReschedule", () => {
+  it("undoes the move its toast announced, not the latest one", async () => {
+    const { result, posts, reschedulePost } = mount();
+    await dragTo(result, posts[0], 3);
+    await dragTo(result, posts[1], 27);
+
+    await act(async () => {
+      undoAction(0)();
+    });
+
+    expect(reschedulePost).toHaveBeenLastCalledWith("a", posts[0].scheduled_time);
+    expect(result.current.canUndo).toBe(true);
+
+    // The other post's move is still the one the toolbar button undoes
+    await act(async () => {
+      await result.current.undo();
+    });
+    expect(reschedulePost).toHaveBeenLastCalledWith("b", posts[1].scheduled_time);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("does nothing when a toast's move was already undone", async () => {
+    const { result, posts, reschedulePost } = mount();
+    await dragTo(result, posts[0], 3);
+
+    await act(async () => {
+      undoAction(0)();
+    });
+    await act(async () => {
+      undoAction(0)();
+    });
+
+    expect(reschedulePost).toHaveBeenCalledTimes(2);
+  });
+});
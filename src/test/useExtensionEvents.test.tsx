@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { ReactNode } from "react";
+import { toast } from "sonner";
+import { useExtensionEvents } from "@/hooks/useExtensionEvents";
+import { postNowToExtension } from "@/lib/scheduling";
+import { installMockExtension, type MockExtension } from "./mockExtension";
+
+const db = await vi.hoisted(async () => {
+  const { createSupabaseMock } = await import("./mockSupabase");
+  return createSupabaseMock();
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: db.client }));
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn(), info: vi.fn() },
+}));
+
+const POST = { id: "post-1", content: "Hello LinkedIn" };
+
+let extension: MockExtension;
+let queryClient: QueryClient;
+
+function renderEvents() {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return renderHook(() => useExtensionEvents(), { wrapper });
+}
+
+const transitions = () => db.client.rpc.mock.calls
+  .filter(([fn]) => fn === "transition_post_status")
+  .map(([, args]) => args);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  queryClient = new QueryClient();
+  extension = installMockExtension({ latencyMs: 100 });
+});
+
+afterEach(() => {
+  extension.uninstall();
+  vi.useRealTimers();
+  vi.clearAllMocks();
+  db.calls.length = 0;
+});
+
+describe("useExtensionEvents with the mock extension", () => {
+  it("tracks a post through posting to published and saves the result", async () => {
+    const { result } = renderEvents();
+
+    let posting: ReturnType<typeof postNowToExtension> | undefined;
+    await act(async () => {
+      posting = postNowToExtension(POST);
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    expect(result.current.postStatuses["post-1"]).toMatchObject({ status: "posting" });
+    expect(toast.info).toHaveBeenCalledWith("Posting Started", expect.anything());
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    const outcome = await posting!;
+
+    expect(outcome.success).toBe(true);
+    expect(outcome.linkedinUrl).toMatch(/urn:li:activity:\d{19}/);
+    expect(result.current.postStatuses["post-1"]).toMatchObject({ status: "posted", linkedinUrl: outcome.linkedinUrl });
+    expect(transitions()).toEqual([
+      expect.objectContaining({
+        p_post_id: "post-1",
+        p_to_status: "posted",
+        p_source: "extension",
+        p_updates: expect.objectContaining({ linkedin_post_url: outcome.linkedinUrl }),
+      }),
+    ]);
+    expect(db.client.rpc).toHaveBeenCalledWith("record_post_published", expect.objectContaining({
+      p_post_id: "post-1",
+      p_source: "web",
+      p_linkedin_post_url: outcome.linkedinUrl,
+    }));
+  });
+
+  it("marks the post failed when posting fails", async () => {
+    const { result } = renderEvents();
+    extension.failNext("POST_NOW", "LinkedIn composer not found");
+
+    let outcome: Awaited<ReturnType<typeof postNowToExtension>> | undefined;
+    await act(async () => {
+      const posting = postNowToExtension(POST);
+      await vi.advanceTimersByTimeAsync(200);
+      outcome = await posting;
+    });
+
+    expect(outcome).toEqual({ success: false, error: "LinkedIn composer not found" });
+    expect(result.current.postStatuses["post-1"]).toMatchObject({ status: "failed" });
+    expect(transitions()).toEqual([
+      expect.objectContaining({ p_to_status: "failed", p_updates: { last_error: "LinkedIn composer not found" } }),
+    ]);
+    expect(toast.error).toHaveBeenCalledWith("Failed to post to LinkedIn", { description: "LinkedIn composer not found" });
+  });
+
+  it("unverifies the LinkedIn account when the extension reports a mismatch", async () => {
+    renderEvents();
+    extension.failNext("POST_NOW", "Account mismatch: logged in as someone else");
+
+    await act(async () => {
+      const posting = postNowToExtension(POST);
+      await vi.advanceTimersByTimeAsync(200);
+      await posting;
+    });
+
+    expect(db.writes("user_profiles")).toEqual([
+      expect.objectContaining({ op: "update", values: { linkedin_verified: false, linkedin_verified_at: null } }),
+    ]);
+  });
+
+  it("refreshes analytics queries when the extension reports new metrics", async () => {
+    const invalidate = vi.spyOn(queryClient, "invalidateQueries");
+    const { result } = renderEvents();
+
+    await act(async () => {
+      extension.emitEvent("analyticsUpdated", { message: "Scraped 3 posts" });
+    });
+
+    expect(result.current.lastEvent).toEqual({ event: "analyticsUpdated", data: { message: "Scraped 3 posts" } });
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ["analytics"] });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { toast } from "sonner";
+import { useLinkedBotExtension } from "@/hooks/useLinkedBotExtension";
+import { installMockExtension, type MockExtension, type MockExtensionOptions } from "./mockExtension";
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn(), info: vi.fn() },
+}));
+
+const POST = { id: "post-1", content: "Hello LinkedIn", scheduleTime: "2026-03-03T09:00:00.000Z", trackingId: "trk-1", status: "pending" as const };
+
+let extension: MockExtension;
+
+async function mountConnected(options: MockExtensionOptions = {}) {
+  extension = installMockExtension({ latencyMs: 50, ...options });
+  const hook = renderHook(() => useLinkedBotExtension());
+  // The hook checks for the extension half a second after mounting
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(600);
+  });
+  return hook;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  localStorage.clear();
+});
+
+afterEach(() => {
+  extension?.uninstall();
+  vi.useRealTimers();
+  vi.clearAllMocks();
+});
+
+describe("useLinkedBotExtension with the mock extension", () => {
+  it("connects when the extension answers the mount-time check", async () => {
+    const { result } = await mountConnected();
+
+    expect(extension.received[0]).toEqual({ type: "CHECK_EXTENSION" });
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.extensionId).toBe("mock-extension");
+    expect(toast.success).toHaveBeenCalledWith("Extension Connected", expect.anything());
+    expect(extension.received).toContainEqual(expect.objectContaining({ type: "PROTOCOL_HELLO" }));
+  });
+
+  it("warns instead when the extension needs a newer web app", async () => {
+    await mountConnected({ minProtocolVersion: 99 });
+
+    expect(toast.warning).toHaveBeenCalledWith("Extension version mismatch", expect.anything());
+    expect(toast.success).not.toHaveBeenCalledWith("Extension Connected", expect.anything());
+  });
+
+  it("waits for the extension to confirm scheduled posts", async () => {
+    const { result } = await mountConnected();
+
+    let response: Awaited<ReturnType<typeof result.current.sendPendingPosts>> | undefined;
+    await act(async () => {
+      const pending = result.current.sendPendingPosts([POST]);
+      await vi.advanceTimersByTimeAsync(50);
+      response = await pending;
+    });
+
+    expect(response).toEqual({ success: true, error: undefined, queueLength: 1 });
+    expect(extension.queue.get("post-1")).toMatchObject({ scheduleTime: POST.scheduleTime, trackingId: "trk-1" });
+    expect(extension.received.find(m => m.type === "SCHEDULE_POSTS")).toHaveProperty("requestId");
+  });
+
+  it("refuses to schedule posts that are still in review", async () => {
+    const { result } = await mountConnected();
+
+    let response: Awaited<ReturnType<typeof result.current.sendPendingPosts>> | undefined;
+    await act(async () => {
+      response = await result.current.sendPendingPosts([POST, { ...POST, id: "post-2", status: "approved" }]);
+    });
+
+    expect(response).toEqual({ success: false, error: "Only approved posts can be sent to the extension" });
+    expect(extension.received.some(m => m.type === "SCHEDULE_POSTS")).toBe(false);
+  });
+
+  it("reports injected scheduling failures and timeouts", async () => {
+    const { result } = await mountConnected();
+
+    extension.failNext("SCHEDULE_POSTS", "Queue is full");
+    let failed: Awaited<ReturnType<typeof result.current.sendPendingPosts>> | undefined;
+    await act(async () => {
+      const pending = result.current.sendPendingPosts([POST]);
+      await vi.advanceTimersByTimeAsync(50);
+      failed = await pending;
+    });
+    expect(failed).toMatchObject({ success: false, error: "Queue is full" });
+
+    extension.setFailure("SCHEDULE_POSTS", "drop");
+    let dropped: Awaited<ReturnType<typeof result.current.sendPendingPosts>> | undefined;
+    await act(async () => {
+      const pending = result.current.sendPendingPosts([POST]);
+      await vi.advanceTimersByTimeAsync(30000);
+      dropped = await pending;
+    });
+    expect(dropped).toEqual({ success: false, error: "Extension did not confirm scheduling" });
+    // One attempt plus two retries, all under the same request id
+    const attempts = extension.received.filter(m => m.type === "SCHEDULE_POSTS").slice(1);
+    expect(attempts).toHaveLength(3);
+    expect(new Set(attempts.map(m => m.requestId)).size).toBe(1);
+  });
+
+  it("hands a post to the extension and toasts the published result", async () => {
+    const { result } = await mountConnected();
+
+    await act(async () => {
+      await result.current.postNow(POST);
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    expect(extension.received).toContainEqual(expect.objectContaining({ type: "POST_NOW", post: { id: "post-1", content: POST.content, imageUrl: null } }));
+    expect(toast.success).toHaveBeenCalledWith("Post Published!", expect.anything());
+  });
+});
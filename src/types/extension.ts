@@ -15,7 +15,10 @@ export type ExtensionEventType =
   | 'alarmFired'
   | 'extensionConnected'
   | 'extensionDisconnected'
-  | 'extensionReadyForScraping';
+  | 'extensionReadyForScraping'
+  | 'linkedinUIChanged'
+  | 'scrapingProgress'
+  | 'scrapingComplete';
 
 export interface ExtensionEventData {
   postId?: string;
@@ -26,6 +29,9 @@ export interface ExtensionEventData {
   scheduledTime?: string;
   queueLength?: number;
   retryIn?: string;
+  // scrapingProgress
+  current?: number;
+  total?: number;
   analytics?: {
     views: number;
     likes: number;
@@ -64,18 +70,26 @@ export interface BulkAnalyticsResult {
   error?: string;
 }
 
+// Protocol v2 - every request carries a requestId that the extension echoes
+// on its result, plus the protocol version it was written against (see
+// src/lib/extensionProtocol.ts). v1 extensions send neither.
+export interface ProtocolEnvelope {
+  requestId?: string;
+  protocolVersion?: number;
+}
+
 // v5.0 - New message types for analytics scraping
-export interface ScrapeAnalyticsMessage {
+export interface ScrapeAnalyticsMessage extends ProtocolEnvelope {
   type: 'SCRAPE_ANALYTICS';
   postUrl: string;
 }
 
-export interface ScrapeBulkAnalyticsMessage {
+export interface ScrapeBulkAnalyticsMessage extends ProtocolEnvelope {
   type: 'SCRAPE_BULK_ANALYTICS';
   postUrls: string[];
 }
 
-export interface AnalyticsResultMessage {
+export interface AnalyticsResultMessage extends ProtocolEnvelope {
   type: 'ANALYTICS_RESULT';
   success: boolean;
   postUrl: string;
@@ -83,7 +97,7 @@ export interface AnalyticsResultMessage {
   error?: string;
 }
 
-export interface BulkAnalyticsResultMessage {
+export interface BulkAnalyticsResultMessage extends ProtocolEnvelope {
   type: 'BULK_ANALYTICS_RESULT';
   success: boolean;
   results: Array<{
@@ -91,6 +105,12 @@ export interface BulkAnalyticsResultMessage {
     url: string;
     analytics?: AnalyticsScrapeResult;
     error?: string;
+    // Older extensions report the metrics on the result itself
+    views?: number;
+    likes?: number;
+    comments?: number;
+    reposts?: number;
+    shares?: number;
   }>;
   total: number;
   successful: number;
@@ -127,12 +147,39 @@ export interface ExtensionConnectedMessage {
   type: 'EXTENSION_CONNECTED';
   version?: string;
   extensionId?: string;
+  protocolVersion?: number;    // Missing on v1 extensions
+  minProtocolVersion?: number; // Oldest web app protocol the extension accepts
+}
+
+// Sent by the web app once it has seen EXTENSION_CONNECTED
+export interface ProtocolHelloMessage {
+  type: 'PROTOCOL_HELLO';
+  protocolVersion: number;
+  minProtocolVersion: number;
 }
 
 export interface ExtensionDisconnectedMessage {
   type: 'EXTENSION_DISCONNECTED';
 }
 
+// Answer to CHECK_EXTENSION
+export interface ExtensionStatusMessage {
+  type: 'EXTENSION_STATUS';
+  connected: boolean;
+  extensionId?: string;
+  requiresRefresh?: boolean;
+}
+
+// The extension was reloaded and can't reach this page until it's refreshed
+export interface ExtensionContextInvalidatedMessage {
+  type: 'EXTENSION_CONTEXT_INVALIDATED';
+}
+
+export interface ExtensionPostsReceivedMessage {
+  type: 'EXTENSION_POSTS_RECEIVED';
+  count: number;
+}
+
 export interface ExtensionEventMessage {
   type: 'EXTENSION_EVENT';
   event: ExtensionEventType;
@@ -140,22 +187,23 @@ export interface ExtensionEventMessage {
 }
 
 // v4.0 - Simplified schedule message (NO user_id)
-export interface SchedulePostsMessage {
+export interface SchedulePostsMessage extends ProtocolEnvelope {
   type: 'SCHEDULE_POSTS';
   posts: PostSchedulePayload[];
 }
 
-export interface ScheduleResultMessage {
+export interface ScheduleResultMessage extends ProtocolEnvelope {
   type: 'SCHEDULE_RESULT';
   success: boolean;
   message?: string;
   scheduledCount?: number;
   queueLength?: number;
   error?: string;
+  requiresRefresh?: boolean;
 }
 
 // v4.0 - Simplified post now message (NO user_id)
-export interface PostNowMessage {
+export interface PostNowMessage extends ProtocolEnvelope {
   type: 'POST_NOW';
   post: {
     id: string;
@@ -164,13 +212,46 @@ export interface PostNowMessage {
   };
 }
 
-export interface PostResultMessage {
+export interface PostResultMessage extends ProtocolEnvelope {
   type: 'POST_RESULT';
   success: boolean;
   postId?: string;
+  trackingId?: string;
+  linkedinUrl?: string;
+  postUrl?: string; // Older extensions' name for linkedinUrl
   error?: string;
+  requiresRefresh?: boolean;
 }
 
+export interface VerifyLinkedInAccountMessage extends ProtocolEnvelope {
+  type: 'VERIFY_LINKEDIN_ACCOUNT';
+  expectedLinkedInId: string;
+}
+
+export interface VerifyResultMessage extends ProtocolEnvelope {
+  type: 'VERIFY_RESULT';
+  success: boolean;
+  linkedinId?: string;
+  message?: string;
+  error?: string;
+  currentLinkedInId?: string;
+  expectedLinkedInId?: string;
+}
+
+// Commands the web app sends without waiting on a result
+export type ExtensionCommandMessage =
+  | { type: 'CHECK_EXTENSION' }
+  | { type: 'CONNECT_EXTENSION' }
+  | { type: 'DISCONNECT_EXTENSION' }
+  | { type: 'CANCEL_POST'; postId: string }
+  | { type: 'SCAN_POSTS'; limit: number }
+  | { type: 'SCRAPE_ANALYTICS' } // No postUrl: the extension picks the posts
+  | { type: 'SET_AUTH'; userId: string; accessToken: string }
+  | { type: 'INITIALIZE_USER'; userId: string; email: string | null }
+  | { type: 'SET_CURRENT_USER'; userId: string }
+  | { type: 'LOGOUT_USER' }
+  | { type: 'CLEAR_USER_SESSION' };
+
 export type ExtensionMessage = 
   | ExtensionConnectedMessage
   | ExtensionDisconnectedMessage
@@ -183,4 +264,36 @@ export type ExtensionMessage =
   | ScrapeBulkAnalyticsMessage
   | AnalyticsResultMessage
   | BulkAnalyticsResultMessage
-  | ExtensionReadyForScrapingMessage;
+  | ExtensionReadyForScrapingMessage
+  | ExtensionStatusMessage
+  | ExtensionContextInvalidatedMessage
+  | ExtensionPostsReceivedMessage
+  | VerifyLinkedInAccountMessage
+  | VerifyResultMessage
+  | ProtocolHelloMessage;
+
+// Requests the web app sends and waits on, and the result each one gets
+export type ExtensionRequestMessage =
+  | SchedulePostsMessage
+  | PostNowMessage
+  | ScrapeAnalyticsMessage
+  | ScrapeBulkAnalyticsMessage
+  | VerifyLinkedInAccountMessage;
+
+export type ExtensionResponseMessage =
+  | ScheduleResultMessage
+  | PostResultMessage
+  | AnalyticsResultMessage
+  | BulkAnalyticsResultMessage
+  | VerifyResultMessage;
+
+// Messages the extension sends to the page
+export type ExtensionInboundMessage =
+  | ExtensionConnectedMessage
+  | ExtensionDisconnectedMessage
+  | ExtensionEventMessage
+  | ExtensionReadyForScrapingMessage
+  | ExtensionStatusMessage
+  | ExtensionContextInvalidatedMessage
+  | ExtensionPostsReceivedMessage
+  | ExtensionResponseMessage;
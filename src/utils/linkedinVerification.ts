@@ -3,6 +3,8 @@
  * Handles extracting IDs, validating URLs, and verifying accounts via extension
  */
 
+import { getExtensionClient } from '@/lib/extensionProtocol';
+
 /**
  * Extract LinkedIn public ID from profile URL
  * Example: "https://www.linkedin.com/in/john-doe/" => "john-doe"
@@ -25,7 +27,7 @@ export function isValidLinkedInUrl(url: string): boolean {
 /**
  * Verify LinkedIn account via extension
  */
-export function verifyLinkedInAccount(expectedLinkedInId: string): Promise<{
+export async function verifyLinkedInAccount(expectedLinkedInId: string): Promise<{
   success: boolean;
   linkedinId?: string;
   error?: string;
@@ -33,46 +35,29 @@ export function verifyLinkedInAccount(expectedLinkedInId: string): Promise<{
   currentLinkedInId?: string;
   expectedLinkedInId?: string;
 }> {
-  return new Promise((resolve, reject) => {
-    const messageHandler = (event: MessageEvent) => {
-      if (event.source !== window) return;
-
-      if (event.data.type === 'VERIFY_RESULT') {
-        window.removeEventListener('message', messageHandler);
-        clearTimeout(timeoutId);
+  // Send verification request to extension — it may need to open a LinkedIn
+  // tab, so allow 30 seconds
+  const result = await getExtensionClient().request(
+    { type: 'VERIFY_LINKEDIN_ACCOUNT', expectedLinkedInId },
+    { timeoutMs: 30000 }
+  );
+  if (result.ok === false) throw new Error('EXTENSION_TIMEOUT');
 
-        if (event.data.success) {
-          resolve({
-            success: true,
-            linkedinId: event.data.linkedinId,
-            message: event.data.message,
-          });
-        } else {
-          resolve({
-            success: false,
-            error: event.data.error,
-            message: event.data.message,
-            currentLinkedInId: event.data.currentLinkedInId,
-            expectedLinkedInId: event.data.expectedLinkedInId,
-          });
-        }
-      }
+  const { response } = result;
+  if (response.success) {
+    return {
+      success: true,
+      linkedinId: response.linkedinId,
+      message: response.message,
     };
-
-    window.addEventListener('message', messageHandler);
-
-    // Send verification request to extension — extension will open LinkedIn if needed
-    window.postMessage({
-      type: 'VERIFY_LINKEDIN_ACCOUNT',
-      expectedLinkedInId,
-    }, '*');
-
-    // Timeout after 30 seconds (extension may need to open LinkedIn tab)
-    const timeoutId = setTimeout(() => {
-      window.removeEventListener('message', messageHandler);
-      reject(new Error('EXTENSION_TIMEOUT'));
-    }, 30000);
-  });
+  }
+  return {
+    success: false,
+    error: response.error,
+    message: response.message,
+    currentLinkedInId: response.currentLinkedInId,
+    expectedLinkedInId: response.expectedLinkedInId,
+  };
 }
 
 /**
@@ -0,0 +1,155 @@
+// ============================================================================
+// SHARED ANALYTICS TIME SERIES
+// ============================================================================
+// Every scrape of a post's metrics is kept in post_analytics_history (the
+// record_post_analytics_history trigger on posts). These helpers turn those
+// points into growth curves, velocity, and overlays aligned by time since
+// publish. Used by get-analytics and the Analytics page. Pure TS (see
+// timezone.ts).
+
+export interface AnalyticsPoint {
+  syncedAt: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+export type GrowthMilestone = '1h' | '24h' | '7d';
+
+export const GROWTH_MILESTONES: { key: GrowthMilestone; hours: number }[] = [
+  { key: '1h', hours: 1 },
+  { key: '24h', hours: 24 },
+  { key: '7d', hours: 24 * 7 },
+];
+
+export interface PostVelocity {
+  /** Views per hour since publish, at the latest scrape */
+  viewsPerHour: number | null;
+  /** Views per hour between the last two scrapes */
+  recentViewsPerHour: number | null;
+  /** Fastest views per hour between any two consecutive scrapes */
+  peakViewsPerHour: number | null;
+  /** Likes + comments + shares per hour since publish */
+  engagementsPerHour: number | null;
+}
+
+export interface PostGrowth {
+  /** Views at each milestone; null until a scrape covers that age */
+  milestones: Record<GrowthMilestone, number | null>;
+  velocity: PostVelocity;
+  /** Hours since publish at the latest scrape */
+  observedHours: number | null;
+  points: number;
+}
+
+/** One row per sample age: { hours, [seriesId]: views | null } */
+export type AlignedRow = { hours: number } & Record<string, number | null>;
+
+/** Ages (hours since publish) the comparison overlay samples */
+export const ALIGNED_SAMPLE_HOURS = [0, 1, 2, 4, 8, 12, 24, 36, 48, 72, 96, 120, 144, 168];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function ageHours(publishedAt: string, at: string): number {
+  return (new Date(at).getTime() - new Date(publishedAt).getTime()) / HOUR_MS;
+}
+
+function engagements(point: AnalyticsPoint): number {
+  return point.likes + point.comments + point.shares;
+}
+
+// Scrapes from before publish (clock skew, re-posts) carry no growth signal
+function pointsByAge(points: AnalyticsPoint[], publishedAt: string) {
+  return points
+    .map(point => ({ age: ageHours(publishedAt, point.syncedAt), point }))
+    .filter(({ age }) => Number.isFinite(age) && age >= 0)
+    .sort((a, b) => a.age - b.age);
+}
+
+/**
+ * Views at `hours` after publish, interpolated linearly between scrapes
+ * (a post starts at 0 views). Null when no scrape is that old yet.
+ */
+export function viewsAtAge(points: AnalyticsPoint[], publishedAt: string, hours: number): number | null {
+  const aged = pointsByAge(points, publishedAt);
+  const afterIndex = aged.findIndex(({ age }) => age >= hours);
+  if (afterIndex === -1) return null;
+
+  const after = aged[afterIndex];
+  const before = afterIndex > 0 ? aged[afterIndex - 1] : { age: 0, point: null };
+  const beforeViews = before.point ? before.point.views : 0;
+
+  if (after.age === before.age) return after.point.views;
+  const fraction = (hours - before.age) / (after.age - before.age);
+  return Math.round(beforeViews + (after.point.views - beforeViews) * fraction);
+}
+
+export function postVelocity(points: AnalyticsPoint[], publishedAt: string): PostVelocity {
+  const aged = pointsByAge(points, publishedAt);
+  const empty = { viewsPerHour: null, recentViewsPerHour: null, peakViewsPerHour: null, engagementsPerHour: null };
+  if (aged.length === 0) return empty;
+
+  const last = aged[aged.length - 1];
+  const lifetimeHours = Math.max(last.age, 1 / 60);
+
+  let peak: number | null = null;
+  let recent: number | null = null;
+  let previous = { age: 0, views: 0 };
+  for (const { age, point } of aged) {
+    const span = age - previous.age;
+    if (span > 0) {
+      recent = (point.views - previous.views) / span;
+      peak = peak === null ? recent : Math.max(peak, recent);
+    }
+    previous = { age, views: point.views };
+  }
+
+  return {
+    viewsPerHour: last.point.views / lifetimeHours,
+    recentViewsPerHour: recent,
+    peakViewsPerHour: peak,
+    engagementsPerHour: engagements(last.point) / lifetimeHours,
+  };
+}
+
+export function postGrowth(points: AnalyticsPoint[], publishedAt: string | null): PostGrowth {
+  const milestones = { '1h': null, '24h': null, '7d': null } as Record<GrowthMilestone, number | null>;
+  if (!publishedAt) {
+    return {
+      milestones,
+      velocity: { viewsPerHour: null, recentViewsPerHour: null, peakViewsPerHour: null, engagementsPerHour: null },
+      observedHours: null,
+      points: points.length,
+    };
+  }
+
+  for (const { key, hours } of GROWTH_MILESTONES) {
+    milestones[key] = viewsAtAge(points, publishedAt, hours);
+  }
+
+  const aged = pointsByAge(points, publishedAt);
+  return {
+    milestones,
+    velocity: postVelocity(points, publishedAt),
+    observedHours: aged.length > 0 ? aged[aged.length - 1].age : null,
+    points: points.length,
+  };
+}
+
+/**
+ * Overlay several posts on one time axis (hours since publish). Samples past
+ * a post's latest scrape are null so its line stops where the data does.
+ */
+export function alignByAge(
+  series: { id: string; publishedAt: string; points: AnalyticsPoint[] }[],
+  sampleHours: number[] = ALIGNED_SAMPLE_HOURS
+): AlignedRow[] {
+  return sampleHours.map(hours => {
+    const row = { hours } as AlignedRow;
+    for (const { id, publishedAt, points } of series) {
+      row[id] = hours === 0 ? 0 : viewsAtAge(points, publishedAt, hours);
+    }
+    return row;
+  });
+}
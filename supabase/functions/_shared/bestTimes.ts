@@ -0,0 +1,231 @@
+// ============================================================================
+// SHARED BEST-TIME-TO-POST ENGINE
+// ============================================================================
+// Learns when a user's audience engages from their own scraped posts
+// (post_analytics, linkedin_post_history and our posts, via the
+// get_best_time_samples RPC). Each post is scored per follower at the time it
+// went out, bucketed by weekday and hour in the user's timezone, and blended
+// with typical LinkedIn working-day peaks until there is enough data. The
+// ranking drives the scheduling dialog, the agent's suggested times and
+// multi-post plans. Pure TS (see timezone.ts).
+
+import { getZonedDateKey, getZonedParts, zonedTimeToUtc } from './timezone.ts';
+
+export interface BestTimeSample {
+  postedAt: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  /** Followers when the post went out; null if never recorded */
+  followers: number | null;
+}
+
+export interface SlotScore {
+  weekday: number; // 0 = Sunday
+  hour: number;
+  /** Relative to the user's typical post (1 = typical) */
+  score: number;
+  /** Posts that went out in this slot */
+  posts: number;
+}
+
+export interface BestTimeHeatmap {
+  timeZone: string;
+  /** cells[weekday][hour] */
+  cells: SlotScore[][];
+  /** Suggestable slots, best first */
+  ranked: SlotScore[];
+  sampleSize: number;
+  /** False while the ranking is still mostly the default prior */
+  learned: boolean;
+}
+
+/** Posts needed before the ranking counts as learned */
+export const MIN_LEARNED_SAMPLES = 8;
+
+/** Hours (local) we'll suggest; a viral 3am post shouldn't make 3am a plan */
+export const SUGGESTED_HOURS = { from: 7, to: 21 };
+
+// Typical LinkedIn working-day peaks, used before the user has data
+const PRIOR_PEAK_HOURS = [8, 10, 12, 17, 19];
+
+// How many posts' worth of weight the prior carries in each slot
+const PRIOR_WEIGHT = 2;
+
+// A post counts this much towards the neighbouring hours
+const NEIGHBOUR_WEIGHTS = [1, 0.5, 0.2];
+
+// One outlier shouldn't own the heatmap
+const MAX_RELATIVE_SCORE = 4;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** The slice of a Supabase client this module needs (see postStatus.ts) */
+export interface BestTimesClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+function priorScore(weekday: number, hour: number): number {
+  const distance = Math.min(...PRIOR_PEAK_HOURS.map(peak => Math.abs(peak - hour)));
+  const byHour = distance === 0 ? 1.1 : distance === 1 ? 0.9 : hour >= 7 && hour <= 21 ? 0.7 : 0.3;
+  const byDay = weekday === 0 || weekday === 6 ? 0.6 : weekday >= 2 && weekday <= 4 ? 1.1 : 1;
+  return byHour * byDay;
+}
+
+/**
+ * Engagement per follower. Comments and reshares reach further than likes,
+ * and any engagement counts for more than a view.
+ */
+export function sampleScore(sample: BestTimeSample): number {
+  const engagement = sample.likes + 2 * sample.comments + 3 * sample.shares;
+  const reach = sample.views + 20 * engagement;
+  return reach / Math.max(sample.followers ?? 0, 100);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function buildBestTimeHeatmap(samples: BestTimeSample[], timeZone: string): BestTimeHeatmap {
+  const weights = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  const sums = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  const counts = Array.from({ length: 7 }, () => new Array(24).fill(0));
+
+  const valid = samples.filter(s => Number.isFinite(new Date(s.postedAt).getTime()));
+  const scores = valid.map(sampleScore);
+  const typical = median(scores.filter(score => score > 0)) || 1;
+
+  valid.forEach((sample, i) => {
+    const { weekday, hours } = getZonedParts(new Date(sample.postedAt), timeZone);
+    const relative = Math.min(scores[i] / typical, MAX_RELATIVE_SCORE);
+    counts[weekday][hours] += 1;
+
+    NEIGHBOUR_WEIGHTS.forEach((weight, offset) => {
+      const spread = offset === 0 ? [hours] : [hours - offset, hours + offset];
+      for (const hour of spread) {
+        if (hour < 0 || hour > 23) continue;
+        weights[weekday][hour] += weight;
+        sums[weekday][hour] += weight * relative;
+      }
+    });
+  });
+
+  const cells = weights.map((row, weekday) =>
+    row.map((weight, hour) => ({
+      weekday,
+      hour,
+      score: (sums[weekday][hour] + PRIOR_WEIGHT * priorScore(weekday, hour)) / (weight + PRIOR_WEIGHT),
+      posts: counts[weekday][hour],
+    }))
+  );
+
+  const ranked = cells
+    .flat()
+    .filter(cell => cell.hour >= SUGGESTED_HOURS.from && cell.hour <= SUGGESTED_HOURS.to)
+    .sort((a, b) => b.score - a.score || a.weekday - b.weekday || a.hour - b.hour);
+
+  return {
+    timeZone,
+    cells,
+    ranked,
+    sampleSize: valid.length,
+    learned: valid.length >= MIN_LEARNED_SAMPLES,
+  };
+}
+
+/** "Tue 10:00 AM" */
+export function describeSlot(slot: Pick<SlotScore, 'weekday' | 'hour'>): string {
+  const period = slot.hour >= 12 ? 'PM' : 'AM';
+  const hour12 = slot.hour % 12 || 12;
+  return `${WEEKDAY_LABELS[slot.weekday]} ${hour12}:00 ${period}`;
+}
+
+/** Best hours of the day regardless of weekday, best first */
+export function bestHours(heatmap: BestTimeHeatmap, count = 5): number[] {
+  const hours: number[] = [];
+  for (const slot of heatmap.ranked) {
+    if (!hours.includes(slot.hour)) hours.push(slot.hour);
+    if (hours.length === count) break;
+  }
+  return hours;
+}
+
+export interface NextSlotsOptions {
+  /** Earliest instant to consider (default: 30 minutes from now) */
+  from?: Date;
+  /** Already-queued times; their days are skipped so posts don't stack up */
+  taken?: (string | null | undefined)[];
+}
+
+/**
+ * The next `count` publish times for a posting plan: the best slot of each
+ * day, taking the strongest days within reach (at most one post per day),
+ * returned in date order.
+ */
+export function nextBestSlots(heatmap: BestTimeHeatmap, count: number, options: NextSlotsOptions = {}): string[] {
+  if (count <= 0) return [];
+
+  const { timeZone } = heatmap;
+  const from = options.from ?? new Date(Date.now() + 30 * 60 * 1000);
+  const takenDays = new Set(
+    (options.taken || []).filter((t): t is string => !!t).map(t => getZonedDateKey(new Date(t), timeZone))
+  );
+
+  // Give the plan room to skip weak days without stretching over months
+  const horizonDays = Math.max(7, Math.ceil(count * 1.5) + takenDays.size);
+  const start = getZonedParts(from, timeZone);
+
+  const days: { time: Date; score: number }[] = [];
+  for (let offset = 0; offset < horizonDays; offset++) {
+    let best: { time: Date; score: number } | null = null;
+    for (let hour = SUGGESTED_HOURS.from; hour <= SUGGESTED_HOURS.to; hour++) {
+      const time = zonedTimeToUtc(start.year, start.month, start.day + offset, hour, 0, timeZone);
+      if (time < from) continue;
+      const { weekday } = getZonedParts(time, timeZone);
+      const score = heatmap.cells[weekday][hour].score;
+      if (!best || score > best.score) best = { time, score };
+    }
+    if (best && !takenDays.has(getZonedDateKey(best.time, timeZone))) days.push(best);
+  }
+
+  return days
+    .sort((a, b) => b.score - a.score || a.time.getTime() - b.time.getTime())
+    .slice(0, count)
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .map(day => day.time.toISOString());
+}
+
+/** Load the user's samples and rank their posting slots */
+export async function loadBestTimeHeatmap(
+  client: BestTimesClient,
+  userId: string,
+  timeZone: string
+): Promise<BestTimeHeatmap> {
+  const { data, error } = await client.rpc('get_best_time_samples', { p_user_id: userId });
+  if (error) throw new Error(error.message);
+
+  const rows = (Array.isArray(data) ? data : []) as {
+    posted_at: string;
+    views: number | null;
+    likes: number | null;
+    comments: number | null;
+    shares: number | null;
+    followers: number | null;
+  }[];
+
+  return buildBestTimeHeatmap(
+    rows.map(row => ({
+      postedAt: row.posted_at,
+      views: row.views || 0,
+      likes: row.likes || 0,
+      comments: row.comments || 0,
+      shares: row.shares || 0,
+      followers: row.followers,
+    })),
+    timeZone
+  );
+}
@@ -0,0 +1,414 @@
+// ============================================================================
+// SHARED AGENT CHAT TOOLS
+// ============================================================================
+// Function tools the agent chat declares to the model, plus argument
+// validation for the tool calls it returns. The model decides *what* to do;
+// agent-chat only executes calls whose arguments pass these checks.
+// Pure TS (see timezone.ts).
+
+import {
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  VARIANT_STYLES,
+  isVariantDimension,
+  isVariantStyle,
+  type VariantDimension,
+} from './postVariants.ts';
+
+export type ChatToolName =
+  | 'draft_post'
+  | 'draft_variants'
+  | 'schedule_post'
+  | 'generate_image'
+  | 'list_queue'
+  | 'reschedule_post'
+  | 'research_topic';
+
+export interface DraftPostArgs {
+  content: string;
+  topic?: string;
+  replaces_post_id?: string;
+  /** Labels of the research_topic sources the draft relies on ("S1") */
+  sources?: string[];
+}
+
+export interface DraftVariantsArgs {
+  dimension: VariantDimension;
+  variants: { style: string; content: string }[];
+  topic?: string;
+  /** Draft the variants are alternatives to; it's replaced by them */
+  replaces_post_id?: string;
+  sources?: string[];
+}
+
+export interface SchedulePostArgs {
+  when: string;
+  post_id?: string;
+}
+
+export interface GenerateImageArgs {
+  post_id?: string;
+}
+
+export interface ListQueueArgs {
+  limit: number;
+}
+
+export interface ReschedulePostArgs {
+  post_id: string;
+  when: string;
+}
+
+export interface ResearchTopicArgs {
+  topic: string;
+}
+
+export type ChatToolCall =
+  | { name: 'draft_post'; args: DraftPostArgs }
+  | { name: 'draft_variants'; args: DraftVariantsArgs }
+  | { name: 'schedule_post'; args: SchedulePostArgs }
+  | { name: 'generate_image'; args: GenerateImageArgs }
+  | { name: 'list_queue'; args: ListQueueArgs }
+  | { name: 'reschedule_post'; args: ReschedulePostArgs }
+  | { name: 'research_topic'; args: ResearchTopicArgs };
+
+export type ToolCallValidation =
+  | { ok: true; call: ChatToolCall }
+  | { ok: false; error: string };
+
+/** OpenAI-compatible function tool declaration */
+export interface ChatToolDefinition {
+  type: 'function';
+  function: {
+    name: ChatToolName;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export const MIN_POST_LENGTH = 20;
+export const MAX_POST_LENGTH = 3000;
+export const DEFAULT_QUEUE_LIMIT = 10;
+export const MAX_QUEUE_LIMIT = 25;
+
+// Read-only tools feed their result back to the model for another turn
+export const READ_ONLY_TOOLS: ChatToolName[] = ['list_queue', 'research_topic'];
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'draft_post',
+      description:
+        'Create or revise a LinkedIn post draft. Put the complete post text in `content` - never write the post in your reply. ' +
+        'When the user asks for changes to an existing draft ("make it shorter"), pass the full revised text and the draft id in `replaces_post_id`.',
+      parameters: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', description: 'The full post text, plain text with line breaks, no markdown' },
+          topic: { type: 'string', description: 'Short label for what the post is about' },
+          replaces_post_id: { type: 'string', description: 'Id of the draft this revision replaces' },
+          sources: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Labels of the research_topic sources the post relies on, e.g. ["S1", "S3"]',
+          },
+        },
+        required: ['content'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'draft_variants',
+      description:
+        `Write ${MIN_VARIANTS}-${MAX_VARIANTS} versions of the same post for the user to pick from, when they ask for options, variants or an A/B test. ` +
+        'All versions make the same point and differ only along `dimension`: how the post opens (hook), how long it is (length) or its tone. ' +
+        'Pass a draft id in `replaces_post_id` to offer alternatives to an existing draft.',
+      parameters: {
+        type: 'object',
+        properties: {
+          dimension: { type: 'string', enum: Object.keys(VARIANT_STYLES) },
+          variants: {
+            type: 'array',
+            minItems: MIN_VARIANTS,
+            maxItems: MAX_VARIANTS,
+            items: {
+              type: 'object',
+              properties: {
+                style: {
+                  type: 'string',
+                  description: `Hook: ${VARIANT_STYLES.hook.join(', ')}. Length: ${VARIANT_STYLES.length.join(', ')}. Tone: ${VARIANT_STYLES.tone.join(', ')}`,
+                },
+                content: { type: 'string', description: 'The full post text, plain text with line breaks, no markdown' },
+              },
+              required: ['style', 'content'],
+              additionalProperties: false,
+            },
+          },
+          topic: { type: 'string', description: 'Short label for what the post is about' },
+          replaces_post_id: { type: 'string', description: 'Id of the draft these are alternatives to' },
+          sources: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Labels of the research_topic sources the posts rely on, e.g. ["S1", "S3"]',
+          },
+        },
+        required: ['dimension', 'variants'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'schedule_post',
+      description:
+        'Schedule a draft for publishing once the user has approved it. `when` is the user\'s own wording ("Thursday 9am", "tomorrow at 3pm", "in 2 hours"), "now" to publish immediately, or "best time" for the user\'s best learned slot. ' +
+        'Defaults to the draft created in this turn, otherwise the latest draft.',
+      parameters: {
+        type: 'object',
+        properties: {
+          when: { type: 'string', description: 'When to publish, as the user said it, "now" or "best time"' },
+          post_id: { type: 'string', description: 'Id of the draft to schedule' },
+        },
+        required: ['when'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'generate_image',
+      description: 'Generate an AI image for a draft. Only call this when the user asked for an image.',
+      parameters: {
+        type: 'object',
+        properties: {
+          post_id: { type: 'string', description: 'Id of the draft; defaults to the latest one' },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_queue',
+      description: 'List posts that are queued for publishing (not yet posted), soonest first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: MAX_QUEUE_LIMIT },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'reschedule_post',
+      description: 'Move a queued post to a new time. Get the id from list_queue first.',
+      parameters: {
+        type: 'object',
+        properties: {
+          post_id: { type: 'string', description: 'Id of the queued post' },
+          when: { type: 'string', description: 'New time, as the user said it, or "best time"' },
+        },
+        required: ['post_id', 'when'],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'research_topic',
+      description:
+        'Look up recent news and insights on a specific topic before drafting, so the post is current. ' +
+        'Each source comes back with a label (S1, S2...); pass the ones the post relies on as draft_post `sources`.',
+      parameters: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string', description: 'What to research' },
+        },
+        required: ['topic'],
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined | null {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') return null;
+  return value.trim() || undefined;
+}
+
+function requiredString(args: Record<string, unknown>, key: string): string | null {
+  const value = optionalString(args, key);
+  return value ?? null;
+}
+
+function postContent(args: Record<string, unknown>): { ok: true; content: string } | { ok: false; error: string } {
+  const content = requiredString(args, 'content');
+  if (!content) return { ok: false, error: '`content` is required' };
+  if (content.length < MIN_POST_LENGTH) return { ok: false, error: `\`content\` must be at least ${MIN_POST_LENGTH} characters` };
+  if (content.length > MAX_POST_LENGTH) return { ok: false, error: `\`content\` must be at most ${MAX_POST_LENGTH} characters` };
+  return { ok: true, content };
+}
+
+function sourceLabels(value: unknown): string[] | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) return null;
+  return value as string[];
+}
+
+/**
+ * Parse and validate a tool call returned by the model. `rawArgs` is the
+ * JSON string from the response (or an already-parsed object).
+ */
+export function validateToolCall(name: string, rawArgs: unknown): ToolCallValidation {
+  let args: Record<string, unknown>;
+  try {
+    const parsed = typeof rawArgs === 'string' ? (rawArgs.trim() ? JSON.parse(rawArgs) : {}) : rawArgs ?? {};
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { ok: false, error: 'Arguments must be a JSON object' };
+    }
+    args = parsed as Record<string, unknown>;
+  } catch {
+    return { ok: false, error: 'Arguments are not valid JSON' };
+  }
+
+  switch (name) {
+    case 'draft_post': {
+      const post = postContent(args);
+      if (post.ok === false) return { ok: false, error: post.error };
+      const topic = optionalString(args, 'topic');
+      const replaces = optionalString(args, 'replaces_post_id');
+      if (topic === null || replaces === null) return { ok: false, error: '`topic` and `replaces_post_id` must be strings' };
+      const sources = sourceLabels(args.sources);
+      if (sources === null) return { ok: false, error: '`sources` must be a list of source labels' };
+      return { ok: true, call: { name, args: { content: post.content, topic, replaces_post_id: replaces, sources } } };
+    }
+
+    case 'draft_variants': {
+      const dimension = args.dimension;
+      if (!isVariantDimension(dimension)) {
+        return { ok: false, error: `\`dimension\` must be one of ${Object.keys(VARIANT_STYLES).join(', ')}` };
+      }
+      const rawVariants = args.variants;
+      if (!Array.isArray(rawVariants) || rawVariants.length < MIN_VARIANTS || rawVariants.length > MAX_VARIANTS) {
+        return { ok: false, error: `\`variants\` must list ${MIN_VARIANTS}-${MAX_VARIANTS} versions` };
+      }
+
+      const variants: DraftVariantsArgs['variants'] = [];
+      for (const raw of rawVariants) {
+        if (!raw || typeof raw !== 'object') return { ok: false, error: 'Each variant needs a `style` and `content`' };
+        const variant = raw as Record<string, unknown>;
+        const style = typeof variant.style === 'string' ? variant.style.trim().toLowerCase() : '';
+        if (!isVariantStyle(dimension, style)) {
+          return { ok: false, error: `A ${dimension} variant's \`style\` must be one of ${VARIANT_STYLES[dimension].join(', ')}` };
+        }
+        if (variants.some(v => v.style === style)) return { ok: false, error: 'Each variant needs a different `style`' };
+        const post = postContent(variant);
+        if (post.ok === false) return { ok: false, error: post.error };
+        variants.push({ style, content: post.content });
+      }
+
+      const topic = optionalString(args, 'topic');
+      const replaces = optionalString(args, 'replaces_post_id');
+      if (topic === null || replaces === null) return { ok: false, error: '`topic` and `replaces_post_id` must be strings' };
+      const sources = sourceLabels(args.sources);
+      if (sources === null) return { ok: false, error: '`sources` must be a list of source labels' };
+      return { ok: true, call: { name, args: { dimension, variants, topic, replaces_post_id: replaces, sources } } };
+    }
+
+    case 'schedule_post': {
+      const when = requiredString(args, 'when');
+      if (!when) return { ok: false, error: '`when` is required' };
+      const postId = optionalString(args, 'post_id');
+      if (postId === null) return { ok: false, error: '`post_id` must be a string' };
+      return { ok: true, call: { name, args: { when, post_id: postId } } };
+    }
+
+    case 'generate_image': {
+      const postId = optionalString(args, 'post_id');
+      if (postId === null) return { ok: false, error: '`post_id` must be a string' };
+      return { ok: true, call: { name, args: { post_id: postId } } };
+    }
+
+    case 'list_queue': {
+      const limit = args.limit ?? DEFAULT_QUEUE_LIMIT;
+      if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+        return { ok: false, error: '`limit` must be a positive integer' };
+      }
+      return { ok: true, call: { name, args: { limit: Math.min(limit, MAX_QUEUE_LIMIT) } } };
+    }
+
+    case 'reschedule_post': {
+      const postId = requiredString(args, 'post_id');
+      const when = requiredString(args, 'when');
+      if (!postId || !when) return { ok: false, error: '`post_id` and `when` are required' };
+      return { ok: true, call: { name, args: { post_id: postId, when } } };
+    }
+
+    case 'research_topic': {
+      const topic = requiredString(args, 'topic');
+      if (!topic) return { ok: false, error: '`topic` is required' };
+      return { ok: true, call: { name, args: { topic } } };
+    }
+
+    default:
+      return { ok: false, error: `Unknown tool: ${name}` };
+  }
+}
+
+/** Whether `when` asks to publish immediately rather than at a time */
+export function isImmediateRequest(when: string): boolean {
+  return /^(now|right now|immediately|asap|right away)$/i.test(when.trim());
+}
+
+/** Whether `when` leaves the time to the user's learned best slot */
+export function isBestTimeRequest(when: string): boolean {
+  return /^(?:at )?(?:the )?(?:best|optimal|ideal)(?: posting)? (?:time|slot)$|^whenever(?: is)? best$/i.test(when.trim());
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+/**
+ * Value of a string argument while the model is still streaming the call's
+ * JSON, e.g. the draft text from `{"content":"Shipping beats pol`. Returns
+ * null until the key has appeared. An escape cut off at the end is dropped.
+ */
+export function partialStringArgument(argumentsSoFar: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(argumentsSoFar);
+  if (!match) return null;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < argumentsSoFar.length; i++) {
+    const char = argumentsSoFar[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const next = argumentsSoFar[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = argumentsSoFar.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,251 @@
+// ============================================================================
+// SHARED CONTENT PERFORMANCE INSIGHTS
+// ============================================================================
+// Correlates features of the user's posts (opening line, length, emojis,
+// hashtags, image, agent type, posting hour) with engagement rate and turns
+// the strongest differences into plain-language findings such as "Posts under
+// 120 words with an image get 2.1× the engagement". get-agent-context feeds
+// the findings to the agents; get-analytics shows them on the Analytics page.
+// Pure TS (see timezone.ts).
+
+import { getZonedParts } from './timezone.ts';
+
+export interface InsightPost {
+  content: string;
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  /** Null when the source doesn't know (scraped history) */
+  hasImage: boolean | null;
+  agentType: string | null;
+  postedAt: string | null;
+}
+
+export type HookStyle = 'question' | 'number' | 'story' | 'quote' | 'statement';
+
+export interface PostFeatures {
+  hook: HookStyle;
+  wordCount: number;
+  /** Emojis per 100 words */
+  emojiDensity: number;
+  hashtagCount: number;
+  hasImage: boolean | null;
+  agentType: string | null;
+  /** Local hour of day, null when the publish time is unknown */
+  hour: number | null;
+}
+
+export type InsightDimension = 'hook' | 'length' | 'emoji' | 'hashtags' | 'image' | 'agent' | 'hour';
+
+export interface InsightFinding {
+  /** Bucket per dimension, e.g. { length: 'short', image: 'with' } */
+  buckets: Partial<Record<InsightDimension, string>>;
+  /** Mean engagement rate of matching posts over that of the rest */
+  ratio: number;
+  posts: number;
+  text: string;
+}
+
+export interface ContentInsights {
+  sampleSize: number;
+  /** Mean engagement rate (likes + comments + shares per view) */
+  baselineRate: number;
+  findings: InsightFinding[];
+}
+
+/** Posts with views needed before any finding is reported */
+export const MIN_INSIGHT_POSTS = 6;
+
+// Each side of a comparison needs this many posts
+const MIN_BUCKET_POSTS = 3;
+
+// Smaller differences are noise at these sample sizes
+const MIN_EFFECT = 1.25;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu;
+const STORY_OPENERS = /^(i|i'm|i've|my|we|when i|last (week|month|year)|yesterday|today|years ago|\d+ (years|months) ago)\b/i;
+
+export function openingLine(content: string): string {
+  return content.trim().split('\n').find(line => line.trim())?.trim() || '';
+}
+
+export function classifyHook(content: string): HookStyle {
+  const line = openingLine(content).replace(EMOJI_PATTERN, '').trim();
+  if (line.endsWith('?')) return 'question';
+  if (/^["“'‘]/.test(line)) return 'quote';
+  if (/^\d/.test(line) || /^(top|the) \d+\b/i.test(line)) return 'number';
+  if (STORY_OPENERS.test(line)) return 'story';
+  return 'statement';
+}
+
+export function extractFeatures(post: InsightPost, timeZone: string): PostFeatures {
+  const words = post.content.trim().split(/\s+/).filter(Boolean);
+  const emojis = post.content.match(EMOJI_PATTERN)?.length || 0;
+  const postedAt = post.postedAt ? new Date(post.postedAt) : null;
+
+  return {
+    hook: classifyHook(post.content),
+    wordCount: words.length,
+    emojiDensity: words.length > 0 ? (emojis / words.length) * 100 : 0,
+    hashtagCount: post.content.match(HASHTAG_PATTERN)?.length || 0,
+    hasImage: post.hasImage,
+    agentType: post.agentType,
+    hour: postedAt && Number.isFinite(postedAt.getTime()) ? getZonedParts(postedAt, timeZone).hours : null,
+  };
+}
+
+export function engagementRate(post: Pick<InsightPost, 'views' | 'likes' | 'comments' | 'shares'>): number {
+  return post.views > 0 ? (post.likes + post.comments + post.shares) / post.views : 0;
+}
+
+// How each dimension buckets a post, and how a bucket reads in a sentence.
+// Phrases starting with "that" read last: "posts with an image that open with a question".
+const DIMENSIONS: Record<InsightDimension, {
+  bucket: (f: PostFeatures) => string | null;
+  phrase: (bucket: string) => string;
+}> = {
+  hook: {
+    bucket: f => f.hook,
+    phrase: b => ({
+      question: 'that open with a question',
+      number: 'that open with a number',
+      story: 'that open with a personal story',
+      quote: 'that open with a quote',
+      statement: 'that open with a bold statement',
+    })[b] || b,
+  },
+  length: {
+    bucket: f => (f.wordCount < 120 ? 'short' : f.wordCount <= 250 ? 'medium' : 'long'),
+    phrase: b => ({ short: 'under 120 words', medium: 'of 120-250 words', long: 'over 250 words' })[b] || b,
+  },
+  emoji: {
+    bucket: f => (f.emojiDensity === 0 ? 'none' : f.emojiDensity <= 3 ? 'few' : 'many'),
+    phrase: b => ({ none: 'without emojis', few: 'with a few emojis', many: 'with lots of emojis' })[b] || b,
+  },
+  hashtags: {
+    bucket: f => (f.hashtagCount === 0 ? 'none' : f.hashtagCount <= 3 ? 'some' : 'many'),
+    phrase: b => ({ none: 'without hashtags', some: 'with 1-3 hashtags', many: 'with 4+ hashtags' })[b] || b,
+  },
+  image: {
+    bucket: f => (f.hasImage === null ? null : f.hasImage ? 'with' : 'without'),
+    phrase: b => (b === 'with' ? 'with an image' : 'without an image'),
+  },
+  agent: {
+    bucket: f => f.agentType,
+    phrase: b => `written by the ${b} agent`,
+  },
+  hour: {
+    bucket: f => {
+      if (f.hour === null) return null;
+      if (f.hour >= 5 && f.hour < 11) return 'morning';
+      if (f.hour >= 11 && f.hour < 14) return 'midday';
+      if (f.hour >= 14 && f.hour < 18) return 'afternoon';
+      if (f.hour >= 18 && f.hour < 22) return 'evening';
+      return 'night';
+    },
+    phrase: b => (b === 'midday' ? 'posted around midday' : b === 'night' ? 'posted at night' : `posted in the ${b}`),
+  },
+};
+
+// Pairs worth reading together; every dimension is also tried on its own
+const PAIRS: [InsightDimension, InsightDimension][] = [
+  ['length', 'image'],
+  ['hook', 'image'],
+  ['hook', 'length'],
+  ['length', 'hashtags'],
+  ['emoji', 'hook'],
+];
+
+function describe(buckets: Partial<Record<InsightDimension, string>>, ratio: number): string {
+  const phrases = (Object.keys(buckets) as InsightDimension[])
+    .map(dimension => DIMENSIONS[dimension].phrase(buckets[dimension] as string))
+    .sort((a, b) => Number(a.startsWith('that')) - Number(b.startsWith('that')));
+  const subject = `Posts ${phrases.join(' ')}`;
+  return ratio >= 1
+    ? `${subject} get ${ratio.toFixed(1)}× the engagement`
+    : `${subject} get ${Math.round((1 - ratio) * 100)}% less engagement`;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function buildContentInsights(
+  posts: InsightPost[],
+  timeZone: string,
+  maxFindings = 5
+): ContentInsights {
+  const rows = posts
+    .filter(post => post.views > 0 && post.content?.trim())
+    .map(post => ({ features: extractFeatures(post, timeZone), rate: engagementRate(post) }));
+
+  const baselineRate = rows.length > 0 ? mean(rows.map(r => r.rate)) : 0;
+  if (rows.length < MIN_INSIGHT_POSTS || baselineRate === 0) {
+    return { sampleSize: rows.length, baselineRate, findings: [] };
+  }
+
+  const combos: InsightDimension[][] = [
+    ...(Object.keys(DIMENSIONS) as InsightDimension[]).map(d => [d]),
+    ...PAIRS,
+  ];
+
+  const candidates: InsightFinding[] = [];
+  for (const dimensions of combos) {
+    const groups = new Map<string, number[]>();
+    rows.forEach((row, i) => {
+      const buckets = dimensions.map(d => DIMENSIONS[d].bucket(row.features));
+      if (buckets.some(b => b === null)) return;
+      const key = buckets.join('|');
+      groups.set(key, [...(groups.get(key) || []), i]);
+    });
+
+    const known = [...groups.values()].flat();
+    for (const [key, members] of groups) {
+      const others = known.filter(i => !members.includes(i));
+      if (members.length < MIN_BUCKET_POSTS || others.length < MIN_BUCKET_POSTS) continue;
+
+      const othersRate = mean(others.map(i => rows[i].rate));
+      if (othersRate === 0) continue;
+      const ratio = mean(members.map(i => rows[i].rate)) / othersRate;
+      if (ratio < MIN_EFFECT && ratio > 1 / MIN_EFFECT) continue;
+
+      const values = key.split('|');
+      const buckets = Object.fromEntries(dimensions.map((d, i) => [d, values[i]])) as InsightFinding['buckets'];
+      candidates.push({ buckets, ratio, posts: members.length, text: describe(buckets, ratio) });
+    }
+  }
+
+  // Strongest effects with the most support first; a pair only adds
+  // something when it beats both of its single-dimension findings
+  const strength = (f: InsightFinding) => Math.abs(Math.log(f.ratio)) * Math.sqrt(f.posts);
+  const singles = new Map(
+    candidates
+      .filter(f => Object.keys(f.buckets).length === 1)
+      .map(f => [JSON.stringify(f.buckets), f])
+  );
+  const findings = candidates
+    .filter(f => {
+      const dims = Object.keys(f.buckets) as InsightDimension[];
+      if (dims.length === 1) return true;
+      return dims.every(d => {
+        const single = singles.get(JSON.stringify({ [d]: f.buckets[d] }));
+        return !single || strength(f) > strength(single);
+      });
+    })
+    .sort((a, b) => strength(b) - strength(a));
+
+  // One finding per dimension (or pair of them) keeps the list varied
+  const seen = new Set<string>();
+  const picked: InsightFinding[] = [];
+  for (const finding of findings) {
+    const key = Object.keys(finding.buckets).sort().join('+');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    picked.push(finding);
+    if (picked.length === maxFindings) break;
+  }
+
+  return { sampleSize: rows.length, baselineRate, findings: picked };
+}
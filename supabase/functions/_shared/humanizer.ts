@@ -0,0 +1,319 @@
+// ============================================================================
+// SHARED POST HUMANIZER
+// ============================================================================
+// Rewrites stock AI phrasing in generated drafts. Each agent carries its own
+// rule set in agents.settings.humanizer: whether the built-in casual rewrites
+// run at all, its own replacements and banned phrases, how contractions are
+// treated, and caps on emojis and hashtags. Agents without settings get
+// DEFAULT_HUMANIZER_RULES, which is the casual rewrite every agent used to
+// get. humanizeWithChanges reports every rewrite so the UI can show what was
+// changed. Used by agent-chat and, through src/lib/postHelpers.ts, the app.
+// Pure TS (see timezone.ts).
+
+export type ContractionMode = 'force' | 'forbid' | 'keep';
+
+export interface HumanizerReplacement {
+  from: string;
+  to: string;
+}
+
+export interface HumanizerRules {
+  /** The built-in casual rewrites ("In conclusion," -> "Bottom line:", buzzwords...) */
+  defaultReplacements: boolean;
+  /** The agent's own rewrites, applied before the built-in ones */
+  replacements: HumanizerReplacement[];
+  /** Phrases cut from the post wherever they appear */
+  bannedPhrases: string[];
+  contractions: ContractionMode;
+  /** Emojis past the cap are removed, keeping the first ones. Null: no cap */
+  maxEmojis: number | null;
+  maxHashtags: number | null;
+  /** Drop a closing "What do you think?" / "Thoughts?" */
+  removeGenericEndings: boolean;
+}
+
+export type HumanizerChangeKind =
+  | 'replacement'
+  | 'contraction'
+  | 'banned_phrase'
+  | 'emoji_limit'
+  | 'hashtag_limit'
+  | 'generic_ending';
+
+/** One rewrite, counted over every place it happened. `to` is '' for removals */
+export interface HumanizerChange {
+  kind: HumanizerChangeKind;
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface HumanizeResult {
+  content: string;
+  changes: HumanizerChange[];
+}
+
+export const DEFAULT_HUMANIZER_RULES: HumanizerRules = {
+  defaultReplacements: true,
+  replacements: [],
+  bannedPhrases: [],
+  contractions: 'force',
+  maxEmojis: null,
+  maxHashtags: null,
+  removeGenericEndings: true,
+};
+
+/** Limits on what an agent's settings may hold */
+export const MAX_HUMANIZER_PHRASES = 50;
+const MAX_PHRASE_LENGTH = 100;
+
+const DEFAULT_REPLACEMENTS: [RegExp, string][] = [
+  // Conclusions
+  [/In conclusion,/gi, 'Bottom line:'],
+  [/To conclude,/gi, 'Look,'],
+  [/To summarize,/gi, "Here's the deal:"],
+  [/In summary,/gi, "Here's what matters:"],
+
+  // Sharing phrases
+  [/Let me share/gi, "Here's"],
+  [/I'd like to share/gi, 'Gonna share'],
+  [/I want to share/gi, "Here's"],
+
+  // Formal transitions
+  [/Furthermore,/gi, 'Plus,'],
+  [/Moreover,/gi, 'Also,'],
+  [/Additionally,/gi, 'And'],
+  [/However,/gi, 'But'],
+  [/Therefore,/gi, 'So'],
+
+  // Buzzwords
+  [/\bleverage\b/gi, 'use'],
+  [/\butilize\b/gi, 'use'],
+  [/\bsynergy\b/gi, 'teamwork'],
+  [/\boptimize\b/gi, 'improve'],
+
+  // Formal phrases
+  [/In order to/gi, 'To'],
+  [/I would like to/gi, 'I want to'],
+  [/For example,/gi, 'Like,'],
+
+  // AI starters
+  [/^As a .+?, I/gm, 'I'],
+];
+
+// Long form -> contraction; 'force' rewrites left to right, 'forbid' right to left
+const CONTRACTIONS: [string, string][] = [
+  ['I am', "I'm"],
+  ['you are', "you're"],
+  ['we are', "we're"],
+  ['they are', "they're"],
+  ['it is', "it's"],
+  ['that is', "that's"],
+  ['do not', "don't"],
+  ['does not', "doesn't"],
+  ['did not', "didn't"],
+  ['is not', "isn't"],
+  ['are not', "aren't"],
+  ['cannot', "can't"],
+  ['will not', "won't"],
+];
+
+const GENERIC_ENDING = /\n\n(What do you think\?|Thoughts\?|What's your take\?)\s*$/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\u{FE0F}|\u200D\p{Extended_Pictographic})*/gu;
+const HASHTAG_PATTERN = /[ \t]*#[\p{L}\p{N}_]+/gu;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive, and whole words where the phrase starts or ends with one
+function phrasePattern(phrase: string, prefix = ''): RegExp {
+  const start = /^\w/.test(phrase) ? '\\b' : '';
+  const end = /\w$/.test(phrase) ? '\\b' : '';
+  return new RegExp(`${prefix}${start}${escapeRegExp(phrase)}${end}`, 'gi');
+}
+
+// "Leverage" -> "Use", "leverage" -> "use"; "I" is always a capital
+function matchCase(matched: string, replacement: string): string {
+  const first = matched.trimStart()[0];
+  if (!first || !replacement || /^I\b/.test(replacement) || first.toUpperCase() === first.toLowerCase()) return replacement;
+  return first === first.toUpperCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement[0].toLowerCase() + replacement.slice(1);
+}
+
+class ChangeLog {
+  private changes = new Map<string, HumanizerChange>();
+
+  add(kind: HumanizerChangeKind, from: string, to: string) {
+    const key = `${kind}\u0000${from.trim().toLowerCase()}\u0000${to.toLowerCase()}`;
+    const existing = this.changes.get(key);
+    if (existing) existing.count++;
+    else this.changes.set(key, { kind, from: from.trim(), to, count: 1 });
+  }
+
+  list(): HumanizerChange[] {
+    return [...this.changes.values()];
+  }
+}
+
+function rewrite(
+  content: string,
+  pattern: RegExp,
+  kind: HumanizerChangeKind,
+  log: ChangeLog,
+  replacement: (matched: string) => string
+): string {
+  return content.replace(pattern, (matched) => {
+    const to = replacement(matched);
+    if (to !== matched) log.add(kind, matched, to);
+    return to;
+  });
+}
+
+// Keeps the first `max` matches of the pattern and removes the rest
+function capMatches(content: string, pattern: RegExp, max: number, kind: HumanizerChangeKind, log: ChangeLog): string {
+  let seen = 0;
+  return content.replace(pattern, (matched) => {
+    seen++;
+    if (seen <= max) return matched;
+    log.add(kind, matched, '');
+    return '';
+  });
+}
+
+// Spacing and capitals left behind when words were cut out
+function tidyRemovals(content: string): string {
+  return content
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+([,.!?;:])/g, '$1')
+    .replace(/^[ \t]*[,;:][ \t]*/gm, '')
+    .replace(/([.!?])[ \t]*[,;:]/g, '$1')
+    .replace(/(^|[.!?][ \t]+)(\p{Ll})/gmu, (_, before: string, letter: string) => before + letter.toUpperCase())
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Apply the rules and report what was changed */
+export function humanizeWithChanges(content: string, rules: HumanizerRules = DEFAULT_HUMANIZER_RULES): HumanizeResult {
+  const log = new ChangeLog();
+  let humanized = content;
+  let removed = false;
+
+  for (const { from, to } of rules.replacements) {
+    humanized = rewrite(humanized, phrasePattern(from), 'replacement', log, (matched) => matchCase(matched, to));
+  }
+
+  if (rules.defaultReplacements) {
+    for (const [pattern, to] of DEFAULT_REPLACEMENTS) {
+      humanized = rewrite(humanized, pattern, 'replacement', log, (matched) => matchCase(matched, to));
+    }
+  }
+
+  if (rules.contractions !== 'keep') {
+    for (const [long, short] of CONTRACTIONS) {
+      const [from, to] = rules.contractions === 'force' ? [long, short] : [short, long];
+      humanized = rewrite(humanized, phrasePattern(from), 'contraction', log, (matched) => matchCase(matched, to));
+      if (from.includes("'")) {
+        humanized = rewrite(humanized, phrasePattern(from.replace("'", '’')), 'contraction', log, (matched) => matchCase(matched, to));
+      }
+    }
+  }
+
+  for (const phrase of rules.bannedPhrases) {
+    const before = humanized;
+    humanized = rewrite(humanized, phrasePattern(phrase, '[ \\t]*'), 'banned_phrase', log, () => '');
+    if (humanized !== before) removed = true;
+  }
+
+  if (rules.maxEmojis !== null) {
+    const before = humanized;
+    humanized = capMatches(humanized, EMOJI_PATTERN, rules.maxEmojis, 'emoji_limit', log);
+    if (humanized !== before) removed = true;
+  }
+
+  if (rules.maxHashtags !== null) {
+    const before = humanized;
+    humanized = capMatches(humanized, HASHTAG_PATTERN, rules.maxHashtags, 'hashtag_limit', log);
+    if (humanized !== before) removed = true;
+  }
+
+  if (rules.removeGenericEndings) {
+    humanized = rewrite(humanized, GENERIC_ENDING, 'generic_ending', log, () => '');
+  }
+
+  return { content: removed ? tidyRemovals(humanized) : humanized, changes: log.list() };
+}
+
+/** Humanize post content by replacing AI phrases with the agent's preferred ones */
+export function humanizePost(content: string, rules: HumanizerRules = DEFAULT_HUMANIZER_RULES): string {
+  return humanizeWithChanges(content, rules).content;
+}
+
+function phraseList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const phrases = value
+    .filter((phrase): phrase is string => typeof phrase === 'string')
+    .map(phrase => phrase.trim())
+    .filter(phrase => phrase.length > 0 && phrase.length <= MAX_PHRASE_LENGTH);
+  return [...new Set(phrases)].slice(0, MAX_HUMANIZER_PHRASES);
+}
+
+function limit(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/** Read agents.settings.humanizer over the defaults, ignoring anything malformed */
+export function humanizerRulesFromSettings(settings: unknown): HumanizerRules {
+  if (!settings || typeof settings !== 'object') return DEFAULT_HUMANIZER_RULES;
+  const humanizer = (settings as { humanizer?: unknown }).humanizer;
+  if (!humanizer || typeof humanizer !== 'object') return DEFAULT_HUMANIZER_RULES;
+  const raw = humanizer as Record<string, unknown>;
+
+  const replacements = Array.isArray(raw.replacements)
+    ? raw.replacements
+      .filter((r): r is HumanizerReplacement =>
+        !!r && typeof r === 'object' && typeof (r as HumanizerReplacement).from === 'string' && typeof (r as HumanizerReplacement).to === 'string')
+      .map(r => ({ from: r.from.trim(), to: r.to.trim() }))
+      .filter(r => r.from && r.from.length <= MAX_PHRASE_LENGTH && r.to.length <= MAX_PHRASE_LENGTH)
+      .slice(0, MAX_HUMANIZER_PHRASES)
+    : [];
+
+  return {
+    defaultReplacements: typeof raw.defaultReplacements === 'boolean' ? raw.defaultReplacements : DEFAULT_HUMANIZER_RULES.defaultReplacements,
+    replacements,
+    bannedPhrases: phraseList(raw.bannedPhrases),
+    contractions: raw.contractions === 'force' || raw.contractions === 'forbid' || raw.contractions === 'keep'
+      ? raw.contractions
+      : DEFAULT_HUMANIZER_RULES.contractions,
+    maxEmojis: limit(raw.maxEmojis),
+    maxHashtags: limit(raw.maxHashtags),
+    removeGenericEndings: typeof raw.removeGenericEndings === 'boolean' ? raw.removeGenericEndings : DEFAULT_HUMANIZER_RULES.removeGenericEndings,
+  };
+}
+
+function capLine(max: number | null, noun: string): string | null {
+  if (max === null) return null;
+  return max === 0 ? `No ${noun}s` : `At most ${max} ${noun}${max === 1 ? '' : 's'} per post`;
+}
+
+/**
+ * The agent's own rules as instructions for the model, so drafts need less
+ * rewriting. The built-in rewrites and contractions are covered by the chat
+ * prompt itself.
+ */
+export function describeHumanizerRules(rules: HumanizerRules): string[] {
+  const lines: string[] = [];
+  if (rules.bannedPhrases.length > 0) {
+    lines.push(`Never use: ${rules.bannedPhrases.map(p => `"${p}"`).join(', ')}`);
+  }
+  for (const { from, to } of rules.replacements) {
+    lines.push(to ? `Write "${to}" instead of "${from}"` : `Never use "${from}"`);
+  }
+  const emojis = capLine(rules.maxEmojis, 'emoji');
+  if (emojis) lines.push(emojis);
+  const hashtags = capLine(rules.maxHashtags, 'hashtag');
+  if (hashtags) lines.push(hashtags);
+  return lines;
+}
@@ -0,0 +1,675 @@
+// ============================================================================
+// SHARED LLM PROVIDER LAYER
+// ============================================================================
+// One way to call chat, image and embedding models, whichever provider is behind them.
+// Providers are configured by admins in the ai_providers table (keys stay in
+// backend secrets; rows only name the secret). Agents can pick a provider and
+// model in agents.settings.llm; when a provider answers 429 (rate limit),
+// 402 (out of credits) or 503 (model loading) the next enabled provider is tried.
+// Messages and tools use the OpenAI chat format; other APIs are adapted here.
+// Pure TS (see timezone.ts) - callers pass env lookup and fetch.
+
+import { readSSE } from './sse.ts';
+
+export type LLMProviderKind = 'openai' | 'anthropic' | 'ollama' | 'huggingface';
+
+// 'chat' = image returned from chat/completions with modalities (Lovable gateway)
+export type ImageApi = 'images' | 'chat';
+
+export interface LLMProviderConfig {
+  id: string;
+  name: string;
+  kind: LLMProviderKind;
+  baseUrl: string;
+  apiKeyEnv: string | null;
+  chatModel: string | null;
+  imageModel: string | null;
+  imageApi: ImageApi | null;
+  /** OpenAI-compatible /embeddings model, for reference material retrieval */
+  embeddingModel: string | null;
+  models: string[];
+  priority: number;
+  enabled: boolean;
+}
+
+/** Row shape of public.ai_providers */
+export interface AIProviderRow {
+  id: string;
+  name: string;
+  kind: string;
+  base_url: string;
+  api_key_env: string | null;
+  chat_model: string | null;
+  image_model: string | null;
+  image_api: string | null;
+  embedding_model?: string | null;
+  models: string[] | null;
+  priority: number;
+  is_enabled: boolean;
+}
+
+/** Per-agent choice stored in agents.settings.llm */
+export interface LLMPreference {
+  provider?: string;
+  model?: string;
+}
+
+export interface LLMToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+}
+
+export interface LLMToolDefinition {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export type LLMToolChoice = 'auto' | 'none' | { type: 'function'; function: { name: string } };
+
+export interface ChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: LLMToolChoice;
+  maxTokens?: number;
+}
+
+export interface ChatResult {
+  message: LLMMessage;
+  provider: string;
+  model: string;
+}
+
+export interface ImageResult {
+  /** Remote or data: URL, when the provider returns one */
+  url: string | null;
+  /** Raw image bytes, when the provider returns binary/base64 */
+  bytes: Uint8Array | null;
+  contentType: string;
+  provider: string;
+  model: string;
+}
+
+export interface EmbeddingResult {
+  /** One vector per input text, in input order */
+  vectors: number[][];
+  provider: string;
+  model: string;
+}
+
+export interface ProviderCallOptions {
+  providers: LLMProviderConfig[];
+  preference?: LLMPreference | null;
+  getEnv: (key: string) => string | undefined;
+  fetchImpl?: typeof fetch;
+  signal?: AbortSignal;
+}
+
+/** Incremental output while a chat completion streams */
+export interface ChatStreamHandlers {
+  onText?: (delta: string) => void;
+  /** Arguments received so far for the tool call at `index` */
+  onToolCall?: (index: number, name: string, argumentsSoFar: string) => void;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public provider: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /** Rate limit, exhausted credits or a model still loading - worth trying the next provider */
+  get shouldFallback(): boolean {
+    return this.status === 429 || this.status === 402 || this.status === 503;
+  }
+}
+
+export const LLM_PROVIDER_KINDS: { value: LLMProviderKind; label: string; defaultBaseUrl: string }[] = [
+  { value: 'openai', label: 'OpenAI-compatible', defaultBaseUrl: 'https://api.openai.com/v1' },
+  { value: 'anthropic', label: 'Anthropic', defaultBaseUrl: 'https://api.anthropic.com/v1' },
+  { value: 'ollama', label: 'Ollama / local mock', defaultBaseUrl: 'http://localhost:11434/v1' },
+  { value: 'huggingface', label: 'Hugging Face (images)', defaultBaseUrl: 'https://api-inference.huggingface.co' },
+];
+
+// Used when the ai_providers table is empty or can't be read
+export const DEFAULT_PROVIDERS: LLMProviderConfig[] = [
+  {
+    id: 'huggingface',
+    name: 'Hugging Face',
+    kind: 'huggingface',
+    baseUrl: 'https://api-inference.huggingface.co',
+    apiKeyEnv: 'HUGGINGFACE_API_KEY',
+    chatModel: null,
+    imageModel: 'stabilityai/stable-diffusion-xl-base-1.0',
+    imageApi: null,
+    embeddingModel: null,
+    models: [],
+    priority: 0,
+    enabled: true,
+  },
+  {
+    id: 'lovable',
+    name: 'Lovable AI Gateway',
+    kind: 'openai',
+    baseUrl: 'https://ai.gateway.lovable.dev/v1',
+    apiKeyEnv: 'LOVABLE_API_KEY',
+    chatModel: 'google/gemini-3-flash-preview',
+    imageModel: 'google/gemini-3-pro-image-preview',
+    imageApi: 'chat',
+    embeddingModel: null,
+    models: ['google/gemini-3-flash-preview'],
+    priority: 10,
+    enabled: true,
+  },
+];
+
+const KINDS = LLM_PROVIDER_KINDS.map(k => k.value);
+
+// A provider's key is sent to its base_url, which admins choose, so a row may
+// only name an *_API_KEY secret - never a SUPABASE_* one like the service role
+// key. The api_key_env CHECK constraint enforces the same rule.
+const API_KEY_ENV_PATTERN = /^[A-Z0-9_]+_API_KEY$/;
+
+export function isAllowedApiKeyEnv(name: string): boolean {
+  return API_KEY_ENV_PATTERN.test(name) && !name.startsWith('SUPABASE_');
+}
+
+export function providersFromRows(rows: AIProviderRow[] | null | undefined): LLMProviderConfig[] {
+  const providers = (rows || [])
+    .filter(row => (KINDS as string[]).includes(row.kind))
+    .filter(row => !row.api_key_env || isAllowedApiKeyEnv(row.api_key_env))
+    .map((row): LLMProviderConfig => ({
+      id: row.id,
+      name: row.name,
+      kind: row.kind as LLMProviderKind,
+      baseUrl: row.base_url.replace(/\/+$/, ''),
+      apiKeyEnv: row.api_key_env,
+      chatModel: row.chat_model,
+      imageModel: row.image_model,
+      imageApi: row.image_api === 'chat' || row.image_api === 'images' ? row.image_api : null,
+      embeddingModel: row.embedding_model || null,
+      models: row.models || [],
+      priority: row.priority,
+      enabled: row.is_enabled,
+    }));
+  return providers.length > 0 ? providers : DEFAULT_PROVIDERS;
+}
+
+/** Read agents.settings.llm, ignoring anything malformed */
+export function preferenceFromSettings(settings: unknown): LLMPreference | null {
+  if (!settings || typeof settings !== 'object') return null;
+  const llm = (settings as { llm?: unknown }).llm;
+  if (!llm || typeof llm !== 'object') return null;
+  const { provider, model } = llm as Record<string, unknown>;
+  return {
+    provider: typeof provider === 'string' && provider ? provider : undefined,
+    model: typeof model === 'string' && model ? model : undefined,
+  };
+}
+
+export type ProviderCapability = 'chat' | 'image' | 'embedding';
+
+/**
+ * Providers to try, in order, with the model to use on each. The preferred
+ * provider goes first; the rest follow by priority. Providers without a model
+ * for the capability, or whose key secret isn't set, are skipped.
+ */
+export function resolveProviderChain(
+  capability: ProviderCapability,
+  options: Pick<ProviderCallOptions, 'providers' | 'preference' | 'getEnv'>
+): { provider: LLMProviderConfig; model: string }[] {
+  const { providers, preference, getEnv } = options;
+  const ordered = providers
+    .filter(p => p.enabled)
+    .sort((a, b) => {
+      if (preference?.provider) {
+        if (a.id === preference.provider) return -1;
+        if (b.id === preference.provider) return 1;
+      }
+      return a.priority - b.priority;
+    });
+
+  const chain: { provider: LLMProviderConfig; model: string }[] = [];
+  for (const provider of ordered) {
+    if (provider.apiKeyEnv && (!isAllowedApiKeyEnv(provider.apiKeyEnv) || !getEnv(provider.apiKeyEnv))) continue;
+
+    const preferredModel = capability === 'chat' && preference?.provider === provider.id ? preference.model : undefined;
+    const model = preferredModel || {
+      chat: provider.chatModel,
+      image: provider.imageModel,
+      embedding: provider.embeddingModel,
+    }[capability];
+    if (!model) continue;
+    if (capability === 'chat' && provider.kind === 'huggingface') continue;
+    if (capability === 'image' && (provider.kind === 'anthropic' || provider.kind === 'ollama')) continue;
+    if (capability === 'embedding' && provider.kind !== 'openai' && provider.kind !== 'ollama') continue;
+
+    chain.push({ provider, model });
+  }
+  return chain;
+}
+
+async function runChain<T>(
+  capability: ProviderCapability,
+  options: ProviderCallOptions,
+  call: (provider: LLMProviderConfig, model: string, apiKey: string | undefined) => Promise<T>
+): Promise<T> {
+  const chain = resolveProviderChain(capability, options);
+  if (chain.length === 0) {
+    throw new LLMProviderError(`No ${capability} provider is configured`, 'none');
+  }
+
+  let lastError: LLMProviderError | null = null;
+  for (const { provider, model } of chain) {
+    try {
+      return await call(provider, model, provider.apiKeyEnv ? options.getEnv(provider.apiKeyEnv) : undefined);
+    } catch (error) {
+      if (error instanceof LLMProviderError && error.shouldFallback) {
+        console.warn(`⚠️ ${provider.name} returned ${error.status}, trying next provider...`);
+        lastError = error;
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw lastError!;
+}
+
+async function providerError(provider: LLMProviderConfig, response: Response): Promise<LLMProviderError> {
+  const errorText = await response.text().catch(() => '');
+  console.error(`${provider.name} error:`, response.status, errorText);
+
+  if (response.status === 429) {
+    return new LLMProviderError('Rate limit exceeded. Please try again in a moment.', provider.id, 429);
+  }
+  if (response.status === 402) {
+    return new LLMProviderError('AI credits exhausted. Please add credits to continue.', provider.id, 402);
+  }
+  return new LLMProviderError(`${provider.name} error: ${response.status}`, provider.id, response.status);
+}
+
+// ============================================================================
+// CHAT
+// ============================================================================
+
+/**
+ * Send a chat completion to the first available provider, falling back on
+ * 429/402/503. With `stream`, tokens are requested as SSE and reported as they
+ * arrive; the resolved message is the same either way. Fallback only happens
+ * before the first token.
+ */
+export function chatCompletion(
+  request: ChatRequest,
+  options: ProviderCallOptions,
+  stream?: ChatStreamHandlers
+): Promise<ChatResult> {
+  const fetchImpl = options.fetchImpl || fetch;
+  return runChain('chat', options, async (provider, model, apiKey) => {
+    console.log(`🤖 Calling ${provider.name} (${model})${stream ? ' [stream]' : ''}...`);
+    const call = { provider, model, apiKey, request, fetchImpl, signal: options.signal, stream };
+    const message = provider.kind === 'anthropic' ? await anthropicChat(call) : await openAIChat(call);
+    return { message, provider: provider.id, model };
+  });
+}
+
+interface ChatCall {
+  provider: LLMProviderConfig;
+  model: string;
+  apiKey: string | undefined;
+  request: ChatRequest;
+  fetchImpl: typeof fetch;
+  signal?: AbortSignal;
+  stream?: ChatStreamHandlers;
+}
+
+function assistantMessage(provider: LLMProviderConfig, text: string, toolCalls: LLMToolCall[]): LLMMessage {
+  if (!text && toolCalls.length === 0) {
+    throw new LLMProviderError('Invalid AI response format', provider.id);
+  }
+  return { role: 'assistant', content: text || null, tool_calls: toolCalls.length ? toolCalls : undefined };
+}
+
+async function openAIChat({ provider, model, apiKey, request, fetchImpl, signal, stream }: ChatCall): Promise<LLMMessage> {
+  const response = await fetchImpl(`${provider.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      messages: request.messages,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.tools ? { tools: request.tools, tool_choice: request.toolChoice || 'auto' } : {}),
+      ...(stream ? { stream: true } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.ok) throw await providerError(provider, response);
+
+  if (!stream) {
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    return assistantMessage(provider, message?.content || '', message?.tool_calls || []);
+  }
+
+  if (!response.body) throw new LLMProviderError('Empty AI response stream', provider.id);
+
+  let text = '';
+  const toolCalls: LLMToolCall[] = [];
+  for await (const { data } of readSSE(response.body)) {
+    if (data === '[DONE]') break;
+
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    const delta = chunk.choices?.[0]?.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      text += delta.content;
+      stream.onText?.(delta.content);
+    }
+    for (const part of delta.tool_calls || []) {
+      const index: number = part.index ?? 0;
+      const call = toolCalls[index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      stream.onToolCall?.(index, call.function.name, call.function.arguments);
+    }
+  }
+
+  return assistantMessage(provider, text, toolCalls.filter(Boolean));
+}
+
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string;
+}
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+function safeParseArguments(args: string): unknown {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+// OpenAI-style messages → Anthropic: system split out, tool results become
+// user blocks, and consecutive same-role messages are merged
+export function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content || '').join('\n\n');
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    let role: 'user' | 'assistant';
+    const blocks: AnthropicBlock[] = [];
+    if (message.role === 'tool') {
+      role = 'user';
+      blocks.push({ type: 'tool_result', tool_use_id: message.tool_call_id, content: message.content || '' });
+    } else {
+      role = message.role;
+      if (message.content) blocks.push({ type: 'text', text: message.content });
+      for (const call of message.tool_calls || []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: safeParseArguments(call.function.arguments) });
+      }
+    }
+    if (blocks.length === 0) continue;
+
+    const previous = converted[converted.length - 1];
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system, messages: converted };
+}
+
+async function anthropicChat({ provider, model, apiKey, request, fetchImpl, signal, stream }: ChatCall): Promise<LLMMessage> {
+  const { system, messages } = toAnthropicMessages(request.messages);
+  const toolChoice = request.toolChoice;
+
+  const response = await fetchImpl(`${provider.baseUrl}/messages`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'x-api-key': apiKey } : {}),
+      'anthropic-version': '2023-06-01',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: request.maxTokens || 2048,
+      ...(system ? { system } : {}),
+      messages,
+      ...(request.tools
+        ? {
+            tools: request.tools.map(t => ({
+              name: t.function.name,
+              description: t.function.description,
+              input_schema: t.function.parameters,
+            })),
+            tool_choice: !toolChoice || toolChoice === 'auto'
+              ? { type: 'auto' }
+              : toolChoice === 'none'
+                ? { type: 'none' }
+                : { type: 'tool', name: toolChoice.function.name },
+          }
+        : {}),
+      ...(stream ? { stream: true } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.ok) throw await providerError(provider, response);
+
+  if (!stream) {
+    const data = await response.json();
+    const blocks: AnthropicBlock[] = data.content || [];
+    const text = blocks.filter(b => b.type === 'text').map(b => b.text || '').join('');
+    const toolCalls: LLMToolCall[] = blocks
+      .filter(b => b.type === 'tool_use')
+      .map(b => ({
+        id: b.id || '',
+        type: 'function' as const,
+        function: { name: b.name || '', arguments: JSON.stringify(b.input ?? {}) },
+      }));
+    return assistantMessage(provider, text, toolCalls);
+  }
+
+  if (!response.body) throw new LLMProviderError('Empty AI response stream', provider.id);
+
+  // Content blocks are indexed across text and tool_use; tool calls get their own index
+  let text = '';
+  const toolCalls: LLMToolCall[] = [];
+  const toolIndexByBlock = new Map<number, number>();
+  for await (const { event, data } of readSSE(response.body)) {
+    if (event === 'message_stop') break;
+
+    let payload;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (payload.type === 'error') {
+      throw new LLMProviderError(payload.error?.message || 'AI stream error', provider.id);
+    }
+    if (payload.type === 'content_block_start' && payload.content_block?.type === 'tool_use') {
+      toolIndexByBlock.set(payload.index, toolCalls.length);
+      toolCalls.push({
+        id: payload.content_block.id || '',
+        type: 'function',
+        function: { name: payload.content_block.name || '', arguments: '' },
+      });
+      continue;
+    }
+    if (payload.type !== 'content_block_delta') continue;
+
+    if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+      text += payload.delta.text;
+      stream.onText?.(payload.delta.text);
+    } else if (payload.delta?.type === 'input_json_delta') {
+      const index = toolIndexByBlock.get(payload.index);
+      if (index === undefined) continue;
+      const call = toolCalls[index];
+      call.function.arguments += payload.delta.partial_json || '';
+      stream.onToolCall?.(index, call.function.name, call.function.arguments);
+    }
+  }
+
+  // Tools without input stream no deltas at all
+  for (const call of toolCalls) call.function.arguments ||= '{}';
+  return assistantMessage(provider, text, toolCalls);
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Generate one image from a prompt, falling back across providers on 429/402/503 */
+export function generateImage(prompt: string, options: ProviderCallOptions): Promise<ImageResult> {
+  const fetchImpl = options.fetchImpl || fetch;
+  return runChain('image', options, async (provider, model, apiKey) => {
+    console.log(`🎨 Generating image with ${provider.name} (${model})...`);
+    const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    if (provider.kind === 'huggingface') {
+      const response = await fetchImpl(`${provider.baseUrl}/models/${model}`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          inputs: prompt,
+          parameters: { width: 1024, height: 1024, num_inference_steps: 30, guidance_scale: 7.5 },
+        }),
+      });
+      if (!response.ok) throw await providerError(provider, response);
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('image')) {
+        // JSON here usually means the model is still loading
+        const body = await response.text().catch(() => '');
+        throw new LLMProviderError(`${provider.name} returned no image: ${body.substring(0, 200)}`, provider.id, 503);
+      }
+      return { url: null, bytes: new Uint8Array(await response.arrayBuffer()), contentType, provider: provider.id, model };
+    }
+
+    if (provider.imageApi === 'chat') {
+      const response = await fetchImpl(`${provider.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          modalities: ['image', 'text'],
+        }),
+      });
+      if (!response.ok) throw await providerError(provider, response);
+
+      const data = await response.json();
+      const url = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      if (!url) throw new LLMProviderError(`${provider.name} returned no image`, provider.id);
+      return { url, bytes: null, contentType: 'image/png', provider: provider.id, model };
+    }
+
+    const response = await fetchImpl(`${provider.baseUrl}/images/generations`, {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, prompt, size: '1024x1024', n: 1, response_format: 'b64_json' }),
+    });
+    if (!response.ok) throw await providerError(provider, response);
+
+    const data = await response.json();
+    const image = data.data?.[0];
+    if (image?.b64_json) {
+      return { url: null, bytes: base64ToBytes(image.b64_json), contentType: 'image/png', provider: provider.id, model };
+    }
+    if (image?.url) {
+      return { url: image.url, bytes: null, contentType: 'image/png', provider: provider.id, model };
+    }
+    throw new LLMProviderError(`${provider.name} returned no image`, provider.id);
+  });
+}
+
+// ============================================================================
+// EMBEDDINGS
+// ============================================================================
+
+/** Width of agent_reference_chunks.embedding; other widths can't be stored */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Embed texts with the first provider that has an embedding model, falling
+ * back on 429/402/503. Vectors from different models aren't comparable, so
+ * callers store `model` alongside them.
+ */
+export function embedTexts(texts: string[], options: ProviderCallOptions): Promise<EmbeddingResult> {
+  const fetchImpl = options.fetchImpl || fetch;
+  return runChain('embedding', options, async (provider, model, apiKey) => {
+    console.log(`🧮 Embedding ${texts.length} text(s) with ${provider.name} (${model})...`);
+    const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    const response = await fetchImpl(`${provider.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: { ...authHeaders, 'Content-Type': 'application/json' },
+      // text-embedding-3 models can shorten their output to fit the column
+      body: JSON.stringify({
+        model,
+        input: texts,
+        ...(model.includes('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+      }),
+      signal: options.signal,
+    });
+    if (!response.ok) throw await providerError(provider, response);
+
+    const data = await response.json();
+    const vectors: number[][] = (data.data || [])
+      .slice()
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+
+    if (vectors.length !== texts.length) {
+      throw new LLMProviderError(`${provider.name} returned ${vectors.length} embeddings for ${texts.length} texts`, provider.id);
+    }
+    if (vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+      throw new LLMProviderError(
+        `${provider.name} (${model}) returns ${vectors[0].length}-dimensional embeddings, ${EMBEDDING_DIMENSIONS} are needed`,
+        provider.id
+      );
+    }
+    return { vectors, provider: provider.id, model };
+  });
+}
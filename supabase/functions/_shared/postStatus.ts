@@ -0,0 +1,143 @@
+// ============================================================================
+// SHARED POST STATUS STATE MACHINE
+// ============================================================================
+// The database enforces these transitions (enforce_post_status_transition
+// trigger) and records every change in post_status_events. This module mirrors
+// the table for UI checks and wraps the transition_post_status RPC, which is
+// the one write path that carries a source and reason into the audit trail.
+// Pure TS (see timezone.ts).
+//
+//   draft → in_review → approved → pending        (review workflow)
+//             ↘ draft (changes)  ↘ draft (reopened)
+//   pending → posting → posted
+//                     ↘ failed → pending (retry)
+//   draft / approved / pending → cancelled
+//
+// Posts that skip review are created straight as 'pending'.
+
+export type PostStatus =
+  | 'draft'
+  | 'in_review'
+  | 'approved'
+  | 'pending'
+  | 'posting'
+  | 'posted'
+  | 'failed'
+  | 'cancelled';
+
+export type PostStatusSource = 'extension' | 'cron' | 'user' | 'system';
+
+export const POST_STATUSES: PostStatus[] = [
+  'draft', 'in_review', 'approved', 'pending', 'posting', 'posted', 'failed', 'cancelled',
+];
+
+/** Statuses of the review workflow - the extension never sees these */
+export const REVIEW_STATUSES: PostStatus[] = ['draft', 'in_review', 'approved'];
+
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  draft: ['in_review', 'cancelled'],
+  in_review: ['approved', 'draft'],
+  approved: ['pending', 'draft', 'cancelled'],
+  pending: ['posting', 'cancelled'],
+  posting: ['posted', 'failed'],
+  posted: [],
+  failed: ['pending'],
+  cancelled: [],
+};
+
+export class IllegalStatusTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Illegal post status transition: ${from} -> ${to}`);
+    this.name = 'IllegalStatusTransitionError';
+  }
+}
+
+export function isPostStatus(value: unknown): value is PostStatus {
+  return typeof value === 'string' && (POST_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Whether `from → to` is a legal transition (same status is not a transition)
+ */
+export function canTransition(from: string, to: string): boolean {
+  if (!isPostStatus(from) || !isPostStatus(to)) return false;
+  return POST_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw IllegalStatusTransitionError unless `from → to` is legal
+ */
+export function assertTransition(from: string, to: string): void {
+  if (!canTransition(from, to)) {
+    throw new IllegalStatusTransitionError(from, to);
+  }
+}
+
+/** Columns transition_post_status may update alongside the status */
+export interface PostStatusUpdates {
+  posted_at?: string | null;
+  linkedin_post_url?: string | null;
+  linkedin_post_id?: string | null;
+  verified?: boolean | null;
+  last_error?: string | null;
+  retry_count?: number | null;
+  next_retry_at?: string | null;
+  scheduled_time?: string | null;
+}
+
+export interface TransitionRequest {
+  postId: string;
+  to: PostStatus;
+  /** Recorded as 'user' whenever a signed-in user makes the call */
+  source: PostStatusSource;
+  reason?: string;
+  updates?: PostStatusUpdates;
+}
+
+interface RpcError {
+  message: string;
+  code?: string;
+  hint?: string;
+}
+
+/** The slice of a Supabase client this module needs, so both runtimes can pass theirs */
+export interface RpcClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ data: unknown; error: RpcError | null }>;
+}
+
+export function isIllegalTransitionError(error: RpcError | null | undefined): boolean {
+  return !!error && (
+    error.hint === 'illegal_post_status_transition' ||
+    error.message?.startsWith('Illegal post status transition')
+  );
+}
+
+/**
+ * Move a post to a new status through the database state machine.
+ * Resolves with the updated row, or null if the post doesn't exist (or isn't
+ * visible to the caller). Throws IllegalStatusTransitionError when the
+ * database rejects the transition.
+ */
+export async function transitionPostStatus<T = Record<string, unknown>>(
+  client: RpcClient,
+  request: TransitionRequest
+): Promise<T | null> {
+  const { data, error } = await client.rpc('transition_post_status', {
+    p_post_id: request.postId,
+    p_to_status: request.to,
+    p_source: request.source,
+    p_reason: request.reason ?? null,
+    p_updates: request.updates ?? {},
+  });
+
+  if (error) {
+    if (isIllegalTransitionError(error)) {
+      const match = error.message.match(/:\s*(\w+)\s*->\s*(\w+)/);
+      throw new IllegalStatusTransitionError(match?.[1] ?? 'unknown', match?.[2] ?? request.to);
+    }
+    throw new Error(error.message);
+  }
+
+  const rows = Array.isArray(data) ? data : data ? [data] : [];
+  return (rows[0] as T) ?? null;
+}
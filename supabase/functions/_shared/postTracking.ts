@@ -0,0 +1,26 @@
+// ============================================================================
+// SHARED POST TRACKING IDS
+// ============================================================================
+// Tracking IDs let the extension match a published LinkedIn post back to its
+// row. Used by the web app (postHelpers) and by edge functions that insert
+// posts themselves (generate-series-posts). Pure TS.
+
+/**
+ * Generate unique tracking ID for a post
+ */
+export function generatePostTrackingId(): string {
+  return `LPID_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Embed tracking ID invisibly in post content using zero-width characters
+ */
+export function embedTrackingId(content: string, trackingId: string): string {
+  // Use zero-width space to hide tracking ID at end of post
+  const encoded = trackingId
+    .split('')
+    .map(char => String.fromCharCode(0x200B) + char)
+    .join('');
+  
+  return `${content}\n\n${encoded}`;
+}
@@ -0,0 +1,195 @@
+// ============================================================================
+// SHARED POST VARIANTS (A/B)
+// ============================================================================
+// The agent's draft_variants tool writes 2-4 versions of one post that differ
+// along a single dimension: how it opens (hook), how long it is, or its
+// tone. The user keeps one, and the pick is stored in post_variant_choices
+// along with the styles it beat. Once the kept post is published its
+// metrics are joined in (get_variant_choice_samples). buildVariantPreferences
+// turns that history into per-agent preferences; agent-chat writes them into
+// the prompt so single drafts lean toward what the user keeps, and lists
+// preferred styles first when it offers variants again.
+// Pure TS (see timezone.ts).
+
+import { engagementRate } from './contentInsights.ts';
+
+export type VariantDimension = 'hook' | 'length' | 'tone';
+
+/** Hook styles match contentInsights' HookStyle */
+export const VARIANT_STYLES: Record<VariantDimension, string[]> = {
+  hook: ['question', 'number', 'story', 'quote', 'statement'],
+  length: ['short', 'medium', 'long'],
+  tone: ['casual', 'professional', 'bold', 'playful', 'reflective'],
+};
+
+export const VARIANT_DIMENSIONS = Object.keys(VARIANT_STYLES) as VariantDimension[];
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+/** Picks along a dimension before a preference is reported */
+export const MIN_VARIANT_CHOICES = 3;
+
+// A style needs this many offers before it can be preferred
+const MIN_OFFERS = 2;
+
+// Published picks needed on each side before engagement counts
+const MIN_PERFORMANCE_POSTS = 2;
+
+export interface PostVariant {
+  dimension: VariantDimension;
+  style: string;
+}
+
+/** A draft's place in a draft_variants set (post_drafts.variant_*) */
+export interface DraftVariant extends PostVariant {
+  groupId: string;
+}
+
+/** One recorded pick; metrics are null until the kept post is published */
+export interface VariantChoiceSample {
+  dimension: VariantDimension;
+  chosenStyle: string;
+  offeredStyles: string[];
+  views: number | null;
+  likes: number | null;
+  comments: number | null;
+  shares: number | null;
+}
+
+export interface VariantStylePreference extends PostVariant {
+  offered: number;
+  picked: number;
+  /** Share of the times it was offered that the user kept it */
+  pickRate: number;
+  /**
+   * Engagement of published picks in this style over that of the other
+   * published picks along the same dimension. Null until there are enough.
+   */
+  performance: number | null;
+  score: number;
+}
+
+export interface VariantPreferences {
+  choices: number;
+  /** Best-scoring style per dimension, once the history supports one */
+  preferred: Partial<Record<VariantDimension, VariantStylePreference>>;
+  styles: VariantStylePreference[];
+}
+
+export function isVariantDimension(value: unknown): value is VariantDimension {
+  return typeof value === 'string' && value in VARIANT_STYLES;
+}
+
+export function isVariantStyle(dimension: VariantDimension, style: string): boolean {
+  return VARIANT_STYLES[dimension].includes(style);
+}
+
+const STYLE_LABELS: Record<string, string> = {
+  question: 'Question',
+  number: 'Number',
+  story: 'Story',
+  quote: 'Quote',
+  statement: 'Bold statement',
+  short: 'Short',
+  medium: 'Medium length',
+  long: 'Long',
+  casual: 'Casual',
+  professional: 'Professional',
+  bold: 'Bold',
+  playful: 'Playful',
+  reflective: 'Reflective',
+};
+
+/** "Question hook", "Short", "Playful tone" */
+export function variantLabel(variant: PostVariant): string {
+  const label = STYLE_LABELS[variant.style] || variant.style;
+  if (variant.dimension === 'hook') return `${label} hook`;
+  if (variant.dimension === 'tone') return `${label} tone`;
+  return label;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function buildVariantPreferences(samples: VariantChoiceSample[]): VariantPreferences {
+  const styles: VariantStylePreference[] = [];
+  const preferred: VariantPreferences['preferred'] = {};
+
+  for (const dimension of VARIANT_DIMENSIONS) {
+    const choices = samples.filter(s => s.dimension === dimension && isVariantStyle(dimension, s.chosenStyle));
+    if (choices.length === 0) continue;
+
+    const published = choices
+      .filter(s => (s.views || 0) > 0)
+      .map(s => ({
+        style: s.chosenStyle,
+        rate: engagementRate({ views: s.views || 0, likes: s.likes || 0, comments: s.comments || 0, shares: s.shares || 0 }),
+      }));
+
+    const counts = new Map<string, { offered: number; picked: number }>();
+    for (const choice of choices) {
+      for (const style of new Set([...choice.offeredStyles, choice.chosenStyle])) {
+        if (!isVariantStyle(dimension, style)) continue;
+        const count = counts.get(style) || { offered: 0, picked: 0 };
+        count.offered++;
+        if (style === choice.chosenStyle) count.picked++;
+        counts.set(style, count);
+      }
+    }
+
+    const dimensionStyles = [...counts].map(([style, { offered, picked }]) => {
+      const own = published.filter(p => p.style === style).map(p => p.rate);
+      const others = published.filter(p => p.style !== style).map(p => p.rate);
+      const performance = own.length >= MIN_PERFORMANCE_POSTS && others.length >= MIN_PERFORMANCE_POSTS && mean(others) > 0
+        ? mean(own) / mean(others)
+        : null;
+      // Smoothed so one lucky pick doesn't outrank a steady habit
+      const score = ((picked + 1) / (offered + 2)) * (performance ?? 1);
+      return { dimension, style, offered, picked, pickRate: picked / offered, performance, score };
+    }).sort((a, b) => b.score - a.score || b.picked - a.picked);
+
+    styles.push(...dimensionStyles);
+
+    const best = dimensionStyles[0];
+    if (
+      choices.length >= MIN_VARIANT_CHOICES &&
+      best.offered >= MIN_OFFERS &&
+      best.picked >= 2 &&
+      (best.pickRate >= 0.5 || (best.performance ?? 0) >= 1.25)
+    ) {
+      preferred[dimension] = best;
+    }
+  }
+
+  return { choices: samples.length, preferred, styles };
+}
+
+const DIMENSION_NOUNS: Record<VariantDimension, string> = {
+  hook: 'hooks',
+  length: 'lengths',
+  tone: 'tones',
+};
+
+/** One line per preferred style, e.g. "Question hook: kept 4 of 5 times offered" */
+export function describeVariantPreferences(preferences: VariantPreferences): string[] {
+  return VARIANT_DIMENSIONS
+    .map(dimension => preferences.preferred[dimension])
+    .filter((pref): pref is VariantStylePreference => !!pref)
+    .map(pref => {
+      let line = `${variantLabel(pref)}: kept ${pref.picked} of ${pref.offered} times offered`;
+      if (pref.performance !== null && Math.abs(pref.performance - 1) >= 0.1) {
+        line += pref.performance > 1
+          ? `, ${pref.performance.toFixed(1)}× the engagement of other ${DIMENSION_NOUNS[pref.dimension]}`
+          : `, though ${Math.round((1 - pref.performance) * 100)}% less engagement than other ${DIMENSION_NOUNS[pref.dimension]}`;
+      }
+      return line;
+    });
+}
+
+/** Variants in display order: the user's preferred style first, the rest as written */
+export function rankVariants<T extends PostVariant>(variants: T[], preferences: VariantPreferences | null): T[] {
+  const preferred = variants.filter(v => preferences?.preferred[v.dimension]?.style === v.style);
+  return [...preferred, ...variants.filter(v => !preferred.includes(v))];
+}
@@ -0,0 +1,39 @@
+// ============================================================================
+// SHARED POSTING LIMITS
+// ============================================================================
+// Plan limits used by the web app (usePostingLimits) and by edge functions
+// that queue posts on the user's behalf (generate-series-posts). Plans belong
+// to workspaces; both read the plan of the workspace the posts go to. Pure TS.
+
+export const DAILY_LIMITS = {
+  free: 1,
+  pro: 2,
+  business: 3,
+} as const;
+
+export const MONTHLY_LIMITS = {
+  free: 5,
+  pro: 30,
+  business: 60,
+} as const;
+
+export type PlanType = keyof typeof DAILY_LIMITS;
+
+/**
+ * Daily and monthly limits for a workspace's plan, falling back to free for
+ * unknown plans and for plans whose expiry has passed
+ */
+export function getPlanLimits(
+  plan: string | null | undefined,
+  expiresAt?: string | null,
+  now: Date = new Date()
+): { plan: PlanType; daily: number; monthly: number } {
+  const expired = !!expiresAt && new Date(expiresAt) <= now;
+  // Own keys only: `in` would also accept 'toString', 'constructor', ...
+  const resolved: PlanType = !expired && plan && Object.prototype.hasOwnProperty.call(DAILY_LIMITS, plan) ? (plan as PlanType) : 'free';
+  return {
+    plan: resolved,
+    daily: DAILY_LIMITS[resolved],
+    monthly: MONTHLY_LIMITS[resolved],
+  };
+}
@@ -0,0 +1,202 @@
+// ============================================================================
+// SHARED PUBLIC FETCH
+// ============================================================================
+// Fetching a URL a user gave us, from inside our own network. Every hop of a
+// redirect chain has to resolve to public addresses only - never loopback,
+// private or link-local ranges (the cloud metadata endpoint, the local
+// Supabase services) - and bodies are read up to a byte cap rather than
+// buffered whole. Pure TS (see timezone.ts): callers pass fetch and a DNS
+// resolver.
+
+export class PublicFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicFetchError';
+  }
+}
+
+export interface PublicFetchOptions {
+  fetch: typeof fetch;
+  /** Every IPv4 and IPv6 address of a host name; empty when it doesn't resolve */
+  resolve: (hostname: string) => Promise<string[]>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Defaults to 5 */
+  maxRedirects?: number;
+}
+
+// Special-purpose IPv4 ranges (RFC 6890), none of them a website
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  // Multicast, reserved and broadcast
+  ['224.0.0.0', 3],
+];
+
+function ipv4Octets(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function ipv4InRange(octets: number[], base: string, bits: number): boolean {
+  const value = octets.reduce((n, octet) => n * 256 + octet, 0);
+  const start = ipv4Octets(base)!.reduce((n, octet) => n * 256 + octet, 0);
+  const size = 2 ** (32 - bits);
+  return Math.floor(value / size) === Math.floor(start / size);
+}
+
+// The eight 16-bit groups of an IPv6 address, expanding :: and a trailing
+// dotted IPv4 part
+function ipv6Groups(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0];
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = ipv4Octets(dotted[2]);
+    if (!octets) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const left = halves[0] ? halves[0].split(':') : [];
+  const right = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - left.length - right.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...left, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...right];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * False for loopback, private, link-local, shared, documentation, multicast
+ * and reserved addresses, including IPv4 ones wrapped in IPv6 - and for
+ * anything that isn't an IP address at all
+ */
+export function isPublicAddress(address: string): boolean {
+  const octets = ipv4Octets(address);
+  if (octets) return !NON_PUBLIC_IPV4.some(([base, bits]) => ipv4InRange(octets, base, bits));
+
+  const groups = ipv6Groups(address);
+  if (!groups) return false;
+
+  // ::/96 (unspecified, loopback, IPv4-compatible), ::ffff:0:0/96 (mapped)
+  // and 64:ff9b::/96 (NAT64) carry an IPv4 address in the last 32 bits
+  const embedsIpv4 =
+    (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIpv4) {
+    return isPublicAddress([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'));
+  }
+
+  const [first, second] = groups;
+  if ((first & 0xfe00) === 0xfc00) return false; // fc00::/7 unique local
+  if ((first & 0xffc0) === 0xfe80 || (first & 0xffc0) === 0xfec0) return false; // link- and site-local
+  if ((first & 0xff00) === 0xff00) return false; // multicast
+  if (first === 0x2001 && second === 0x0db8) return false; // documentation
+  return true;
+}
+
+/**
+ * Throws a PublicFetchError unless the URL is http(s) and its host resolves
+ * to public addresses only
+ */
+export async function assertPublicUrl(url: string, resolve: PublicFetchOptions['resolve']): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PublicFetchError('A valid http(s) URL is required');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new PublicFetchError('A valid http(s) URL is required');
+  }
+
+  // URL normalizes IPv4 spellings like 0x7f.1 or 2130706433 to dotted form
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (ipv4Octets(host) || host.includes(':')) {
+    addresses = [host];
+  } else if (host === 'localhost' || host.endsWith('.localhost')) {
+    addresses = [];
+  } else {
+    addresses = await resolve(host).catch(() => []);
+    if (addresses.length === 0) throw new PublicFetchError(`Could not find ${host}`);
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new PublicFetchError(`${host} is not a public address`);
+  }
+  return parsed;
+}
+
+/**
+ * Fetch a user-supplied URL, following redirects by hand so every hop is
+ * checked with assertPublicUrl. Resolves with the final response, body unread.
+ */
+export async function fetchPublicUrl(url: string, options: PublicFetchOptions): Promise<Response> {
+  const maxRedirects = options.maxRedirects ?? 5;
+  let current = url;
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current, options.resolve);
+    const response = await options.fetch(current, {
+      headers: options.headers,
+      redirect: 'manual',
+      signal: options.signal,
+    });
+
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+    if (!location) return response;
+
+    await response.body?.cancel();
+    if (hop >= maxRedirects) throw new PublicFetchError('The page redirects too many times');
+    current = new URL(location, current).toString();
+  }
+}
+
+/**
+ * The response body, or null once it passes maxBytes - reading stops there
+ * instead of buffering the rest
+ */
+export async function readBodyCapped(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
@@ -0,0 +1,90 @@
+// ============================================================================
+// SHARED PUBLISH OUTCOMES
+// ============================================================================
+// The extension can report one success several times: post-success and
+// sync-post both receive it, and each is retried; check-overdue-posts and the
+// web app's extension listener may mark the same post. The record_post_published
+// RPC keeps one outcome per published post, deduplicated by post and, among
+// one user's posts, by tracking id and LinkedIn activity id. Only the first
+// delivery bumps the user's counters, notifies them and refreshes the agent's
+// stats. Every delivery gets the same outcome back. Pure TS (see timezone.ts).
+
+import type { RpcClient } from './postStatus.ts';
+
+export type PublishSource = 'post-success' | 'sync-post' | 'cron' | 'web';
+
+export interface PublishOutcome {
+  id: string;
+  postId: string;
+  linkedinPostUrl: string | null;
+  linkedinActivityId: string | null;
+  deliveryCount: number;
+  firstDeliveredAt: string;
+  /** True when an earlier delivery already recorded this publish */
+  duplicate: boolean;
+}
+
+export interface PublishReport {
+  postId: string;
+  source: PublishSource;
+  linkedinUrl?: string | null;
+  linkedinPostId?: string | null;
+  /** Defaults to the generic "Post Published ✅" */
+  notification?: { title: string; message: string };
+}
+
+// URLs: /feed/update/urn:li:activity:<id>/, /posts/<slug>-activity-<id>-<hash>
+const URL_ACTIVITY_PATTERN = /(?:activity|share|ugcPost)[-:](\d{15,20})/;
+// Post ids: the URN or the bare number
+const POST_ID_ACTIVITY_PATTERN = /^(?:urn:li:(?:activity|share|ugcPost):)?(\d{15,20})$/;
+
+/**
+ * The LinkedIn activity id of a published post, from its URL or the post id
+ * the extension reported. The migration backfills with the same patterns.
+ */
+export function linkedinActivityId(url?: string | null, linkedinPostId?: string | null): string | null {
+  return url?.match(URL_ACTIVITY_PATTERN)?.[1] ?? linkedinPostId?.trim().match(POST_ID_ACTIVITY_PATTERN)?.[1] ?? null;
+}
+
+interface OutcomeRow {
+  id: string;
+  post_id: string;
+  linkedin_post_url: string | null;
+  linkedin_activity_id: string | null;
+  delivery_count: number;
+  first_delivered_at: string;
+  first_delivery: boolean;
+}
+
+/**
+ * Record a success report for a post already moved to 'posted'. Resolves
+ * with the outcome (the first delivery's, for repeats), or null if the post
+ * doesn't exist.
+ */
+export async function recordPostPublished(client: RpcClient, report: PublishReport): Promise<PublishOutcome | null> {
+  const { data, error } = await client.rpc('record_post_published', {
+    p_post_id: report.postId,
+    p_source: report.source,
+    p_linkedin_post_url: report.linkedinUrl || null,
+    p_linkedin_activity_id: linkedinActivityId(report.linkedinUrl, report.linkedinPostId),
+    ...(report.notification && {
+      p_notification_title: report.notification.title,
+      p_notification_message: report.notification.message,
+    }),
+  });
+  if (error) throw new Error(error.message);
+
+  const rows = Array.isArray(data) ? data : data ? [data] : [];
+  const row = rows[0] as OutcomeRow | undefined;
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    postId: row.post_id,
+    linkedinPostUrl: row.linkedin_post_url,
+    linkedinActivityId: row.linkedin_activity_id,
+    deliveryCount: row.delivery_count,
+    firstDeliveredAt: row.first_delivered_at,
+    duplicate: !row.first_delivery,
+  };
+}
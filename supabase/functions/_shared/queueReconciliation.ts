@@ -0,0 +1,154 @@
+// ============================================================================
+// SHARED QUEUE RECONCILIATION
+// ============================================================================
+// The extension holds the schedule that actually fires, in its local queue;
+// posts holds the schedule the user edits. The extension reports its whole
+// queue to reconcile-queue, which diffs it here against the user's posts:
+//
+//   pending post missing from the extension   → resend it
+//   extension item whose post is no longer     → cancel it in the extension
+//     pending (posted, cancelled, deleted...)
+//   extension time differs from the post's     → retime it (the database wins)
+//
+// What can't be fixed without the user becomes a discrepancy for the
+// dashboard: a pending post the extension lost after its time had passed
+// (resending would publish it late), and items that belong to another
+// account. Pure TS (see timezone.ts).
+
+/** One entry of the extension's local queue */
+export interface ReportedQueueItem {
+  id: string;
+  trackingId?: string | null;
+  scheduleTime: string;
+}
+
+export interface ServerQueuePost {
+  id: string;
+  user_id: string;
+  status: string;
+  scheduled_time: string | null;
+  tracking_id: string | null;
+}
+
+export type QueueDiscrepancyKind = 'missing_overdue' | 'foreign_item';
+
+export interface QueueDiscrepancy {
+  kind: QueueDiscrepancyKind;
+  /** The extension item, or the post for missing_overdue */
+  itemId: string;
+  postId: string | null;
+  message: string;
+}
+
+export interface QueueRetime {
+  postId: string;
+  from: string;
+  to: string;
+}
+
+export interface QueueReconciliation<P extends ServerQueuePost = ServerQueuePost> {
+  resend: P[];
+  /** Extension item ids to drop */
+  cancel: string[];
+  retime: QueueRetime[];
+  /** Pending posts the extension already holds at the right time */
+  inSync: string[];
+  unresolved: QueueDiscrepancy[];
+}
+
+export interface QueueReconciliationOptions {
+  userId: string;
+  now?: Date;
+  /** Clock differences below this are not drift */
+  driftToleranceMinutes?: number;
+  /** Missing posts this far past their time are left to the user */
+  overdueGraceMinutes?: number;
+}
+
+export const QUEUE_DRIFT_TOLERANCE_MINUTES = 1;
+export const QUEUE_OVERDUE_GRACE_MINUTES = 15;
+
+/** Stable key for an open discrepancy, so repeated reports don't pile up */
+export function discrepancyKey(discrepancy: Pick<QueueDiscrepancy, 'kind' | 'itemId'>): string {
+  return `${discrepancy.kind}:${discrepancy.itemId}`;
+}
+
+/**
+ * Diff the extension's queue against the server's posts. `posts` holds the
+ * user's pending posts plus any post (of any user or status) the report
+ * refers to by id or tracking id; items matching nothing were deleted.
+ */
+export function reconcileQueue<P extends ServerQueuePost>(
+  reported: ReportedQueueItem[],
+  posts: P[],
+  options: QueueReconciliationOptions
+): QueueReconciliation<P> {
+  const now = (options.now ?? new Date()).getTime();
+  const toleranceMs = (options.driftToleranceMinutes ?? QUEUE_DRIFT_TOLERANCE_MINUTES) * 60_000;
+  const graceMs = (options.overdueGraceMinutes ?? QUEUE_OVERDUE_GRACE_MINUTES) * 60_000;
+
+  const byId = new Map(posts.map(p => [p.id, p]));
+  const byTrackingId = new Map(posts.filter(p => p.tracking_id).map(p => [p.tracking_id!, p]));
+
+  const result: QueueReconciliation<P> = { resend: [], cancel: [], retime: [], inSync: [], unresolved: [] };
+  const held = new Set<string>();
+
+  for (const item of reported) {
+    const post = byId.get(item.id) ?? (item.trackingId ? byTrackingId.get(item.trackingId) : undefined);
+
+    if (!post) {
+      result.cancel.push(item.id);
+      continue;
+    }
+    if (post.user_id !== options.userId) {
+      result.unresolved.push({
+        kind: 'foreign_item',
+        itemId: item.id,
+        postId: null,
+        message: 'The extension has a post queued that belongs to another account',
+      });
+      continue;
+    }
+    // Queued under an id the post no longer has: drop it, the post is resent
+    if (post.id !== item.id || held.has(post.id)) {
+      result.cancel.push(item.id);
+      continue;
+    }
+    // Already publishing - the extension's result settles it
+    if (post.status === 'posting') {
+      held.add(post.id);
+      continue;
+    }
+    if (post.status !== 'pending' || !post.scheduled_time) {
+      result.cancel.push(item.id);
+      continue;
+    }
+
+    held.add(post.id);
+    const reportedAt = new Date(item.scheduleTime).getTime();
+    const expectedAt = new Date(post.scheduled_time).getTime();
+    if (isNaN(reportedAt) || Math.abs(reportedAt - expectedAt) >= toleranceMs) {
+      result.retime.push({ postId: post.id, from: item.scheduleTime, to: post.scheduled_time });
+    } else {
+      result.inSync.push(post.id);
+    }
+  }
+
+  for (const post of posts) {
+    if (post.user_id !== options.userId || post.status !== 'pending' || !post.scheduled_time) continue;
+    if (held.has(post.id)) continue;
+
+    if (new Date(post.scheduled_time).getTime() < now - graceMs) {
+      result.unresolved.push({
+        kind: 'missing_overdue',
+        itemId: post.id,
+        postId: post.id,
+        message: 'The extension lost this post and its time has passed - send it now or cancel it',
+      });
+    } else {
+      result.resend.push(post);
+    }
+  }
+
+  return result;
+}
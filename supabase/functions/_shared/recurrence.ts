@@ -0,0 +1,155 @@
+// ============================================================================
+// SHARED RECURRENCE RULES
+// ============================================================================
+// Stored recurrence rules for post series ("every Tuesday at 9am", "first
+// Monday of the month at 10"). Weekly rules come straight from the schedule
+// parser; monthly ordinal rules are recognised here. Pure TS (see timezone.ts).
+
+import { getZonedParts, resolveTimeZone, zonedTimeToUtc } from './timezone.ts';
+import { nthWeekdayOfMonth, parseSchedule } from './scheduleParser.ts';
+
+export interface WeeklyRecurrenceRule {
+  type: 'weekly';
+  weekdays: number[]; // 0 = Sunday
+  hours: number;
+  minutes: number;
+}
+
+export interface MonthlyRecurrenceRule {
+  type: 'monthly';
+  ordinal: number; // 1-5, or -1 for "last"
+  weekday: number; // 0 = Sunday
+  hours: number;
+  minutes: number;
+}
+
+export type RecurrenceRule = WeeklyRecurrenceRule | MonthlyRecurrenceRule;
+
+export interface ParsedRecurrence {
+  rule: RecurrenceRule;
+  ambiguous: boolean;
+  ambiguityReasons: string[];
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const WEEKDAY_PATTERN = '(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?)';
+const ORDINAL_PATTERN = '(first|1st|second|2nd|third|3rd|fourth|4th|fifth|5th|last)';
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  fifth: 5, '5th': 5,
+  last: -1,
+};
+
+const ORDINAL_LABELS: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', 5: 'Fifth', [-1]: 'Last' };
+
+function weekdayIndex(token: string): number {
+  return WEEKDAY_NAMES.findIndex(name => name.toLowerCase().startsWith(token.slice(0, 3)));
+}
+
+/**
+ * Parse recurrence text into a rule. Returns null for one-off schedules
+ * ("tomorrow at 9") or anything that doesn't repeat.
+ */
+export function parseRecurrenceRule(
+  input: string,
+  options: { timeZone?: string; now?: Date } = {}
+): ParsedRecurrence | null {
+  const text = (input || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  const timeZone = resolveTimeZone(options.timeZone);
+
+  // Monthly: "first monday of the month", "last friday of every month",
+  // "monthly on the 2nd tuesday"
+  const monthly =
+    text.match(new RegExp(`\\b${ORDINAL_PATTERN} ${WEEKDAY_PATTERN}s? (?:of|in) (?:the|each|every) month\\b`)) ||
+    text.match(new RegExp(`\\b(?:monthly|every month) on the ${ORDINAL_PATTERN} ${WEEKDAY_PATTERN}\\b`));
+  if (monthly) {
+    const rest = text.replace(monthly[0], ' ').trim();
+    const parsedTime = rest ? parseSchedule(rest, { timeZone, now: options.now }) : null;
+    const zoned = parsedTime?.timeSpecified ? getZonedParts(new Date(parsedTime.time), timeZone) : null;
+    return {
+      rule: {
+        type: 'monthly',
+        ordinal: ORDINALS[monthly[1]],
+        weekday: weekdayIndex(monthly[2]),
+        hours: zoned?.hours ?? 9,
+        minutes: zoned?.minutes ?? 0,
+      },
+      ambiguous: !!parsedTime?.ambiguous,
+      ambiguityReasons: parsedTime?.ambiguityReasons || [],
+    };
+  }
+
+  const parsed = parseSchedule(text, { timeZone, now: options.now });
+  if (!parsed?.recurrence) return null;
+  return {
+    rule: {
+      type: 'weekly',
+      weekdays: parsed.recurrence.weekdays,
+      hours: parsed.recurrence.hours,
+      minutes: parsed.recurrence.minutes,
+    },
+    ambiguous: parsed.ambiguous,
+    ambiguityReasons: parsed.ambiguityReasons,
+  };
+}
+
+/**
+ * Occurrences of a rule strictly after `from` and up to `until`, as UTC ISO strings
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  from: Date,
+  until: Date,
+  timeZone?: string
+): string[] {
+  const zone = resolveTimeZone(timeZone);
+  const start = getZonedParts(from, zone);
+  const occurrences: string[] = [];
+
+  for (let offset = 0; offset < 400; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month, start.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth();
+    const date = day.getUTCDate();
+    const weekday = day.getUTCDay();
+
+    const matches = rule.type === 'weekly'
+      ? rule.weekdays.includes(weekday)
+      : weekday === rule.weekday && nthWeekdayOfMonth(year, month, rule.weekday, rule.ordinal) === date;
+    if (!matches) continue;
+
+    const occurrence = zonedTimeToUtc(year, month, date, rule.hours, rule.minutes, zone);
+    if (occurrence > until) break;
+    if (occurrence > from) occurrences.push(occurrence.toISOString());
+  }
+  return occurrences;
+}
+
+function formatClock(hours: number, minutes: number): string {
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hour12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every Tuesday at 9:00 AM"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const time = formatClock(rule.hours, rule.minutes);
+  if (rule.type === 'monthly') {
+    return `${ORDINAL_LABELS[rule.ordinal]} ${WEEKDAY_NAMES[rule.weekday]} of every month at ${time}`;
+  }
+
+  const days = [...rule.weekdays].sort((a, b) => a - b);
+  if (days.length === 7) return `Every day at ${time}`;
+  if (days.join(',') === '1,2,3,4,5') return `Weekdays at ${time}`;
+  if (days.join(',') === '0,6') return `Weekends at ${time}`;
+  const names = days.map(d => WEEKDAY_NAMES[d]);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return `Every ${list} at ${time}`;
+}
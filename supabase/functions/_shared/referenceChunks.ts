@@ -0,0 +1,369 @@
+// ============================================================================
+// SHARED REFERENCE MATERIAL RETRIEVAL
+// ============================================================================
+// Reference materials (typed text, Markdown, PDF, DOCX or a web page) are
+// split into heading-aware chunks by ingest-reference-material and stored in
+// agent_reference_chunks with an embedding. agent-chat then retrieves only
+// the chunks relevant to each request (match_reference_chunks: vector
+// similarity fused with full-text rank, or full-text alone when no embedding
+// model is configured) and labels them [R1], [R2]... so the reply can say
+// which material a claim came from. Pure TS (see timezone.ts).
+
+export type ReferenceSource = 'text' | 'markdown' | 'pdf' | 'docx' | 'url';
+
+export const REFERENCE_SOURCES: ReferenceSource[] = ['text', 'markdown', 'pdf', 'docx', 'url'];
+
+/** Extracted text of one part of a document; PDFs give one section per page */
+export interface ReferenceSection {
+  text: string;
+  page?: number;
+}
+
+export interface ReferenceChunk {
+  index: number;
+  content: string;
+  /** Heading and/or page the chunk came from, e.g. "Parental leave · p. 12" */
+  location: string | null;
+}
+
+export interface ChunkOptions {
+  maxWords?: number;
+  /** Words repeated from the end of the previous chunk, so a fact split across a boundary survives */
+  overlapWords?: number;
+}
+
+/** Row shape returned by the match_reference_chunks RPC */
+export interface ReferenceMatch {
+  chunk_id: string;
+  material_id: string;
+  title: string;
+  type: string;
+  location: string | null;
+  content: string;
+  score: number;
+}
+
+export interface ReferenceCitation {
+  label: string;
+  materialId: string;
+  title: string;
+  location: string | null;
+}
+
+export interface ReferenceContext {
+  /** Prompt section with the labelled excerpts */
+  text: string;
+  sources: ReferenceCitation[];
+}
+
+export interface ReferenceClient {
+  rpc(fn: string, args?: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+/** Embeds the query; null when no embedding model is available */
+export type QueryEmbedder = (text: string) => Promise<{ vector: number[]; model: string } | null>;
+
+export const DEFAULT_CHUNK_WORDS = 200;
+export const DEFAULT_OVERLAP_WORDS = 30;
+
+/** Excerpts put in front of the model per request */
+export const MAX_REFERENCE_MATCHES = 6;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'got', 'let', 'put', 'say',
+  'she', 'too', 'use', 'about', 'after', 'also', 'been', 'from', 'have', 'into', 'just', 'like', 'make',
+  'more', 'most', 'some', 'than', 'that', 'them', 'then', 'they', 'this', 'very', 'what', 'when', 'will',
+  'with', 'would', 'could', 'should', 'there', 'their', 'which', 'while', 'write', 'post', 'posts',
+  'linkedin', 'please', 'create', 'draft',
+]);
+
+// ============================================================================
+// TEXT EXTRACTION
+// ============================================================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', bull: '•',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function tidyLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Readable text of a web page, with headings kept as Markdown "#" lines so
+ * chunks know their section. Prefers <article>/<main> over the whole body.
+ */
+export function htmlToMarkdown(html: string): { title: string | null; text: string } {
+  const title = html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i)?.[1]
+    || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    || null;
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|template|iframe|form|nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, '');
+  const main = body.match(/<(article|main)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  if (main) body = main[2];
+
+  const text = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|section|li|tr|table|ul|ol|blockquote|pre)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return {
+    title: title ? decodeEntities(title).trim() || null : null,
+    text: tidyLines(decodeEntities(text)),
+  };
+}
+
+/**
+ * Text of a DOCX main document part (word/document.xml), one paragraph per
+ * block, with Heading/Title styles as Markdown headings and list items as "- ".
+ */
+export function docxXmlToMarkdown(xml: string): string {
+  const paragraphs = xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || [];
+  const lines = paragraphs.map(paragraph => {
+    const text = decodeEntities(
+      (paragraph.match(/<w:t[ >][^<]*<\/w:t>|<w:t>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+        .map(run => (run === '<w:tab/>' ? ' ' : run === '<w:br/>' ? '\n' : run.replace(/<[^>]+>/g, '')))
+        .join('')
+    ).trim();
+    if (!text) return '';
+
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+    const heading = /^title$/i.test(style) ? 1 : Number(style.match(/^heading(\d)$/i)?.[1] || 0);
+    if (heading) return `${'#'.repeat(Math.min(heading, 6))} ${text}`;
+    if (paragraph.includes('<w:numPr>')) return `- ${text}`;
+    return text;
+  });
+  return lines.filter(Boolean).join('\n\n');
+}
+
+// ============================================================================
+// CHUNKING
+// ============================================================================
+
+// Inline Markdown that only adds noise to prompts and embeddings
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '')
+    .replace(/^>\s?/, '')
+    .replace(/^[*+]\s+/, '- ');
+}
+
+interface Unit {
+  text: string;
+  words: number;
+  heading: string | null;
+  page: number | null;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Sentences of a paragraph, with runaway sentences (tables, lists without
+// punctuation) cut at the word limit
+function splitParagraph(paragraph: string, maxWords: number): string[] {
+  const sentences = paragraph.split(/(?<=[.!?])\s+(?=["“(\p{Lu}\d])/u);
+  return sentences.flatMap(sentence => {
+    const words = sentence.split(/\s+/).filter(Boolean);
+    if (words.length <= maxWords) return [sentence];
+    const pieces: string[] = [];
+    for (let i = 0; i < words.length; i += maxWords) pieces.push(words.slice(i, i + maxWords).join(' '));
+    return pieces;
+  });
+}
+
+function describeLocation(heading: string | null, pages: number[]): string | null {
+  const first = pages.length > 0 ? Math.min(...pages) : null;
+  const last = pages.length > 0 ? Math.max(...pages) : null;
+  const page = first === null ? null : first === last ? `p. ${first}` : `pp. ${first}-${last}`;
+  return [heading, page].filter(Boolean).join(' · ') || null;
+}
+
+/**
+ * Split a document into chunks of about `maxWords`, never across a heading.
+ * Each chunk remembers the nearest heading above it and the page(s) it spans.
+ */
+export function chunkDocument(sections: ReferenceSection[], options: ChunkOptions = {}): ReferenceChunk[] {
+  const maxWords = options.maxWords ?? DEFAULT_CHUNK_WORDS;
+  const overlapWords = options.overlapWords ?? DEFAULT_OVERLAP_WORDS;
+
+  // Flatten to sentence-sized units tagged with heading and page
+  const units: Unit[] = [];
+  let heading: string | null = null;
+  for (const section of sections) {
+    let paragraph: string[] = [];
+    const flush = () => {
+      const text = paragraph.join(' ').trim();
+      paragraph = [];
+      if (!text) return;
+      for (const sentence of splitParagraph(text, maxWords)) {
+        units.push({ text: sentence, words: countWords(sentence), heading, page: section.page ?? null });
+      }
+    };
+
+    for (const rawLine of section.text.replace(/\r\n?/g, '\n').split('\n')) {
+      const headingMatch = rawLine.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+      if (headingMatch) {
+        flush();
+        heading = stripInlineMarkdown(headingMatch[1]).trim() || heading;
+        continue;
+      }
+      const line = stripInlineMarkdown(rawLine.trim());
+      // Blank lines and list items end a paragraph
+      if (!line || line.startsWith('- ')) flush();
+      if (line) paragraph.push(line);
+    }
+    flush();
+  }
+
+  const chunks: ReferenceChunk[] = [];
+  let current: Unit[] = [];
+  const emit = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      index: chunks.length,
+      content: current.map(unit => unit.text).join(' '),
+      location: describeLocation(current[0].heading, current.map(unit => unit.page).filter((p): p is number => p !== null)),
+    });
+  };
+
+  for (const unit of units) {
+    const size = current.reduce((sum, u) => sum + u.words, 0);
+    if (current.length > 0 && current[0].heading !== unit.heading) {
+      emit();
+      current = [];
+    } else if (current.length > 0 && size + unit.words > maxWords) {
+      emit();
+      // Carry the tail of this chunk into the next one
+      const carried: Unit[] = [];
+      let carriedWords = 0;
+      for (let i = current.length - 1; i >= 0 && carriedWords + current[i].words <= overlapWords; i--) {
+        carried.unshift(current[i]);
+        carriedWords += current[i].words;
+      }
+      current = carried;
+    }
+    current.push(unit);
+  }
+  emit();
+
+  return chunks;
+}
+
+/** Text sent to the embedding model: heading context helps short chunks match */
+export function embeddingInput(title: string, chunk: Pick<ReferenceChunk, 'content' | 'location'>): string {
+  return [title, chunk.location, chunk.content].filter(Boolean).join('\n');
+}
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+/**
+ * OR-query for Postgres to_tsquery from a free-text request: content words
+ * only, so "write a post about our parental leave policy" matches chunks
+ * that mention any of "parental", "leave" or "policy".
+ */
+export function keywordQuery(text: string, maxTerms = 12): string {
+  return contentWords(text).slice(0, maxTerms).join(' | ');
+}
+
+/** Distinct lower-cased words of a request that say what it's about */
+export function contentWords(text: string): string[] {
+  const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+  return Array.from(new Set(words));
+}
+
+/**
+ * Most relevant chunks for a request, from the workspace's materials (or the
+ * user's own when there is no workspace). Embedding failures only cost the
+ * vector half of the ranking.
+ */
+export async function retrieveReferences(
+  client: ReferenceClient,
+  params: { query: string; workspaceId: string | null; userId: string; limit?: number },
+  embed?: QueryEmbedder
+): Promise<ReferenceMatch[]> {
+  let embedding: { vector: number[]; model: string } | null = null;
+  if (embed) {
+    try {
+      embedding = await embed(params.query);
+    } catch (error) {
+      console.warn('⚠️ Query embedding failed, using keyword search only:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const { data, error } = await client.rpc('match_reference_chunks', {
+    p_query: keywordQuery(params.query),
+    p_query_embedding: embedding ? JSON.stringify(embedding.vector) : null,
+    p_embedding_model: embedding?.model ?? null,
+    p_workspace_id: params.workspaceId,
+    p_user_id: params.userId,
+    p_match_count: params.limit ?? MAX_REFERENCE_MATCHES,
+  });
+  if (error) throw new Error(error.message);
+  return (Array.isArray(data) ? data : []) as ReferenceMatch[];
+}
+
+/** Labelled excerpts for the system prompt, and the sources behind the labels */
+export function formatReferenceContext(matches: ReferenceMatch[]): ReferenceContext | null {
+  if (matches.length === 0) return null;
+
+  const sources = matches.map((match, i): ReferenceCitation => ({
+    label: `R${i + 1}`,
+    materialId: match.material_id,
+    title: match.title,
+    location: match.location,
+  }));
+
+  const excerpts = matches.map((match, i) => {
+    const where = match.location ? ` (${match.location})` : '';
+    return `[${sources[i].label}] ${match.title}${where} - ${match.type.replace(/_/g, ' ')}\n${match.content}`;
+  });
+
+  const text = `REFERENCE MATERIALS (the excerpts most relevant to this request)
+${excerpts.join('\n\n')}
+
+Use these excerpts for facts about the user, their company and their policies, and to match their style.
+When your reply or a draft relies on an excerpt, name its label in your chat reply, e.g. "The 16-week figure is from [R1]".
+Never put the labels inside the post text itself. If the excerpts don't cover something, say so instead of guessing.`;
+
+  return { text, sources };
+}
+
+/** Sources whose label appears in the reply, in label order */
+export function citedSources(reply: string, sources: ReferenceCitation[]): ReferenceCitation[] {
+  const cited = new Set((reply.match(/\[R\d+\]/g) || []).map(label => label.slice(1, -1)));
+  return sources.filter(source => cited.has(source.label));
+}
+
+/** "Sources:" footer appended to the reply, one line per cited excerpt */
+export function formatSourcesFooter(cited: ReferenceCitation[]): string {
+  if (cited.length === 0) return '';
+  return '📚 Sources:\n' + cited
+    .map(source => `[${source.label}] ${source.title}${source.location ? ` (${source.location})` : ''}`)
+    .join('\n');
+}
@@ -0,0 +1,347 @@
+// ============================================================================
+// SHARED RESEARCH PROVIDERS
+// ============================================================================
+// What the agent's research_topic tool looks things up in. Providers are
+// interchangeable: Tavily (TAVILY_API_KEY), a SearXNG-style JSON search
+// endpoint (SEARXNG_URL), the RSS/Atom feeds the user subscribes to
+// (research_feeds) and the user's own reference materials - the last needs no
+// network at all, so research still works offline or without search keys.
+// Results are cached per topic for RESEARCH_CACHE_TTL_HOURS, and the sources
+// are attached to the drafts written from them so they can be fact-checked
+// before the post goes out. Pure TS (see timezone.ts) - callers pass fetch.
+
+import { contentWords, retrieveReferences, type ReferenceClient } from './referenceChunks.ts';
+
+export type ResearchProviderKind = 'tavily' | 'searxng' | 'feeds' | 'references';
+
+/** One thing a provider found; also the shape stored in posts.sources */
+export interface ResearchSource {
+  title: string;
+  /** Null for the user's own reference materials */
+  url: string | null;
+  snippet: string;
+  publishedAt: string | null;
+  provider: ResearchProviderKind;
+}
+
+/** A source as shown to the model, with the label it cites it by */
+export interface LabelledSource extends ResearchSource {
+  id: string;
+}
+
+export interface ResearchRequest {
+  topic: string;
+  /** Narrows web searches, e.g. "fintech" */
+  industry?: string | null;
+  limit: number;
+}
+
+export interface ResearchCallOptions {
+  fetchImpl: typeof fetch;
+  signal?: AbortSignal;
+}
+
+export interface ResearchProvider {
+  kind: ResearchProviderKind;
+  name: string;
+  search(request: ResearchRequest, options: ResearchCallOptions): Promise<ResearchSource[]>;
+}
+
+export interface ResearchResult {
+  topic: string;
+  sources: ResearchSource[];
+  providers: ResearchProviderKind[];
+  fetchedAt: string;
+  /** True when served from the cache */
+  cached: boolean;
+}
+
+export interface ResearchCache {
+  get(key: string): Promise<ResearchResult | null>;
+  set(key: string, result: ResearchResult, expiresAt: Date): Promise<void>;
+}
+
+export interface FeedItem {
+  title: string;
+  url: string | null;
+  summary: string;
+  publishedAt: string | null;
+}
+
+export const RESEARCH_CACHE_TTL_HOURS = 6;
+
+/** Sources handed to the model per research call */
+export const MAX_RESEARCH_SOURCES = 8;
+
+const SNIPPET_LENGTH = 300;
+const MAX_FEEDS = 10;
+
+function clip(text: string, length = SNIPPET_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.substring(0, length - 1).trimEnd()}…` : clean;
+}
+
+// Dates as ISO strings; anything unparseable is dropped rather than guessed
+function isoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+}
+
+// Web searches get the same framing the Tavily-only version used
+function webQuery(request: ResearchRequest): string {
+  let query = `Latest trends and insights about ${request.topic} for LinkedIn professional post`;
+  if (request.industry) query += ` in the ${request.industry} industry`;
+  return query;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export function tavilyProvider(apiKey: string): ResearchProvider {
+  return {
+    kind: 'tavily',
+    name: 'Tavily',
+    async search(request, { fetchImpl, signal }) {
+      const response = await fetchImpl('https://api.tavily.com/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ api_key: apiKey, query: webQuery(request), search_depth: 'basic', max_results: request.limit }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`Tavily returned ${response.status}`);
+
+      const data = await response.json();
+      return (data.results || []).map((r: { title?: string; url?: string; content?: string; published_date?: string }) => ({
+        title: r.title || request.topic,
+        url: r.url || null,
+        snippet: clip(r.content || ''),
+        publishedAt: isoDate(r.published_date),
+        provider: 'tavily' as const,
+      }));
+    },
+  };
+}
+
+/** Any endpoint answering `GET {baseUrl}/search?q=...&format=json` like SearXNG */
+export function searxngProvider(baseUrl: string, apiKey?: string): ResearchProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    kind: 'searxng',
+    name: 'SearXNG',
+    async search(request, { fetchImpl, signal }) {
+      const params = new URLSearchParams({ q: webQuery(request), format: 'json', time_range: 'month' });
+      const response = await fetchImpl(`${root}/search?${params}`, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        signal,
+      });
+      if (!response.ok) throw new Error(`SearXNG returned ${response.status}`);
+
+      const data = await response.json();
+      return (data.results || [])
+        .slice(0, request.limit)
+        .map((r: { title?: string; url?: string; content?: string; publishedDate?: string }) => ({
+          title: r.title || request.topic,
+          url: r.url || null,
+          snippet: clip(r.content || ''),
+          publishedAt: isoDate(r.publishedDate),
+          provider: 'searxng' as const,
+        }));
+    },
+  };
+}
+
+function tagText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return null;
+  return match[1]
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Items of an RSS 2.0 or Atom feed, newest first */
+export function parseFeed(xml: string): FeedItem[] {
+  const entries = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+  return entries
+    .map(entry => {
+      // Atom links are attributes; RSS links are text
+      const atomLink = entry.match(/<link\b[^>]*?(?:rel=["']alternate["'][^>]*?)?href=["']([^"']+)["']/i)?.[1];
+      return {
+        title: tagText(entry, 'title') || '',
+        url: atomLink || tagText(entry, 'link') || tagText(entry, 'guid') || null,
+        summary: tagText(entry, 'description') || tagText(entry, 'summary') || tagText(entry, 'content') || '',
+        publishedAt: isoDate(tagText(entry, 'pubDate') || tagText(entry, 'published') || tagText(entry, 'updated')),
+      };
+    })
+    .filter(item => item.title || item.summary)
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
+}
+
+/** Share of the topic's words that appear in the text (0-1) */
+export function topicOverlap(topic: string, text: string): number {
+  const wanted = contentWords(topic);
+  if (wanted.length === 0) return 0;
+  const present = new Set(contentWords(text));
+  return wanted.filter(word => present.has(word)).length / wanted.length;
+}
+
+/** Recent items from the user's feeds that mention the topic */
+export function feedProvider(feedUrls: string[]): ResearchProvider {
+  return {
+    kind: 'feeds',
+    name: 'Your feeds',
+    async search(request, { fetchImpl, signal }) {
+      const feeds = await Promise.allSettled(
+        feedUrls.slice(0, MAX_FEEDS).map(async url => {
+          const response = await fetchImpl(url, { headers: { Accept: 'application/rss+xml, application/atom+xml, text/xml' }, signal });
+          if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+          return parseFeed(await response.text());
+        })
+      );
+
+      return feeds
+        .flatMap(feed => (feed.status === 'fulfilled' ? feed.value : []))
+        .map(item => ({ item, overlap: topicOverlap(request.topic, `${item.title} ${item.summary}`) }))
+        .filter(({ overlap }) => overlap > 0)
+        .sort((a, b) => b.overlap - a.overlap || (b.item.publishedAt || '').localeCompare(a.item.publishedAt || ''))
+        .slice(0, request.limit)
+        .map(({ item }) => ({
+          title: item.title || request.topic,
+          url: item.url,
+          snippet: clip(item.summary),
+          publishedAt: item.publishedAt,
+          provider: 'feeds' as const,
+        }));
+    },
+  };
+}
+
+/** The user's indexed reference materials (keyword search, no network) */
+export function referenceProvider(
+  client: ReferenceClient,
+  scope: { workspaceId: string | null; userId: string }
+): ResearchProvider {
+  return {
+    kind: 'references',
+    name: 'Your reference materials',
+    async search(request) {
+      const matches = await retrieveReferences(client, { query: request.topic, ...scope, limit: request.limit });
+      return matches.map(match => ({
+        title: match.location ? `${match.title} (${match.location})` : match.title,
+        url: null,
+        snippet: clip(match.content),
+        publishedAt: null,
+        provider: 'references' as const,
+      }));
+    },
+  };
+}
+
+// ============================================================================
+// RUNNING RESEARCH
+// ============================================================================
+
+/** Cache key: the topic's words, order and case ignored, plus which providers ran */
+export function researchCacheKey(topic: string, kinds: ResearchProviderKind[]): string {
+  const words = (topic.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).sort();
+  return `${Array.from(new Set(words)).join(' ')}|${[...kinds].sort().join(',')}`;
+}
+
+// Alternate between providers so one chatty source doesn't crowd out the rest
+function interleave(lists: ResearchSource[][], limit: number): ResearchSource[] {
+  const seen = new Set<string>();
+  const merged: ResearchSource[] = [];
+  for (let i = 0; merged.length < limit && lists.some(list => i < list.length); i++) {
+    for (const list of lists) {
+      const source = list[i];
+      if (!source || merged.length >= limit) continue;
+      const key = (source.url || source.title).toLowerCase().replace(/\/+$/, '');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(source);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Research a topic with every provider at once; a provider that fails is
+ * skipped. Returns null when nothing was found. Fresh results are cached.
+ */
+export async function runResearch(
+  request: Omit<ResearchRequest, 'limit'> & { limit?: number },
+  providers: ResearchProvider[],
+  options: Partial<ResearchCallOptions> & { cache?: ResearchCache | null; ttlHours?: number; now?: Date } = {}
+): Promise<ResearchResult | null> {
+  if (providers.length === 0) return null;
+
+  const kinds = providers.map(provider => provider.kind);
+  const key = researchCacheKey(request.topic, kinds);
+  if (options.cache) {
+    try {
+      const cached = await options.cache.get(key);
+      if (cached) return { ...cached, cached: true };
+    } catch (error) {
+      console.warn('⚠️ Research cache read failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const limit = request.limit ?? MAX_RESEARCH_SOURCES;
+  const callOptions: ResearchCallOptions = { fetchImpl: options.fetchImpl || fetch, signal: options.signal };
+  const results = await Promise.allSettled(
+    providers.map(provider => provider.search({ ...request, limit }, callOptions))
+  );
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.warn(`⚠️ ${providers[i].name} research failed:`, result.reason instanceof Error ? result.reason.message : result.reason);
+    }
+  });
+
+  const sources = interleave(results.map(result => (result.status === 'fulfilled' ? result.value : [])), limit);
+  if (sources.length === 0) return null;
+
+  const now = options.now || new Date();
+  const result: ResearchResult = {
+    topic: request.topic,
+    sources,
+    providers: kinds.filter((_, i) => results[i].status === 'fulfilled'),
+    fetchedAt: now.toISOString(),
+    cached: false,
+  };
+
+  if (options.cache) {
+    const ttlHours = options.ttlHours ?? RESEARCH_CACHE_TTL_HOURS;
+    try {
+      await options.cache.set(key, result, new Date(now.getTime() + ttlHours * 60 * 60 * 1000));
+    } catch (error) {
+      console.warn('⚠️ Research cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+  return result;
+}
+
+/** Label sources S1, S2... continuing after `offset` earlier ones in the turn */
+export function labelSources(sources: ResearchSource[], offset = 0): LabelledSource[] {
+  return sources.map((source, i) => ({ ...source, id: `S${offset + i + 1}` }));
+}
+
+/** Research as the model sees it: one labelled line per source */
+export function formatResearchInsights(sources: LabelledSource[]): string {
+  return sources
+    .map(source => {
+      const date = source.publishedAt ? ` (${source.publishedAt.slice(0, 10)})` : '';
+      return `[${source.id}] ${source.title}${date}: ${source.snippet}`;
+    })
+    .join('\n');
+}
+
+/** Sources the draft names by label; all of them when it names none */
+export function pickSources(available: LabelledSource[], ids: string[] | undefined): ResearchSource[] {
+  const wanted = new Set((ids || []).map(id => id.trim().toUpperCase()));
+  const picked = wanted.size > 0 ? available.filter(source => wanted.has(source.id)) : available;
+  return picked.map(({ id: _id, ...source }) => source);
+}
@@ -0,0 +1,94 @@
+// ============================================================================
+// SHARED SCHEDULE CONFLICTS
+// ============================================================================
+// Checks a proposed time for a queued post against the rest of the user's
+// queue: the plan's daily limit (counted per day in the user's timezone,
+// like generate-series-posts), a minimum gap between two posts, and times
+// that have already passed. The content calendar runs it live while a post
+// is dragged. Pure TS (see timezone.ts).
+
+import { getZonedDateKey } from './timezone.ts';
+
+/** Posts closer together than this compete for the same feed slot */
+export const MIN_POST_GAP_MINUTES = 60;
+
+/** Statuses that take up a slot in the day */
+export const SCHEDULED_STATUSES = ['pending', 'posting', 'posted'];
+
+export type ScheduleConflictKind = 'past' | 'daily_limit' | 'min_gap';
+
+export interface ScheduleConflict {
+  kind: ScheduleConflictKind;
+  message: string;
+  /** Posts the proposed time collides with (daily_limit, min_gap) */
+  postIds: string[];
+}
+
+export interface ScheduledSlot {
+  id: string;
+  status: string;
+  scheduled_time: string | null;
+  posted_at?: string | null;
+}
+
+export interface ScheduleConflictOptions {
+  dailyLimit: number;
+  timeZone: string;
+  now?: Date;
+  minGapMinutes?: number;
+}
+
+// Posted posts hold the slot they actually went out in
+function slotTime(post: ScheduledSlot): Date | null {
+  const iso = post.status === 'posted' ? post.posted_at || post.scheduled_time : post.scheduled_time;
+  return iso ? new Date(iso) : null;
+}
+
+function formatGap(minutes: number): string {
+  return minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes} min`;
+}
+
+/**
+ * Conflicts for moving `postId` to `time`. The post itself is ignored, so
+ * dropping it back where it was never conflicts with its own slot.
+ */
+export function findScheduleConflicts(
+  postId: string,
+  time: Date,
+  posts: ScheduledSlot[],
+  options: ScheduleConflictOptions
+): ScheduleConflict[] {
+  const now = options.now ?? new Date();
+  const minGap = options.minGapMinutes ?? MIN_POST_GAP_MINUTES;
+  const conflicts: ScheduleConflict[] = [];
+
+  if (time.getTime() <= now.getTime()) {
+    conflicts.push({ kind: 'past', message: 'This time has already passed', postIds: [] });
+  }
+
+  const others = posts
+    .filter(p => p.id !== postId && SCHEDULED_STATUSES.includes(p.status))
+    .map(p => ({ id: p.id, time: slotTime(p) }))
+    .filter((p): p is { id: string; time: Date } => !!p.time);
+
+  const dayKey = getZonedDateKey(time, options.timeZone);
+  const sameDay = others.filter(p => getZonedDateKey(p.time, options.timeZone) === dayKey);
+  if (sameDay.length >= options.dailyLimit) {
+    conflicts.push({
+      kind: 'daily_limit',
+      message: `Your plan allows ${options.dailyLimit} post${options.dailyLimit === 1 ? '' : 's'} a day and this day is full`,
+      postIds: sameDay.map(p => p.id),
+    });
+  }
+
+  const close = others.filter(p => Math.abs(p.time.getTime() - time.getTime()) < minGap * 60000);
+  if (close.length > 0) {
+    conflicts.push({
+      kind: 'min_gap',
+      message: `Another post goes out less than ${formatGap(minGap)} from this time`,
+      postIds: close.map(p => p.id),
+    });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,688 @@
+// ============================================================================
+// SHARED NATURAL-LANGUAGE SCHEDULE PARSER
+// ============================================================================
+// One parser for the agent-chat edge function and the web app, so "next
+// friday at 3pm" means the same thing everywhere. Pure TS (see timezone.ts).
+//
+// Understands:
+//   - immediate:  "now", "right now", "asap", "post now"
+//   - relative:   "in 2 hours", "in 30 mins", "in 3 days", "2 hours from now"
+//   - day words:  "today", "tonight", "tomorrow", "day after tomorrow", "next week"
+//   - weekdays:   "friday", "this friday", "next fri", "monday next week"
+//   - absolute:   "March 3 at 10am", "3rd of March", "2026-03-03", "15/3", "the 15th"
+//   - ordinals:   "first monday of next month", "last friday of april"
+//   - recurring:  "every weekday at 9", "daily at 8am", "every mon and thu at 10"
+//   - times:      "3pm", "3:30 pm", "15:30", "at 9", "noon", "midnight",
+//                 "morning", "afternoon", "evening", "tonight", "9 in the morning"
+//
+// Anything that needs a guess (bare "at 3", "15/3" vs "3/15", "2pm or 3pm",
+// "next friday" early in the week) is still resolved, but flagged `ambiguous`
+// with the reasons and alternative interpretations so callers can confirm.
+
+import {
+  DEFAULT_TIMEZONE,
+  getZonedParts,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from './timezone.ts';
+
+export type ScheduleKind = 'immediate' | 'relative' | 'absolute' | 'recurring';
+
+export interface ScheduleRecurrence {
+  weekdays: number[]; // 0 = Sunday
+  hours: number;
+  minutes: number;
+  occurrences: string[]; // Next few occurrences as UTC ISO strings
+}
+
+export interface ParsedSchedule {
+  time: string; // First (or only) occurrence as a UTC ISO string
+  kind: ScheduleKind;
+  timeZone: string;
+  ambiguous: boolean;
+  ambiguityReasons: string[];
+  alternatives: string[]; // Other plausible readings as UTC ISO strings
+  dateSpecified: boolean;
+  timeSpecified: boolean;
+  wasRolledForward: boolean; // Time had passed today, moved to the next day
+  isPast: boolean; // Explicit date/time that is already behind us
+  recurrence?: ScheduleRecurrence;
+}
+
+export interface ScheduleParseOptions {
+  timeZone?: string;
+  now?: Date;
+  defaultHour?: number; // Used when only a date is given (default 9 AM)
+  occurrenceCount?: number; // How many recurring occurrences to expand (default 5)
+  dateOrder?: 'DMY' | 'MDY'; // How to read "3/4" (default DMY)
+}
+
+// ============================================================================
+// VOCABULARY
+// ============================================================================
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = '(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?)';
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  fifth: 5, '5th': 5,
+  last: -1,
+};
+
+const PERIODS: { pattern: RegExp; hours: number; minutes: number; meridiem: 'am' | 'pm' }[] = [
+  { pattern: /\b(?:this |in the )?morning\b/, hours: 9, minutes: 0, meridiem: 'am' },
+  { pattern: /\b(?:lunch ?time|lunch)\b/, hours: 12, minutes: 0, meridiem: 'pm' },
+  { pattern: /\b(?:this |in the )?afternoon\b/, hours: 14, minutes: 0, meridiem: 'pm' },
+  { pattern: /\b(?:end of (?:the )?day|eod)\b/, hours: 17, minutes: 0, meridiem: 'pm' },
+  { pattern: /\b(?:this |in the )?evening\b/, hours: 18, minutes: 0, meridiem: 'pm' },
+  { pattern: /\b(?:tonight|at night|in the night)\b/, hours: 20, minutes: 0, meridiem: 'pm' },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+  'a couple of': 2, 'couple of': 2, 'a few': 3, few: 3,
+  'half an': 0.5, 'half a': 0.5,
+};
+
+function weekdayIndex(token: string): number {
+  return WEEKDAY_NAMES.findIndex(name => name.startsWith(token.slice(0, 3)));
+}
+
+function monthIndex(token: string): number {
+  return MONTH_NAMES.findIndex(name => name.startsWith(token.slice(0, 3)));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function normalize(input: string): string {
+  return input
+    .toLowerCase()
+    .replace(/\ba\.m\.?/g, 'am')
+    .replace(/\bp\.m\.?/g, 'pm')
+    .replace(/\bo'?clock\b/g, '')
+    .replace(/[!?;]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// TIME OF DAY
+// ============================================================================
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+  ambiguous?: string;
+  alternative?: { hours: number; minutes: number };
+  nextDay?: boolean; // "midnight" belongs to the end of the named day
+}
+
+function to24h(hours: number, meridiem?: string): number {
+  if (meridiem === 'pm' && hours < 12) return hours + 12;
+  if (meridiem === 'am' && hours === 12) return 0;
+  return hours;
+}
+
+/**
+ * Guess am/pm for an hour given without one. Posting happens in working
+ * hours, so 7-11 read as morning and 12-6 as afternoon.
+ */
+function guessMeridiem(hours: number): TimeOfDay {
+  const guessed = hours >= 7 && hours <= 11 ? hours : hours === 12 ? 12 : hours + 12;
+  const other = guessed >= 12 ? (guessed === 12 ? 0 : guessed - 12) : guessed + 12;
+  return {
+    hours: guessed,
+    minutes: 0,
+    ambiguous: `"${hours}" could be AM or PM`,
+    alternative: { hours: other, minutes: 0 },
+  };
+}
+
+function readClock(hoursText: string, minutesText: string | undefined, meridiem: string | undefined, period?: 'am' | 'pm'): TimeOfDay | null {
+  let hours = parseInt(hoursText);
+  const minutes = minutesText ? parseInt(minutesText) : 0;
+  if (minutes > 59) return null;
+
+  const ampm = meridiem || period;
+  if (ampm) {
+    if (hours < 1 || hours > 12) {
+      // "15:30 pm" - trust the 24h value
+      if (hours > 23) return null;
+      return { hours, minutes };
+    }
+    return { hours: to24h(hours, ampm), minutes };
+  }
+
+  if (hours > 23) return null;
+  // "09:30", "15:30", "0:15" - unambiguous 24h clock
+  if (hoursText.length === 2 && hoursText.startsWith('0')) return { hours, minutes };
+  if (hours === 0 || hours >= 13) return { hours, minutes };
+
+  const guess = guessMeridiem(hours);
+  hours = guess.hours;
+  return {
+    hours,
+    minutes,
+    ambiguous: guess.ambiguous,
+    alternative: guess.alternative && { hours: guess.alternative.hours, minutes },
+  };
+}
+
+/**
+ * Find the time of day in the text. Returns null when none is mentioned,
+ * 'invalid' for things like "25:00" or "13pm".
+ */
+function parseTimeOfDay(text: string): { time: TimeOfDay | null; extra: TimeOfDay[]; invalid: boolean } {
+  const period = PERIODS.find(p => p.pattern.test(text));
+  const times: TimeOfDay[] = [];
+  let invalid = false;
+
+  // Strip dates so "March 3" or "the 15th" aren't read as hours
+  const stripped = text
+    .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+    .replace(/\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, ' ')
+    .replace(new RegExp(`\\b${MONTH_PATTERN}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s*\\d{4})?\\b`, 'g'), ' ')
+    .replace(new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s*\\d{4})?\\b`, 'g'), ' ')
+    .replace(/\b\d{1,2}(?:st|nd|rd|th)\b/g, ' ')
+    .replace(/\b(?:in|after)\s+\S+\s+(?:minutes?|mins?|hours?|hrs?|days?|weeks?)\b/g, ' ')
+    .replace(/\b\S+\s+(?:minutes?|mins?|hours?|hrs?|days?|weeks?)\s+from now\b/g, ' ');
+
+  // "3:30 pm", "15:30", "3:30"
+  const clockRegex = /\b(\d{1,2}):(\d{2})\s*(am|pm)?\b/g;
+  // "3pm", "3 pm"
+  const meridiemRegex = /\b(\d{1,2})\s*(am|pm)\b/g;
+  // "at 9", "@ 9", "9 in the morning", "9 tonight"
+  const bareRegex = /(?:\bat|@)\s*(\d{1,2})\b(?!\s*(?::|am|pm|\d|\/|st\b|nd\b|rd\b|th\b))|\b(\d{1,2})\s+(?=(?:in the (?:morning|afternoon|evening)|tonight|at night)\b)/g;
+
+  let match: RegExpExecArray | null;
+  const consumed: [number, number][] = [];
+  const overlaps = (start: number, end: number) => consumed.some(([s, e]) => start < e && end > s);
+
+  while ((match = clockRegex.exec(stripped))) {
+    const parsed = readClock(match[1], match[2], match[3], match[3] ? undefined : period?.meridiem);
+    consumed.push([match.index, match.index + match[0].length]);
+    if (parsed) times.push(parsed); else invalid = true;
+  }
+  while ((match = meridiemRegex.exec(stripped))) {
+    if (overlaps(match.index, match.index + match[0].length)) continue;
+    const hours = parseInt(match[1]);
+    consumed.push([match.index, match.index + match[0].length]);
+    if (hours < 1 || hours > 12) { invalid = true; continue; }
+    times.push({ hours: to24h(hours, match[2]), minutes: 0 });
+  }
+  while ((match = bareRegex.exec(stripped))) {
+    if (overlaps(match.index, match.index + match[0].length)) continue;
+    consumed.push([match.index, match.index + match[0].length]);
+    const parsed = readClock(match[1] || match[2], undefined, undefined, period?.meridiem);
+    if (parsed) times.push(parsed); else invalid = true;
+  }
+
+  // Named times
+  if (/\b(?:noon|midday)\b/.test(stripped)) times.push({ hours: 12, minutes: 0 });
+  if (/\bmidnight\b/.test(stripped)) times.push({ hours: 0, minutes: 0, nextDay: true });
+
+  if (times.length > 0) {
+    return { time: times[0], extra: times.slice(1), invalid };
+  }
+  if (period) {
+    return { time: { hours: period.hours, minutes: period.minutes }, extra: [], invalid };
+  }
+  return { time: null, extra: [], invalid };
+}
+
+// ============================================================================
+// RELATIVE OFFSETS
+// ============================================================================
+
+interface RelativeOffset {
+  minutes: number; // Offset for minute/hour units
+  days: number; // Offset for day/week units (keeps the wall-clock time)
+  ambiguous?: string;
+}
+
+function parseAmount(token: string): number | null {
+  if (/^\d+(?:\.\d+)?$/.test(token)) return parseFloat(token);
+  return NUMBER_WORDS[token] ?? null;
+}
+
+function parseRelativeOffset(text: string): RelativeOffset | null {
+  const unit = '(minutes?|mins?|hours?|hrs?|days?|weeks?)';
+  const amount = '(\\d+(?:\\.\\d+)?|half an?|a couple of|couple of|a few|few|an?|one|two|three|four|five|six|seven|eight|nine|ten|fifteen|twenty|thirty)';
+  const match = text.match(new RegExp(`\\b(?:in|after)\\s+${amount}\\s*${unit}\\b`))
+    || text.match(new RegExp(`\\b${amount}\\s*${unit}\\s+from now\\b`));
+  if (!match) return null;
+
+  let value = parseAmount(match[1]);
+  if (value === null) return null;
+  const unitText = match[2];
+
+  // "half an hour"
+  if (match[1].startsWith('half')) value = 0.5;
+
+  const ambiguous = /few|couple/.test(match[1]) ? `"${match[1]}" is not an exact amount` : undefined;
+
+  if (unitText.startsWith('min')) return { minutes: Math.round(value), days: 0, ambiguous };
+  if (unitText.startsWith('h')) return { minutes: Math.round(value * 60), days: 0, ambiguous };
+  if (unitText.startsWith('d')) return { minutes: 0, days: Math.round(value), ambiguous };
+  return { minutes: 0, days: Math.round(value * 7), ambiguous };
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+interface DatePart {
+  year: number;
+  month: number;
+  day: number;
+  explicitYear?: boolean;
+  ambiguous?: string;
+  alternative?: { year: number; month: number; day: number };
+  weekdayOnly?: number; // Set for bare weekdays, which may roll a week forward
+  isToday?: boolean; // Explicit "today"/"tonight"
+}
+
+interface Today {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+/** Shift a calendar day by N days (pure calendar math, no timezone involved) */
+function addDays(date: { year: number; month: number; day: number }, days: number) {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+function compareDates(a: { year: number; month: number; day: number }, b: { year: number; month: number; day: number }): number {
+  return Date.UTC(a.year, a.month, a.day) - Date.UTC(b.year, b.month, b.day);
+}
+
+/** Resolve month/day without a year to the next time that date comes around */
+function upcomingDate(today: Today, month: number, day: number): { year: number; month: number; day: number } {
+  let year = today.year;
+  if (compareDates({ year, month, day }, today) < 0) year += 1;
+  return { year, month, day };
+}
+
+export function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): number | null {
+  if (n === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(Date.UTC(year, month, last)).getUTCDay();
+    return last - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  return day <= daysInMonth(year, month) ? day : null;
+}
+
+function parseDate(text: string, today: Today, dateOrder: 'DMY' | 'MDY'): DatePart | null | 'invalid' {
+  // ISO: 2026-03-03
+  let match = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (match) {
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2]) - 1;
+    const day = parseInt(match[3]);
+    if (month > 11 || day < 1 || day > daysInMonth(year, month)) return 'invalid';
+    return { year, month, day, explicitYear: true };
+  }
+
+  // Slashes: 15/3, 3/15, 3/4/2026
+  match = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+  if (match) {
+    const first = parseInt(match[1]);
+    const second = parseInt(match[2]);
+    const yearText = match[3];
+    const explicitYear = yearText ? (yearText.length === 2 ? 2000 + parseInt(yearText) : parseInt(yearText)) : undefined;
+
+    const build = (day: number, month: number) => {
+      if (month < 1 || month > 12 || day < 1) return null;
+      const year = explicitYear ?? upcomingDate(today, month - 1, day).year;
+      if (day > daysInMonth(year, month - 1)) return null;
+      return { year, month: month - 1, day };
+    };
+    const dmy = build(first, second);
+    const mdy = build(second, first);
+    const primary = dateOrder === 'DMY' ? dmy || mdy : mdy || dmy;
+    const secondary = primary === dmy ? mdy : dmy;
+    if (!primary) return 'invalid';
+
+    const result: DatePart = { ...primary, explicitYear: !!explicitYear };
+    if (secondary && compareDates(secondary, primary) !== 0) {
+      result.ambiguous = `"${match[0]}" could be day/month or month/day`;
+      result.alternative = secondary;
+    }
+    return result;
+  }
+
+  // "first monday of next month", "last friday in april"
+  match = text.match(new RegExp(`\\b(first|second|third|fourth|fifth|last|1st|2nd|3rd|4th|5th)\\s+${WEEKDAY_PATTERN}\\s+(?:of|in)\\s+(this month|next month|${MONTH_PATTERN})\\b`));
+  if (match) {
+    const n = ORDINAL_WORDS[match[1]];
+    const weekday = weekdayIndex(match[2]);
+    let year = today.year;
+    let month = today.month;
+    if (match[3] === 'next month') {
+      month += 1;
+    } else if (match[3] !== 'this month') {
+      month = monthIndex(match[3]);
+      if (month < today.month) year += 1;
+    }
+    if (month > 11) { month -= 12; year += 1; }
+
+    let day = nthWeekdayOfMonth(year, month, weekday, n);
+    if (day === null) return 'invalid';
+    // Already past this month and no month named explicitly - take next year's
+    if (compareDates({ year, month, day }, today) < 0 && match[3] !== 'this month') {
+      year += 1;
+      day = nthWeekdayOfMonth(year, month, weekday, n);
+      if (day === null) return 'invalid';
+    }
+    return { year, month, day };
+  }
+
+  // "March 3", "Mar 3rd, 2026"
+  match = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s*(\\d{4}))?\\b`));
+  let monthText: string | undefined;
+  let dayText: string | undefined;
+  let yearText: string | undefined;
+  if (match) {
+    [, monthText, dayText, yearText] = match;
+  } else {
+    // "3 March", "3rd of March 2026"
+    match = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s*(\\d{4}))?\\b`));
+    if (match) [, dayText, monthText, yearText] = match;
+  }
+  if (monthText && dayText) {
+    const month = monthIndex(monthText);
+    const day = parseInt(dayText);
+    if (yearText) {
+      const year = parseInt(yearText);
+      if (day < 1 || day > daysInMonth(year, month)) return 'invalid';
+      return { year, month, day, explicitYear: true };
+    }
+    const upcoming = upcomingDate(today, month, day);
+    if (day < 1 || day > daysInMonth(upcoming.year, month)) return 'invalid';
+    return upcoming;
+  }
+
+  // "the 15th", "on the 3rd" - this month if still ahead, else next month
+  match = text.match(/\b(?:on )?(?:the )?(\d{1,2})(st|nd|rd|th)\b/);
+  if (match) {
+    const day = parseInt(match[1]);
+    if (day < 1 || day > 31) return 'invalid';
+    let year = today.year;
+    let month = today.month;
+    if (day < today.day) {
+      month += 1;
+      if (month > 11) { month = 0; year += 1; }
+    }
+    // Skip months too short for the day ("the 31st" in a 30-day month)
+    while (day > daysInMonth(year, month)) {
+      month += 1;
+      if (month > 11) { month = 0; year += 1; }
+    }
+    return { year, month, day };
+  }
+
+  // Weekdays: "friday", "this friday", "next friday", "friday next week"
+  match = text.match(new RegExp(`\\b(?:(this|next|coming|on)\\s+)?${WEEKDAY_PATTERN}\\b(\\s+next week)?`));
+  if (match) {
+    const qualifier = match[1];
+    const weekday = weekdayIndex(match[2]);
+    let daysUntil = (weekday - today.weekday + 7) % 7;
+
+    if (match[3]) {
+      // "<weekday> next week" - that weekday in the following Monday-based week
+      const daysToNextMonday = ((1 - today.weekday + 7) % 7) || 7;
+      const offset = (weekday + 6) % 7; // Monday = 0
+      return { ...addDays(today, daysToNextMonday + offset) };
+    }
+
+    if (qualifier === 'next') {
+      if (daysUntil === 0) daysUntil = 7;
+      const result: DatePart = { ...addDays(today, daysUntil) };
+      // Early in the week "next friday" may mean the one after this week's
+      const sameWeek = (today.weekday + 6) % 7 < (weekday + 6) % 7;
+      if (sameWeek) {
+        result.ambiguous = `"next ${WEEKDAY_NAMES[weekday]}" could mean this week's or next week's`;
+        result.alternative = addDays(today, daysUntil + 7);
+      }
+      return result;
+    }
+
+    return { ...addDays(today, daysUntil), weekdayOnly: daysUntil === 0 ? weekday : undefined };
+  }
+
+  // Day words
+  if (/\bday after tomorrow\b/.test(text)) return { ...addDays(today, 2) };
+  if (/\btomorrow\b|\btmrw?\b/.test(text)) return { ...addDays(today, 1) };
+  if (/\bnext week\b/.test(text)) return { ...addDays(today, 7) };
+  if (/\btoday\b|\btonight\b/.test(text)) return { ...addDays(today, 0), isToday: true };
+
+  return null;
+}
+
+// ============================================================================
+// RECURRENCE
+// ============================================================================
+
+function parseRecurrenceDays(text: string): number[] | null {
+  const recurring = /\b(?:every|each|daily)\b|\bweekdays\b|\bweekends\b|\bon (?:mon|tue|wed|thu|fri|sat|sun)[a-z]*s\b/.test(text);
+  if (!recurring) return null;
+
+  if (/\bweekdays?\b|\bworking days?\b|\bbusiness days?\b/.test(text)) return [1, 2, 3, 4, 5];
+  if (/\bweekends?\b/.test(text)) return [0, 6];
+
+  const days = new Set<number>();
+  const regex = new RegExp(`\\b${WEEKDAY_PATTERN}s?\\b`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text))) days.add(weekdayIndex(match[1]));
+  if (days.size > 0) return [...days].sort((a, b) => a - b);
+
+  if (/\b(?:every ?day|daily|every (?:morning|afternoon|evening|night))\b/.test(text)) return [0, 1, 2, 3, 4, 5, 6];
+  if (/\bevery week\b/.test(text)) return null; // Needs a weekday to be useful
+  return null;
+}
+
+/**
+ * Next `count` occurrences of a weekly recurrence, as UTC ISO strings
+ */
+export function expandRecurrence(
+  recurrence: Pick<ScheduleRecurrence, 'weekdays' | 'hours' | 'minutes'>,
+  count: number,
+  options: { timeZone?: string; now?: Date } = {}
+): string[] {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const now = options.now || new Date();
+  const today = getZonedParts(now, timeZone);
+  const occurrences: string[] = [];
+
+  for (let offset = 0; occurrences.length < count && offset < 366; offset++) {
+    const date = addDays(today, offset);
+    const weekday = new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+    if (!recurrence.weekdays.includes(weekday)) continue;
+    const occurrence = zonedTimeToUtc(date.year, date.month, date.day, recurrence.hours, recurrence.minutes, timeZone);
+    if (occurrence <= now) continue;
+    occurrences.push(occurrence.toISOString());
+  }
+  return occurrences;
+}
+
+// ============================================================================
+// MAIN ENTRY POINT
+// ============================================================================
+
+/**
+ * Parse a natural-language schedule ("tomorrow at 3pm", "March 3 at 10am",
+ * "every weekday at 9") in the user's timezone. Returns null when the text
+ * contains no recognisable date or time.
+ */
+export function parseSchedule(input: string, options: ScheduleParseOptions = {}): ParsedSchedule | null {
+  const text = normalize(input || '');
+  if (!text) return null;
+
+  const timeZone = resolveTimeZone(options.timeZone || DEFAULT_TIMEZONE);
+  const now = options.now ? new Date(options.now) : new Date();
+  const defaultHour = options.defaultHour ?? 9;
+  const zonedNow = getZonedParts(now, timeZone);
+  const today: Today = { year: zonedNow.year, month: zonedNow.month, day: zonedNow.day, weekday: zonedNow.weekday };
+
+  const base = {
+    timeZone,
+    ambiguityReasons: [] as string[],
+    alternatives: [] as string[],
+    wasRolledForward: false,
+    isPast: false,
+  };
+
+  // Immediate
+  if (/^(?:now|asap)$|\bright now\b|\bimmediately\b|\bpost (?:it )?now\b|\basap\b/.test(text)) {
+    const time = new Date(now.getTime() + 60 * 1000);
+    time.setUTCSeconds(0, 0);
+    return {
+      ...base,
+      time: time.toISOString(),
+      kind: 'immediate',
+      ambiguous: false,
+      dateSpecified: false,
+      timeSpecified: true,
+    };
+  }
+
+  const { time: timeOfDay, extra: extraTimes, invalid: invalidTime } = parseTimeOfDay(text);
+  if (invalidTime && !timeOfDay) return null;
+
+  const reasons: string[] = [];
+  const alternativeTimes: Date[] = [];
+  if (timeOfDay?.ambiguous) reasons.push(timeOfDay.ambiguous);
+  if (extraTimes.length > 0) reasons.push('More than one time was mentioned');
+
+  const hours = timeOfDay?.hours ?? defaultHour;
+  const minutes = timeOfDay?.minutes ?? 0;
+
+  const finish = (
+    result: Omit<ParsedSchedule, 'ambiguous' | 'ambiguityReasons' | 'alternatives' | 'timeZone' | 'wasRolledForward' | 'isPast'> &
+      Partial<Pick<ParsedSchedule, 'wasRolledForward' | 'isPast'>>
+  ): ParsedSchedule => ({
+    ...base,
+    ...result,
+    ambiguous: reasons.length > 0,
+    ambiguityReasons: reasons,
+    alternatives: alternativeTimes
+      .filter(alt => alt.toISOString() !== result.time)
+      .map(alt => alt.toISOString()),
+  });
+
+  // Relative offsets
+  const offset = parseRelativeOffset(text);
+  if (offset) {
+    if (offset.ambiguous) reasons.push(offset.ambiguous);
+    if (offset.minutes > 0) {
+      const time = new Date(now.getTime() + offset.minutes * 60 * 1000);
+      time.setUTCSeconds(0, 0);
+      return finish({ time: time.toISOString(), kind: 'relative', dateSpecified: false, timeSpecified: true });
+    }
+    const date = addDays(today, offset.days);
+    const time = timeOfDay
+      ? zonedTimeToUtc(date.year, date.month, date.day, hours, minutes, timeZone)
+      : zonedTimeToUtc(date.year, date.month, date.day, zonedNow.hours, zonedNow.minutes, timeZone);
+    return finish({ time: time.toISOString(), kind: 'relative', dateSpecified: true, timeSpecified: !!timeOfDay });
+  }
+
+  // Recurring
+  const recurringDays = parseRecurrenceDays(text);
+  if (recurringDays) {
+    const occurrences = expandRecurrence(
+      { weekdays: recurringDays, hours, minutes },
+      options.occurrenceCount ?? 5,
+      { timeZone, now }
+    );
+    if (occurrences.length === 0) return null;
+    if (timeOfDay?.alternative) {
+      alternativeTimes.push(new Date(expandRecurrence(
+        { weekdays: recurringDays, ...timeOfDay.alternative },
+        1,
+        { timeZone, now }
+      )[0]));
+    }
+    return finish({
+      time: occurrences[0],
+      kind: 'recurring',
+      dateSpecified: true,
+      timeSpecified: !!timeOfDay,
+      recurrence: { weekdays: recurringDays, hours, minutes, occurrences },
+    });
+  }
+
+  // Absolute / day words / weekdays
+  const date = parseDate(text, today, options.dateOrder || 'DMY');
+  if (date === 'invalid') return null;
+  if (!date && !timeOfDay) return null;
+
+  if (date?.ambiguous) reasons.push(date.ambiguous);
+
+  let day = date || { year: today.year, month: today.month, day: today.day };
+  if (timeOfDay?.nextDay) day = addDays(day, 1);
+
+  const build = (d: { year: number; month: number; day: number }, h = hours, m = minutes) =>
+    zonedTimeToUtc(d.year, d.month, d.day, h, m, timeZone);
+
+  let time = build(day);
+  let wasRolledForward = false;
+  let isPast = false;
+
+  if (time <= now) {
+    if (!date) {
+      // Only a time was given and it has passed today - next occurrence is tomorrow
+      day = addDays(day, 1);
+      time = build(day);
+      wasRolledForward = true;
+    } else if (date.weekdayOnly !== undefined) {
+      // "friday at 9am" said on Friday afternoon - next week's Friday
+      day = addDays(day, 7);
+      time = build(day);
+      wasRolledForward = true;
+    } else {
+      isPast = true;
+    }
+  }
+
+  // Other readings of the time follow the same "next occurrence" rule when no date was given
+  const buildAlternative = (h: number, m: number) => {
+    const candidate = build(date ? day : { year: today.year, month: today.month, day: today.day }, h, m);
+    return !date && candidate <= now ? build(addDays(today, 1), h, m) : candidate;
+  };
+  if (timeOfDay?.alternative) {
+    alternativeTimes.push(buildAlternative(timeOfDay.alternative.hours, timeOfDay.alternative.minutes));
+  }
+  for (const extra of extraTimes) {
+    alternativeTimes.push(buildAlternative(extra.hours, extra.minutes));
+  }
+  if (date?.alternative) {
+    alternativeTimes.push(build(date.alternative));
+  }
+
+  return finish({
+    time: time.toISOString(),
+    kind: 'absolute',
+    dateSpecified: !!date,
+    timeSpecified: !!timeOfDay,
+    wasRolledForward,
+    isPast,
+  });
+}
@@ -0,0 +1,56 @@
+// ============================================================================
+// SHARED SERVER-SENT EVENTS HELPERS
+// ============================================================================
+// Used both to read streamed model responses in edge functions and to read
+// agent-chat's own stream in the web app. Pure TS (see timezone.ts).
+
+export interface SSEMessage {
+  event: string | null;
+  data: string;
+}
+
+/** Serialize one SSE message; `data` is JSON-encoded */
+export function formatSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read an SSE body message by message. Multi-line `data:` fields are joined
+ * with newlines; comments and unknown fields are ignored.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parse = (block: string): SSEMessage | null => {
+    let event: string | null = null;
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parse(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const last = parse(buffer + decoder.decode());
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,481 @@
+// ============================================================================
+// SHARED WRITING-STYLE FINGERPRINT
+// ============================================================================
+// Measures how the user actually writes, from their LinkedIn post history:
+// sentence lengths, vocabulary, line-break cadence, emoji placement, how posts
+// open (hook) and end (call to action), and phrases they keep coming back to.
+// save-scanned-posts recomputes the profile whenever new history arrives and
+// stores it in user_writing_style.style_profile; get-agent-context turns it
+// into instructions for the agents, and the post preview scores each draft
+// against it. Profiles carry STYLE_PROFILE_VERSION - bump it when the
+// analysis changes and stored profiles are recomputed on next read.
+// Pure TS (see timezone.ts).
+
+import { classifyHook, type HookStyle } from './contentInsights.ts';
+import { contentWords } from './referenceChunks.ts';
+
+export const STYLE_PROFILE_VERSION = 1;
+
+/** Posts needed before a profile is worth using */
+export const MIN_STYLE_POSTS = 3;
+
+/** Most recent posts the profile is computed from */
+export const MAX_STYLE_POSTS = 100;
+
+export type CtaStyle = 'question' | 'comment' | 'share' | 'follow' | 'link' | 'none';
+export type EmojiPlacement = 'opening' | 'inline' | 'line_end' | 'closing';
+
+export interface StyleProfile {
+  version: number;
+  postsAnalyzed: number;
+  computedAt: string;
+  /** Words per post */
+  words: { mean: number; median: number };
+  sentences: {
+    meanWords: number;
+    medianWords: number;
+    p90Words: number;
+    /** Share of sentences of up to 8 words, 9-20 words and longer */
+    shares: { short: number; medium: number; long: number };
+  };
+  vocabulary: {
+    /** Distinct words over words, per 100-word window (0-1) */
+    diversity: number;
+    avgWordLength: number;
+    contractionsPer100: number;
+    /** Content words the user uses across many posts */
+    signature: string[];
+  };
+  lineBreaks: {
+    linesPerPost: number;
+    wordsPerLine: number;
+    /** Share of line breaks that leave a blank line */
+    blankLineShare: number;
+    /** Share of lines that hold a single sentence */
+    oneSentenceLineShare: number;
+  };
+  emoji: {
+    perPost: number;
+    postsWithEmoji: number;
+    placement: Record<EmojiPlacement, number>;
+    favourites: string[];
+  };
+  hashtags: { perPost: number; common: string[] };
+  hooks: Record<HookStyle, number>;
+  ctas: Record<CtaStyle, number>;
+  /** Recurring 3-4 word phrases */
+  phrases: string[];
+}
+
+export interface PostStyleFeatures {
+  words: number;
+  sentenceLengths: number[];
+  lines: number;
+  blankLineShare: number;
+  oneSentenceLines: number;
+  emojis: string[];
+  emojiPlacement: Record<EmojiPlacement, number>;
+  hashtags: string[];
+  hook: HookStyle;
+  cta: CtaStyle;
+  contractions: number;
+  tokens: string[];
+}
+
+export interface StyleMatch {
+  /** 0-100 */
+  score: number;
+  /** What pulls the score down, most important first */
+  notes: string[];
+}
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\u{FE0F}|\u200D\p{Extended_Pictographic})*/gu;
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+const CONTRACTION_PATTERN = /\b[\p{L}]+['’](?:m|s|re|ve|ll|d|t)\b/giu;
+const HASHTAG_LINE = /^(\s*#[\p{L}\p{N}_]+)+\s*$/u;
+
+const HOOK_STYLES: HookStyle[] = ['question', 'number', 'story', 'quote', 'statement'];
+const CTA_STYLES: CtaStyle[] = ['question', 'comment', 'share', 'follow', 'link', 'none'];
+const PLACEMENTS: EmojiPlacement[] = ['opening', 'inline', 'line_end', 'closing'];
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+function shares<K extends string>(keys: K[], counts: Partial<Record<K, number>>): Record<K, number> {
+  const total = keys.reduce((sum, key) => sum + (counts[key] || 0), 0);
+  return Object.fromEntries(keys.map(key => [key, total > 0 ? round((counts[key] || 0) / total) : 0])) as Record<K, number>;
+}
+
+function words(text: string): string[] {
+  return text.replace(HASHTAG_PATTERN, ' ').toLowerCase().match(WORD_PATTERN) || [];
+}
+
+// Lines that carry text; a trailing block of hashtags isn't part of the voice
+function textLines(content: string): string[] {
+  return content.split('\n').map(line => line.trim()).filter(line => line && !HASHTAG_LINE.test(line));
+}
+
+function splitSentences(line: string): string[] {
+  return line.split(/(?<=[.!?…])\s+/).filter(sentence => words(sentence).length > 0);
+}
+
+export function classifyCta(content: string): CtaStyle {
+  const ending = textLines(content).slice(-2).join(' ').replace(EMOJI_PATTERN, '').trim();
+  if (!ending) return 'none';
+  if (/https?:\/\/|link in (the )?(comments?|bio)/i.test(ending)) return 'link';
+  if (/\bfollow\b/i.test(ending)) return 'follow';
+  if (/\b(repost|reshare|share this|pass it on)\b|♻/i.test(ending)) return 'share';
+  if (/\b(comment|let me know|share your|tell me|drop (a|your)|in the comments)\b/i.test(ending)) return 'comment';
+  if (ending.endsWith('?')) return 'question';
+  return 'none';
+}
+
+export function extractStyleFeatures(content: string): PostStyleFeatures {
+  const allLines = content.replace(/\r\n?/g, '\n').trim().split('\n');
+  const lines = textLines(content);
+  const sentenceLengths = lines.flatMap(line => splitSentences(line).map(sentence => words(sentence).length));
+
+  // Breaks between text lines that skip a line (paragraphs) vs plain line breaks
+  let breaks = 0;
+  let blankBreaks = 0;
+  let pendingBlank = false;
+  let seenText = false;
+  for (const line of allLines) {
+    if (!line.trim()) {
+      pendingBlank = seenText;
+      continue;
+    }
+    if (seenText) {
+      breaks++;
+      if (pendingBlank) blankBreaks++;
+    }
+    seenText = true;
+    pendingBlank = false;
+  }
+
+  const placement: Record<EmojiPlacement, number> = { opening: 0, inline: 0, line_end: 0, closing: 0 };
+  const emojis: string[] = [];
+  lines.forEach((line, i) => {
+    for (const match of line.matchAll(EMOJI_PATTERN)) {
+      emojis.push(match[0]);
+      const rest = line.slice((match.index ?? 0) + match[0].length).replace(EMOJI_PATTERN, '').trim();
+      if (i === 0) placement.opening++;
+      else if (i === lines.length - 1) placement.closing++;
+      else if (!rest) placement.line_end++;
+      else placement.inline++;
+    }
+  });
+
+  const tokens = words(content);
+  return {
+    words: tokens.length,
+    sentenceLengths,
+    lines: lines.length,
+    blankLineShare: breaks > 0 ? blankBreaks / breaks : 0,
+    oneSentenceLines: lines.filter(line => splitSentences(line).length === 1).length,
+    emojis,
+    emojiPlacement: placement,
+    hashtags: [...content.matchAll(HASHTAG_PATTERN)].map(match => match[1].toLowerCase()),
+    hook: classifyHook(content),
+    cta: classifyCta(content),
+    contractions: content.match(CONTRACTION_PATTERN)?.length || 0,
+    tokens,
+  };
+}
+
+// Distinct words per 100-word window, so long posts aren't penalised
+function diversity(tokens: string[]): number {
+  const windows: number[] = [];
+  for (let i = 0; i < tokens.length; i += 100) {
+    const window = tokens.slice(i, i + 100);
+    if (window.length >= 20 || i === 0) windows.push(new Set(window).size / window.length);
+  }
+  return mean(windows);
+}
+
+// Most used items across posts, counted once per post
+function topAcross(lists: string[][], minPosts: number, limit: number): string[] {
+  const counts = new Map<string, number>();
+  lists.forEach(list => new Set(list).forEach(item => counts.set(item, (counts.get(item) || 0) + 1)));
+  return [...counts.entries()]
+    .filter(([, count]) => count >= minPosts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([item]) => item);
+}
+
+function ngrams(tokens: string[], size: number): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i + size <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + size);
+    // Phrases made of filler words only ("and i was") say nothing about the voice
+    if (contentWords(gram.join(' ')).length > 0) grams.push(gram.join(' '));
+  }
+  return grams;
+}
+
+// Phrases the user repeats across posts; a 3-word phrase inside a kept
+// 4-word one is dropped
+function recurringPhrases(features: PostStyleFeatures[], minPosts: number): string[] {
+  const perPost = (size: number) => features.map(f => ngrams(f.tokens, size));
+  const four = topAcross(perPost(4), minPosts, 8);
+  const three = topAcross(perPost(3), minPosts, 12).filter(phrase => !four.some(longer => longer.includes(phrase)));
+  return [...four, ...three].slice(0, 8);
+}
+
+/**
+ * Style profile from the user's posts (newest first), or null when there are
+ * fewer than MIN_STYLE_POSTS with text.
+ */
+export function analyzeWritingStyle(contents: string[], now = new Date()): StyleProfile | null {
+  const posts = contents.filter(content => content?.trim()).slice(0, MAX_STYLE_POSTS);
+  if (posts.length < MIN_STYLE_POSTS) return null;
+
+  const features = posts.map(extractStyleFeatures);
+  const sentenceLengths = features.flatMap(f => f.sentenceLengths);
+  const allTokens = features.flatMap(f => f.tokens);
+  const totalWords = allTokens.length;
+  const totalLines = features.reduce((sum, f) => sum + f.lines, 0);
+  // Something counts as a habit once it shows up in a fifth of the posts
+  const minPosts = Math.max(2, Math.ceil(posts.length * 0.2));
+
+  const hookCounts: Partial<Record<HookStyle, number>> = {};
+  const ctaCounts: Partial<Record<CtaStyle, number>> = {};
+  const placementCounts: Partial<Record<EmojiPlacement, number>> = {};
+  for (const f of features) {
+    hookCounts[f.hook] = (hookCounts[f.hook] || 0) + 1;
+    ctaCounts[f.cta] = (ctaCounts[f.cta] || 0) + 1;
+    PLACEMENTS.forEach(p => { placementCounts[p] = (placementCounts[p] || 0) + f.emojiPlacement[p]; });
+  }
+
+  return {
+    version: STYLE_PROFILE_VERSION,
+    postsAnalyzed: posts.length,
+    computedAt: now.toISOString(),
+    words: {
+      mean: Math.round(mean(features.map(f => f.words))),
+      median: quantile(features.map(f => f.words), 0.5),
+    },
+    sentences: {
+      meanWords: round(mean(sentenceLengths), 1),
+      medianWords: quantile(sentenceLengths, 0.5),
+      p90Words: quantile(sentenceLengths, 0.9),
+      shares: {
+        short: round(sentenceLengths.filter(n => n <= 8).length / (sentenceLengths.length || 1)),
+        medium: round(sentenceLengths.filter(n => n > 8 && n <= 20).length / (sentenceLengths.length || 1)),
+        long: round(sentenceLengths.filter(n => n > 20).length / (sentenceLengths.length || 1)),
+      },
+    },
+    vocabulary: {
+      diversity: round(mean(features.map(f => diversity(f.tokens)))),
+      avgWordLength: round(mean(allTokens.map(token => token.length)), 1),
+      contractionsPer100: round(totalWords > 0 ? (features.reduce((sum, f) => sum + f.contractions, 0) / totalWords) * 100 : 0, 1),
+      signature: topAcross(features.map(f => contentWords(f.tokens.join(' '))), minPosts, 12),
+    },
+    lineBreaks: {
+      linesPerPost: round(totalLines / posts.length, 1),
+      wordsPerLine: round(totalLines > 0 ? totalWords / totalLines : 0, 1),
+      blankLineShare: round(mean(features.filter(f => f.lines > 1).map(f => f.blankLineShare))),
+      oneSentenceLineShare: round(totalLines > 0 ? features.reduce((sum, f) => sum + f.oneSentenceLines, 0) / totalLines : 0),
+    },
+    emoji: {
+      perPost: round(mean(features.map(f => f.emojis.length)), 1),
+      postsWithEmoji: round(features.filter(f => f.emojis.length > 0).length / posts.length),
+      placement: shares(PLACEMENTS, placementCounts),
+      favourites: topAcross(features.map(f => f.emojis), minPosts, 5),
+    },
+    hashtags: {
+      perPost: round(mean(features.map(f => f.hashtags.length)), 1),
+      common: topAcross(features.map(f => f.hashtags), minPosts, 10),
+    },
+    hooks: shares(HOOK_STYLES, hookCounts),
+    ctas: shares(CTA_STYLES, ctaCounts),
+    phrases: recurringPhrases(features, minPosts),
+  };
+}
+
+/** Whether a stored profile was made by this version of the analysis */
+export function isCurrentStyleProfile(profile: unknown): profile is StyleProfile {
+  return !!profile && typeof profile === 'object' && (profile as StyleProfile).version === STYLE_PROFILE_VERSION;
+}
+
+const HOOK_PHRASES: Record<HookStyle, string> = {
+  question: 'a question',
+  number: 'a number or stat',
+  story: 'a personal story',
+  quote: 'a quote',
+  statement: 'a bold statement',
+};
+
+const CTA_PHRASES: Record<CtaStyle, string> = {
+  question: 'a question to the reader',
+  comment: 'an invitation to comment',
+  share: 'a request to repost',
+  follow: 'a request to follow',
+  link: 'a link',
+  none: 'no call to action',
+};
+
+const PLACEMENT_PHRASES: Record<EmojiPlacement, string> = {
+  opening: 'in the opening line',
+  inline: 'inside sentences',
+  line_end: 'at the end of lines',
+  closing: 'in the closing line',
+};
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+function ranked<K extends string>(record: Record<K, number>): K[] {
+  return (Object.keys(record) as K[]).filter(key => record[key] > 0).sort((a, b) => record[b] - record[a]);
+}
+
+/** The profile as instruction lines for the model */
+export function describeStyleProfile(profile: StyleProfile): string[] {
+  const lines = [
+    `Post length: around ${profile.words.median} words`,
+    `Sentences: ${profile.sentences.meanWords} words on average (${percent(profile.sentences.shares.short)} short, ${percent(profile.sentences.shares.long)} over 20 words)`,
+    `Line breaks: about ${profile.lineBreaks.wordsPerLine} words per line, ${profile.lineBreaks.linesPerPost} lines per post` +
+      (profile.lineBreaks.blankLineShare >= 0.5 ? ', blank line between paragraphs' : '') +
+      (profile.lineBreaks.oneSentenceLineShare >= 0.6 ? ', mostly one sentence per line' : ''),
+  ];
+
+  if (profile.emoji.postsWithEmoji < 0.2) {
+    lines.push('Emojis: rarely used - leave them out');
+  } else {
+    const where = ranked(profile.emoji.placement)[0];
+    lines.push(
+      `Emojis: ${profile.emoji.perPost} per post` +
+        (where ? `, mostly ${PLACEMENT_PHRASES[where]}` : '') +
+        (profile.emoji.favourites.length > 0 ? ` (favourites: ${profile.emoji.favourites.join(' ')})` : '')
+    );
+  }
+
+  const hooks = ranked(profile.hooks).slice(0, 2);
+  if (hooks.length > 0) {
+    lines.push(`Openings: ${hooks.map(h => `${HOOK_PHRASES[h]} (${percent(profile.hooks[h])})`).join(', then ')}`);
+  }
+  const ctas = ranked(profile.ctas).slice(0, 2);
+  if (ctas.length > 0) {
+    lines.push(`Endings: ${ctas.map(c => `${CTA_PHRASES[c]} (${percent(profile.ctas[c])})`).join(', then ')}`);
+  }
+
+  lines.push(
+    profile.hashtags.perPost < 0.5
+      ? 'Hashtags: rarely used'
+      : `Hashtags: about ${Math.round(profile.hashtags.perPost)} per post` +
+        (profile.hashtags.common.length > 0 ? `, often ${profile.hashtags.common.slice(0, 5).map(tag => `#${tag}`).join(' ')}` : '')
+  );
+  lines.push(`Contractions: ${profile.vocabulary.contractionsPer100} per 100 words`);
+  if (profile.vocabulary.signature.length > 0) {
+    lines.push(`Words they use a lot: ${profile.vocabulary.signature.slice(0, 8).join(', ')}`);
+  }
+  if (profile.phrases.length > 0) {
+    lines.push(`Recurring phrases (echo the voice, don't reuse verbatim): ${profile.phrases.slice(0, 5).map(p => `"${p}"`).join(', ')}`);
+  }
+  return lines;
+}
+
+// 1 when equal, falling towards 0 as the ratio grows; +1 keeps zeros sane
+function closeness(actual: number, expected: number): number {
+  const a = actual + 1;
+  const b = expected + 1;
+  return Math.min(a, b) / Math.max(a, b);
+}
+
+/** How closely a draft matches the user's profile, with what's off */
+export function styleMatch(content: string, profile: StyleProfile): StyleMatch {
+  const f = extractStyleFeatures(content);
+  const sentenceMean = mean(f.sentenceLengths);
+  const wordsPerLine = f.lines > 0 ? f.words / f.lines : f.words;
+  const contractionsPer100 = f.words > 0 ? (f.contractions / f.words) * 100 : 0;
+  const topHook = Math.max(...Object.values(profile.hooks));
+
+  const emojiScore = profile.emoji.postsWithEmoji < 0.2
+    ? (f.emojis.length === 0 ? 1 : 0.3)
+    : closeness(f.emojis.length, profile.emoji.perPost);
+
+  const checks: { weight: number; score: number; note: string }[] = [
+    {
+      weight: 0.2,
+      score: closeness(f.words, profile.words.median),
+      note: `${f.words > profile.words.median ? 'Longer' : 'Shorter'} than your usual posts (~${profile.words.median} words)`,
+    },
+    {
+      weight: 0.2,
+      score: closeness(sentenceMean, profile.sentences.meanWords),
+      note: `Sentences are ${sentenceMean > profile.sentences.meanWords ? 'longer' : 'shorter'} than yours (~${profile.sentences.meanWords} words)`,
+    },
+    {
+      weight: 0.2,
+      score: closeness(wordsPerLine, profile.lineBreaks.wordsPerLine),
+      note: wordsPerLine > profile.lineBreaks.wordsPerLine
+        ? 'Denser paragraphs than you usually write'
+        : 'More line breaks than you usually use',
+    },
+    {
+      weight: 0.1,
+      score: emojiScore,
+      note: profile.emoji.postsWithEmoji < 0.2
+        ? 'You rarely use emojis'
+        : `${f.emojis.length > profile.emoji.perPost ? 'More' : 'Fewer'} emojis than usual (~${profile.emoji.perPost} per post)`,
+    },
+    {
+      weight: 0.1,
+      score: closeness(f.hashtags.length, profile.hashtags.perPost),
+      note: `${f.hashtags.length > profile.hashtags.perPost ? 'More' : 'Fewer'} hashtags than usual (~${Math.round(profile.hashtags.perPost)})`,
+    },
+    {
+      weight: 0.1,
+      score: topHook > 0 ? Math.min(1, profile.hooks[f.hook] / topHook + 0.2) : 1,
+      note: `You rarely open with ${HOOK_PHRASES[f.hook]}`,
+    },
+    {
+      weight: 0.1,
+      score: closeness(contractionsPer100, profile.vocabulary.contractionsPer100),
+      note: contractionsPer100 < profile.vocabulary.contractionsPer100
+        ? 'Fewer contractions than you use ("I am" vs "I\'m")'
+        : 'More contractions than you usually use',
+    },
+  ];
+
+  const score = Math.round(100 * checks.reduce((sum, check) => sum + check.weight * Math.min(1, check.score), 0));
+  const notes = checks
+    .filter(check => check.score < 0.6)
+    .sort((a, b) => (1 - b.score) * b.weight - (1 - a.score) * a.weight)
+    .map(check => check.note);
+  return { score, notes };
+}
+
+/** user_writing_style columns for a profile, including the summary ones older readers use */
+export function styleProfileColumns(profile: StyleProfile) {
+  const usesEmojis = profile.emoji.postsWithEmoji >= 0.2;
+  return {
+    avg_post_length: profile.words.mean,
+    common_topics: profile.hashtags.common,
+    emoji_usage: usesEmojis,
+    hashtag_style: profile.hashtags.perPost >= 3 ? 'frequent' : profile.hashtags.perPost < 1 ? 'rare' : 'moderate',
+    tone_analysis: {
+      usesEmojis,
+      usesHashtags: profile.hashtags.perPost >= 0.5,
+      avgHashtagsPerPost: profile.hashtags.perPost,
+      totalPostsAnalyzed: profile.postsAnalyzed,
+    },
+    total_posts_analyzed: profile.postsAnalyzed,
+    style_profile: profile,
+    style_version: profile.version,
+    updated_at: profile.computedAt,
+  };
+}
@@ -0,0 +1,210 @@
+// ============================================================================
+// SHARED TIMEZONE UTILITIES
+// ============================================================================
+// Pure Intl-based helpers shared by the edge functions and the web app.
+// No Deno or browser globals - keep it that way so both runtimes can import it.
+//
+// All stored timestamps are UTC ISO strings. These helpers convert between a
+// UTC instant and the wall-clock time in a user's IANA timezone, including
+// DST transitions (offsets are looked up per instant, never hard-coded).
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 0-indexed, like Date#getMonth
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return a usable timezone, falling back to the default for empty/invalid values
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Wall-clock components of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')) - 1,
+    day: parseInt(get('day')),
+    hours: parseInt(get('hour')) % 24,
+    minutes: parseInt(get('minute')),
+    seconds: parseInt(get('second')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in minutes (IST = 330)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month, p.day, p.hours, p.minutes, p.seconds);
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUTC - truncated) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to the matching UTC instant.
+ * Out-of-range values roll over like Date.UTC (day 32 → next month), which
+ * makes "add N days in the user's zone" a matter of passing day + N.
+ * Around DST changes: a time skipped by spring-forward moves later by the
+ * length of the gap (2:30 → 3:30), and a time repeated by fall-back resolves
+ * to its first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number, // 0-indexed
+  day: number,
+  hours: number,
+  minutes: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month, day, hours, minutes);
+
+  // The offsets a day either side cover any single transition near this time.
+  // Each one that maps back to itself is a real reading of the wall clock:
+  // none in a gap, two in an overlap.
+  const before = getTimeZoneOffsetMinutes(new Date(wallClock - DAY_MS), timeZone);
+  const after = getTimeZoneOffsetMinutes(new Date(wallClock + DAY_MS), timeZone);
+  const matches = [before, after]
+    .map(offset => wallClock - offset * 60000)
+    .filter(utc => wallClock - getTimeZoneOffsetMinutes(new Date(utc), timeZone) * 60000 === utc);
+
+  // In a gap, reading the clock with the offset from before the change
+  // lands just as far past it
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallClock - before * 60000);
+}
+
+/**
+ * "yyyy-MM-dd" key of the calendar day an instant falls on in the timezone
+ */
+export function getZonedDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month + 1).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether two instants fall on the same calendar day in the timezone
+ */
+export function isSameZonedDay(a: Date, b: Date, timeZone: string): boolean {
+  return getZonedDateKey(a, timeZone) === getZonedDateKey(b, timeZone);
+}
+
+/**
+ * Short display label for a timezone, e.g. IST, CEST, EDT (GMT+x when no name exists)
+ */
+export function getTimeZoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  let fallback = '';
+  for (const locale of ['en-US', 'en-GB', 'en-IN']) {
+    try {
+      const name = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+        .formatToParts(date)
+        .find(p => p.type === 'timeZoneName')?.value;
+      if (!name) continue;
+      if (!name.startsWith('GMT')) return name;
+      fallback = fallback || name;
+    } catch {
+      // Unsupported locale in this runtime - try the next one
+    }
+  }
+  return fallback || timeZone;
+}
+
+/**
+ * Format just the time, e.g. "3:30 PM"
+ */
+export function formatTimeInZone(date: Date | string, timeZone: string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+/**
+ * Format just the date, e.g. "Tue, Mar 3"
+ */
+export function formatDateOnlyInZone(date: Date | string, timeZone: string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Format a scheduled time relative to now: "Today at 3:30 PM CEST",
+ * "Tomorrow at 9:00 AM EDT" or "Tue, Mar 3 at 10:00 AM IST"
+ */
+export function formatScheduledTimeInZone(
+  isoString: string | Date,
+  timeZone: string,
+  now: Date = new Date()
+): string {
+  const date = typeof isoString === 'string' ? new Date(isoString) : isoString;
+  const todayParts = getZonedParts(now, timeZone);
+  const tomorrow = zonedTimeToUtc(todayParts.year, todayParts.month, todayParts.day + 1, 12, 0, timeZone);
+
+  const timeStr = `${formatTimeInZone(date, timeZone)} ${getTimeZoneAbbreviation(timeZone, date)}`;
+
+  if (isSameZonedDay(date, now, timeZone)) {
+    return `Today at ${timeStr}`;
+  }
+  if (isSameZonedDay(date, tomorrow, timeZone)) {
+    return `Tomorrow at ${timeStr}`;
+  }
+  return `${formatDateOnlyInZone(date, timeZone)} at ${timeStr}`;
+}
@@ -1,5 +1,83 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  formatScheduledTimeInZone,
+  formatTimeInZone,
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+} from "../_shared/timezone.ts";
+import { parseSchedule } from "../_shared/scheduleParser.ts";
+import {
+  CHAT_TOOLS,
+  MIN_POST_LENGTH,
+  READ_ONLY_TOOLS,
+  isBestTimeRequest,
+  isImmediateRequest,
+  partialStringArgument,
+  validateToolCall,
+  type ChatToolCall,
+  type ChatToolDefinition,
+  type ChatToolName,
+} from "../_shared/chatTools.ts";
+import {
+  DEFAULT_PROVIDERS,
+  chatCompletion,
+  embedTexts,
+  preferenceFromSettings,
+  providersFromRows,
+  type AIProviderRow,
+  type ChatStreamHandlers,
+  type LLMMessage,
+  type LLMPreference,
+  type LLMProviderConfig,
+} from "../_shared/llmProviders.ts";
+import { formatSSE } from "../_shared/sse.ts";
+import {
+  describeSlot,
+  loadBestTimeHeatmap,
+  nextBestSlots,
+  type BestTimeHeatmap,
+} from "../_shared/bestTimes.ts";
+import {
+  citedSources,
+  formatReferenceContext,
+  formatSourcesFooter,
+  retrieveReferences,
+  type ReferenceContext,
+} from "../_shared/referenceChunks.ts";
+import {
+  feedProvider,
+  formatResearchInsights,
+  labelSources,
+  pickSources,
+  referenceProvider,
+  runResearch,
+  searxngProvider,
+  tavilyProvider,
+  type LabelledSource,
+  type ResearchCache,
+  type ResearchProvider,
+  type ResearchResult,
+  type ResearchSource,
+} from "../_shared/research.ts";
+import {
+  DEFAULT_HUMANIZER_RULES,
+  describeHumanizerRules,
+  humanizePost,
+  humanizeWithChanges,
+  humanizerRulesFromSettings,
+  type HumanizerChange,
+  type HumanizerRules,
+} from "../_shared/humanizer.ts";
+import {
+  buildVariantPreferences,
+  describeVariantPreferences,
+  rankVariants,
+  variantLabel,
+  type DraftVariant,
+  type VariantChoiceSample,
+  type VariantPreferences,
+} from "../_shared/postVariants.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -38,54 +116,62 @@ async function fetchUserContext(authHeader: string | null): Promise<any | null>
 }
 
 // ============================================
-// TAVILY RESEARCH FUNCTION - ENHANCED
+// RESEARCH PROVIDERS (see _shared/research.ts)
 // ============================================
-async function researchTopic(topic: string, userContext?: any): Promise<{ insights: string; suggestedTopics: string[] } | null> {
-  const TAVILY_API_KEY = Deno.env.get("TAVILY_API_KEY");
-  
-  if (!TAVILY_API_KEY) {
-    console.log("No Tavily API key, skipping research");
-    return null;
+// Web search when it's configured, the user's feeds, and always their own
+// reference materials - so research_topic has something to go on offline
+async function loadResearchProviders(
+  supabase: SupabaseClient | null,
+  userId: string | null,
+  workspaceId: string | null
+): Promise<ResearchProvider[]> {
+  const providers: ResearchProvider[] = [];
+
+  const tavilyKey = Deno.env.get("TAVILY_API_KEY");
+  if (tavilyKey) providers.push(tavilyProvider(tavilyKey));
+
+  const searxngUrl = Deno.env.get("SEARXNG_URL");
+  if (searxngUrl) providers.push(searxngProvider(searxngUrl, Deno.env.get("SEARXNG_API_KEY")));
+
+  if (supabase && userId) {
+    const { data: feeds, error } = await supabase
+      .from("research_feeds")
+      .select("url")
+      .eq("user_id", userId)
+      .eq("is_enabled", true);
+    if (error) console.warn("⚠️ Failed to load research feeds:", error.message);
+    if (feeds && feeds.length > 0) providers.push(feedProvider(feeds.map((f: { url: string }) => f.url)));
+
+    providers.push(referenceProvider(supabase, { workspaceId, userId }));
   }
 
-  try {
-    console.log("🔍 Researching topic with Tavily:", topic);
-    
-    // Build context-aware query
-    let query = `Latest trends and insights about ${topic} for LinkedIn professional post`;
-    if (userContext?.agentContext?.profile?.industry) {
-      query += ` in the ${userContext.agentContext.profile.industry} industry`;
-    }
-    
-    const response = await fetch("https://api.tavily.com/search", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        api_key: TAVILY_API_KEY,
-        query,
-        search_depth: "basic",
-        max_results: 5,
-      }),
-    });
+  return providers;
+}
 
-    const data = await response.json();
-    
-    if (data.results && data.results.length > 0) {
-      const insights = data.results.map((r: any) => `- ${r.content?.substring(0, 200)}`).join("\n");
-      
-      // Extract suggested topics from results
-      const suggestedTopics = data.results
-        .slice(0, 3)
-        .map((r: any) => r.title?.substring(0, 60) || topic);
-      
-      console.log("✅ Research complete with", data.results.length, "results");
-      return { insights, suggestedTopics };
-    }
-  } catch (error) {
-    console.error("Tavily research error:", error);
-  }
-  
-  return null;
+// Research results per user in research_cache (written with the service role)
+function researchCache(supabase: SupabaseClient | null, userId: string | null): ResearchCache | null {
+  if (!supabase || !userId) return null;
+  return {
+    async get(key) {
+      const { data } = await supabase
+        .from("research_cache")
+        .select("result")
+        .eq("user_id", userId)
+        .eq("cache_key", key)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      return (data?.result as ResearchResult) ?? null;
+    },
+    async set(key, result, expiresAt) {
+      const { error } = await supabase
+        .from("research_cache")
+        .upsert(
+          { user_id: userId, cache_key: key, result, expires_at: expiresAt.toISOString() },
+          { onConflict: "user_id,cache_key" }
+        );
+      if (error) throw new Error(error.message);
+    },
+  };
 }
 
 // ============================================
@@ -250,7 +336,14 @@ const AGENT_TYPE_CONFIG: Record<string, {
 // ============================================
 // BUILD AGENT-SPECIFIC SYSTEM PROMPT
 // ============================================
-function buildAgentSystemPrompt(agentType: string, userContext?: any): string {
+function buildAgentSystemPrompt(
+  agentType: string,
+  userContext?: any,
+  draftsContext = "",
+  bestTimesContext = "",
+  humanizer: HumanizerRules = DEFAULT_HUMANIZER_RULES,
+  variantContext = ""
+): string {
   const config = AGENT_TYPE_CONFIG[agentType] || AGENT_TYPE_CONFIG.professional;
   const profile = userContext?.context?.profile || userContext?.agentContext?.profile || {};
   
@@ -271,6 +364,23 @@ function buildAgentSystemPrompt(agentType: string, userContext?: any): string {
   // Add AI instructions if available
   const aiInstructions = userContext?.aiInstructions || "";
 
+  // The humanization rules follow the agent's humanizer settings (agents.settings.humanizer)
+  const contractionRule = {
+    force: `   ✓ ALWAYS use contractions: "I'm" NOT "I am", "don't" NOT "do not"\n`,
+    forbid: `   ✓ NEVER use contractions: "I am" NOT "I'm", "do not" NOT "don't"\n`,
+    keep: "",
+  }[humanizer.contractions];
+  const defaultBannedPhrases = humanizer.defaultReplacements ? `   ✗ "Let me share" → Use "Here's" instead
+   ✗ "In conclusion" → Use "Bottom line:" instead  
+   ✗ "As a [profession], I..." → Just use "I..."
+   ✗ "Furthermore", "Moreover" → Use "Plus,", "Also,"
+   ✗ Buzzwords: leverage, synergy, optimize, utilize, empower
+` : `   ✗ "As a [profession], I..." → Just use "I..."
+`;
+  const agentRules = describeHumanizerRules(humanizer);
+  const timeZone = resolveTimeZone(profile.timezone);
+  const tzLabel = getTimeZoneAbbreviation(timeZone);
+
   return `You are a ${agentType.toUpperCase()} LinkedIn content agent.
 
 ${config.personality}
@@ -304,20 +414,15 @@ CRITICAL BEHAVIOR RULES
 The posting flow is FULLY AGENT-DRIVEN. There are NO manual buttons for users to click.
 
 AFTER user says "approve" or "yes" or "looks good":
-1. If they provided a valid future time → AUTO-SCHEDULE immediately
-2. If no time provided → ASK for a specific date & time
-3. After scheduling succeeds → Say "✅ Your post has been scheduled for <time>."
+1. If they provided a time → call schedule_post immediately
+2. If no time provided → offer their best slot (shown on the draft) or ASK for a specific date & time
+3. The system confirms scheduling in the chat - don't repeat the time back
 
 NEVER SAY:
 - "Click the Post Now button"
 - "You need to confirm in the extension"
 - "Please click to publish"
-- "I've scheduled..." (before extension ACK)
-
-INSTEAD:
-- After approval + time: "Scheduling your post for <time>..."
-- After extension ACK: "✅ Your post has been scheduled for <time>."
-- If extension fails: "❌ Couldn't connect to extension. Please check it's installed."
+- "I've scheduled..." (without calling schedule_post)
 
 1. **PERSONALIZATION IS MANDATORY**:
    - ALL topics must relate to the user's role, company, and industry
@@ -341,22 +446,23 @@ INSTEAD:
    - Each day must have a DIFFERENT topic angle
    - Vary post structure (hook → story, question → insight, etc.)
    - NEVER repeat similar topics
-   - Vary posting times between 9am-6pm IST
-   - Max 2 posts per day
+   - Drafts are placed on the user's best posting slots automatically (one per day) - don't invent times
+   - To schedule at those slots, call schedule_post with when: "best time"
 
 4. **APPROVAL GATE + AUTO-SCHEDULE - MANDATORY**:
    FLOW:
-   1. Show the draft post in chat (NOT in Generated Posts yet)
+   1. Call draft_post - the draft is shown in chat for review
    2. Ask: "Do you approve this post? If yes, what time should I schedule it?"
    3. User says "yes at 3pm" or "approve for tomorrow 9am"
-   4. AUTOMATICALLY schedule via auto_schedule response
-   5. DO NOT show posts in Generated Posts until AFTER user approves
+   4. Call schedule_post with their wording
+   One message can need several tools: "ok but make it shorter and post Thursday"
+   → draft_post (the shorter revision, replaces_post_id = the draft) AND schedule_post (when: "Thursday").
 
 5. **TIME VALIDATION - MANDATORY**:
-   - Time MUST be in the future (IST timezone)
-   - If user gives multiple times ("2pm or 3pm") → ASK to choose ONE
-   - If time already passed → REJECT and ask for new time
-   - Never silently accept invalid times
+   - Pass the user's own wording to schedule_post / reschedule_post (user's timezone: ${timeZone})
+   - The system rejects past times and asks the user to pick when a time is ambiguous
+   - If user gives multiple times ("2pm or 3pm") → ASK to choose ONE before calling a tool
+   - "Whenever is best" / "at the best time" → when: "best time"${bestTimesContext ? `\n   - ${bestTimesContext} (${tzLabel})` : ""}
 
 6. **NO HALLUCINATIONS**:
    - NEVER invent fake metrics or achievements
@@ -364,47 +470,40 @@ INSTEAD:
    - If data is unavailable, use neutral framing
    - Say "Based on industry trends..." not "Based on your 500% growth..."
 
-7. **POST FORMAT - ONLY FOR ACTUAL LINKEDIN POSTS**:
-   ONLY use --- markers when you are creating an ACTUAL LinkedIn post for the user.
-   ---
-   [LinkedIn post content here]
-   ---
-   
-   DO NOT use --- markers for:
-   - Topic suggestions
-   - Questions to the user
-   - General conversation
-   - Image prompts or instructions
-   - Any other non-post content
+7. **TOOLS - THE ONLY WAY TO ACT**:
+   - draft_post: create or revise a post. The post text goes ONLY in the tool call, never in your reply
+   - draft_variants: 2-4 versions of one post that differ in hook, length or tone, when the user asks for
+     options, variants or an A/B test. The user keeps one - don't schedule a set until they've said which${variantContext ? `\n     ${variantContext}` : ""}
+   - schedule_post: schedule an approved draft ("now" publishes immediately)
+   - generate_image: add an AI image to a draft
+   - list_queue: see what's already queued (use it before rescheduling)
+   - reschedule_post: move a queued post to a new time
+   - research_topic: get current insights before drafting on a specific topic; pass the labels of the
+     sources you used as draft_post \`sources\` (never put the labels in the post text)
+   Topic suggestions, questions and general conversation are plain replies - no tool.
+   Never describe a tool call in text or output JSON yourself.
 
 8. **IMAGE GENERATION - IMPORTANT**:
    - Ask: "Do you want to add an image?" before generating
    - NEVER assume the user wants an image
-   - The system generates images automatically when requested
-   - NEVER output JSON like {"action": "dalle.text2im"...}
-
-9. **WHEN USER SAYS "generate image"**:
-   - If they just created a post, respond: "Generating an AI image for your post... 🎨"
-   - DO NOT output any JSON, code blocks, or tool calls
-   - The image will be generated automatically by the system
+   - When they ask for one, call generate_image
 
+${draftsContext ? `═══════════════════════════════════════════
+CURRENT DRAFTS & QUEUE (newest first)
 ═══════════════════════════════════════════
+${draftsContext}
+
+` : ""}═══════════════════════════════════════════
 🎯 CRITICAL HUMANIZATION RULES - MUST FOLLOW
 ═══════════════════════════════════════════
 
 1. WRITE LIKE A REAL PERSON (NOT AI):
-   ✓ ALWAYS use contractions: "I'm" NOT "I am", "don't" NOT "do not"
-   ✓ Be conversational: write like texting a smart colleague
+${contractionRule}   ✓ Be conversational: write like texting a smart colleague
    ✓ Add personal voice: "I think", "in my experience", "I've noticed"
    ✓ Show emotion: "This surprised me", "I was wrong", "Here's what frustrated me"
 
 2. BANNED PHRASES (NEVER USE):
-   ✗ "Let me share" → Use "Here's" instead
-   ✗ "In conclusion" → Use "Bottom line:" instead  
-   ✗ "As a [profession], I..." → Just use "I..."
-   ✗ "Furthermore", "Moreover" → Use "Plus,", "Also,"
-   ✗ Buzzwords: leverage, synergy, optimize, utilize, empower
-
+${defaultBannedPhrases}
 3. BANNED FORMATTING:
    ✗ NO numbered lists (1. 2. 3.)
    ✗ NO bullet points (• - *)
@@ -422,7 +521,10 @@ INSTEAD:
    ✓ Start with "And" or "But" (allowed!)
    ✓ One idea per sentence
    ✓ Write like you talk
-
+${agentRules.length > 0 ? `
+6. THIS AGENT'S RULES:
+${agentRules.map(rule => `   ✓ ${rule}`).join("\n")}
+` : ""}
 EXAMPLE - AI vs HUMAN:
 
 ❌ AI VERSION:
@@ -443,64 +545,135 @@ When engineers feel safe saying 'I don't know', teams ship faster.
 
 I learned this after a brutal Q3 failure."
 
-Output ONLY the post text. No explanations. No meta-commentary.`;
+Inside draft_post, the content is ONLY the post text. No explanations. No meta-commentary.`;
 }
 
 // ============================================
-// REAL AI FUNCTION (via Lovable AI Gateway)
+// REAL AI FUNCTION (via the configured LLM providers)
 // ============================================
-async function callAI(prompt: string, conversationHistory: any[] = [], userContext?: any, agentType?: string): Promise<string> {
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  
-  if (!LOVABLE_API_KEY) {
-    throw new Error("LOVABLE_API_KEY not configured");
+type AIMessage = LLMMessage;
+
+interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+type ToolChoice = "auto" | "none" | { type: "function"; function: { name: ChatToolName } };
+
+// System prompt + recent history + the new message, ready for callAI
+function buildConversation(
+  prompt: string,
+  conversationHistory: HistoryMessage[],
+  userContext?: any,
+  agentType?: string,
+  draftsContext?: string,
+  bestTimesContext?: string,
+  humanizer?: HumanizerRules,
+  variantContext?: string
+): AIMessage[] {
+  const systemPrompt = buildAgentSystemPrompt(agentType || "professional", userContext, draftsContext, bestTimesContext, humanizer, variantContext);
+  const history: AIMessage[] = conversationHistory.map((msg) => ({
+    role: msg.role,
+    content: msg.content,
+  }));
+
+  // The client's history already ends with this message
+  const last = history[history.length - 1];
+  if (!last || last.role !== "user" || last.content !== prompt) {
+    history.push({ role: "user", content: prompt });
   }
 
-  // Build agent-specific system prompt
-  const systemPrompt = buildAgentSystemPrompt(agentType || "professional", userContext);
+  return [{ role: "system", content: systemPrompt }, ...history];
+}
 
-  try {
-    console.log("🤖 Calling Lovable AI Gateway...");
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          ...conversationHistory.map((msg: any) => ({
-            role: msg.role,
-            content: msg.content,
-          })),
-          { role: "user", content: prompt },
-        ],
-      }),
-    });
+// Characters of new draft text between "draft" stream events
+const DRAFT_STREAM_STEP = 24;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI Gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        throw new Error("Rate limit exceeded. Please try again in a moment.");
-      }
-      if (response.status === 402) {
-        throw new Error("AI credits exhausted. Please add credits to continue.");
-      }
-      throw new Error(`AI Gateway error: ${response.status}`);
-    }
+// Providers from ai_providers plus this agent's model choice (agents.settings.llm)
+interface LLMSelection {
+  providers: LLMProviderConfig[];
+  preference: LLMPreference | null;
+}
 
-    const data = await response.json();
-    
-    if (data.choices && data.choices[0]?.message?.content) {
-      console.log("✅ AI response received");
-      return data.choices[0].message.content;
-    } else {
-      throw new Error("Invalid AI response format");
-    }
+async function loadLLMSelection(
+  supabase: SupabaseClient | null,
+  agent: WorkspaceAgent | null
+): Promise<LLMSelection> {
+  if (!supabase) return { providers: DEFAULT_PROVIDERS, preference: null };
+
+  const { data: rows, error } = await supabase
+    .from("ai_providers")
+    .select("id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, embedding_model, models, priority, is_enabled");
+  if (error) console.warn("Failed to load AI providers, using defaults:", error.message);
+
+  const preference: LLMPreference | null = agent ? preferenceFromSettings(agent.settings) : null;
+
+  return { providers: providersFromRows(rows as AIProviderRow[] | null), preference };
+}
+
+// The chat's agent, when the caller belongs to the agent's workspace
+interface WorkspaceAgent {
+  settings: unknown;
+  workspace_id: string;
+}
+
+async function loadWorkspaceAgent(
+  supabase: SupabaseClient | null,
+  userId: string | null,
+  agentId: string | null
+): Promise<WorkspaceAgent | null> {
+  if (!supabase || !userId || !agentId) return null;
+
+  const { data: agent } = await supabase
+    .from("agents")
+    .select("settings, workspace_id")
+    .eq("id", agentId)
+    .maybeSingle();
+  if (!agent) return null;
+
+  const { data: isMember } = await supabase.rpc("is_workspace_member", {
+    p_workspace_id: agent.workspace_id,
+    p_user_id: userId,
+  });
+  return isMember ? (agent as WorkspaceAgent) : null;
+}
+
+// Streamed turns forward reply tokens as they arrive, and the draft_post text
+// with the same clean-up the final draft gets (see the draft_post tool)
+function streamHandlers(stream: ChatStream, humanizer: HumanizerRules): ChatStreamHandlers {
+  const sentLength = new Map<number, number>();
+  return {
+    onText: (delta) => stream.send("text", { delta }),
+    onToolCall: (index, name, argumentsSoFar) => {
+      if (name !== "draft_post") return;
+      const content = partialStringArgument(argumentsSoFar, "content");
+      if (content === null || content.length - (sentLength.get(index) ?? 0) < DRAFT_STREAM_STEP) return;
+      sentLength.set(index, content.length);
+      stream.send("draft", { index, content: humanizePost(cleanPostContent(content), humanizer) });
+    },
+  };
+}
+
+async function callAI(
+  messages: AIMessage[],
+  llm: LLMSelection,
+  options: { tools?: ChatToolDefinition[]; toolChoice?: ToolChoice; humanizer?: HumanizerRules } = {},
+  stream: ChatStream | null = null
+): Promise<AIMessage> {
+  try {
+    const result = await chatCompletion(
+      { messages, tools: options.tools, toolChoice: options.toolChoice },
+      {
+        providers: llm.providers,
+        preference: llm.preference,
+        getEnv: (key) => Deno.env.get(key),
+        signal: stream?.signal,
+      },
+      stream ? streamHandlers(stream, options.humanizer || DEFAULT_HUMANIZER_RULES) : undefined
+    );
+    const message = result.message;
+    console.log(`✅ AI response received from ${result.provider}`, message.tool_calls?.length ? `(${message.tool_calls.length} tool calls)` : "");
+    return message;
   } catch (error) {
     console.error("AI error:", error);
     throw error;
@@ -524,6 +697,7 @@ function cleanPostContent(content: string): string {
     .replace(/~~([^~]+)~~/g, '$1')           // Strikethrough ~~text~~
     .replace(/`([^`]+)`/g, '$1')             // Inline code `text`
     .replace(/^#{1,6}\s+/gm, '')             // Headers # ## ###
+    .replace(/ ?\[[RS]\d+\]/g, '')           // Reference [R1] and research [S1] labels belong in the reply
     
     // Remove bullet points and numbered lists
     .replace(/^\s*[-*+•]\s+/gm, '')          // Bullet points
@@ -549,232 +723,73 @@ function cleanPostContent(content: string): string {
 }
 
 // ============================================
-// HUMANIZE POST - Replace AI phrases with human ones
-// ============================================
-function humanizePost(content: string): string {
-  let humanized = content;
-  
-  // Replace formal AI phrases with casual human ones
-  const replacements: [RegExp, string][] = [
-    // Conclusions
-    [/In conclusion,/gi, 'Bottom line:'],
-    [/To conclude,/gi, 'Look,'],
-    [/To summarize,/gi, "Here's the deal:"],
-    [/In summary,/gi, "Here's what matters:"],
-    
-    // Sharing phrases
-    [/Let me share/gi, "Here's"],
-    [/I'd like to share/gi, "Gonna share"],
-    [/I want to share/gi, "Here's"],
-    
-    // Formal transitions
-    [/Furthermore,/gi, 'Plus,'],
-    [/Moreover,/gi, 'Also,'],
-    [/Additionally,/gi, 'And'],
-    [/However,/gi, 'But'],
-    [/Therefore,/gi, 'So'],
-    
-    // Force contractions
-    [/\bI am\b/g, "I'm"],
-    [/\bYou are\b/g, "You're"],
-    [/\bWe are\b/g, "We're"],
-    [/\bIt is\b/g, "It's"],
-    [/\bdo not\b/gi, "don't"],
-    [/\bcannot\b/gi, "can't"],
-    [/\bwill not\b/gi, "won't"],
-    
-    // Buzzwords
-    [/\bleverage\b/gi, 'use'],
-    [/\butilize\b/gi, 'use'],
-    [/\bsynergy\b/gi, 'teamwork'],
-    [/\boptimize\b/gi, 'improve'],
-    
-    // Formal phrases
-    [/In order to/gi, 'To'],
-    [/I would like to/gi, "I want to"],
-    [/For example,/gi, "Like,"],
-    
-    // AI starters
-    [/^As a .+?, I/gm, 'I'],
-  ];
-  
-  for (const [pattern, replacement] of replacements) {
-    humanized = humanized.replace(pattern, replacement);
-  }
-  
-  // Remove generic engagement endings
-  humanized = humanized.replace(/\n\n(What do you think\?|Thoughts\?|What's your take\?)\s*$/gi, '');
-  
-  return humanized;
-}
-
-// ============================================
-// PARSE SCHEDULE TIME (IST) - ENHANCED WITH CLEAR FEEDBACK
+// PARSE SCHEDULE TIME (USER TIMEZONE) - ENHANCED WITH CLEAR FEEDBACK
 // ============================================
 interface ParsedScheduleTime {
   time: string;
   message: string;
   wasRescheduled: boolean;
+  ambiguous: boolean;
+  clarification?: string;
 }
 
-function parseScheduleTimeIST(timeText: string): ParsedScheduleTime | null {
-  const lower = timeText.toLowerCase().trim();
-  const now = new Date();
-  
-  // Add IST offset (5 hours 30 minutes)
-  const istOffset = 5.5 * 60 * 60 * 1000;
-  const istNow = new Date(now.getTime() + istOffset);
-  
-  let result = new Date(istNow);
-  result.setSeconds(0, 0);
-  
-  // Check if "tomorrow" is explicitly mentioned
-  const isTomorrowExplicit = lower.includes('tomorrow');
-  
-  // Handle relative day references
-  if (isTomorrowExplicit) {
-    result.setDate(result.getDate() + 1);
+function parseScheduleTimeInZone(timeText: string, timeZone: string): ParsedScheduleTime | null {
+  const parsed = parseSchedule(timeText, { timeZone });
+  if (!parsed) {
+    return null; // No valid time found
   }
   
-  // Handle "in X hours/minutes" patterns
-  const inHoursMatch = lower.match(/in\s+(\d+)\s+hours?/i);
-  const inMinutesMatch = lower.match(/in\s+(\d+)\s+minutes?/i);
+  const when = formatScheduledTimeInZone(parsed.time, timeZone);
   
-  if (inHoursMatch) {
-    const hours = parseInt(inHoursMatch[1]);
-    result = new Date(istNow.getTime() + hours * 60 * 60 * 1000);
-    const utcTime = new Date(result.getTime() - istOffset);
-    const timeStr = result.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  // Needs a decision from the user ("2pm or 3pm", "at 3", "3/4")
+  if (parsed.ambiguous) {
+    const options = [parsed.time, ...parsed.alternatives]
+      .map((iso, i) => `${i + 1}. ${formatScheduledTimeInZone(iso, timeZone)}`)
+      .join("\n");
     return {
-      time: utcTime.toISOString(),
-      message: `Scheduled for ${timeStr} IST (in ${hours} hour${hours > 1 ? 's' : ''})`,
-      wasRescheduled: false,
+      time: parsed.time,
+      message: when,
+      wasRescheduled: parsed.wasRolledForward,
+      ambiguous: true,
+      clarification: `🤔 I want to get the time right - ${parsed.ambiguityReasons.join("; ")}.\n\nDid you mean:\n${options}\n\nReply with the exact time (e.g. "${formatTimeInZone(parsed.time, timeZone)} ${getTimeZoneAbbreviation(timeZone)}").`,
     };
   }
   
-  if (inMinutesMatch) {
-    const minutes = parseInt(inMinutesMatch[1]);
-    result = new Date(istNow.getTime() + minutes * 60 * 1000);
-    const utcTime = new Date(result.getTime() - istOffset);
-    const timeStr = result.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  if (parsed.kind === 'relative' && !parsed.dateSpecified) {
     return {
-      time: utcTime.toISOString(),
-      message: `Scheduled for ${timeStr} IST (in ${minutes} minute${minutes > 1 ? 's' : ''})`,
+      time: parsed.time,
+      message: `Scheduled for ${when}`,
       wasRescheduled: false,
+      ambiguous: false,
     };
   }
   
-  // Extract time (e.g., "3:42 pm", "15:30", "3pm")
-  let hours = 9; // Default to 9am
-  let minutes = 0;
-  let timeFound = false;
-  
-  // Match patterns like "3:42 pm", "3:42pm", "15:30"
-  const timeMatch = lower.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-  if (timeMatch) {
-    hours = parseInt(timeMatch[1]);
-    minutes = parseInt(timeMatch[2]);
-    const ampm = timeMatch[3]?.toLowerCase();
-    
-    if (ampm === 'pm' && hours < 12) hours += 12;
-    if (ampm === 'am' && hours === 12) hours = 0;
-    timeFound = true;
-  } else {
-    // Match patterns like "3pm", "3 pm"
-    const simpleTimeMatch = lower.match(/(\d{1,2})\s*(am|pm)/i);
-    if (simpleTimeMatch) {
-      hours = parseInt(simpleTimeMatch[1]);
-      const ampm = simpleTimeMatch[2].toLowerCase();
-      
-      if (ampm === 'pm' && hours < 12) hours += 12;
-      if (ampm === 'am' && hours === 12) hours = 0;
-      timeFound = true;
-    }
-  }
-  
-  // Handle relative times of day
-  if (!timeFound) {
-    if (lower.includes('morning')) {
-      hours = 9;
-      minutes = 0;
-      timeFound = true;
-    } else if (lower.includes('afternoon')) {
-      hours = 14;
-      minutes = 0;
-      timeFound = true;
-    } else if (lower.includes('evening')) {
-      hours = 18;
-      minutes = 0;
-      timeFound = true;
-    }
-  }
-  
-  if (!timeFound) {
-    return null; // No valid time found
-  }
-  
-  result.setHours(hours, minutes, 0, 0);
-  
-  // Convert back to UTC for storage
-  const utcTime = new Date(result.getTime() - istOffset);
-  
-  // Format time for display
-  const displayHours = hours > 12 ? hours - 12 : (hours === 0 ? 12 : hours);
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  const displayMinutes = minutes.toString().padStart(2, '0');
-  const timeStr = `${displayHours}:${displayMinutes} ${ampm}`;
-  
-  // Check if time is in the past for today
-  if (utcTime <= now && !isTomorrowExplicit) {
-    // Time has passed today - reschedule for tomorrow
-    utcTime.setDate(utcTime.getDate() + 1);
-    result.setDate(result.getDate() + 1);
-    
+  if (parsed.wasRolledForward) {
     return {
-      time: utcTime.toISOString(),
-      message: `⚠️ That time (${timeStr}) has already passed today. I've scheduled it for **tomorrow at ${timeStr} IST** instead.`,
+      time: parsed.time,
+      message: `⚠️ That time has already passed. I've scheduled it for **${when}** instead.`,
       wasRescheduled: true,
+      ambiguous: false,
     };
   }
   
-  // Time is valid for today or explicitly tomorrow
-  const dayLabel = isTomorrowExplicit ? 'tomorrow' : 'today';
+  if (parsed.kind === 'recurring') {
+    return {
+      time: parsed.time,
+      message: `Scheduled the first post for ${when} (recurring schedules can be set up from the calendar)`,
+      wasRescheduled: false,
+      ambiguous: false,
+    };
+  }
   
   return {
-    time: utcTime.toISOString(),
-    message: `Scheduled for ${dayLabel} at ${timeStr} IST`,
+    time: parsed.time,
+    message: `Scheduled for ${when}`,
     wasRescheduled: false,
+    ambiguous: false,
   };
 }
 
-function formatScheduledTimeIST(isoString: string): string {
-  const date = new Date(isoString);
-  const istOffset = 5.5 * 60 * 60 * 1000;
-  const istDate = new Date(date.getTime() + istOffset);
-  
-  const now = new Date();
-  const istNow = new Date(now.getTime() + istOffset);
-  const tomorrow = new Date(istNow);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  const isToday = istDate.toDateString() === istNow.toDateString();
-  const isTomorrow = istDate.toDateString() === tomorrow.toDateString();
-  
-  const timeStr = istDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
-  
-  if (isToday) {
-    return `Today at ${timeStr} IST`;
-  } else if (isTomorrow) {
-    return `Tomorrow at ${timeStr} IST`;
-  } else {
-    return istDate.toLocaleDateString('en-US', { 
-      weekday: 'short', 
-      month: 'short', 
-      day: 'numeric',
-    }) + ` at ${timeStr} IST`;
-  }
-}
-
 function generateImagePromptFromPost(postContent: string): string {
   const lines = postContent.split('\n').filter(line => line.trim().length > 0);
   const firstLine = lines[0]?.trim() || 'Professional business content';
@@ -816,700 +831,1006 @@ Requirements: No text overlay, visually represent the concept, minimalist`;
 }
 
 // ============================================
-// EXTRACT POST CONTENT FROM AI RESPONSE
+// CHAT TOOL EXECUTION
 // ============================================
-function extractPostContent(aiResponse: string): string | null {
-  // Check if response contains JSON (AI hallucinating tool calls) - REJECT
-  if (aiResponse.includes('"action":') && aiResponse.includes('"action_input":')) {
-    console.log("⚠️ Detected hallucinated JSON tool call - ignoring");
-    return null;
-  }
-  
-  // Check if response starts with '{' and looks like JSON - REJECT
-  const trimmed = aiResponse.trim();
-  if (trimmed.startsWith('{') && trimmed.includes('"action"')) {
-    console.log("⚠️ Detected JSON object - not a post");
-    return null;
-  }
-  
-  // Try the standard marker pattern first
-  const markerPattern = /---\s*\n([\s\S]+?)\n\s*---/;
-  const match = aiResponse.match(markerPattern);
-  
-  if (match && match[1]) {
-    const content = match[1].trim();
-    // Make sure the content between markers is actually a post, not topic suggestions
-    if (content.includes('📋') || content.includes('Suggested Topics') || content.includes('Would you like')) {
-      console.log("⚠️ Content is topic suggestions, not a post");
-      return null;
-    }
-    return cleanPostContent(content);
-  }
-  
-  // Try alternate marker patterns (sometimes AI uses different formats)
-  const altPatterns = [
-    /---\s*([\s\S]+?)\s*---/, // Less strict whitespace
-  ];
-  
-  for (const pattern of altPatterns) {
-    const altMatch = aiResponse.match(pattern);
-    if (altMatch && altMatch[1] && altMatch[1].trim().length > 50) {
-      const content = altMatch[1].trim();
-      // Check it's not suggestions
-      if (!content.includes('📋') && !content.includes('Suggested Topics')) {
-        return cleanPostContent(content);
-      }
-    }
-  }
-  
-  // Don't auto-detect posts from general conversation - too risky
-  // Only accept posts wrapped in --- markers
-  return null;
+const MAX_TOOL_ROUNDS = 4;
+
+// Progress shown in a streamed turn while slower tools run
+const TOOL_STATUS: Partial<Record<ChatToolName, string>> = {
+  research_topic: "Researching the topic...",
+  draft_variants: "Writing variants...",
+  list_queue: "Checking your queue...",
+  reschedule_post: "Moving the post...",
+};
+
+interface ChatPost {
+  id: string;
+  dbId?: string;
+  content: string;
+  suggestedTime?: string;
+  reasoning?: string;
+  scheduledDateTime?: string;
+  generateImage?: boolean;
+  imagePrompt?: string;
+  imageUrl?: string;
+  replacesPostId?: string;
+  sources?: ResearchSource[]; // what research the draft was written from
+  humanizerChanges?: HumanizerChange[]; // what the agent's humanizer rewrote
+  variant?: DraftVariant; // one of a draft_variants set
 }
 
-// ============================================
-// DETECT USER INTENT - ENHANCED
-// ============================================
-function detectIntent(message: string, uploadedImages?: string[]): { type: string; data?: any } {
-  const lower = message.toLowerCase().trim();
+interface RescheduledPost {
+  id: string;
+  trackingId: string | null;
+  content: string;
+  imageUrl: string | null;
+  scheduledTime: string;
+}
 
-  // Check for uploaded images first
-  if (uploadedImages && uploadedImages.length > 0) {
-    return { type: "create_posts_from_images", data: { imageUrls: uploadedImages } };
-  }
+interface ToolTurnState {
+  supabase: SupabaseClient | null;
+  userId: string | null;
+  agentId: string | null;
+  workspaceId: string | null;
+  threadId: string | null; // drafts are saved to post_drafts when there is a thread
+  userContext: any;
+  timeZone: string;
+  planner: SchedulePlanner | null;
+  humanizer: HumanizerRules; // the agent's rules from agents.settings.humanizer
+  variantPreferences: VariantPreferences | null;
+  generateImage: boolean;
+  generatedPosts: ChatPost[];
+  drafts: ChatPost[];
+  schedule: { post: ChatPost; time: string; immediate: boolean; message: string; wasRescheduled: boolean } | null;
+  imagePostId: string | null;
+  rescheduled: RescheduledPost[];
+  notes: string[];
+  clarification: string | null;
+  research: LabelledSource[]; // every research_topic source of this turn, labelled S1, S2...
+  discardedPostIds: string[]; // variants dropped when the user kept another one of their set
+}
 
-  // Check for [UPLOADED_IMAGES:] marker in message
-  const imageMatch = message.match(/\[UPLOADED_IMAGES:\s*([^\]]+)\]/);
-  if (imageMatch) {
-    const imageUrls = imageMatch[1].split(",").map(url => url.trim()).filter(url => url.length > 0);
-    if (imageUrls.length > 0) {
-      return { type: "create_posts_from_images", data: { imageUrls } };
-    }
-  }
+type ToolResult = { ok: true; [key: string]: unknown } | { ok: false; error: string };
 
-  // Multi-post request (needs confirmation first)
-  const multiPostPatterns = [
-    /create\s+posts?\s+for\s+(?:the\s+)?(?:next\s+)?\d+\s*days?/i,
-    /generate\s+\d+\s*posts?/i,
-    /(?:a\s+)?week(?:'s)?\s+(?:worth\s+)?(?:of\s+)?content/i,
-    /schedule\s+posts?\s+for\s+(?:the\s+)?week/i,
-    /batch\s+create/i,
-    /multiple\s+posts?/i,
-  ];
-  
-  if (multiPostPatterns.some(p => p.test(message))) {
-    return { type: "multi_post_request", data: { originalMessage: message } };
-  }
+// The user's learned posting slots and what's already queued (see _shared/bestTimes.ts)
+interface SchedulePlanner {
+  heatmap: BestTimeHeatmap;
+  queued: string[];
+}
 
-  // User confirms plan
-  const confirmPatterns = [
-    /^(yes|yeah|yep|sure|ok|okay|proceed|go ahead|do it|confirm|approved?|let'?s go|sounds good|perfect)$/i,
-    /^(yes|yeah|yep|sure|ok|okay),?\s*(please|proceed|go ahead)?$/i,
-  ];
-  
-  if (confirmPatterns.some(p => p.test(lower))) {
-    return { type: "confirm_plan" };
-  }
+type ResolvedTime =
+  | { ok: true; time: string; immediate: boolean; message: string; wasRescheduled: boolean }
+  | { ok: false; error: string; clarification?: string };
 
-  // "Do it yourself" - auto execute
-  if (/do it yourself|just do it|post it for me|you do it|schedule it yourself/i.test(lower)) {
-    // Check if there's a time mentioned
-    const timePatterns = [
-      /\d{1,2}:\d{2}\s*(am|pm)?/i,
-      /\d{1,2}\s*(am|pm)/i,
-      /today/i,
-      /tomorrow/i,
-      /morning/i,
-      /afternoon/i,
-      /evening/i,
-    ];
-    
-    const hasTime = timePatterns.some(pattern => pattern.test(lower));
-    if (hasTime) {
-      return { type: "auto_schedule", data: { timeText: message } };
-    }
-    return { type: "post_now" };
+// Turn the user's wording ("Thursday 9am", "now") into a publish time
+function resolveWhen(when: string, timeZone: string): ResolvedTime {
+  const now = new Date();
+
+  if (isImmediateRequest(when)) {
+    // 1 minute out so the extension picks it up on its next pass
+    return {
+      ok: true,
+      time: new Date(now.getTime() + 60 * 1000).toISOString(),
+      immediate: true,
+      message: "Posting now",
+      wasRescheduled: false,
+    };
   }
 
-  // Show post
-  if (lower.includes("show") && (lower.includes("post") || lower.includes("content"))) {
-    return { type: "show_post" };
+  const parsed = parseScheduleTimeInZone(when, timeZone);
+  if (!parsed) {
+    return {
+      ok: false,
+      error: `I couldn't understand "${when}" as a time. Please use:\n• "today at 3:30 PM"\n• "tomorrow at 9 AM"\n• "next friday at 10am" / "March 3 at 10am"\n• "in 2 hours"`,
+    };
   }
 
-  // Post now (immediate) - ENHANCED to catch more patterns
-  const postNowPatterns = [
-    /\b(post|publish|send)\s*(it)?\s*(now|right now|immediately|right away|asap)\b/i,
-    /\bright now\b/i, // Just "right now" alone
-    /\btoday\s*(right)?\s*now\b/i, // "today right now"
-    /\bnow\s*please\b/i,
-    /\bpost\s*immediately\b/i,
-  ];
-  
-  if (postNowPatterns.some(pattern => pattern.test(lower))) {
-    return { type: "post_now" };
+  if (parsed.ambiguous) {
+    return { ok: false, error: "The time is ambiguous", clarification: parsed.clarification || parsed.message };
   }
 
-  // Post with specific time - handles "post today at 12:20 pm", "post at 3pm", "schedule for tomorrow"
-  const timePatterns = [
-    /\d{1,2}:\d{2}\s*(am|pm)?/i,
-    /\d{1,2}\s*(am|pm)/i,
-    /today/i,
-    /tomorrow/i,
-    /tonight/i,
-    /morning/i,
-    /afternoon/i,
-    /evening/i,
-    /next\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/i,
-    /in\s+\d+\s+(hour|minute|day)/i,
-  ];
-  
-  const hasTime = timePatterns.some(pattern => pattern.test(lower));
-  
-  // Match: "post today at 12:20 pm", "post at 3pm", "post it at 5pm", "schedule for tomorrow"
-  const hasPostKeyword = /^post\b/i.test(lower) || 
-                          lower.includes("post it") || 
-                          lower.includes("post this") || 
-                          lower.includes("schedule") ||
-                          lower.includes("publish");
-  
-  if (hasPostKeyword && hasTime) {
-    return { type: "auto_schedule", data: { timeText: message } };
+  // At least 2 minutes out so the extension has time to pick it up
+  if (new Date(parsed.time) < new Date(now.getTime() + 2 * 60 * 1000)) {
+    return {
+      ok: false,
+      error: `⚠️ Please schedule at least 2 minutes from now to ensure successful posting.\n\nTry:\n• "today at ${formatTimeInZone(new Date(now.getTime() + 10 * 60 * 1000), timeZone)}"\n• "in 10 minutes"`,
+    };
   }
 
-  // Ask for time (post without time)
-  if (lower.includes("post it") || lower.includes("publish it") || lower.includes("post this")) {
-    return { type: "ask_time" };
+  return { ok: true, time: parsed.time, immediate: false, message: parsed.message, wasRescheduled: parsed.wasRescheduled };
+}
+
+async function loadSchedulePlanner(
+  supabase: SupabaseClient | null,
+  userId: string | null,
+  timeZone: string
+): Promise<SchedulePlanner | null> {
+  if (!supabase || !userId) return null;
+
+  try {
+    const heatmap = await loadBestTimeHeatmap(supabase, userId, timeZone);
+    const { data: queued } = await supabase
+      .from("posts")
+      .select("scheduled_time")
+      .eq("user_id", userId)
+      .in("status", ["pending", "posting"])
+      .gte("scheduled_time", new Date().toISOString());
+
+    console.log(`📈 Best slots ${heatmap.learned ? `learned from ${heatmap.sampleSize} posts` : "from defaults"}`);
+    return {
+      heatmap,
+      queued: (queued || []).map((p: { scheduled_time: string | null }) => p.scheduled_time).filter(Boolean) as string[],
+    };
+  } catch (err) {
+    console.warn("⚠️ Failed to load best posting times:", err);
+    return null;
   }
+}
+
+function describeBestTimes(planner: SchedulePlanner | null): string {
+  if (!planner) return "";
+  const slots = planner.heatmap.ranked.slice(0, 5).map(describeSlot).join(", ");
+  const source = planner.heatmap.learned
+    ? `learned from ${planner.heatmap.sampleSize} of their posts`
+    : "typical LinkedIn peaks, not enough posts yet";
+  return `The user's best posting slots (${source}): ${slots}`;
+}
 
-  // Generate image request
-  if ((lower.includes("generate") || lower.includes("create") || lower.includes("make")) && 
-      (lower.includes("image") || lower.includes("picture") || lower.includes("photo"))) {
-    return { type: "generate_image" };
+// Spread this turn's drafts over the user's best upcoming slots, one per day,
+// skipping days that already have a queued post
+function generateScheduleSuggestion(state: ToolTurnState) {
+  if (!state.planner) return;
+
+  const fixed = state.schedule?.post;
+  const drafts = state.drafts.filter(d => d !== fixed);
+  // Variants are alternatives for one post, so a set shares its slot
+  const posts = [...new Set(drafts.map(d => d.variant?.groupId ?? d))];
+  const slots = nextBestSlots(state.planner.heatmap, posts.length, {
+    taken: [...state.planner.queued, state.schedule?.time],
+  });
+
+  drafts.forEach((draft) => {
+    const slot = slots[posts.indexOf(draft.variant?.groupId ?? draft)];
+    if (!slot) return;
+    draft.suggestedTime = slot;
+    draft.scheduledDateTime = slot;
+  });
+}
+
+// "best time": the slot suggested for this turn's draft, otherwise the next free one
+function resolveBestTime(state: ToolTurnState, post: ChatPost | null): ResolvedTime {
+  if (!state.planner) {
+    return { ok: false, error: "I don't have posting-time data yet. What date and time should I use?" };
   }
 
-  // Create post request
-  if (lower.match(/^(write|create|generate|make|draft)\s/i) ||
-      lower.includes("post about") ||
-      lower.includes("write about") ||
-      lower.includes("create a post")) {
-    return { type: "create_post" };
+  const minimum = Date.now() + 2 * 60 * 1000;
+  const suggested = post && state.drafts.includes(post) ? post.suggestedTime : undefined;
+  const time = suggested && new Date(suggested).getTime() > minimum
+    ? suggested
+    : nextBestSlots(state.planner.heatmap, 1, {
+      taken: [...state.planner.queued, ...state.drafts.filter(d => d !== post).map(d => d.suggestedTime)],
+    })[0];
+
+  if (!time) {
+    return { ok: false, error: "Every day this week already has a post queued. What date and time should I use?" };
   }
 
-  // Greeting
-  if (/^(hi|hello|hey|hola|good\s+(morning|afternoon|evening))$/i.test(lower)) {
-    return { type: "greeting" };
+  return {
+    ok: true,
+    time,
+    immediate: false,
+    message: `Scheduled for ${formatScheduledTimeInZone(time, state.timeZone)} - one of your best slots`,
+    wasRescheduled: false,
+  };
+}
+
+// Store a draft in post_drafts and give it the row id. A revision takes the
+// place of the draft it revises unless that one was already queued.
+async function saveDraft(post: ChatPost, topic: string | undefined, state: ToolTurnState) {
+  if (!state.supabase || !state.userId || !state.threadId) return;
+
+  const { data, error } = await state.supabase
+    .from("post_drafts")
+    .insert({
+      user_id: state.userId,
+      agent_id: state.agentId,
+      thread_id: state.threadId,
+      content: post.content,
+      topic: topic || null,
+      image_prompt: post.imagePrompt || null,
+      generate_image: post.generateImage || false,
+      sources: post.sources || [],
+      variant_group_id: post.variant?.groupId ?? null,
+      variant_dimension: post.variant?.dimension ?? null,
+      variant_style: post.variant?.style ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.warn("⚠️ Failed to save draft:", error.message);
+    return;
   }
+  post.id = data.id;
+
+  if (post.replacesPostId) {
+    await state.supabase
+      .from("post_drafts")
+      .delete()
+      .eq("id", post.replacesPostId)
+      .eq("user_id", state.userId)
+      .is("post_id", null);
+  }
+}
 
-  // Negative/Cancel
-  if (/^(no|nope|cancel|nevermind|never mind)$/i.test(lower)) {
-    return { type: "cancel" };
+// What the user has kept from this agent's variant sets so far (see _shared/postVariants.ts)
+async function loadVariantPreferences(
+  supabase: SupabaseClient | null,
+  userId: string | null,
+  agentId: string | null
+): Promise<VariantPreferences | null> {
+  if (!supabase || !userId || !agentId) return null;
+
+  const { data, error } = await supabase.rpc("get_variant_choice_samples", { p_user_id: userId, p_agent_id: agentId });
+  if (error) {
+    console.warn("⚠️ Failed to load variant choices:", error.message);
+    return null;
   }
 
-  // Default to conversation
-  return { type: "conversation" };
+  const samples: VariantChoiceSample[] = (data || []).map((row: Record<string, unknown>) => ({
+    dimension: row.dimension,
+    chosenStyle: row.chosen_style,
+    offeredStyles: row.offered_styles || [],
+    views: row.views,
+    likes: row.likes,
+    comments: row.comments,
+    shares: row.shares,
+  }));
+  return samples.length > 0 ? buildVariantPreferences(samples) : null;
 }
 
-// ============================================
-// CHECK IF TOPIC IS SPECIFIC OR VAGUE
-// ============================================
-function isSpecificTopic(message: string): boolean {
-  const words = message.split(/\s+/).filter(w => w.length > 2);
-  const specificIndicators = [
-    /and\s+\w+/i,
-    /in\s+\w+/i,
-    /for\s+\w+/i,
-    /about\s+\w+\s+\w+/i,
-    /how\s+to/i,
-    /\d+\s+(tips|ways|steps|reasons)/i,
-  ];
-  
-  return words.length > 5 || specificIndicators.some(p => p.test(message));
+function describeVariantContext(preferences: VariantPreferences | null): string {
+  const lines = preferences ? describeVariantPreferences(preferences) : [];
+  if (lines.length === 0) return "";
+  return `What this user keeps (lean single drafts this way and include these among variants): ${lines.join("; ")}`;
 }
 
-// ============================================
-// GENERATE MULTI-POST SCHEDULE
-// ============================================
-function generateScheduleSuggestion(numDays: number, topics: string[]): string {
-  const times = ["9:00 AM", "10:30 AM", "12:00 PM", "2:00 PM", "4:30 PM", "6:00 PM"];
-  const schedule: string[] = [];
-  
-  for (let i = 0; i < numDays; i++) {
-    const day = i === 0 ? "Today" : i === 1 ? "Tomorrow" : `Day ${i + 1}`;
-    const time = times[Math.floor(Math.random() * times.length)];
-    const topic = topics[i % topics.length] || `Topic ${i + 1}`;
-    schedule.push(`• ${day} at ${time} IST: ${topic}`);
+// Scheduling one variant of a set keeps it: the pick is recorded and the rest
+// of the set is dropped. The app does the same from its "Keep" button.
+async function keepVariant(post: ChatPost, state: ToolTurnState) {
+  if (!post.variant) return;
+  const { groupId, dimension, style } = post.variant;
+  const others = [...state.drafts, ...state.generatedPosts].filter(p => p !== post && p.variant?.groupId === groupId);
+  if (others.length === 0) return;
+
+  if (state.supabase && state.userId) {
+    const { error } = await state.supabase
+      .from("post_variant_choices")
+      .upsert({
+        user_id: state.userId,
+        agent_id: state.agentId,
+        group_id: groupId,
+        dimension,
+        chosen_style: style,
+        offered_styles: [post, ...others].map(p => p.variant?.style).filter(Boolean),
+        draft_id: post.id,
+      }, { onConflict: "user_id,group_id", ignoreDuplicates: true });
+    if (error) console.warn("⚠️ Failed to record variant choice:", error.message);
+
+    await state.supabase
+      .from("post_drafts")
+      .delete()
+      .in("id", others.map(p => p.id))
+      .eq("user_id", state.userId)
+      .is("post_id", null);
   }
-  
-  return schedule.join("\n");
+
+  state.drafts = state.drafts.filter(d => !others.includes(d));
+  state.discardedPostIds.push(...others.map(p => p.id));
 }
 
-// ============================================
-// MAIN HANDLER
-// ============================================
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+// A post from this turn's drafts or the client's list; defaults to the newest
+function findChatPost(state: ToolTurnState, postId?: string): ChatPost | null {
+  if (postId) {
+    return [...state.drafts, ...state.generatedPosts].find(p => p.id === postId || p.dbId === postId) || null;
   }
+  return state.drafts[state.drafts.length - 1] || state.generatedPosts[0] || null;
+}
 
-  try {
-    const authHeader = req.headers.get("Authorization");
-    const body = await req.json().catch(() => ({}));
-    const message: string = String(body?.message ?? "").trim();
-    const conversationHistory: any[] = body?.history || [];
-    const generatedPosts: any[] = body?.generatedPosts || [];
-    const pendingPlan: any = body?.pendingPlan || null;
-    const uploadedImages: string[] = body?.uploadedImages || [];
-    const agentSettings: any = body?.agentSettings || {};
-    const agentType: string = agentSettings?.type || "professional";
-    const generateImage: boolean = body?.generateImage || false;
-
-    console.log("📨 Agent received:", message);
-    console.log("📝 History length:", conversationHistory.length);
-    console.log("🗂️ Generated posts:", generatedPosts.length);
-    console.log("🖼️ Uploaded images:", uploadedImages.length);
-    console.log("🤖 Agent type:", agentType);
-    console.log("🎨 Generate image:", generateImage);
-
-    // Fetch user context for personalized AI
-    const userContext = await fetchUserContext(authHeader);
-
-    // Load reference materials for this agent
-    let referenceMaterialsText = "";
-    if (authHeader) {
-      try {
-        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-        const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-        const supabase = createClient(supabaseUrl, supabaseKey);
-        
-        // Extract user ID from JWT
-        const token = authHeader.replace("Bearer ", "");
-        const { data: { user } } = await supabase.auth.getUser(token);
-        
-        if (user) {
-          const { data: materials } = await supabase
-            .from("agent_reference_materials")
-            .select("title, content, type")
-            .eq("user_id", user.id)
-            .limit(10);
-          
-          if (materials && materials.length > 0) {
-            referenceMaterialsText = "\n\n═══════════════════════════════════════════\nUSER REFERENCE MATERIALS (Use these to match their style)\n═══════════════════════════════════════════\n" +
-              materials.map((m: any) => `[${m.type.toUpperCase()}] ${m.title}:\n${m.content.substring(0, 500)}`).join("\n\n");
-            console.log("📚 Loaded", materials.length, "reference materials");
-          }
-        }
-      } catch (err) {
-        console.warn("Failed to load reference materials:", err);
+async function executeTool(call: ChatToolCall, state: ToolTurnState): Promise<ToolResult> {
+  switch (call.name) {
+    case "draft_post": {
+      const { content, changes } = humanizeWithChanges(cleanPostContent(call.args.content), state.humanizer);
+      if (content.length < MIN_POST_LENGTH) {
+        return { ok: false, error: "The draft is too short after formatting was removed - write the full post" };
       }
-    }
 
-    // Inject reference materials into user context
-    if (referenceMaterialsText && userContext) {
-      userContext.aiInstructions = (userContext.aiInstructions || "") + referenceMaterialsText;
+      // Sources the draft names, else all of this turn's research; a revision
+      // without new research keeps the sources of the draft it revises
+      const sources = state.research.length > 0
+        ? pickSources(state.research, call.args.sources)
+        : (call.args.replaces_post_id && findChatPost(state, call.args.replaces_post_id)?.sources) || [];
+
+      const now = new Date().toISOString();
+      const post: ChatPost = {
+        id: `post-${Date.now()}-${state.drafts.length}`,
+        content,
+        suggestedTime: now,
+        reasoning: call.args.topic ? `Draft about ${call.args.topic}` : "Generated by AI agent",
+        scheduledDateTime: now,
+        generateImage: state.generateImage,
+        imagePrompt: generateImagePromptFromPost(content),
+        replacesPostId: call.args.replaces_post_id,
+        sources,
+        humanizerChanges: changes,
+      };
+      await saveDraft(post, call.args.topic, state);
+      state.drafts.push(post);
+      generateScheduleSuggestion(state);
+      state.notes.push(`---\n${content}\n---`);
+      return { ok: true, post_id: post.id };
     }
 
-    if (!message && uploadedImages.length === 0) {
-      return new Response(
-        JSON.stringify({
-          type: "message",
-          message: "Please type a message to continue.",
-          posts: [],
-          action: null,
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    case "draft_variants": {
+      const groupId = crypto.randomUUID();
+      const sources = state.research.length > 0
+        ? pickSources(state.research, call.args.sources)
+        : (call.args.replaces_post_id && findChatPost(state, call.args.replaces_post_id)?.sources) || [];
+
+      const variants = rankVariants(
+        call.args.variants.map(v => ({ ...v, dimension: call.args.dimension })),
+        state.variantPreferences
       );
+      const now = new Date().toISOString();
+      const ids: string[] = [];
+      for (const variant of variants) {
+        const { content, changes } = humanizeWithChanges(cleanPostContent(variant.content), state.humanizer);
+        if (content.length < MIN_POST_LENGTH) continue;
+
+        const post: ChatPost = {
+          id: `post-${Date.now()}-${state.drafts.length}`,
+          content,
+          suggestedTime: now,
+          reasoning: `${variantLabel(variant)}${call.args.topic ? ` - ${call.args.topic}` : ""}`,
+          scheduledDateTime: now,
+          generateImage: state.generateImage,
+          imagePrompt: generateImagePromptFromPost(content),
+          replacesPostId: call.args.replaces_post_id,
+          sources,
+          humanizerChanges: changes,
+          variant: { groupId, dimension: variant.dimension, style: variant.style },
+        };
+        await saveDraft(post, call.args.topic, state);
+        state.drafts.push(post);
+        ids.push(post.id);
+      }
+      if (ids.length < 2) {
+        return { ok: false, error: "The variants were too short after formatting was removed - write full posts" };
+      }
+
+      generateScheduleSuggestion(state);
+      state.notes.push(`I wrote ${ids.length} versions with different ${call.args.dimension === "length" ? "lengths" : `${call.args.dimension}s`}. Keep the one you like and I'll drop the rest.`);
+      return { ok: true, post_ids: ids };
     }
 
-    const intent = detectIntent(message, uploadedImages);
-    console.log("🎯 Detected intent:", intent.type);
+    case "schedule_post": {
+      if (state.schedule) {
+        return { ok: false, error: "Only one post can be scheduled per message" };
+      }
 
-    let response = "";
-    let posts: any[] = [];
-    let action: string | null = null;
-    let planToConfirm: any = null;
+      const post = findChatPost(state, call.args.post_id);
+      if (!post) {
+        state.notes.push("I don't have any posts to schedule. Would you like me to create one first?\n\nJust say 'write a post about [topic]' 📝");
+        return { ok: false, error: "There is no draft to schedule" };
+      }
 
-    // ============================================
-    // HANDLE DIFFERENT INTENTS
-    // ============================================
+      const resolved = isBestTimeRequest(call.args.when)
+        ? resolveBestTime(state, post)
+        : resolveWhen(call.args.when, state.timeZone);
+      if (!resolved.ok) {
+        if (resolved.clarification) {
+          state.clarification = resolved.clarification;
+        } else {
+          state.notes.push(resolved.error);
+        }
+        return { ok: false, error: resolved.error };
+      }
 
-    switch (intent.type) {
-      case "greeting": {
-        const profile = userContext?.context?.profile || userContext?.agentContext?.profile || {};
-        const userName = profile.name ? profile.name.split(' ')[0] : '';
-        
-        response = `Hello${userName ? ` ${userName}` : ''}! 👋 I'm your LinkedIn posting assistant.
+      await keepVariant(post, state);
+      state.schedule = { post, ...resolved };
+      // The other drafts of this turn move off the day this one took
+      generateScheduleSuggestion(state);
+      state.notes.push(
+        resolved.immediate
+          ? "🚀 **Posting Now**\n\nSending your post to the Chrome extension for immediate publishing..."
+          : resolved.wasRescheduled
+            ? `${resolved.message}\n\n✅ Sending to Chrome extension now...`
+            : `📅 **${resolved.message}**\n\n✅ Sending to Chrome extension now...`
+      );
+      return { ok: true, post_id: post.id, scheduled_for: formatScheduledTimeInZone(resolved.time, state.timeZone) };
+    }
 
-Here's what I can do:
-• **Create posts** - Say "write a post about [topic]"
-• **Research topics** - I'll find the latest insights
-• **Schedule posts** - Say "schedule it for tomorrow at 2pm"
-• **Batch create** - Say "create posts for next 5 days"
+    case "generate_image": {
+      const post = findChatPost(state, call.args.post_id);
+      if (!post) {
+        state.notes.push("I don't have any posts to generate an image for. Would you like me to create a post first?");
+        return { ok: false, error: "There is no draft to add an image to" };
+      }
 
-What would you like to create today?`;
-        break;
+      // Drafts from this turn get their image as soon as the client adds them
+      if (state.drafts.includes(post)) {
+        post.generateImage = true;
+        post.imagePrompt = post.imagePrompt || generateImagePromptFromPost(post.content);
+      } else {
+        state.imagePostId = post.id;
       }
+      state.notes.push("Generating an AI image for your post... 🎨");
+      return { ok: true, post_id: post.id };
+    }
 
-      case "cancel": {
-        response = "No problem! Let me know when you'd like to create a LinkedIn post. Just say 'write a post about [topic]' when you're ready. 👍";
-        break;
+    case "list_queue": {
+      if (!state.supabase || !state.userId) {
+        return { ok: false, error: "The user is not signed in" };
       }
 
-      case "create_posts_from_images": {
-        const imageUrls: string[] = intent.data?.imageUrls || [];
-        console.log("🖼️ Creating PREVIEW for", imageUrls.length, "images");
-        
-        // Clean the message to extract any user instructions
-        const cleanMessage = message.replace(/\[UPLOADED_IMAGES:[^\]]+\]/g, "").trim();
-        const userInstructions = cleanMessage || "Create an engaging LinkedIn post for this image";
-        
-        // Generate preview posts (don't add to generatedPosts yet - just show preview)
-        const previewPosts: any[] = [];
-        
-        for (let i = 0; i < imageUrls.length; i++) {
-          const imageUrl = imageUrls[i];
-          const postIndex = i + 1;
-          
-          const imagePostPrompt = `You are creating a LinkedIn post for an uploaded image (image ${postIndex} of ${imageUrls.length}).
+      const { data, error } = await state.supabase
+        .from("posts")
+        .select("id, content, status, scheduled_time")
+        .eq("user_id", state.userId)
+        .in("status", ["pending", "posting"])
+        .order("scheduled_time", { ascending: true })
+        .limit(call.args.limit);
+
+      if (error) {
+        console.error("list_queue error:", error);
+        return { ok: false, error: "Couldn't load the queue" };
+      }
 
-User instructions: ${userInstructions}
+      return {
+        ok: true,
+        posts: (data || []).map((p: { id: string; content: string; status: string; scheduled_time: string | null }) => ({
+          id: p.id,
+          status: p.status,
+          scheduled_for: p.scheduled_time ? formatScheduledTimeInZone(p.scheduled_time, state.timeZone) : null,
+          preview: p.content.substring(0, 120),
+        })),
+      };
+    }
 
-The image has been uploaded and will be attached to this post. Create an engaging, professional LinkedIn post that:
-1. Captures attention with a strong opening
-2. Relates to the user's instructions or describes what the image might represent
-3. Includes a call to action or question to drive engagement
-4. Uses appropriate hashtags (2-3 max)
+    case "reschedule_post": {
+      if (!state.supabase || !state.userId) {
+        return { ok: false, error: "The user is not signed in" };
+      }
 
-IMPORTANT: Output the post content between --- markers like this:
----
-Your post content here
----
+      const { data: post, error } = await state.supabase
+        .from("posts")
+        .select("id, content, status, tracking_id, photo_url")
+        .eq("id", call.args.post_id)
+        .eq("user_id", state.userId)
+        .maybeSingle();
 
-Make each post unique if there are multiple images.`;
+      if (error || !post) {
+        return { ok: false, error: "No queued post with that id - call list_queue for the ids" };
+      }
+      if (post.status !== "pending") {
+        return { ok: false, error: `Only queued posts can be rescheduled (this one is ${post.status})` };
+      }
 
-          try {
-            const aiResponse = await callAI(imagePostPrompt, conversationHistory, userContext, agentType);
-            const postContent = extractPostContent(aiResponse);
-            
-            if (postContent) {
-              previewPosts.push({
-                content: postContent,
-                imageUrl: imageUrl,
-                agentType: agentType,
-              });
-            }
-          } catch (error) {
-            console.error(`Error generating preview for image ${postIndex}:`, error);
-          }
-        }
-        
-        if (previewPosts.length > 0) {
-          // Return preview - don't auto-create posts
-          // Frontend will show preview and ask for scheduling confirmation
-          const firstPreview = previewPosts[0];
-          
-          response = `📸 Here's a preview of your post:\n\n---\n${firstPreview.content}\n---\n\n📅 **When would you like to schedule this?**\n• Click the schedule button below to pick a date/time\n• Or say "post now" to publish immediately\n• Or say "edit" to modify the content`;
-          
-          // Return preview data for frontend to handle
-          return new Response(
-            JSON.stringify({
-              type: "post_preview",
-              message: response,
-              previewPost: firstPreview,
-              allPreviews: previewPosts,
-              posts: [], // Don't auto-create posts
-              action: "show_scheduling_dialog",
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+      const resolved = isBestTimeRequest(call.args.when)
+        ? resolveBestTime(state, null)
+        : resolveWhen(call.args.when, state.timeZone);
+      if (!resolved.ok) {
+        if (resolved.clarification) {
+          state.clarification = resolved.clarification;
         } else {
-          response = "I had trouble creating posts for your images. Please try again or provide more specific instructions.";
+          state.notes.push(resolved.error);
         }
-        break;
+        return { ok: false, error: resolved.error };
       }
 
-      case "multi_post_request": {
-        // Extract number of days/posts from message
-        const numMatch = message.match(/(\d+)\s*(?:days?|posts?)/i);
-        const numDays = numMatch ? parseInt(numMatch[1]) : 5;
-        
-        // Research to get topic suggestions
-        const research = await researchTopic("trending professional topics", userContext);
-        const suggestedTopics = research?.suggestedTopics || [
-          "Industry insights",
-          "Professional growth tips",
-          "Success story",
-          "How-to guide",
-          "Thought leadership",
-        ];
-        
-        const schedule = generateScheduleSuggestion(numDays, suggestedTopics);
-        
-        response = `Great idea! Here's what I can do for you - **please confirm**:
+      const { error: updateError } = await state.supabase
+        .from("posts")
+        .update({ scheduled_time: resolved.time, updated_at: new Date().toISOString() })
+        .eq("id", post.id)
+        .eq("status", "pending");
 
-📋 **My Plan:**
-• Research latest trends in your industry
-• Create ${numDays} unique posts with varied content
-• Suggest optimal posting times (different each day)
-• Generate AI images for each post (if enabled)
-
-📅 **Suggested Schedule:**
-${schedule}
+      if (updateError) {
+        console.error("reschedule_post error:", updateError);
+        return { ok: false, error: "Couldn't update the post" };
+      }
 
-⚡ **LinkedIn-Safe Approach:**
-• Different posting times each day
-• Varied content formats
-• Max 2 posts per day
+      state.rescheduled.push({
+        id: post.id,
+        trackingId: post.tracking_id,
+        content: post.content,
+        imageUrl: post.photo_url,
+        scheduledTime: resolved.time,
+      });
+      state.notes.push(`📅 Moved to **${formatScheduledTimeInZone(resolved.time, state.timeZone)}**`);
+      return { ok: true, post_id: post.id, scheduled_for: formatScheduledTimeInZone(resolved.time, state.timeZone) };
+    }
 
-**Would you like me to proceed with this plan?**
-Or would you prefer different topics/timing?`;
-        
-        planToConfirm = {
-          type: "multi_post",
-          numDays,
-          topics: suggestedTopics,
-          schedule,
-        };
-        break;
+    case "research_topic": {
+      const providers = await loadResearchProviders(state.supabase, state.userId, state.workspaceId);
+      const research = await runResearch(
+        { topic: call.args.topic, industry: state.userContext?.agentContext?.profile?.industry },
+        providers,
+        { cache: researchCache(state.supabase, state.userId), signal: AbortSignal.timeout(15000) }
+      );
+      if (!research) {
+        return { ok: false, error: "No research available - write from general knowledge" };
       }
 
-      case "confirm_plan": {
-        // User confirmed - generate the posts
-        if (pendingPlan && pendingPlan.type === "multi_post") {
-          response = `Perfect! 🚀 Creating ${pendingPlan.numDays} posts for you...`;
-          
-          // Generate posts (would be done via AI in production)
-          // For now, signal to create posts
-          action = "execute_plan";
-        } else {
-          // No plan to confirm - use AI to respond
-          response = await callAI(message, conversationHistory, userContext, agentType);
-        }
-        break;
-      }
+      console.log(`🔍 Research on "${call.args.topic}":`, research.sources.length, "sources", research.cached ? "(cached)" : `from ${research.providers.join(", ")}`);
+      const sources = labelSources(research.sources, state.research.length);
+      state.research.push(...sources);
+      return { ok: true, insights: formatResearchInsights(sources) };
+    }
+  }
+}
 
-      case "show_post": {
-        if (!generatedPosts || generatedPosts.length === 0) {
-          response = "I don't have any posts to show yet. Would you like me to create one? Just say 'write a post about [topic]' 📝";
-        } else {
-          const latestPost = generatedPosts[0];
-          response = `Here's your latest post:\n\n---\n\n${latestPost.content}\n\n---\n\nWhat do you think? Would you like any changes? When would you like to post this?`;
-        }
-        break;
-      }
+// Drafts and queued posts the model can refer to by id
+function buildDraftsContext(generatedPosts: ChatPost[]): string {
+  return generatedPosts
+    .slice(0, 5)
+    .map(p => `[${p.id}] ${p.dbId ? "(saved) " : ""}${p.variant ? `(variant: ${variantLabel(p.variant)}) ` : ""}${p.content.substring(0, 300)}`)
+    .join("\n\n");
+}
 
-      case "post_now": {
-        console.log("🚀 POST_NOW intent - generatedPosts count:", generatedPosts?.length || 0);
-        if (generatedPosts?.length > 0) {
-          console.log("📋 First post content preview:", generatedPosts[0]?.content?.substring(0, 100));
-        }
-        
-        if (!generatedPosts || generatedPosts.length === 0) {
-          response = "I don't have any posts ready to publish. Would you like me to create one first?\n\nJust say 'write a post about [topic]' 📝";
-        } else {
-          // Get the most recent post for immediate scheduling
-          const postToSchedule = generatedPosts[0];
-          const now = new Date();
-          // Schedule 1 minute from now for immediate posting
-          const immediateTime = new Date(now.getTime() + 60 * 1000);
-          
-          console.log("✅ Preparing to send post to extension:", postToSchedule.id);
-          console.log("⏰ Scheduled time (immediate):", immediateTime.toISOString());
-          
-          response = `🚀 **Posting Now**\n\nSending your post to the Chrome extension for immediate publishing...\n\nThe extension will automatically open LinkedIn and publish your post.`;
-          action = "post_now";
-          
-          // Return with immediate schedule time
-          return new Response(
-            JSON.stringify({
-              type: "auto_schedule",
-              message: response,
-              posts: [],
-              action: "post_now",
-              scheduledTime: immediateTime.toISOString(),
-              postToSchedule: postToSchedule,
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+// Follow-ups like "make it shorter" say nothing about the topic, so short
+// messages search with the previous user turn as well
+function retrievalQuery(message: string, conversationHistory: HistoryMessage[]): string {
+  if (message.split(/\s+/).length >= 6) return message;
+  const previous = [...conversationHistory]
+    .reverse()
+    .find(msg => msg.role === "user" && msg.content !== message);
+  return previous ? `${previous.content}\n${message}` : message;
+}
+
+// ============================================
+// REQUEST HANDLING
+// ============================================
+interface AgentChatBody {
+  message?: string;
+  history?: HistoryMessage[];
+  generatedPosts?: ChatPost[];
+  uploadedImages?: string[];
+  agentSettings?: { type?: string };
+  agentId?: string;
+  threadId?: string;
+  userContext?: { timezone?: string };
+  generateImage?: boolean;
+  stream?: boolean;
+}
+
+interface AgentChatResponse {
+  type: string;
+  message: string;
+  posts: unknown[];
+  action: string | null;
+  [key: string]: unknown;
+}
+
+// SSE sink for a streamed turn. Events: "text" (reply tokens), "draft"
+// (the draft_post content so far, already cleaned), "status" (tool progress)
+// and finally "done" with the same payload the JSON response would have.
+interface ChatStream {
+  send: (event: "text" | "draft" | "status" | "done", data: unknown) => void;
+  signal: AbortSignal;
+}
+
+function errorResponsePayload(error: unknown): AgentChatResponse {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return {
+    type: "message",
+    message: `I encountered an error: ${errorMessage}\n\nPlease try again.`,
+    posts: [],
+    topic: null,
+    action: null,
+    error: errorMessage,
+  };
+}
+
+function streamChat(req: Request, body: AgentChatBody): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  // Stop button on the client closes the connection - stop the model call too
+  req.signal?.addEventListener("abort", () => upstream.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: ChatStream["send"] = (event, data) => {
+        if (upstream.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(formatSSE(event, data)));
+        } catch {
+          upstream.abort();
         }
-        break;
-      }
+      };
 
-      case "schedule_post":
-      case "auto_schedule": {
-        if (!generatedPosts || generatedPosts.length === 0) {
-          response = "I don't have any posts to schedule. Would you like me to create one first?\n\nJust say 'write a post about [topic]' 📝";
+      try {
+        const payload = await handleChat(req.headers.get("Authorization"), body, { send, signal: upstream.signal });
+        send("done", payload);
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          console.log("⏹️ Generation stopped by client");
         } else {
-          const timeText = intent.data?.timeText || message;
-          
-          // Parse the time for auto-scheduling (now returns ParsedScheduleTime object with clear feedback)
-          const parseResult = parseScheduleTimeIST(timeText);
-          
-          if (!parseResult) {
-            response = `I couldn't understand that time format. Please use:\n• "today at 3:30 PM"\n• "tomorrow at 9 AM"\n• "in 2 hours"\n• "morning" / "afternoon" / "evening"`;
-            break;
-          }
-          
-          const scheduledDate = new Date(parseResult.time);
-          const now = new Date();
-          
-          // Validate time is at least 2 minutes in the future
-          const twoMinutesFromNow = new Date(now.getTime() + 2 * 60 * 1000);
-          if (scheduledDate < twoMinutesFromNow) {
-            response = `⚠️ Please schedule at least 2 minutes from now to ensure successful posting.\n\nTry:\n• "today at ${new Date(now.getTime() + 10 * 60 * 1000).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}"\n• "in 10 minutes"`;
-            break;
-          }
-          
-          const postToSchedule = generatedPosts[0];
-          const parsedTime = parseResult.time;
-          
-          // Include clear feedback about rescheduling if time was in the past
-          let responseMessage = parseResult.wasRescheduled
-            ? `${parseResult.message}\n\n✅ Sending to Chrome extension now...`
-            : `📅 **${parseResult.message}**\n\n✅ Sending to Chrome extension now...`;
-          
-          response = responseMessage;
-          action = "auto_schedule";
-          
-          // Return with parsed time and post data
-          return new Response(
-            JSON.stringify({
-              type: "auto_schedule",
-              message: response,
-              posts: [],
-              action: "auto_schedule",
-              scheduledTime: parsedTime,
-              postToSchedule: postToSchedule,
-              confirmationMessage: parseResult.message,
-              wasRescheduled: parseResult.wasRescheduled,
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          console.error("❌ Agent error:", error);
+          send("done", errorResponsePayload(error));
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
         }
-        break;
       }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
 
-      case "ask_time": {
-        if (!generatedPosts || generatedPosts.length === 0) {
-          response = "I don't have any posts ready. Would you like me to create one first?\n\nJust say 'write a post about [topic]' 📝";
-        } else {
-          response = `When would you like to post this?\n\nYou can say:\n• **"post it now"** to publish immediately\n• **"post it at 3:30pm today"** to schedule\n• **"tomorrow at 2pm"** for next day\n\nI'll handle everything automatically!`;
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+// The caller's chat thread, if the id the client sent is really theirs
+async function resolveThreadId(
+  supabase: SupabaseClient | null,
+  userId: string | null,
+  threadId: unknown
+): Promise<string | null> {
+  if (!supabase || !userId || typeof threadId !== "string") return null;
+  const { data } = await supabase
+    .from("chat_threads")
+    .select("id")
+    .eq("id", threadId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+async function handleChat(
+  authHeader: string | null,
+  body: AgentChatBody,
+  stream: ChatStream | null
+): Promise<AgentChatResponse> {
+  const message: string = String(body?.message ?? "").trim();
+  const conversationHistory: HistoryMessage[] = body?.history || [];
+  const generatedPosts: ChatPost[] = body?.generatedPosts || [];
+  const uploadedImages: string[] = body?.uploadedImages || [];
+  const agentSettings: any = body?.agentSettings || {};
+  const agentType: string = agentSettings?.type || "professional";
+  const generateImage: boolean = body?.generateImage || false;
+  const agentId: string | null = typeof body?.agentId === "string" ? body.agentId : null;
+
+  console.log("📨 Agent received:", message);
+  console.log("📝 History length:", conversationHistory.length);
+  console.log("🗂️ Generated posts:", generatedPosts.length);
+  console.log("🖼️ Uploaded images:", uploadedImages.length);
+  console.log("🤖 Agent type:", agentType);
+  console.log("🎨 Generate image:", generateImage);
+
+  // Fetch user context for personalized AI
+  const userContext = await fetchUserContext(authHeader);
+
+  // Times the user types ("3pm", "tomorrow 9am") are in their own timezone:
+  // saved profile first, then what the client sent, then the IST default
+  const userTimeZone = resolveTimeZone(
+    userContext?.context?.profile?.timezone || body?.userContext?.timezone
+  );
+  console.log("🕐 User timezone:", userTimeZone);
+
+  // Resolve the caller once - reference materials and the queue tools need it
+  let supabase: SupabaseClient | null = null;
+  let userId: string | null = null;
+  if (authHeader) {
+    try {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      supabase = createClient(supabaseUrl, supabaseKey);
+      
+      // Extract user ID from JWT
+      const token = authHeader.replace("Bearer ", "");
+      const { data: { user } } = await supabase.auth.getUser(token);
+      userId = user?.id || null;
+    } catch (err) {
+      console.warn("Failed to resolve user:", err);
+    }
+  }
+
+  const agent = await loadWorkspaceAgent(supabase, userId, agentId);
+  const llm = await loadLLMSelection(supabase, agent);
+  if (llm.preference?.provider) {
+    console.log("🧠 Agent model:", llm.preference.provider, llm.preference.model || "(provider default)");
+  }
+  const humanizer = humanizerRulesFromSettings(agent?.settings);
+
+  // Reference materials - shared across the agent's workspace. Indexed ones
+  // contribute only the chunks relevant to this request (see referenceChunks.ts)
+  let referenceMaterialsText = "";
+  let references: ReferenceContext | null = null;
+  if (supabase && userId && message) {
+    try {
+      references = formatReferenceContext(await retrieveReferences(
+        supabase,
+        { query: retrievalQuery(message, conversationHistory), workspaceId: agent?.workspace_id ?? null, userId },
+        async (text) => {
+          const result = await embedTexts([text], { providers: llm.providers, getEnv: (key) => Deno.env.get(key) });
+          return { vector: result.vectors[0], model: result.model };
         }
-        break;
+      ));
+      if (references) {
+        referenceMaterialsText = "\n\n═══════════════════════════════════════════\n" + references.text;
+        console.log("📚 Retrieved", references.sources.length, "reference chunks");
       }
+    } catch (err) {
+      console.warn("Failed to retrieve reference materials:", err);
+    }
 
-      case "generate_image": {
-        if (!generatedPosts || generatedPosts.length === 0) {
-          response = "I don't have any posts to generate an image for. Would you like me to create a post first?\n\nJust say 'write a post about [topic]' 📝";
-        } else {
-          // Signal to frontend to generate image for the most recent post
-          response = "Generating an AI image for your post... 🎨";
-          action = "generate_image";
-          
-          return new Response(
-            JSON.stringify({
-              type: "generate_image",
-              message: response,
-              posts: [],
-              action: "generate_image",
-              postId: generatedPosts[0].id, // Generate for most recent post
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        break;
+    // Materials saved before indexing existed (or whose indexing failed) are
+    // still passed the old way, as short excerpts
+    try {
+      const materialsQuery = supabase
+        .from("agent_reference_materials")
+        .select("title, content, type")
+        .neq("status", "ready")
+        .neq("content", "");
+      const { data: materials } = await (agent
+        ? materialsQuery.eq("workspace_id", agent.workspace_id)
+        : materialsQuery.eq("user_id", userId)
+      ).limit(5);
+      
+      if (materials && materials.length > 0) {
+        referenceMaterialsText += "\n\n═══════════════════════════════════════════\nUSER REFERENCE MATERIALS (Use these to match their style)\n═══════════════════════════════════════════\n" +
+          materials.map((m: { title: string; content: string; type: string }) => `[${m.type.toUpperCase()}] ${m.title}:\n${m.content.substring(0, 500)}`).join("\n\n");
+        console.log("📚 Loaded", materials.length, "unindexed reference materials");
       }
+    } catch (err) {
+      console.warn("Failed to load reference materials:", err);
+    }
+  }
 
-      case "create_post": {
-        const isSpecific = isSpecificTopic(message);
-        console.log("📊 Topic specificity:", isSpecific ? "specific" : "vague");
+  // Inject reference materials into user context
+  if (referenceMaterialsText && userContext) {
+    userContext.aiInstructions = (userContext.aiInstructions || "") + referenceMaterialsText;
+  }
 
-        let enhancedPrompt = message;
+  // Uploaded images arrive as a marker in the message or as an explicit list
+  const imageMarker = message.match(/\[UPLOADED_IMAGES:\s*([^\]]+)\]/);
+  const imageUrls = uploadedImages.length > 0
+    ? uploadedImages
+    : imageMarker
+      ? imageMarker[1].split(",").map(url => url.trim()).filter(url => url.length > 0)
+      : [];
 
-        // If specific topic, add research
-        if (isSpecific) {
-          const research = await researchTopic(message, userContext);
-          if (research) {
-            enhancedPrompt = `${message}\n\n[LATEST RESEARCH INSIGHTS - Use these to make the post current and data-driven:]\n${research.insights}`;
-          }
-        }
+  if (!message && imageUrls.length === 0) {
+    return {
+      type: "message",
+      message: "Please type a message to continue.",
+      posts: [],
+      action: null,
+    };
+  }
 
-        // Call real AI for intelligent response
-        response = await callAI(enhancedPrompt, conversationHistory, userContext, agentType);
-
-        // Extract post if AI created one
-        const extracted = extractPostContent(response);
-        if (extracted) {
-          // Apply cleaning and humanization
-          const cleaned = cleanPostContent(extracted);
-          const postContent = humanizePost(cleaned);
-          const imagePrompt = generateImagePromptFromPost(postContent);
-          
-          posts = [{
-            id: `post-${Date.now()}`,
-            content: postContent,
-            suggestedTime: new Date().toISOString(),
-            reasoning: "Generated by AI agent",
-            scheduledDateTime: new Date().toISOString(),
-            generateImage: generateImage,
-            imagePrompt: imagePrompt,
-          }];
-        }
-        break;
-      }
+  // ============================================
+  // UPLOADED IMAGES - one preview post per image
+  // ============================================
+  if (imageUrls.length > 0) {
+    console.log("🖼️ Creating PREVIEW for", imageUrls.length, "images");
+    
+    // Clean the message to extract any user instructions
+    const cleanMessage = message.replace(/\[UPLOADED_IMAGES:[^\]]+\]/g, "").trim();
+    const userInstructions = cleanMessage || "Create an engaging LinkedIn post for this image";
+    const draftTool = CHAT_TOOLS.filter(tool => tool.function.name === "draft_post");
+    
+    // Generate preview posts (don't add to generatedPosts yet - just show preview)
+    const previewPosts: { content: string; imageUrl: string; agentType: string }[] = [];
+    
+    for (let i = 0; i < imageUrls.length; i++) {
+      const imageUrl = imageUrls[i];
+      const postIndex = i + 1;
+      
+      const imagePostPrompt = `You are creating a LinkedIn post for an uploaded image (image ${postIndex} of ${imageUrls.length}).
+
+User instructions: ${userInstructions}
 
-      case "conversation":
-      default: {
-        // For general conversation, use AI
-        response = await callAI(message, conversationHistory, userContext, agentType);
+The image has been uploaded and will be attached to this post. Create an engaging, professional LinkedIn post that:
+1. Captures attention with a strong opening
+2. Relates to the user's instructions or describes what the image might represent
+3. Includes a call to action or question to drive engagement
+4. Uses appropriate hashtags (2-3 max)
+
+Make each post unique if there are multiple images.`;
+
+      try {
+        const aiMessage = await callAI(
+          buildConversation(imagePostPrompt, conversationHistory, userContext, agentType, "", "", humanizer),
+          llm,
+          { tools: draftTool, toolChoice: { type: "function", function: { name: "draft_post" } }, humanizer }
+        );
+        const toolCall = aiMessage.tool_calls?.[0];
+        const validation = toolCall
+          ? validateToolCall(toolCall.function.name, toolCall.function.arguments)
+          : null;
         
-        // Check if AI created a post in the response
-        const extracted = extractPostContent(response);
-        if (extracted) {
-          // Apply cleaning and humanization
-          const cleaned = cleanPostContent(extracted);
-          const postContent = humanizePost(cleaned);
-          const imagePrompt = generateImagePromptFromPost(postContent);
-          
-          posts = [{
-            id: `post-${Date.now()}`,
-            content: postContent,
-            suggestedTime: new Date().toISOString(),
-            reasoning: "Generated by AI agent",
-            scheduledDateTime: new Date().toISOString(),
-            generateImage: generateImage,
-            imagePrompt: imagePrompt,
-          }];
+        if (validation?.ok && validation.call.name === "draft_post") {
+          previewPosts.push({
+            content: humanizePost(cleanPostContent(validation.call.args.content), humanizer),
+            imageUrl: imageUrl,
+            agentType: agentType,
+          });
+        } else {
+          console.warn(`⚠️ No valid draft for image ${postIndex}:`, validation && !validation.ok ? validation.error : "no tool call");
         }
-        break;
+      } catch (error) {
+        console.error(`Error generating preview for image ${postIndex}:`, error);
       }
     }
+    
+    if (previewPosts.length === 0) {
+      return {
+        type: "message",
+        message: "I had trouble creating posts for your images. Please try again or provide more specific instructions.",
+        posts: [],
+        action: null,
+      };
+    }
 
-    return new Response(
-      JSON.stringify({
-        type: posts.length > 0 ? "posts_generated" : "message",
-        message: response,
-        posts,
-        topic: null,
-        action,
-        planToConfirm,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    // Return preview - don't auto-create posts
+    // Frontend will show preview and ask for scheduling confirmation
+    const firstPreview = previewPosts[0];
+    
+    return {
+      type: "post_preview",
+      message: `📸 Here's a preview of your post:\n\n---\n${firstPreview.content}\n---\n\n📅 **When would you like to schedule this?**\n• Click the schedule button below to pick a date/time\n• Or say "post now" to publish immediately\n• Or say "edit" to modify the content`,
+      previewPost: firstPreview,
+      allPreviews: previewPosts,
+      posts: [], // Don't auto-create posts
+      action: "show_scheduling_dialog",
+    };
+  }
+
+  // ============================================
+  // TOOL-CALLING LOOP
+  // ============================================
+  // Action tools (draft, schedule, image, reschedule) end the turn; read-only
+  // tools and rejected arguments go back to the model for another round.
+  const state: ToolTurnState = {
+    supabase,
+    userId,
+    agentId,
+    workspaceId: agent?.workspace_id ?? null,
+    threadId: await resolveThreadId(supabase, userId, body?.threadId),
+    userContext,
+    timeZone: userTimeZone,
+    planner: await loadSchedulePlanner(supabase, userId, userTimeZone),
+    humanizer,
+    variantPreferences: await loadVariantPreferences(supabase, userId, agentId),
+    generateImage,
+    generatedPosts,
+    drafts: [],
+    schedule: null,
+    imagePostId: null,
+    rescheduled: [],
+    notes: [],
+    clarification: null,
+    research: [],
+    discardedPostIds: [],
+  };
+
+  const conversation = buildConversation(
+    message,
+    conversationHistory,
+    userContext,
+    agentType,
+    buildDraftsContext(generatedPosts),
+    describeBestTimes(state.planner),
+    humanizer,
+    describeVariantContext(state.variantPreferences)
+  );
+  let reply = "";
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const aiMessage = await callAI(conversation, llm, {
+      tools: CHAT_TOOLS,
+      toolChoice: round === MAX_TOOL_ROUNDS - 1 ? "none" : "auto",
+      humanizer,
+    }, stream);
+    if (aiMessage.content) reply = aiMessage.content;
+
+    const toolCalls = aiMessage.tool_calls || [];
+    if (toolCalls.length === 0) break;
+
+    conversation.push(aiMessage);
+    let needsFollowUp = false;
+
+    for (const toolCall of toolCalls) {
+      const validation = validateToolCall(toolCall.function.name, toolCall.function.arguments);
+      let result: ToolResult;
+
+      if (!validation.ok) {
+        console.warn("⚠️ Rejected tool call:", toolCall.function.name, validation.error);
+        result = { ok: false, error: validation.error };
+        needsFollowUp = true;
+      } else {
+        console.log("🔧 Tool call:", validation.call.name, validation.call.args);
+        const status = TOOL_STATUS[validation.call.name];
+        if (stream && status) stream.send("status", { tool: validation.call.name, message: status });
+        result = await executeTool(validation.call, state);
+        if (READ_ONLY_TOOLS.includes(validation.call.name)) needsFollowUp = true;
+      }
+
+      conversation.push({ role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(result) });
+    }
+
+    if (!needsFollowUp || state.clarification) break;
+  }
+
+  const cited = references && !state.clarification ? citedSources(reply, references.sources) : [];
+  const response = state.clarification ||
+    [reply.trim(), ...state.notes, formatSourcesFooter(cited)].filter(Boolean).join("\n\n") ||
+    "Got it. What would you like to do next?";
+  const posts = state.drafts;
+
+  if (state.schedule && !state.clarification) {
+    return {
+      type: "auto_schedule",
+      message: response,
+      posts,
+      action: state.schedule.immediate ? "post_now" : "auto_schedule",
+      scheduledTime: state.schedule.time,
+      postToSchedule: state.schedule.post,
+      confirmationMessage: state.schedule.message,
+      wasRescheduled: state.schedule.wasRescheduled,
+      rescheduled: state.rescheduled,
+      discardedPostIds: state.discardedPostIds,
+    };
+  }
 
+  if (state.imagePostId) {
+    return {
+      type: "generate_image",
+      message: response,
+      posts,
+      action: "generate_image",
+      postId: state.imagePostId,
+      rescheduled: state.rescheduled,
+      discardedPostIds: state.discardedPostIds,
+    };
+  }
+
+  return {
+    type: posts.length > 0 ? "posts_generated" : "message",
+    message: response,
+    posts,
+    topic: null,
+    action: null,
+    rescheduled: state.rescheduled,
+    discardedPostIds: state.discardedPostIds,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const body: AgentChatBody = await req.json().catch(() => ({}));
+  if (body?.stream) return streamChat(req, body);
+
+  try {
+    const payload = await handleChat(req.headers.get("Authorization"), body, null);
+    return new Response(JSON.stringify(payload), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
   } catch (error: unknown) {
     console.error("❌ Agent error:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-
-    return new Response(
-      JSON.stringify({
-        type: "message",
-        message: `I encountered an error: ${errorMessage}\n\nPlease try again.`,
-        posts: [],
-        topic: null,
-        action: null,
-        error: errorMessage,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
-    );
+    return new Response(JSON.stringify(errorResponsePayload(error)), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
   }
 });
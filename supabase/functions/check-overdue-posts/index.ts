@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { transitionPostStatus } from "../_shared/postStatus.ts";
+import { recordPostPublished } from "../_shared/publishOutcomes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,10 +10,15 @@ const corsHeaders = {
 
 /**
  * Fallback job to check for posts that:
- * 1. Are still marked as "scheduled" but past their scheduled_time
- * 2. Have a linkedin_post_url (meaning they were posted but status wasn't updated)
+ * 1. Are still pending/posting past their scheduled_time but have a
+ *    linkedin_post_url (meaning they were posted but status wasn't updated)
+ * 2. Have been stuck in "posting" for over an hour
  * 
- * This ensures posts don't get stuck in "scheduled" status forever.
+ * All status changes go through the shared state machine with source 'cron'.
+ * Posts marked published are recorded like the extension's own reports, so a
+ * late post-success for the same post doesn't count or notify it again.
+ * Overdue posts that never started posting stay pending - pending → failed
+ * isn't a legal transition, the extension or the user retries them.
  */
 Deno.serve(async (req) => {
   console.log('=== check-overdue-posts called ===');
@@ -34,57 +41,62 @@ Deno.serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Find posts that are scheduled but past their time AND have a linkedin_post_url
+    // Find posts that are past their time AND have a linkedin_post_url
     // These are posts that were successfully posted but status wasn't synced
     const { data: postsWithUrl, error: urlError } = await supabase
       .from('posts')
-      .select('id, user_id, linkedin_post_url, scheduled_time')
-      .eq('status', 'scheduled')
+      .select('id, user_id, linkedin_post_url, linkedin_post_id, scheduled_time')
+      .in('status', ['pending', 'posting'])
       .not('linkedin_post_url', 'is', null)
       .lt('scheduled_time', new Date().toISOString());
 
     if (urlError) {
       console.error('Error finding posts with URL:', urlError);
     } else if (postsWithUrl && postsWithUrl.length > 0) {
-      console.log(`Found ${postsWithUrl.length} posts with URL but still scheduled`);
+      console.log(`Found ${postsWithUrl.length} posts with URL but not marked posted`);
       
       for (const post of postsWithUrl) {
-        const { error: updateError } = await supabase
-          .from('posts')
-          .update({
-            status: 'posted',
-            posted_at: post.scheduled_time || new Date().toISOString(),
-            verified: true,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', post.id);
+        try {
+          await transitionPostStatus(supabase, {
+            postId: post.id,
+            to: 'posted',
+            source: 'cron',
+            reason: 'LinkedIn URL present but status was never synced',
+            updates: {
+              posted_at: post.scheduled_time || new Date().toISOString(),
+              verified: true,
+            },
+          });
 
-        if (updateError) {
-          console.error(`Failed to update post ${post.id}:`, updateError);
-        } else {
           console.log(`✅ Auto-marked post ${post.id} as posted (had linkedin_post_url)`);
-          
-          // Notify user
-          await supabase.from('notifications').insert({
-            user_id: post.user_id,
-            title: 'Post Status Updated ✅',
-            message: 'A scheduled post has been marked as published.',
-            type: 'post',
+
+          // Counters and the notification, unless a report already recorded it
+          await recordPostPublished(supabase, {
+            postId: post.id,
+            source: 'cron',
+            linkedinUrl: post.linkedin_post_url,
+            linkedinPostId: post.linkedin_post_id,
+            notification: {
+              title: 'Post Status Updated ✅',
+              message: 'A scheduled post has been marked as published.',
+            },
           });
+        } catch (updateError) {
+          console.error(`Failed to update post ${post.id}:`, updateError);
         }
       }
     }
 
-    // Find posts that are VERY overdue (>1 hour past scheduled time) without URL
+    // Find posts stuck in "posting" for over an hour without a URL
     // Mark these as "failed" so user knows something went wrong
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
     
     const { data: stuckPosts, error: stuckError } = await supabase
       .from('posts')
       .select('id, user_id, scheduled_time')
-      .eq('status', 'scheduled')
+      .eq('status', 'posting')
       .is('linkedin_post_url', null)
-      .lt('scheduled_time', oneHourAgo);
+      .lt('updated_at', oneHourAgo);
 
     if (stuckError) {
       console.error('Error finding stuck posts:', stuckError);
@@ -92,19 +104,18 @@ Deno.serve(async (req) => {
       console.log(`Found ${stuckPosts.length} posts stuck for over 1 hour`);
       
       for (const post of stuckPosts) {
-        const { error: updateError } = await supabase
-          .from('posts')
-          .update({
-            status: 'failed',
-            last_error: 'Post was not published within expected timeframe. Extension may not have been active.',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', post.id);
+        try {
+          await transitionPostStatus(supabase, {
+            postId: post.id,
+            to: 'failed',
+            source: 'cron',
+            reason: 'Stuck in posting for over an hour',
+            updates: {
+              last_error: 'Post was not published within expected timeframe. Extension may not have been active.',
+            },
+          });
 
-        if (updateError) {
-          console.error(`Failed to mark post ${post.id} as failed:`, updateError);
-        } else {
-          console.log(`⚠️ Marked overdue post ${post.id} as failed`);
+          console.log(`⚠️ Marked stuck post ${post.id} as failed`);
           
           // Notify user
           await supabase.from('notifications').insert({
@@ -113,6 +124,8 @@ Deno.serve(async (req) => {
             message: 'A scheduled post could not be published. Please check your extension connection.',
             type: 'post',
           });
+        } catch (updateError) {
+          console.error(`Failed to mark post ${post.id} as failed:`, updateError);
         }
       }
     }
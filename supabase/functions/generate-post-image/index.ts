@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  DEFAULT_PROVIDERS,
+  LLMProviderError,
+  generateImage,
+  providersFromRows,
+  type AIProviderRow,
+} from "../_shared/llmProviders.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -74,174 +81,88 @@ serve(async (req) => {
       postContent: string;
     };
 
-    const HUGGINGFACE_API_KEY = Deno.env.get("HUGGINGFACE_API_KEY");
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
     // ALWAYS generate image prompt from actual post content
     // Only use provided prompt as additional hint, not replacement
     const contentBasedPrompt = generateImagePromptFromPost(postContent || prompt || '');
     const imagePrompt = contentBasedPrompt;
     console.log("📝 Using content-based image prompt:", imagePrompt.substring(0, 200));
 
-    let imageBase64: string | null = null;
-    let imageUrl: string | null = null;
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const supabase = supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
 
-    // Try Hugging Face first if API key is available
-    if (HUGGINGFACE_API_KEY) {
-      console.log("🎨 Generating image with Hugging Face...");
-      
-      try {
-        // Using Stable Diffusion XL for high quality images
-        const hfResponse = await fetch(
-          "https://api-inference.huggingface.co/models/stabilityai/stable-diffusion-xl-base-1.0",
-          {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${HUGGINGFACE_API_KEY}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              inputs: imagePrompt,
-              parameters: {
-                width: 1024,
-                height: 1024,
-                num_inference_steps: 30,
-                guidance_scale: 7.5,
-              },
-            }),
-          }
-        );
+    // Providers by priority (ai_providers); falls through on 429/402 and loading models
+    let providers = DEFAULT_PROVIDERS;
+    if (supabase) {
+      const { data: rows, error: providersError } = await supabase
+        .from("ai_providers")
+        .select("id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, models, priority, is_enabled");
+      if (providersError) console.warn("⚠️ Failed to load AI providers, using defaults:", providersError.message);
+      providers = providersFromRows(rows as AIProviderRow[] | null);
+    }
 
-        if (hfResponse.ok) {
-          const contentType = hfResponse.headers.get("content-type");
-          
-          if (contentType?.includes("image")) {
-            // Response is binary image data
-            const arrayBuffer = await hfResponse.arrayBuffer();
-            const uint8Array = new Uint8Array(arrayBuffer);
-            
-            // Convert to base64
-            let binary = '';
-            for (let i = 0; i < uint8Array.length; i++) {
-              binary += String.fromCharCode(uint8Array[i]);
-            }
-            imageBase64 = btoa(binary);
-            
-            console.log("✅ Hugging Face image generated successfully");
-            
-            // Upload to Supabase Storage for persistence
-            const supabaseUrl = Deno.env.get("SUPABASE_URL");
-            const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-            
-            if (supabaseUrl && supabaseKey) {
-              const supabase = createClient(supabaseUrl, supabaseKey);
-              
-              const fileName = `hf-${Date.now()}-${Math.random().toString(36).substring(7)}.png`;
-              
-              const { data: uploadData, error: uploadError } = await supabase.storage
-                .from("post-images")
-                .upload(fileName, uint8Array, {
-                  contentType: "image/png",
-                  upsert: false,
-                });
-              
-              if (!uploadError && uploadData) {
-                const { data: publicUrl } = supabase.storage
-                  .from("post-images")
-                  .getPublicUrl(fileName);
-                
-                imageUrl = publicUrl.publicUrl;
-                console.log("✅ Image uploaded to storage:", imageUrl);
-              } else {
-                console.warn("⚠️ Failed to upload to storage:", uploadError);
-                // Fall back to base64 data URL
-                imageUrl = `data:image/png;base64,${imageBase64}`;
-              }
-            } else {
-              // No storage configured, use base64
-              imageUrl = `data:image/png;base64,${imageBase64}`;
-            }
-          } else {
-            // Response might be JSON (error or loading message)
-            const jsonResponse = await hfResponse.json();
-            console.warn("⚠️ Hugging Face returned non-image response:", jsonResponse);
-            
-            // Check if model is loading
-            if (jsonResponse.error?.includes("loading")) {
-              console.log("⏳ Model is loading, falling back to Lovable AI...");
-            }
-          }
-        } else {
-          const errorText = await hfResponse.text();
-          console.error("❌ Hugging Face API error:", hfResponse.status, errorText);
-          
-          if (hfResponse.status === 429) {
-            console.log("⚠️ Rate limited, falling back to Lovable AI...");
-          }
-        }
-      } catch (hfError) {
-        console.error("❌ Hugging Face request failed:", hfError);
+    let image;
+    try {
+      image = await generateImage(imagePrompt, { providers, getEnv: (key) => Deno.env.get(key) });
+    } catch (error) {
+      if (error instanceof LLMProviderError && error.status === 429) {
+        return new Response(JSON.stringify({ error: "Rate limits exceeded. Please wait a moment." }), {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (error instanceof LLMProviderError && error.status === 402) {
+        return new Response(JSON.stringify({ error: "AI credits low. Please add credits." }), {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
       }
+      console.error("❌ No image generated from any provider:", error);
+      throw new Error("Failed to generate image from any provider");
     }
 
-    // Fallback to Lovable AI if Hugging Face didn't work
-    if (!imageUrl && LOVABLE_API_KEY) {
-      console.log("🔄 Falling back to Lovable AI Gateway...");
-      
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-3-pro-image-preview",
-          messages: [
-            {
-              role: "user",
-              content: imagePrompt
-            }
-          ],
-          modalities: ["image", "text"]
-        }),
-      });
+    let imageUrl = image.url;
 
-      if (!response.ok) {
-        const status = response.status;
-        if (status === 429) {
-          return new Response(JSON.stringify({ error: "Rate limits exceeded. Please wait a moment." }), {
-            status: 429,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-        if (status === 402) {
-          return new Response(JSON.stringify({ error: "AI credits low. Please add credits." }), {
-            status: 402,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
+    // Binary results are uploaded to Supabase Storage for persistence
+    if (!imageUrl && image.bytes) {
+      if (supabase) {
+        const fileName = `${image.provider}-${Date.now()}-${Math.random().toString(36).substring(7)}.png`;
+
+        const { data: uploadData, error: uploadError } = await supabase.storage
+          .from("post-images")
+          .upload(fileName, image.bytes, {
+            contentType: image.contentType,
+            upsert: false,
           });
+
+        if (!uploadError && uploadData) {
+          const { data: publicUrl } = supabase.storage
+            .from("post-images")
+            .getPublicUrl(fileName);
+
+          imageUrl = publicUrl.publicUrl;
+          console.log("✅ Image uploaded to storage:", imageUrl);
+        } else {
+          console.warn("⚠️ Failed to upload to storage:", uploadError);
         }
-        const errorText = await response.text();
-        console.error("Image generation failed:", status, errorText);
-        throw new Error(`Image generation failed: ${status}`);
       }
 
-      const data = await response.json();
-      imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-      
-      if (imageUrl) {
-        console.log("✅ Lovable AI image generated successfully");
+      // No storage (or upload failed): fall back to a base64 data URL
+      if (!imageUrl) {
+        let binary = '';
+        for (let i = 0; i < image.bytes.length; i++) {
+          binary += String.fromCharCode(image.bytes[i]);
+        }
+        imageUrl = `data:${image.contentType};base64,${btoa(binary)}`;
       }
     }
 
-    if (!imageUrl) {
-      console.error("❌ No image generated from any provider");
-      throw new Error("Failed to generate image from any provider");
-    }
+    console.log(`✅ Image generated with ${image.provider} (${image.model})`);
 
     return new Response(JSON.stringify({
       success: true,
       imageUrl: imageUrl,
-      provider: imageBase64 ? "huggingface" : "lovable",
+      provider: image.provider,
       message: "Image generated successfully!"
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,574 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getZonedDateKey, getZonedParts, resolveTimeZone, zonedTimeToUtc } from "../_shared/timezone.ts";
+import { occurrencesBetween, type RecurrenceRule } from "../_shared/recurrence.ts";
+import { getPlanLimits } from "../_shared/postingLimits.ts";
+import { embedTrackingId, generatePostTrackingId } from "../_shared/postTracking.ts";
+import {
+  chatCompletion,
+  preferenceFromSettings,
+  providersFromRows,
+  type AIProviderRow,
+  type LLMProviderConfig,
+  type ProviderCallOptions,
+} from "../_shared/llmProviders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * Expands active post series into pending posts ahead of time.
+ *
+ * - Called on a schedule with the service role key: every active series whose
+ *   lookahead window isn't filled yet.
+ * - Called from the web app with a user JWT: only that user's series
+ *   (optionally a single `seriesId`, e.g. right after it's created).
+ *
+ * Generated posts are plain 'pending' rows with a tracking ID, exactly like
+ * posts created in chat. The web app pushes them to the extension.
+ *
+ * Plan limits (DAILY_LIMITS / MONTHLY_LIMITS) are enforced per occurrence,
+ * counting pending + posting + posted posts in the user's timezone. An
+ * occurrence that would go over a limit is skipped, not queued.
+ */
+
+const COUNTED_STATUSES = ["pending", "posting", "posted"];
+const MAX_SERIES_PER_RUN = 100;
+
+interface SeriesRow {
+  id: string;
+  user_id: string;
+  agent_id: string;
+  name: string;
+  kind: "recurring" | "evergreen";
+  recurrence_rule: RecurrenceRule;
+  timezone: string;
+  topics: string[];
+  next_topic_index: number;
+  content_template: string | null;
+  reword_with_ai: boolean;
+  cooldown_days: number;
+  lookahead_days: number;
+  generated_until: string | null;
+}
+
+interface ProfileRow {
+  name: string | null;
+  role: string | null;
+  company_name: string | null;
+  industry: string | null;
+  target_audience: string | null;
+  preferred_tone: string | null;
+  timezone: string | null;
+}
+
+// Shared by every series posting into the workspace during one run
+interface WorkspaceLimits {
+  timeZone: string;
+  daily: number;
+  monthly: number;
+  dayCounts: Map<string, number>;
+  monthCounts: Map<string, number>;
+}
+
+interface EvergreenCandidate {
+  id: string;
+  content: string;
+  photo_url: string | null;
+  score: number;
+}
+
+interface SeriesRunSummary {
+  created: number;
+  skipped: { time: string; reason: string }[];
+  failed: { time: string; error: string }[];
+}
+
+// ============================================
+// AI
+// ============================================
+// Providers come from ai_providers; the agent's own model choice goes first
+type AIOptions = Pick<ProviderCallOptions, "providers" | "preference">;
+
+async function loadProviders(supabase: SupabaseClient): Promise<LLMProviderConfig[]> {
+  const { data, error } = await supabase
+    .from("ai_providers")
+    .select("id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, models, priority, is_enabled");
+  if (error) console.warn("Failed to load AI providers, using defaults:", error.message);
+  return providersFromRows(data as AIProviderRow[] | null);
+}
+
+async function callAI(systemPrompt: string, prompt: string, ai: AIOptions): Promise<string> {
+  const { message } = await chatCompletion(
+    {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: prompt },
+      ],
+    },
+    { ...ai, getEnv: (key) => Deno.env.get(key) }
+  );
+
+  if (!message.content) throw new Error("Invalid AI response format");
+  return cleanPostContent(message.content);
+}
+
+function cleanPostContent(content: string): string {
+  return content
+    .replace(/^```[\w]*\n/gm, "")
+    .replace(/\n```$/gm, "")
+    .replace(/\*\*\*([^*]+)\*\*\*/g, "$1")
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^---\s*$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function buildSystemPrompt(agentType: string, profile: ProfileRow | null): string {
+  const identity = [
+    profile?.name && `- Name: ${profile.name}`,
+    profile?.role && `- Role/Title: ${profile.role}`,
+    profile?.company_name && `- Company: ${profile.company_name}`,
+    profile?.industry && `- Industry: ${profile.industry}`,
+    profile?.target_audience && `- Audience: ${profile.target_audience}`,
+    profile?.preferred_tone && `- Preferred tone: ${profile.preferred_tone}`,
+  ].filter(Boolean).join("\n");
+
+  return `You are a ${agentType.toUpperCase()} LinkedIn content agent writing AS this person:
+${identity || "No profile data available - use neutral framing"}
+
+Rules:
+- Return ONLY the post text, no preamble, no quotes, no markdown
+- 120-250 words, short paragraphs, sound like a human, not a brand
+- At most 3 hashtags, at the end`;
+}
+
+// ============================================
+// PLAN LIMITS
+// ============================================
+// The workspace a series' posts land in: its agent's, as set_row_workspace
+// assigns them, falling back to the author's default workspace
+async function seriesWorkspaceId(supabase: SupabaseClient, series: SeriesRow): Promise<string> {
+  const { data: agent } = await supabase
+    .from("agents")
+    .select("workspace_id")
+    .eq("id", series.agent_id)
+    .maybeSingle();
+  if (agent?.workspace_id) return agent.workspace_id;
+
+  const { data: workspaceId, error } = await supabase.rpc("default_workspace_id", { p_user_id: series.user_id });
+  if (error) throw error;
+  return workspaceId as string;
+}
+
+async function loadProfile(supabase: SupabaseClient, userId: string): Promise<ProfileRow | null> {
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("name, role, company_name, industry, target_audience, preferred_tone, timezone")
+    .eq("user_id", userId)
+    .maybeSingle();
+  return profile as ProfileRow | null;
+}
+
+// Limits come from the workspace's plan and count the workspace's posts, by
+// day and month in the workspace owner's time zone
+async function loadWorkspaceLimits(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  windowStart: Date
+): Promise<WorkspaceLimits> {
+  const { data: workspace } = await supabase
+    .from("workspaces")
+    .select("owner_id, subscription_plan, subscription_expires_at")
+    .eq("id", workspaceId)
+    .maybeSingle();
+
+  const { data: owner } = workspace
+    ? await supabase.from("user_profiles").select("timezone").eq("user_id", workspace.owner_id).maybeSingle()
+    : { data: null };
+
+  const timeZone = resolveTimeZone(owner?.timezone);
+  const { daily, monthly } = getPlanLimits(workspace?.subscription_plan, workspace?.subscription_expires_at, windowStart);
+
+  // Count from the start of the month the window begins in
+  const start = getZonedParts(windowStart, timeZone);
+  const monthStart = zonedTimeToUtc(start.year, start.month, 1, 0, 0, timeZone).toISOString();
+
+  const { data: posts, error } = await supabase
+    .from("posts")
+    .select("scheduled_time, posted_at, created_at")
+    .eq("workspace_id", workspaceId)
+    .in("status", COUNTED_STATUSES)
+    .or(`scheduled_time.gte.${monthStart},posted_at.gte.${monthStart}`);
+
+  if (error) throw error;
+
+  const dayCounts = new Map<string, number>();
+  const monthCounts = new Map<string, number>();
+  for (const post of posts || []) {
+    const when = post.scheduled_time || post.posted_at || post.created_at;
+    const dayKey = getZonedDateKey(new Date(when), timeZone);
+    const monthKey = dayKey.slice(0, 7);
+    dayCounts.set(dayKey, (dayCounts.get(dayKey) || 0) + 1);
+    monthCounts.set(monthKey, (monthCounts.get(monthKey) || 0) + 1);
+  }
+
+  return { timeZone, daily, monthly, dayCounts, monthCounts };
+}
+
+function limitReason(state: WorkspaceLimits, occurrence: string): string | null {
+  const dayKey = getZonedDateKey(new Date(occurrence), state.timeZone);
+  if ((state.dayCounts.get(dayKey) || 0) >= state.daily) {
+    return `Daily limit of ${state.daily} reached for ${dayKey}`;
+  }
+  if ((state.monthCounts.get(dayKey.slice(0, 7)) || 0) >= state.monthly) {
+    return `Monthly limit of ${state.monthly} reached for ${dayKey.slice(0, 7)}`;
+  }
+  return null;
+}
+
+function recordUsage(state: WorkspaceLimits, occurrence: string) {
+  const dayKey = getZonedDateKey(new Date(occurrence), state.timeZone);
+  state.dayCounts.set(dayKey, (state.dayCounts.get(dayKey) || 0) + 1);
+  state.monthCounts.set(dayKey.slice(0, 7), (state.monthCounts.get(dayKey.slice(0, 7)) || 0) + 1);
+}
+
+// ============================================
+// EVERGREEN POOL
+// ============================================
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Past top performers that are out of cooldown, best first. A post is out of
+ * cooldown when it was published more than `cooldown_days` ago and hasn't been
+ * recycled (queued or published) within that window either.
+ */
+async function loadEvergreenCandidates(
+  supabase: SupabaseClient,
+  series: SeriesRow,
+  now: Date
+): Promise<EvergreenCandidate[]> {
+  const cutoff = new Date(now.getTime() - series.cooldown_days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: analytics, error: analyticsError } = await supabase
+    .from("post_analytics")
+    .select("post_id, views, likes, comments, shares")
+    .eq("user_id", series.user_id)
+    .limit(500);
+
+  if (analyticsError) throw analyticsError;
+
+  const scores = new Map<string, number>();
+  for (const row of analytics || []) {
+    if (!UUID_PATTERN.test(row.post_id)) continue;
+    const score = (row.likes || 0) + (row.comments || 0) * 2 + (row.shares || 0) * 3 + (row.views || 0) / 100;
+    if (score > 0) scores.set(row.post_id, score);
+  }
+  if (scores.size === 0) return [];
+
+  const { data: originals, error: postsError } = await supabase
+    .from("posts")
+    .select("id, content, photo_url")
+    .eq("user_id", series.user_id)
+    .eq("status", "posted")
+    .is("recycled_from_post_id", null)
+    .lte("posted_at", cutoff)
+    .in("id", [...scores.keys()]);
+
+  if (postsError) throw postsError;
+  if (!originals?.length) return [];
+
+  // Drop anything recycled recently or still waiting in the queue
+  const { data: recycles, error: recyclesError } = await supabase
+    .from("posts")
+    .select("recycled_from_post_id, status, scheduled_time, posted_at")
+    .in("recycled_from_post_id", originals.map(p => p.id));
+
+  if (recyclesError) throw recyclesError;
+
+  const cooling = new Set<string>();
+  for (const recycle of recycles || []) {
+    const when = recycle.posted_at || recycle.scheduled_time;
+    if (recycle.status === "pending" || recycle.status === "posting" || (when && when > cutoff)) {
+      cooling.add(recycle.recycled_from_post_id);
+    }
+  }
+
+  return originals
+    .filter(p => !cooling.has(p.id))
+    .map(p => ({ id: p.id, content: p.content, photo_url: p.photo_url, score: scores.get(p.id) || 0 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// ============================================
+// CONTENT
+// ============================================
+async function buildRecurringContent(
+  series: SeriesRow,
+  agentType: string,
+  profile: ProfileRow | null,
+  topicIndex: number,
+  ai: AIOptions
+): Promise<string> {
+  const systemPrompt = buildSystemPrompt(agentType, profile);
+
+  if (series.topics.length > 0) {
+    const topic = series.topics[topicIndex % series.topics.length];
+    const guide = series.content_template
+      ? `\n\nFollow this format/template:\n${series.content_template}`
+      : "";
+    return callAI(systemPrompt, `Write a LinkedIn post about: ${topic}${guide}`, ai);
+  }
+
+  if (!series.content_template) {
+    throw new Error("Series has no topics or template");
+  }
+  if (!series.reword_with_ai) return series.content_template;
+
+  return callAI(
+    systemPrompt,
+    `Rewrite this recurring LinkedIn post so it reads fresh this time. Keep the message and any fixed sections, change the wording and opening hook:\n\n${series.content_template}`,
+    ai
+  );
+}
+
+async function buildEvergreenContent(
+  series: SeriesRow,
+  agentType: string,
+  profile: ProfileRow | null,
+  original: EvergreenCandidate,
+  ai: AIOptions
+): Promise<string> {
+  if (!series.reword_with_ai) return original.content;
+
+  return callAI(
+    buildSystemPrompt(agentType, profile),
+    `This post performed well before. Rewrite it so it is NOT a duplicate: new opening hook, different sentence structure and wording, same core idea and takeaway. Do not mention that it is a repost.\n\n${original.content}`,
+    ai
+  );
+}
+
+// ============================================
+// SERIES EXPANSION
+// ============================================
+async function expandSeries(
+  supabase: SupabaseClient,
+  series: SeriesRow,
+  limits: WorkspaceLimits,
+  profile: ProfileRow | null,
+  providers: LLMProviderConfig[],
+  now: Date
+): Promise<SeriesRunSummary> {
+  const summary: SeriesRunSummary = { created: 0, skipped: [], failed: [] };
+
+  const { data: agent } = await supabase
+    .from("agents")
+    .select("id, name, type, is_active, posts_scheduled, settings")
+    .eq("id", series.agent_id)
+    .maybeSingle();
+
+  if (!agent?.is_active) {
+    console.log(`⏸️ Series ${series.id}: agent inactive, skipping`);
+    return summary;
+  }
+
+  const ai: AIOptions = { providers, preference: preferenceFromSettings(agent.settings) };
+
+  const from = series.generated_until && new Date(series.generated_until) > now
+    ? new Date(series.generated_until)
+    : now;
+  const until = new Date(now.getTime() + series.lookahead_days * 24 * 60 * 60 * 1000);
+  const occurrences = occurrencesBetween(series.recurrence_rule, from, until, series.timezone);
+
+  let topicIndex = series.next_topic_index;
+  let evergreenPool: EvergreenCandidate[] | null = null;
+  // Stop at the first occurrence that failed for a retryable reason so the next run picks it up
+  let generatedUntil = until.toISOString();
+
+  for (const occurrence of occurrences) {
+    const overLimit = limitReason(limits, occurrence);
+    if (overLimit) {
+      summary.skipped.push({ time: occurrence, reason: overLimit });
+      continue;
+    }
+
+    let content: string;
+    let photoUrl: string | null = null;
+    let recycledFrom: string | null = null;
+
+    try {
+      if (series.kind === "evergreen") {
+        if (!evergreenPool) evergreenPool = await loadEvergreenCandidates(supabase, series, now);
+        const original = evergreenPool.shift();
+        if (!original) {
+          summary.skipped.push({ time: occurrence, reason: "No top performers out of cooldown" });
+          continue;
+        }
+        content = await buildEvergreenContent(series, agent.type, profile, original, ai);
+        photoUrl = original.photo_url;
+        recycledFrom = original.id;
+      } else {
+        content = await buildRecurringContent(series, agent.type, profile, topicIndex, ai);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Series ${series.id} content failed for ${occurrence}:`, message);
+      summary.failed.push({ time: occurrence, error: message });
+      generatedUntil = new Date(new Date(occurrence).getTime() - 1000).toISOString();
+      break;
+    }
+
+    const trackingId = generatePostTrackingId();
+    const { error: insertError } = await supabase
+      .from("posts")
+      .insert({
+        user_id: series.user_id,
+        content,
+        content_with_tracking: embedTrackingId(content, trackingId),
+        tracking_id: trackingId,
+        photo_url: photoUrl,
+        status: "pending",
+        scheduled_time: occurrence,
+        agent_id: agent.id,
+        agent_name: agent.name,
+        series_id: series.id,
+        recycled_from_post_id: recycledFrom,
+        retry_count: 0,
+      });
+
+    if (insertError) {
+      // 23505: another run already queued this occurrence
+      if (insertError.code === "23505") {
+        summary.skipped.push({ time: occurrence, reason: "Already queued" });
+        continue;
+      }
+      console.error(`❌ Series ${series.id} insert failed for ${occurrence}:`, insertError);
+      summary.failed.push({ time: occurrence, error: insertError.message });
+      generatedUntil = new Date(new Date(occurrence).getTime() - 1000).toISOString();
+      break;
+    }
+
+    recordUsage(limits, occurrence);
+    if (series.kind === "recurring") topicIndex++;
+    summary.created++;
+  }
+
+  await supabase
+    .from("post_series")
+    .update({
+      generated_until: generatedUntil,
+      next_topic_index: topicIndex,
+      last_run_at: now.toISOString(),
+      last_run_summary: summary,
+    })
+    .eq("id", series.id);
+
+  if (summary.created > 0) {
+    await supabase
+      .from("agents")
+      .update({ posts_scheduled: agent.posts_scheduled + summary.created })
+      .eq("id", agent.id);
+  }
+
+  console.log(`✅ Series ${series.id} (${series.name}):`, {
+    created: summary.created,
+    skipped: summary.skipped.length,
+    failed: summary.failed.length,
+  });
+
+  return summary;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+    const token = authHeader.replace("Bearer ", "");
+
+    // Scheduled runs use the service role key; everyone else only touches their own series
+    let userId: string | null = null;
+    if (token !== serviceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      userId = user.id;
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const seriesId: string | undefined = body?.seriesId;
+    const now = new Date();
+
+    let query = supabase
+      .from("post_series")
+      .select("*")
+      .eq("is_active", true)
+      .limit(MAX_SERIES_PER_RUN);
+
+    if (userId) query = query.eq("user_id", userId);
+    if (seriesId) query = query.eq("id", seriesId);
+
+    const { data: seriesRows, error: seriesError } = await query;
+    if (seriesError) throw seriesError;
+
+    console.log(`🔁 Expanding ${seriesRows?.length || 0} series (${userId ? `user ${userId}` : "scheduled run"})`);
+
+    const providers = await loadProviders(supabase);
+    const workspaceLimits = new Map<string, WorkspaceLimits>();
+    const profiles = new Map<string, ProfileRow | null>();
+    const results: Record<string, SeriesRunSummary> = {};
+
+    for (const series of (seriesRows || []) as SeriesRow[]) {
+      try {
+        const workspaceId = await seriesWorkspaceId(supabase, series);
+        let limits = workspaceLimits.get(workspaceId);
+        if (!limits) {
+          limits = await loadWorkspaceLimits(supabase, workspaceId, now);
+          workspaceLimits.set(workspaceId, limits);
+        }
+        if (!profiles.has(series.user_id)) {
+          profiles.set(series.user_id, await loadProfile(supabase, series.user_id));
+        }
+        results[series.id] = await expandSeries(supabase, series, limits, profiles.get(series.user_id) ?? null, providers, now);
+      } catch (error) {
+        console.error(`❌ Series ${series.id} failed:`, error);
+        results[series.id] = {
+          created: 0,
+          skipped: [],
+          failed: [{ time: now.toISOString(), error: error instanceof Error ? error.message : "Unknown error" }],
+        };
+      }
+    }
+
+    const created = Object.values(results).reduce((sum, r) => sum + r.created, 0);
+
+    return new Response(
+      JSON.stringify({ success: true, created, series: results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("❌ generate-series-posts error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
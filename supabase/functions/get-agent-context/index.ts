@@ -1,5 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildContentInsights, type InsightPost } from "../_shared/contentInsights.ts";
+import { resolveTimeZone } from "../_shared/timezone.ts";
+import {
+  MAX_STYLE_POSTS,
+  analyzeWritingStyle,
+  describeStyleProfile,
+  isCurrentStyleProfile,
+  styleProfileColumns,
+  type StyleProfile,
+} from "../_shared/styleFingerprint.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -51,7 +61,7 @@ serve(async (req) => {
     }
 
     // Fetch writing style
-    const { data: writingStyle, error: styleError } = await supabase
+    const { data: storedStyle, error: styleError } = await supabase
       .from("user_writing_style")
       .select("*")
       .eq("user_id", userId)
@@ -61,6 +71,31 @@ serve(async (req) => {
       console.error("Writing style fetch error:", styleError);
     }
 
+    // Profiles from an older analyzer (or none at all) are rebuilt from the history
+    let writingStyle = storedStyle;
+    let styleProfile: StyleProfile | null = isCurrentStyleProfile(storedStyle?.style_profile)
+      ? storedStyle.style_profile
+      : null;
+    if (!styleProfile && !styleError) {
+      const { data: history } = await supabase
+        .from("linkedin_post_history")
+        .select("post_content")
+        .eq("user_id", userId)
+        .order("post_date", { ascending: false, nullsFirst: false })
+        .limit(MAX_STYLE_POSTS);
+
+      styleProfile = analyzeWritingStyle((history || []).map(p => p.post_content));
+      if (styleProfile) {
+        const columns = styleProfileColumns(styleProfile);
+        const { error: saveError } = await supabase
+          .from("user_writing_style")
+          .upsert({ user_id: userId, ...columns }, { onConflict: "user_id" });
+        if (saveError) console.error("Writing style save error:", saveError);
+        writingStyle = { ...storedStyle, ...columns };
+        console.log("🎨 Style profile rebuilt from", styleProfile.postsAnalyzed, "posts");
+      }
+    }
+
     // Fetch recent posts (last 20)
     const { data: recentPosts, error: postsError } = await supabase
       .from("linkedin_post_history")
@@ -73,6 +108,32 @@ serve(async (req) => {
       console.error("Recent posts fetch error:", postsError);
     }
 
+    // Our own published posts carry image and agent, which scraped history lacks
+    const { data: publishedPosts, error: publishedError } = await supabase
+      .from("posts")
+      .select("content, photo_url, posted_at, linkedin_post_url, views_count, likes_count, comments_count, shares_count, agents(type)")
+      .eq("user_id", userId)
+      .eq("status", "posted")
+      .gt("views_count", 0)
+      .order("posted_at", { ascending: false })
+      .limit(200);
+
+    if (publishedError) {
+      console.error("Published posts fetch error:", publishedError);
+    }
+
+    const { data: scrapedPosts, error: scrapedError } = await supabase
+      .from("linkedin_post_history")
+      .select("post_content, post_date, linkedin_url, views, likes, comments, shares")
+      .eq("user_id", userId)
+      .gt("views", 0)
+      .order("post_date", { ascending: false })
+      .limit(200);
+
+    if (scrapedError) {
+      console.error("Scraped posts fetch error:", scrapedError);
+    }
+
     // Fetch analytics summary
     const { data: analytics, error: analyticsError } = await supabase
       .from("linkedin_analytics")
@@ -86,6 +147,33 @@ serve(async (req) => {
       console.error("Analytics fetch error:", analyticsError);
     }
 
+    const publishedUrls = new Set((publishedPosts || []).map(p => p.linkedin_post_url).filter(Boolean));
+    const insightPosts: InsightPost[] = [
+      ...(publishedPosts || []).map(p => ({
+        content: p.content || "",
+        views: p.views_count || 0,
+        likes: p.likes_count || 0,
+        comments: p.comments_count || 0,
+        shares: p.shares_count || 0,
+        hasImage: !!p.photo_url,
+        agentType: (p.agents as { type: string } | null)?.type || null,
+        postedAt: p.posted_at,
+      })),
+      ...(scrapedPosts || [])
+        .filter(p => !p.linkedin_url || !publishedUrls.has(p.linkedin_url))
+        .map(p => ({
+          content: p.post_content || "",
+          views: p.views || 0,
+          likes: p.likes || 0,
+          comments: p.comments || 0,
+          shares: p.shares || 0,
+          hasImage: null,
+          agentType: null,
+          postedAt: p.post_date,
+        })),
+    ];
+    const insights = buildContentInsights(insightPosts, resolveTimeZone(profile?.timezone));
+
     // Build AI context object
     const agentContext = {
       profile: profile ? {
@@ -101,6 +189,7 @@ serve(async (req) => {
         background: profile.background,
         postingGoals: profile.posting_goals,
         preferredTone: profile.preferred_tone,
+        timezone: profile.timezone,
       } : null,
       writingStyle: writingStyle ? {
         avgPostLength: writingStyle.avg_post_length,
@@ -109,6 +198,7 @@ serve(async (req) => {
         emojiUsage: writingStyle.emoji_usage,
         hashtagStyle: writingStyle.hashtag_style,
         totalPostsAnalyzed: writingStyle.total_posts_analyzed,
+        styleProfile,
       } : null,
       recentPosts: recentPosts?.map(p => ({
         content: p.post_content?.substring(0, 500),
@@ -125,6 +215,7 @@ serve(async (req) => {
         connectionsCount: analytics.connections_count,
         lastSynced: analytics.last_synced,
       } : null,
+      insights,
       timestamp: new Date().toISOString(),
     };
 
@@ -155,7 +246,7 @@ serve(async (req) => {
 });
 
 function buildAIInstructions(context: any): string {
-  const { profile, writingStyle, recentPosts } = context;
+  const { profile, writingStyle, recentPosts, insights } = context;
 
   let instructions = "";
 
@@ -177,11 +268,21 @@ function buildAIInstructions(context: any): string {
     instructions += `- Target Audience: ${profile.targetAudience || "General professional audience"}\n`;
     instructions += `- Posting Goals: ${profile.postingGoals?.join(", ") || "Build presence"}\n`;
     instructions += `- Default Topics: ${profile.defaultTopics?.join(", ") || "General professional topics"}\n`;
+    if (profile.timezone) {
+      instructions += `- Timezone: ${profile.timezone} (all times the user mentions are in this timezone)\n`;
+    }
     instructions += `\n`;
   }
 
-  // Add writing style context
-  if (writingStyle) {
+  // Add writing style context: the measured fingerprint when there is one
+  if (writingStyle?.styleProfile) {
+    const profile: StyleProfile = writingStyle.styleProfile;
+    instructions += `WRITING STYLE FINGERPRINT (measured from ${profile.postsAnalyzed} of their posts, v${profile.version}):\n`;
+    describeStyleProfile(profile).forEach(line => {
+      instructions += `- ${line}\n`;
+    });
+    instructions += `\n`;
+  } else if (writingStyle) {
     instructions += `WRITING STYLE ANALYSIS:\n`;
     instructions += `- Average post length: ${writingStyle.avgPostLength || 150} words\n`;
     instructions += `- Tone: ${writingStyle.toneAnalysis?.tone || "professional"}\n`;
@@ -210,11 +311,24 @@ function buildAIInstructions(context: any): string {
     instructions += `\n`;
   }
 
+  // Add what has worked for this user's audience
+  if (insights?.findings?.length > 0) {
+    instructions += `WHAT WORKS FOR THIS AUDIENCE (from ${insights.sampleSize} of their posts):\n`;
+    insights.findings.forEach((finding: { text: string; posts: number }) => {
+      instructions += `- ${finding.text} (${finding.posts} posts)\n`;
+    });
+    instructions += `- Lean into what performs better and away from what performs worse, without copying old posts\n`;
+    instructions += `\n`;
+  }
+
   // Add general instructions
   instructions += `REQUIREMENTS:\n`;
   instructions += `- Match the user's writing style and voice\n`;
   
-  if (writingStyle?.avgPostLength) {
+  if (writingStyle?.styleProfile) {
+    instructions += `- Target length: around ${writingStyle.styleProfile.words.median} words\n`;
+    instructions += `- Follow the fingerprint's sentence length, line breaks, openings and endings\n`;
+  } else if (writingStyle?.avgPostLength) {
     instructions += `- Target length: around ${writingStyle.avgPostLength} words\n`;
   }
   
@@ -1,11 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { alignByAge, postGrowth, type AnalyticsPoint } from "../_shared/analyticsSeries.ts";
+import { buildContentInsights } from "../_shared/contentInsights.ts";
+import { resolveTimeZone } from "../_shared/timezone.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Posts overlaid in the comparison chart
+const MAX_COMPARE = 5;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -36,6 +42,11 @@ serve(async (req) => {
     }
 
     const userId = user.id;
+    // Body is optional: { compare?: string[] } picks the posts to overlay
+    const body = await req.json().catch(() => ({}));
+    const compareIds: string[] = Array.isArray(body?.compare)
+      ? body.compare.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
 
     console.log('📊 Fetching analytics for user:', userId);
 
@@ -55,7 +66,7 @@ serve(async (req) => {
     // The extension now updates posts table directly with views_count, likes_count, etc.
     const { data: postsWithAnalytics, error: postsError } = await supabase
       .from('posts')
-      .select('id, content, linkedin_post_url, views_count, likes_count, comments_count, shares_count, last_synced_at, posted_at, status')
+      .select('id, content, photo_url, linkedin_post_url, views_count, likes_count, comments_count, shares_count, last_synced_at, posted_at, status, agents(type)')
       .eq('user_id', userId)
       .eq('status', 'posted')
       .not('linkedin_post_url', 'is', null)
@@ -67,6 +78,35 @@ serve(async (req) => {
       throw postsError;
     }
 
+    // Every scrape of these posts, oldest first (recorded by a trigger on posts)
+    const postIds = (postsWithAnalytics || []).map(post => post.id);
+    const historyByPost = new Map<string, AnalyticsPoint[]>();
+    if (postIds.length > 0) {
+      const { data: history, error: historyError } = await supabase
+        .from('post_analytics_history')
+        .select('post_id, views, likes, comments, shares, synced_at')
+        .in('post_id', postIds)
+        .order('synced_at', { ascending: true });
+
+      if (historyError) {
+        console.error('History fetch error:', historyError);
+        throw historyError;
+      }
+
+      for (const row of history || []) {
+        if (!row.post_id) continue;
+        const points = historyByPost.get(row.post_id) || [];
+        points.push({
+          syncedAt: row.synced_at,
+          views: row.views || 0,
+          likes: row.likes || 0,
+          comments: row.comments || 0,
+          shares: row.shares || 0,
+        });
+        historyByPost.set(row.post_id, points);
+      }
+    }
+
     // Transform posts data to match the expected analytics format
     const posts = (postsWithAnalytics || []).map(post => ({
       id: post.id,
@@ -80,8 +120,47 @@ serve(async (req) => {
       shares: post.shares_count || 0,
       post_timestamp: post.posted_at,
       scraped_at: post.last_synced_at,
+      growth: postGrowth(historyByPost.get(post.id) || [], post.posted_at),
     }));
 
+    // Overlay: requested posts, else the most recent ones, aligned by age
+    const published = (postsWithAnalytics || []).filter(post => post.posted_at);
+    const requested = published.filter(post => compareIds.includes(post.id));
+    const compared = (requested.length > 0 ? requested : published).slice(0, MAX_COMPARE);
+    const comparison = {
+      posts: compared.map(post => ({
+        id: post.id,
+        content_preview: post.content?.substring(0, 80) || null,
+        posted_at: post.posted_at,
+      })),
+      rows: alignByAge(compared.map(post => ({
+        id: post.id,
+        publishedAt: post.posted_at as string,
+        points: historyByPost.get(post.id) || [],
+      }))),
+    };
+
+    // What the user's best-performing posts have in common
+    const { data: userProfile } = await supabase
+      .from('user_profiles')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const insights = buildContentInsights(
+      (postsWithAnalytics || []).map(post => ({
+        content: post.content || '',
+        views: post.views_count || 0,
+        likes: post.likes_count || 0,
+        comments: post.comments_count || 0,
+        shares: post.shares_count || 0,
+        hasImage: !!post.photo_url,
+        agentType: (post.agents as { type: string } | null)?.type || null,
+        postedAt: post.posted_at,
+      })),
+      resolveTimeZone(userProfile?.timezone)
+    );
+
     // Calculate last sync time from most recent post
     const lastSyncTime = posts.length > 0 && posts[0].scraped_at 
       ? posts[0].scraped_at 
@@ -93,7 +172,9 @@ serve(async (req) => {
       success: true,
       analytics: {
         profile: profile || null,
-        posts: posts
+        posts: posts,
+        comparison,
+        insights,
       },
       lastSync: lastSyncTime
     }), {
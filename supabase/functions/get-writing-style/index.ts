@@ -95,6 +95,7 @@ serve(async (req) => {
         usesHashtags: writingStyle.tone_analysis?.usesHashtags || false,
         avgHashtagsPerPost: writingStyle.tone_analysis?.avgHashtagsPerPost || 0,
         totalPostsAnalyzed: writingStyle.total_posts_analyzed || 0,
+        styleProfile: writingStyle.style_profile || null,
       } : null,
       examplePosts: recentPosts || [],
       aiInstructions,
@@ -0,0 +1,251 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+import {
+  chunkDocument,
+  docxXmlToMarkdown,
+  embeddingInput,
+  htmlToMarkdown,
+  type ReferenceSection,
+} from "../_shared/referenceChunks.ts";
+import {
+  LLMProviderError,
+  embedTexts,
+  providersFromRows,
+  type AIProviderRow,
+} from "../_shared/llmProviders.ts";
+import { fetchPublicUrl, readBodyCapped } from "../_shared/publicFetch.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Bigger files are almost always scans or exports we can't chunk usefully
+const MAX_SOURCE_BYTES = 15 * 1024 * 1024;
+// ~400k words; enough for a large company handbook
+const MAX_CHUNKS = 2000;
+const EMBEDDING_BATCH = 64;
+const INSERT_BATCH = 200;
+
+interface MaterialRow {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  title: string;
+  content: string;
+  source: string;
+  source_url: string | null;
+  file_path: string | null;
+}
+
+// Both address families; a name with no records of one kind just has none
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function pdfSections(bytes: Uint8Array): Promise<ReferenceSection[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  return (text as string[]).map((pageText, i) => ({ text: pageText, page: i + 1 }));
+}
+
+function docxSections(bytes: Uint8Array): ReferenceSection[] {
+  const files = unzipSync(bytes, { filter: (file) => file.name === "word/document.xml" });
+  const xml = files["word/document.xml"];
+  if (!xml) throw new Error("Not a Word document (word/document.xml is missing)");
+  return [{ text: docxXmlToMarkdown(strFromU8(xml)) }];
+}
+
+// Text of the material, by source, plus a better title when one turns up
+async function extractSections(
+  admin: SupabaseClient,
+  material: MaterialRow
+): Promise<{ sections: ReferenceSection[]; title: string | null }> {
+  if (material.source === "text" || material.source === "markdown") {
+    return { sections: [{ text: material.content }], title: null };
+  }
+
+  if (material.source === "url") {
+    if (!material.source_url) throw new Error("A valid http(s) URL is required");
+    // Runs inside our network: only public hosts, checked again on every redirect
+    const response = await fetchPublicUrl(material.source_url, {
+      fetch,
+      resolve: resolveHost,
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; LinkedBot reference reader)" },
+      signal: AbortSignal.timeout(20000),
+    });
+    if (!response.ok) throw new Error(`The page returned ${response.status}`);
+
+    const bytes = await readBodyCapped(response, MAX_SOURCE_BYTES);
+    if (!bytes) throw new Error("The page is too large to index");
+
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("application/pdf")) {
+      return { sections: await pdfSections(bytes), title: null };
+    }
+    const body = new TextDecoder().decode(bytes);
+    if (contentType.includes("html") || /<html[\s>]/i.test(body)) {
+      const page = htmlToMarkdown(body);
+      return { sections: [{ text: page.text }], title: page.title };
+    }
+    return { sections: [{ text: body }], title: null };
+  }
+
+  if (!material.file_path) throw new Error("The uploaded file is missing");
+  // file_path is the user's to set and the download below bypasses storage
+  // policies, so it has to be inside the owner's folder
+  const ownFolder = `${material.user_id}/`;
+  if (!material.file_path.startsWith(ownFolder) || material.file_path.split("/").includes("..")) {
+    throw new Error("The uploaded file is missing");
+  }
+  const { data: file, error } = await admin.storage.from("reference-files").download(material.file_path);
+  if (error || !file) throw new Error(`Could not read the uploaded file: ${error?.message || "not found"}`);
+  if (file.size > MAX_SOURCE_BYTES) throw new Error("The file is too large to index");
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return {
+    sections: material.source === "pdf" ? await pdfSections(bytes) : docxSections(bytes),
+    title: null,
+  };
+}
+
+// Embeddings for every chunk, or none: a half-embedded material would rank
+// its embedded chunks above the rest for no reason
+async function embedChunks(
+  admin: SupabaseClient,
+  inputs: string[]
+): Promise<{ vectors: number[][]; model: string } | null> {
+  const { data: rows, error } = await admin
+    .from("ai_providers")
+    .select("id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, embedding_model, models, priority, is_enabled");
+  if (error) console.warn("Failed to load AI providers, using defaults:", error.message);
+  const providers = providersFromRows(rows as AIProviderRow[] | null);
+
+  const vectors: number[][] = [];
+  let model: string | null = null;
+  try {
+    for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH) {
+      const result = await embedTexts(inputs.slice(i, i + EMBEDDING_BATCH), {
+        // Every batch has to come from the same model
+        providers: model ? providers.filter((p) => p.embeddingModel === model) : providers,
+        getEnv: (key) => Deno.env.get(key),
+      });
+      model = result.model;
+      vectors.push(...result.vectors);
+    }
+  } catch (error) {
+    if (!(error instanceof LLMProviderError)) throw error;
+    console.warn("⚠️ No embeddings, the material will be found by keyword only:", error.message);
+    return null;
+  }
+  return model ? { vectors, model } : null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const { materialId } = await req.json().catch(() => ({}));
+  if (typeof materialId !== "string") {
+    return jsonResponse({ error: "materialId is required" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  // Claiming the row through RLS checks the caller may edit the workspace's materials
+  const { data: material, error: claimError } = await supabase
+    .from("agent_reference_materials")
+    .update({ status: "processing", error: null })
+    .eq("id", materialId)
+    .select("id, user_id, workspace_id, title, content, source, source_url, file_path")
+    .maybeSingle();
+
+  if (claimError || !material) {
+    return jsonResponse({ error: "Reference material not found" }, 404);
+  }
+
+  console.log("📚 Indexing reference material:", material.id, material.source);
+
+  try {
+    const { sections, title } = await extractSections(admin, material as MaterialRow);
+    const chunks = chunkDocument(sections).slice(0, MAX_CHUNKS);
+    if (chunks.length === 0) throw new Error("No readable text was found");
+
+    const materialTitle = title && (!material.title || material.title === material.source_url) ? title : material.title;
+    const embeddings = await embedChunks(admin, chunks.map((chunk) => embeddingInput(materialTitle, chunk)));
+
+    const { error: deleteError } = await admin
+      .from("agent_reference_chunks")
+      .delete()
+      .eq("material_id", material.id);
+    if (deleteError) throw deleteError;
+
+    const rows = chunks.map((chunk, i) => ({
+      material_id: material.id,
+      workspace_id: material.workspace_id,
+      user_id: material.user_id,
+      chunk_index: chunk.index,
+      location: chunk.location,
+      content: chunk.content,
+      embedding: embeddings ? JSON.stringify(embeddings.vectors[i]) : null,
+      embedding_model: embeddings?.model ?? null,
+    }));
+    for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+      const { error: insertError } = await admin.from("agent_reference_chunks").insert(rows.slice(i, i + INSERT_BATCH));
+      if (insertError) throw insertError;
+    }
+
+    const { error: updateError } = await admin
+      .from("agent_reference_materials")
+      .update({
+        title: materialTitle,
+        content: sections.map((section) => section.text).join("\n\n").trim(),
+        status: "ready",
+        error: null,
+        chunk_count: chunks.length,
+        embedding_model: embeddings?.model ?? null,
+        indexed_at: new Date().toISOString(),
+      })
+      .eq("id", material.id);
+    if (updateError) throw updateError;
+
+    console.log("✅ Indexed", chunks.length, "chunks", embeddings ? `(${embeddings.model})` : "(keyword only)");
+    return jsonResponse({
+      success: true,
+      chunks: chunks.length,
+      embeddingModel: embeddings?.model ?? null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("❌ Reference indexing error:", error);
+    await admin
+      .from("agent_reference_materials")
+      .update({ status: "failed", error: message })
+      .eq("id", material.id);
+    return jsonResponse({ success: false, error: message }, 200);
+  }
+});
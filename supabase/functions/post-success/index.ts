@@ -3,6 +3,8 @@
 // ============================================================================
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { IllegalStatusTransitionError, transitionPostStatus } from "../_shared/postStatus.ts";
+import { linkedinActivityId, recordPostPublished } from "../_shared/publishOutcomes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -220,27 +222,42 @@ Deno.serve(async (req) => {
     console.log('✅ Ownership verified - marking post as successfully posted');
 
     // ========================================================================
-    // Update post to 'posted' status
+    // Update post to 'posted' status. A repeated report keeps the first
+    // publish time and LinkedIn URL, unless that URL had no activity id
     // ========================================================================
-    const now = payload.postedAt || new Date().toISOString();
+    const now = post.posted_at || payload.postedAt || new Date().toISOString();
+    const linkedinUrl = linkedinActivityId(post.linkedin_post_url) ? post.linkedin_post_url : payload.linkedinUrl;
     
-    const { data: updatedPost, error: updateError } = await supabaseClient
-      .from('posts')
-      .update({
-        status: 'posted',
-        linkedin_post_url: payload.linkedinUrl,
-        linkedin_post_id: payload.linkedinPostId || null,
-        posted_at: now,
-        updated_at: now,
-        last_error: null // Clear any previous errors
-      })
-      .eq('id', post.id)
-      .eq('user_id', payload.userId) // 🔒 OWNERSHIP CHECK (redundant but safe)
-      .select()
-      .single();
+    let updatedPost;
+    try {
+      updatedPost = await transitionPostStatus(supabaseClient, {
+        postId: post.id,
+        to: 'posted',
+        source: 'extension',
+        reason: 'Extension reported success',
+        updates: {
+          linkedin_post_url: linkedinUrl,
+          linkedin_post_id: post.linkedin_post_id || payload.linkedinPostId || null,
+          posted_at: now,
+          last_error: null, // Clear any previous errors
+        },
+      });
+    } catch (transitionError) {
+      if (transitionError instanceof IllegalStatusTransitionError) {
+        console.warn('⛔ Rejected status transition:', transitionError.message);
+        return new Response(
+          JSON.stringify({ success: false, error: transitionError.message, currentStatus: post.status }),
+          { 
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      console.error('❌ Update error:', transitionError);
+      updatedPost = null;
+    }
 
-    if (updateError) {
-      console.error('❌ Update error:', updateError);
+    if (!updatedPost) {
       return new Response(
         JSON.stringify({ success: false, error: 'Failed to update post' }),
         { 
@@ -250,43 +267,38 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log('✅ Post marked as posted successfully:', updatedPost.id);
+    console.log('✅ Post marked as posted successfully:', post.id);
 
-    // Update user counts and create notification
-    const { error: rpcError } = await supabaseClient.rpc('increment_daily_post_count', { 
-      p_user_id: payload.userId 
-    });
-    if (rpcError) console.error('RPC error:', rpcError);
-
-    // Update user profile posts_published_count
-    const { data: currentProfile } = await supabaseClient
-      .from('user_profiles')
-      .select('posts_published_count')
-      .eq('user_id', payload.userId)
-      .maybeSingle();
-    
-    if (currentProfile) {
-      await supabaseClient
-        .from('user_profiles')
-        .update({ 
-          posts_published_count: (currentProfile.posts_published_count || 0) + 1,
-          updated_at: now
-        })
-        .eq('user_id', payload.userId);
+    // Counters and the notification follow the first delivery only
+    let outcome;
+    try {
+      outcome = await recordPostPublished(supabaseClient, {
+        postId: post.id,
+        source: 'post-success',
+        linkedinUrl: updatedPost.linkedin_post_url,
+        linkedinPostId: updatedPost.linkedin_post_id,
+      });
+    } catch (outcomeError) {
+      // The post is published either way; a retry will record it
+      console.error('❌ Outcome error:', outcomeError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Failed to record publish outcome' }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+    if (outcome?.duplicate) {
+      console.log('🔁 Repeated success report - already recorded:', outcome.id);
     }
-
-    // Create success notification
-    await supabaseClient.from('notifications').insert({
-      user_id: payload.userId,
-      title: 'Post Published ✅',
-      message: 'Your LinkedIn post has been published successfully!',
-      type: 'post',
-    });
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        post: updatedPost 
+        post: updatedPost,
+        outcome,
+        duplicate: outcome?.duplicate ?? false,
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
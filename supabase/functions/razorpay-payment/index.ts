@@ -89,6 +89,147 @@ async function sendPaymentEmail(
   }
 }
 
+interface Coupon {
+  id: string;
+  code: string;
+  type: "percentage" | "fixed";
+  value: number;
+  plan: string | null;
+  duration_days: number | null;
+  max_uses: number | null;
+  current_uses: number;
+  valid_from: string | null;
+  valid_until: string | null;
+}
+
+// The active coupon for a code, or why it can't be used right now
+async function findCoupon(
+  supabase: ReturnType<typeof createClient>,
+  couponCode: string
+): Promise<{ coupon?: Coupon; error?: string }> {
+  const { data: coupon, error: couponError } = await supabase
+    .from("coupons")
+    .select("*")
+    .eq("code", couponCode.trim().toUpperCase())
+    .eq("is_active", true)
+    .single();
+
+  if (couponError || !coupon) return { error: "Invalid or expired coupon" };
+
+  const now = new Date();
+  const validFrom = coupon.valid_from ? new Date(coupon.valid_from) : null;
+  const validUntil = coupon.valid_until ? new Date(coupon.valid_until) : null;
+  if ((validFrom && now < validFrom) || (validUntil && now > validUntil)) {
+    return { error: "Coupon has expired" };
+  }
+
+  if (coupon.max_uses && coupon.current_uses >= coupon.max_uses) {
+    return { error: "Coupon usage limit reached" };
+  }
+
+  return { coupon: coupon as Coupon };
+}
+
+function couponDiscount(coupon: Coupon, price: number): number {
+  return coupon.type === "percentage"
+    ? Math.round((price * coupon.value) / 100)
+    : Math.min(coupon.value, price);
+}
+
+// Plans belong to a workspace and only its owner can change one. Null when
+// the user doesn't own the workspace asked for (or their default one).
+async function ownedBillingWorkspace(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  workspaceId: string | null
+): Promise<string | null> {
+  let billingWorkspaceId = workspaceId;
+  if (!billingWorkspaceId) {
+    const { data: defaultWorkspaceId } = await supabase.rpc("default_workspace_id", { p_user_id: userId });
+    billingWorkspaceId = defaultWorkspaceId;
+  }
+  const { data: isOwner } = await supabase.rpc("has_workspace_role", {
+    p_workspace_id: billingWorkspaceId,
+    p_user_id: userId,
+    p_roles: ["owner"],
+  });
+  return isOwner ? billingWorkspaceId : null;
+}
+
+// Activate a plan that costs nothing after its coupon, without Razorpay.
+// Resolves with the new expiry.
+async function grantFreeAccess(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  workspaceId: string,
+  plan: string,
+  days: number,
+  charge: { amount: number; discountAmount: number; couponId: string | null; couponCode: string | null }
+): Promise<string> {
+  const expiryDate = new Date();
+  expiryDate.setDate(expiryDate.getDate() + days);
+
+  // Update the workspace, and the payer's profile
+  await supabase
+    .from("workspaces")
+    .update({
+      subscription_plan: plan,
+      subscription_expires_at: expiryDate.toISOString(),
+    })
+    .eq("id", workspaceId);
+
+  await supabase
+    .from("user_profiles")
+    .update({
+      subscription_plan: plan,
+      subscription_expires_at: expiryDate.toISOString(),
+    })
+    .eq("user_id", userId);
+
+  // Record payment
+  await supabase.from("payments").insert({
+    user_id: userId,
+    workspace_id: workspaceId,
+    amount: charge.amount,
+    currency: "INR",
+    plan: plan,
+    status: "success",
+    coupon_id: charge.couponId,
+    coupon_code: charge.couponCode,
+    discount_amount: charge.discountAmount,
+    final_amount: 0,
+    payment_method: "coupon",
+  });
+
+  // Increment coupon usage
+  if (charge.couponId) {
+    const { data: couponData } = await supabase
+      .from("coupons")
+      .select("current_uses")
+      .eq("id", charge.couponId)
+      .single();
+
+    if (couponData) {
+      await supabase
+        .from("coupons")
+        .update({ current_uses: (couponData.current_uses || 0) + 1 })
+        .eq("id", charge.couponId);
+    }
+  }
+
+  // Send confirmation email
+  const { data: profileData } = await supabase
+    .from("user_profiles")
+    .select("email, name")
+    .eq("user_id", userId)
+    .single();
+  if (profileData?.email) {
+    await sendPaymentEmail(profileData.email, profileData.name, plan, charge.amount, charge.discountAmount, expiryDate.toISOString());
+  }
+
+  return expiryDate.toISOString();
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -122,7 +263,7 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { action, plan, couponCode, paymentData } = body;
+    const { action, plan, couponCode, paymentData, workspaceId } = body;
 
     // ================================
     // ACTION: CREATE ORDER
@@ -135,39 +276,25 @@ serve(async (req) => {
         );
       }
 
-      let amount = PLAN_PRICES[plan as keyof typeof PLAN_PRICES];
+      const billingWorkspaceId = await ownedBillingWorkspace(supabase, user.id, workspaceId || null);
+      if (!billingWorkspaceId) {
+        return new Response(
+          JSON.stringify({ error: "Only the workspace owner can change its plan" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const amount = PLAN_PRICES[plan as keyof typeof PLAN_PRICES];
       let discountAmount = 0;
       let couponId = null;
 
       // Apply coupon if provided
       if (couponCode) {
-        const { data: coupon, error: couponError } = await supabase
-          .from("coupons")
-          .select("*")
-          .eq("code", couponCode.toUpperCase())
-          .eq("is_active", true)
-          .single();
-
-        if (!couponError && coupon) {
-          // Check if coupon is still valid
-          const now = new Date();
-          const validFrom = coupon.valid_from ? new Date(coupon.valid_from) : null;
-          const validUntil = coupon.valid_until ? new Date(coupon.valid_until) : null;
-
-          if ((!validFrom || now >= validFrom) && (!validUntil || now <= validUntil)) {
-            // Check max uses
-            if (!coupon.max_uses || coupon.current_uses < coupon.max_uses) {
-              // Check plan restriction
-              if (!coupon.plan || coupon.plan === plan) {
-                if (coupon.type === "percentage") {
-                  discountAmount = Math.round((amount * coupon.value) / 100);
-                } else if (coupon.type === "fixed") {
-                  discountAmount = Math.min(coupon.value, amount);
-                }
-                couponId = coupon.id;
-              }
-            }
-          }
+        const { coupon } = await findCoupon(supabase, couponCode);
+        // Check plan restriction
+        if (coupon && (!coupon.plan || coupon.plan === plan)) {
+          discountAmount = couponDiscount(coupon, amount);
+          couponId = coupon.id;
         }
       }
 
@@ -175,66 +302,20 @@ serve(async (req) => {
 
       // If final amount is 0, skip Razorpay and grant access directly
       if (finalAmount === 0) {
-        // Grant access directly
-        const expiryDate = new Date();
-        expiryDate.setDate(expiryDate.getDate() + 30);
-
-        // Update user profile
-        await supabase
-          .from("user_profiles")
-          .update({
-            subscription_plan: plan,
-            subscription_expires_at: expiryDate.toISOString(),
-          })
-          .eq("user_id", user.id);
-
-        // Record payment
-        await supabase.from("payments").insert({
-          user_id: user.id,
-          amount: amount,
-          currency: "INR",
-          plan: plan,
-          status: "success",
-          coupon_id: couponId,
-          coupon_code: couponCode,
-          discount_amount: discountAmount,
-          final_amount: 0,
-          payment_method: "coupon",
+        const expiresAt = await grantFreeAccess(supabase, user.id, billingWorkspaceId, plan, 30, {
+          amount,
+          discountAmount,
+          couponId,
+          couponCode,
         });
 
-        // Increment coupon usage
-        if (couponId) {
-          const { data: couponData } = await supabase
-            .from("coupons")
-            .select("current_uses")
-            .eq("id", couponId)
-            .single();
-          
-          if (couponData) {
-            await supabase
-              .from("coupons")
-              .update({ current_uses: (couponData.current_uses || 0) + 1 })
-              .eq("id", couponId);
-          }
-        }
-
-        // Send confirmation email
-        const { data: profileData } = await supabase
-          .from("user_profiles")
-          .select("email, name")
-          .eq("user_id", user.id)
-          .single();
-        if (profileData?.email) {
-          await sendPaymentEmail(profileData.email, profileData.name, plan, amount, discountAmount, expiryDate.toISOString());
-        }
-
         return new Response(
           JSON.stringify({
             success: true,
             type: "free_access",
             message: "Plan activated with 100% discount!",
             plan,
-            expiresAt: expiryDate.toISOString(),
+            expiresAt,
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
@@ -282,6 +363,7 @@ serve(async (req) => {
       // Store pending payment
       await supabase.from("payments").insert({
         user_id: user.id,
+        workspace_id: billingWorkspaceId,
         razorpay_order_id: order.id,
         amount: amount,
         currency: "INR",
@@ -376,7 +458,17 @@ serve(async (req) => {
       const expiryDate = new Date();
       expiryDate.setDate(expiryDate.getDate() + 30);
 
-      // Update user subscription
+      // Update the workspace the order was for, and the payer's profile
+      if (payment.workspace_id) {
+        await supabase
+          .from("workspaces")
+          .update({
+            subscription_plan: payment.plan,
+            subscription_expires_at: expiryDate.toISOString(),
+          })
+          .eq("id", payment.workspace_id);
+      }
+
       await supabase
         .from("user_profiles")
         .update({
@@ -433,35 +525,10 @@ serve(async (req) => {
         );
       }
 
-      const { data: coupon, error: couponError } = await supabase
-        .from("coupons")
-        .select("*")
-        .eq("code", couponCode.toUpperCase())
-        .eq("is_active", true)
-        .single();
-
-      if (couponError || !coupon) {
-        return new Response(
-          JSON.stringify({ valid: false, error: "Invalid or expired coupon" }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      // Check validity
-      const now = new Date();
-      const validFrom = coupon.valid_from ? new Date(coupon.valid_from) : null;
-      const validUntil = coupon.valid_until ? new Date(coupon.valid_until) : null;
-
-      if ((validFrom && now < validFrom) || (validUntil && now > validUntil)) {
-        return new Response(
-          JSON.stringify({ valid: false, error: "Coupon has expired" }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      if (coupon.max_uses && coupon.current_uses >= coupon.max_uses) {
+      const { coupon, error: couponError } = await findCoupon(supabase, couponCode);
+      if (!coupon) {
         return new Response(
-          JSON.stringify({ valid: false, error: "Coupon usage limit reached" }),
+          JSON.stringify({ valid: false, error: couponError }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
@@ -470,11 +537,7 @@ serve(async (req) => {
       const discounts: Record<string, number> = {};
       for (const [planKey, price] of Object.entries(PLAN_PRICES)) {
         if (!coupon.plan || coupon.plan === planKey) {
-          if (coupon.type === "percentage") {
-            discounts[planKey] = Math.round((price * coupon.value) / 100);
-          } else {
-            discounts[planKey] = Math.min(coupon.value, price);
-          }
+          discounts[planKey] = couponDiscount(coupon, price);
         }
       }
 
@@ -491,6 +554,74 @@ serve(async (req) => {
       );
     }
 
+    // ================================
+    // ACTION: REDEEM COUPON
+    // ================================
+    // Coupons that give a plan away, applied without going through checkout
+    if (action === "redeem_coupon") {
+      if (!couponCode) {
+        return new Response(
+          JSON.stringify({ error: "Coupon code required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const billingWorkspaceId = await ownedBillingWorkspace(supabase, user.id, workspaceId || null);
+      if (!billingWorkspaceId) {
+        return new Response(
+          JSON.stringify({ error: "Only the workspace owner can change its plan" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { coupon, error: couponError } = await findCoupon(supabase, couponCode);
+      if (!coupon) {
+        return new Response(
+          JSON.stringify({ success: false, error: couponError }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const amount = PLAN_PRICES[coupon.plan as keyof typeof PLAN_PRICES];
+      if (!amount || couponDiscount(coupon, amount) < amount) {
+        return new Response(
+          JSON.stringify({ success: false, error: "This coupon is a discount - apply it when you upgrade" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { count: timesUsed } = await supabase
+        .from("payments")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .eq("coupon_id", coupon.id)
+        .eq("status", "success");
+      if (timesUsed) {
+        return new Response(
+          JSON.stringify({ success: false, error: "You have already used this coupon" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const expiresAt = await grantFreeAccess(supabase, user.id, billingWorkspaceId, coupon.plan, coupon.duration_days || 30, {
+        amount,
+        discountAmount: amount,
+        couponId: coupon.id,
+        couponCode: coupon.code,
+      });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          type: "free_access",
+          message: `${coupon.plan.charAt(0).toUpperCase() + coupon.plan.slice(1)} plan activated for ${coupon.duration_days || 30} days`,
+          plan: coupon.plan,
+          expiresAt,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     return new Response(
       JSON.stringify({ error: "Invalid action" }),
       { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
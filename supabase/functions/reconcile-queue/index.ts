@@ -0,0 +1,205 @@
+// ============================================================================
+// RECONCILE-QUEUE EDGE FUNCTION
+// ============================================================================
+// The extension reports its full local queue here every few minutes. The
+// report is diffed against the user's posts (see _shared/queueReconciliation)
+// and the response tells the extension what to resend, drop and retime.
+// Discrepancies it can't fix are kept in queue_discrepancies for the
+// dashboard, and resolved automatically once a report no longer shows them.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  discrepancyKey,
+  reconcileQueue,
+  type ReportedQueueItem,
+  type ServerQueuePost,
+} from "../_shared/queueReconciliation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const MAX_QUEUE_ITEMS = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface QueuePost extends ServerQueuePost {
+  content: string;
+  photo_url: string | null;
+}
+
+const POST_COLUMNS = 'id, user_id, status, scheduled_time, tracking_id, content, photo_url';
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function parseQueue(value: unknown): ReportedQueueItem[] | null {
+  if (!Array.isArray(value) || value.length > MAX_QUEUE_ITEMS) return null;
+  const items: ReportedQueueItem[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return null;
+    const { id, trackingId, scheduleTime } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof scheduleTime !== 'string') return null;
+    items.push({ id, scheduleTime, trackingId: typeof trackingId === 'string' ? trackingId : null });
+  }
+  return items;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    if (!supabaseUrl || !serviceKey || !anonKey) {
+      console.error('Missing Supabase credentials');
+      return json({ error: 'Server configuration error' }, 500);
+    }
+
+    const authClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await authClient.auth.getUser();
+    if (userError || !user) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    let body: { queue?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return json({ success: false, error: 'Invalid JSON payload' }, 400);
+    }
+    const queue = parseQueue(body.queue);
+    if (!queue) {
+      return json({ success: false, error: `queue must be a list of up to ${MAX_QUEUE_ITEMS} { id, scheduleTime, trackingId? } items` }, 400);
+    }
+
+    // Items may point at posts of any status, or at another account's posts,
+    // so those are looked up with the service role and checked in the diff
+    const supabase = createClient(supabaseUrl, serviceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const ids = [...new Set(queue.map(item => item.id).filter(id => UUID_PATTERN.test(id)))];
+    const trackingIds = [...new Set(queue.map(item => item.trackingId).filter((id): id is string => !!id))];
+
+    const [pendingResult, byIdResult, byTrackingResult] = await Promise.all([
+      supabase.from('posts').select(POST_COLUMNS).eq('user_id', user.id).eq('status', 'pending'),
+      ids.length > 0
+        ? supabase.from('posts').select(POST_COLUMNS).in('id', ids)
+        : Promise.resolve({ data: [], error: null }),
+      trackingIds.length > 0
+        ? supabase.from('posts').select(POST_COLUMNS).in('tracking_id', trackingIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    const lookupError = pendingResult.error || byIdResult.error || byTrackingResult.error;
+    if (lookupError) throw lookupError;
+
+    const posts = new Map<string, QueuePost>();
+    for (const post of [...(pendingResult.data || []), ...(byIdResult.data || []), ...(byTrackingResult.data || [])]) {
+      posts.set(post.id, post as QueuePost);
+    }
+
+    const now = new Date();
+    const result = reconcileQueue(queue, [...posts.values()], { userId: user.id, now });
+    console.log(`🔁 Queue reconciled for ${user.id}:`, {
+      reported: queue.length,
+      resend: result.resend.length,
+      cancel: result.cancel.length,
+      retime: result.retime.length,
+      unresolved: result.unresolved.length,
+    });
+
+    // Being in the extension's queue is as good as an ack
+    const heldIds = [...result.inSync, ...result.retime.map(r => r.postId)];
+    if (heldIds.length > 0) {
+      await supabase
+        .from('posts')
+        .update({ extension_ack_at: now.toISOString() })
+        .in('id', heldIds)
+        .is('extension_ack_at', null);
+    }
+
+    await supabase
+      .from('user_profiles')
+      .update({ extension_queue_reported_at: now.toISOString() })
+      .eq('user_id', user.id);
+
+    // Keep queue_discrepancies in step: refresh what's still there, add
+    // what's new and auto-resolve what this report no longer shows. What the
+    // user dismissed stays dismissed.
+    const { data: known, error: knownError } = await supabase
+      .from('queue_discrepancies')
+      .select('id, kind, item_id, resolved_at')
+      .eq('user_id', user.id)
+      .or('resolved_at.is.null,resolution.eq.dismissed');
+    if (knownError) throw knownError;
+
+    const openByKey = new Map<string, string>();
+    const dismissedKeys = new Set<string>();
+    for (const d of known || []) {
+      const key = discrepancyKey({ kind: d.kind, itemId: d.item_id });
+      if (d.resolved_at) dismissedKeys.add(key);
+      else openByKey.set(key, d.id);
+    }
+    const currentKeys = new Set(result.unresolved.map(discrepancyKey));
+    const stillOpen = [...openByKey].filter(([key]) => currentKeys.has(key)).map(([, id]) => id);
+    const gone = [...openByKey].filter(([key]) => !currentKeys.has(key)).map(([, id]) => id);
+    const added = result.unresolved.filter(d => !openByKey.has(discrepancyKey(d)) && !dismissedKeys.has(discrepancyKey(d)));
+
+    if (stillOpen.length > 0) {
+      await supabase.from('queue_discrepancies').update({ last_seen_at: now.toISOString() }).in('id', stillOpen);
+    }
+    if (gone.length > 0) {
+      await supabase
+        .from('queue_discrepancies')
+        .update({ resolved_at: now.toISOString(), resolution: 'auto' })
+        .in('id', gone);
+    }
+    if (added.length > 0) {
+      const { error: insertError } = await supabase.from('queue_discrepancies').insert(added.map(d => ({
+        user_id: user.id,
+        post_id: d.postId,
+        item_id: d.itemId,
+        kind: d.kind,
+        message: d.message,
+      })));
+      if (insertError) console.error('Failed to record queue discrepancies:', insertError);
+    }
+
+    return json({
+      success: true,
+      resend: result.resend.map(post => ({
+        id: post.id,
+        content: post.content,
+        imageUrl: post.photo_url,
+        scheduleTime: post.scheduled_time,
+        trackingId: post.tracking_id,
+      })),
+      cancel: result.cancel,
+      retime: result.retime.map(r => ({ id: r.postId, scheduleTime: r.to })),
+      unresolved: result.unresolved.length,
+    });
+  } catch (error) {
+    console.error('Reconcile queue error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return json({ success: false, error: errorMessage }, 500);
+  }
+});
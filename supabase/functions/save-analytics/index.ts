@@ -88,6 +88,26 @@ serve(async (req) => {
         if (postError) {
           console.error('Post save error:', postError);
         }
+
+        // Mirror onto our own post so the scrape lands in its growth history
+        const linkedinUrl = post.linkedinUrl || post.url;
+        if (linkedinUrl) {
+          const { error: trackedError } = await supabase
+            .from('posts')
+            .update({
+              views_count: sanitize(post.views || 0),
+              likes_count: sanitize(post.likes || 0),
+              comments_count: sanitize(post.comments || 0),
+              shares_count: sanitize(post.reposts || post.shares || 0),
+              last_synced_at: scrapedAt || new Date().toISOString(),
+            })
+            .eq('user_id', userId)
+            .eq('linkedin_post_url', linkedinUrl);
+
+          if (trackedError) {
+            console.error('Tracked post update error:', trackedError);
+          }
+        }
       }
     }
 
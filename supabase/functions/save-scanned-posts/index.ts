@@ -1,11 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MAX_STYLE_POSTS, analyzeWritingStyle, styleProfileColumns } from "../_shared/styleFingerprint.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Recompute the writing-style fingerprint from the user's whole post history
+async function refreshWritingStyle(supabase: SupabaseClient, userId: string) {
+  const { data: history, error } = await supabase
+    .from('linkedin_post_history')
+    .select('post_content')
+    .eq('user_id', userId)
+    .order('post_date', { ascending: false, nullsFirst: false })
+    .limit(MAX_STYLE_POSTS);
+
+  if (error) throw error;
+
+  const profile = analyzeWritingStyle((history || []).map((p: { post_content: string }) => p.post_content));
+  if (!profile) {
+    console.log('Not enough posts for a style profile yet:', history?.length || 0);
+    return;
+  }
+
+  const { error: styleError } = await supabase
+    .from('user_writing_style')
+    .upsert({ user_id: userId, ...styleProfileColumns(profile) }, { onConflict: 'user_id' });
+  if (styleError) throw styleError;
+
+  console.log('🎨 Style profile updated from', profile.postsAnalyzed, 'posts');
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -36,11 +62,10 @@ serve(async (req) => {
     }
 
     const userId = user.id;
-    const { posts, writingStyle } = await req.json();
+    const { posts } = await req.json();
 
     console.log('📝 Saving scanned posts for user:', userId);
     console.log('Posts count:', posts?.length || 0);
-    console.log('Writing style:', writingStyle);
 
     const scrapedAt = new Date().toISOString();
 
@@ -69,33 +94,10 @@ serve(async (req) => {
       }
     }
 
-    // Save writing style analysis
-    if (writingStyle) {
-      const { error: styleError } = await supabase
-        .from('user_writing_style')
-        .upsert({
-          user_id: userId,
-          avg_post_length: writingStyle.avgPostLength || 0,
-          common_topics: writingStyle.commonHashtags || writingStyle.commonTopics || [],
-          tone_analysis: {
-            tone: writingStyle.tone || 'professional',
-            usesEmojis: writingStyle.usesEmojis || false,
-            usesHashtags: writingStyle.usesHashtags || false,
-            avgHashtagsPerPost: writingStyle.avgHashtagsPerPost || 0,
-            totalPostsAnalyzed: posts?.length || 0,
-          },
-          emoji_usage: writingStyle.usesEmojis || false,
-          hashtag_style: writingStyle.commonHashtags?.join(',') || '',
-          total_posts_analyzed: posts?.length || 0,
-          updated_at: scrapedAt,
-        }, {
-          onConflict: 'user_id'
-        });
-
-      if (styleError) {
-        console.error('Writing style save error:', styleError);
-        throw styleError;
-      }
+    // The extension's own style guess is ignored - the fingerprint comes
+    // from the posts themselves
+    if (posts && posts.length > 0) {
+      await refreshWritingStyle(supabase, userId);
     }
 
     console.log('✅ Scanned posts saved successfully');
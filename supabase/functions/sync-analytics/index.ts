@@ -82,7 +82,7 @@ Deno.serve(async (req) => {
         scraped_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }, {
-        onConflict: 'post_id',
+        onConflict: 'user_id,post_id',
         ignoreDuplicates: false,
       });
 
@@ -3,6 +3,13 @@
 // ============================================================================
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  IllegalStatusTransitionError,
+  transitionPostStatus,
+  type PostStatus,
+  type PostStatusUpdates,
+} from "../_shared/postStatus.ts";
+import { recordPostPublished, type PublishOutcome } from "../_shared/publishOutcomes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,19 +37,12 @@ interface SyncPostPayload {
 
 // LinkedIn URL validation regex - matches activity posts
 const LINKEDIN_URL_PATTERN = /linkedin\.com\/(posts|feed).*activity[-:][0-9]{19}/;
-const ACTIVITY_ID_PATTERN = /activity[-:](\d{19})/;
 
 function isValidLinkedInUrl(url: string | undefined | null): boolean {
   if (!url) return false;
   return LINKEDIN_URL_PATTERN.test(url);
 }
 
-function extractActivityId(url: string | undefined | null): string | null {
-  if (!url) return null;
-  const match = url.match(ACTIVITY_ID_PATTERN);
-  return match ? match[1] : null;
-}
-
 Deno.serve(async (req) => {
   console.log('=== SYNC-POST EDGE FUNCTION CALLED ===');
   console.log('📅 Timestamp:', new Date().toISOString());
@@ -242,118 +242,155 @@ Deno.serve(async (req) => {
     console.log('✅ Ownership verified - proceeding with update');
 
     // ========================================================================
-    // Build update data
+    // Bookkeeping fields (queue/ack) are plain column updates
     // ========================================================================
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString()
-    };
-
-    const linkedinUrl = payload.linkedinUrl;
+    // A repeated report keeps a verified URL the first one brought
+    const linkedinUrl = isValidLinkedInUrl(post.linkedin_post_url) ? post.linkedin_post_url : payload.linkedinUrl;
     const hasValidUrl = isValidLinkedInUrl(linkedinUrl);
-    const newStatus = payload.status || (payload.action === 'post' ? 'posted' : payload.action === 'fail' ? 'failed' : null);
+    const fieldUpdates: Record<string, unknown> = {};
 
-    // Handle action-based updates
-    if (payload.action === 'queue') {
-      updateData.status = 'queued_in_extension';
-      updateData.queued_at = payload.queuedAt || new Date().toISOString();
+    // 'scheduled' / 'queued_in_extension' are legacy extension statuses - the post stays pending
+    if (payload.action === 'queue' || payload.status === 'queued_in_extension' || payload.status === 'scheduled') {
+      fieldUpdates.queued_at = payload.queuedAt || new Date().toISOString();
       console.log('📥 Post queued in extension');
     } else if (payload.action === 'ack') {
-      updateData.extension_ack_at = payload.extensionAckAt || new Date().toISOString();
+      fieldUpdates.extension_ack_at = payload.extensionAckAt || new Date().toISOString();
       console.log('✅ Extension ACK received');
-    } else if (payload.action === 'post' || newStatus === 'posted') {
-      updateData.status = 'posted';
-      updateData.posted_at = payload.postedAt || new Date().toISOString();
-      
-      if (hasValidUrl) {
-        updateData.linkedin_post_url = linkedinUrl;
-        updateData.verified = true;
-        console.log('✅ Valid LinkedIn URL detected - marking as verified');
-      } else if (linkedinUrl) {
-        updateData.linkedin_post_url = linkedinUrl;
-        updateData.verified = false;
-        console.log('⚠️ LinkedIn URL provided but not verified pattern');
-      } else {
-        updateData.verified = false;
-        console.log('⏳ No LinkedIn URL - verification pending');
-      }
-    } else if (payload.action === 'fail' || newStatus === 'failed') {
-      updateData.status = 'failed';
-      updateData.last_error = payload.lastError || payload.error || 'Unknown error';
-      updateData.retry_count = 1;
-      updateData.verified = false;
-    } else if (newStatus) {
-      updateData.status = newStatus;
     }
 
-    if (payload.linkedinPostId) {
-      updateData.linkedin_post_id = payload.linkedinPostId;
+    let updatedPost = post;
+
+    if (Object.keys(fieldUpdates).length > 0) {
+      const { data, error: updateError } = await supabaseClient
+        .from('posts')
+        .update({ ...fieldUpdates, updated_at: new Date().toISOString() })
+        .eq('id', post.id)
+        .eq('user_id', payload.userId) // 🔒 OWNERSHIP CHECK (redundant but safe)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('❌ Update error:', updateError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to update post' }),
+          { 
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      updatedPost = data;
     }
 
-    console.log('📝 Update data:', JSON.stringify(updateData, null, 2));
+    // ========================================================================
+    // Status changes go through the shared state machine
+    // ========================================================================
+    const targetStatus: PostStatus | null =
+      payload.action === 'post' || payload.status === 'posted' ? 'posted'
+      : payload.action === 'fail' || payload.status === 'failed' ? 'failed'
+      : payload.status === 'posting' ? 'posting'
+      : null;
+
+    const statusUpdates: PostStatusUpdates = {};
+    let reason: string | undefined;
+
+    if (targetStatus === 'posted') {
+      statusUpdates.posted_at = post.posted_at || payload.postedAt || new Date().toISOString();
+      statusUpdates.verified = hasValidUrl;
+      if (linkedinUrl) statusUpdates.linkedin_post_url = linkedinUrl;
+      reason = hasValidUrl ? 'Published (verified URL)' : linkedinUrl ? 'Published (unverified URL)' : 'Published (no URL yet)';
+      console.log(hasValidUrl ? '✅ Valid LinkedIn URL detected - marking as verified' : '⏳ LinkedIn URL missing or unverified');
+    } else if (targetStatus === 'failed') {
+      statusUpdates.last_error = payload.lastError || payload.error || 'Unknown error';
+      statusUpdates.retry_count = 1;
+      statusUpdates.verified = false;
+      reason = statusUpdates.last_error;
+    } else if (targetStatus === 'posting') {
+      reason = 'Extension started publishing';
+    }
 
-    // Update the post with ownership verification
-    const { data: updatedPost, error: updateError } = await supabaseClient
-      .from('posts')
-      .update(updateData)
-      .eq('id', post.id)
-      .eq('user_id', payload.userId) // 🔒 OWNERSHIP CHECK (redundant but safe)
-      .select()
-      .single();
+    if (payload.linkedinPostId) {
+      statusUpdates.linkedin_post_id = payload.linkedinPostId;
+    }
 
-    if (updateError) {
-      console.error('❌ Update error:', updateError);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to update post' }),
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    if (targetStatus) {
+      try {
+        const transitioned = await transitionPostStatus(supabaseClient, {
+          postId: post.id,
+          to: targetStatus,
+          source: 'extension',
+          reason,
+          updates: statusUpdates,
+        });
+        if (transitioned) updatedPost = transitioned;
+      } catch (transitionError) {
+        if (transitionError instanceof IllegalStatusTransitionError) {
+          console.warn('⛔ Rejected status transition:', transitionError.message);
+          return new Response(
+            JSON.stringify({ 
+              success: false, 
+              error: transitionError.message,
+              currentStatus: post.status,
+            }),
+            { 
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
         }
-      );
+        console.error('❌ Update error:', transitionError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to update post' }),
+          { 
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+    } else if (payload.linkedinPostId) {
+      const { data } = await supabaseClient
+        .from('posts')
+        .update({ linkedin_post_id: payload.linkedinPostId, updated_at: new Date().toISOString() })
+        .eq('id', post.id)
+        .eq('user_id', payload.userId)
+        .select()
+        .single();
+      if (data) updatedPost = data;
     }
 
     console.log('✅ Post updated successfully:', updatedPost.id);
 
-    // Handle side effects for first-time posted status
-    const isFirstTimePosted = post.status !== 'posted' && updateData.status === 'posted';
-    
-    if (isFirstTimePosted) {
-      console.log('📊 First time posted - updating counts');
-      
-      // Increment daily post count
-      const { error: rpcError } = await supabaseClient.rpc('increment_daily_post_count', { 
-        p_user_id: payload.userId 
-      });
-      if (rpcError) console.error('RPC error:', rpcError);
-
-      // Create success notification
-      const notificationMessage = hasValidUrl 
-        ? 'Your LinkedIn post has been published and verified!' 
-        : 'Your LinkedIn post has been published (verification pending).';
-        
-      await supabaseClient.from('notifications').insert({
-        user_id: payload.userId,
-        title: hasValidUrl ? 'Post Published ✅' : 'Post Published ⏳',
-        message: notificationMessage,
-        type: 'post',
-      });
-
-      // Update user profile posts_published_count
-      const { data: currentProfile } = await supabaseClient
-        .from('user_profiles')
-        .select('posts_published_count')
-        .eq('user_id', payload.userId)
-        .maybeSingle();
-      
-      if (currentProfile) {
-        await supabaseClient
-          .from('user_profiles')
-          .update({ posts_published_count: (currentProfile.posts_published_count || 0) + 1 })
-          .eq('user_id', payload.userId);
+    // Counters and the notification follow the first delivery only
+    let outcome: PublishOutcome | null = null;
+    if (targetStatus === 'posted') {
+      try {
+        outcome = await recordPostPublished(supabaseClient, {
+          postId: post.id,
+          source: 'sync-post',
+          linkedinUrl: updatedPost.linkedin_post_url,
+          linkedinPostId: updatedPost.linkedin_post_id,
+          notification: hasValidUrl
+            ? { title: 'Post Published ✅', message: 'Your LinkedIn post has been published and verified!' }
+            : { title: 'Post Published ⏳', message: 'Your LinkedIn post has been published (verification pending).' },
+        });
+      } catch (outcomeError) {
+        // The post is published either way; a retry will record it
+        console.error('❌ Outcome error:', outcomeError);
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to record publish outcome' }),
+          { 
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      if (outcome?.duplicate) {
+        console.log('🔁 Repeated success report - already recorded:', outcome.id);
       }
     }
 
     // Create failure notification and send critical alert
-    if (updateData.status === 'failed') {
+    if (targetStatus === 'failed' && post.status !== 'failed') {
       await supabaseClient.from('notifications').insert({
         user_id: payload.userId,
         title: 'Post Failed ❌',
@@ -401,7 +438,9 @@ Deno.serve(async (req) => {
         success: true, 
         post: updatedPost,
         verified: hasValidUrl,
-        message: `Post status updated to ${updateData.status || 'updated'}`
+        outcome,
+        duplicate: outcome?.duplicate ?? false,
+        message: `Post status updated to ${targetStatus || updatedPost.status}`
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
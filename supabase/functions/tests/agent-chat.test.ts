@@ -0,0 +1,30 @@
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { invoke, stubs, test } from "./harness.ts";
+import { json, STUB_CHAT_REPLY } from "./stubs.ts";
+import { createUser } from "./fixtures.ts";
+
+const GATEWAY = "ai.gateway.lovable.dev";
+
+test("agent-chat answers through the AI gateway with the user's context", async () => {
+  const user = await createUser();
+
+  const { status, body } = await invoke("agent-chat", { token: user.token, body: { message: "What should I post about this week?" } });
+
+  assertEquals(status, 200);
+  assertEquals(body.type, "message");
+  assertStringIncludes(body.message as string, STUB_CHAT_REPLY);
+  const [request] = stubs.callsTo(GATEWAY);
+  const messages = (request.body as { messages: { role: string; content: string }[] }).messages;
+  assert(messages.some(m => m.role === "user" && m.content.includes("What should I post about this week?")));
+  assertEquals(stubs.functionCalls("get-agent-context").length, 1);
+});
+
+test("agent-chat reports gateway failures as a chat message", async () => {
+  const user = await createUser();
+  stubs.respond(GATEWAY, () => json({ error: "Too many requests" }, 429));
+
+  const { status, body } = await invoke("agent-chat", { token: user.token, body: { message: "Write a post about hiring" } });
+
+  assertEquals(status, 200);
+  assertEquals(body.error, "Rate limit exceeded. Please try again in a moment.");
+});
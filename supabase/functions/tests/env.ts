@@ -0,0 +1,74 @@
+// ============================================================================
+// TEST ENVIRONMENT
+// ============================================================================
+// Points the functions at the local Supabase started by `supabase start`. The
+// URL and keys come from the environment when set (CI exports them), otherwise
+// from `supabase status -o env`. Fixtures create and delete rows freely, so a
+// non-local SUPABASE_URL is refused.
+//
+// Keys for the external services are always replaced with test values: every
+// call to them is answered by stubs.ts, and a real key in the developer's
+// shell must never reach a function under test.
+
+export interface TestEnv {
+  SUPABASE_URL: string;
+  SUPABASE_ANON_KEY: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+export const TEST_SECRETS: Record<string, string> = {
+  LOVABLE_API_KEY: "test-lovable-key",
+  TAVILY_API_KEY: "test-tavily-key",
+  HUGGINGFACE_API_KEY: "test-huggingface-key",
+  RESEND_API_KEY: "test-resend-key",
+  BREVO_API_KEY: "test-brevo-key",
+  RAZORPAY_KEY_ID: "rzp_test_harness",
+  RAZORPAY_KEY_SECRET: "test-razorpay-secret",
+};
+
+// Optional providers stay off so results don't depend on the developer's shell
+const UNSET = ["SEARXNG_URL", "SEARXNG_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY"];
+
+async function supabaseStatus(): Promise<Record<string, string>> {
+  let output: Deno.CommandOutput;
+  try {
+    output = await new Deno.Command("supabase", { args: ["status", "-o", "env"], stdout: "piped", stderr: "piped" }).output();
+  } catch {
+    throw new Error("Supabase CLI not found - install it, or export SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY");
+  }
+  if (!output.success) {
+    throw new Error("Local Supabase is not running - run `supabase start` and `supabase db reset` first");
+  }
+
+  const values: Record<string, string> = {};
+  for (const line of new TextDecoder().decode(output.stdout).split("\n")) {
+    const match = line.match(/^([A-Z_]+)="?(.*?)"?$/);
+    if (match) values[match[1]] = match[2];
+  }
+  return values;
+}
+
+async function loadEnv(): Promise<TestEnv> {
+  let url = Deno.env.get("SUPABASE_URL");
+  let anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  let serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!url || !anonKey || !serviceKey) {
+    const status = await supabaseStatus();
+    url = status.API_URL;
+    anonKey = status.ANON_KEY;
+    serviceKey = status.SERVICE_ROLE_KEY;
+  }
+
+  const { hostname } = new URL(url);
+  if (hostname !== "localhost" && hostname !== "127.0.0.1" && hostname !== "host.docker.internal") {
+    throw new Error(`Refusing to run function tests against ${url} - they write and delete data`);
+  }
+
+  const env = { SUPABASE_URL: url, SUPABASE_ANON_KEY: anonKey, SUPABASE_SERVICE_ROLE_KEY: serviceKey };
+  for (const [key, value] of Object.entries({ ...env, ...TEST_SECRETS })) Deno.env.set(key, value);
+  for (const key of UNSET) Deno.env.delete(key);
+  return env;
+}
+
+export const env = await loadEnv();
@@ -0,0 +1,139 @@
+// ============================================================================
+// FIXTURES
+// ============================================================================
+// Seeds the local database through the service role: users (with a profile, a
+// personal workspace and a signed-in access token), agents, posts, OTPs and
+// coupons. Everything created is remembered and removed by cleanupFixtures(),
+// which the harness runs after every test, so tests don't see each other's rows.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { env } from "./env.ts";
+
+const clientOptions = { auth: { autoRefreshToken: false, persistSession: false } };
+
+export const admin = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, clientOptions);
+
+export interface TestUser {
+  id: string;
+  email: string;
+  /** Access token for `Authorization: Bearer` */
+  token: string;
+  workspaceId: string;
+}
+
+type Row = Record<string, unknown>;
+
+// Rows that belong to a user directly; the rest go with their workspace
+const USER_TABLES = [
+  "notifications",
+  "payments",
+  "linkedin_analytics",
+  "post_analytics",
+  "queue_discrepancies",
+  "post_status_events",
+  "posts",
+  "agents",
+  "workspace_members",
+  "user_profiles",
+];
+
+const created = {
+  userIds: [] as string[],
+  emails: [] as string[],
+  coupons: [] as string[],
+};
+
+function must<T>(what: string, result: { data: T | null; error: { message: string } | null }): T {
+  if (result.error || result.data === null) {
+    throw new Error(`Fixture ${what} failed: ${result.error?.message ?? "no data"}`);
+  }
+  return result.data;
+}
+
+export async function createUser(profile: Row = {}): Promise<TestUser> {
+  const email = `harness-${crypto.randomUUID()}@example.test`;
+  const password = crypto.randomUUID();
+
+  const { user } = must("auth user", await admin.auth.admin.createUser({ email, password, email_confirm: true }));
+  if (!user) throw new Error("Fixture auth user failed: no user");
+  created.userIds.push(user.id);
+  created.emails.push(email);
+
+  must("profile", await admin
+    .from("user_profiles")
+    .upsert({ user_id: user.id, email, name: "Harness User", ...profile }, { onConflict: "user_id" })
+    .select()
+    .single());
+  const workspaceId = must("workspace", await admin.rpc("ensure_personal_workspace", { p_user_id: user.id })) as string;
+
+  const anon = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY, clientOptions);
+  const { session } = must("sign-in", await anon.auth.signInWithPassword({ email, password }));
+  if (!session) throw new Error("Fixture sign-in failed: no session");
+
+  return { id: user.id, email, token: session.access_token, workspaceId };
+}
+
+/** A post scheduled an hour from now; override any column */
+export async function createPost(user: TestUser, fields: Row = {}): Promise<Row> {
+  return must("post", await admin
+    .from("posts")
+    .insert({
+      user_id: user.id,
+      content: "A post written by the function test harness.",
+      status: "pending",
+      scheduled_time: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      tracking_id: crypto.randomUUID(),
+      ...fields,
+    })
+    .select()
+    .single());
+}
+
+export async function createOtp(email: string, code: string, expiresInMinutes = 10): Promise<Row> {
+  created.emails.push(email);
+  return must("OTP", await admin
+    .from("email_otps")
+    .insert({ email, otp_code: code, expires_at: new Date(Date.now() + expiresInMinutes * 60 * 1000).toISOString() })
+    .select()
+    .single());
+}
+
+export async function createCoupon(fields: Row & { type: "percentage" | "fixed"; value: number }): Promise<Row> {
+  const coupon = must("coupon", await admin
+    .from("coupons")
+    .insert({ code: `HARNESS${crypto.randomUUID().slice(0, 8).toUpperCase()}`, is_active: true, ...fields })
+    .select()
+    .single()) as Row & { id: string };
+  created.coupons.push(coupon.id);
+  return coupon;
+}
+
+export async function createAgent(user: TestUser, fields: Row = {}): Promise<Row> {
+  return must("agent", await admin
+    .from("agents")
+    .insert({ user_id: user.id, name: "Harness Agent", type: "professional", ...fields })
+    .select()
+    .single());
+}
+
+/** Current rows for assertions */
+export async function rows(table: string, column: string, value: unknown): Promise<Row[]> {
+  return must(`${table} lookup`, await admin.from(table).select("*").eq(column, value));
+}
+
+export async function cleanupFixtures(): Promise<void> {
+  for (const userId of created.userIds.splice(0)) {
+    for (const table of USER_TABLES) {
+      await admin.from(table).delete().eq("user_id", userId);
+    }
+    await admin.from("workspaces").delete().eq("owner_id", userId);
+    await admin.auth.admin.deleteUser(userId);
+  }
+  for (const email of created.emails.splice(0)) {
+    await admin.from("email_otps").delete().eq("email", email);
+  }
+  for (const id of created.coupons.splice(0)) {
+    await admin.from("payments").delete().eq("coupon_id", id);
+    await admin.from("coupons").delete().eq("id", id);
+  }
+}
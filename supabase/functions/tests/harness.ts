@@ -0,0 +1,127 @@
+// ============================================================================
+// EDGE FUNCTION TEST HARNESS
+// ============================================================================
+// Runs a function's handler in-process against the local Supabase:
+//
+//   const { status, body } = await invoke("sync-post", { body: {...}, token });
+//
+// Each function module is imported once with Deno.serve swapped out, so the
+// handler it registers is captured instead of listening on a port (functions on
+// std's serve() reach Deno.serve too - see serve.ts). External APIs answer from
+// stubs.ts; calls between functions go to the captured handlers.
+//
+// Tests use test() rather than Deno.test() directly: it resets the stubs and
+// removes fixtures after each test.
+
+import { env } from "./env.ts";
+import { cleanupFixtures } from "./fixtures.ts";
+import { installFetchStubs } from "./stubs.ts";
+
+type Handler = (req: Request) => Response | Promise<Response>;
+
+export interface InvokeOptions {
+  /** Sent as JSON unless it's already a string */
+  body?: unknown;
+  /** Access token for `Authorization: Bearer` */
+  token?: string;
+  method?: string;
+  headers?: Record<string, string>;
+}
+
+export interface InvokeResult<T = Record<string, unknown>> {
+  status: number;
+  /** Parsed JSON, or the raw text for non-JSON responses */
+  body: T;
+  headers: Headers;
+}
+
+const handlers = new Map<string, Promise<Handler>>();
+
+// Deno.serve is swapped globally while a module loads, so loads take turns
+let loading: Promise<unknown> = Promise.resolve();
+
+async function importHandler(name: string): Promise<Handler> {
+  const realServe = Deno.serve;
+  let captured = null as Handler | null;
+
+  Deno.serve = ((...args: unknown[]) => {
+    const handler = args.find(arg => typeof arg === "function") ?? (args[0] as { handler?: Handler })?.handler;
+    captured = handler as Handler;
+    return { finished: Promise.resolve(), ref() {}, unref() {}, shutdown: async () => {} };
+  }) as unknown as typeof Deno.serve;
+
+  try {
+    await import(new URL(`../${name}/index.ts`, import.meta.url).href);
+  } finally {
+    Deno.serve = realServe;
+  }
+
+  if (!captured) throw new Error(`${name}/index.ts did not register a handler`);
+  return captured;
+}
+
+export function loadHandler(name: string): Promise<Handler> {
+  let handler = handlers.get(name);
+  if (!handler) {
+    handler = loading.then(() => importHandler(name));
+    loading = handler.catch(() => {});
+    handlers.set(name, handler);
+  }
+  return handler;
+}
+
+export const stubs = installFetchStubs({
+  supabaseUrl: env.SUPABASE_URL,
+  invokeFunction: async (name, request) => (await loadHandler(name))(request),
+});
+
+export async function invoke<T = Record<string, unknown>>(
+  name: string,
+  options: InvokeOptions = {}
+): Promise<InvokeResult<T>> {
+  const handler = await loadHandler(name);
+
+  const headers = new Headers(options.headers);
+  if (options.token) headers.set("Authorization", `Bearer ${options.token}`);
+  let body: string | undefined;
+  if (options.body !== undefined) {
+    body = typeof options.body === "string" ? options.body : JSON.stringify(options.body);
+    headers.set("Content-Type", "application/json");
+  }
+
+  const response = await handler(new Request(`${env.SUPABASE_URL}/functions/v1/${name}`, {
+    method: options.method ?? "POST",
+    headers,
+    body,
+  }));
+
+  const text = await response.text();
+  let parsed: unknown = text;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Plain text or an event stream
+  }
+  return { status: response.status, body: parsed as T, headers: response.headers };
+}
+
+/**
+ * Deno.test with the harness's per-test reset. The op and resource sanitizers
+ * are off: supabase-js keeps HTTP connections open between requests, which
+ * they would report as leaks.
+ */
+export function test(name: string, fn: () => Promise<void>): void {
+  Deno.test({
+    name,
+    sanitizeOps: false,
+    sanitizeResources: false,
+    async fn() {
+      stubs.reset();
+      try {
+        await fn();
+      } finally {
+        await cleanupFixtures();
+      }
+    },
+  });
+}
@@ -0,0 +1,145 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { invoke, test } from "./harness.ts";
+import { createAgent, createPost, createUser, rows } from "./fixtures.ts";
+
+const LINKEDIN_URL = "https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000002/";
+
+test("post-success needs the LinkedIn URL of the published post", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "posting" });
+
+  const { status, body } = await invoke("post-success", { body: { userId: user.id, postId: post.id } });
+
+  assertEquals(status, 400);
+  assertEquals(body.error, "linkedinUrl is required");
+});
+
+test("post-success refuses another user's post", async () => {
+  const owner = await createUser();
+  const other = await createUser();
+  const post = await createPost(owner, { status: "posting" });
+
+  const { status } = await invoke("post-success", { body: { userId: other.id, postId: post.id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(status, 403);
+  const [unchanged] = await rows("posts", "id", post.id);
+  assertEquals(unchanged.status, "posting");
+  assertEquals((await rows("notifications", "user_id", other.id)).length, 0);
+});
+
+test("post-success marks a pending post published through posting", async () => {
+  const user = await createUser();
+  const post = await createPost(user);
+
+  const { status } = await invoke("post-success", {
+    body: { userId: user.id, trackingId: post.tracking_id, linkedinUrl: LINKEDIN_URL },
+  });
+
+  assertEquals(status, 200);
+  const [posted] = await rows("posts", "id", post.id);
+  assertEquals(posted.status, "posted");
+  assertEquals(posted.linkedin_post_url, LINKEDIN_URL);
+  const events = await rows("post_status_events", "post_id", post.id);
+  // One transaction, so the events share a timestamp
+  assertEquals(events.map(event => event.to_status).sort(), ["pending", "posted", "posting"]);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals(profile.posts_published_count, 1);
+});
+
+test("post-success won't publish a cancelled post", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "cancelled" });
+
+  const { status, body } = await invoke("post-success", { body: { userId: user.id, postId: post.id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(status, 409);
+  assertEquals(body.currentStatus, "cancelled");
+});
+
+test("post-success counts a repeated report once and returns the same outcome", async () => {
+  const user = await createUser();
+  const agent = await createAgent(user);
+  const post = await createPost(user, { status: "posting", agent_id: agent.id });
+  const report = { userId: user.id, postId: post.id, linkedinUrl: LINKEDIN_URL };
+
+  const first = await invoke("post-success", { body: report });
+  const repeat = await invoke("post-success", { body: { ...report, postedAt: "2030-01-01T00:00:00.000Z" } });
+
+  assertEquals(first.status, 200);
+  assertEquals(repeat.status, 200);
+  assertEquals([first.body.duplicate, repeat.body.duplicate], [false, true]);
+  const [firstOutcome, repeatOutcome] = [first.body.outcome, repeat.body.outcome] as { id: string; deliveryCount: number }[];
+  assertEquals(repeatOutcome.id, firstOutcome.id);
+  assertEquals(repeatOutcome.deliveryCount, 2);
+
+  const [posted] = await rows("posts", "id", post.id);
+  assertEquals(posted.posted_at, (first.body.post as { posted_at: string }).posted_at);
+  assertEquals((await rows("notifications", "user_id", user.id)).length, 1);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals([profile.posts_published_count, profile.daily_post_count], [1, 1]);
+  const [stats] = await rows("agents", "id", agent.id);
+  assertEquals([stats.posts_published, stats.success_rate], [1, 100]);
+});
+
+test("post-success and sync-post share one outcome for the same publish", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "posting" });
+
+  await invoke("sync-post", { body: { userId: user.id, trackingId: post.tracking_id, action: "post" } });
+  const { body } = await invoke("post-success", { body: { userId: user.id, trackingId: post.tracking_id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(body.duplicate, true);
+  const [outcome] = await rows("post_publish_outcomes", "post_id", post.id);
+  assertEquals(outcome.source, "sync-post");
+  assertEquals(outcome.linkedin_activity_id, "7100000000000000002");
+  assertEquals((await rows("notifications", "user_id", user.id)).length, 1);
+});
+
+test("post-success counts one LinkedIn post once even when reported for two posts", async () => {
+  const user = await createUser();
+  const original = await createPost(user, { status: "posting" });
+  const resent = await createPost(user, { status: "posting" });
+
+  await invoke("post-success", { body: { userId: user.id, postId: original.id, linkedinUrl: LINKEDIN_URL } });
+  const { status, body } = await invoke("post-success", { body: { userId: user.id, postId: resent.id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(status, 200);
+  assertEquals(body.duplicate, true);
+  assertEquals((body.outcome as { postId: string }).postId, original.id);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals(profile.posts_published_count, 1);
+});
+
+test("post-success keeps another user's report of the same LinkedIn post separate", async () => {
+  const [first, second] = [await createUser(), await createUser()];
+  const theirs = await createPost(first, { status: "posting" });
+  const mine = await createPost(second, { status: "posting" });
+
+  await invoke("post-success", { body: { userId: first.id, postId: theirs.id, linkedinUrl: LINKEDIN_URL } });
+  const { body } = await invoke("post-success", { body: { userId: second.id, postId: mine.id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(body.duplicate, false);
+  assertEquals((body.outcome as { postId: string }).postId, mine.id);
+  const [outcome] = await rows("post_publish_outcomes", "post_id", theirs.id);
+  assertEquals(outcome.delivery_count, 1);
+});
+
+test("post-success after the cron marked the post published counts it once", async () => {
+  const user = await createUser();
+  const post = await createPost(user, {
+    status: "posting",
+    linkedin_post_url: LINKEDIN_URL,
+    scheduled_time: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
+  });
+
+  await invoke("check-overdue-posts", { body: {} });
+  const { status, body } = await invoke("post-success", { body: { userId: user.id, postId: post.id, linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(status, 200);
+  assertEquals(body.duplicate, true);
+  const [outcome] = await rows("post_publish_outcomes", "post_id", post.id);
+  assertEquals([outcome.source, outcome.delivery_count], ["cron", 2]);
+  assertEquals((await rows("notifications", "user_id", user.id)).length, 1);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals(profile.posts_published_count, 1);
+});
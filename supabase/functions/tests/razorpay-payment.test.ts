@@ -0,0 +1,146 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { invoke, stubs, test } from "./harness.ts";
+import { createCoupon, createUser, rows } from "./fixtures.ts";
+import { env, TEST_SECRETS } from "./env.ts";
+
+async function razorpaySignature(orderId: string, paymentId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(TEST_SECRETS.RAZORPAY_KEY_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${orderId}|${paymentId}`));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+test("razorpay-payment requires a signed-in user", async () => {
+  const { status } = await invoke("razorpay-payment", { body: { action: "create_order", plan: "pro" } });
+
+  assertEquals(status, 401);
+  assertEquals(stubs.callsTo("api.razorpay.com").length, 0);
+});
+
+test("razorpay-payment only lets the workspace owner buy its plan", async () => {
+  const owner = await createUser();
+  const other = await createUser();
+
+  const { status } = await invoke("razorpay-payment", {
+    token: other.token,
+    body: { action: "create_order", plan: "pro", workspaceId: owner.workspaceId },
+  });
+
+  assertEquals(status, 403);
+  assertEquals(stubs.callsTo("api.razorpay.com").length, 0);
+});
+
+test("razorpay-payment creates an order, then activates the plan on a valid signature", async () => {
+  const user = await createUser();
+
+  const order = await invoke("razorpay-payment", { token: user.token, body: { action: "create_order", plan: "pro" } });
+
+  assertEquals(order.status, 200);
+  assertEquals(order.body.keyId, TEST_SECRETS.RAZORPAY_KEY_ID);
+  const [orderCall] = stubs.callsTo("api.razorpay.com");
+  assertEquals((orderCall.body as { amount: number }).amount, 999 * 100);
+  const orderId = order.body.orderId as string;
+  const [pending] = await rows("payments", "razorpay_order_id", orderId);
+  assertEquals(pending.status, "pending");
+
+  const verified = await invoke("razorpay-payment", {
+    token: user.token,
+    body: {
+      action: "verify_payment",
+      paymentData: { orderId, paymentId: "pay_harness", signature: await razorpaySignature(orderId, "pay_harness") },
+    },
+  });
+
+  assertEquals(verified.status, 200);
+  const [workspace] = await rows("workspaces", "id", user.workspaceId);
+  assertEquals(workspace.subscription_plan, "pro");
+  const [paid] = await rows("payments", "razorpay_order_id", orderId);
+  assertEquals(paid.status, "success");
+  assertEquals(stubs.callsTo("api.resend.com").length, 1);
+});
+
+test("razorpay-payment rejects a forged signature", async () => {
+  const user = await createUser();
+  const order = await invoke("razorpay-payment", { token: user.token, body: { action: "create_order", plan: "business" } });
+  const orderId = order.body.orderId as string;
+
+  const { status } = await invoke("razorpay-payment", {
+    token: user.token,
+    body: { action: "verify_payment", paymentData: { orderId, paymentId: "pay_forged", signature: "0".repeat(64) } },
+  });
+
+  assertEquals(status, 400);
+  const [payment] = await rows("payments", "razorpay_order_id", orderId);
+  assertEquals(payment.status, "failed");
+  const [workspace] = await rows("workspaces", "id", user.workspaceId);
+  assert(workspace.subscription_plan !== "business");
+});
+
+test("razorpay-payment grants a fully discounted plan without Razorpay", async () => {
+  const user = await createUser();
+  const coupon = await createCoupon({ type: "percentage", value: 100 });
+
+  const { status, body } = await invoke("razorpay-payment", {
+    token: user.token,
+    body: { action: "create_order", plan: "pro", couponCode: coupon.code },
+  });
+
+  assertEquals(status, 200);
+  assertEquals(body.type, "free_access");
+  assertEquals(stubs.callsTo("api.razorpay.com").length, 0);
+  const [used] = await rows("coupons", "id", coupon.id);
+  assertEquals(used.current_uses, 1);
+});
+
+test("razorpay-payment redeems a plan coupon once per user", async () => {
+  const user = await createUser();
+  const coupon = await createCoupon({ type: "percentage", value: 100, plan: "business", duration_days: 14 });
+  const redeem = { action: "redeem_coupon", couponCode: (coupon.code as string).toLowerCase() };
+
+  const first = await invoke("razorpay-payment", { token: user.token, body: redeem });
+  const again = await invoke("razorpay-payment", { token: user.token, body: redeem });
+
+  assertEquals(first.body.success, true);
+  assertEquals(again.body.success, false);
+  const [workspace] = await rows("workspaces", "id", user.workspaceId);
+  assertEquals(workspace.subscription_plan, "business");
+  const days = (Date.parse(workspace.subscription_expires_at as string) - Date.now()) / 86_400_000;
+  assert(days > 13 && days <= 14);
+  const [used] = await rows("coupons", "id", coupon.id);
+  assertEquals(used.current_uses, 1);
+});
+
+test("razorpay-payment won't redeem a partial discount as a free plan", async () => {
+  const user = await createUser();
+  const coupon = await createCoupon({ type: "percentage", value: 50, plan: "pro" });
+
+  const { body } = await invoke("razorpay-payment", { token: user.token, body: { action: "redeem_coupon", couponCode: coupon.code } });
+
+  assertEquals(body.success, false);
+  const [workspace] = await rows("workspaces", "id", user.workspaceId);
+  assertEquals(workspace.subscription_plan, "free");
+});
+
+test("signed-in users can't write their own plan", async () => {
+  const user = await createUser();
+  const client = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY, {
+    auth: { autoRefreshToken: false, persistSession: false },
+    global: { headers: { Authorization: `Bearer ${user.token}` } },
+  });
+
+  const workspace = await client.from("workspaces").update({ subscription_plan: "business" }).eq("id", user.workspaceId);
+  const profile = await client.from("user_profiles").update({ subscription_plan: "business" }).eq("user_id", user.id);
+  const renamed = await client.from("workspaces").update({ name: "Renamed" }).eq("id", user.workspaceId);
+
+  assert(workspace.error);
+  assert(profile.error);
+  assertEquals(renamed.error, null);
+  const [unchanged] = await rows("workspaces", "id", user.workspaceId);
+  assertEquals(unchanged.subscription_plan, "free");
+});
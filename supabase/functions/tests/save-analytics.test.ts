@@ -0,0 +1,36 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { invoke, test } from "./harness.ts";
+import { createPost, createUser, rows } from "./fixtures.ts";
+
+const LINKEDIN_URL = "https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000003/";
+
+test("save-analytics requires a signed-in user", async () => {
+  const { status } = await invoke("save-analytics", { body: { profile: {}, posts: [] } });
+  const forged = await invoke("save-analytics", { body: { profile: {}, posts: [] }, token: "not-a-jwt" });
+
+  assertEquals(status, 401);
+  assertEquals(forged.status, 401);
+});
+
+test("save-analytics mirrors metrics onto the caller's own post only", async () => {
+  const user = await createUser();
+  const other = await createUser();
+  const mine = await createPost(user, { status: "posted", linkedin_post_url: LINKEDIN_URL });
+  const theirs = await createPost(other, { status: "posted", linkedin_post_url: LINKEDIN_URL });
+
+  const { status } = await invoke("save-analytics", {
+    token: user.token,
+    body: {
+      profile: { username: "harness", followersCount: 120 },
+      posts: [{ postId: "7100000000000000003", linkedinUrl: LINKEDIN_URL, views: 900, likes: 40, comments: 5, reposts: 2 }],
+    },
+  });
+
+  assertEquals(status, 200);
+  const [updated] = await rows("posts", "id", mine.id);
+  assertEquals([updated.views_count, updated.likes_count, updated.comments_count, updated.shares_count], [900, 40, 5, 2]);
+  const [untouched] = await rows("posts", "id", theirs.id);
+  assertEquals(untouched.views_count, 0);
+  const [profile] = await rows("linkedin_analytics", "user_id", user.id);
+  assertEquals(profile.followers_count, 120);
+});
@@ -0,0 +1,174 @@
+// ============================================================================
+// EXTERNAL API STUBS
+// ============================================================================
+// Replaces globalThis.fetch for the duration of a test run. Calls to the local
+// Supabase pass through untouched, except /functions/v1/<name> which is routed
+// to that function's handler in-process (see harness.ts). Every other host must
+// have a responder here - an unstubbed host throws, so a test can never reach
+// a real AI gateway, mail provider or payment API.
+//
+//   ai.gateway.lovable.dev, api.openai.com → chat completion (SSE when streamed)
+//   api.anthropic.com                      → messages reply
+//   api.tavily.com                         → two search results
+//   api.resend.com, api.brevo.com          → accepted email ids
+//   api.razorpay.com                       → a created order
+//   api-inference.huggingface.co           → a 1×1 PNG
+
+export interface StubCall {
+  host: string;
+  path: string;
+  method: string;
+  headers: Headers;
+  /** Parsed JSON body, the raw text when it isn't JSON, null when empty */
+  body: unknown;
+}
+
+export type Responder = (request: Request, body: unknown) => Response | Promise<Response>;
+
+export const STUB_CHAT_REPLY = "Here's a stubbed reply from the AI gateway.";
+
+export const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+
+/** OpenAI-compatible chat completion, streamed when the request asks for it */
+export function chatReply(content: string, toolCalls: { name: string; arguments: unknown }[] = []): Responder {
+  const tool_calls = toolCalls.map((call, index) => ({
+    id: `call_stub_${index}`,
+    type: "function",
+    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+  }));
+
+  return (_request, body) => {
+    const stream = (body as { stream?: boolean } | null)?.stream;
+    if (!stream) {
+      return json({ choices: [{ message: { role: "assistant", content, ...(tool_calls.length && { tool_calls }) } }] });
+    }
+
+    const chunks = [
+      { choices: [{ delta: { content } }] },
+      ...tool_calls.map((call, index) => ({ choices: [{ delta: { tool_calls: [{ index, ...call }] } }] })),
+    ];
+    const sse = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n";
+    return new Response(sse, { headers: { "Content-Type": "text/event-stream" } });
+  };
+}
+
+// Smallest valid PNG: one transparent pixel
+const PNG_PIXEL = Uint8Array.from(atob(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+), c => c.charCodeAt(0));
+
+let razorpayOrders = 0;
+
+export const DEFAULT_RESPONDERS: Record<string, Responder> = {
+  "ai.gateway.lovable.dev": chatReply(STUB_CHAT_REPLY),
+  "api.openai.com": chatReply(STUB_CHAT_REPLY),
+  "api.anthropic.com": () => json({
+    type: "message",
+    role: "assistant",
+    content: [{ type: "text", text: STUB_CHAT_REPLY }],
+    stop_reason: "end_turn",
+  }),
+  "api.tavily.com": (_request, body) => {
+    const query = (body as { query?: string } | null)?.query || "stub";
+    return json({
+      results: [
+        { title: `${query} - overview`, url: "https://example.com/overview", content: `What to know about ${query}.`, published_date: "2026-02-01" },
+        { title: `${query} - analysis`, url: "https://example.com/analysis", content: `A closer look at ${query}.`, published_date: "2026-02-15" },
+      ],
+    });
+  },
+  "api.resend.com": () => json({ id: crypto.randomUUID() }),
+  "api.brevo.com": () => json({ messageId: `<${crypto.randomUUID()}@smtp-relay.brevo.com>` }, 201),
+  "api.razorpay.com": (_request, body) => {
+    const order = (body || {}) as { amount?: number; currency?: string; receipt?: string; notes?: unknown };
+    return json({
+      id: `order_stub${String(++razorpayOrders).padStart(6, "0")}`,
+      entity: "order",
+      amount: order.amount,
+      currency: order.currency,
+      receipt: order.receipt,
+      notes: order.notes,
+      status: "created",
+    });
+  },
+  "api-inference.huggingface.co": () => new Response(PNG_PIXEL, { headers: { "Content-Type": "image/png" } }),
+};
+
+export interface FetchStubOptions {
+  /** The local Supabase API; requests to it are passed through */
+  supabaseUrl: string;
+  /** Handles /functions/v1/<name> calls made by the function under test */
+  invokeFunction: (name: string, request: Request) => Promise<Response>;
+}
+
+export interface FetchStubs {
+  calls: StubCall[];
+  /** Calls made to one external host */
+  callsTo(host: string): StubCall[];
+  /** Calls one function made to another */
+  functionCalls(name: string): StubCall[];
+  /** Answer a host differently until the next reset() */
+  respond(host: string, responder: Responder): void;
+  /** Forget recorded calls and per-test responders */
+  reset(): void;
+  restore(): void;
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  const text = await request.clone().text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function installFetchStubs(options: FetchStubOptions): FetchStubs {
+  const originalFetch = globalThis.fetch;
+  const supabaseHost = new URL(options.supabaseUrl).host;
+  const calls: StubCall[] = [];
+  const overrides = new Map<string, Responder>();
+
+  const record = async (request: Request, url: URL) => {
+    const body = await readBody(request);
+    calls.push({ host: url.host, path: url.pathname, method: request.method, headers: request.headers, body });
+    return body;
+  };
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+
+    if (url.host === supabaseHost) {
+      const fn = url.pathname.match(/^\/functions\/v1\/([^/]+)/);
+      if (!fn) return originalFetch(input, init);
+
+      const request = new Request(input, init);
+      await record(request, url);
+      return options.invokeFunction(fn[1], request);
+    }
+
+    const responder = overrides.get(url.host) ?? DEFAULT_RESPONDERS[url.host];
+    if (!responder) throw new Error(`Unstubbed external call: ${url.origin}${url.pathname}`);
+
+    const request = new Request(input, init);
+    return responder(request, await record(request, url));
+  };
+
+  return {
+    calls,
+    callsTo: host => calls.filter(call => call.host === host),
+    functionCalls: name => calls.filter(call => call.host === supabaseHost && call.path === `/functions/v1/${name}`),
+    respond: (host, responder) => {
+      overrides.set(host, responder);
+    },
+    reset: () => {
+      calls.length = 0;
+      overrides.clear();
+    },
+    restore: () => {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { invoke, stubs, test } from "./harness.ts";
+import { createAgent, createPost, createUser, rows } from "./fixtures.ts";
+
+const LINKEDIN_URL = "https://www.linkedin.com/feed/update/urn:li:activity:7100000000000000001/";
+
+test("sync-post requires the userId it checks ownership against", async () => {
+  const user = await createUser();
+  const post = await createPost(user);
+
+  const { status, body } = await invoke("sync-post", { body: { postId: post.id, action: "ack" } });
+
+  assertEquals(status, 400);
+  assertEquals(body.error, "userId is required for security verification");
+});
+
+test("sync-post refuses to touch another user's post", async () => {
+  const owner = await createUser();
+  const other = await createUser();
+  const post = await createPost(owner);
+
+  const byId = await invoke("sync-post", { body: { userId: other.id, postId: post.id, action: "ack" } });
+  const byTrackingId = await invoke("sync-post", { body: { userId: other.id, trackingId: post.tracking_id, action: "ack" } });
+
+  assertEquals(byId.status, 403);
+  assertEquals(byTrackingId.status, 403);
+  const [unchanged] = await rows("posts", "id", post.id);
+  assertEquals(unchanged.extension_ack_at, null);
+});
+
+test("sync-post records the extension's ack by tracking id", async () => {
+  const user = await createUser();
+  const post = await createPost(user);
+
+  const { status } = await invoke("sync-post", { body: { userId: user.id, trackingId: post.tracking_id, action: "ack" } });
+
+  assertEquals(status, 200);
+  const [acked] = await rows("posts", "id", post.id);
+  assert(acked.extension_ack_at);
+  assertEquals(acked.status, "pending");
+});
+
+test("sync-post publishes a posting post with a notification and published count", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "posting" });
+
+  const { status, body } = await invoke("sync-post", { body: { userId: user.id, postId: post.id, action: "post", linkedinUrl: LINKEDIN_URL } });
+
+  assertEquals(status, 200);
+  assertEquals(body.verified, true);
+  const [posted] = await rows("posts", "id", post.id);
+  assertEquals(posted.status, "posted");
+  assertEquals(posted.linkedin_post_url, LINKEDIN_URL);
+  assertEquals((await rows("notifications", "user_id", user.id)).length, 1);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals(profile.posts_published_count, 1);
+});
+
+test("sync-post skips the side effects when a post is reported published again", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "posting" });
+  const report = { userId: user.id, postId: post.id, action: "post", linkedinUrl: LINKEDIN_URL };
+
+  await invoke("sync-post", { body: report });
+  const { status, body } = await invoke("sync-post", { body: { userId: user.id, postId: post.id, action: "post" } });
+
+  assertEquals(status, 200);
+  assertEquals(body.duplicate, true);
+  assertEquals(body.verified, true);
+  assertEquals((await rows("notifications", "user_id", user.id)).length, 1);
+  const [profile] = await rows("user_profiles", "user_id", user.id);
+  assertEquals(profile.posts_published_count, 1);
+});
+
+test("sync-post rejects a transition the state machine doesn't allow", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "cancelled" });
+
+  const { status } = await invoke("sync-post", { body: { userId: user.id, postId: post.id, status: "posting" } });
+
+  assertEquals(status, 409);
+  const [unchanged] = await rows("posts", "id", post.id);
+  assertEquals(unchanged.status, "cancelled");
+});
+
+test("sync-post alerts the admins when a post fails", async () => {
+  const user = await createUser();
+  const post = await createPost(user, { status: "posting" });
+
+  const { status } = await invoke("sync-post", {
+    body: { userId: user.id, postId: post.id, action: "fail", error: "Element not found: share button" },
+  });
+
+  assertEquals(status, 200);
+  const [failed] = await rows("posts", "id", post.id);
+  assertEquals(failed.status, "failed");
+  assertEquals(failed.last_error, "Element not found: share button");
+  const [alert] = stubs.functionCalls("send-critical-alert");
+  assertEquals((alert.body as { alertType: string }).alertType, "linkedin_ui_changed");
+});
+
+test("sync-post keeps the agent's published count and success rate in step", async () => {
+  const user = await createUser();
+  const agent = await createAgent(user);
+  const published = await createPost(user, { status: "posting", agent_id: agent.id });
+  const failed = await createPost(user, { status: "posting", agent_id: agent.id });
+  const report = { userId: user.id, postId: published.id, action: "post", linkedinUrl: LINKEDIN_URL };
+
+  await invoke("sync-post", { body: report });
+  await invoke("sync-post", { body: report });
+  await invoke("sync-post", { body: { userId: user.id, postId: failed.id, action: "fail", error: "Session expired" } });
+
+  const [stats] = await rows("agents", "id", agent.id);
+  assertEquals([stats.posts_published, stats.success_rate], [1, 50]);
+});
@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { invoke, test } from "./harness.ts";
+import { createOtp, rows } from "./fixtures.ts";
+
+const EMAIL = "otp-harness@example.test";
+
+test("verify-otp needs both the email and the code", async () => {
+  const { status } = await invoke("verify-otp", { body: { email: EMAIL } });
+
+  assertEquals(status, 400);
+});
+
+test("verify-otp accepts the current code once and clears older ones", async () => {
+  await createOtp(EMAIL, "111111");
+  const current = await createOtp(EMAIL, "222222");
+
+  const { status, body } = await invoke("verify-otp", { body: { email: ` ${EMAIL.toUpperCase()} `, otp: "222222" } });
+  const replay = await invoke("verify-otp", { body: { email: EMAIL, otp: "222222" } });
+
+  assertEquals(status, 200);
+  assertEquals(body.verified, true);
+  assertEquals(replay.status, 400);
+  const remaining = await rows("email_otps", "email", EMAIL);
+  assertEquals(remaining.map(otp => otp.id), [current.id]);
+});
+
+test("verify-otp rejects wrong and expired codes", async () => {
+  await createOtp(EMAIL, "333333", -1);
+
+  const expired = await invoke("verify-otp", { body: { email: EMAIL, otp: "333333" } });
+  const wrong = await invoke("verify-otp", { body: { email: EMAIL, otp: "999999" } });
+
+  assertEquals(expired.status, 400);
+  assertEquals(wrong.body.error, "Invalid or expired OTP");
+});
@@ -9,6 +9,8 @@ const corsHeaders = {
 // Only allow updating these specific keys
 const ALLOWED_KEYS = [
   "HUGGINGFACE_API_KEY",
+  "OPENAI_API_KEY",
+  "ANTHROPIC_API_KEY",
   "TAVILY_API_KEY",
   "RESEND_API_KEY",
   "RAZORPAY_KEY_ID",
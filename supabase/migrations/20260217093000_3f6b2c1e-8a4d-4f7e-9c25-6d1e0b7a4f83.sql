@@ -0,0 +1,4 @@
+-- Per-user timezone for scheduling and display (IANA name, e.g. 'Europe/Berlin')
+-- Existing users keep IST, which is what every schedule was interpreted in until now
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata';
@@ -0,0 +1,63 @@
+-- Recurring post series attached to an agent ("every Tuesday at 9am",
+-- "first Monday of the month") and evergreen recycling of top performers.
+-- generate-series-posts expands each active series into pending posts ahead of time.
+CREATE TABLE public.post_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'recurring' CHECK (kind IN ('recurring', 'evergreen')),
+  recurrence_text TEXT NOT NULL,
+  recurrence_rule JSONB NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  next_topic_index INTEGER NOT NULL DEFAULT 0,
+  content_template TEXT,
+  reword_with_ai BOOLEAN NOT NULL DEFAULT true,
+  cooldown_days INTEGER NOT NULL DEFAULT 90,
+  lookahead_days INTEGER NOT NULL DEFAULT 7,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  generated_until TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_summary JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.post_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own post series"
+ON public.post_series
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own post series"
+ON public.post_series
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own post series"
+ON public.post_series
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own post series"
+ON public.post_series
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_post_series_updated_at
+BEFORE UPDATE ON public.post_series
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_post_series_active ON public.post_series(is_active, generated_until);
+
+-- Link generated posts back to their series, and recycled posts to the original
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.post_series(id) ON DELETE SET NULL;
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS recycled_from_post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL;
+
+-- One post per series occurrence, so overlapping generator runs can't double-queue
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_series_occurrence ON public.posts(series_id, scheduled_time) WHERE series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_posts_recycled_from ON public.posts(recycled_from_post_id) WHERE recycled_from_post_id IS NOT NULL;
@@ -0,0 +1,144 @@
+-- Post status state machine, enforced in the database.
+-- Legal transitions:
+--   pending → posting → posted
+--                     ↘ failed → pending (retry)
+--   pending → cancelled
+-- Every status change is recorded in post_status_events with who made it
+-- (extension, cron, user, system) and why.
+
+-- 'cancelled' joins the lifecycle
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+  CHECK (status = ANY (ARRAY[
+    'pending',
+    'posting',
+    'posted',
+    'failed',
+    'cancelled'
+  ]::text[]));
+
+-- Audit trail
+CREATE TABLE public.post_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('extension', 'cron', 'user', 'system')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.post_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own post status events"
+ON public.post_status_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_post_status_events_post ON public.post_status_events(post_id, created_at);
+
+-- Single definition of the legal transitions (mirrored in _shared/postStatus.ts)
+CREATE OR REPLACE FUNCTION public.is_valid_post_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('posting', 'cancelled')
+    WHEN 'posting' THEN p_to IN ('posted', 'failed')
+    WHEN 'failed' THEN p_to IN ('pending')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Source/reason come from transition_post_status via transaction-local settings.
+-- Plain UPDATEs still go through the same checks and are attributed to the user
+-- (or 'system' for service-role writes that skip the RPC).
+CREATE OR REPLACE FUNCTION public.enforce_post_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_source TEXT := NULLIF(current_setting('app.post_status_source', true), '');
+  v_reason TEXT := NULLIF(current_setting('app.post_status_reason', true), '');
+BEGIN
+  IF v_source IS NULL THEN
+    v_source := CASE WHEN auth.uid() IS NOT NULL THEN 'user' ELSE 'system' END;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.post_status_events (post_id, user_id, from_status, to_status, source, reason)
+    VALUES (NEW.id, NEW.user_id, NULL, NEW.status, v_source, COALESCE(v_reason, 'Created'));
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_post_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal post status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation', HINT = 'illegal_post_status_transition';
+  END IF;
+
+  INSERT INTO public.post_status_events (post_id, user_id, from_status, to_status, source, reason)
+  VALUES (NEW.id, NEW.user_id, OLD.status, NEW.status, v_source, v_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_post_status_transition_on_update
+BEFORE UPDATE OF status ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_post_status_transition();
+
+CREATE TRIGGER record_post_status_on_insert
+AFTER INSERT ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_post_status_transition();
+
+-- The one write path for status changes. Runs as the caller, so RLS still
+-- limits users to their own posts. Same-status calls only apply p_updates.
+-- A success report for a post that never reported 'posting' steps through
+-- it so the timeline stays legal.
+CREATE OR REPLACE FUNCTION public.transition_post_status(
+  p_post_id UUID,
+  p_to_status TEXT,
+  p_source TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_updates JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_current TEXT;
+BEGIN
+  SELECT status INTO v_current FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM set_config('app.post_status_source', p_source, true);
+
+  IF v_current = 'pending' AND p_to_status = 'posted' THEN
+    PERFORM set_config('app.post_status_reason', 'Implied by success report', true);
+    UPDATE public.posts SET status = 'posting' WHERE id = p_post_id;
+  END IF;
+
+  PERFORM set_config('app.post_status_reason', COALESCE(p_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE public.posts p SET
+    status = p_to_status,
+    posted_at = CASE WHEN p_updates ? 'posted_at' THEN (p_updates->>'posted_at')::timestamptz ELSE p.posted_at END,
+    linkedin_post_url = CASE WHEN p_updates ? 'linkedin_post_url' THEN p_updates->>'linkedin_post_url' ELSE p.linkedin_post_url END,
+    linkedin_post_id = CASE WHEN p_updates ? 'linkedin_post_id' THEN p_updates->>'linkedin_post_id' ELSE p.linkedin_post_id END,
+    verified = CASE WHEN p_updates ? 'verified' THEN (p_updates->>'verified')::boolean ELSE p.verified END,
+    last_error = CASE WHEN p_updates ? 'last_error' THEN p_updates->>'last_error' ELSE p.last_error END,
+    retry_count = CASE WHEN p_updates ? 'retry_count' THEN (p_updates->>'retry_count')::integer ELSE p.retry_count END,
+    next_retry_at = CASE WHEN p_updates ? 'next_retry_at' THEN (p_updates->>'next_retry_at')::timestamptz ELSE p.next_retry_at END,
+    scheduled_time = CASE WHEN p_updates ? 'scheduled_time' THEN (p_updates->>'scheduled_time')::timestamptz ELSE p.scheduled_time END,
+    updated_at = now()
+  WHERE p.id = p_post_id
+  RETURNING p.*;
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
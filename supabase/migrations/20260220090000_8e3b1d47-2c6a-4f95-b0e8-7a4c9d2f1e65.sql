@@ -0,0 +1,62 @@
+-- AI providers for chat and image generation (see _shared/llmProviders.ts).
+-- Rows name the secret holding the API key; keys themselves stay in backend secrets.
+-- Providers are tried by priority (lowest first); agents can prefer one via
+-- agents.settings.llm = { provider, model }. On 429/402 (or 503 while a model loads) the next provider is used.
+CREATE TABLE public.ai_providers (
+  id TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('openai', 'anthropic', 'ollama', 'huggingface')),
+  base_url TEXT NOT NULL,
+  api_key_env TEXT,
+  chat_model TEXT,
+  image_model TEXT,
+  image_api TEXT CHECK (image_api IN ('images', 'chat')),
+  models TEXT[] NOT NULL DEFAULT '{}',
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_providers ENABLE ROW LEVEL SECURITY;
+
+-- Users pick a model per agent from the enabled providers
+CREATE POLICY "Authenticated users can view enabled AI providers"
+ON public.ai_providers
+FOR SELECT
+TO authenticated
+USING (is_enabled = true);
+
+CREATE POLICY "Admins can view all AI providers"
+ON public.ai_providers
+FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can insert AI providers"
+ON public.ai_providers
+FOR INSERT
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update AI providers"
+ON public.ai_providers
+FOR UPDATE
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete AI providers"
+ON public.ai_providers
+FOR DELETE
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_ai_providers_updated_at
+  BEFORE UPDATE ON public.ai_providers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Current setup: Hugging Face first for images, Lovable gateway for chat and image fallback
+INSERT INTO public.ai_providers (id, name, kind, base_url, api_key_env, chat_model, image_model, image_api, models, priority)
+VALUES
+  ('huggingface', 'Hugging Face', 'huggingface', 'https://api-inference.huggingface.co', 'HUGGINGFACE_API_KEY',
+    NULL, 'stabilityai/stable-diffusion-xl-base-1.0', NULL, '{}', 0),
+  ('lovable', 'Lovable AI Gateway', 'openai', 'https://ai.gateway.lovable.dev/v1', 'LOVABLE_API_KEY',
+    'google/gemini-3-flash-preview', 'google/gemini-3-pro-image-preview', 'chat',
+    ARRAY['google/gemini-3-flash-preview', 'google/gemini-2.5-pro', 'openai/gpt-5-mini'], 10);
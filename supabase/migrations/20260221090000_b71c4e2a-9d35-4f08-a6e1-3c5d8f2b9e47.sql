@@ -0,0 +1,125 @@
+-- Server-side chat: named threads per agent, messages belong to a thread,
+-- and drafts from the chat are stored as rows instead of localStorage.
+
+CREATE TABLE public.chat_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  -- NULL until named; the first user message fills it in (see trigger below)
+  title TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_threads_user_agent ON public.chat_threads(user_id, agent_id, last_message_at DESC);
+
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat threads"
+  ON public.chat_threads FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own chat threads"
+  ON public.chat_threads FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat threads"
+  ON public.chat_threads FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat threads"
+  ON public.chat_threads FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chat_threads_updated_at
+  BEFORE UPDATE ON public.chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Messages belong to a thread and are full-text searchable
+ALTER TABLE public.chat_messages
+  ADD COLUMN thread_id UUID REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX idx_chat_messages_thread ON public.chat_messages(thread_id, created_at DESC);
+CREATE INDEX idx_chat_messages_search ON public.chat_messages USING GIN (search_vector);
+
+-- Existing history becomes one thread per agent
+INSERT INTO public.chat_threads (user_id, agent_id, title, last_message_at, created_at)
+SELECT user_id, agent_id, 'Earlier conversation', MAX(created_at), MIN(created_at)
+FROM public.chat_messages
+WHERE agent_id IS NOT NULL
+GROUP BY user_id, agent_id;
+
+UPDATE public.chat_messages m
+SET thread_id = t.id
+FROM public.chat_threads t
+WHERE t.user_id = m.user_id AND t.agent_id = m.agent_id AND m.thread_id IS NULL;
+
+-- Keep the thread list ordered by activity and name untitled threads
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.thread_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.chat_threads SET
+    last_message_at = NEW.created_at,
+    title = CASE
+      WHEN title IS NULL AND NEW.role = 'user' THEN left(regexp_replace(NEW.content, '\s+', ' ', 'g'), 60)
+      ELSE title
+    END
+  WHERE id = NEW.thread_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER touch_chat_thread_on_message
+AFTER INSERT ON public.chat_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_chat_thread();
+
+-- Drafts written in the chat. post_id is set once the draft is queued as a post.
+CREATE TABLE public.post_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+  thread_id UUID REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  topic TEXT,
+  image_url TEXT,
+  image_prompt TEXT,
+  generate_image BOOLEAN NOT NULL DEFAULT false,
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_drafts_thread ON public.post_drafts(thread_id, created_at DESC);
+CREATE INDEX idx_post_drafts_user_agent ON public.post_drafts(user_id, agent_id);
+
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts"
+  ON public.post_drafts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own drafts"
+  ON public.post_drafts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts"
+  ON public.post_drafts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts"
+  ON public.post_drafts FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_post_drafts_updated_at
+  BEFORE UPDATE ON public.post_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
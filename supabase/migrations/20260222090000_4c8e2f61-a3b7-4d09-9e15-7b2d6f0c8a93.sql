@@ -0,0 +1,219 @@
+-- Review workflow ahead of the queue:
+--   draft → in_review → approved → pending → ...
+--   in_review → draft (changes requested)   approved → draft (reopened)
+--   draft → cancelled                        approved → cancelled
+-- Posts can still be created straight as 'pending' when no review is wanted;
+-- a post that went through review only reaches 'pending' from 'approved'.
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+  CHECK (status = ANY (ARRAY[
+    'draft',
+    'in_review',
+    'approved',
+    'pending',
+    'posting',
+    'posted',
+    'failed',
+    'cancelled'
+  ]::text[]));
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS reviewer_id UUID,
+  ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.posts.approved IS 'Approved by its reviewer (set by review_post)';
+
+CREATE INDEX IF NOT EXISTS idx_posts_reviewer ON public.posts(reviewer_id, status) WHERE reviewer_id IS NOT NULL;
+
+-- Mirrored in _shared/postStatus.ts
+CREATE OR REPLACE FUNCTION public.is_valid_post_status_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('in_review', 'cancelled')
+    WHEN 'in_review' THEN p_to IN ('approved', 'draft')
+    WHEN 'approved' THEN p_to IN ('pending', 'draft', 'cancelled')
+    WHEN 'pending' THEN p_to IN ('posting', 'cancelled')
+    WHEN 'posting' THEN p_to IN ('posted', 'failed')
+    WHEN 'failed' THEN p_to IN ('pending')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Reviewers see the posts assigned to them; changes go through the RPCs below
+CREATE POLICY "Reviewers can view posts assigned to them"
+ON public.posts
+FOR SELECT
+USING (auth.uid() = reviewer_id);
+
+-- Review comments. quoted_text/anchor_* pin a comment to a span of the
+-- content; general comments (and the note left with a decision) have none.
+CREATE TABLE public.post_review_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL,
+  body TEXT NOT NULL,
+  quoted_text TEXT,
+  anchor_start INTEGER,
+  anchor_end INTEGER,
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_post_review_comments_post ON public.post_review_comments(post_id, created_at);
+
+ALTER TABLE public.post_review_comments ENABLE ROW LEVEL SECURITY;
+
+-- The author and the reviewer of a post share its comments
+CREATE OR REPLACE FUNCTION public.is_post_participant(p_post_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = p_post_id AND (user_id = p_user_id OR reviewer_id = p_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Participants can view review comments"
+ON public.post_review_comments
+FOR SELECT
+USING (public.is_post_participant(post_id, auth.uid()));
+
+CREATE POLICY "Participants can add review comments"
+ON public.post_review_comments
+FOR INSERT
+WITH CHECK (auth.uid() = author_id AND public.is_post_participant(post_id, auth.uid()));
+
+CREATE POLICY "Participants can resolve review comments"
+ON public.post_review_comments
+FOR UPDATE
+USING (public.is_post_participant(post_id, auth.uid()));
+
+CREATE POLICY "Authors can delete their own review comments"
+ON public.post_review_comments
+FOR DELETE
+USING (auth.uid() = author_id);
+
+CREATE TRIGGER update_post_review_comments_updated_at
+BEFORE UPDATE ON public.post_review_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ask someone to review a draft. The reviewer is found by their account email.
+CREATE OR REPLACE FUNCTION public.submit_post_for_review(
+  p_post_id UUID,
+  p_reviewer_email TEXT
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_post public.posts;
+  v_reviewer UUID;
+  v_author_name TEXT;
+BEGIN
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT user_id INTO v_reviewer FROM public.user_profiles
+  WHERE lower(email) = lower(trim(p_reviewer_email))
+  LIMIT 1;
+  IF v_reviewer IS NULL THEN
+    RAISE EXCEPTION 'No LinkedBot account uses %', p_reviewer_email USING HINT = 'reviewer_not_found';
+  END IF;
+  IF v_reviewer = v_post.user_id THEN
+    RAISE EXCEPTION 'You cannot review your own post' USING HINT = 'reviewer_is_author';
+  END IF;
+
+  PERFORM set_config('app.post_status_source', 'user', true);
+  PERFORM set_config('app.post_status_reason', 'Submitted for review', true);
+
+  RETURN QUERY
+  UPDATE public.posts SET
+    status = 'in_review',
+    reviewer_id = v_reviewer,
+    review_requested_at = now(),
+    reviewed_at = NULL,
+    approved = false,
+    updated_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+
+  SELECT COALESCE(name, email, 'A teammate') INTO v_author_name
+  FROM public.user_profiles WHERE user_id = v_post.user_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_reviewer,
+    'Review requested',
+    COALESCE(v_author_name, 'A teammate') || ' asked you to review a post: "' || left(v_post.content, 80) || '"',
+    'review'
+  );
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The reviewer's decision: 'approve' or 'request_changes', with an optional note
+CREATE OR REPLACE FUNCTION public.review_post(
+  p_post_id UUID,
+  p_decision TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_post public.posts;
+  v_to TEXT;
+  v_reviewer_name TEXT;
+BEGIN
+  IF p_decision NOT IN ('approve', 'request_changes') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_to := CASE p_decision WHEN 'approve' THEN 'approved' ELSE 'draft' END;
+
+  IF NULLIF(trim(p_comment), '') IS NOT NULL THEN
+    INSERT INTO public.post_review_comments (post_id, author_id, body)
+    VALUES (p_post_id, auth.uid(), trim(p_comment));
+  END IF;
+
+  PERFORM set_config('app.post_status_source', 'user', true);
+  PERFORM set_config('app.post_status_reason',
+    CASE p_decision WHEN 'approve' THEN 'Approved by reviewer' ELSE 'Changes requested' END, true);
+
+  -- The status trigger rejects decisions on posts that aren't in review
+  RETURN QUERY
+  UPDATE public.posts SET
+    status = v_to,
+    approved = (p_decision = 'approve'),
+    reviewed_at = now(),
+    updated_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+
+  SELECT COALESCE(name, email) INTO v_reviewer_name
+  FROM public.user_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_post.user_id,
+    CASE p_decision WHEN 'approve' THEN 'Post approved' ELSE 'Changes requested' END,
+    COALESCE(v_reviewer_name, 'Your reviewer') ||
+      CASE p_decision
+        WHEN 'approve' THEN ' approved your post - it is ready to queue: "'
+        ELSE ' asked for changes to your post: "'
+      END || left(v_post.content, 80) || '"',
+    'review'
+  );
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
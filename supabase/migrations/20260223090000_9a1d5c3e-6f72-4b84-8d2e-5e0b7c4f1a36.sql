@@ -0,0 +1,489 @@
+-- Team workspaces. Agents, reference materials, writing styles and posts
+-- (the content calendar) belong to a workspace, and every member sees what is
+-- in it. The member's role decides what they may change:
+--   owner    - everything, including members and billing
+--   editor   - create and edit agents, reference materials and posts
+--   reviewer - read, comment, and review posts assigned to them
+--   viewer   - read only
+-- Every user has a personal workspace; existing rows are moved into it.
+
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL,
+  is_personal BOOLEAN NOT NULL DEFAULT false,
+  subscription_plan TEXT NOT NULL DEFAULT 'free',
+  subscription_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_workspaces_personal ON public.workspaces(owner_id) WHERE is_personal;
+
+CREATE TABLE public.workspace_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'reviewer', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE INDEX idx_workspace_members_user ON public.workspace_members(user_id);
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_workspaces_updated_at
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_workspace_members_updated_at
+BEFORE UPDATE ON public.workspace_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The workspace the dashboard is showing; new rows land there by default
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS active_workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+-- ============================================
+-- Membership helpers (used by the RLS policies)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id UUID, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_workspace_role(p_workspace_id UUID, p_user_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = p_user_id AND role = ANY (p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Created on first use, with the plan the user had before workspaces existed
+CREATE OR REPLACE FUNCTION public.ensure_personal_workspace(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+  v_plan TEXT;
+  v_expires TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT id INTO v_id FROM public.workspaces WHERE owner_id = p_user_id AND is_personal;
+  IF v_id IS NOT NULL THEN
+    RETURN v_id;
+  END IF;
+
+  SELECT subscription_plan, subscription_expires_at INTO v_plan, v_expires
+  FROM public.user_profiles WHERE user_id = p_user_id;
+
+  INSERT INTO public.workspaces (name, owner_id, is_personal, subscription_plan, subscription_expires_at)
+  VALUES ('Personal', p_user_id, true, COALESCE(v_plan, 'free'), v_expires)
+  ON CONFLICT (owner_id) WHERE is_personal DO NOTHING
+  RETURNING id INTO v_id;
+
+  -- Lost a race with a concurrent insert
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM public.workspaces WHERE owner_id = p_user_id AND is_personal;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_id, p_user_id, 'owner')
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The user's active workspace while they still belong to it, otherwise their
+-- personal one. Edge functions (service role) may ask on behalf of any user.
+CREATE OR REPLACE FUNCTION public.default_workspace_id(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_active UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT active_workspace_id INTO v_active FROM public.user_profiles WHERE user_id = p_user_id;
+  IF v_active IS NOT NULL AND public.is_workspace_member(v_active, p_user_id) THEN
+    RETURN v_active;
+  END IF;
+
+  RETURN public.ensure_personal_workspace(p_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.current_workspace_id()
+RETURNS UUID AS $$
+  SELECT public.default_workspace_id(auth.uid());
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- Workspace ownership of existing tables
+-- ============================================
+
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.agent_reference_materials
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.user_writing_style
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+SELECT public.ensure_personal_workspace(user_id)
+FROM (
+  SELECT user_id FROM public.user_profiles
+  UNION SELECT user_id FROM public.agents
+  UNION SELECT user_id FROM public.posts
+  UNION SELECT user_id FROM public.agent_reference_materials
+  UNION SELECT user_id FROM public.user_writing_style
+) AS existing_users;
+
+UPDATE public.agents t SET workspace_id = w.id
+FROM public.workspaces w WHERE w.owner_id = t.user_id AND w.is_personal AND t.workspace_id IS NULL;
+UPDATE public.posts t SET workspace_id = w.id
+FROM public.workspaces w WHERE w.owner_id = t.user_id AND w.is_personal AND t.workspace_id IS NULL;
+UPDATE public.agent_reference_materials t SET workspace_id = w.id
+FROM public.workspaces w WHERE w.owner_id = t.user_id AND w.is_personal AND t.workspace_id IS NULL;
+UPDATE public.user_writing_style t SET workspace_id = w.id
+FROM public.workspaces w WHERE w.owner_id = t.user_id AND w.is_personal AND t.workspace_id IS NULL;
+UPDATE public.user_profiles p SET active_workspace_id = w.id
+FROM public.workspaces w WHERE w.owner_id = p.user_id AND w.is_personal AND p.active_workspace_id IS NULL;
+
+ALTER TABLE public.agents ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.posts ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.agent_reference_materials ALTER COLUMN workspace_id SET NOT NULL;
+ALTER TABLE public.user_writing_style ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_agents_workspace ON public.agents(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_posts_workspace ON public.posts(workspace_id, scheduled_time);
+CREATE INDEX IF NOT EXISTS idx_reference_materials_workspace ON public.agent_reference_materials(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_writing_style_workspace ON public.user_writing_style(workspace_id);
+
+-- Rows inserted without a workspace follow their agent, then the author's
+-- default workspace, so callers that predate workspaces keep working
+CREATE OR REPLACE FUNCTION public.set_row_workspace()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_agent_id UUID;
+BEGIN
+  IF NEW.workspace_id IS NULL THEN
+    v_agent_id := (to_jsonb(NEW) ->> 'agent_id')::UUID;
+    IF v_agent_id IS NOT NULL THEN
+      SELECT workspace_id INTO NEW.workspace_id FROM public.agents WHERE id = v_agent_id;
+    END IF;
+    IF NEW.workspace_id IS NULL THEN
+      NEW.workspace_id := public.default_workspace_id(NEW.user_id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_agents_workspace
+BEFORE INSERT ON public.agents
+FOR EACH ROW EXECUTE FUNCTION public.set_row_workspace();
+
+CREATE TRIGGER set_posts_workspace
+BEFORE INSERT ON public.posts
+FOR EACH ROW EXECUTE FUNCTION public.set_row_workspace();
+
+CREATE TRIGGER set_agent_reference_materials_workspace
+BEFORE INSERT ON public.agent_reference_materials
+FOR EACH ROW EXECUTE FUNCTION public.set_row_workspace();
+
+CREATE TRIGGER set_user_writing_style_workspace
+BEFORE INSERT ON public.user_writing_style
+FOR EACH ROW EXECUTE FUNCTION public.set_row_workspace();
+
+-- ============================================
+-- RLS: workspace membership replaces own-row access
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view their own agents" ON public.agents;
+DROP POLICY IF EXISTS "Users can create their own agents" ON public.agents;
+DROP POLICY IF EXISTS "Users can update their own agents" ON public.agents;
+DROP POLICY IF EXISTS "Users can delete their own agents" ON public.agents;
+
+CREATE POLICY "Workspace members can view agents"
+ON public.agents FOR SELECT
+USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+CREATE POLICY "Workspace editors can create agents"
+ON public.agents FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can update agents"
+ON public.agents FOR UPDATE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']))
+WITH CHECK (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can delete agents"
+ON public.agents FOR DELETE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Users can view their own posts" ON public.posts;
+DROP POLICY IF EXISTS "Users can insert their own posts" ON public.posts;
+DROP POLICY IF EXISTS "Users can update their own posts" ON public.posts;
+DROP POLICY IF EXISTS "Users can delete their own posts" ON public.posts;
+
+CREATE POLICY "Workspace members can view posts"
+ON public.posts FOR SELECT
+USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+CREATE POLICY "Workspace editors can create posts"
+ON public.posts FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can update posts"
+ON public.posts FOR UPDATE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']))
+WITH CHECK (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can delete posts"
+ON public.posts FOR DELETE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+DROP POLICY IF EXISTS "Users can view their own reference materials" ON public.agent_reference_materials;
+DROP POLICY IF EXISTS "Users can insert their own reference materials" ON public.agent_reference_materials;
+DROP POLICY IF EXISTS "Users can update their own reference materials" ON public.agent_reference_materials;
+DROP POLICY IF EXISTS "Users can delete their own reference materials" ON public.agent_reference_materials;
+
+CREATE POLICY "Workspace members can view reference materials"
+ON public.agent_reference_materials FOR SELECT
+USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+CREATE POLICY "Workspace editors can add reference materials"
+ON public.agent_reference_materials FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can update reference materials"
+ON public.agent_reference_materials FOR UPDATE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']))
+WITH CHECK (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+CREATE POLICY "Workspace editors can delete reference materials"
+ON public.agent_reference_materials FOR DELETE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner', 'editor']));
+
+-- A writing style describes one person, so only they change it; the rest of
+-- the workspace can read it
+DROP POLICY IF EXISTS "Users can view their own writing style" ON public.user_writing_style;
+
+CREATE POLICY "Workspace members can view writing styles"
+ON public.user_writing_style FOR SELECT
+USING (auth.uid() = user_id OR public.is_workspace_member(workspace_id, auth.uid()));
+
+-- Workspaces: members read, the owner renames/bills/deletes. Creating one and
+-- adding members go through the functions below.
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces FOR SELECT
+USING (public.is_workspace_member(id, auth.uid()));
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.has_workspace_role(id, auth.uid(), ARRAY['owner']));
+
+CREATE POLICY "Owners can delete team workspaces"
+ON public.workspaces FOR DELETE
+USING (NOT is_personal AND public.has_workspace_role(id, auth.uid(), ARRAY['owner']));
+
+CREATE POLICY "Members can view workspace members"
+ON public.workspace_members FOR SELECT
+USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+CREATE POLICY "Owners can change member roles"
+ON public.workspace_members FOR UPDATE
+USING (public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner']));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members FOR DELETE
+USING (auth.uid() = user_id OR public.has_workspace_role(workspace_id, auth.uid(), ARRAY['owner']));
+
+-- A workspace always keeps an owner (deleting the workspace itself is fine)
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND id <> OLD.id
+    )
+  THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner' USING HINT = 'last_owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_workspace_owner
+BEFORE UPDATE OR DELETE ON public.workspace_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_workspace_owner();
+
+-- ============================================
+-- Workspace functions
+-- ============================================
+
+-- New team workspace on the free plan, owned by the caller and made active
+CREATE OR REPLACE FUNCTION public.create_workspace(p_name TEXT)
+RETURNS SETOF public.workspaces AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Workspace name is required' USING HINT = 'name_required';
+  END IF;
+
+  INSERT INTO public.workspaces (name, owner_id)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_id, auth.uid(), 'owner');
+
+  UPDATE public.user_profiles SET active_workspace_id = v_id WHERE user_id = auth.uid();
+
+  RETURN QUERY SELECT * FROM public.workspaces WHERE id = v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owners add people by the email of their LinkedBot account
+CREATE OR REPLACE FUNCTION public.add_workspace_member(
+  p_workspace_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'viewer'
+)
+RETURNS SETOF public.workspace_members AS $$
+DECLARE
+  v_user UUID;
+  v_workspace_name TEXT;
+BEGIN
+  IF NOT public.has_workspace_role(p_workspace_id, auth.uid(), ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only workspace owners can add members' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_role NOT IN ('owner', 'editor', 'reviewer', 'viewer') THEN
+    RAISE EXCEPTION 'Unknown workspace role: %', p_role;
+  END IF;
+
+  SELECT user_id INTO v_user FROM public.user_profiles
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'No LinkedBot account uses %', p_email USING HINT = 'member_not_found';
+  END IF;
+  IF public.is_workspace_member(p_workspace_id, v_user) THEN
+    RAISE EXCEPTION '% is already a member', p_email USING HINT = 'already_member';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (p_workspace_id, v_user, p_role)
+  RETURNING *;
+
+  SELECT name INTO v_workspace_name FROM public.workspaces WHERE id = p_workspace_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_user,
+    'Added to a workspace',
+    'You were added to "' || v_workspace_name || '" as ' || p_role || '. Switch to it from the sidebar.',
+    'system'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Member list with names, which user_profiles RLS would otherwise hide
+CREATE OR REPLACE FUNCTION public.get_workspace_members(p_workspace_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  role TEXT,
+  name TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT m.id, m.user_id, m.role, p.name, p.email, m.created_at
+  FROM public.workspace_members m
+  LEFT JOIN public.user_profiles p ON p.user_id = m.user_id
+  WHERE m.workspace_id = p_workspace_id
+    AND public.is_workspace_member(p_workspace_id, auth.uid())
+  ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reviewers now come from the post's workspace (owner, editor or reviewer)
+CREATE OR REPLACE FUNCTION public.submit_post_for_review(
+  p_post_id UUID,
+  p_reviewer_email TEXT
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_post public.posts;
+  v_reviewer UUID;
+  v_author_name TEXT;
+BEGIN
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT user_id INTO v_reviewer FROM public.user_profiles
+  WHERE lower(email) = lower(trim(p_reviewer_email))
+  LIMIT 1;
+  IF v_reviewer IS NULL THEN
+    RAISE EXCEPTION 'No LinkedBot account uses %', p_reviewer_email USING HINT = 'reviewer_not_found';
+  END IF;
+  IF v_reviewer = v_post.user_id THEN
+    RAISE EXCEPTION 'You cannot review your own post' USING HINT = 'reviewer_is_author';
+  END IF;
+  IF NOT public.has_workspace_role(v_post.workspace_id, v_reviewer, ARRAY['owner', 'editor', 'reviewer']) THEN
+    RAISE EXCEPTION '% is not a reviewer in this workspace', p_reviewer_email USING HINT = 'reviewer_not_in_workspace';
+  END IF;
+
+  PERFORM set_config('app.post_status_source', 'user', true);
+  PERFORM set_config('app.post_status_reason', 'Submitted for review', true);
+
+  RETURN QUERY
+  UPDATE public.posts SET
+    status = 'in_review',
+    reviewer_id = v_reviewer,
+    review_requested_at = now(),
+    reviewed_at = NULL,
+    approved = false,
+    updated_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+
+  SELECT COALESCE(name, email, 'A teammate') INTO v_author_name
+  FROM public.user_profiles WHERE user_id = v_post.user_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_reviewer,
+    'Review requested',
+    COALESCE(v_author_name, 'A teammate') || ' asked you to review a post: "' || left(v_post.content, 80) || '"',
+    'review'
+  );
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,50 @@
+-- Every analytics scrape becomes a point in post_analytics_history.
+-- All scrape paths (sync-analytics, save-analytics, the extension's bulk
+-- scrape and the analytics cron) write the counters and last_synced_at on
+-- posts, so one trigger there records them all. get-analytics builds growth
+-- curves and velocity from these points (see _shared/analyticsSeries.ts).
+
+-- The same scrape arriving twice is kept once
+DELETE FROM public.post_analytics_history h
+USING public.post_analytics_history d
+WHERE h.post_id = d.post_id AND h.synced_at = d.synced_at AND h.id > d.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_history_post_synced
+  ON public.post_analytics_history(post_id, synced_at);
+
+CREATE OR REPLACE FUNCTION public.record_post_analytics_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.post_analytics_history (post_id, user_id, views, likes, comments, shares, synced_at)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    COALESCE(NEW.views_count, 0),
+    COALESCE(NEW.likes_count, 0),
+    COALESCE(NEW.comments_count, 0),
+    COALESCE(NEW.shares_count, 0),
+    NEW.last_synced_at
+  )
+  ON CONFLICT (post_id, synced_at) DO UPDATE SET
+    views = EXCLUDED.views,
+    likes = EXCLUDED.likes,
+    comments = EXCLUDED.comments,
+    shares = EXCLUDED.shares;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A scrape always stamps last_synced_at; resetting counters (new URL) doesn't
+CREATE TRIGGER record_post_analytics_history
+AFTER INSERT OR UPDATE OF last_synced_at ON public.posts
+FOR EACH ROW
+WHEN (NEW.last_synced_at IS NOT NULL)
+EXECUTE FUNCTION public.record_post_analytics_history();
+
+-- Seed the series with the latest snapshot of posts scraped before this
+INSERT INTO public.post_analytics_history (post_id, user_id, views, likes, comments, shares, synced_at)
+SELECT id, user_id, COALESCE(views_count, 0), COALESCE(likes_count, 0),
+       COALESCE(comments_count, 0), COALESCE(shares_count, 0), last_synced_at
+FROM public.posts
+WHERE last_synced_at IS NOT NULL
+ON CONFLICT (post_id, synced_at) DO NOTHING;
@@ -0,0 +1,111 @@
+-- Best-time-to-post engine (see _shared/bestTimes.ts).
+-- Posts are scored per follower at the time they went out, so follower counts
+-- are now kept as a history instead of only the latest value.
+
+CREATE TABLE public.linkedin_follower_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  followers_count INTEGER NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_follower_history_user_time
+  ON public.linkedin_follower_history(user_id, recorded_at);
+
+ALTER TABLE public.linkedin_follower_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follower history"
+  ON public.linkedin_follower_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- save-analytics and sync-profile both upsert linkedin_analytics
+CREATE OR REPLACE FUNCTION public.record_follower_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.followers_count, 0) > 0
+     AND (TG_OP = 'INSERT' OR NEW.followers_count IS DISTINCT FROM OLD.followers_count) THEN
+    INSERT INTO public.linkedin_follower_history (user_id, followers_count, recorded_at)
+    VALUES (NEW.user_id, NEW.followers_count, COALESCE(NEW.last_synced, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_follower_history
+AFTER INSERT OR UPDATE OF followers_count ON public.linkedin_analytics
+FOR EACH ROW
+EXECUTE FUNCTION public.record_follower_history();
+
+INSERT INTO public.linkedin_follower_history (user_id, followers_count, recorded_at)
+SELECT user_id, followers_count, COALESCE(last_synced, updated_at)
+FROM public.linkedin_analytics
+WHERE COALESCE(followers_count, 0) > 0;
+
+-- Scraped post dates are free text from the extension; unparseable ones are skipped
+CREATE OR REPLACE FUNCTION public.try_parse_timestamptz(p_value TEXT)
+RETURNS TIMESTAMPTZ AS $$
+BEGIN
+  RETURN p_value::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- One row per published post with its latest metrics and the follower count
+-- closest before it went out (earliest known count for older posts)
+CREATE OR REPLACE FUNCTION public.get_best_time_samples(p_user_id UUID)
+RETURNS TABLE (
+  posted_at TIMESTAMPTZ,
+  views INTEGER,
+  likes INTEGER,
+  comments INTEGER,
+  shares INTEGER,
+  followers INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scraped AS (
+    SELECT p.posted_at, p.linkedin_post_url AS linkedin_url,
+           p.views_count AS views, p.likes_count AS likes, p.comments_count AS comments,
+           p.shares_count AS shares, p.last_synced_at AS scraped_at
+    FROM posts p
+    WHERE p.user_id = p_user_id AND p.status = 'posted' AND p.last_synced_at IS NOT NULL
+    UNION ALL
+    SELECT COALESCE(p.posted_at, try_parse_timestamptz(pa.post_timestamp)), pa.linkedin_url,
+           pa.views, pa.likes, pa.comments, pa.shares, pa.scraped_at
+    FROM post_analytics pa
+    LEFT JOIN posts p ON p.id::text = pa.post_id AND p.user_id = pa.user_id
+    WHERE pa.user_id = p_user_id
+    UNION ALL
+    SELECT try_parse_timestamptz(h.post_date), h.linkedin_url,
+           h.views, h.likes, h.comments, h.shares, h.scraped_at
+    FROM linkedin_post_history h
+    WHERE h.user_id = p_user_id
+  ),
+  latest AS (
+    -- A post scraped through several paths counts once, with its freshest numbers
+    SELECT DISTINCT ON (COALESCE(s.linkedin_url, s.posted_at::text)) s.*
+    FROM scraped s
+    WHERE s.posted_at IS NOT NULL AND s.posted_at <= now()
+    ORDER BY COALESCE(s.linkedin_url, s.posted_at::text), s.scraped_at DESC NULLS LAST
+  )
+  SELECT
+    l.posted_at,
+    COALESCE(l.views, 0),
+    COALESCE(l.likes, 0),
+    COALESCE(l.comments, 0),
+    COALESCE(l.shares, 0),
+    COALESCE(
+      (SELECT f.followers_count FROM linkedin_follower_history f
+        WHERE f.user_id = p_user_id AND f.recorded_at <= l.posted_at
+        ORDER BY f.recorded_at DESC LIMIT 1),
+      (SELECT f.followers_count FROM linkedin_follower_history f
+        WHERE f.user_id = p_user_id
+        ORDER BY f.recorded_at ASC LIMIT 1)
+    )
+  FROM latest l
+  ORDER BY l.posted_at DESC
+  LIMIT 500;
+$$;
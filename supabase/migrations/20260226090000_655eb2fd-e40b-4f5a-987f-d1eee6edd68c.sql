@@ -0,0 +1,128 @@
+-- Retrieval over reference materials (see _shared/referenceChunks.ts).
+-- Materials can now come from a PDF, DOCX or Markdown file or a URL as well
+-- as typed text. ingest-reference-material extracts the text, splits it into
+-- chunks and embeds them; agent-chat retrieves only the chunks relevant to a
+-- request instead of pasting every material into the prompt.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.agent_reference_materials
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'text'
+    CHECK (source IN ('text', 'markdown', 'pdf', 'docx', 'url')),
+  ADD COLUMN IF NOT EXISTS source_url TEXT,
+  ADD COLUMN IF NOT EXISTS file_path TEXT,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'ready', 'failed')),
+  ADD COLUMN IF NOT EXISTS error TEXT,
+  ADD COLUMN IF NOT EXISTS chunk_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMP WITH TIME ZONE;
+
+-- Embedding model per provider (OpenAI-compatible /embeddings); vectors are
+-- 1536 wide, e.g. text-embedding-3-small
+ALTER TABLE public.ai_providers
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- Chunks are written by the ingest function (service role) and read through
+-- match_reference_chunks; members of the material's workspace can read them.
+-- embedding is null when no embedding model was available - such chunks are
+-- still found by full-text search.
+CREATE TABLE public.agent_reference_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  material_id UUID NOT NULL REFERENCES public.agent_reference_materials(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  location TEXT,
+  content TEXT NOT NULL,
+  embedding extensions.vector(1536),
+  embedding_model TEXT,
+  search_vector tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(location, '') || ' ' || content)
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (material_id, chunk_index)
+);
+
+CREATE INDEX idx_reference_chunks_workspace ON public.agent_reference_chunks(workspace_id);
+CREATE INDEX idx_reference_chunks_search ON public.agent_reference_chunks USING gin (search_vector);
+CREATE INDEX idx_reference_chunks_embedding ON public.agent_reference_chunks
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.agent_reference_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workspace members can view reference chunks"
+ON public.agent_reference_chunks FOR SELECT
+USING (public.is_workspace_member(workspace_id, auth.uid()));
+
+-- Uploaded PDF/DOCX files, under the uploader's folder; only the ingest
+-- function (service role) reads them back
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reference-files', 'reference-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload reference files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'reference-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own reference files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'reference-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Best chunks for a request: nearest embeddings (same model only - vectors of
+-- different models aren't comparable) fused with full-text rank by reciprocal
+-- rank fusion. p_query is a to_tsquery OR-expression (see keywordQuery);
+-- without an embedding the ranking is full-text only. Scoped to a workspace,
+-- or to the user's own materials when p_workspace_id is null.
+CREATE OR REPLACE FUNCTION public.match_reference_chunks(
+  p_query TEXT,
+  p_query_embedding extensions.vector DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_workspace_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_match_count INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  material_id UUID,
+  title TEXT,
+  type TEXT,
+  location TEXT,
+  content TEXT,
+  score DOUBLE PRECISION
+) AS $$
+  WITH scoped AS (
+    SELECT c.*
+    FROM public.agent_reference_chunks c
+    WHERE (p_workspace_id IS NOT NULL AND c.workspace_id = p_workspace_id)
+       OR (p_workspace_id IS NULL AND c.user_id = p_user_id)
+  ),
+  semantic AS (
+    SELECT s.id, row_number() OVER (ORDER BY s.embedding <=> p_query_embedding) AS rank
+    FROM scoped s
+    WHERE p_query_embedding IS NOT NULL
+      AND s.embedding IS NOT NULL
+      AND s.embedding_model = p_embedding_model
+    ORDER BY s.embedding <=> p_query_embedding
+    LIMIT p_match_count * 4
+  ),
+  keyword AS (
+    SELECT s.id, row_number() OVER (ORDER BY ts_rank_cd(s.search_vector, q.query) DESC) AS rank
+    FROM scoped s, to_tsquery('english', coalesce(p_query, '')) AS q(query)
+    WHERE coalesce(p_query, '') <> '' AND s.search_vector @@ q.query
+    ORDER BY ts_rank_cd(s.search_vector, q.query) DESC
+    LIMIT p_match_count * 4
+  ),
+  fused AS (
+    SELECT ranked.id, sum(1.0 / (60 + ranked.rank))::DOUBLE PRECISION AS score
+    FROM (SELECT * FROM semantic UNION ALL SELECT * FROM keyword) ranked
+    GROUP BY ranked.id
+  )
+  SELECT c.id, c.material_id, m.title, m.type, c.location, c.content, f.score
+  FROM fused f
+  JOIN public.agent_reference_chunks c ON c.id = f.id
+  JOIN public.agent_reference_materials m ON m.id = c.material_id
+  ORDER BY f.score DESC, c.chunk_index
+  LIMIT p_match_count;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
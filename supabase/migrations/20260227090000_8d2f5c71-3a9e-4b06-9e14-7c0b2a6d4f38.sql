@@ -0,0 +1,59 @@
+-- Research providers for the agent's research_topic tool (see
+-- _shared/research.ts): RSS/Atom feeds the user subscribes to, a per-topic
+-- result cache, and the sources each draft/post was written from so they can
+-- be fact-checked before publishing.
+
+CREATE TABLE public.research_feeds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  url TEXT NOT NULL,
+  title TEXT,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, url)
+);
+
+ALTER TABLE public.research_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own research feeds"
+  ON public.research_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own research feeds"
+  ON public.research_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own research feeds"
+  ON public.research_feeds FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own research feeds"
+  ON public.research_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Written by agent-chat (service role); cache_key covers the topic and which
+-- providers answered, so adding a feed or search key isn't hidden by old results
+CREATE TABLE public.research_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  cache_key TEXT NOT NULL,
+  result JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, cache_key)
+);
+
+CREATE INDEX idx_research_cache_expires ON public.research_cache(expires_at);
+
+ALTER TABLE public.research_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own research cache"
+  ON public.research_cache FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- [{ title, url, snippet, publishedAt, provider }]
+ALTER TABLE public.post_drafts
+  ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS sources JSONB NOT NULL DEFAULT '[]'::jsonb;
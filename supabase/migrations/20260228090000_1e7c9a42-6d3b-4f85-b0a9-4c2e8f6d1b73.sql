@@ -0,0 +1,7 @@
+-- Writing-style fingerprint computed from linkedin_post_history (see
+-- _shared/styleFingerprint.ts) instead of what the extension reports.
+-- style_version is the analyzer version that produced style_profile; older
+-- profiles are recomputed when get-agent-context next reads them.
+ALTER TABLE public.user_writing_style
+  ADD COLUMN IF NOT EXISTS style_profile JSONB,
+  ADD COLUMN IF NOT EXISTS style_version INTEGER;
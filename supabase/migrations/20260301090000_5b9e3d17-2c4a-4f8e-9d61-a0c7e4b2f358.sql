@@ -0,0 +1,96 @@
+-- A/B post variants (see _shared/postVariants.ts).
+-- The agent's draft_variants tool writes 2-4 drafts of one post that share a
+-- variant_group_id and differ along one dimension (hook, length or tone).
+-- When the user keeps one, the pick is recorded with the styles it beat.
+
+ALTER TABLE public.post_drafts
+  ADD COLUMN variant_group_id UUID,
+  ADD COLUMN variant_dimension TEXT CHECK (variant_dimension IN ('hook', 'length', 'tone')),
+  ADD COLUMN variant_style TEXT;
+
+CREATE INDEX idx_post_drafts_variant_group ON public.post_drafts(variant_group_id)
+  WHERE variant_group_id IS NOT NULL;
+
+CREATE TABLE public.post_variant_choices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL,
+  dimension TEXT NOT NULL CHECK (dimension IN ('hook', 'length', 'tone')),
+  chosen_style TEXT NOT NULL,
+  offered_styles TEXT[] NOT NULL,
+  draft_id UUID REFERENCES public.post_drafts(id) ON DELETE SET NULL,
+  -- Set once the kept draft is queued as a post, so its metrics can be joined
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, group_id)
+);
+
+CREATE INDEX idx_post_variant_choices_user_agent ON public.post_variant_choices(user_id, agent_id, created_at DESC);
+
+ALTER TABLE public.post_variant_choices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own variant choices"
+  ON public.post_variant_choices FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own variant choices"
+  ON public.post_variant_choices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own variant choices"
+  ON public.post_variant_choices FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Drafts outlive neither their thread nor a reset chat, so the post is copied
+-- onto the choice as soon as the kept draft is queued
+CREATE OR REPLACE FUNCTION public.link_variant_choice_post()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.post_id IS NOT NULL AND NEW.post_id IS DISTINCT FROM OLD.post_id THEN
+    UPDATE public.post_variant_choices
+    SET post_id = NEW.post_id
+    WHERE draft_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER link_variant_choice_post
+AFTER UPDATE OF post_id ON public.post_drafts
+FOR EACH ROW
+EXECUTE FUNCTION public.link_variant_choice_post();
+
+-- The user's picks for one agent, newest first, with the latest metrics of
+-- the kept post once it has been published (post_analytics first, then the
+-- counts synced onto the post itself)
+CREATE OR REPLACE FUNCTION public.get_variant_choice_samples(p_user_id UUID, p_agent_id UUID)
+RETURNS TABLE (
+  dimension TEXT,
+  chosen_style TEXT,
+  offered_styles TEXT[],
+  views INTEGER,
+  likes INTEGER,
+  comments INTEGER,
+  shares INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.dimension, c.chosen_style, c.offered_styles,
+         COALESCE(pa.views, p.views_count), COALESCE(pa.likes, p.likes_count),
+         COALESCE(pa.comments, p.comments_count), COALESCE(pa.shares, p.shares_count)
+  FROM post_variant_choices c
+  LEFT JOIN posts p ON p.id = c.post_id AND p.status = 'posted'
+  LEFT JOIN LATERAL (
+    SELECT a.views, a.likes, a.comments, a.shares
+    FROM post_analytics a
+    WHERE a.post_id = p.id::text AND a.user_id = c.user_id
+    ORDER BY a.scraped_at DESC NULLS LAST
+    LIMIT 1
+  ) pa ON true
+  WHERE c.user_id = p_user_id AND c.agent_id = p_agent_id
+  ORDER BY c.created_at DESC
+  LIMIT 200;
+$$;
@@ -0,0 +1,37 @@
+-- Reconciliation between posts and the extension's local queue (see
+-- _shared/queueReconciliation.ts and the reconcile-queue function).
+-- Each report fixes what it can in the extension; the rest is recorded here
+-- until the user deals with it or a later report no longer sees it.
+
+CREATE TABLE public.queue_discrepancies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  -- The extension item, or the post for missing_overdue
+  item_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('missing_overdue', 'foreign_item')),
+  message TEXT NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution TEXT CHECK (resolution IN ('auto', 'dismissed', 'resent', 'cancelled'))
+);
+
+-- One open discrepancy per item
+CREATE UNIQUE INDEX idx_queue_discrepancies_open
+  ON public.queue_discrepancies(user_id, kind, item_id)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE public.queue_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own queue discrepancies"
+  ON public.queue_discrepancies FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can resolve their own queue discrepancies"
+  ON public.queue_discrepancies FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Last time the extension reported its queue, for the dashboard
+ALTER TABLE public.user_profiles
+  ADD COLUMN extension_queue_reported_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,188 @@
+-- Publish outcomes: one record per published post, so the extension's repeated
+-- success reports (post-success, sync-post, retries of either) are no-ops.
+-- A delivery is a repeat when it matches an existing record by post, by the
+-- post's tracking id or by the LinkedIn activity id - the same LinkedIn post
+-- reported against two of our posts is still counted once. Only the first
+-- delivery bumps the user's counters, notifies them and refreshes the agent's
+-- stats (see _shared/publishOutcomes.ts).
+
+CREATE TABLE public.post_publish_outcomes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  tracking_id TEXT,
+  linkedin_activity_id TEXT,
+  linkedin_post_url TEXT,
+  -- Which function recorded it first ('backfill' for posts published before this)
+  source TEXT NOT NULL CHECK (source IN ('post-success', 'sync-post', 'backfill')),
+  delivery_count INTEGER NOT NULL DEFAULT 1,
+  first_delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The dedupe keys
+CREATE UNIQUE INDEX idx_post_publish_outcomes_post ON public.post_publish_outcomes(post_id);
+CREATE UNIQUE INDEX idx_post_publish_outcomes_tracking
+  ON public.post_publish_outcomes(user_id, tracking_id)
+  WHERE tracking_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_post_publish_outcomes_activity
+  ON public.post_publish_outcomes(linkedin_activity_id)
+  WHERE linkedin_activity_id IS NOT NULL;
+
+ALTER TABLE public.post_publish_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own publish outcomes"
+  ON public.post_publish_outcomes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- An agent's published count and success rate, recomputed from its posts
+-- rather than incremented, so they can't drift: published = posts with a
+-- publish outcome, success rate = published / (published + failed).
+CREATE OR REPLACE FUNCTION public.refresh_agent_publish_stats(p_agent_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_published INTEGER;
+  v_failed INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_published
+  FROM public.post_publish_outcomes o
+  JOIN public.posts p ON p.id = o.post_id
+  WHERE p.agent_id = p_agent_id;
+
+  SELECT COUNT(*) INTO v_failed
+  FROM public.posts
+  WHERE agent_id = p_agent_id AND status = 'failed';
+
+  UPDATE public.agents SET
+    posts_published = v_published,
+    success_rate = CASE
+      WHEN v_published + v_failed = 0 THEN 100
+      ELSE ROUND(100.0 * v_published / (v_published + v_failed))
+    END
+  WHERE id = p_agent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Failures (and retries out of them) change the success rate too
+CREATE OR REPLACE FUNCTION public.refresh_agent_publish_stats_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_agent_publish_stats(NEW.agent_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_agent_stats_on_status
+AFTER UPDATE OF status ON public.posts
+FOR EACH ROW
+WHEN (NEW.agent_id IS NOT NULL AND OLD.status IS DISTINCT FROM NEW.status
+      AND (OLD.status = 'failed' OR NEW.status = 'failed'))
+EXECUTE FUNCTION public.refresh_agent_publish_stats_trigger();
+
+-- Record a success report for a post that is already 'posted'. The first
+-- delivery inserts the outcome and applies the side effects in the same
+-- transaction; a repeat only counts the delivery and fills in a URL or
+-- activity id the first one lacked. Returns the outcome either way.
+CREATE OR REPLACE FUNCTION public.record_post_published(
+  p_post_id UUID,
+  p_source TEXT,
+  p_linkedin_post_url TEXT DEFAULT NULL,
+  p_linkedin_activity_id TEXT DEFAULT NULL,
+  p_notification_title TEXT DEFAULT 'Post Published ✅',
+  p_notification_message TEXT DEFAULT 'Your LinkedIn post has been published successfully!'
+)
+RETURNS TABLE (
+  id UUID,
+  post_id UUID,
+  linkedin_post_url TEXT,
+  linkedin_activity_id TEXT,
+  delivery_count INTEGER,
+  first_delivered_at TIMESTAMP WITH TIME ZONE,
+  first_delivery BOOLEAN
+) AS $$
+DECLARE
+  v_post RECORD;
+  v_id UUID;
+  v_first BOOLEAN := true;
+BEGIN
+  SELECT p.id, p.user_id, p.tracking_id, p.agent_id INTO v_post
+  FROM public.posts p WHERE p.id = p_post_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.post_publish_outcomes AS o
+    (post_id, user_id, tracking_id, linkedin_activity_id, linkedin_post_url, source)
+  VALUES (v_post.id, v_post.user_id, v_post.tracking_id, p_linkedin_activity_id, p_linkedin_post_url, p_source)
+  ON CONFLICT DO NOTHING
+  RETURNING o.id INTO v_id;
+
+  IF v_id IS NULL THEN
+    v_first := false;
+
+    SELECT o.id INTO v_id
+    FROM public.post_publish_outcomes o
+    WHERE o.post_id = v_post.id
+       OR (o.user_id = v_post.user_id AND o.tracking_id = v_post.tracking_id)
+       OR o.linkedin_activity_id = p_linkedin_activity_id
+    ORDER BY (o.post_id = v_post.id) DESC, o.first_delivered_at
+    LIMIT 1
+    FOR UPDATE;
+
+    UPDATE public.post_publish_outcomes o SET
+      delivery_count = o.delivery_count + 1,
+      last_delivered_at = now(),
+      linkedin_post_url = COALESCE(o.linkedin_post_url, p_linkedin_post_url),
+      linkedin_activity_id = COALESCE(o.linkedin_activity_id, (
+        SELECT p_linkedin_activity_id WHERE NOT EXISTS (
+          SELECT 1 FROM public.post_publish_outcomes other
+          WHERE other.linkedin_activity_id = p_linkedin_activity_id
+        )
+      ))
+    WHERE o.id = v_id;
+  ELSE
+    PERFORM public.increment_daily_post_count(v_post.user_id);
+
+    UPDATE public.user_profiles
+    SET posts_published_count = COALESCE(posts_published_count, 0) + 1,
+        updated_at = now()
+    WHERE user_id = v_post.user_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (v_post.user_id, p_notification_title, p_notification_message, 'post');
+
+    IF v_post.agent_id IS NOT NULL THEN
+      PERFORM public.refresh_agent_publish_stats(v_post.agent_id);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT o.id, o.post_id, o.linkedin_post_url, o.linkedin_activity_id, o.delivery_count, o.first_delivered_at, v_first
+  FROM public.post_publish_outcomes o
+  WHERE o.id = v_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Posts already published count as delivered, so a late repeat of their
+-- success report is a no-op too. Activity ids as in linkedinActivityId().
+INSERT INTO public.post_publish_outcomes
+  (post_id, user_id, tracking_id, linkedin_activity_id, linkedin_post_url, source, first_delivered_at, last_delivered_at)
+SELECT
+  p.id,
+  p.user_id,
+  p.tracking_id,
+  COALESCE(
+    substring(p.linkedin_post_url FROM '(?:activity|share|ugcPost)[:-](\d{15,20})'),
+    substring(p.linkedin_post_id FROM '^(?:urn:li:(?:activity|share|ugcPost):)?(\d{15,20})$')
+  ),
+  p.linkedin_post_url,
+  'backfill',
+  COALESCE(p.posted_at, p.updated_at, p.created_at),
+  COALESCE(p.posted_at, p.updated_at, p.created_at)
+FROM public.posts p
+WHERE p.status = 'posted'
+ORDER BY p.posted_at NULLS LAST
+ON CONFLICT DO NOTHING;
+
+-- Start every agent from its real numbers
+SELECT public.refresh_agent_publish_stats(id) FROM public.agents;
@@ -0,0 +1,53 @@
+-- Only the service role (edge functions, cron) may say where a status change
+-- came from. A signed-in caller could otherwise pass 'extension' or 'cron'
+-- and have their own edits recorded as automatic ones on the timeline, so
+-- for them the source is always 'user'.
+
+CREATE OR REPLACE FUNCTION public.transition_post_status(
+  p_post_id UUID,
+  p_to_status TEXT,
+  p_source TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_updates JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_current TEXT;
+BEGIN
+  SELECT status INTO v_current FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    p_source := 'user';
+  END IF;
+
+  PERFORM set_config('app.post_status_source', p_source, true);
+
+  IF v_current = 'pending' AND p_to_status = 'posted' THEN
+    PERFORM set_config('app.post_status_reason', 'Implied by success report', true);
+    UPDATE public.posts SET status = 'posting' WHERE id = p_post_id;
+  END IF;
+
+  PERFORM set_config('app.post_status_reason', COALESCE(p_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE public.posts p SET
+    status = p_to_status,
+    posted_at = CASE WHEN p_updates ? 'posted_at' THEN (p_updates->>'posted_at')::timestamptz ELSE p.posted_at END,
+    linkedin_post_url = CASE WHEN p_updates ? 'linkedin_post_url' THEN p_updates->>'linkedin_post_url' ELSE p.linkedin_post_url END,
+    linkedin_post_id = CASE WHEN p_updates ? 'linkedin_post_id' THEN p_updates->>'linkedin_post_id' ELSE p.linkedin_post_id END,
+    verified = CASE WHEN p_updates ? 'verified' THEN (p_updates->>'verified')::boolean ELSE p.verified END,
+    last_error = CASE WHEN p_updates ? 'last_error' THEN p_updates->>'last_error' ELSE p.last_error END,
+    retry_count = CASE WHEN p_updates ? 'retry_count' THEN (p_updates->>'retry_count')::integer ELSE p.retry_count END,
+    next_retry_at = CASE WHEN p_updates ? 'next_retry_at' THEN (p_updates->>'next_retry_at')::timestamptz ELSE p.next_retry_at END,
+    scheduled_time = CASE WHEN p_updates ? 'scheduled_time' THEN (p_updates->>'scheduled_time')::timestamptz ELSE p.scheduled_time END,
+    updated_at = now()
+  WHERE p.id = p_post_id
+  RETURNING p.*;
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,47 @@
+-- Plans are paid for: only the service role (razorpay-payment) may set them.
+-- The owners' update policy on workspaces stays for renaming, and users keep
+-- editing their own profiles, but neither can touch the plan columns.
+
+CREATE OR REPLACE FUNCTION public.protect_subscription_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.subscription_plan, 'free') <> 'free' OR NEW.subscription_expires_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Plans can only be changed through billing'
+        USING ERRCODE = 'insufficient_privilege', HINT = 'plan_read_only';
+    END IF;
+  ELSIF NEW.subscription_plan IS DISTINCT FROM OLD.subscription_plan
+     OR NEW.subscription_expires_at IS DISTINCT FROM OLD.subscription_expires_at THEN
+    RAISE EXCEPTION 'Plans can only be changed through billing'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'plan_read_only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Workspaces are only inserted by functions that pick the plan themselves
+CREATE TRIGGER protect_workspace_subscription
+BEFORE UPDATE ON public.workspaces
+FOR EACH ROW EXECUTE FUNCTION public.protect_subscription_columns();
+
+CREATE TRIGGER protect_profile_subscription
+BEFORE INSERT OR UPDATE ON public.user_profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_subscription_columns();
+
+-- It creates a workspace for any user id; only default_workspace_id (which
+-- checks the caller) and the service role may call it
+REVOKE EXECUTE ON FUNCTION public.ensure_personal_workspace(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ensure_personal_workspace(UUID) TO service_role;
+
+-- The coupons useSubscription used to apply in the browser, now redeemed
+-- (and checked) by razorpay-payment's redeem_coupon action
+INSERT INTO public.coupons (code, type, value, plan, duration_days)
+VALUES
+  ('FREE2026', 'percentage', 100, 'pro', 30),
+  ('BUSS2026', 'percentage', 100, 'business', 30)
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,100 @@
+-- Every path that publishes a post records it through record_post_published,
+-- so the cron's auto-mark (check-overdue-posts, 'cron') and the web app's
+-- extension listener ('web') share the dedupe with post-success and
+-- sync-post. Signed-in callers may only record their own published posts,
+-- and always as 'web'.
+
+ALTER TABLE public.post_publish_outcomes DROP CONSTRAINT post_publish_outcomes_source_check;
+ALTER TABLE public.post_publish_outcomes ADD CONSTRAINT post_publish_outcomes_source_check
+  CHECK (source IN ('post-success', 'sync-post', 'cron', 'web', 'backfill'));
+
+CREATE OR REPLACE FUNCTION public.record_post_published(
+  p_post_id UUID,
+  p_source TEXT,
+  p_linkedin_post_url TEXT DEFAULT NULL,
+  p_linkedin_activity_id TEXT DEFAULT NULL,
+  p_notification_title TEXT DEFAULT 'Post Published ✅',
+  p_notification_message TEXT DEFAULT 'Your LinkedIn post has been published successfully!'
+)
+RETURNS TABLE (
+  id UUID,
+  post_id UUID,
+  linkedin_post_url TEXT,
+  linkedin_activity_id TEXT,
+  delivery_count INTEGER,
+  first_delivered_at TIMESTAMP WITH TIME ZONE,
+  first_delivery BOOLEAN
+) AS $$
+DECLARE
+  v_post RECORD;
+  v_id UUID;
+  v_first BOOLEAN := true;
+BEGIN
+  SELECT p.id, p.user_id, p.tracking_id, p.agent_id, p.status INTO v_post
+  FROM public.posts p WHERE p.id = p_post_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- The web app records its own posts once they're published, as 'web'
+  IF auth.uid() IS NOT NULL THEN
+    IF v_post.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Not allowed' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF v_post.status <> 'posted' THEN
+      RAISE EXCEPTION 'Post % is not published', p_post_id USING HINT = 'not_posted';
+    END IF;
+    p_source := 'web';
+  END IF;
+
+  INSERT INTO public.post_publish_outcomes AS o
+    (post_id, user_id, tracking_id, linkedin_activity_id, linkedin_post_url, source)
+  VALUES (v_post.id, v_post.user_id, v_post.tracking_id, p_linkedin_activity_id, p_linkedin_post_url, p_source)
+  ON CONFLICT DO NOTHING
+  RETURNING o.id INTO v_id;
+
+  IF v_id IS NULL THEN
+    v_first := false;
+
+    SELECT o.id INTO v_id
+    FROM public.post_publish_outcomes o
+    WHERE o.post_id = v_post.id
+       OR (o.user_id = v_post.user_id AND o.tracking_id = v_post.tracking_id)
+       OR o.linkedin_activity_id = p_linkedin_activity_id
+    ORDER BY (o.post_id = v_post.id) DESC, o.first_delivered_at
+    LIMIT 1
+    FOR UPDATE;
+
+    UPDATE public.post_publish_outcomes o SET
+      delivery_count = o.delivery_count + 1,
+      last_delivered_at = now(),
+      linkedin_post_url = COALESCE(o.linkedin_post_url, p_linkedin_post_url),
+      linkedin_activity_id = COALESCE(o.linkedin_activity_id, (
+        SELECT p_linkedin_activity_id WHERE NOT EXISTS (
+          SELECT 1 FROM public.post_publish_outcomes other
+          WHERE other.linkedin_activity_id = p_linkedin_activity_id
+        )
+      ))
+    WHERE o.id = v_id;
+  ELSE
+    PERFORM public.increment_daily_post_count(v_post.user_id);
+
+    UPDATE public.user_profiles
+    SET posts_published_count = COALESCE(posts_published_count, 0) + 1,
+        updated_at = now()
+    WHERE user_id = v_post.user_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (v_post.user_id, p_notification_title, p_notification_message, 'post');
+
+    IF v_post.agent_id IS NOT NULL THEN
+      PERFORM public.refresh_agent_publish_stats(v_post.agent_id);
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT o.id, o.post_id, o.linkedin_post_url, o.linkedin_activity_id, o.delivery_count, o.first_delivered_at, v_first
+  FROM public.post_publish_outcomes o
+  WHERE o.id = v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
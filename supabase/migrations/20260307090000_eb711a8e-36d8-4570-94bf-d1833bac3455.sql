@@ -0,0 +1,12 @@
+-- A provider's API key is sent to its base_url, so api_key_env may only name
+-- an *_API_KEY secret and never a SUPABASE_* one (the service role key among
+-- them). Same rule as isAllowedApiKeyEnv in _shared/llmProviders.ts.
+
+-- Rows that break the rule stop using a key until an admin fixes them
+UPDATE public.ai_providers
+SET api_key_env = NULL, is_enabled = false
+WHERE api_key_env IS NOT NULL
+  AND (api_key_env !~ '^[A-Z0-9_]+_API_KEY$' OR api_key_env LIKE 'SUPABASE\_%');
+
+ALTER TABLE public.ai_providers ADD CONSTRAINT ai_providers_api_key_env_check
+  CHECK (api_key_env IS NULL OR (api_key_env ~ '^[A-Z0-9_]+_API_KEY$' AND api_key_env NOT LIKE 'SUPABASE\_%'));
@@ -0,0 +1,232 @@
+-- The status trigger checked which transitions are legal but not who made
+-- them, so an author could UPDATE their own post from in_review to approved
+-- and queue it without a reviewer. Any transition into or out of in_review
+-- or approved now needs the transaction-local app.post_review_step flag,
+-- which PostgREST can't set. submit_post_for_review and review_post set it;
+-- transition_post_status sets it only to leave approved (queue, reopen,
+-- cancel), which is the author's step once the reviewer has approved.
+
+CREATE OR REPLACE FUNCTION public.enforce_post_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_source TEXT := NULLIF(current_setting('app.post_status_source', true), '');
+  v_reason TEXT := NULLIF(current_setting('app.post_status_reason', true), '');
+  v_review_step BOOLEAN;
+BEGIN
+  IF v_source IS NULL THEN
+    v_source := CASE WHEN auth.uid() IS NOT NULL THEN 'user' ELSE 'system' END;
+  END IF;
+
+  -- Review states are entered and left only through the RPCs that set the
+  -- flag; the service role is trusted
+  v_review_step := COALESCE(current_setting('app.post_review_step', true), '') = 'on' OR auth.uid() IS NULL;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status IN ('in_review', 'approved') AND NOT v_review_step THEN
+      RAISE EXCEPTION 'Posts reach % only through review', NEW.status
+        USING ERRCODE = 'insufficient_privilege', HINT = 'review_required';
+    END IF;
+
+    INSERT INTO public.post_status_events (post_id, user_id, from_status, to_status, source, reason)
+    VALUES (NEW.id, NEW.user_id, NULL, NEW.status, v_source, COALESCE(v_reason, 'Created'));
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_post_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal post status transition: % -> %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation', HINT = 'illegal_post_status_transition';
+  END IF;
+
+  IF (OLD.status IN ('in_review', 'approved') OR NEW.status IN ('in_review', 'approved')) AND NOT v_review_step THEN
+    RAISE EXCEPTION 'Post status % -> % needs the review workflow', OLD.status, NEW.status
+      USING ERRCODE = 'insufficient_privilege', HINT = 'review_required';
+  END IF;
+
+  INSERT INTO public.post_status_events (post_id, user_id, from_status, to_status, source, reason)
+  VALUES (NEW.id, NEW.user_id, OLD.status, NEW.status, v_source, v_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.submit_post_for_review(
+  p_post_id UUID,
+  p_reviewer_email TEXT
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_post public.posts;
+  v_reviewer UUID;
+  v_author_name TEXT;
+BEGIN
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT user_id INTO v_reviewer FROM public.user_profiles
+  WHERE lower(email) = lower(trim(p_reviewer_email))
+  LIMIT 1;
+  IF v_reviewer IS NULL THEN
+    RAISE EXCEPTION 'No LinkedBot account uses %', p_reviewer_email USING HINT = 'reviewer_not_found';
+  END IF;
+  IF v_reviewer = v_post.user_id THEN
+    RAISE EXCEPTION 'You cannot review your own post' USING HINT = 'reviewer_is_author';
+  END IF;
+  IF NOT public.has_workspace_role(v_post.workspace_id, v_reviewer, ARRAY['owner', 'editor', 'reviewer']) THEN
+    RAISE EXCEPTION '% is not a reviewer in this workspace', p_reviewer_email USING HINT = 'reviewer_not_in_workspace';
+  END IF;
+
+  PERFORM set_config('app.post_status_source', 'user', true);
+  PERFORM set_config('app.post_review_step', 'on', true);
+  PERFORM set_config('app.post_status_reason', 'Submitted for review', true);
+
+  RETURN QUERY
+  UPDATE public.posts SET
+    status = 'in_review',
+    reviewer_id = v_reviewer,
+    review_requested_at = now(),
+    reviewed_at = NULL,
+    approved = false,
+    updated_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+
+  SELECT COALESCE(name, email, 'A teammate') INTO v_author_name
+  FROM public.user_profiles WHERE user_id = v_post.user_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_reviewer,
+    'Review requested',
+    COALESCE(v_author_name, 'A teammate') || ' asked you to review a post: "' || left(v_post.content, 80) || '"',
+    'review'
+  );
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_review_step', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.review_post(
+  p_post_id UUID,
+  p_decision TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_post public.posts;
+  v_to TEXT;
+  v_reviewer_name TEXT;
+BEGIN
+  IF p_decision NOT IN ('approve', 'request_changes') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', p_decision;
+  END IF;
+
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_to := CASE p_decision WHEN 'approve' THEN 'approved' ELSE 'draft' END;
+
+  IF NULLIF(trim(p_comment), '') IS NOT NULL THEN
+    INSERT INTO public.post_review_comments (post_id, author_id, body)
+    VALUES (p_post_id, auth.uid(), trim(p_comment));
+  END IF;
+
+  PERFORM set_config('app.post_status_source', 'user', true);
+  PERFORM set_config('app.post_review_step', 'on', true);
+  PERFORM set_config('app.post_status_reason',
+    CASE p_decision WHEN 'approve' THEN 'Approved by reviewer' ELSE 'Changes requested' END, true);
+
+  -- The status trigger rejects decisions on posts that aren't in review
+  RETURN QUERY
+  UPDATE public.posts SET
+    status = v_to,
+    approved = (p_decision = 'approve'),
+    reviewed_at = now(),
+    updated_at = now()
+  WHERE id = p_post_id
+  RETURNING *;
+
+  SELECT COALESCE(name, email) INTO v_reviewer_name
+  FROM public.user_profiles WHERE user_id = auth.uid();
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    v_post.user_id,
+    CASE p_decision WHEN 'approve' THEN 'Post approved' ELSE 'Changes requested' END,
+    COALESCE(v_reviewer_name, 'Your reviewer') ||
+      CASE p_decision
+        WHEN 'approve' THEN ' approved your post - it is ready to queue: "'
+        ELSE ' asked for changes to your post: "'
+      END || left(v_post.content, 80) || '"',
+    'review'
+  );
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_review_step', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.transition_post_status(
+  p_post_id UUID,
+  p_to_status TEXT,
+  p_source TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_updates JSONB DEFAULT '{}'::jsonb
+)
+RETURNS SETOF public.posts AS $$
+DECLARE
+  v_current TEXT;
+BEGIN
+  SELECT status INTO v_current FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    p_source := 'user';
+  END IF;
+
+  -- Leaving approved goes through here, never through a plain UPDATE
+  IF v_current = 'approved' THEN
+    PERFORM set_config('app.post_review_step', 'on', true);
+  END IF;
+
+  PERFORM set_config('app.post_status_source', p_source, true);
+
+  IF v_current = 'pending' AND p_to_status = 'posted' THEN
+    PERFORM set_config('app.post_status_reason', 'Implied by success report', true);
+    UPDATE public.posts SET status = 'posting' WHERE id = p_post_id;
+  END IF;
+
+  PERFORM set_config('app.post_status_reason', COALESCE(p_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE public.posts p SET
+    status = p_to_status,
+    posted_at = CASE WHEN p_updates ? 'posted_at' THEN (p_updates->>'posted_at')::timestamptz ELSE p.posted_at END,
+    linkedin_post_url = CASE WHEN p_updates ? 'linkedin_post_url' THEN p_updates->>'linkedin_post_url' ELSE p.linkedin_post_url END,
+    linkedin_post_id = CASE WHEN p_updates ? 'linkedin_post_id' THEN p_updates->>'linkedin_post_id' ELSE p.linkedin_post_id END,
+    verified = CASE WHEN p_updates ? 'verified' THEN (p_updates->>'verified')::boolean ELSE p.verified END,
+    last_error = CASE WHEN p_updates ? 'last_error' THEN p_updates->>'last_error' ELSE p.last_error END,
+    retry_count = CASE WHEN p_updates ? 'retry_count' THEN (p_updates->>'retry_count')::integer ELSE p.retry_count END,
+    next_retry_at = CASE WHEN p_updates ? 'next_retry_at' THEN (p_updates->>'next_retry_at')::timestamptz ELSE p.next_retry_at END,
+    scheduled_time = CASE WHEN p_updates ? 'scheduled_time' THEN (p_updates->>'scheduled_time')::timestamptz ELSE p.scheduled_time END,
+    updated_at = now()
+  WHERE p.id = p_post_id
+  RETURNING p.*;
+
+  PERFORM set_config('app.post_status_source', '', true);
+  PERFORM set_config('app.post_review_step', '', true);
+  PERFORM set_config('app.post_status_reason', '', true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
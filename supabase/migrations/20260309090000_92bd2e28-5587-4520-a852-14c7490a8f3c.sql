@@ -0,0 +1,39 @@
+-- A chat message may only land in one of its author's own threads. The
+-- insert policy only checked the message's user_id, and touch_chat_thread runs
+-- as definer, so a message pointing at someone else's thread_id could bump
+-- that thread and, while it was untitled, name it.
+
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.thread_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.chat_threads SET
+    last_message_at = NEW.created_at,
+    title = CASE
+      WHEN title IS NULL AND NEW.role = 'user' THEN left(regexp_replace(NEW.content, '\s+', ' ', 'g'), 60)
+      ELSE title
+    END
+  WHERE id = NEW.thread_id
+    AND user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Users can insert their own chat messages" ON public.chat_messages;
+
+CREATE POLICY "Users can insert their own chat messages"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      thread_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.chat_threads t
+        WHERE t.id = thread_id AND t.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,39 @@
+-- Workspace members can see a post's status history and publish outcome, and
+-- the chats and chat drafts of the workspace's agents, alongside the posts and
+-- agents themselves. These tables have no workspace_id of their own, so
+-- membership goes through the post or the agent; writes stay with the owner.
+
+CREATE POLICY "Workspace members can view post status events"
+ON public.post_status_events FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.posts p
+  WHERE p.id = post_id AND public.is_workspace_member(p.workspace_id, auth.uid())
+));
+
+CREATE POLICY "Workspace members can view publish outcomes"
+ON public.post_publish_outcomes FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.posts p
+  WHERE p.id = post_id AND public.is_workspace_member(p.workspace_id, auth.uid())
+));
+
+CREATE POLICY "Workspace members can view chat threads"
+ON public.chat_threads FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.agents a
+  WHERE a.id = agent_id AND public.is_workspace_member(a.workspace_id, auth.uid())
+));
+
+CREATE POLICY "Workspace members can view chat messages"
+ON public.chat_messages FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.agents a
+  WHERE a.id = agent_id AND public.is_workspace_member(a.workspace_id, auth.uid())
+));
+
+CREATE POLICY "Workspace members can view drafts"
+ON public.post_drafts FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.agents a
+  WHERE a.id = agent_id AND public.is_workspace_member(a.workspace_id, auth.uid())
+));